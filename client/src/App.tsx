@@ -5,6 +5,7 @@ import NotFound from "@/pages/not-found";
 import Layout from "@/components/Layout";
 import DashboardPage from "@/pages/DashboardPage";
 import LeadsPage from "@/pages/LeadsPage";
+import PipelinePage from "@/pages/PipelinePage";
 import AuthPage from "@/pages/AuthPage";
 import ConfigPage from "@/pages/ConfigPage";
 import SessionsPage from "@/pages/SessionsPage";
@@ -15,6 +16,7 @@ import WhatsappConfigPage from "@/pages/WhatsappConfigPage";
 import ReportPage from "@/pages/ReportPage";
 import TasksPage from "@/pages/TasksPage";
 import TaskDetailsPage from "@/pages/TaskDetailsPage";
+import FinancePage from "@/pages/FinancePage";
 import { FavaleIAPage } from "@/pages/FavaleIAPage";
 import ProtectedRoute from "@/components/ProtectedRoute";
 import { ThemeProvider } from "@/components/theme-provider";
@@ -23,6 +25,7 @@ import { WhatsappProvider } from "@/context/WhatsappContext";
 import { TaskProvider } from "@/context/TaskContext";
 import { AuthProvider } from "@/hooks/use-auth";
 import PrivacyPolicyPage from "@/pages/PrivacyPolicyPage";
+import StudentPortalPage from "@/pages/StudentPortalPage";
 import ErrorBoundary from "@/components/ErrorBoundary"; // Adicionado ErrorBoundary
 
 function Router() {
@@ -30,6 +33,7 @@ function Router() {
     <Switch>
       <ProtectedRoute path="/" component={DashboardPage} />
       <ProtectedRoute path="/leads" component={LeadsPage} />
+      <ProtectedRoute path="/funil" component={PipelinePage} />
       <ProtectedRoute path="/agendamentos" component={SessionsPage} />
       <ProtectedRoute path="/calendario" component={CalendarPage} />
       <ProtectedRoute path="/professores" component={ProfessorsPage} />
@@ -38,9 +42,11 @@ function Router() {
       <ProtectedRoute path="/favale-ia" component={FavaleIAPage} />
       <ProtectedRoute path="/tarefas" component={TasksPage} />
       <ProtectedRoute path="/tarefas/:id" component={TaskDetailsPage} />
+      <ProtectedRoute path="/financeiro" component={FinancePage} />
       <ProtectedRoute path="/config" component={ConfigPage} />
       <Route path="/auth" component={AuthPage} />
       <Route path="/politica-de-privacidade" component={PrivacyPolicyPage} />
+      <Route path="/portal" component={StudentPortalPage} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -48,7 +54,8 @@ function Router() {
 
 function App() {
   const [location] = useLocation();
-  const isAuthPage = location === "/auth";
+  // Login e portal do aluno ficam fora do layout da equipe
+  const isAuthPage = location === "/auth" || location === "/portal";
 
   return (
     <ThemeProvider>
@@ -40,6 +40,8 @@ export default function Header({ setSidebarOpen }: HeaderProps) {
         return "Dashboard";
       case "/leads":
         return "Leads";
+      case "/funil":
+        return "Funil de Vendas";
       case "/agendamentos":
         return "Agendamentos";
       case "/calendario":
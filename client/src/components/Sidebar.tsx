@@ -43,6 +43,7 @@ export default function Sidebar({ open, setOpen, expanded = true }: SidebarProps
   let navItems = [
     { path: "/", label: "Dashboard", icon: "dashboard" },
     { path: "/leads", label: "Leads", icon: "people" },
+    { path: "/funil", label: "Funil", icon: "view_kanban" },
     { path: "/agendamentos", label: "Agendamentos", icon: "calendar_today" },
     { path: "/calendario", label: "Calendário", icon: "event" },
     { path: "/professores", label: "Professores", icon: "school" },
@@ -51,6 +52,11 @@ export default function Sidebar({ open, setOpen, expanded = true }: SidebarProps
     { path: "/favale-ia", label: "FavaleIA", icon: "psychology" },
     { path: "/config", label: "Configurações", icon: "settings" },
   ];
+
+  // Módulo financeiro disponível apenas para administradores
+  if (user?.role === 'admin') {
+    navItems.splice(navItems.length - 1, 0, { path: "/financeiro", label: "Financeiro", icon: "payments" });
+  }
   
   
   const getNavClasses = (path: string) => {
@@ -1,32 +1,115 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Loader2, Search, RefreshCw, FileDown } from "lucide-react";
+import { Loader2, Search, RefreshCw, FileDown, ChevronLeft, ChevronRight } from "lucide-react";
 import { format } from 'date-fns';
 import { pt } from 'date-fns/locale';
 
 // Tipos para os logs de auditoria
 interface AuditLog {
+  id: number;
   timestamp: string;
   type: string;
-  userId: string | number;
+  userId: number | null;
   username: string;
   ip: string;
   details: any;
 }
 
+interface AuditLogPage {
+  logs: AuditLog[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+// Rótulos dos tipos de evento (valores de AuditEventType no servidor)
+const eventTypeLabels: Record<string, string> = {
+  login_success: 'Login com Sucesso',
+  login_failure: 'Falha no Login',
+  logout: 'Logout',
+  user_created: 'Usuário Criado',
+  user_deleted: 'Usuário Excluído',
+  password_changed: 'Senha Alterada',
+  lead_created: 'Lead Criado',
+  lead_updated: 'Lead Atualizado',
+  lead_deleted: 'Lead Excluído',
+  lead_batch_import: 'Importação em Lote de Leads',
+  lead_batch_update: 'Atualização em Lote de Leads',
+  lead_batch_delete: 'Exclusão em Lote de Leads',
+  task_created: 'Tarefa Criada',
+  task_updated: 'Tarefa Atualizada',
+  task_deleted: 'Tarefa Excluída',
+  session_created: 'Sessão Criada',
+  session_updated: 'Sessão Atualizada',
+  session_deleted: 'Sessão Excluída',
+  data_export: 'Exportação de Dados',
+  settings_changed: 'Configurações Alteradas',
+  whatsapp_config_changed: 'Configuração do WhatsApp Alterada',
+  whatsapp_message_sent: 'Mensagem de WhatsApp Enviada',
+  oauth_init: 'OAuth Iniciado',
+  oauth_success: 'OAuth Concluído',
+  oauth_error: 'Erro no OAuth',
+  oauth_revoke: 'OAuth Revogado',
+  email_retry: 'Reenvio de E-mail',
+  audit_log_purged: 'Limpeza de Logs de Auditoria',
+  financial_period_closed: 'Fechamento Financeiro',
+  financial_period_reopened: 'Reabertura de Período Financeiro',
+  payout_status_changed: 'Pagamento de Professor',
+  package_purchased: 'Compra de Pacote',
+  package_cancelled: 'Cancelamento de Pacote',
+  payment_recorded: 'Pagamento de Aluno',
+  aula_attendance_recorded: 'Presença na Aula',
+  aula_cancelled: 'Cancelamento de Aula',
+  waitlist_updated: 'Lista de Espera',
+  portal_access: 'Acesso ao Portal do Aluno',
+  portal_aula_changed: 'Aula Alterada pelo Aluno',
+  lead_stage_changed: 'Etapa do Lead Alterada',
+  lead_merged: 'Leads Duplicados Mesclados',
+  recurrence_occurrences_skipped: 'Aulas Recorrentes Não Geradas',
+};
+
 export default function AuditLogViewer() {
-  const [filter, setFilter] = useState<string>('');
-  const [eventType, setEventType] = useState<string>('');
-  const [limit, setLimit] = useState<number>(100);
+  const [search, setSearch] = useState<string>('');
+  const [debouncedSearch, setDebouncedSearch] = useState<string>('');
+  const [user, setUser] = useState<string>('');
+  const [debouncedUser, setDebouncedUser] = useState<string>('');
+  const [eventType, setEventType] = useState<string>('all');
+  const [startDate, setStartDate] = useState<string>('');
+  const [endDate, setEndDate] = useState<string>('');
+  const [pageSize, setPageSize] = useState<number>(50);
+  const [page, setPage] = useState<number>(1);
+
+  // Evitar uma requisição a cada tecla digitada nos campos de texto
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setDebouncedSearch(search.trim());
+      setDebouncedUser(user.trim());
+    }, 400);
+    return () => clearTimeout(timeout);
+  }, [search, user]);
 
-  const { data: logs, isLoading, isError, refetch } = useQuery<AuditLog[]>({
-    queryKey: ['/api/audit-logs', { count: limit }],
+  // Voltar para a primeira página sempre que um filtro mudar
+  useEffect(() => {
+    setPage(1);
+  }, [debouncedSearch, debouncedUser, eventType, startDate, endDate, pageSize]);
+
+  const params = new URLSearchParams({ page: String(page), pageSize: String(pageSize) });
+  if (debouncedSearch) params.set('search', debouncedSearch);
+  if (debouncedUser) params.set('user', debouncedUser);
+  if (eventType !== 'all') params.set('type', eventType);
+  if (startDate) params.set('startDate', startDate);
+  if (endDate) params.set('endDate', endDate);
+  const queryString = params.toString();
+
+  const { data, isLoading, isFetching, isError, refetch } = useQuery<AuditLogPage>({
+    queryKey: ['/api/audit-logs', queryString],
     queryFn: async () => {
-      const response = await fetch(`/api/audit-logs?count=${limit}`);
+      const response = await fetch(`/api/audit-logs?${queryString}`);
       if (!response.ok) {
         throw new Error('Falha ao carregar logs de auditoria');
       }
@@ -34,23 +117,23 @@ export default function AuditLogViewer() {
     },
   });
 
-  // Função para exportar logs para CSV
+  const logs = data?.logs || [];
+
+  // Função para exportar a página atual para CSV
   const exportToCSV = () => {
-    if (!logs) return;
+    if (logs.length === 0) return;
 
     const headers = ['Data e Hora', 'Tipo de Evento', 'Usuário', 'ID do Usuário', 'IP', 'Detalhes'];
     
     // Converter logs para linhas CSV
-    const rows = logs
-      .filter(log => filterLog(log))
-      .map(log => [
-        format(new Date(log.timestamp), 'dd/MM/yyyy HH:mm:ss', { locale: pt }),
-        log.type,
-        log.username,
-        log.userId,
-        log.ip,
-        JSON.stringify(log.details)
-      ]);
+    const rows = logs.map(log => [
+      format(new Date(log.timestamp), 'dd/MM/yyyy HH:mm:ss', { locale: pt }),
+      log.type,
+      log.username,
+      log.userId ?? '',
+      log.ip,
+      JSON.stringify(log.details).replace(/"/g, '""')
+    ]);
     
     // Combinar cabeçalho e linhas
     const csvContent = [
@@ -70,58 +153,8 @@ export default function AuditLogViewer() {
     document.body.removeChild(link);
   };
 
-  // Filtro de logs
-  const filterLog = (log: AuditLog) => {
-    // Filtrar por tipo de evento
-    if (eventType && eventType !== 'all' && log.type !== eventType) {
-      return false;
-    }
-    
-    // Filtrar por texto de pesquisa
-    if (filter) {
-      const searchLower = filter.toLowerCase();
-      return (
-        log.username.toLowerCase().includes(searchLower) ||
-        log.type.toLowerCase().includes(searchLower) ||
-        log.ip.toLowerCase().includes(searchLower) ||
-        JSON.stringify(log.details).toLowerCase().includes(searchLower)
-      );
-    }
-    
-    return true;
-  };
-
   // Formatar tipo de evento para exibição
-  const formatEventType = (type: string) => {
-    const eventTypes: Record<string, string> = {
-      LOGIN_SUCCESS: 'Login com Sucesso',
-      LOGIN_FAILURE: 'Falha no Login',
-      LOGOUT: 'Logout',
-      USER_CREATED: 'Usuário Criado',
-      USER_UPDATED: 'Usuário Atualizado',
-      USER_DELETED: 'Usuário Excluído',
-      LEAD_CREATED: 'Lead Criado',
-      LEAD_UPDATED: 'Lead Atualizado',
-      LEAD_DELETED: 'Lead Excluído',
-      LEAD_BATCH_UPDATE: 'Atualização em Lote de Leads',
-      LEAD_BATCH_DELETE: 'Exclusão em Lote de Leads'
-    };
-    
-    return eventTypes[type] || type;
-  };
-
-  // Obter tipos de eventos únicos para o filtro
-  const eventTypes = logs 
-    ? logs.reduce<string[]>((types, log) => {
-        if (!types.includes(log.type)) {
-          types.push(log.type);
-        }
-        return types;
-      }, [])
-    : [];
-
-  // Filtrar logs
-  const filteredLogs = logs?.filter(filterLog) || [];
+  const formatEventType = (type: string) => eventTypeLabels[type] || type;
 
   if (isError) {
     return (
@@ -146,50 +179,76 @@ export default function AuditLogViewer() {
         <CardDescription>Registro de atividades do sistema</CardDescription>
       </CardHeader>
       <CardContent>
-        <div className="flex flex-col md:flex-row gap-4 mb-6">
+        <div className="flex flex-col md:flex-row gap-4 mb-4">
           <div className="flex-1 relative">
             <Input
               placeholder="Pesquisar logs..."
-              value={filter}
-              onChange={(e) => setFilter(e.target.value)}
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
               className="pl-10"
             />
             <Search className="absolute left-3 top-2.5 h-5 w-5 text-gray-400" />
           </div>
+
+          <Input
+            placeholder="Usuário (nome ou ID)"
+            value={user}
+            onChange={(e) => setUser(e.target.value)}
+            className="w-full md:w-[200px]"
+          />
           
           <Select value={eventType} onValueChange={setEventType}>
-            <SelectTrigger className="w-full md:w-[200px]">
+            <SelectTrigger className="w-full md:w-[220px]">
               <SelectValue placeholder="Tipo de Evento" />
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="all">Todos os Eventos</SelectItem>
-              {eventTypes.map(type => (
+              {Object.entries(eventTypeLabels).map(([type, label]) => (
                 <SelectItem key={type} value={type}>
-                  {formatEventType(type)}
+                  {label}
                 </SelectItem>
               ))}
             </SelectContent>
           </Select>
-          
+        </div>
+
+        <div className="flex flex-col md:flex-row gap-4 mb-6">
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-gray-500">De</span>
+            <Input
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              className="w-full md:w-[160px]"
+            />
+            <span className="text-sm text-gray-500">até</span>
+            <Input
+              type="date"
+              value={endDate}
+              onChange={(e) => setEndDate(e.target.value)}
+              className="w-full md:w-[160px]"
+            />
+          </div>
+
           <Select 
-            value={limit.toString()} 
-            onValueChange={(value) => setLimit(parseInt(value))}
+            value={pageSize.toString()} 
+            onValueChange={(value) => setPageSize(parseInt(value))}
           >
             <SelectTrigger className="w-full md:w-[150px]">
-              <SelectValue placeholder="Limite" />
+              <SelectValue placeholder="Por página" />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="50">50 registros</SelectItem>
-              <SelectItem value="100">100 registros</SelectItem>
-              <SelectItem value="200">200 registros</SelectItem>
-              <SelectItem value="500">500 registros</SelectItem>
-              <SelectItem value="1000">1000 registros</SelectItem>
+              <SelectItem value="25">25 por página</SelectItem>
+              <SelectItem value="50">50 por página</SelectItem>
+              <SelectItem value="100">100 por página</SelectItem>
+              <SelectItem value="200">200 por página</SelectItem>
+              <SelectItem value="500">500 por página</SelectItem>
             </SelectContent>
           </Select>
           
-          <div className="flex gap-2">
+          <div className="flex gap-2 md:ml-auto">
             <Button variant="outline" onClick={() => refetch()} title="Atualizar">
-              <RefreshCw className="h-4 w-4 mr-2" />
+              <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
               Atualizar
             </Button>
             <Button variant="outline" onClick={exportToCSV} title="Exportar CSV">
@@ -203,7 +262,7 @@ export default function AuditLogViewer() {
           <div className="flex items-center justify-center p-6">
             <Loader2 className="h-8 w-8 animate-spin text-primary" />
           </div>
-        ) : filteredLogs.length === 0 ? (
+        ) : logs.length === 0 ? (
           <div className="flex items-center justify-center p-6 text-gray-500">
             Nenhum log encontrado com os filtros atuais.
           </div>
@@ -221,18 +280,18 @@ export default function AuditLogViewer() {
                   </tr>
                 </thead>
                 <tbody className="divide-y">
-                  {filteredLogs.map((log, index) => (
-                    <tr key={index} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                  {logs.map((log) => (
+                    <tr key={log.id} className="hover:bg-gray-50 dark:hover:bg-gray-700">
                       <td className="px-4 py-3 align-top">
                         {format(new Date(log.timestamp), 'dd/MM/yyyy HH:mm:ss', { locale: pt })}
                       </td>
                       <td className="px-4 py-3 align-top">
                         <span 
                           className={`px-2 py-1 rounded-full text-xs font-medium ${
-                            log.type.includes('LOGIN_FAILURE') ? 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300' :
-                            log.type.includes('DELETED') ? 'bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-300' :
-                            log.type.includes('CREATED') ? 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300' :
-                            log.type.includes('UPDATED') ? 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300' :
+                            log.type.includes('login_failure') ? 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300' :
+                            log.type.includes('deleted') || log.type.includes('delete') ? 'bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-300' :
+                            log.type.includes('created') ? 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300' :
+                            log.type.includes('updated') || log.type.includes('update') ? 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300' :
                             'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300'
                           }`}
                         >
@@ -259,8 +318,31 @@ export default function AuditLogViewer() {
           </div>
         )}
         
-        <div className="mt-4 text-sm text-gray-500">
-          Mostrando {filteredLogs.length} de {logs?.length || 0} registros
+        <div className="mt-4 flex items-center justify-between text-sm text-gray-500">
+          <span>
+            Mostrando {logs.length} de {data?.total || 0} registros
+          </span>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(page - 1)}
+              disabled={page <= 1 || isFetching}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span>
+              Página {page} de {data?.totalPages || 1}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(page + 1)}
+              disabled={page >= (data?.totalPages || 1) || isFetching}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
         </div>
       </CardContent>
     </Card>
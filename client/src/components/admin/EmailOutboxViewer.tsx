@@ -0,0 +1,228 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, RefreshCw, RotateCcw, Send } from "lucide-react";
+import { format } from 'date-fns';
+import { pt } from 'date-fns/locale';
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+// Item da fila de e-mails retornado pela API
+interface EmailOutboxEntry {
+  id: number;
+  toAddress: string;
+  subject: string;
+  category: string;
+  status: 'pending' | 'sending' | 'sent' | 'failed';
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: string;
+  lastError: string | null;
+  transport: string | null;
+  sentAt: string | null;
+  createdAt: string;
+}
+
+const statusLabels: Record<string, string> = {
+  pending: 'Pendente',
+  sending: 'Enviando',
+  sent: 'Enviado',
+  failed: 'Falhou',
+};
+
+const statusClasses: Record<string, string> = {
+  pending: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300',
+  sending: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300',
+  sent: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  failed: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+};
+
+const categoryLabels: Record<string, string> = {
+  session_confirmation: 'Confirmação',
+  session_cancellation: 'Cancelamento',
+  session_reminder: 'Lembrete',
+  session_rescheduled: 'Reagendamento',
+  portal_access: 'Acesso ao portal',
+  portal_notification: 'Aviso do portal',
+};
+
+export default function EmailOutboxViewer() {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<string>('all');
+
+  const { data: entries, isLoading, isError, refetch } = useQuery<EmailOutboxEntry[]>({
+    queryKey: ['/api/emails/outbox', { status }],
+    queryFn: async () => {
+      const params = status !== 'all' ? `?status=${status}` : '';
+      const response = await fetch(`/api/emails/outbox${params}`);
+      if (!response.ok) {
+        throw new Error('Falha ao carregar a fila de e-mails');
+      }
+      return await response.json();
+    },
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest<EmailOutboxEntry>('POST', `/api/emails/outbox/${id}/retry`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/emails/outbox'] });
+      toast({ title: "E-mail recolocado na fila", description: "Uma nova tentativa de envio será feita." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao reenviar e-mail", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const processMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest<{ processed: number }>('POST', '/api/emails/outbox/process');
+    },
+    onSuccess: (data: { processed: number }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/emails/outbox'] });
+      toast({ title: "Fila processada", description: `${data.processed} e-mail(s) processado(s).` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao processar fila", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isError) {
+    return (
+      <Card className="w-full">
+        <CardHeader>
+          <CardTitle>Fila de E-mails</CardTitle>
+          <CardDescription>Status de envio dos e-mails do sistema</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center justify-center p-6 text-red-500">
+            Erro ao carregar a fila de e-mails. Por favor, tente novamente.
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle>Fila de E-mails</CardTitle>
+        <CardDescription>Status de envio dos e-mails do sistema</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-col md:flex-row gap-4 mb-6">
+          <Select value={status} onValueChange={setStatus}>
+            <SelectTrigger className="w-full md:w-[200px]">
+              <SelectValue placeholder="Status" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todos os Status</SelectItem>
+              {Object.entries(statusLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <div className="flex gap-2 md:ml-auto">
+            <Button variant="outline" onClick={() => refetch()} title="Atualizar">
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Atualizar
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => processMutation.mutate()}
+              disabled={processMutation.isPending}
+              title="Processar fila agora"
+            >
+              {processMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Send className="h-4 w-4 mr-2" />
+              )}
+              Processar Fila
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center p-6">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : !entries || entries.length === 0 ? (
+          <div className="flex items-center justify-center p-6 text-gray-500">
+            Nenhum e-mail encontrado com os filtros atuais.
+          </div>
+        ) : (
+          <div className="rounded-md border overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-100 dark:bg-gray-800">
+                  <tr>
+                    <th className="px-4 py-3 text-left">Criado em</th>
+                    <th className="px-4 py-3 text-left">Destinatário</th>
+                    <th className="px-4 py-3 text-left">Assunto</th>
+                    <th className="px-4 py-3 text-left">Status</th>
+                    <th className="px-4 py-3 text-left">Tentativas</th>
+                    <th className="px-4 py-3 text-left">Último erro</th>
+                    <th className="px-4 py-3 text-left"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {entries.map(entry => (
+                    <tr key={entry.id} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                      <td className="px-4 py-3 align-top whitespace-nowrap">
+                        {format(new Date(entry.createdAt), 'dd/MM/yyyy HH:mm', { locale: pt })}
+                      </td>
+                      <td className="px-4 py-3 align-top">{entry.toAddress}</td>
+                      <td className="px-4 py-3 align-top">
+                        <div>{entry.subject}</div>
+                        <div className="text-xs text-gray-500">{categoryLabels[entry.category] || entry.category}</div>
+                      </td>
+                      <td className="px-4 py-3 align-top">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${statusClasses[entry.status]}`}>
+                          {statusLabels[entry.status] || entry.status}
+                        </span>
+                        {entry.status === 'sent' && entry.sentAt && (
+                          <div className="text-xs text-gray-500 mt-1">
+                            {format(new Date(entry.sentAt), 'dd/MM HH:mm', { locale: pt })} via {entry.transport}
+                          </div>
+                        )}
+                        {entry.status === 'pending' && entry.attempts > 0 && (
+                          <div className="text-xs text-gray-500 mt-1">
+                            Próxima tentativa: {format(new Date(entry.nextAttemptAt), 'dd/MM HH:mm', { locale: pt })}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 align-top">{entry.attempts}/{entry.maxAttempts}</td>
+                      <td className="px-4 py-3 align-top">
+                        <div className="max-w-xs whitespace-normal break-words text-red-600 dark:text-red-400">
+                          {entry.lastError || '-'}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 align-top">
+                        {(entry.status === 'failed' || entry.status === 'pending') && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => retryMutation.mutate(entry.id)}
+                            disabled={retryMutation.isPending}
+                            title="Reenviar"
+                          >
+                            <RotateCcw className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,150 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@/utils/formatters";
+
+interface PackageRow {
+  id: number;
+  name: string;
+  service: string | null;
+  credits: number;
+  price: number;
+  validityDays: number;
+  active: boolean;
+}
+
+const EMPTY_FORM = { name: "", service: "", credits: "", price: "", validityDays: "30" };
+
+/**
+ * Catálogo de pacotes de aulas vendidos aos alunos
+ */
+export default function PackageManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  const { data: packages = [] } = useQuery<PackageRow[]>({ queryKey: ["/api/billing/packages"] });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/billing/packages"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/billing/packages?active=true"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/billing/packages", {
+      name: form.name.trim(),
+      service: form.service.trim() || null,
+      credits: Number(form.credits),
+      // Preço digitado em reais, armazenado em centavos
+      price: Math.round(parseFloat(form.price.replace(",", ".")) * 100),
+      validityDays: Number(form.validityDays),
+    }),
+    onSuccess: () => {
+      invalidate();
+      setForm(EMPTY_FORM);
+      toast({ title: "Pacote criado" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao criar pacote", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: (pkg: PackageRow) => apiRequest("PATCH", `/api/billing/packages/${pkg.id}`, { active: !pkg.active }),
+    onSuccess: invalidate,
+    onError: (error: Error) => {
+      toast({ title: "Erro ao atualizar pacote", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const canSubmit = form.name.trim() && Number(form.credits) > 0 && form.price !== "" && Number(form.validityDays) > 0;
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Novo pacote</CardTitle>
+          <CardDescription>Cada aula concluída consome um crédito do pacote do aluno.</CardDescription>
+        </CardHeader>
+        <CardContent className="grid grid-cols-1 md:grid-cols-6 gap-4 items-end">
+          <div className="space-y-1 md:col-span-2">
+            <Label htmlFor="package-name">Nome</Label>
+            <Input id="package-name" placeholder="Ex.: 8 aulas/mês" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="package-service">Serviço</Label>
+            <Input id="package-service" placeholder="Qualquer" value={form.service} onChange={(e) => setForm({ ...form, service: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="package-credits">Aulas</Label>
+            <Input id="package-credits" type="number" min={1} value={form.credits} onChange={(e) => setForm({ ...form, credits: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="package-price">Preço (R$)</Label>
+            <Input id="package-price" inputMode="decimal" value={form.price} onChange={(e) => setForm({ ...form, price: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="package-validity">Validade (dias)</Label>
+            <Input id="package-validity" type="number" min={1} value={form.validityDays} onChange={(e) => setForm({ ...form, validityDays: e.target.value })} />
+          </div>
+          <Button onClick={() => createMutation.mutate()} disabled={!canSubmit || createMutation.isPending}>
+            Criar pacote
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="p-6">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Pacote</TableHead>
+                <TableHead>Serviço</TableHead>
+                <TableHead className="text-right">Aulas</TableHead>
+                <TableHead className="text-right">Preço</TableHead>
+                <TableHead className="text-right">Validade</TableHead>
+                <TableHead>Ativo</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {packages.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                    Nenhum pacote cadastrado
+                  </TableCell>
+                </TableRow>
+              ) : (
+                packages.map(pkg => (
+                  <TableRow key={pkg.id}>
+                    <TableCell className="font-medium">{pkg.name}</TableCell>
+                    <TableCell>{pkg.service || "Qualquer"}</TableCell>
+                    <TableCell className="text-right">{pkg.credits}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(pkg.price / 100)}</TableCell>
+                    <TableCell className="text-right">{pkg.validityDays} dias</TableCell>
+                    <TableCell>
+                      <Switch checked={pkg.active} onCheckedChange={() => toggleMutation.mutate(pkg)} />
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
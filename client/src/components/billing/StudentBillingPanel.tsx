@@ -0,0 +1,305 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { AlertTriangle, CheckCircle2, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@/utils/formatters";
+
+export interface BillingAlert {
+  type: 'saldo_baixo' | 'sem_credito' | 'pagamento_atrasado';
+  message: string;
+}
+
+interface PackageOption {
+  id: number;
+  name: string;
+  credits: number;
+  price: number;
+  validityDays: number;
+}
+
+interface Purchase {
+  id: number;
+  packageId: number;
+  credits: number;
+  creditsUsed: number;
+  price: number;
+  status: 'ativo' | 'cancelado';
+  purchasedAt: string;
+  expiresAt: string;
+}
+
+interface StudentPayment {
+  id: number;
+  amount: number;
+  method: 'pix' | 'cartao' | 'dinheiro';
+  status: 'pendente' | 'pago' | 'cancelado';
+  dueDate: string;
+  paidAt: string | null;
+  overdue: boolean;
+}
+
+interface BillingSummary {
+  balance: {
+    creditsAvailable: number;
+    unpaidLessons: number;
+    nextExpiry: string | null;
+    overduePayments: number;
+    pendingPayments: number;
+  };
+  alerts: BillingAlert[];
+  purchases: Purchase[];
+  payments: StudentPayment[];
+}
+
+export const PAYMENT_METHOD_LABELS: Record<StudentPayment['method'], string> = {
+  pix: "Pix",
+  cartao: "Cartão",
+  dinheiro: "Dinheiro",
+};
+
+// Valores do servidor estão em centavos
+const formatCents = (value: number) => formatCurrency(value / 100);
+
+const formatDay = (value: string) => format(new Date(value), "dd/MM/yyyy");
+
+interface StudentBillingPanelProps {
+  leadId: number;
+}
+
+/**
+ * Saldo de créditos, compras de pacotes e pagamentos de um aluno
+ */
+export default function StudentBillingPanel({ leadId }: StudentBillingPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const summaryUrl = `/api/billing/students/${leadId}`;
+
+  const [packageId, setPackageId] = useState("");
+  const [paymentMethod, setPaymentMethod] = useState<StudentPayment['method']>("pix");
+  const [paymentStatus, setPaymentStatus] = useState<'pendente' | 'pago'>("pago");
+
+  const { data: summary, isLoading } = useQuery<BillingSummary>({ queryKey: [summaryUrl] });
+  const { data: packages = [] } = useQuery<PackageOption[]>({ queryKey: ["/api/billing/packages?active=true"] });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: [summaryUrl] });
+    queryClient.invalidateQueries({ queryKey: ["/api/billing/alerts"] });
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const purchaseMutation = useMutation({
+    mutationFn: () => apiRequest("POST", `${summaryUrl}/purchases`, {
+      packageId: Number(packageId),
+      payment: { method: paymentMethod, status: paymentStatus },
+    }),
+    onSuccess: () => {
+      refresh();
+      setPackageId("");
+      toast({ title: "Pacote registrado" });
+    },
+    onError: onError("Erro ao registrar pacote"),
+  });
+
+  const cancelPurchaseMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("POST", `/api/billing/purchases/${id}/cancel`),
+    onSuccess: refresh,
+    onError: onError("Erro ao cancelar compra"),
+  });
+
+  const paymentMutation = useMutation({
+    mutationFn: ({ id, status }: { id: number; status: StudentPayment['status'] }) =>
+      apiRequest("PATCH", `/api/billing/payments/${id}`, { status }),
+    onSuccess: refresh,
+    onError: onError("Erro ao atualizar pagamento"),
+  });
+
+  if (isLoading || !summary) {
+    return (
+      <div className="flex justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  const packageName = (id: number) => packages.find(pkg => pkg.id === id)?.name || `Pacote #${id}`;
+
+  return (
+    <div className="space-y-6">
+      {summary.alerts.length > 0 && (
+        <div className="rounded-md border border-amber-200 bg-amber-50 dark:bg-amber-900/20 dark:border-amber-800 p-3 space-y-1">
+          {summary.alerts.map(alert => (
+            <p key={alert.type} className="flex items-center gap-2 text-sm text-amber-800 dark:text-amber-200">
+              <AlertTriangle className="h-4 w-4" />
+              {alert.message}
+            </p>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-3">
+        <div className="rounded-md border p-3">
+          <p className="text-xs text-muted-foreground">Créditos disponíveis</p>
+          <p className="text-2xl font-bold">{summary.balance.creditsAvailable}</p>
+        </div>
+        <div className="rounded-md border p-3">
+          <p className="text-xs text-muted-foreground">Próximo vencimento</p>
+          <p className="text-lg font-semibold">
+            {summary.balance.nextExpiry ? formatDay(summary.balance.nextExpiry) : "—"}
+          </p>
+        </div>
+        <div className="rounded-md border p-3">
+          <p className="text-xs text-muted-foreground">Pagamentos pendentes</p>
+          <p className="text-2xl font-bold">{summary.balance.pendingPayments}</p>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <h4 className="text-sm font-medium">Vender pacote</h4>
+        <div className="grid grid-cols-1 sm:grid-cols-4 gap-3 items-end">
+          <div className="space-y-1 sm:col-span-2">
+            <Label>Pacote</Label>
+            <Select value={packageId} onValueChange={setPackageId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Selecione" />
+              </SelectTrigger>
+              <SelectContent>
+                {packages.map(pkg => (
+                  <SelectItem key={pkg.id} value={String(pkg.id)}>
+                    {pkg.name} — {pkg.credits} aulas, {formatCents(pkg.price)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Forma de pagamento</Label>
+            <Select value={paymentMethod} onValueChange={(value) => setPaymentMethod(value as StudentPayment['method'])}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(PAYMENT_METHOD_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Pagamento</Label>
+            <Select value={paymentStatus} onValueChange={(value) => setPaymentStatus(value as 'pendente' | 'pago')}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="pago">Pago</SelectItem>
+                <SelectItem value="pendente">Pendente</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <Button
+          size="sm"
+          onClick={() => purchaseMutation.mutate()}
+          disabled={!packageId || purchaseMutation.isPending}
+        >
+          Registrar compra
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium">Compras</h4>
+        {summary.purchases.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nenhum pacote comprado</p>
+        ) : (
+          summary.purchases.map(purchase => (
+            <div key={purchase.id} className="flex items-center justify-between rounded-md border p-3 text-sm">
+              <div>
+                <p className="font-medium">{packageName(purchase.packageId)}</p>
+                <p className="text-xs text-muted-foreground">
+                  {purchase.creditsUsed}/{purchase.credits} aulas usadas · {formatCents(purchase.price)} ·
+                  {" "}válido até {formatDay(purchase.expiresAt)}
+                </p>
+              </div>
+              {purchase.status === 'cancelado' ? (
+                <Badge variant="outline">Cancelado</Badge>
+              ) : (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="gap-1"
+                  disabled={cancelPurchaseMutation.isPending}
+                  onClick={() => {
+                    if (confirm("Cancelar esta compra? Os créditos restantes deixam de valer.")) {
+                      cancelPurchaseMutation.mutate(purchase.id);
+                    }
+                  }}
+                >
+                  <XCircle className="h-4 w-4" />
+                  Cancelar
+                </Button>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium">Pagamentos</h4>
+        {summary.payments.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nenhum pagamento registrado</p>
+        ) : (
+          summary.payments.map(payment => (
+            <div key={payment.id} className="flex items-center justify-between rounded-md border p-3 text-sm">
+              <div>
+                <p className="font-medium">
+                  {formatCents(payment.amount)} · {PAYMENT_METHOD_LABELS[payment.method]}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {payment.status === 'pago' && payment.paidAt
+                    ? `Pago em ${formatDay(payment.paidAt)}`
+                    : `Vence em ${formatDay(payment.dueDate)}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                {payment.overdue ? (
+                  <Badge variant="destructive">Em atraso</Badge>
+                ) : (
+                  <Badge variant="outline">
+                    {payment.status === 'pago' ? "Pago" : payment.status === 'cancelado' ? "Cancelado" : "Pendente"}
+                  </Badge>
+                )}
+                {payment.status === 'pendente' && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="gap-1"
+                    disabled={paymentMutation.isPending}
+                    onClick={() => paymentMutation.mutate({ id: payment.id, status: 'pago' })}
+                  >
+                    <CheckCircle2 className="h-4 w-4" />
+                    Recebido
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
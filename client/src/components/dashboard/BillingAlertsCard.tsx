@@ -0,0 +1,75 @@
+import { useQuery } from "@tanstack/react-query";
+import { AlertTriangle, Wallet } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { BillingAlert } from "@/components/billing/StudentBillingPanel";
+
+interface StudentBillingAlerts {
+  leadId: number;
+  leadName: string;
+  balance: { creditsAvailable: number };
+  alerts: BillingAlert[];
+}
+
+const ALERT_LABELS: Record<BillingAlert['type'], string> = {
+  saldo_baixo: "Saldo baixo",
+  sem_credito: "Sem crédito",
+  pagamento_atrasado: "Pagamento atrasado",
+};
+
+/**
+ * Alunos com saldo de créditos baixo ou pagamentos em atraso
+ */
+export default function BillingAlertsCard() {
+  const { data: students = [], isLoading } = useQuery<StudentBillingAlerts[]>({
+    queryKey: ["/api/billing/alerts"],
+  });
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-base font-medium text-gray-800 dark:text-white flex items-center gap-2">
+          <Wallet className="h-4 w-4" />
+          Créditos e Pagamentos
+        </h3>
+        {students.length > 0 && <Badge variant="secondary">{students.length}</Badge>}
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-2">
+          <Skeleton className="h-10 w-full" />
+          <Skeleton className="h-10 w-full" />
+        </div>
+      ) : students.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Nenhum aluno com saldo baixo ou pagamento em atraso</p>
+      ) : (
+        <ul className="space-y-2 max-h-64 overflow-y-auto">
+          {students.map(student => (
+            <li key={student.leadId} className="flex items-start justify-between gap-2 rounded-md border border-gray-100 dark:border-gray-700 p-2">
+              <div>
+                <p className="text-sm font-medium text-gray-800 dark:text-gray-100">{student.leadName}</p>
+                {student.alerts.map(alert => (
+                  <p key={alert.type} className="text-xs text-muted-foreground flex items-center gap-1">
+                    <AlertTriangle className="h-3 w-3 text-amber-500" />
+                    {alert.message}
+                  </p>
+                ))}
+              </div>
+              <div className="flex flex-col items-end gap-1">
+                {student.alerts.map(alert => (
+                  <Badge
+                    key={alert.type}
+                    variant={alert.type === 'saldo_baixo' ? "outline" : "destructive"}
+                    className="whitespace-nowrap"
+                  >
+                    {ALERT_LABELS[alert.type]}
+                  </Badge>
+                ))}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,17 +1,46 @@
-import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
 import KpiCard from "./KpiCard";
 import ChartCard from "./ChartCard";
 import SourcePieChart from "./SourcePieChart";
 import StateBarChart from "./StateBarChart";
 import TimelineChart from "./TimelineChart";
 import TodayAppointmentCard from "./TodayAppointmentCard";
+import BillingAlertsCard from "./BillingAlertsCard";
 import GreetingWidget from "./GreetingWidget";
 import UserWeatherWidget from "./UserWeatherWidget";
 import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../ui/select";
 import { Filter } from "lucide-react";
 import { useTheme } from "@/components/theme-provider";
 
+type StatsPeriod = 'week' | 'month' | 'quarter' | 'custom';
+
+interface PeriodKpi {
+  current: number;
+  previous: number;
+  change: number | null;
+}
+
+const comparisonLabels: Record<StatsPeriod, string> = {
+  week: "vs. semana anterior",
+  month: "vs. 30 dias anteriores",
+  quarter: "vs. trimestre anterior",
+  custom: "vs. período anterior",
+};
+
 interface DashboardStats {
+  kpis: {
+    newLeads: PeriodKpi;
+    convertedLeads: PeriodKpi;
+    conversionRate: PeriodKpi;
+    scheduledSessions: PeriodKpi;
+    completedSessions: PeriodKpi;
+    cancelledSessions: PeriodKpi;
+    activeStudents: PeriodKpi;
+    sessionsPerStudent: PeriodKpi;
+  };
   totalLeads: number;
   totalStudents: number;
   totalActiveSessions: number;
@@ -26,10 +55,34 @@ interface DashboardStats {
 
 export default function Dashboard() {
   const { theme } = useTheme();
+  const [period, setPeriod] = useState<StatsPeriod>('month');
+  const [customStart, setCustomStart] = useState<string>('');
+  const [customEnd, setCustomEnd] = useState<string>('');
+
+  // Período personalizado só é consultado quando as duas datas estiverem preenchidas
+  const customReady = period !== 'custom' || (customStart !== '' && customEnd !== '');
+  const params = new URLSearchParams({ period: customReady ? period : 'month' });
+  if (period === 'custom' && customReady) {
+    params.set('startDate', customStart);
+    params.set('endDate', customEnd);
+  }
+  const queryString = params.toString();
+
   const { data: stats, isLoading, error } = useQuery<DashboardStats>({
-    queryKey: ["/api/stats"],
+    queryKey: ["/api/stats", queryString],
+    queryFn: async () => {
+      const response = await fetch(`/api/stats?${queryString}`, { credentials: "include" });
+      if (!response.ok) {
+        throw new Error('Falha ao carregar estatísticas');
+      }
+      return await response.json();
+    },
+    // Mantém os números anteriores na tela enquanto o novo período carrega
+    placeholderData: keepPreviousData,
   });
 
+  const comparisonLabel = comparisonLabels[customReady ? period : 'month'];
+
   if (isLoading) {
     return (
       <div className="flex h-[calc(100vh-4rem)] items-center justify-center">
@@ -64,154 +117,115 @@ export default function Dashboard() {
         </div>
       </div>
       
+      {/* Seleção de período */}
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+        <Select value={period} onValueChange={(value) => setPeriod(value as StatsPeriod)}>
+          <SelectTrigger className="w-full sm:w-[200px] bg-white dark:bg-gray-800">
+            <SelectValue placeholder="Período" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="week">Últimos 7 dias</SelectItem>
+            <SelectItem value="month">Últimos 30 dias</SelectItem>
+            <SelectItem value="quarter">Últimos 90 dias</SelectItem>
+            <SelectItem value="custom">Personalizado</SelectItem>
+          </SelectContent>
+        </Select>
+
+        {period === 'custom' && (
+          <div className="flex items-center gap-2">
+            <Input
+              type="date"
+              value={customStart}
+              onChange={(e) => setCustomStart(e.target.value)}
+              className="w-full sm:w-[160px] bg-white dark:bg-gray-800"
+            />
+            <span className="text-sm text-gray-500 dark:text-gray-400">até</span>
+            <Input
+              type="date"
+              value={customEnd}
+              onChange={(e) => setCustomEnd(e.target.value)}
+              className="w-full sm:w-[160px] bg-white dark:bg-gray-800"
+            />
+          </div>
+        )}
+      </div>
+
       {/* KPI Cards - Row 1 */}
       <div className="grid grid-cols-2 md:grid-cols-2 lg:grid-cols-4 gap-4 md:gap-6">
-        <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700">
-          <div className="flex justify-between mb-4">
-            <h3 className="text-base font-medium text-gray-500 dark:text-gray-400">Total de Leads</h3>
-          </div>
-          <div className="flex items-center gap-4">
-            <div className="flex items-center justify-center w-10 h-10 rounded-lg bg-primary-light bg-opacity-20 dark:bg-primary/30">
-              <span className="material-icons text-primary dark:text-primary-light">people</span>
-            </div>
-            <div>
-              <div className="text-2xl font-bold text-gray-800 dark:text-white">{stats.totalLeads}</div>
-              <div className="flex items-center gap-1">
-                <span className="text-xs text-green-600 dark:text-green-400">+5%</span>
-                <span className="text-xs text-gray-500 dark:text-gray-400">vs. último mês</span>
-              </div>
-            </div>
-          </div>
-        </div>
-        
-        <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700">
-          <div className="flex justify-between mb-4">
-            <h3 className="text-base font-medium text-gray-500 dark:text-gray-400">Total de Alunos</h3>
-          </div>
-          <div className="flex items-center gap-4">
-            <div className="flex items-center justify-center w-10 h-10 rounded-lg bg-green-100 dark:bg-green-900/30">
-              <span className="material-icons text-green-600 dark:text-green-400">school</span>
-            </div>
-            <div>
-              <div className="text-2xl font-bold text-gray-800 dark:text-white">{stats.totalStudents}</div>
-              <div className="flex items-center gap-1">
-                <span className="text-xs text-green-600 dark:text-green-400">+10%</span>
-                <span className="text-xs text-gray-500 dark:text-gray-400">vs. último mês</span>
-              </div>
-            </div>
-          </div>
-        </div>
-        
-        <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700">
-          <div className="flex justify-between mb-4">
-            <h3 className="text-base font-medium text-gray-500 dark:text-gray-400">Taxa de Conversão</h3>
-          </div>
-          <div className="flex items-center gap-4">
-            <div className="flex items-center justify-center w-10 h-10 rounded-lg bg-amber-100 dark:bg-amber-900/30">
-              <span className="material-icons text-amber-600 dark:text-amber-400">trending_up</span>
-            </div>
-            <div>
-              <div className="text-2xl font-bold text-gray-800 dark:text-white">{stats.conversionRate}%</div>
-              <div className="flex items-center gap-1">
-                <span className="text-xs text-green-600 dark:text-green-400">+3%</span>
-                <span className="text-xs text-gray-500 dark:text-gray-400">vs. último mês</span>
-              </div>
-            </div>
-          </div>
-        </div>
-        
-        <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700">
-          <div className="flex justify-between mb-4">
-            <h3 className="text-base font-medium text-gray-500 dark:text-gray-400">Sessões por Aluno</h3>
-          </div>
-          <div className="flex items-center gap-4">
-            <div className="flex items-center justify-center w-10 h-10 rounded-lg bg-secondary-light bg-opacity-20 dark:bg-secondary/30">
-              <span className="material-icons text-secondary-light dark:text-secondary-light/80">fitness_center</span>
-            </div>
-            <div>
-              <div className="text-2xl font-bold text-gray-800 dark:text-white">{stats.sessionsPerStudent}</div>
-              <div className="flex items-center gap-1">
-                <span className="text-xs text-green-600 dark:text-green-400">+8%</span>
-                <span className="text-xs text-gray-500 dark:text-gray-400">vs. último mês</span>
-              </div>
-            </div>
-          </div>
-        </div>
+        <KpiCard
+          title="Total de Leads"
+          value={stats.totalLeads}
+          icon="people"
+          iconBgColor="bg-primary-light bg-opacity-20 dark:bg-primary/30"
+          iconColor="text-primary dark:text-primary-light"
+          footnote={`${stats.kpis.newLeads.current} novos no período`}
+        />
+        <KpiCard
+          title="Total de Alunos"
+          value={stats.totalStudents}
+          icon="school"
+          iconBgColor="bg-green-100 dark:bg-green-900/30"
+          iconColor="text-green-600 dark:text-green-400"
+          footnote={`${stats.kpis.convertedLeads.current} convertidos no período`}
+        />
+        <KpiCard
+          title="Taxa de Conversão"
+          value={`${stats.kpis.conversionRate.current}%`}
+          icon="trending_up"
+          iconBgColor="bg-amber-100 dark:bg-amber-900/30"
+          iconColor="text-amber-600 dark:text-amber-400"
+          change={stats.kpis.conversionRate.change}
+          comparisonLabel={comparisonLabel}
+        />
+        <KpiCard
+          title="Sessões por Aluno"
+          value={stats.kpis.sessionsPerStudent.current.toFixed(1)}
+          icon="fitness_center"
+          iconBgColor="bg-secondary-light bg-opacity-20 dark:bg-secondary/30"
+          iconColor="text-secondary-light dark:text-secondary-light/80"
+          change={stats.kpis.sessionsPerStudent.change}
+          comparisonLabel={comparisonLabel}
+        />
       </div>
       
       {/* KPI Cards - Row 2 */}
       <div className="grid grid-cols-2 md:grid-cols-2 lg:grid-cols-4 gap-4 md:gap-6">
-        <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700">
-          <div className="flex justify-between mb-4">
-            <h3 className="text-base font-medium text-gray-500 dark:text-gray-400">Sessões Agendadas</h3>
-          </div>
-          <div className="flex items-center gap-4">
-            <div className="flex items-center justify-center w-10 h-10 rounded-lg bg-blue-100 dark:bg-blue-900/30">
-              <span className="material-icons text-blue-600 dark:text-blue-400">event_available</span>
-            </div>
-            <div>
-              <div className="text-2xl font-bold text-gray-800 dark:text-white">{stats.totalActiveSessions}</div>
-              <div className="flex items-center gap-1">
-                <span className="text-xs text-green-600 dark:text-green-400">+12%</span>
-                <span className="text-xs text-gray-500 dark:text-gray-400">vs. último mês</span>
-              </div>
-            </div>
-          </div>
-        </div>
-        
-        <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700">
-          <div className="flex justify-between mb-4">
-            <h3 className="text-base font-medium text-gray-500 dark:text-gray-400">Sessões Realizadas</h3>
-          </div>
-          <div className="flex items-center gap-4">
-            <div className="flex items-center justify-center w-10 h-10 rounded-lg bg-teal-100 dark:bg-teal-900/30">
-              <span className="material-icons text-teal-600 dark:text-teal-400">check_circle</span>
-            </div>
-            <div>
-              <div className="text-2xl font-bold text-gray-800 dark:text-white">{stats.totalCompletedSessions}</div>
-              <div className="flex items-center gap-1">
-                <span className="text-xs text-green-600 dark:text-green-400">+15%</span>
-                <span className="text-xs text-gray-500 dark:text-gray-400">vs. último mês</span>
-              </div>
-            </div>
-          </div>
-        </div>
-        
-        <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700">
-          <div className="flex justify-between mb-4">
-            <h3 className="text-base font-medium text-gray-500 dark:text-gray-400">Leads por Campanha</h3>
-          </div>
-          <div className="flex items-center gap-4">
-            <div className="flex items-center justify-center w-10 h-10 rounded-lg bg-indigo-100 dark:bg-indigo-900/30">
-              <span className="material-icons text-indigo-600 dark:text-indigo-400">campaign</span>
-            </div>
-            <div>
-              <div className="text-2xl font-bold text-gray-800 dark:text-white">{stats.totalLeadsByCampaign}</div>
-              <div className="flex items-center gap-1">
-                <span className="text-xs text-green-600 dark:text-green-400">+7%</span>
-                <span className="text-xs text-gray-500 dark:text-gray-400">vs. último mês</span>
-              </div>
-            </div>
-          </div>
-        </div>
-        
-        <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700">
-          <div className="flex justify-between mb-4">
-            <h3 className="text-base font-medium text-gray-500 dark:text-gray-400">Leads Novos (30d)</h3>
-          </div>
-          <div className="flex items-center gap-4">
-            <div className="flex items-center justify-center w-10 h-10 rounded-lg bg-pink-100 dark:bg-pink-900/30">
-              <span className="material-icons text-pink-600 dark:text-pink-400">new_releases</span>
-            </div>
-            <div>
-              <div className="text-2xl font-bold text-gray-800 dark:text-white">{Math.round(stats.totalLeads * 0.23)}</div>
-              <div className="flex items-center gap-1">
-                <span className="text-xs text-green-600 dark:text-green-400">+18%</span>
-                <span className="text-xs text-gray-500 dark:text-gray-400">vs. último mês</span>
-              </div>
-            </div>
-          </div>
-        </div>
+        <KpiCard
+          title="Sessões Agendadas"
+          value={stats.kpis.scheduledSessions.current}
+          icon="event_available"
+          iconBgColor="bg-blue-100 dark:bg-blue-900/30"
+          iconColor="text-blue-600 dark:text-blue-400"
+          change={stats.kpis.scheduledSessions.change}
+          comparisonLabel={comparisonLabel}
+        />
+        <KpiCard
+          title="Sessões Realizadas"
+          value={stats.kpis.completedSessions.current}
+          icon="check_circle"
+          iconBgColor="bg-teal-100 dark:bg-teal-900/30"
+          iconColor="text-teal-600 dark:text-teal-400"
+          change={stats.kpis.completedSessions.change}
+          comparisonLabel={comparisonLabel}
+        />
+        <KpiCard
+          title="Alunos Ativos"
+          value={stats.kpis.activeStudents.current}
+          icon="directions_run"
+          iconBgColor="bg-indigo-100 dark:bg-indigo-900/30"
+          iconColor="text-indigo-600 dark:text-indigo-400"
+          change={stats.kpis.activeStudents.change}
+          comparisonLabel={comparisonLabel}
+        />
+        <KpiCard
+          title="Leads Novos"
+          value={stats.kpis.newLeads.current}
+          icon="new_releases"
+          iconBgColor="bg-pink-100 dark:bg-pink-900/30"
+          iconColor="text-pink-600 dark:text-pink-400"
+          change={stats.kpis.newLeads.change}
+          comparisonLabel={comparisonLabel}
+        />
       </div>
       
       {/* Charts Row */}
@@ -249,6 +263,12 @@ export default function Dashboard() {
           <TodayAppointmentCard />
         </div>
       </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 md:gap-6">
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700">
+          <BillingAlertsCard />
+        </div>
+      </div>
     </div>
   );
 }
@@ -1,43 +1,57 @@
-
 interface KpiCardProps {
   title: string;
   value: number | string;
   icon: string;
-  change: number;
   iconBgColor: string;
   iconColor: string;
+  // Variação percentual contra o período anterior (null quando não há base de comparação)
+  change?: number | null;
+  comparisonLabel?: string;
+  // Para indicadores em que queda é positiva (ex.: cancelamentos)
+  invertChange?: boolean;
+  footnote?: string;
 }
 
-import { Card } from "@/components/ui/card";
-
 export default function KpiCard({ 
   title, 
   value, 
   icon, 
-  change, 
   iconBgColor, 
-  iconColor 
+  iconColor,
+  change,
+  comparisonLabel = "vs. período anterior",
+  invertChange = false,
+  footnote
 }: KpiCardProps) {
-  return (
-    <Card variant="glowIntenseLifted" className="p-4 sm:p-6">
-      <div className="flex justify-between items-start">
-        <div className="space-y-1 sm:space-y-2">
-          <h3 className="text-xs sm:text-sm font-medium text-gray-500 dark:text-gray-400">{title}</h3>
-          <p className="text-xl sm:text-2xl font-semibold tracking-tight dark:text-white dark:glow-value">{value}</p>
+  const isPositive = change !== undefined && change !== null && (invertChange ? change <= 0 : change >= 0);
 
-          <div className={`flex flex-wrap items-center ${change >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
-            <span className="material-icons text-sm">
-              {change >= 0 ? 'trending_up' : 'trending_down'}
-            </span>
-            <span className="ml-1 text-sm font-medium dark:glow-text-subtle">{Math.abs(change)}%</span>
-            <span className="ml-1 text-xs text-gray-500 dark:text-gray-400 hidden xs:inline">vs último mês</span>
-          </div>
+  return (
+    <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700">
+      <div className="flex justify-between mb-4">
+        <h3 className="text-base font-medium text-gray-500 dark:text-gray-400">{title}</h3>
+      </div>
+      <div className="flex items-center gap-4">
+        <div className={`flex items-center justify-center w-10 h-10 rounded-lg ${iconBgColor}`}>
+          <span className={`material-icons ${iconColor}`}>{icon}</span>
         </div>
-
-        <div className={`${iconBgColor} dark:bg-opacity-20 p-2 sm:p-3 rounded-lg dark:border dark:border-primary/30 dark:shadow-glow-xs`}>
-          <span className={`material-icons text-base sm:text-lg ${iconColor} dark:glow-text-subtle`}>{icon}</span>
+        <div>
+          <div className="text-2xl font-bold text-gray-800 dark:text-white">{value}</div>
+          {change !== undefined ? (
+            <div className="flex items-center gap-1">
+              {change === null ? (
+                <span className="text-xs text-gray-500 dark:text-gray-400">Sem base</span>
+              ) : (
+                <span className={`text-xs ${isPositive ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                  {change > 0 ? '+' : ''}{change}%
+                </span>
+              )}
+              <span className="text-xs text-gray-500 dark:text-gray-400">{comparisonLabel}</span>
+            </div>
+          ) : footnote ? (
+            <div className="text-xs text-gray-500 dark:text-gray-400">{footnote}</div>
+          ) : null}
         </div>
       </div>
-    </Card>
+    </div>
   );
 }
@@ -0,0 +1,111 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Loader2, History, ArrowRight } from "lucide-react";
+
+interface FieldChange {
+  field: string;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+interface HistoryEntry {
+  id: number;
+  changedAt: string;
+  userId: number | null;
+  username: string | null;
+  changes: FieldChange[];
+}
+
+interface ChangeHistoryTimelineProps {
+  // Endpoint de histórico, ex.: /api/leads/1/history
+  url: string;
+  // Rótulos amigáveis para os campos da entidade
+  fieldLabels?: Record<string, string>;
+  // Rótulos para valores conhecidos (ex.: status "in_progress" -> "Em andamento")
+  valueLabels?: Record<string, string>;
+}
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/;
+
+function formatValue(value: unknown, valueLabels?: Record<string, string>): string {
+  if (value === null || value === undefined || value === '') {
+    return '—';
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'Sim' : 'Não';
+  }
+  if (Array.isArray(value)) {
+    return value.length > 0 ? value.map(item => formatValue(item, valueLabels)).join(', ') : '—';
+  }
+  if (typeof value === 'string') {
+    if (ISO_DATE_PATTERN.test(value)) {
+      return format(new Date(value), "dd/MM/yyyy HH:mm", { locale: ptBR });
+    }
+    return valueLabels?.[value] || value;
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+export default function ChangeHistoryTimeline({ url, fieldLabels = {}, valueLabels }: ChangeHistoryTimelineProps) {
+  const { data: history, isLoading, isError } = useQuery<HistoryEntry[]>({
+    queryKey: [url],
+    staleTime: 0,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center p-6">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (isError) {
+    return (
+      <div className="p-6 text-center text-sm text-red-500">
+        Erro ao carregar o histórico de alterações.
+      </div>
+    );
+  }
+
+  if (!history || history.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center p-6 text-sm text-gray-500">
+        <History className="h-8 w-8 mb-2 text-gray-300" />
+        Nenhuma alteração registrada.
+      </div>
+    );
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 dark:border-gray-700 ml-3 space-y-6 py-2">
+      {history.map(entry => (
+        <li key={entry.id} className="ml-6">
+          <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-primary dark:border-gray-900" />
+          <div className="flex flex-wrap items-center gap-2 mb-2">
+            <span className="text-sm font-medium">{entry.username || 'Sistema'}</span>
+            <span className="text-xs text-gray-500">
+              {format(new Date(entry.changedAt), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}
+            </span>
+          </div>
+          <div className="space-y-1">
+            {entry.changes.map(change => (
+              <div key={change.field} className="text-sm flex flex-wrap items-center gap-1">
+                <span className="font-medium text-gray-700 dark:text-gray-300">
+                  {fieldLabels[change.field] || change.field}:
+                </span>
+                <span className="text-gray-500 line-through">{formatValue(change.oldValue, valueLabels)}</span>
+                <ArrowRight className="h-3 w-3 text-gray-400" />
+                <span className="text-gray-900 dark:text-gray-100">{formatValue(change.newValue, valueLabels)}</span>
+              </div>
+            ))}
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,193 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { Lead } from "@shared/schema";
+
+type DuplicateReason = "telefone" | "telefone_parcial" | "email" | "nome";
+
+interface DuplicateCandidate {
+  leads: [Lead, Lead];
+  score: number;
+  reasons: DuplicateReason[];
+  nameSimilarity: number;
+}
+
+interface DuplicatesResponse {
+  candidates: DuplicateCandidate[];
+  total: number;
+}
+
+interface PendingMerge {
+  survivor: Lead;
+  duplicate: Lead;
+}
+
+const REASON_LABELS: Record<DuplicateReason, string> = {
+  telefone: "Mesmo telefone",
+  telefone_parcial: "Final do telefone igual",
+  email: "Mesmo e-mail",
+  nome: "Nome parecido",
+};
+
+// A chave começa com /api/leads para a lista ser refeita quando os leads mudam
+const DUPLICATES_QUERY_KEY = ["/api/leads", "duplicates"];
+
+function LeadSummary({ lead }: { lead: Lead }) {
+  return (
+    <div className="space-y-0.5 text-sm">
+      <p className="font-medium text-gray-800 dark:text-gray-100">{lead.name}</p>
+      <p className="text-muted-foreground">{lead.phone || "Sem telefone"}</p>
+      <p className="text-muted-foreground truncate">{lead.email || "Sem e-mail"}</p>
+      <p className="text-xs text-muted-foreground">
+        {lead.status} · {lead.source} · entrada em {format(new Date(lead.entryDate), "dd/MM/yyyy")}
+      </p>
+      {lead.tags.length > 0 && (
+        <p className="text-xs text-muted-foreground truncate">Etiquetas: {lead.tags.join(", ")}</p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Pares de possíveis leads duplicados; o usuário escolhe qual lead manter e o outro é mesclado nele
+ */
+export default function DuplicateLeadsDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [pendingMerge, setPendingMerge] = useState<PendingMerge | null>(null);
+
+  const { data, isLoading } = useQuery<DuplicatesResponse>({
+    queryKey: DUPLICATES_QUERY_KEY,
+    queryFn: async () => {
+      const response = await fetch("/api/leads/duplicates", { credentials: "include" });
+      if (!response.ok) {
+        throw new Error("Falha ao buscar leads duplicados");
+      }
+      return await response.json();
+    },
+    enabled: open,
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: ({ survivor, duplicate }: PendingMerge) =>
+      apiRequest("POST", "/api/leads/merge", { survivorId: survivor.id, duplicateIds: [duplicate.id] }),
+    onSuccess: (_result, { survivor, duplicate }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+      toast({
+        title: "Leads mesclados",
+        description: `${duplicate.name} foi mesclado em ${survivor.name}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao mesclar leads", description: error.message, variant: "destructive" });
+    },
+    onSettled: () => setPendingMerge(null),
+  });
+
+  const candidates = data?.candidates || [];
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Leads duplicados</DialogTitle>
+            <DialogDescription>
+              Escolha o lead que será mantido. Mensagens, tarefas, aulas, pagamentos e etiquetas do outro lead passam para ele.
+            </DialogDescription>
+          </DialogHeader>
+
+          {isLoading && (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          )}
+
+          {!isLoading && candidates.length === 0 && (
+            <p className="py-6 text-center text-sm text-muted-foreground">Nenhum possível duplicado encontrado.</p>
+          )}
+
+          <div className="space-y-3">
+            {candidates.map(candidate => (
+              <div key={`${candidate.leads[0].id}-${candidate.leads[1].id}`} className="rounded-lg border p-3">
+                <div className="mb-3 flex flex-wrap items-center gap-2">
+                  <Badge variant={candidate.score >= 80 ? "destructive" : "secondary"}>{candidate.score} pts</Badge>
+                  {candidate.reasons.map(reason => (
+                    <Badge key={reason} variant="outline">{REASON_LABELS[reason]}</Badge>
+                  ))}
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {candidate.leads.map((lead, index) => (
+                    <div key={lead.id} className="flex flex-col justify-between gap-2 rounded-md bg-gray-50 dark:bg-gray-800/60 p-3">
+                      <LeadSummary lead={lead} />
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={mergeMutation.isPending}
+                        onClick={() => setPendingMerge({ survivor: lead, duplicate: candidate.leads[1 - index] })}
+                      >
+                        Manter este
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {data && data.total > candidates.length && (
+            <p className="text-xs text-muted-foreground">
+              Mostrando os {candidates.length} pares mais prováveis de {data.total}.
+            </p>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!pendingMerge} onOpenChange={(isOpen) => { if (!isOpen && !mergeMutation.isPending) setPendingMerge(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Mesclar leads?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingMerge && `"${pendingMerge.duplicate.name}" será excluído e tudo o que está vinculado a ele passará para "${pendingMerge.survivor.name}". Esta ação não pode ser desfeita.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={mergeMutation.isPending}>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={mergeMutation.isPending}
+              onClick={(e) => {
+                e.preventDefault();
+                if (pendingMerge) mergeMutation.mutate(pendingMerge);
+              }}
+            >
+              {mergeMutation.isPending ? "Mesclando..." : "Mesclar"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -1,8 +1,26 @@
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import ChangeHistoryTimeline from "@/components/history/ChangeHistoryTimeline";
+import StudentBillingPanel from "@/components/billing/StudentBillingPanel";
+import StudentAttendancePanel from "./StudentAttendancePanel";
 import { useLeadContext } from "@/context/LeadContext";
 import LeadForm from "./LeadForm";
 import { InsertLead } from "@shared/schema";
 
+// Rótulos dos campos do lead exibidos no histórico
+const leadFieldLabels: Record<string, string> = {
+  entryDate: "Data de entrada",
+  name: "Nome",
+  email: "E-mail",
+  phone: "Telefone",
+  state: "Estado",
+  campaign: "Campanha",
+  tags: "Tags",
+  source: "Origem",
+  status: "Status",
+  notes: "Observações",
+};
+
 export default function LeadDialog() {
   const { 
     isDialogOpen, 
@@ -32,11 +50,49 @@ export default function LeadDialog() {
             {selectedLead ? "Editar Lead" : "Adicionar Novo Lead"}
           </DialogTitle>
         </DialogHeader>
-        <LeadForm 
-          lead={selectedLead} 
-          onSubmit={handleSubmit}
-          onCancel={handleClose}
-        />
+        {selectedLead ? (
+          <Tabs defaultValue="details">
+            <TabsList className="mb-4">
+              <TabsTrigger value="details">Dados</TabsTrigger>
+              {selectedLead.status === "Aluno" && (
+                <>
+                  <TabsTrigger value="attendance">Frequência</TabsTrigger>
+                  <TabsTrigger value="billing">Financeiro</TabsTrigger>
+                </>
+              )}
+              <TabsTrigger value="history">Histórico</TabsTrigger>
+            </TabsList>
+            <TabsContent value="details">
+              <LeadForm 
+                lead={selectedLead} 
+                onSubmit={handleSubmit}
+                onCancel={handleClose}
+              />
+            </TabsContent>
+            {selectedLead.status === "Aluno" && (
+              <TabsContent value="attendance">
+                <StudentAttendancePanel leadId={selectedLead.id} />
+              </TabsContent>
+            )}
+            {selectedLead.status === "Aluno" && (
+              <TabsContent value="billing">
+                <StudentBillingPanel leadId={selectedLead.id} />
+              </TabsContent>
+            )}
+            <TabsContent value="history">
+              <ChangeHistoryTimeline
+                url={`/api/leads/${selectedLead.id}/history`}
+                fieldLabels={leadFieldLabels}
+              />
+            </TabsContent>
+          </Tabs>
+        ) : (
+          <LeadForm 
+            lead={selectedLead} 
+            onSubmit={handleSubmit}
+            onCancel={handleClose}
+          />
+        )}
       </DialogContent>
     </Dialog>
   );
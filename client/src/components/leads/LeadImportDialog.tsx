@@ -0,0 +1,470 @@
+import { useEffect, useRef, useState, type ChangeEvent } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { LeadImportJob } from "@shared/schema";
+import {
+  LEAD_IMPORT_FIELDS,
+  type LeadImportDefaults,
+  type LeadImportDryRun,
+  type LeadImportMapping,
+} from "@shared/lead-import";
+
+type ImportJob = Omit<LeadImportJob, "filePath">;
+
+interface PreviewRow {
+  row: number;
+  lead: Record<string, unknown> | null;
+  error: string | null;
+}
+
+const STATUS_LABELS: Record<ImportJob["status"], string> = {
+  rascunho: "Aguardando mapeamento",
+  na_fila: "Na fila",
+  processando: "Importando",
+  concluido: "Concluída",
+  falhou: "Falhou",
+  cancelado: "Cancelada",
+};
+
+const RUNNING_STATUSES: ImportJob["status"][] = ["na_fila", "processando"];
+const NOT_MAPPED = "__none__";
+const IMPORTS_QUERY_KEY = ["/api/lead-imports"];
+
+const errorReportUrl = (job: ImportJob) => `/api/lead-imports/${job.id}/errors.csv`;
+
+/**
+ * Importação de leads por planilha CSV ou XLSX: envio do arquivo, mapeamento das colunas,
+ * prévia da validação, simulação (novos x atualizados) e acompanhamento da importação no servidor
+ */
+export default function LeadImportDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [jobId, setJobId] = useState<number | null>(null);
+  const [sample, setSample] = useState<Record<string, string>[]>([]);
+  const [mapping, setMapping] = useState<LeadImportMapping>({});
+  const [defaults, setDefaults] = useState<LeadImportDefaults>({});
+  const [preview, setPreview] = useState<PreviewRow[] | null>(null);
+  const [dryRun, setDryRun] = useState<LeadImportDryRun | null>(null);
+  const [uploading, setUploading] = useState(false);
+
+  const { data: recentImports = [] } = useQuery<ImportJob[]>({
+    queryKey: IMPORTS_QUERY_KEY,
+    enabled: open && jobId === null,
+  });
+
+  // Andamento consultado enquanto a importação está na fila ou em execução
+  const { data: job } = useQuery<ImportJob>({
+    queryKey: [`/api/lead-imports/${jobId}`],
+    enabled: open && jobId !== null,
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return status && RUNNING_STATUSES.includes(status) ? 1500 : false;
+    },
+  });
+
+  const isRunning = !!job && RUNNING_STATUSES.includes(job.status);
+
+  // Quando a importação termina, a lista de leads e os indicadores são atualizados
+  const finishedStatus = job?.status;
+  useEffect(() => {
+    if (finishedStatus === "concluido" || finishedStatus === "cancelado") {
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+      queryClient.invalidateQueries({ queryKey: IMPORTS_QUERY_KEY });
+    }
+  }, [finishedStatus, queryClient]);
+
+  useEffect(() => {
+    if (!open) {
+      setJobId(null);
+      setSample([]);
+      setPreview(null);
+      setDryRun(null);
+    }
+  }, [open]);
+
+  const setJob = (updated: ImportJob) => {
+    queryClient.setQueryData([`/api/lead-imports/${updated.id}`], updated);
+    setJobId(updated.id);
+  };
+
+  const openJob = (existing: ImportJob) => {
+    setMapping(existing.mapping);
+    setDefaults(existing.defaults);
+    setDryRun(existing.dryRun);
+    setJob(existing);
+  };
+
+  const handleFileSelected = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setUploading(true);
+    try {
+      const response = await fetch(`/api/lead-imports?fileName=${encodeURIComponent(file.name)}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/octet-stream" },
+        body: file,
+        credentials: "include",
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || "Erro ao enviar a planilha");
+      }
+
+      setSample(result.sample);
+      openJob(result.job);
+    } catch (error) {
+      toast({
+        title: "Erro na importação",
+        description: error instanceof Error ? error.message : "Erro ao enviar a planilha",
+        variant: "destructive",
+      });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const mappingMutation = useMutation({
+    mutationFn: () =>
+      apiRequest<{ job: ImportJob; preview: PreviewRow[] }>("PUT", `/api/lead-imports/${jobId}/mapping`, { mapping, defaults }),
+    onSuccess: (result) => {
+      setJob(result.job);
+      setPreview(result.preview);
+      setDryRun(null);
+    },
+    onError: onError("Erro no mapeamento"),
+  });
+
+  const dryRunMutation = useMutation({
+    mutationFn: () => apiRequest<{ job: ImportJob; dryRun: LeadImportDryRun }>("POST", `/api/lead-imports/${jobId}/dry-run`),
+    onSuccess: (result) => {
+      setJob(result.job);
+      setDryRun(result.dryRun);
+    },
+    onError: onError("Erro na simulação"),
+  });
+
+  const startMutation = useMutation({
+    mutationFn: () => apiRequest<ImportJob>("POST", `/api/lead-imports/${jobId}/start`),
+    onSuccess: setJob,
+    onError: onError("Erro ao iniciar a importação"),
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: () => apiRequest<ImportJob>("POST", `/api/lead-imports/${jobId}/cancel`),
+    onSuccess: setJob,
+    onError: onError("Erro ao cancelar a importação"),
+  });
+
+  const updateMapping = (field: keyof LeadImportMapping, header: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (header === NOT_MAPPED) {
+        delete next[field];
+      } else {
+        next[field] = header;
+      }
+      return next;
+    });
+    setPreview(null);
+    setDryRun(null);
+  };
+
+  const updateDefault = (field: keyof LeadImportDefaults, value: string) => {
+    setDefaults(prev => ({ ...prev, [field]: value }));
+    setPreview(null);
+    setDryRun(null);
+  };
+
+  const progressValue = job && job.totalRows ? Math.min(100, Math.round((job.processedRows / job.totalRows) * 100)) : 0;
+  const isDraft = job?.status === "rascunho";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Importar Leads</DialogTitle>
+          <DialogDescription>
+            {job
+              ? `${job.fileName} · ${job.headers.length} colunas`
+              : "Envie uma planilha CSV ou XLSX com uma linha de cabeçalho. Leads com telefone já cadastrado são atualizados."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!job && (
+          <div className="space-y-4">
+            <input
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              ref={fileInputRef}
+              className="hidden"
+              onChange={handleFileSelected}
+            />
+            <button
+              className="w-full py-8 border-2 border-dashed border-gray-300 dark:border-gray-700 rounded-lg flex flex-col items-center justify-center cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-900 transition-colors duration-200"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={uploading}
+            >
+              {uploading ? (
+                <Loader2 className="h-8 w-8 animate-spin text-muted-foreground mb-2" />
+              ) : (
+                <span className="material-icons text-3xl text-gray-400 mb-2">upload_file</span>
+              )}
+              <span className="text-gray-600 dark:text-gray-300">
+                {uploading ? "Enviando planilha..." : "Clique para selecionar um arquivo CSV ou XLSX"}
+              </span>
+            </button>
+
+            {recentImports.length > 0 && (
+              <div>
+                <h4 className="text-sm font-medium mb-2">Importações recentes</h4>
+                <div className="divide-y rounded-md border dark:divide-gray-700 dark:border-gray-700">
+                  {recentImports.map(item => (
+                    <div key={item.id} className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+                      <div className="min-w-0">
+                        <p className="truncate font-medium">{item.fileName}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {format(new Date(item.createdAt), "dd/MM/yyyy HH:mm")} · {item.createdCount} novos · {item.updatedCount} atualizados · {item.errorCount} erros
+                        </p>
+                      </div>
+                      <div className="flex shrink-0 items-center gap-2">
+                        <Badge variant={item.status === "falhou" ? "destructive" : "secondary"}>{STATUS_LABELS[item.status]}</Badge>
+                        <Button size="sm" variant="ghost" onClick={() => openJob(item)}>Abrir</Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {job && isDraft && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {LEAD_IMPORT_FIELDS.map(({ field, label }) => (
+                <div key={field} className="space-y-1">
+                  <Label className="text-xs">{label}{(field === "name" || field === "email" || field === "phone") && " *"}</Label>
+                  <Select value={mapping[field] ?? NOT_MAPPED} onValueChange={(value) => updateMapping(field, value)}>
+                    <SelectTrigger className="h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>Não importar</SelectItem>
+                      {job.headers.map(header => (
+                        <SelectItem key={header} value={header}>{header}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <div>
+              <h4 className="text-sm font-medium mb-2">Valores padrão (coluna não mapeada ou vazia)</h4>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <div className="space-y-1">
+                  <Label className="text-xs">Origem</Label>
+                  <Input value={defaults.source ?? ""} onChange={(e) => updateDefault("source", e.target.value)} placeholder="Ex.: Favale" />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Status</Label>
+                  <Input value={defaults.status ?? ""} onChange={(e) => updateDefault("status", e.target.value)} placeholder="Lead" />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Campanha</Label>
+                  <Input value={defaults.campaign ?? ""} onChange={(e) => updateDefault("campaign", e.target.value)} placeholder="Importação em Lote" />
+                </div>
+              </div>
+            </div>
+
+            {!preview && sample.length > 0 && (
+              <div>
+                <h4 className="text-sm font-medium mb-2">Primeiras linhas da planilha</h4>
+                <div className="overflow-x-auto rounded-md border dark:border-gray-700">
+                  <table className="min-w-full text-xs">
+                    <thead className="bg-gray-50 dark:bg-gray-800">
+                      <tr>
+                        {job.headers.map(header => (
+                          <th key={header} className="px-2 py-1 text-left font-medium text-gray-500 dark:text-gray-300">{header}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y dark:divide-gray-700">
+                      {sample.map((row, index) => (
+                        <tr key={index}>
+                          {job.headers.map(header => (
+                            <td key={header} className="px-2 py-1 whitespace-nowrap">{row[header]}</td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+
+            {preview && (
+              <div>
+                <h4 className="text-sm font-medium mb-2">Prévia da validação</h4>
+                <div className="divide-y rounded-md border text-xs dark:divide-gray-700 dark:border-gray-700">
+                  {preview.map(item => (
+                    <div key={item.row} className="flex items-start gap-2 px-3 py-2">
+                      <span className="w-14 shrink-0 text-muted-foreground">Linha {item.row}</span>
+                      {item.lead ? (
+                        <span className="truncate">
+                          {String(item.lead.name)} · {String(item.lead.phone)} · {String(item.lead.email)} · {String(item.lead.status)}
+                        </span>
+                      ) : (
+                        <span className="text-red-600 dark:text-red-500">{item.error}</span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {dryRun && (
+              <div className="bg-gray-50 dark:bg-gray-900 p-4 rounded-lg border dark:border-gray-800">
+                <h4 className="text-sm font-medium mb-3">Simulação ({dryRun.totalRows} linhas)</h4>
+                <div className="grid grid-cols-3 gap-3 mb-3">
+                  <div className="bg-white dark:bg-gray-800 p-3 rounded-md shadow-sm">
+                    <div className="text-xs text-gray-500 dark:text-gray-400">Novos</div>
+                    <div className="text-lg font-semibold text-emerald-600 dark:text-emerald-500">{dryRun.creates}</div>
+                  </div>
+                  <div className="bg-white dark:bg-gray-800 p-3 rounded-md shadow-sm">
+                    <div className="text-xs text-gray-500 dark:text-gray-400">Atualizados</div>
+                    <div className="text-lg font-semibold text-blue-600 dark:text-blue-500">{dryRun.updates}</div>
+                  </div>
+                  <div className="bg-white dark:bg-gray-800 p-3 rounded-md shadow-sm">
+                    <div className="text-xs text-gray-500 dark:text-gray-400">Com erro</div>
+                    <div className="text-lg font-semibold text-red-600 dark:text-red-500">{dryRun.invalid}</div>
+                  </div>
+                </div>
+                {dryRun.errors.length > 0 && (
+                  <div className="max-h-32 overflow-y-auto space-y-1 text-xs">
+                    {dryRun.errors.map(error => (
+                      <p key={error.row}>
+                        <span className="text-muted-foreground">Linha {error.row}:</span> {error.message}
+                      </p>
+                    ))}
+                    {dryRun.invalid > dryRun.errors.length && (
+                      <p className="text-muted-foreground">E mais {dryRun.invalid - dryRun.errors.length} linha(s) com erro.</p>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {job && !isDraft && (
+          <div className="space-y-4">
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <span className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+                  {isRunning && <Loader2 className="h-4 w-4 animate-spin" />}
+                  {STATUS_LABELS[job.status]}
+                </span>
+                <span className="text-sm font-medium">
+                  {job.processedRows}{job.totalRows ? ` / ${job.totalRows}` : ""} linhas
+                </span>
+              </div>
+              <Progress value={job.status === "concluido" ? 100 : progressValue} className="h-2" />
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+              <div className="bg-gray-50 dark:bg-gray-900 p-3 rounded-md border dark:border-gray-800">
+                <div className="text-xs text-gray-500 dark:text-gray-400">Novos</div>
+                <div className="text-lg font-semibold text-emerald-600 dark:text-emerald-500">{job.createdCount}</div>
+              </div>
+              <div className="bg-gray-50 dark:bg-gray-900 p-3 rounded-md border dark:border-gray-800">
+                <div className="text-xs text-gray-500 dark:text-gray-400">Atualizados</div>
+                <div className="text-lg font-semibold text-blue-600 dark:text-blue-500">{job.updatedCount}</div>
+              </div>
+              <div className="bg-gray-50 dark:bg-gray-900 p-3 rounded-md border dark:border-gray-800">
+                <div className="text-xs text-gray-500 dark:text-gray-400">Erros</div>
+                <div className="text-lg font-semibold text-red-600 dark:text-red-500">{job.errorCount}</div>
+              </div>
+            </div>
+
+            {job.status === "falhou" && (
+              <p className="text-sm text-red-600 dark:text-red-500">
+                {job.lastError || "A importação foi interrompida."} Ao retomar, ela continua da linha {job.processedRows + 1}.
+              </p>
+            )}
+
+            {job.errorCount > 0 && (
+              <a href={errorReportUrl(job)} className="inline-flex items-center text-sm text-primary hover:underline">
+                <span className="material-icons text-sm mr-1">file_download</span>
+                Baixar relatório de erros (CSV)
+              </a>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {job && (isDraft || job.status === "falhou" || isRunning) && (
+            <Button variant="outline" onClick={() => cancelMutation.mutate()} disabled={cancelMutation.isPending}>
+              Cancelar importação
+            </Button>
+          )}
+          {job && isDraft && (
+            <>
+              <Button variant="outline" onClick={() => mappingMutation.mutate()} disabled={mappingMutation.isPending}>
+                {mappingMutation.isPending ? "Validando..." : "Validar prévia"}
+              </Button>
+              <Button variant="outline" onClick={() => dryRunMutation.mutate()} disabled={(!preview && !dryRun) || dryRunMutation.isPending}>
+                {dryRunMutation.isPending ? "Simulando..." : "Simular"}
+              </Button>
+              <Button onClick={() => startMutation.mutate()} disabled={!dryRun || startMutation.isPending}>
+                Importar
+              </Button>
+            </>
+          )}
+          {job?.status === "falhou" && (
+            <Button onClick={() => startMutation.mutate()} disabled={startMutation.isPending}>
+              Retomar
+            </Button>
+          )}
+          {job && !isDraft && !isRunning && job.status !== "falhou" && (
+            <Button variant="outline" onClick={() => setJobId(null)}>
+              Nova importação
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
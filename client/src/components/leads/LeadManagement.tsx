@@ -1,11 +1,14 @@
-import { useState, useRef, ChangeEvent, useEffect } from "react";
-import { useQuery, useQueryClient } from "@tanstack/react-query";
-import { Lead, InsertLead } from "@shared/schema";
+import { useState, useRef, useEffect } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Lead } from "@shared/schema";
 import { useLeadContext } from "@/context/LeadContext";
 import { useToast } from "@/hooks/use-toast";
 import { Progress } from "@/components/ui/progress";
 import LeadTable from "./LeadTable";
 import LeadDialog from "./LeadDialog";
+import DuplicateLeadsDialog from "./DuplicateLeadsDialog";
+import LeadImportDialog from "./LeadImportDialog";
 import { 
   AlertDialog,
   AlertDialogAction,
@@ -40,16 +43,23 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 
+type LeadFacet = 'source' | 'status' | 'campaign' | 'state' | 'tag';
+
+interface LeadSearchResult {
+  leads: Lead[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+  facets: Record<LeadFacet, { value: string; count: number }[]>;
+}
+
+const LEADS_PER_PAGE = 10;
+// Tamanho máximo de página aceito pela API, usado para buscar todos os resultados do filtro
+const LEADS_FETCH_ALL_PAGE_SIZE = 100;
+
 export default function LeadManagement() {
-  const queryClient = useQueryClient();
-  const { data: leads, isLoading, error } = useQuery<Lead[]>({
-    queryKey: ["/api/leads"],
-  });
-  
   const [currentPage, setCurrentPage] = useState(1);
-  const leadsPerPage = 10;
-  const indexOfLastLead = currentPage * leadsPerPage;
-  const indexOfFirstLead = indexOfLastLead - leadsPerPage;
 
   const { 
     setIsDialogOpen, 
@@ -68,6 +78,8 @@ export default function LeadManagement() {
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [batchDeleteDialogOpen, setBatchDeleteDialogOpen] = useState(false);
   const [searchTerm, setSearchTerm] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [sort, setSort] = useState("entryDate:desc");
   type FilterState = {
     source: string;
     status: string;
@@ -90,23 +102,85 @@ export default function LeadManagement() {
     dateRange: ""
   });
   
-  // Função que retorna todas as tags únicas dos leads
-  const getUniqueTags = () => {
-    if (!leads) return [];
-    
-    // Obter todas as tags
-    const allTags = leads.flatMap(lead => lead.tags || []);
-    
-    // Criar um objeto para rastrear tags únicas
-    const uniqueTagsObj: Record<string, boolean> = {};
-    allTags.forEach(tag => {
-      if (tag.trim() !== "") {
-        uniqueTagsObj[tag] = true;
+  // Evitar uma requisição a cada tecla digitada na busca
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchTerm.trim()), 400);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
+
+  // Voltar para a primeira página sempre que a busca, um filtro ou a ordenação mudar
+  useEffect(() => {
+    setCurrentPage(1);
+  }, [debouncedSearch, filters, sort]);
+
+  // Parâmetros da busca no servidor, sem a paginação
+  const buildSearchParams = () => {
+    const [sortBy, sortDir] = sort.split(":");
+    const params = new URLSearchParams({ sortBy, sortDir });
+    if (debouncedSearch) params.set("q", debouncedSearch);
+    if (filters.source) params.set("source", filters.source);
+    if (filters.status) params.set("status", filters.status);
+    if (filters.campaign) params.set("campaign", filters.campaign);
+    if (filters.state) params.set("state", filters.state);
+    if (filters.tag) params.set("tag", filters.tag);
+    if (filters.startDate) params.set("startDate", filters.startDate);
+    if (filters.endDate) params.set("endDate", filters.endDate);
+    return params;
+  };
+
+  const searchParams = buildSearchParams();
+  searchParams.set("page", String(currentPage));
+  searchParams.set("pageSize", String(LEADS_PER_PAGE));
+  const queryString = searchParams.toString();
+
+  // A chave começa com /api/leads para que as invalidações após criar, editar ou excluir recarreguem a busca
+  const { data: searchResult, isLoading, error } = useQuery<LeadSearchResult>({
+    queryKey: ["/api/leads", "search", queryString],
+    queryFn: async () => {
+      const response = await fetch(`/api/leads/search?${queryString}`, { credentials: "include" });
+      if (!response.ok) {
+        throw new Error("Falha ao carregar leads");
       }
-    });
-    
-    // Converter de volta para array e ordenar
-    return Object.keys(uniqueTagsObj).sort();
+      return await response.json();
+    },
+    placeholderData: keepPreviousData,
+  });
+
+  const leads = searchResult?.leads || [];
+  const totalLeads = searchResult?.total || 0;
+
+  // Após exclusões a última página pode deixar de existir
+  useEffect(() => {
+    if (searchResult && searchResult.totalPages > 0 && currentPage > searchResult.totalPages) {
+      setCurrentPage(searchResult.totalPages);
+    }
+  }, [searchResult, currentPage]);
+
+  // Busca todos os leads do filtro atual, página por página, para exportação e seleção em massa
+  const fetchAllFilteredLeads = async (onProgress?: (fraction: number) => void) => {
+    const params = buildSearchParams();
+    params.set("pageSize", String(LEADS_FETCH_ALL_PAGE_SIZE));
+    const allLeads: Lead[] = [];
+    let page = 1;
+    let totalPages = 1;
+
+    do {
+      params.set("page", String(page));
+      const result = await apiRequest<LeadSearchResult>("GET", `/api/leads/search?${params.toString()}`);
+      allLeads.push(...result.leads);
+      totalPages = result.totalPages;
+      onProgress?.(page / Math.max(totalPages, 1));
+      page++;
+    } while (page <= totalPages);
+
+    return allLeads;
+  };
+
+  // Rótulo de uma opção de filtro com a quantidade de leads que ela retornaria
+  const facetLabel = (facet: LeadFacet, value: string, label: string) => {
+    if (!searchResult) return label;
+    const count = searchResult.facets[facet].find(item => item.value === value)?.count || 0;
+    return `${label} (${count})`;
   };
   
   // Função para configurar data inicial e final com base no período selecionado
@@ -156,164 +230,14 @@ export default function LeadManagement() {
   };
   const [filterMenuOpen, setFilterMenuOpen] = useState(false);
   const [importDialogOpen, setImportDialogOpen] = useState(false);
-  const fileInputRef = useRef<HTMLInputElement>(null);
   const [batchStatusValue, setBatchStatusValue] = useState("");
   const [batchSourceValue, setBatchSourceValue] = useState("");
   const [exportLoading, setExportLoading] = useState(false);
   const [exportProgress, setExportProgress] = useState(0);
   const [exportFormat, setExportFormat] = useState<"csv" | "json" | "excel">("csv");
   const [exportDialogOpen, setExportDialogOpen] = useState(false);
+  const [duplicatesDialogOpen, setDuplicatesDialogOpen] = useState(false);
   const csvLinkRef = useRef<HTMLAnchorElement>(null);
-  const [importLoading, setImportLoading] = useState(false);
-  const [importProgress, setImportProgress] = useState(0);
-  const [previewData, setPreviewData] = useState<any[]>([]);
-  const [showPreview, setShowPreview] = useState(false);
-  const [parsedLeads, setParsedLeads] = useState<InsertLead[]>([]);
-  const [importStats, setImportStats] = useState<{
-    currentBatch: number;
-    totalBatches: number; 
-    processedCount: number;
-    successCount: number;
-    errorCount: number;
-    updatedCount: number;
-    totalCount: number;
-    currentBatchSize: number;
-    statusMessage: string;
-    batchResults: Array<{
-      batch: number;
-      success: number;
-      updated: number;
-      errors: number;
-    }>;
-  }>({
-    currentBatch: 0,
-    totalBatches: 0,
-    processedCount: 0,
-    successCount: 0,
-    errorCount: 0,
-    updatedCount: 0,
-    totalCount: 0,
-    currentBatchSize: 0,
-    statusMessage: 'Aguardando início da importação',
-    batchResults: []
-  });
-
-  // Parse CSV content and extract lead data
-  const parseCSV = (content: string) => {
-    const rows = content.split('\n');
-    
-    if (rows.length < 2) {
-      throw new Error("O arquivo não contém dados válidos.");
-    }
-    
-    // Extract headers and normalize them
-    const headers = rows[0]
-      .split(',')
-      .map(header => header.trim().toLowerCase());
-    
-    const requiredHeaders = ['nome', 'email'];
-    const missingHeaders = requiredHeaders.filter(header => !headers.includes(header));
-    
-    if (missingHeaders.length > 0) {
-      throw new Error(`O arquivo não contém os cabeçalhos obrigatórios: ${missingHeaders.join(', ')}.`);
-    }
-    
-    // Process each row
-    const leadsToImport: InsertLead[] = [];
-    const errorRows: number[] = [];
-    const parsedRows: any[] = [];
-    
-    for (let i = 1; i < rows.length; i++) {
-      if (!rows[i].trim()) continue;
-      
-      const values = rows[i].split(',');
-      if (values.length !== headers.length) {
-        errorRows.push(i);
-        continue;
-      }
-      
-      // Create lead object from CSV row
-      try {
-        const leadData: Record<string, any> = {};
-        const rowData: Record<string, any> = {};
-        
-        headers.forEach((header, index) => {
-          const value = values[index]?.trim() || "";
-          rowData[header] = value;
-          
-          switch(header) {
-            case 'nome':
-            case 'name':
-              leadData.name = value;
-              break;
-            case 'email':
-              leadData.email = value;
-              break;
-            case 'telefone':
-            case 'phone':
-              leadData.phone = value;
-              break;
-            case 'estado':
-            case 'state':
-              leadData.state = value;
-              break;
-            case 'campanha':
-            case 'campaign':
-              leadData.campaign = value;
-              break;
-            case 'origem':
-            case 'fonte':
-            case 'source':
-              leadData.source = value;
-              break;
-            case 'status':
-              leadData.status = value || "Lead";
-              break;
-            case 'tags':
-              leadData.tags = value ? value.split(/[,;]/).map(tag => tag.trim()) : [];
-              break;
-            case 'data_entrada':
-            case 'data de entrada':
-              try {
-                leadData.entryDate = value ? new Date(value).toISOString() : new Date().toISOString();
-              } catch (e) {
-                leadData.entryDate = new Date().toISOString();
-              }
-              break;
-            case 'observacoes':
-            case 'observações':
-              leadData.notes = value;
-              break;
-          }
-        });
-        
-        // Validate required fields
-        if (!leadData.name || !leadData.email) {
-          errorRows.push(i);
-          continue;
-        }
-        
-        // Set defaults for missing fields
-        if (!leadData.status) leadData.status = "Lead";
-        if (!leadData.source) leadData.source = "Favale";
-        if (!leadData.tags) leadData.tags = [];
-        if (!leadData.entryDate) leadData.entryDate = new Date().toISOString();
-        
-        leadsToImport.push(leadData as InsertLead);
-        parsedRows.push(rowData);
-      } catch (error) {
-        console.error(`Erro ao processar linha ${i}:`, error);
-        errorRows.push(i);
-      }
-    }
-    
-    if (leadsToImport.length === 0) {
-      throw new Error("Nenhum lead válido encontrado no arquivo.");
-    }
-    
-    return { leadsToImport, errorRows, parsedRows };
-  };
-  
   const handleNewLead = () => {
     setSelectedLead(null);
     setIsDialogOpen(true);
@@ -358,465 +282,16 @@ export default function LeadManagement() {
     }
   };
 
-  const handleFileUpload = async (e: ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-    
-    const reader = new FileReader();
-    reader.onload = async (event) => {
-      try {
-        const content = event.target?.result as string;
-        
-        // Pré-processamento para garantir quebras de linha consistentes (CRLF -> LF)
-        const normalizedContent = content.replace(/\r\n/g, '\n').replace(/\r/g, '\n');
-        const rows = normalizedContent.split('\n');
-        
-        console.log(`Total de linhas no arquivo: ${rows.length}`);
-        
-        if (rows.length < 2) {
-          toast({
-            title: "Erro na importação",
-            description: "O arquivo não contém dados válidos.",
-            variant: "destructive",
-          });
-          return;
-        }
-        
-        // Extrair cabeçalhos com tratamento especial para vírgulas em aspas
-        let headerRow = rows[0];
-        const headerValues: string[] = [];
-        let insideHeaderQuotes = false;
-        let currentHeader = "";
-        
-        for (let j = 0; j < headerRow.length; j++) {
-          const char = headerRow[j];
-          
-          if (char === '"') {
-            insideHeaderQuotes = !insideHeaderQuotes;
-          } else if (char === ',' && !insideHeaderQuotes) {
-            headerValues.push(currentHeader.trim().toLowerCase());
-            currentHeader = "";
-          } else {
-            currentHeader += char;
-          }
-        }
-        
-        // Adicionar o último cabeçalho
-        headerValues.push(currentHeader.trim().toLowerCase());
-        
-        // Limpar aspas nos cabeçalhos
-        const headers = headerValues.map(header => {
-          let cleaned = header.trim();
-          if (cleaned.startsWith('"') && cleaned.endsWith('"')) {
-            cleaned = cleaned.substring(1, cleaned.length - 1);
-          }
-          return cleaned;
-        });
-        
-        console.log('Cabeçalhos encontrados:', headers);
-        
-        // Map para normalização de cabeçalhos
-        const headerMap: Record<string, string[]> = {
-          'nome': ['nome', 'name', 'Nome'],
-          'email': ['email', 'Email'],
-          'telefone': ['telefone', 'phone', 'Telefone'],
-          'estado': ['estado', 'state', 'Estado'],
-          'status': ['status', 'Status'],
-          'fonte': ['fonte', 'source', 'origem', 'Fonte'],
-          'campanha': ['campanha', 'campaign', 'Campanha'],
-          'tags': ['tags', 'Tags'],
-          'data_entrada': ['data_entrada', 'data de entrada', 'data', 'Data de Entrada'],
-          'observacoes': ['observacoes', 'observações', 'notas', 'notes', 'Observações']
-        };
-        
-        // Verificar se os cabeçalhos necessários estão presentes usando o mapa
-        const requiredFields = ['nome', 'email'];
-        const missingHeaders = [];
-        
-        for (const required of requiredFields) {
-          const possibleHeaders = headerMap[required];
-          if (!possibleHeaders.some(h => headers.includes(h))) {
-            missingHeaders.push(required);
-          }
-        }
-        
-        if (missingHeaders.length > 0) {
-          toast({
-            title: "Erro na importação",
-            description: `O arquivo não contém os cabeçalhos obrigatórios: ${missingHeaders.join(', ')}.`,
-            variant: "destructive",
-          });
-          return;
-        }
-        
-        // Process each row
-        const leadsToImport: InsertLead[] = [];
-        const errorRows: number[] = [];
-        
-        // Iniciar da linha 1 (após o cabeçalho)
-        for (let i = 1; i < rows.length; i++) {
-          if (!rows[i] || !rows[i].trim()) continue;
-          
-          // Process each row - tratamento especial para campos com vírgulas dentro de aspas
-          const row = rows[i];
-          const values: string[] = [];
-          let insideQuotes = false;
-          let currentValue = "";
-          
-          for (let j = 0; j < row.length; j++) {
-            const char = row[j];
-            
-            if (char === '"') {
-              insideQuotes = !insideQuotes;
-              // Mantém aspas apenas para processamento posterior
-              currentValue += char;
-            } else if (char === ',' && !insideQuotes) {
-              values.push(currentValue);
-              currentValue = "";
-            } else {
-              currentValue += char;
-            }
-          }
-          
-          // Adicionar o último valor
-          values.push(currentValue);
-          
-          // Limpar aspas externas e espaços em branco
-          const cleanValues = values.map(val => {
-            let cleaned = val.trim();
-            if (cleaned.startsWith('"') && cleaned.endsWith('"')) {
-              cleaned = cleaned.substring(1, cleaned.length - 1);
-            }
-            return cleaned;
-          });
-          
-          console.log('Linha processada:', cleanValues);
-          
-          if (cleanValues.length !== headers.length) {
-            console.error(`Linha ${i} tem ${cleanValues.length} valores, mas esperava ${headers.length}`);
-            errorRows.push(i);
-            continue;
-          }
-          
-          // Create lead object from CSV row
-          try {
-            const leadData: Record<string, any> = {};
-            
-            // Criar um mapa inverso para encontrar o campo de destino com base no header
-            const reverseHeaderMap: Record<string, string> = {};
-            Object.entries(headerMap).forEach(([key, values]) => {
-              values.forEach(value => {
-                reverseHeaderMap[value] = key;
-              });
-            });
-
-            headers.forEach((header, index) => {
-              const value = cleanValues[index] || "";
-              const normalizedHeader = reverseHeaderMap[header] || header;
-              
-              switch(normalizedHeader) {
-                case 'nome':
-                  leadData.name = value;
-                  break;
-                case 'email':
-                  leadData.email = value;
-                  break;
-                case 'telefone':
-                  leadData.phone = value;
-                  break;
-                case 'estado':
-                  leadData.state = value;
-                  break;
-                case 'campanha':
-                  leadData.campaign = value;
-                  break;
-                case 'fonte':
-                  leadData.source = value;
-                  break;
-                case 'status':
-                  leadData.status = value || "Lead";
-                  break;
-                case 'tags':
-                  // Processamento mais robusto para tags
-                  if (value) {
-                    // Primeiro verifica se está entre aspas duplas
-                    let processedValue = value;
-                    if (processedValue.startsWith('"') && processedValue.endsWith('"')) {
-                      // Remove as aspas e divide pelos delimitadores
-                      processedValue = processedValue.substring(1, processedValue.length - 1);
-                    }
-                    // Divide por vírgulas ou ponto-e-vírgulas
-                    leadData.tags = processedValue
-                      .split(/[,;]/)
-                      .map(tag => tag.trim())
-                      .filter(tag => tag.length > 0); // Remove tags vazias
-                  } else {
-                    leadData.tags = [];
-                  }
-                  break;
-                case 'data_entrada':
-                  try {
-                    // Tenta converter a data de entrada para formato de string que o servidor conseguirá processar
-                    if (value) {
-                      // Formatar corretamente a data brasileira (DD/MM/YYYY)
-                      if (/^\d{2}\/\d{2}\/\d{4}$/.test(value)) {
-                        const [day, month, year] = value.split('/');
-                        // Armazenar como string no formato ISO sem conversão para Date
-                        leadData.entryDate = `${year}-${month}-${day}`;
-                      } 
-                      // Tenta lidar com o formato americano (MM/DD/YYYY)
-                      else if (/^\d{2}\/\d{2}\/\d{4}$/.test(value)) {
-                        const [month, day, year] = value.split('/');
-                        leadData.entryDate = `${year}-${month}-${day}`;
-                      }
-                      // Formato ISO (YYYY-MM-DD)
-                      else if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
-                        leadData.entryDate = value;
-                      }
-                      // Formato apenas o ano (YYYY)
-                      else if (/^\d{4}$/.test(value)) {
-                        leadData.entryDate = `${value}-01-01`;
-                      }
-                      else {
-                        // Usar a data atual para qualquer formato não reconhecido
-                        console.warn(`Formato de data não reconhecido: ${value}`);
-                        leadData.entryDate = new Date().toISOString().split('T')[0];
-                      }
-                      
-                      console.log(`Processamento de data: original='${value}', processada='${leadData.entryDate}'`);
-                    } else {
-                      // Se não tem valor, usa a data atual sem a parte de hora
-                      leadData.entryDate = new Date().toISOString().split('T')[0];
-                    }
-                  } catch (e) {
-                    console.error('Erro ao processar data:', e);
-                    leadData.entryDate = new Date().toISOString().split('T')[0];
-                  }
-                  break;
-                case 'observacoes':
-                case 'observações':
-                  leadData.notes = value;
-                  break;
-              }
-            });
-            
-            // Validate required fields
-            if (!leadData.name || !leadData.email) {
-              errorRows.push(i);
-              continue;
-            }
-            
-            // Set defaults for missing fields
-            if (!leadData.status) leadData.status = "Lead";
-            if (!leadData.source) leadData.source = "Favale";
-            if (!leadData.tags) leadData.tags = [];
-            if (!leadData.entryDate) leadData.entryDate = new Date().toISOString();
-            
-            leadsToImport.push(leadData as InsertLead);
-          } catch (error) {
-            console.error(`Erro ao processar linha ${i}:`, error);
-            errorRows.push(i);
-          }
-        }
-        
-        // Report results
-        if (leadsToImport.length === 0) {
-          toast({
-            title: "Erro na importação",
-            description: "Nenhum lead válido encontrado no arquivo.",
-            variant: "destructive",
-          });
-          return;
-        }
-        
-        // Enviar leads em lote para a API em chunks para evitar problemas com tamanho de payload
-        try {
-          setImportProgress(50);
-          
-          // Processar em lotes de no máximo 250 leads para evitar problemas de tamanho de payload
-          const BATCH_SIZE = 250;
-          const totalBatches = Math.ceil(leadsToImport.length / BATCH_SIZE);
-          console.log(`Processando ${leadsToImport.length} leads em ${totalBatches} lotes de ${BATCH_SIZE}`);
-          
-          // Reset estatísticas de importação
-          setImportStats({
-            currentBatch: 0,
-            totalBatches,
-            processedCount: 0,
-            successCount: 0,
-            errorCount: 0,
-            updatedCount: 0,
-            totalCount: leadsToImport.length,
-            currentBatchSize: 0,
-            statusMessage: 'Iniciando importação...',
-            batchResults: []
-          });
-          
-          let successCount = 0;
-          let updatedCount = 0;
-          let errorCount = 0;
-          let details: Array<{index: number, id?: number, error?: string, action?: string, data?: any}> = [];
-          
-          for (let batchIndex = 0; batchIndex < totalBatches; batchIndex++) {
-            const start = batchIndex * BATCH_SIZE;
-            const end = Math.min(start + BATCH_SIZE, leadsToImport.length);
-            const currentBatch = leadsToImport.slice(start, end);
-            
-            console.log(`Enviando lote ${batchIndex + 1}/${totalBatches} (${currentBatch.length} leads)`);
-            
-            // Atualizar estatísticas antes de iniciar o processamento do lote
-            setImportStats(prev => ({
-              ...prev,
-              currentBatch: batchIndex + 1,
-              currentBatchSize: currentBatch.length,
-              statusMessage: `Processando lote ${batchIndex + 1} de ${totalBatches}...`
-            }));
-            
-            setImportProgress(50 + Math.floor((batchIndex / totalBatches) * 40));
-            const response = await fetch('/api/leads/batch/import', {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json'
-              },
-              body: JSON.stringify({ leads: currentBatch })
-            });
-            
-            if (!response.ok) {
-              let errorText;
-              try {
-                // Tenta obter o erro como JSON
-                const errorJson = await response.json();
-                errorText = errorJson.message || 'Erro desconhecido';
-              } catch (e) {
-                // Se não for JSON, tenta obter como texto
-                errorText = await response.text();
-              }
-              throw new Error(`Erro na importação do lote ${batchIndex + 1}: ${errorText}`);
-            }
-            
-            try {
-              const batchResult = await response.json();
-              console.log(`Resultado do lote ${batchIndex + 1}:`, batchResult);
-              
-              // Acumular resultados
-              successCount += batchResult.successCount || 0;
-              updatedCount += batchResult.updatedCount || 0;
-              errorCount += batchResult.errorCount || 0;
-              
-              if (batchResult.details && Array.isArray(batchResult.details)) {
-                details = [...details, ...batchResult.details];
-              }
-              
-              // Atualizar estatísticas com os resultados deste lote
-              setImportStats(prev => {
-                const processedCount = prev.processedCount + currentBatch.length;
-                const newSuccessCount = prev.successCount + (batchResult.successCount || 0);
-                const newUpdatedCount = prev.updatedCount + (batchResult.updatedCount || 0);
-                const newErrorCount = prev.errorCount + (batchResult.errorCount || 0);
-                
-                // Adicionar resultado do lote atual ao histórico
-                const newBatchResults = [...prev.batchResults, {
-                  batch: batchIndex + 1,
-                  success: batchResult.successCount || 0,
-                  updated: batchResult.updatedCount || 0,
-                  errors: batchResult.errorCount || 0
-                }];
-                
-                return {
-                  ...prev,
-                  currentBatch: batchIndex + 1,
-                  processedCount,
-                  successCount: newSuccessCount,
-                  updatedCount: newUpdatedCount,
-                  errorCount: newErrorCount,
-                  statusMessage: `Lote ${batchIndex + 1} finalizado: ${batchResult.successCount || 0} leads importados, ${batchResult.updatedCount || 0} atualizados, ${batchResult.errorCount || 0} erros`,
-                  batchResults: newBatchResults
-                };
-              });
-            } catch (e) {
-              console.error(`Erro ao parsear resultado JSON do lote ${batchIndex + 1}:`, e);
-              throw new Error('Erro ao processar resposta do servidor');
-            }
-          }
-          
-          // Consolidar resultados de todos os lotes
-          const result = {
-            successCount,
-            updatedCount,
-            errorCount,
-            details
-          };
-          
-          console.log('Resultado final da importação em lotes:', result);
-          
-          // Atualizar a lista de leads após a importação bem-sucedida
-          try {
-            // Primeiro, invalidamos a consulta
-            await queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
-            
-            // Em seguida, disparamos manualmente uma nova consulta com await para garantir que seja concluída
-            await queryClient.fetchQuery({ queryKey: ["/api/leads"] });
-            console.log('Dados atualizados com sucesso após importação');
-          } catch (e) {
-            console.error('Erro ao atualizar dados após importação:', e);
-          }
-          
-          // Atualizar mensagem final das estatísticas
-          setImportStats(prev => ({
-            ...prev,
-            statusMessage: 'Importação finalizada com sucesso!',
-          }));
-          
-          setImportProgress(100);
-          
-          // Show results
-          setImportDialogOpen(false);
-          const totalSuccess = (result.successCount || 0) + (result.updatedCount || 0);
-          
-          toast({
-            title: "Importação concluída",
-            description: `${result.successCount || 0} leads importados${result.updatedCount > 0 ? ` e ${result.updatedCount} atualizados` : ''} com sucesso.${result.errorCount > 0 ? ` ${result.errorCount} leads com erro.` : ''}`,
-            variant: totalSuccess > 0 ? "default" : "destructive",
-          });
-        } catch (error) {
-          console.error('Erro ao importar leads em lote:', error);
-          
-          toast({
-            title: "Erro na importação",
-            description: error instanceof Error ? error.message : "Ocorreu um erro ao importar os leads.",
-            variant: "destructive",
-          });
-        }
-        
-      } catch (error) {
-        console.error('Erro ao processar arquivo:', error);
-        toast({
-          title: "Erro na importação",
-          description: "Ocorreu um erro ao processar o arquivo.",
-          variant: "destructive",
-        });
-      }
-    };
-    
-    reader.onerror = () => {
-      toast({
-        title: "Erro na importação",
-        description: "Erro ao ler o arquivo.",
-        variant: "destructive",
-      });
-    };
-    
-    reader.readAsText(file);
-    e.target.value = ''; // Reset the input
-  };
-  
   const handleExportLeads = async () => {
-    if (!filteredLeads || filteredLeads.length === 0) return;
+    if (totalLeads === 0) return;
     
     setExportLoading(true);
-    setExportProgress(10);
+    setExportProgress(5);
     
     try {
+      // A tabela só tem a página atual; buscar todos os leads do filtro no servidor
+      const filteredLeads = await fetchAllFilteredLeads(fraction => setExportProgress(5 + Math.round(fraction * 20)));
+
       // Define headers
       const headers = [
         'ID', 'Nome', 'Email', 'Telefone', 'Estado', 'Status', 
@@ -958,206 +433,6 @@ export default function LeadManagement() {
     }
   };
 
-  const confirmImport = async () => {
-    if (parsedLeads.length === 0) return;
-    
-    // Reset estatísticas de importação
-    setImportStats({
-      currentBatch: 0,
-      totalBatches: 1,
-      processedCount: 0,
-      successCount: 0,
-      errorCount: 0,
-      updatedCount: 0,
-      totalCount: parsedLeads.length,
-      currentBatchSize: parsedLeads.length,
-      statusMessage: 'Iniciando importação...',
-      batchResults: []
-    });
-    
-    try {
-      setImportProgress(60);
-      setImportStats(prev => ({
-        ...prev,
-        statusMessage: 'Enviando dados para o servidor...'
-      }));
-      
-      // Enviar leads em lote para a API
-      const response = await fetch('/api/leads/batch/import', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({ leads: parsedLeads })
-      });
-      
-      let result;
-      if (!response.ok) {
-        let errorText;
-        try {
-          // Tenta obter o erro como JSON
-          const errorJson = await response.json();
-          errorText = errorJson.message || 'Erro desconhecido';
-        } catch (e) {
-          // Se não for JSON, tenta obter como texto
-          errorText = await response.text();
-        }
-        
-        setImportStats(prev => ({
-          ...prev,
-          statusMessage: `Erro: ${errorText}`,
-        }));
-        
-        throw new Error(`Erro na importação em lote: ${errorText}`);
-      }
-      
-      try {
-        result = await response.json();
-      } catch (e) {
-        console.error('Erro ao parsear resultado JSON:', e);
-        throw new Error('Erro ao processar resposta do servidor');
-      }
-      console.log('Resultado da importação em lote:', result);
-      
-      // Atualizar estatísticas com os resultados
-      setImportStats(prev => {
-        const successCount = result.successCount || 0;
-        const updatedCount = result.updatedCount || 0;
-        const errorCount = result.errorCount || 0;
-        
-        // Adicionar resultado do lote ao histórico
-        const newBatchResults = [...prev.batchResults, {
-          batch: 1,
-          success: successCount,
-          updated: updatedCount,
-          errors: errorCount
-        }];
-        
-        return {
-          ...prev,
-          currentBatch: 1,
-          processedCount: parsedLeads.length,
-          successCount,
-          updatedCount,
-          errorCount,
-          statusMessage: 'Processamento concluído, atualizando dados...',
-          batchResults: newBatchResults
-        };
-      });
-      
-      // Atualizar a lista de leads após a importação bem-sucedida
-      try {
-        // Primeiro, invalidamos a consulta
-        await queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
-        
-        // Em seguida, disparamos manualmente uma nova consulta com await para garantir que seja concluída
-        await queryClient.fetchQuery({ queryKey: ["/api/leads"] });
-        console.log('Dados atualizados com sucesso após importação');
-        
-        // Atualizar mensagem final
-        setImportStats(prev => ({
-          ...prev,
-          statusMessage: 'Importação finalizada com sucesso!'
-        }));
-      } catch (e) {
-        console.error('Erro ao atualizar dados após importação:', e);
-      }
-      
-      // Show results
-      setImportProgress(100);
-      setImportDialogOpen(false);
-      setShowPreview(false);
-      setPreviewData([]);
-      setParsedLeads([]);
-      
-      const updatedCount = result.updatedCount || 0;
-      const totalSuccess = (result.successCount || 0) + updatedCount;
-      
-      toast({
-        title: "Importação concluída",
-        description: `${result.successCount || 0} leads importados${updatedCount > 0 ? ` e ${updatedCount} atualizados` : ''} com sucesso.${result.errorCount > 0 ? ` ${result.errorCount} leads com erro.` : ''}`,
-        variant: totalSuccess > 0 ? "default" : "destructive",
-      });
-      
-    } catch (error) {
-      console.error('Erro ao processar importação:', error);
-      
-      setImportStats(prev => ({
-        ...prev,
-        statusMessage: error instanceof Error ? error.message : 'Erro desconhecido durante a importação'
-      }));
-      
-      toast({
-        title: "Erro na importação",
-        description: error instanceof Error ? error.message : "Ocorreu um erro ao importar os leads.",
-        variant: "destructive",
-      });
-    } finally {
-      setImportLoading(false);
-      setImportProgress(0);
-    }
-  };
-  
-  // Reset progress and data when dialog closes
-  useEffect(() => {
-    if (!importDialogOpen) {
-      setImportProgress(0);
-      setImportLoading(false);
-      
-      // Only reset preview data if not in the middle of import
-      if (!importLoading) {
-        setShowPreview(false);
-        setPreviewData([]);
-        setParsedLeads([]);
-      }
-    }
-  }, [importDialogOpen, importLoading]);
-  
-  // Filtered leads processing
-  const filteredLeads = leads?.filter(lead => {
-    // Search term filter
-    const matchesSearch = searchTerm === "" ||
-      lead.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      lead.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      lead.phone.toLowerCase().includes(searchTerm.toLowerCase());
-    
-    // Dropdown filters
-    const matchesSource = filters.source === "" || lead.source === filters.source;
-    const matchesStatus = filters.status === "" || lead.status === filters.status;
-    const matchesCampaign = filters.campaign === "" || lead.campaign === filters.campaign;
-    
-    // Advanced filters
-    const matchesState = filters.state === "" || lead.state === filters.state;
-    
-    // Tag filter
-    const matchesTag = filters.tag === "" || (lead.tags && lead.tags.includes(filters.tag));
-    
-    // Date filters
-    let matchesDateRange = true;
-    if (filters.startDate && filters.endDate) {
-      const leadDate = new Date(lead.entryDate);
-      const startDate = new Date(filters.startDate);
-      const endDate = new Date(filters.endDate);
-      // Add one day to end date to include the end date itself
-      endDate.setDate(endDate.getDate() + 1);
-      
-      matchesDateRange = leadDate >= startDate && leadDate < endDate;
-    } else if (filters.startDate) {
-      const leadDate = new Date(lead.entryDate);
-      const startDate = new Date(filters.startDate);
-      matchesDateRange = leadDate >= startDate;
-    } else if (filters.endDate) {
-      const leadDate = new Date(lead.entryDate);
-      const endDate = new Date(filters.endDate);
-      // Add one day to end date to include the end date itself
-      endDate.setDate(endDate.getDate() + 1);
-      matchesDateRange = leadDate < endDate;
-    }
-    
-    return matchesSearch && matchesSource && matchesStatus && matchesCampaign && 
-           matchesState && matchesDateRange && matchesTag;
-  });
-
   // Check if there are active filters
   const hasActiveFilters = [
     filters.source,
@@ -1220,7 +495,7 @@ export default function LeadManagement() {
           <button 
             className="bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-md px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 flex items-center transition-colors duration-200"
             onClick={() => setExportDialogOpen(true)}
-            disabled={!filteredLeads || filteredLeads.length === 0}
+            disabled={totalLeads === 0}
           >
             <span className="material-icons text-sm mr-1 text-primary-400 dark:text-pink-400">file_download</span>
             Exportar
@@ -1233,6 +508,14 @@ export default function LeadManagement() {
             <span className="material-icons text-sm mr-1 text-primary-400 dark:text-pink-400">upload_file</span>
             Importar
           </button>
+
+          <button 
+            className="bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-md px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 flex items-center transition-colors duration-200"
+            onClick={() => setDuplicatesDialogOpen(true)}
+          >
+            <span className="material-icons text-sm mr-1 text-primary-400 dark:text-pink-400">merge_type</span>
+            Duplicados
+          </button>
           <a ref={csvLinkRef} style={{ display: 'none' }} />
           
 
@@ -1268,8 +551,8 @@ export default function LeadManagement() {
               onChange={(e) => setFilters({...filters, source: e.target.value})}
             >
               <option value="">Origem</option>
-              <option value="Favale">Favale</option>
-              <option value="Pink">Pink</option>
+              <option value="Favale">{facetLabel("source", "Favale", "Favale")}</option>
+              <option value="Pink">{facetLabel("source", "Pink", "Pink")}</option>
             </select>
           </div>
           <div>
@@ -1279,8 +562,8 @@ export default function LeadManagement() {
               onChange={(e) => setFilters({...filters, status: e.target.value})}
             >
               <option value="">Status</option>
-              <option value="Lead">Lead</option>
-              <option value="Aluno">Aluno</option>
+              <option value="Lead">{facetLabel("status", "Lead", "Lead")}</option>
+              <option value="Aluno">{facetLabel("status", "Aluno", "Aluno")}</option>
             </select>
           </div>
           <div>
@@ -1290,11 +573,11 @@ export default function LeadManagement() {
               onChange={(e) => setFilters({...filters, campaign: e.target.value})}
             >
               <option value="">Campanha</option>
-              <option value="Instagram">Instagram</option>
-              <option value="Facebook">Facebook</option>
-              <option value="Email">E-mail</option>
-              <option value="Site">Site</option>
-              <option value="Indicação">Indicação</option>
+              <option value="Instagram">{facetLabel("campaign", "Instagram", "Instagram")}</option>
+              <option value="Facebook">{facetLabel("campaign", "Facebook", "Facebook")}</option>
+              <option value="Email">{facetLabel("campaign", "Email", "E-mail")}</option>
+              <option value="Site">{facetLabel("campaign", "Site", "Site")}</option>
+              <option value="Indicação">{facetLabel("campaign", "Indicação", "Indicação")}</option>
             </select>
           </div>
         </div>
@@ -1312,14 +595,14 @@ export default function LeadManagement() {
                   onChange={(e) => setFilters({...filters, state: e.target.value})}
                 >
                   <option value="">Todos</option>
-                  <option value="SP">São Paulo</option>
-                  <option value="RJ">Rio de Janeiro</option>
-                  <option value="MG">Minas Gerais</option>
-                  <option value="RS">Rio Grande do Sul</option>
-                  <option value="PR">Paraná</option>
-                  <option value="SC">Santa Catarina</option>
-                  <option value="BA">Bahia</option>
-                  <option value="DF">Distrito Federal</option>
+                  <option value="SP">{facetLabel("state", "SP", "São Paulo")}</option>
+                  <option value="RJ">{facetLabel("state", "RJ", "Rio de Janeiro")}</option>
+                  <option value="MG">{facetLabel("state", "MG", "Minas Gerais")}</option>
+                  <option value="RS">{facetLabel("state", "RS", "Rio Grande do Sul")}</option>
+                  <option value="PR">{facetLabel("state", "PR", "Paraná")}</option>
+                  <option value="SC">{facetLabel("state", "SC", "Santa Catarina")}</option>
+                  <option value="BA">{facetLabel("state", "BA", "Bahia")}</option>
+                  <option value="DF">{facetLabel("state", "DF", "Distrito Federal")}</option>
                 </select>
               </div>
               
@@ -1350,9 +633,12 @@ export default function LeadManagement() {
                   onChange={(e) => setFilters({...filters, tag: e.target.value})}
                 >
                   <option value="">Todas</option>
-                  {getUniqueTags().map((tag, index) => (
-                    <option key={index} value={tag}>{tag}</option>
+                  {searchResult?.facets.tag.map(({ value, count }) => (
+                    <option key={value} value={value}>{value} ({count})</option>
                   ))}
+                  {filters.tag && !searchResult?.facets.tag.some(({ value }) => value === filters.tag) && (
+                    <option value={filters.tag}>{filters.tag}</option>
+                  )}
                 </select>
               </div>
               
@@ -1374,6 +660,21 @@ export default function LeadManagement() {
                 </select>
               </div>
               
+              <div>
+                <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Ordenar por</label>
+                <select 
+                  className="w-full border dark:border-gray-700 rounded-md px-3 py-2 text-sm dark:bg-gray-800 dark:text-white transition-colors duration-200"
+                  value={sort}
+                  onChange={(e) => setSort(e.target.value)}
+                >
+                  <option value="entryDate:desc">Entrada mais recente</option>
+                  <option value="entryDate:asc">Entrada mais antiga</option>
+                  <option value="name:asc">Nome (A-Z)</option>
+                  <option value="name:desc">Nome (Z-A)</option>
+                  <option value="updatedAt:desc">Atualizados recentemente</option>
+                </select>
+              </div>
+              
               <div className="flex items-end">
                 <button 
                   className="w-full bg-primary text-white rounded-md px-4 py-2 text-sm flex items-center justify-center hover:bg-primary/90 dark:glow-button-xs transition-all duration-200"
@@ -1427,7 +728,7 @@ export default function LeadManagement() {
                     className="text-sm px-3 py-2 cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-600 text-gray-800 dark:text-gray-200 flex items-center"
                     onClick={() => {
                       // Selecionar todos os leads da página atual
-                      const pageLeads = (filteredLeads || []).slice(indexOfFirstLead, indexOfLastLead).map(lead => lead.id);
+                      const pageLeads = leads.map(lead => lead.id);
                       const newSelection = [...new Set([...selectedLeadIds, ...pageLeads])];
                       setSelectedLeadIds(newSelection);
                     }}
@@ -1437,14 +738,23 @@ export default function LeadManagement() {
                   </DropdownMenuItem>
                   <DropdownMenuItem 
                     className="text-sm px-3 py-2 cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-600 text-gray-800 dark:text-gray-200 flex items-center"
-                    onClick={() => {
-                      // Selecionar todos os leads
-                      const allIds = (filteredLeads || []).map(lead => lead.id);
-                      setSelectedLeadIds(allIds);
+                    onClick={async () => {
+                      // Selecionar todos os leads do filtro atual, inclusive os de outras páginas
+                      try {
+                        const allLeads = await fetchAllFilteredLeads();
+                        setSelectedLeadIds(allLeads.map(lead => lead.id));
+                      } catch (error) {
+                        console.error('Erro ao selecionar leads:', error);
+                        toast({
+                          title: "Erro ao selecionar",
+                          description: "Não foi possível carregar todos os leads do filtro.",
+                          variant: "destructive",
+                        });
+                      }
                     }}
                   >
                     <span className="material-icons text-xs mr-2">select_all</span>
-                    Todos os leads ({filteredLeads?.length || 0})
+                    Todos os leads ({totalLeads})
                   </DropdownMenuItem>
                 </DropdownMenuContent>
               </DropdownMenu>
@@ -1508,14 +818,20 @@ export default function LeadManagement() {
 
       {/* Lead table */}
       <LeadTable 
-        leads={filteredLeads || []} 
+        leads={leads} 
         isLoading={isLoading} 
         onDelete={handleDelete}
-        indexOfFirstLead={indexOfFirstLead}
+        currentPage={currentPage}
+        totalPages={searchResult?.totalPages || 0}
+        totalLeads={totalLeads}
+        leadsPerPage={LEADS_PER_PAGE}
+        onPageChange={setCurrentPage}
       />
 
       {/* Lead Dialog */}
       <LeadDialog />
+
+      <DuplicateLeadsDialog open={duplicatesDialogOpen} onOpenChange={setDuplicatesDialogOpen} />
       
       {/* Export Dialog */}
       <Dialog open={exportDialogOpen} onOpenChange={setExportDialogOpen}>
@@ -1523,7 +839,7 @@ export default function LeadManagement() {
           <DialogHeader>
             <DialogTitle>Exportar Leads</DialogTitle>
             <DialogDescription>
-              Selecione o formato para exportar {filteredLeads?.length || 0} leads.
+              Selecione o formato para exportar {totalLeads} leads.
             </DialogDescription>
           </DialogHeader>
           
@@ -1576,7 +892,7 @@ export default function LeadManagement() {
             <button
               className="px-4 py-2 text-sm text-white bg-primary hover:bg-primary/90 rounded-md disabled:opacity-50"
               onClick={handleExportLeads}
-              disabled={exportLoading || !filteredLeads || filteredLeads.length === 0}
+              disabled={exportLoading || totalLeads === 0}
             >
               {exportLoading ? 'Exportando...' : 'Exportar agora'}
             </button>
@@ -1584,206 +900,7 @@ export default function LeadManagement() {
         </DialogContent>
       </Dialog>
       
-      {/* Import Dialog */}
-      <Dialog open={importDialogOpen} onOpenChange={setImportDialogOpen}>
-        <DialogContent className="max-w-3xl">
-          <DialogHeader>
-            <DialogTitle>Importar Leads</DialogTitle>
-            <DialogDescription>
-              Importe leads a partir de um arquivo CSV. O arquivo deve seguir o seguinte formato:
-            </DialogDescription>
-          </DialogHeader>
-          
-          {importLoading && (
-            <div className="my-4 space-y-4">
-              {/* Barra de progresso principal */}
-              <div>
-                <div className="flex items-center justify-between mb-2">
-                  <span className="text-sm text-gray-500 dark:text-gray-400">
-                    {importProgress < 60 ? 'Processando arquivo...' : 
-                     importProgress < 100 ? 'Importando leads...' : 'Concluído!'}
-                  </span>
-                  <span className="text-sm font-medium">{importProgress}%</span>
-                </div>
-                <Progress value={importProgress} className="h-2" />
-              </div>
-              
-              {/* Detalhes das estatísticas */}
-              <div className="bg-gray-50 dark:bg-gray-900 p-4 rounded-lg border dark:border-gray-800">
-                <div className="mb-3">
-                  <h4 className="text-sm font-medium mb-1">Status da importação</h4>
-                  <p className="text-sm text-gray-600 dark:text-gray-400">{importStats.statusMessage}</p>
-                </div>
-                
-                <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-3">
-                  <div className="bg-white dark:bg-gray-800 p-3 rounded-md shadow-sm">
-                    <div className="text-xs text-gray-500 dark:text-gray-400">Lote atual</div>
-                    <div className="text-lg font-semibold">{importStats.currentBatch} / {importStats.totalBatches}</div>
-                  </div>
-                  
-                  <div className="bg-white dark:bg-gray-800 p-3 rounded-md shadow-sm">
-                    <div className="text-xs text-gray-500 dark:text-gray-400">Processados</div>
-                    <div className="text-lg font-semibold">{importStats.processedCount} / {importStats.totalCount}</div>
-                  </div>
-                  
-                  <div className="bg-white dark:bg-gray-800 p-3 rounded-md shadow-sm">
-                    <div className="text-xs text-gray-500 dark:text-gray-400">Importados</div>
-                    <div className="text-lg font-semibold text-green-600 dark:text-green-500">{importStats.successCount + importStats.updatedCount}</div>
-                    <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                      <span className="text-emerald-600 dark:text-emerald-500">{importStats.successCount} novos</span> / 
-                      <span className="text-blue-600 dark:text-blue-500"> {importStats.updatedCount} atualizados</span>
-                    </div>
-                  </div>
-                  
-                  <div className="bg-white dark:bg-gray-800 p-3 rounded-md shadow-sm">
-                    <div className="text-xs text-gray-500 dark:text-gray-400">Erros</div>
-                    <div className="text-lg font-semibold text-red-600 dark:text-red-500">{importStats.errorCount}</div>
-                  </div>
-                </div>
-                
-                {/* Histórico de lotes processados */}
-                {importStats.batchResults.length > 0 && (
-                  <div>
-                    <h4 className="text-sm font-medium mb-2">Histórico de lotes</h4>
-                    <div className="bg-white dark:bg-gray-800 rounded-md overflow-hidden">
-                      <div className="max-h-32 overflow-y-auto">
-                        <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
-                          <thead className="bg-gray-50 dark:bg-gray-800">
-                            <tr>
-                              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400">Lote</th>
-                              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400">Novos</th>
-                              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400">Atualizados</th>
-                              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400">Erros</th>
-                            </tr>
-                          </thead>
-                          <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
-                            {importStats.batchResults.map((batch, index) => (
-                              <tr key={index} className={index % 2 === 0 ? 'bg-white dark:bg-gray-900' : 'bg-gray-50 dark:bg-gray-800/50'}>
-                                <td className="px-3 py-2 text-xs">{batch.batch}</td>
-                                <td className="px-3 py-2 text-xs text-emerald-600 dark:text-emerald-500">{batch.success}</td>
-                                <td className="px-3 py-2 text-xs text-blue-600 dark:text-blue-500">{batch.updated}</td>
-                                <td className="px-3 py-2 text-xs text-red-600 dark:text-red-500">{batch.errors}</td>
-                              </tr>
-                            ))}
-                          </tbody>
-                        </table>
-                      </div>
-                    </div>
-                  </div>
-                )}
-              </div>
-            </div>
-          )}
-          
-          {!showPreview ? (
-            <div className="my-4">
-              <div className="bg-gray-50 dark:bg-gray-900 p-4 rounded border dark:border-gray-700 mb-4 overflow-x-auto">
-                <code className="text-xs">
-                  <span className="text-blue-600 dark:text-blue-400">nome</span>,
-                  <span className="text-blue-600 dark:text-blue-400">email</span>,
-                  <span className="text-blue-600 dark:text-blue-400">telefone</span>,
-                  <span className="text-blue-600 dark:text-blue-400">estado</span>,
-                  <span className="text-blue-600 dark:text-blue-400">campanha</span>,
-                  <span className="text-blue-600 dark:text-blue-400">origem</span>,
-                  <span className="text-blue-600 dark:text-blue-400">status</span>,
-                  <span className="text-blue-600 dark:text-blue-400">tags</span>,
-                  <span className="text-blue-600 dark:text-blue-400">data_entrada</span>,
-                  <span className="text-blue-600 dark:text-blue-400">observacoes</span>
-                </code>
-              </div>
-              
-              <ul className="space-y-2 text-sm mb-4">
-                <li><span className="font-medium">nome</span>: Nome completo do lead (obrigatório)</li>
-                <li><span className="font-medium">email</span>: Email do lead (obrigatório)</li>
-                <li><span className="font-medium">telefone</span>: Número de telefone</li>
-                <li><span className="font-medium">estado</span>: Sigla do estado (ex: SP, RJ)</li>
-                <li><span className="font-medium">campanha</span>: Canal de origem (Instagram, Facebook, Email, Site, Indicação)</li>
-                <li><span className="font-medium">origem</span>: Deve ser "Favale" ou "Pink"</li>
-                <li><span className="font-medium">status</span>: Deve ser "Lead" ou "Aluno"</li>
-                <li><span className="font-medium">tags</span>: Lista de tags separadas por ponto-e-vírgula (ex: "tag1;tag2;tag3")</li>
-                <li><span className="font-medium">data_entrada</span>: Data no formato DD/MM/YYYY (ex: 31/01/2023)</li>
-                <li><span className="font-medium">observacoes</span>: Notas adicionais</li>
-              </ul>
-              
-              <div className="mb-4">
-                <input 
-                  type="file" 
-                  accept=".csv" 
-                  ref={fileInputRef} 
-                  className="hidden" 
-                  onChange={handleFileUpload}
-                />
-                <button 
-                  className="w-full py-8 border-2 border-dashed border-gray-300 dark:border-gray-700 rounded-lg flex flex-col items-center justify-center cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-900 transition-colors duration-200"
-                  onClick={() => fileInputRef.current?.click()}
-                  disabled={importLoading}
-                >
-                  <span className="material-icons text-3xl text-gray-400 mb-2">upload_file</span>
-                  <span className="text-gray-600 dark:text-gray-300">Clique para selecionar um arquivo CSV</span>
-                  <span className="text-gray-400 text-sm mt-1">ou arraste e solte aqui</span>
-                </button>
-              </div>
-            </div>
-          ) : (
-            <div className="my-4">
-              <h3 className="text-lg font-medium mb-2">Pré-visualização ({previewData.length} leads)</h3>
-              
-              <div className="border dark:border-gray-700 rounded-lg overflow-hidden mb-4">
-                <div className="max-h-64 overflow-y-auto">
-                  <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
-                    <thead className="bg-gray-50 dark:bg-gray-800">
-                      <tr>
-                        {previewData.length > 0 && Object.keys(previewData[0]).map((header, index) => (
-                          <th key={index} className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
-                            {header}
-                          </th>
-                        ))}
-                      </tr>
-                    </thead>
-                    <tbody className="bg-white dark:bg-gray-900 divide-y divide-gray-200 dark:divide-gray-700">
-                      {previewData.slice(0, 5).map((row, rowIndex) => (
-                        <tr key={rowIndex} className={rowIndex % 2 === 0 ? 'bg-white dark:bg-gray-900' : 'bg-gray-50 dark:bg-gray-800/50'}>
-                          {Object.values(row).map((cell: any, cellIndex) => (
-                            <td key={cellIndex} className="px-3 py-2 text-xs text-gray-800 dark:text-gray-200">
-                              {typeof cell === 'string' && cell.length > 30 ? `${cell.substring(0, 30)}...` : cell}
-                            </td>
-                          ))}
-                        </tr>
-                      ))}
-                    </tbody>
-                  </table>
-                </div>
-                {previewData.length > 5 && (
-                  <div className="px-3 py-2 bg-gray-50 dark:bg-gray-800 text-xs text-gray-500 dark:text-gray-400">
-                    Mostrando 5 de {previewData.length} leads
-                  </div>
-                )}
-              </div>
-              
-              <div className="flex justify-end space-x-2">
-                <button
-                  className="px-4 py-2 text-sm text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-700 rounded-md hover:bg-gray-50 dark:hover:bg-gray-800"
-                  onClick={() => {
-                    setShowPreview(false);
-                    setPreviewData([]);
-                    setParsedLeads([]);
-                  }}
-                  disabled={importLoading}
-                >
-                  Cancelar
-                </button>
-                <button
-                  className="px-4 py-2 text-sm text-white bg-primary hover:bg-primary/90 rounded-md disabled:opacity-50"
-                  onClick={confirmImport}
-                  disabled={importLoading || parsedLeads.length === 0}
-                >
-                  {importLoading ? 'Importando...' : `Importar ${parsedLeads.length} leads`}
-                </button>
-              </div>
-            </div>
-          )}
-        </DialogContent>
-      </Dialog>
+      <LeadImportDialog open={importDialogOpen} onOpenChange={setImportDialogOpen} />
 
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
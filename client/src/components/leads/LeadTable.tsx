@@ -1,4 +1,3 @@
-import { useState, useEffect } from "react";
 import { Lead } from "@shared/schema";
 import { useLeadContext } from "@/context/LeadContext";
 import { useWhatsappContext } from "@/context/WhatsappContext";
@@ -14,13 +13,26 @@ import {
 } from "@/components/ui/dropdown-menu";
 
 interface LeadTableProps {
-  leads: Lead[];
+  leads: Lead[]; // Apenas os leads da página atual, já paginados pelo servidor
   isLoading: boolean;
   onDelete: (lead: Lead) => void;
-  indexOfFirstLead?: number;
+  currentPage: number;
+  totalPages: number;
+  totalLeads: number;
+  leadsPerPage: number;
+  onPageChange: (page: number) => void;
 }
 
-export default function LeadTable({ leads, isLoading, onDelete, indexOfFirstLead: externalIndexOfFirstLead }: LeadTableProps) {
+export default function LeadTable({
+  leads,
+  isLoading,
+  onDelete,
+  currentPage,
+  totalPages,
+  totalLeads,
+  leadsPerPage,
+  onPageChange: setCurrentPage,
+}: LeadTableProps) {
   const { 
     setSelectedLead, 
     setIsDialogOpen,
@@ -28,9 +40,6 @@ export default function LeadTable({ leads, isLoading, onDelete, indexOfFirstLead
     setSelectedLeadIds 
   } = useLeadContext();
   const { openWhatsappChat } = useWhatsappContext();
-  const [currentPage, setCurrentPage] = useState(1);
-  const leadsPerPage = 10;
-  const [selectMode, setSelectMode] = useState<'page' | 'all'>('page');
   
   const handleEdit = (lead: Lead) => {
     setSelectedLead(lead);
@@ -47,25 +56,17 @@ export default function LeadTable({ leads, isLoading, onDelete, indexOfFirstLead
   
   const handleSelectAll = (checked: boolean) => {
     if (checked) {
-      if (selectMode === 'page') {
-        // Selecionar apenas os leads da página atual
-        const allPageIds = currentLeads.map(lead => lead.id);
-        setSelectedLeadIds(allPageIds);
-      } else {
-        // Selecionar todos os leads
-        const allIds = leads.map(lead => lead.id);
-        setSelectedLeadIds(allIds);
-      }
+      // Selecionar apenas os leads da página atual
+      setSelectedLeadIds(currentLeads.map(lead => lead.id));
     } else {
       setSelectedLeadIds([]);
     }
   };
   
   // Calculate pagination
-  const indexOfLastLead = currentPage * leadsPerPage;
-  const indexOfFirstLead = indexOfLastLead - leadsPerPage;
-  const currentLeads = leads.slice(indexOfFirstLead, indexOfLastLead);
-  const totalPages = Math.ceil(leads.length / leadsPerPage);
+  const indexOfFirstLead = (currentPage - 1) * leadsPerPage;
+  const indexOfLastLead = indexOfFirstLead + leads.length;
+  const currentLeads = leads;
   
   // Generate page numbers for pagination
   const pageNumbers = [];
@@ -117,10 +118,7 @@ export default function LeadTable({ leads, isLoading, onDelete, indexOfFirstLead
                   type="checkbox" 
                   className="mr-1 sm:mr-2 h-3 w-3 sm:h-4 sm:w-4 rounded border-primary/30 text-primary focus:ring-primary/30 transition-all duration-200"
                   checked={currentLeads.length > 0 && currentLeads.every(lead => selectedLeadIds.includes(lead.id))}
-                  onChange={(e) => {
-                    setSelectMode('page');
-                    handleSelectAll(e.target.checked);
-                  }}
+                  onChange={(e) => handleSelectAll(e.target.checked)}
                 />
               </th>
               <th className="px-2 sm:px-6 py-2 sm:py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider hidden sm:table-cell">
@@ -235,7 +233,7 @@ export default function LeadTable({ leads, isLoading, onDelete, indexOfFirstLead
       </div>
       
       {/* Pagination */}
-      {leads.length > 0 && (
+      {totalLeads > 0 && (
         <div className="px-3 sm:px-6 py-3 sm:py-4 flex flex-col sm:flex-row items-center space-y-3 sm:space-y-0 justify-between border-t dark:border-gray-700">
           <div className="flex w-full sm:w-auto justify-between sm:hidden">
             <button 
@@ -260,10 +258,8 @@ export default function LeadTable({ leads, isLoading, onDelete, indexOfFirstLead
             <div>
               <p className="text-xs sm:text-sm text-gray-700 dark:text-gray-300">
                 Mostrando <span className="font-medium">{indexOfFirstLead + 1}</span> a{" "}
-                <span className="font-medium">
-                  {Math.min(indexOfLastLead, leads.length)}
-                </span>{" "}
-                de <span className="font-medium">{leads.length}</span> resultados
+                <span className="font-medium">{indexOfLastLead}</span>{" "}
+                de <span className="font-medium">{totalLeads}</span> resultados
               </p>
             </div>
             <div>
@@ -0,0 +1,100 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import type { AttendancePolicy, AttendanceSummary } from "@shared/attendance";
+
+interface AttendanceAbsence {
+  id: number;
+  startTime: string;
+  service: string;
+  status: 'falta' | 'cancelado';
+  cancellationReason: string | null;
+  lateCancellation: boolean;
+  chargeable: boolean;
+}
+
+interface StudentAttendance {
+  summary: AttendanceSummary;
+  policy: AttendancePolicy;
+  recentAbsences: AttendanceAbsence[];
+}
+
+const formatRate = (rate: number | null) => (rate === null ? "—" : `${Math.round(rate * 100)}%`);
+
+interface StudentAttendancePanelProps {
+  leadId: number;
+}
+
+/**
+ * Frequência do aluno: taxas de presença e de faltas e as últimas ausências
+ */
+export default function StudentAttendancePanel({ leadId }: StudentAttendancePanelProps) {
+  const { data, isLoading } = useQuery<StudentAttendance>({ queryKey: [`/api/leads/${leadId}/attendance`] });
+
+  if (isLoading || !data) {
+    return (
+      <div className="flex justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  const { summary, policy, recentAbsences } = data;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-3 gap-3">
+        <div className="rounded-md border p-3">
+          <p className="text-xs text-muted-foreground">Presença</p>
+          <p className="text-2xl font-bold">{formatRate(summary.attendanceRate)}</p>
+          <p className="text-xs text-muted-foreground">{summary.attended} de {summary.total} aulas</p>
+        </div>
+        <div className="rounded-md border p-3">
+          <p className="text-xs text-muted-foreground">Faltas</p>
+          <p className="text-2xl font-bold">{formatRate(summary.noShowRate)}</p>
+          <p className="text-xs text-muted-foreground">{summary.noShows} falta(s)</p>
+        </div>
+        <div className="rounded-md border p-3">
+          <p className="text-xs text-muted-foreground">Cancelamentos tardios</p>
+          <p className="text-2xl font-bold">{summary.lateCancellations}</p>
+          <p className="text-xs text-muted-foreground">{summary.cancelled} dentro do prazo</p>
+        </div>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        {policy.lateCancellationHours > 0
+          ? `Cancelamentos com menos de ${policy.lateCancellationHours}h de antecedência são cobrados.`
+          : "Cancelamentos não são cobrados."}
+        {" "}
+        {policy.chargeNoShow ? "Faltas são cobradas." : "Faltas não são cobradas."}
+        {summary.upcoming > 0 && ` ${summary.upcoming} aula(s) agendada(s).`}
+      </p>
+
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium">Últimas faltas e cancelamentos</h4>
+        {recentAbsences.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nenhuma falta ou cancelamento registrado.</p>
+        ) : (
+          recentAbsences.map(absence => (
+            <div key={absence.id} className="flex items-start justify-between rounded-md border p-2 text-sm">
+              <div>
+                <p>
+                  {format(new Date(absence.startTime), "dd/MM/yyyy HH:mm")} — {absence.service}
+                </p>
+                {absence.cancellationReason && (
+                  <p className="text-xs text-muted-foreground">Motivo: {absence.cancellationReason}</p>
+                )}
+              </div>
+              <div className="flex gap-1">
+                <Badge variant="outline">
+                  {absence.status === 'falta' ? "Falta" : absence.lateCancellation ? "Cancelamento tardio" : "Cancelada"}
+                </Badge>
+                {absence.chargeable && <Badge variant="destructive">Cobrada</Badge>}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import { useId } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import type { ILocation } from "@/types";
+
+export interface LocationValue {
+  location: string;
+  locationId: number | null;
+}
+
+interface LocationInputProps {
+  value: string;
+  studentId?: number | null;
+  placeholder?: string;
+  onChange: (value: LocationValue) => void;
+}
+
+function findLocation(locations: ILocation[], text: string): ILocation | undefined {
+  const key = text.trim().toLowerCase();
+  return key ? locations.find(location => location.name.trim().toLowerCase() === key) : undefined;
+}
+
+function describe(location: ILocation): string {
+  return [location.address, location.neighborhood, location.zone].filter(Boolean).join(" · ");
+}
+
+/**
+ * Campo de local com sugestões dos locais cadastrados (do aluno e de uso geral).
+ * Escolher um local cadastrado vincula a aula a ele; texto livre continua aceito.
+ */
+export function LocationInput({ value, studentId, placeholder, onChange }: LocationInputProps) {
+  const listId = useId();
+  const { data: locations = [] } = useQuery<ILocation[]>({
+    queryKey: [studentId ? `/api/locations?studentId=${studentId}` : "/api/locations"],
+  });
+
+  const selected = findLocation(locations, value);
+
+  return (
+    <div className="space-y-1">
+      <Input
+        value={value}
+        list={listId}
+        placeholder={placeholder || "Digite ou escolha um local cadastrado"}
+        onChange={(e) => {
+          const location = findLocation(locations, e.target.value);
+          onChange({ location: e.target.value, locationId: location?.id ?? null });
+        }}
+      />
+      <datalist id={listId}>
+        {locations.map(location => (
+          <option key={location.id} value={location.name}>
+            {describe(location)}
+          </option>
+        ))}
+      </datalist>
+      {selected && describe(selected) && (
+        <p className="text-xs text-muted-foreground">{describe(selected)}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,337 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { MapPin, Pencil, PlusCircle, Trash2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import type { ILocation } from "@/types";
+
+interface TravelRuleRow {
+  fromZone: string;
+  toZone: string;
+  minutes: number;
+}
+
+interface LocationForm {
+  name: string;
+  address: string;
+  neighborhood: string;
+  city: string;
+  zone: string;
+  latitude: string;
+  longitude: string;
+  studentId: string;
+}
+
+const EMPTY_FORM: LocationForm = {
+  name: "", address: "", neighborhood: "", city: "", zone: "", latitude: "", longitude: "", studentId: "",
+};
+
+const NO_STUDENT = "none";
+
+function toForm(location: ILocation): LocationForm {
+  return {
+    name: location.name,
+    address: location.address || "",
+    neighborhood: location.neighborhood || "",
+    city: location.city || "",
+    zone: location.zone || "",
+    latitude: location.latitude?.toString() || "",
+    longitude: location.longitude?.toString() || "",
+    studentId: location.studentId?.toString() || "",
+  };
+}
+
+function parseCoordinate(value: string): number | null {
+  const parsed = parseFloat(value.replace(",", "."));
+  return isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Cadastro dos locais de aula e da tabela de deslocamento entre regiões.
+ * Sem regra para o par de regiões, o tempo é estimado pelas coordenadas, pelo bairro ou pelo padrão do servidor.
+ */
+export default function LocationsSettings() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const isAdmin = user?.role === "admin";
+
+  const [editing, setEditing] = useState<ILocation | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState<LocationForm>(EMPTY_FORM);
+  const [rules, setRules] = useState<TravelRuleRow[]>([]);
+
+  const { data: locations = [] } = useQuery<ILocation[]>({ queryKey: ["/api/locations"] });
+  const { data: savedRules } = useQuery<TravelRuleRow[]>({ queryKey: ["/api/locations/travel-rules"] });
+  const { data: leads = [] } = useQuery<any[]>({ queryKey: ["/api/leads"] });
+  const students = leads.filter(lead => lead.status === "Aluno");
+
+  useEffect(() => {
+    if (savedRules) {
+      setRules(savedRules.map(({ fromZone, toZone, minutes }) => ({ fromZone, toZone, minutes })));
+    }
+  }, [savedRules]);
+
+  const zones = Array.from(new Set([
+    ...locations.map(location => location.zone).filter((zone): zone is string => !!zone),
+    ...rules.flatMap(rule => [rule.fromZone, rule.toZone]).filter(Boolean),
+  ])).sort((a, b) => a.localeCompare(b));
+
+  const invalidateLocations = () => queryClient.invalidateQueries({
+    predicate: query => String(query.queryKey[0]).startsWith("/api/locations"),
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: "Erro", description: error.message, variant: "destructive" });
+  };
+
+  const saveLocationMutation = useMutation({
+    mutationFn: () => {
+      const payload = {
+        name: form.name,
+        address: form.address || null,
+        neighborhood: form.neighborhood || null,
+        city: form.city || null,
+        zone: form.zone || null,
+        latitude: parseCoordinate(form.latitude),
+        longitude: parseCoordinate(form.longitude),
+        studentId: form.studentId ? Number(form.studentId) : null,
+      };
+      return editing
+        ? apiRequest("PUT", `/api/locations/${editing.id}`, payload)
+        : apiRequest("POST", "/api/locations", payload);
+    },
+    onSuccess: () => {
+      invalidateLocations();
+      setDialogOpen(false);
+      toast({ title: editing ? "Local atualizado" : "Local cadastrado" });
+    },
+    onError,
+  });
+
+  const deactivateMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/locations/${id}`),
+    onSuccess: () => {
+      invalidateLocations();
+      toast({ title: "Local removido", description: "As aulas já marcadas nele não são alteradas." });
+    },
+    onError,
+  });
+
+  const saveRulesMutation = useMutation({
+    mutationFn: () => apiRequest("PUT", "/api/locations/travel-rules", {
+      rules: rules.filter(rule => rule.fromZone.trim() && rule.toZone.trim()),
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/locations/travel-rules"] });
+      toast({ title: "Tempos de deslocamento salvos" });
+    },
+    onError,
+  });
+
+  const openDialog = (location: ILocation | null) => {
+    setEditing(location);
+    setForm(location ? toForm(location) : EMPTY_FORM);
+    setDialogOpen(true);
+  };
+
+  const updateRule = (index: number, changes: Partial<TravelRuleRow>) => {
+    setRules(rules.map((rule, i) => i === index ? { ...rule, ...changes } : rule));
+  };
+
+  const studentName = (studentId: number | null) =>
+    studentId ? students.find(student => student.id === studentId)?.name : undefined;
+
+  return (
+    <div className="space-y-4">
+      <Card className="border-gray-100 dark:border-gray-700 shadow-sm rounded-xl">
+        <CardHeader className="pb-3 flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle className="text-lg font-medium text-gray-800 dark:text-white">Locais de aula</CardTitle>
+            <CardDescription className="text-gray-500 dark:text-gray-400">
+              Endereço, bairro, região e coordenadas usados para calcular o deslocamento entre aulas
+            </CardDescription>
+          </div>
+          <Button size="sm" onClick={() => openDialog(null)}>
+            <PlusCircle className="h-4 w-4 mr-2" />
+            Novo local
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {locations.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nenhum local cadastrado.</p>
+          ) : (
+            locations.map(location => (
+              <div key={location.id} className="flex items-start justify-between gap-3 rounded-md border p-3">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2 text-sm font-medium">
+                    <MapPin className="h-4 w-4 text-muted-foreground" />
+                    {location.name}
+                    {location.zone && <Badge variant="outline" className="text-xs">{location.zone}</Badge>}
+                    {location.latitude != null && <Badge variant="secondary" className="text-xs">Coordenadas</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {[location.address, location.neighborhood, location.city].filter(Boolean).join(" · ") || "Sem endereço"}
+                    {studentName(location.studentId) && ` · Casa de ${studentName(location.studentId)}`}
+                  </p>
+                </div>
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="icon" onClick={() => openDialog(location)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => deactivateMutation.mutate(location.id)}
+                    disabled={deactivateMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="border-gray-100 dark:border-gray-700 shadow-sm rounded-xl">
+        <CardHeader className="pb-3">
+          <CardTitle className="text-lg font-medium text-gray-800 dark:text-white">Tempo de deslocamento entre regiões</CardTitle>
+          <CardDescription className="text-gray-500 dark:text-gray-400">
+            Vale nos dois sentidos. Sem regra, o tempo é estimado pela distância entre as coordenadas,
+            pela mesma região ou bairro, ou pelo tempo padrão.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <datalist id="travel-zones">
+            {zones.map(zone => <option key={zone} value={zone} />)}
+          </datalist>
+          {rules.length === 0 && (
+            <p className="text-sm text-muted-foreground">Nenhuma regra cadastrada.</p>
+          )}
+          {rules.map((rule, index) => (
+            <div key={index} className="grid grid-cols-[1fr_1fr_110px_auto] gap-2 items-center">
+              <Input
+                value={rule.fromZone}
+                list="travel-zones"
+                placeholder="Região"
+                disabled={!isAdmin}
+                onChange={(e) => updateRule(index, { fromZone: e.target.value })}
+              />
+              <Input
+                value={rule.toZone}
+                list="travel-zones"
+                placeholder="Região"
+                disabled={!isAdmin}
+                onChange={(e) => updateRule(index, { toZone: e.target.value })}
+              />
+              <div className="flex items-center gap-1">
+                <Input
+                  type="number"
+                  min={0}
+                  max={240}
+                  value={rule.minutes}
+                  disabled={!isAdmin}
+                  onChange={(e) => updateRule(index, { minutes: parseInt(e.target.value || "0") })}
+                />
+                <span className="text-xs text-muted-foreground">min</span>
+              </div>
+              {isAdmin && (
+                <Button variant="ghost" size="icon" onClick={() => setRules(rules.filter((_, i) => i !== index))}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+          {isAdmin && (
+            <div className="flex justify-between">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setRules([...rules, { fromZone: "", toZone: "", minutes: 30 }])}
+              >
+                <PlusCircle className="h-4 w-4 mr-2" />
+                Adicionar regra
+              </Button>
+              <Button size="sm" onClick={() => saveRulesMutation.mutate()} disabled={saveRulesMutation.isPending}>
+                {saveRulesMutation.isPending ? "Salvando..." : "Salvar tempos"}
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-[520px]">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Editar local" : "Novo local"}</DialogTitle>
+            <DialogDescription>
+              O nome é o que aparece na agenda. Coordenadas (latitude, longitude) melhoram a estimativa de deslocamento.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="col-span-2 space-y-1">
+              <Label>Nome *</Label>
+              <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} placeholder="Ex: Casa da Maria, Studio Centro" />
+            </div>
+            <div className="col-span-2 space-y-1">
+              <Label>Endereço</Label>
+              <Input value={form.address} onChange={(e) => setForm({ ...form, address: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label>Bairro</Label>
+              <Input value={form.neighborhood} onChange={(e) => setForm({ ...form, neighborhood: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label>Cidade</Label>
+              <Input value={form.city} onChange={(e) => setForm({ ...form, city: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label>Região</Label>
+              <Input value={form.zone} list="travel-zones" onChange={(e) => setForm({ ...form, zone: e.target.value })} placeholder="Ex: Zona Sul" />
+            </div>
+            <div className="space-y-1">
+              <Label>Aluno</Label>
+              <Select
+                value={form.studentId || NO_STUDENT}
+                onValueChange={(value) => setForm({ ...form, studentId: value === NO_STUDENT ? "" : value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_STUDENT}>Uso geral</SelectItem>
+                  {students.map(student => (
+                    <SelectItem key={student.id} value={String(student.id)}>{student.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Latitude</Label>
+              <Input value={form.latitude} onChange={(e) => setForm({ ...form, latitude: e.target.value })} placeholder="-23.5505" />
+            </div>
+            <div className="space-y-1">
+              <Label>Longitude</Label>
+              <Input value={form.longitude} onChange={(e) => setForm({ ...form, longitude: e.target.value })} placeholder="-46.6333" />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancelar</Button>
+            <Button onClick={() => saveLocationMutation.mutate()} disabled={!form.name.trim() || saveLocationMutation.isPending}>
+              {saveLocationMutation.isPending ? "Salvando..." : "Salvar"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
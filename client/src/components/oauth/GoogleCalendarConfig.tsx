@@ -13,13 +13,22 @@ interface TokenStatus {
   isExpired?: boolean;
   hasRefreshToken?: boolean;
   expiryDate?: string;
+  lastSyncedAt?: string | null;
+  testMode?: boolean;
   message?: string;
 }
 
+interface SyncResult {
+  updated: number;
+  cancelled: number;
+  skipped: number;
+}
+
 export default function GoogleCalendarConfig() {
   const [tokenStatus, setTokenStatus] = useState<TokenStatus | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isAuthenticating, setIsAuthenticating] = useState(false);
+  const [isSyncing, setIsSyncing] = useState(false);
 
   const fetchTokenStatus = async () => {
     try {
@@ -79,6 +88,26 @@ export default function GoogleCalendarConfig() {
     }
   };
 
+  const handleSync = async () => {
+    try {
+      setIsSyncing(true);
+      const result: SyncResult = await apiRequest('POST', '/api/oauth/google/sync');
+      toast({
+        title: 'Sincronização concluída',
+        description: `${result.updated} aula(s) alterada(s) e ${result.cancelled} cancelada(s) a partir do Google Calendar`,
+      });
+      await fetchTokenStatus();
+    } catch (error) {
+      toast({
+        title: 'Erro',
+        description: 'Não foi possível sincronizar com o Google Calendar',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
   const handleRevokeAccess = async () => {
     if (!confirm('Tem certeza que deseja revogar o acesso ao Google Calendar?')) {
       return;
@@ -144,7 +173,10 @@ export default function GoogleCalendarConfig() {
           <>
             <div className="flex items-center justify-between">
               <span className="text-sm font-medium">Status da Autorização:</span>
-              {getStatusBadge()}
+              <div className="flex items-center gap-2">
+                {tokenStatus?.testMode && <Badge variant="secondary">Modo de teste</Badge>}
+                {getStatusBadge()}
+              </div>
             </div>
 
             {tokenStatus?.authorized && (
@@ -168,6 +200,15 @@ export default function GoogleCalendarConfig() {
                       </span>
                     </div>
                   )}
+
+                  <div className="flex items-center justify-between">
+                    <span>Última sincronização:</span>
+                    <span className="text-muted-foreground">
+                      {tokenStatus.lastSyncedAt
+                        ? new Date(tokenStatus.lastSyncedAt).toLocaleString('pt-BR')
+                        : 'Ainda não sincronizado'}
+                    </span>
+                  </div>
                 </div>
               </>
             )}
@@ -203,6 +244,19 @@ export default function GoogleCalendarConfig() {
                     <RefreshCw className="mr-2 h-4 w-4" />
                     Atualizar
                   </Button>
+
+                  <Button 
+                    onClick={handleSync} 
+                    variant="outline"
+                    disabled={isSyncing}
+                  >
+                    {isSyncing ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <Calendar className="mr-2 h-4 w-4" />
+                    )}
+                    Sincronizar agora
+                  </Button>
                   
                   <Button 
                     onClick={handleRevokeAccess} 
@@ -223,6 +277,15 @@ export default function GoogleCalendarConfig() {
                 </p>
               </div>
             )}
+
+            {tokenStatus?.authorized && (
+              <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-md p-3">
+                <p className="text-sm text-blue-700 dark:text-blue-300">
+                  Suas aulas são criadas, atualizadas e removidas automaticamente na sua agenda. 
+                  Horários alterados ou eventos excluídos no Google voltam para o CRM na próxima sincronização.
+                </p>
+              </div>
+            )}
           </>
         )}
       </CardContent>
@@ -0,0 +1,237 @@
+import { useEffect, useState } from "react";
+import { DragDropContext, Droppable, Draggable } from "react-beautiful-dnd";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Loader2, Phone } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { Lead, LossReason, PipelineStage } from "@shared/schema";
+
+interface BoardColumn {
+  stage: PipelineStage;
+  total: number;
+  leads: Lead[];
+}
+
+interface PendingMove {
+  lead: Lead;
+  stage: PipelineStage;
+}
+
+// Campos usados do resultado do arraste (o react-beautiful-dnd está declarado sem tipos em global.d.ts)
+interface LeadDropResult {
+  draggableId: string;
+  source: { droppableId: string };
+  destination?: { droppableId: string } | null;
+}
+
+const COLUMN_COLORS: Record<PipelineStage["kind"], string> = {
+  aberta: "bg-slate-100 dark:bg-slate-800/60",
+  ganho: "bg-green-50 dark:bg-green-900/20",
+  perdido: "bg-red-50 dark:bg-red-900/20",
+};
+
+// A chave começa com /api/leads para que edições de leads em qualquer tela atualizem o quadro
+const BOARD_QUERY_KEY = ["/api/leads", "pipeline-board"];
+
+/**
+ * Quadro do funil de vendas: arrastar um lead para outra coluna muda a etapa dele
+ */
+export default function PipelineBoard({ onOpenLead }: { onOpenLead: (lead: Lead) => void }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [columns, setColumns] = useState<BoardColumn[]>([]);
+  const [pendingMove, setPendingMove] = useState<PendingMove | null>(null);
+  const [lossReason, setLossReason] = useState("");
+
+  const { data: board, isLoading } = useQuery<BoardColumn[]>({
+    queryKey: BOARD_QUERY_KEY,
+    queryFn: async () => {
+      const response = await fetch("/api/pipeline/board", { credentials: "include" });
+      if (!response.ok) {
+        throw new Error("Falha ao carregar o funil");
+      }
+      return await response.json();
+    },
+  });
+
+  const { data: reasons = [] } = useQuery<LossReason[]>({ queryKey: ["/api/pipeline/loss-reasons?active=true"] });
+
+  // Sincroniza as colunas locais (atualização otimista) com o servidor
+  useEffect(() => {
+    if (board) setColumns(board);
+  }, [board]);
+
+  const moveMutation = useMutation({
+    mutationFn: ({ lead, stage, reason }: PendingMove & { reason?: string }) =>
+      apiRequest<Lead>("POST", `/api/pipeline/leads/${lead.id}/move`, { stageId: stage.id, lossReason: reason }),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+    },
+    onError: (error: Error) => {
+      // O onSettled recarrega o quadro, desfazendo a movimentação otimista
+      toast({ title: "Não foi possível mover o lead", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const applyMove = ({ lead, stage }: PendingMove, reason?: string) => {
+    setColumns(prev => prev.map(column => {
+      if (column.stage.id === lead.stageId) {
+        return { ...column, total: column.total - 1, leads: column.leads.filter(item => item.id !== lead.id) };
+      }
+      if (column.stage.id === stage.id) {
+        const moved = { ...lead, stageId: stage.id, stageEnteredAt: new Date(), lossReason: reason ?? null };
+        return { ...column, total: column.total + 1, leads: [moved, ...column.leads] };
+      }
+      return column;
+    }));
+    moveMutation.mutate({ lead, stage, reason });
+  };
+
+  const onDragEnd = (result: LeadDropResult) => {
+    const { destination, source, draggableId } = result;
+    if (!destination || destination.droppableId === source.droppableId) return;
+
+    const lead = columns.find(column => String(column.stage.id) === source.droppableId)
+      ?.leads.find(item => String(item.id) === draggableId);
+    const stage = columns.find(column => String(column.stage.id) === destination.droppableId)?.stage;
+    if (!lead || !stage) return;
+
+    // Etapas de perda exigem o motivo antes de mover
+    if (stage.kind === "perdido") {
+      setPendingMove({ lead, stage });
+      return;
+    }
+    applyMove({ lead, stage });
+  };
+
+  const confirmLoss = () => {
+    if (!pendingMove || !lossReason) return;
+    applyMove(pendingMove, lossReason);
+    setPendingMove(null);
+    setLossReason("");
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (columns.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        O funil ainda não tem etapas. Um administrador pode configurá-las em Configurações &gt; Funil.
+      </p>
+    );
+  }
+
+  return (
+    <>
+      <DragDropContext onDragEnd={onDragEnd}>
+        <div className="flex gap-3 overflow-x-auto pb-4 min-h-[500px]">
+          {columns.map(column => (
+            <Droppable droppableId={String(column.stage.id)} key={column.stage.id}>
+              {(provided: any) => (
+                <div
+                  ref={provided.innerRef}
+                  {...provided.droppableProps}
+                  className={`flex flex-col w-72 shrink-0 rounded-2xl max-h-[calc(100vh-260px)] overflow-hidden ${COLUMN_COLORS[column.stage.kind]}`}
+                >
+                  <div className="flex items-center justify-between px-4 py-3 border-b border-slate-200 dark:border-slate-700">
+                    <span className="font-semibold text-sm text-slate-700 dark:text-slate-200">{column.stage.name}</span>
+                    <span className="text-xs py-0.5 px-1.5 rounded-md font-bold bg-white/70 dark:bg-slate-700 text-slate-600 dark:text-slate-300">
+                      {column.total}
+                    </span>
+                  </div>
+                  <div className="flex-1 p-3 space-y-2 overflow-y-auto">
+                    {column.leads.map((lead, index) => (
+                      <Draggable draggableId={String(lead.id)} index={index} key={lead.id}>
+                        {(dragProvided: any) => (
+                          <div
+                            ref={dragProvided.innerRef}
+                            {...dragProvided.draggableProps}
+                            {...dragProvided.dragHandleProps}
+                            onClick={() => onOpenLead(lead)}
+                            className="rounded-xl bg-white dark:bg-slate-800 shadow-sm border border-slate-200 dark:border-slate-700 hover:shadow-md transition-shadow duration-200 p-3 cursor-pointer"
+                          >
+                            <p className="text-sm font-medium text-slate-800 dark:text-slate-100 truncate">{lead.name}</p>
+                            <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                              <Phone className="h-3 w-3" />
+                              {lead.phone}
+                            </p>
+                            <div className="mt-2 flex items-center justify-between text-[11px] text-muted-foreground">
+                              <span>{lead.source}</span>
+                              {lead.stageEnteredAt && (
+                                <span title="Tempo nesta etapa">
+                                  {formatDistanceToNow(new Date(lead.stageEnteredAt), { locale: ptBR })}
+                                </span>
+                              )}
+                            </div>
+                            {lead.lossReason && (
+                              <p className="mt-1 text-[11px] text-red-600 dark:text-red-400">{lead.lossReason}</p>
+                            )}
+                          </div>
+                        )}
+                      </Draggable>
+                    ))}
+                    {provided.placeholder}
+                  </div>
+                  {column.total > column.leads.length && (
+                    <p className="px-4 py-2 text-[11px] text-muted-foreground border-t border-slate-200 dark:border-slate-700">
+                      Mostrando os {column.leads.length} mais recentes de {column.total}
+                    </p>
+                  )}
+                </div>
+              )}
+            </Droppable>
+          ))}
+        </div>
+      </DragDropContext>
+
+      <Dialog open={!!pendingMove} onOpenChange={(open) => { if (!open) { setPendingMove(null); setLossReason(""); } }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Motivo da perda</DialogTitle>
+            <DialogDescription>
+              {pendingMove && `${pendingMove.lead.name} será movido para "${pendingMove.stage.name}".`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-1">
+            <Label>Motivo</Label>
+            <Select value={lossReason} onValueChange={setLossReason}>
+              <SelectTrigger>
+                <SelectValue placeholder="Selecione o motivo" />
+              </SelectTrigger>
+              <SelectContent>
+                {reasons.map(reason => (
+                  <SelectItem key={reason.id} value={reason.name}>{reason.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button variant="destructive" disabled={!lossReason} onClick={confirmLoss}>
+              Marcar como perdido
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,175 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { ArrowDown, ArrowUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { LossReason, PipelineStage } from "@shared/schema";
+import type { PipelineStageKind } from "@shared/pipeline";
+
+export const STAGE_KIND_LABELS: Record<PipelineStageKind, string> = {
+  aberta: "Em andamento",
+  ganho: "Ganho (vira aluno)",
+  perdido: "Perdido",
+};
+
+/**
+ * Etapas do funil de vendas (ordem, tipo e ativação) e motivos de perda
+ */
+export default function PipelineSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [stageName, setStageName] = useState("");
+  const [stageKind, setStageKind] = useState<PipelineStageKind>("aberta");
+  const [reasonName, setReasonName] = useState("");
+
+  const { data: stages = [] } = useQuery<PipelineStage[]>({ queryKey: ["/api/pipeline/stages"] });
+  const { data: reasons = [] } = useQuery<LossReason[]>({ queryKey: ["/api/pipeline/loss-reasons"] });
+
+  const invalidateStages = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/pipeline/stages"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/leads", "pipeline-board"] });
+  };
+
+  const invalidateReasons = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/pipeline/loss-reasons"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/pipeline/loss-reasons?active=true"] });
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const createStageMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/pipeline/stages", { name: stageName.trim(), kind: stageKind }),
+    onSuccess: () => {
+      invalidateStages();
+      setStageName("");
+      setStageKind("aberta");
+      toast({ title: "Etapa criada" });
+    },
+    onError: onError("Erro ao criar etapa"),
+  });
+
+  const toggleStageMutation = useMutation({
+    mutationFn: (stage: PipelineStage) => apiRequest("PATCH", `/api/pipeline/stages/${stage.id}`, { active: !stage.active }),
+    onSuccess: invalidateStages,
+    onError: onError("Erro ao atualizar etapa"),
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: (ids: number[]) => apiRequest("PUT", "/api/pipeline/stages/order", { ids }),
+    onSuccess: invalidateStages,
+    onError: onError("Erro ao reordenar etapas"),
+  });
+
+  const createReasonMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/pipeline/loss-reasons", { name: reasonName.trim() }),
+    onSuccess: () => {
+      invalidateReasons();
+      setReasonName("");
+    },
+    onError: onError("Erro ao criar motivo de perda"),
+  });
+
+  const toggleReasonMutation = useMutation({
+    mutationFn: (reason: LossReason) => apiRequest("PATCH", `/api/pipeline/loss-reasons/${reason.id}`, { active: !reason.active }),
+    onSuccess: invalidateReasons,
+    onError: onError("Erro ao atualizar motivo de perda"),
+  });
+
+  const moveStage = (index: number, offset: number) => {
+    const ids = stages.map(stage => stage.id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+    reorderMutation.mutate(ids);
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Etapas do funil</CardTitle>
+          <CardDescription>
+            Leads em etapas de ganho passam a ter o status "Aluno". Para desativar uma etapa, mova antes os leads que estão nela.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {stages.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              Nenhuma etapa cadastrada. Rode <code>npm run db:setup-pipeline</code> para criar as etapas padrão e colocar os leads existentes no funil.
+            </p>
+          )}
+          {stages.map((stage, index) => (
+            <div key={stage.id} className="flex items-center gap-3 rounded-md border p-3">
+              <div className="flex flex-col">
+                <Button variant="ghost" size="icon" className="h-6 w-6" disabled={index === 0 || reorderMutation.isPending} onClick={() => moveStage(index, -1)}>
+                  <ArrowUp className="h-3 w-3" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-6 w-6" disabled={index === stages.length - 1 || reorderMutation.isPending} onClick={() => moveStage(index, 1)}>
+                  <ArrowDown className="h-3 w-3" />
+                </Button>
+              </div>
+              <span className="flex-1 font-medium">{stage.name}</span>
+              <Badge variant={stage.kind === "ganho" ? "default" : stage.kind === "perdido" ? "destructive" : "secondary"}>
+                {STAGE_KIND_LABELS[stage.kind]}
+              </Badge>
+              <Switch checked={stage.active} onCheckedChange={() => toggleStageMutation.mutate(stage)} />
+            </div>
+          ))}
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end border-t pt-4">
+            <div className="space-y-1 md:col-span-2">
+              <Label htmlFor="stage-name">Nova etapa</Label>
+              <Input id="stage-name" placeholder="Ex.: Proposta enviada" value={stageName} onChange={(e) => setStageName(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label>Tipo</Label>
+              <Select value={stageKind} onValueChange={(value) => setStageKind(value as PipelineStageKind)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(STAGE_KIND_LABELS) as PipelineStageKind[]).map(kind => (
+                    <SelectItem key={kind} value={kind}>{STAGE_KIND_LABELS[kind]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={() => createStageMutation.mutate()} disabled={!stageName.trim() || createStageMutation.isPending}>
+              Adicionar etapa
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Motivos de perda</CardTitle>
+          <CardDescription>Oferecidos ao mover um lead para uma etapa de perda.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {reasons.map(reason => (
+              <div key={reason.id} className="flex items-center gap-2 rounded-md border px-3 py-1.5 text-sm">
+                <span className={reason.active ? "" : "text-muted-foreground line-through"}>{reason.name}</span>
+                <Switch checked={reason.active} onCheckedChange={() => toggleReasonMutation.mutate(reason)} />
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <Input placeholder="Novo motivo" value={reasonName} onChange={(e) => setReasonName(e.target.value)} />
+            <Button onClick={() => createReasonMutation.mutate()} disabled={!reasonName.trim() || createReasonMutation.isPending}>
+              Adicionar
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { useLeadContext } from "@/context/LeadContext";
+import LeadDialog from "@/components/leads/LeadDialog";
+import PipelineBoard from "./PipelineBoard";
+import type { PipelineStageKind } from "@shared/pipeline";
+
+interface PeriodKpi {
+  current: number;
+  previous: number;
+  change: number | null;
+}
+
+interface PipelineStats {
+  kpis: {
+    newLeads: PeriodKpi;
+    convertedLeads: PeriodKpi;
+    lostLeads: PeriodKpi;
+    conversionRate: PeriodKpi;
+  };
+  pipeline: {
+    stages: {
+      id: number;
+      name: string;
+      kind: PipelineStageKind;
+      active: boolean;
+      entered?: number;
+      avgHoursInStage?: number | null;
+    }[];
+    lossReasons: { reason: string; count: number }[];
+  };
+}
+
+const formatStay = (hours: number | null | undefined) => {
+  if (hours == null) return "—";
+  return hours < 48 ? `${Math.round(hours)} h` : `${(hours / 24).toFixed(1)} dias`;
+};
+
+/**
+ * Funil de vendas: resumo dos últimos 30 dias e quadro de leads por etapa
+ */
+export default function PipelineView() {
+  const { setSelectedLead, setIsDialogOpen } = useLeadContext();
+
+  const { data: stats } = useQuery<PipelineStats>({
+    queryKey: ["/api/stats", "period=month"],
+    queryFn: async () => {
+      const response = await fetch("/api/stats?period=month", { credentials: "include" });
+      if (!response.ok) {
+        throw new Error("Falha ao carregar estatísticas");
+      }
+      return await response.json();
+    },
+  });
+
+  const activeStages = stats?.pipeline.stages.filter(stage => stage.active) || [];
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-muted-foreground">Arraste os leads entre as etapas. Números dos últimos 30 dias.</p>
+
+      {stats && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <Card>
+            <CardContent className="p-4">
+              <p className="text-xs text-muted-foreground">Novos leads</p>
+              <p className="text-2xl font-bold">{stats.kpis.newLeads.current}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4">
+              <p className="text-xs text-muted-foreground">Convertidos</p>
+              <p className="text-2xl font-bold text-green-600 dark:text-green-400">{stats.kpis.convertedLeads.current}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4">
+              <p className="text-xs text-muted-foreground">Perdidos</p>
+              <p className="text-2xl font-bold text-red-600 dark:text-red-400">{stats.kpis.lostLeads.current}</p>
+              {stats.pipeline.lossReasons[0] && (
+                <p className="text-[11px] text-muted-foreground">Principal motivo: {stats.pipeline.lossReasons[0].reason}</p>
+              )}
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4">
+              <p className="text-xs text-muted-foreground">Taxa de conversão</p>
+              <p className="text-2xl font-bold">{stats.kpis.conversionRate.current}%</p>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {activeStages.length > 0 && (
+        <div className="flex flex-wrap gap-2 text-xs">
+          {activeStages.filter(stage => stage.kind === "aberta").map(stage => (
+            <span key={stage.id} className="rounded-md border px-2 py-1 text-muted-foreground">
+              {stage.name}: {stage.entered ?? 0} entrada(s), tempo médio {formatStay(stage.avgHoursInStage)}
+            </span>
+          ))}
+        </div>
+      )}
+
+      <PipelineBoard
+        onOpenLead={(lead) => {
+          setSelectedLead(lead);
+          setIsDialogOpen(true);
+        }}
+      />
+
+      <LeadDialog />
+    </div>
+  );
+}
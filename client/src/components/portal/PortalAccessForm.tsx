@@ -0,0 +1,123 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { KeyRound, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+interface PortalAccessFormProps {
+  token?: string | null; // Link mágico recebido por e-mail ou WhatsApp
+}
+
+/**
+ * Acesso ao portal do aluno: pede o link/código pelo e-mail ou telefone e valida o código digitado
+ */
+export default function PortalAccessForm({ token }: PortalAccessFormProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [identifier, setIdentifier] = useState("");
+  const [code, setCode] = useState("");
+  const [codeSent, setCodeSent] = useState(false);
+  const tokenTried = useRef(false);
+
+  const onLogin = () => {
+    // Remove o token da barra de endereço para que o link não fique no histórico
+    window.history.replaceState(null, "", "/portal");
+    queryClient.invalidateQueries({ queryKey: ["/api/portal/me"] });
+  };
+
+  const requestMutation = useMutation({
+    mutationFn: () => apiRequest<{ message: string }>("POST", "/api/portal/access/request", { identifier }),
+    onSuccess: (result) => {
+      setCodeSent(true);
+      toast({ title: "Acesso enviado", description: result.message });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao enviar acesso", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const verifyMutation = useMutation({
+    mutationFn: (data: { token: string } | { identifier: string; code: string }) =>
+      apiRequest("POST", "/api/portal/access/verify", data),
+    onSuccess: onLogin,
+    onError: () => {
+      toast({ title: "Não foi possível entrar", description: "Link ou código inválido ou expirado", variant: "destructive" });
+    },
+  });
+
+  useEffect(() => {
+    if (token && !tokenTried.current) {
+      tokenTried.current = true;
+      verifyMutation.mutate({ token });
+    }
+  }, [token]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            Portal do aluno
+          </CardTitle>
+          <CardDescription>
+            Informe o e-mail ou telefone cadastrado para receber um link e um código de acesso.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {token && verifyMutation.isPending ? (
+            <div className="flex items-center justify-center gap-2 py-6 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Validando seu acesso...
+            </div>
+          ) : (
+            <>
+              <div className="space-y-1">
+                <Label htmlFor="portal-identifier">E-mail ou telefone</Label>
+                <Input
+                  id="portal-identifier"
+                  value={identifier}
+                  onChange={(e) => setIdentifier(e.target.value)}
+                  placeholder="voce@email.com ou (11) 99999-9999"
+                />
+              </div>
+              <Button
+                className="w-full"
+                variant={codeSent ? "outline" : "default"}
+                disabled={!identifier.trim() || requestMutation.isPending}
+                onClick={() => requestMutation.mutate()}
+              >
+                {codeSent ? "Enviar novamente" : "Receber acesso"}
+              </Button>
+
+              {codeSent && (
+                <div className="space-y-2 border-t pt-4">
+                  <Label htmlFor="portal-code">Código recebido</Label>
+                  <Input
+                    id="portal-code"
+                    inputMode="numeric"
+                    maxLength={6}
+                    value={code}
+                    onChange={(e) => setCode(e.target.value.replace(/\D/g, ""))}
+                    placeholder="000000"
+                  />
+                  <Button
+                    className="w-full"
+                    disabled={code.length !== 6 || verifyMutation.isPending}
+                    onClick={() => verifyMutation.mutate({ identifier, code })}
+                  >
+                    Entrar
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
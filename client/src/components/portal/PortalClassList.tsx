@@ -0,0 +1,198 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { CalendarClock, Ban, MapPin } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+export interface PortalClass {
+  id: number;
+  service: string;
+  startTime: string;
+  endTime: string;
+  location: string;
+  status: string;
+  professorName: string | null;
+  canReschedule: boolean;
+  canCancel: boolean;
+  lateCancellation: boolean;
+}
+
+interface RescheduleOption {
+  startTime: string;
+  endTime: string;
+}
+
+interface PortalClassListProps {
+  classes: PortalClass[];
+  rescheduleNoticeHours: number;
+  lateCancellationHours: number;
+}
+
+const formatWhen = (value: string) => format(new Date(value), "EEEE, dd/MM 'às' HH:mm", { locale: ptBR });
+
+/**
+ * Próximas aulas do aluno com remarcação (horários livres do mesmo professor) e cancelamento
+ */
+export default function PortalClassList({ classes, rescheduleNoticeHours, lateCancellationHours }: PortalClassListProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [rescheduling, setRescheduling] = useState<PortalClass | null>(null);
+  const [selectedStart, setSelectedStart] = useState<string | null>(null);
+  const [cancelling, setCancelling] = useState<PortalClass | null>(null);
+  const [reason, setReason] = useState("");
+
+  const { data: options = [], isLoading: loadingOptions } = useQuery<RescheduleOption[]>({
+    queryKey: [`/api/portal/classes/${rescheduling?.id}/reschedule-options`],
+    enabled: !!rescheduling,
+    staleTime: 0,
+  });
+
+  const onChanged = (title: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/portal/classes"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/portal/credits"] });
+    toast({ title });
+  };
+
+  const rescheduleMutation = useMutation({
+    mutationFn: ({ id, startTime }: { id: number; startTime: string }) =>
+      apiRequest("POST", `/api/portal/classes/${id}/reschedule`, { startTime }),
+    onSuccess: () => {
+      setRescheduling(null);
+      setSelectedStart(null);
+      onChanged("Aula remarcada");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Não foi possível remarcar", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: ({ id, reason }: { id: number; reason: string }) =>
+      apiRequest("POST", `/api/portal/classes/${id}/cancel`, { reason }),
+    onSuccess: () => {
+      setCancelling(null);
+      setReason("");
+      onChanged("Aula cancelada");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Não foi possível cancelar", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (classes.length === 0) {
+    return <p className="text-sm text-muted-foreground">Nenhuma aula agendada.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {classes.map(aula => (
+        <div key={aula.id} className="flex flex-col gap-3 rounded-md border p-3 sm:flex-row sm:items-center sm:justify-between">
+          <div className="text-sm">
+            <p className="font-medium capitalize">{formatWhen(aula.startTime)}</p>
+            <p className="text-muted-foreground">
+              {aula.service}{aula.professorName ? ` com ${aula.professorName}` : ""}
+            </p>
+            <p className="flex items-center gap-1 text-xs text-muted-foreground">
+              <MapPin className="h-3 w-3" />
+              {aula.location}
+            </p>
+            {aula.status === "remarcado" && <Badge variant="outline" className="mt-1">Remarcada</Badge>}
+          </div>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={!aula.canReschedule}
+              title={aula.canReschedule ? undefined : `Remarcações com pelo menos ${rescheduleNoticeHours}h de antecedência`}
+              onClick={() => setRescheduling(aula)}
+            >
+              <CalendarClock className="h-4 w-4 mr-1" />
+              Remarcar
+            </Button>
+            <Button size="sm" variant="ghost" disabled={!aula.canCancel} onClick={() => setCancelling(aula)}>
+              <Ban className="h-4 w-4 mr-1" />
+              Cancelar
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <Dialog open={!!rescheduling} onOpenChange={(open) => { if (!open) { setRescheduling(null); setSelectedStart(null); } }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Remarcar aula</DialogTitle>
+            <DialogDescription>
+              {rescheduling && `Aula atual: ${formatWhen(rescheduling.startTime)}. Escolha um dos horários livres do professor.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="max-h-72 space-y-2 overflow-y-auto">
+            {loadingOptions ? (
+              <p className="text-sm text-muted-foreground">Buscando horários...</p>
+            ) : options.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nenhum horário livre no período. Fale com a equipe para remarcar.</p>
+            ) : (
+              options.map(option => (
+                <Button
+                  key={option.startTime}
+                  variant={selectedStart === option.startTime ? "default" : "outline"}
+                  className="w-full justify-start capitalize"
+                  onClick={() => setSelectedStart(option.startTime)}
+                >
+                  {formatWhen(option.startTime)}
+                </Button>
+              ))
+            )}
+          </div>
+          <DialogFooter>
+            <Button
+              disabled={!selectedStart || rescheduleMutation.isPending}
+              onClick={() => rescheduling && selectedStart && rescheduleMutation.mutate({ id: rescheduling.id, startTime: selectedStart })}
+            >
+              Confirmar novo horário
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!cancelling} onOpenChange={(open) => { if (!open) { setCancelling(null); setReason(""); } }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cancelar aula</DialogTitle>
+            <DialogDescription>
+              {cancelling?.lateCancellation
+                ? `Cancelamentos com menos de ${lateCancellationHours}h de antecedência são cobrados como aula dada.`
+                : "O cancelamento será avisado ao seu professor."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-1">
+            <Label htmlFor="portal-cancel-reason">Motivo</Label>
+            <Textarea id="portal-cancel-reason" value={reason} onChange={(e) => setReason(e.target.value)} />
+          </div>
+          <DialogFooter>
+            <Button
+              variant="destructive"
+              disabled={!reason.trim() || cancelMutation.isPending}
+              onClick={() => cancelling && cancelMutation.mutate({ id: cancelling.id, reason })}
+            >
+              Cancelar aula
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,313 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Trash2 } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  WEEK_DAY_LABELS,
+  TIME_OFF_KINDS,
+  TIME_OFF_KIND_LABELS,
+  type TimeOffKind,
+  type WorkingHoursRule,
+} from "@shared/availability";
+import type { IProfessor } from "@/types";
+
+interface TimeOffEntry {
+  id: number;
+  kind: TimeOffKind;
+  startTime: string;
+  endTime: string;
+  reason: string | null;
+}
+
+interface HolidayEntry {
+  id: number;
+  date: string;
+  name: string;
+}
+
+interface AvailabilityResponse {
+  workingHours: WorkingHoursRule[];
+  timeOff: TimeOffEntry[];
+  holidays: HolidayEntry[];
+}
+
+interface DayForm {
+  enabled: boolean;
+  startTime: string;
+  endTime: string;
+  breakStart: string;
+  breakEnd: string;
+}
+
+const EMPTY_DAY: DayForm = { enabled: false, startTime: "08:00", endTime: "18:00", breakStart: "", breakEnd: "" };
+
+function toDayForms(rules: WorkingHoursRule[]): DayForm[] {
+  return WEEK_DAY_LABELS.map((_, weekDay) => {
+    const rule = rules.find(item => item.weekDay === weekDay);
+    return rule
+      ? { enabled: true, startTime: rule.startTime, endTime: rule.endTime, breakStart: rule.breakStart || "", breakEnd: rule.breakEnd || "" }
+      : { ...EMPTY_DAY };
+  });
+}
+
+interface ProfessorAvailabilityDialogProps {
+  professor: IProfessor | null;
+  open: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Expediente semanal, ausências (férias, folgas) e feriados usados na validação dos agendamentos
+ */
+export function ProfessorAvailabilityDialog({ professor, open, onClose }: ProfessorAvailabilityDialogProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const isAdmin = user?.role === "admin";
+  const availabilityKey = [`/api/availability/professors/${professor?.id}`];
+
+  const [days, setDays] = useState<DayForm[]>(() => toDayForms([]));
+  const [timeOffForm, setTimeOffForm] = useState({ kind: "folga" as TimeOffKind, startTime: "", endTime: "", reason: "" });
+  const [holidayForm, setHolidayForm] = useState({ date: "", name: "" });
+
+  const { data: availability } = useQuery<AvailabilityResponse>({
+    queryKey: availabilityKey,
+    enabled: open && !!professor,
+  });
+
+  useEffect(() => {
+    if (availability) {
+      setDays(toDayForms(availability.workingHours));
+    }
+  }, [availability]);
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: availabilityKey });
+
+  const onError = (error: Error) => {
+    toast({ title: "Erro", description: error.message, variant: "destructive" });
+  };
+
+  const saveHoursMutation = useMutation({
+    mutationFn: () => apiRequest("PUT", `/api/availability/professors/${professor!.id}/working-hours`, {
+      workingHours: days
+        .map((day, weekDay) => ({ day, weekDay }))
+        .filter(({ day }) => day.enabled)
+        .map(({ day, weekDay }) => ({
+          weekDay,
+          startTime: day.startTime,
+          endTime: day.endTime,
+          breakStart: day.breakStart || null,
+          breakEnd: day.breakEnd || null,
+        })),
+    }),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Expediente salvo", description: "Os novos agendamentos seguirão este horário." });
+    },
+    onError,
+  });
+
+  const createTimeOffMutation = useMutation({
+    mutationFn: () => apiRequest<{ affectedAulas: unknown[] }>("POST", `/api/availability/professors/${professor!.id}/time-off`, {
+      kind: timeOffForm.kind,
+      startTime: new Date(timeOffForm.startTime).toISOString(),
+      endTime: new Date(timeOffForm.endTime).toISOString(),
+      reason: timeOffForm.reason.trim() || null,
+    }),
+    onSuccess: (result) => {
+      invalidate();
+      setTimeOffForm({ kind: "folga", startTime: "", endTime: "", reason: "" });
+      toast({
+        title: "Ausência registrada",
+        description: result.affectedAulas.length > 0
+          ? `${result.affectedAulas.length} aula(s) já agendada(s) neste período precisam ser remanejadas.`
+          : "Nenhuma aula agendada no período.",
+      });
+    },
+    onError,
+  });
+
+  const deleteTimeOffMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/availability/time-off/${id}`),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const createHolidayMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/availability/holidays", {
+      date: holidayForm.date,
+      name: holidayForm.name.trim(),
+    }),
+    onSuccess: () => {
+      // Feriados valem para todos os professores
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/availability/") });
+      setHolidayForm({ date: "", name: "" });
+    },
+    onError,
+  });
+
+  const deleteHolidayMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/availability/holidays/${id}`),
+    onSuccess: () => queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/availability/") }),
+    onError,
+  });
+
+  const updateDay = (weekDay: number, changes: Partial<DayForm>) => {
+    setDays(prev => prev.map((day, index) => index === weekDay ? { ...day, ...changes } : day));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Disponibilidade — {professor?.name || professor?.username}</DialogTitle>
+          <DialogDescription>
+            Agendamentos fora do expediente, no intervalo, em feriados ou ausências são recusados.
+            Sem expediente cadastrado, qualquer horário é aceito.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="hours">
+          <TabsList>
+            <TabsTrigger value="hours">Expediente</TabsTrigger>
+            <TabsTrigger value="timeoff">Ausências</TabsTrigger>
+            <TabsTrigger value="holidays">Feriados</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="hours" className="space-y-3">
+            {days.map((day, weekDay) => (
+              <div key={weekDay} className="grid grid-cols-[auto_8rem_1fr] items-center gap-3">
+                <Switch checked={day.enabled} onCheckedChange={(enabled) => updateDay(weekDay, { enabled })} />
+                <span className="text-sm">{WEEK_DAY_LABELS[weekDay]}</span>
+                {day.enabled ? (
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <Input type="time" className="w-28" value={day.startTime} onChange={(e) => updateDay(weekDay, { startTime: e.target.value })} />
+                    <span>às</span>
+                    <Input type="time" className="w-28" value={day.endTime} onChange={(e) => updateDay(weekDay, { endTime: e.target.value })} />
+                    <span className="text-muted-foreground">intervalo</span>
+                    <Input type="time" className="w-28" value={day.breakStart} onChange={(e) => updateDay(weekDay, { breakStart: e.target.value })} />
+                    <span>às</span>
+                    <Input type="time" className="w-28" value={day.breakEnd} onChange={(e) => updateDay(weekDay, { breakEnd: e.target.value })} />
+                  </div>
+                ) : (
+                  <span className="text-sm text-muted-foreground">Não trabalha</span>
+                )}
+              </div>
+            ))}
+            <div className="flex justify-end">
+              <Button onClick={() => saveHoursMutation.mutate()} disabled={!professor || saveHoursMutation.isPending}>
+                Salvar expediente
+              </Button>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="timeoff" className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>Tipo</Label>
+                <Select value={timeOffForm.kind} onValueChange={(kind) => setTimeOffForm(prev => ({ ...prev, kind: kind as TimeOffKind }))}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {TIME_OFF_KINDS.map(kind => (
+                      <SelectItem key={kind} value={kind}>{TIME_OFF_KIND_LABELS[kind]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Motivo</Label>
+                <Input value={timeOffForm.reason} placeholder="Opcional" onChange={(e) => setTimeOffForm(prev => ({ ...prev, reason: e.target.value }))} />
+              </div>
+              <div className="space-y-1">
+                <Label>Início</Label>
+                <Input type="datetime-local" value={timeOffForm.startTime} onChange={(e) => setTimeOffForm(prev => ({ ...prev, startTime: e.target.value }))} />
+              </div>
+              <div className="space-y-1">
+                <Label>Fim</Label>
+                <Input type="datetime-local" value={timeOffForm.endTime} onChange={(e) => setTimeOffForm(prev => ({ ...prev, endTime: e.target.value }))} />
+              </div>
+            </div>
+            <div className="flex justify-end">
+              <Button
+                onClick={() => createTimeOffMutation.mutate()}
+                disabled={!timeOffForm.startTime || !timeOffForm.endTime || createTimeOffMutation.isPending}
+              >
+                Registrar ausência
+              </Button>
+            </div>
+
+            {availability?.timeOff.length ? (
+              <ul className="divide-y rounded-md border">
+                {availability.timeOff.map(entry => (
+                  <li key={entry.id} className="flex items-center justify-between p-2 text-sm">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="secondary">{TIME_OFF_KIND_LABELS[entry.kind]}</Badge>
+                      <span>
+                        {format(new Date(entry.startTime), "dd/MM/yyyy HH:mm")} — {format(new Date(entry.endTime), "dd/MM/yyyy HH:mm")}
+                      </span>
+                      {entry.reason && <span className="text-muted-foreground">{entry.reason}</span>}
+                    </div>
+                    <Button size="icon" variant="ghost" onClick={() => deleteTimeOffMutation.mutate(entry.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-muted-foreground">Nenhuma ausência programada.</p>
+            )}
+          </TabsContent>
+
+          <TabsContent value="holidays" className="space-y-4">
+            {isAdmin && (
+              <div className="flex flex-wrap items-end gap-3">
+                <div className="space-y-1">
+                  <Label>Data</Label>
+                  <Input type="date" value={holidayForm.date} onChange={(e) => setHolidayForm(prev => ({ ...prev, date: e.target.value }))} />
+                </div>
+                <div className="space-y-1 flex-1">
+                  <Label>Nome</Label>
+                  <Input value={holidayForm.name} onChange={(e) => setHolidayForm(prev => ({ ...prev, name: e.target.value }))} />
+                </div>
+                <Button
+                  onClick={() => createHolidayMutation.mutate()}
+                  disabled={!holidayForm.date || !holidayForm.name.trim() || createHolidayMutation.isPending}
+                >
+                  Adicionar feriado
+                </Button>
+              </div>
+            )}
+
+            {availability?.holidays.length ? (
+              <ul className="divide-y rounded-md border">
+                {availability.holidays.map(holiday => (
+                  <li key={holiday.id} className="flex items-center justify-between p-2 text-sm">
+                    <span>{format(new Date(`${holiday.date}T00:00:00`), "dd/MM/yyyy")} — {holiday.name}</span>
+                    {isAdmin && (
+                      <Button size="icon" variant="ghost" onClick={() => deleteHolidayMutation.mutate(holiday.id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-muted-foreground">Nenhum feriado nos próximos 12 meses.</p>
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -46,6 +46,7 @@ const statusConfig = {
   concluido: { label: "Concluído", color: "bg-green-500", icon: CheckCircle },
   cancelado: { label: "Cancelado", color: "bg-red-500", icon: XCircle },
   remarcado: { label: "Remarcado", color: "bg-purple-500", icon: AlertTriangle },
+  falta: { label: "Falta", color: "bg-rose-700", icon: XCircle },
 };
 
 export default function AppointmentDetailsDialog({
@@ -3,7 +3,7 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQueryClient, useQuery } from "@tanstack/react-query";
 import { z } from "zod";
-import { Calendar, Clock, User, MapPin, DollarSign, FileText, AlertCircle } from "lucide-react";
+import { Calendar, Clock, User, MapPin, DollarSign, FileText, AlertCircle, Sparkles } from "lucide-react";
 import {
   Dialog,
   DialogContent,
@@ -22,6 +22,18 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import {
   Select,
   SelectContent,
@@ -30,6 +42,12 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
+import { useProfessorAvailability } from "@/hooks/use-professor-availability";
+import { format } from "date-fns";
+import { SlotFinderDialog } from "./SlotFinderDialog";
+import { LocationInput } from "@/components/locations/LocationInput";
+import { AttendanceActions } from "./AttendanceActions";
+import type { SlotSuggestion } from "@shared/availability";
 import type { IAula, IProfessor } from "@/types";
 
 // Form validation schema
@@ -37,14 +55,30 @@ const aulaFormSchema = z.object({
   startTime: z.string().min(1, "Horário de início é obrigatório"),
   endTime: z.string().min(1, "Horário de término é obrigatório"),
   location: z.string().min(1, "Local é obrigatório"),
+  locationId: z.number().nullable().optional(),
   value: z.number().min(1, "Valor deve ser maior que zero"),
   service: z.string().min(1, "Serviço é obrigatório"),
   notes: z.string().optional(),
-  status: z.enum(["agendado", "em_andamento", "concluido", "cancelado", "remarcado"]),
+  status: z.enum(["agendado", "em_andamento", "concluido", "cancelado", "remarcado", "falta"]),
 });
 
 type AulaFormData = z.infer<typeof aulaFormSchema>;
 
+// Escopo da edição de uma aula recorrente
+type EditScope = "this" | "following" | "all";
+
+const editScopeOptions: { value: EditScope; label: string }[] = [
+  { value: "this", label: "Somente esta aula" },
+  { value: "following", label: "Esta e as aulas seguintes" },
+  { value: "all", label: "Todas as aulas da série (as já realizadas não mudam)" },
+];
+
+interface SeriesEditResponse {
+  removed: number;
+  created: number;
+  conflicts: { startTime: string; endTime: string }[];
+}
+
 interface AppointmentDialogProps {
   aula?: IAula | null;
   open: boolean;
@@ -54,6 +88,11 @@ interface AppointmentDialogProps {
 export function AppointmentDialog({ aula, open, onClose }: AppointmentDialogProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const [pendingData, setPendingData] = useState<AulaFormData | null>(null);
+  const [editScope, setEditScope] = useState<EditScope>("this");
+  const [slotFinderOpen, setSlotFinderOpen] = useState(false);
+  // Professor trocado ao usar um horário sugerido
+  const [suggestedProfessorId, setSuggestedProfessorId] = useState<number | null>(null);
 
   const form = useForm<AulaFormData>({
     resolver: zodResolver(aulaFormSchema),
@@ -61,6 +100,7 @@ export function AppointmentDialog({ aula, open, onClose }: AppointmentDialogProp
       startTime: "",
       endTime: "",
       location: "",
+      locationId: null,
       value: 0,
       service: "",
       notes: "",
@@ -80,6 +120,15 @@ export function AppointmentDialog({ aula, open, onClose }: AppointmentDialogProp
     select: (data: any) => data as any[]
   });
 
+  // Aviso antecipado quando o novo horário cai fora da disponibilidade do professor
+  const { checkAvailability } = useProfessorAvailability(suggestedProfessorId ?? aula?.professorId);
+  const [watchedStart, watchedEnd] = form.watch(["startTime", "endTime"]);
+  const timeChanged = !!aula && !!watchedStart && !!watchedEnd
+    && (new Date(watchedStart).getTime() !== new Date(aula.startTime).getTime()
+      || new Date(watchedEnd).getTime() !== new Date(aula.endTime).getTime());
+  const professorChanged = !!aula && !!suggestedProfessorId && suggestedProfessorId !== aula.professorId;
+  const availabilityIssue = timeChanged || professorChanged ? checkAvailability(new Date(watchedStart), new Date(watchedEnd)) : null;
+
   // Reset form when aula changes
   useEffect(() => {
     if (aula && open) {
@@ -87,33 +136,46 @@ export function AppointmentDialog({ aula, open, onClose }: AppointmentDialogProp
       const endTime = new Date(aula.endTime);
       
       form.reset({
-        startTime: startTime.toISOString().slice(0, 16), // Format for datetime-local input
-        endTime: endTime.toISOString().slice(0, 16),
+        // datetime-local trabalha no horário local, não em UTC
+        startTime: format(startTime, "yyyy-MM-dd'T'HH:mm"),
+        endTime: format(endTime, "yyyy-MM-dd'T'HH:mm"),
         location: aula.location,
+        locationId: aula.locationId ?? null,
         value: aula.value / 100, // Convert from cents to reais
         service: aula.service,
         notes: aula.notes || "",
         status: aula.status,
       });
+      setSuggestedProfessorId(null);
     }
   }, [aula, open, form]);
 
+  const handleSlotSelect = (slot: SlotSuggestion) => {
+    form.setValue("startTime", format(new Date(slot.startTime), "yyyy-MM-dd'T'HH:mm"), { shouldValidate: true });
+    form.setValue("endTime", format(new Date(slot.endTime), "yyyy-MM-dd'T'HH:mm"), { shouldValidate: true });
+    setSuggestedProfessorId(slot.professorId);
+  };
+
   // Update aula mutation
   const updateAulaMutation = useMutation({
-    mutationFn: async (data: AulaFormData) => {
+    mutationFn: async ({ data, scope }: { data: AulaFormData; scope: EditScope }) => {
       const response = await fetch(`/api/new-scheduling/classes/${aula!.id}`, {
         method: "PATCH",
         headers: {
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
+          scope,
+          professorId: professorChanged ? suggestedProfessorId : undefined,
           startTime: new Date(data.startTime).toISOString(),
           endTime: new Date(data.endTime).toISOString(),
           location: data.location,
+          locationId: data.locationId ?? null,
           value: Math.round(data.value * 100), // Convert to cents
           service: data.service,
           notes: data.notes,
-          status: data.status,
+          // O status é sempre individual de cada aula
+          status: scope === "this" ? data.status : undefined,
         }),
       });
       
@@ -124,12 +186,23 @@ export function AppointmentDialog({ aula, open, onClose }: AppointmentDialogProp
       
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (result: SeriesEditResponse | unknown, { scope }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/new-scheduling/classes"] });
-      toast({
-        title: "Aula atualizada",
-        description: "Aula atualizada com sucesso",
-      });
+      if (scope === "this") {
+        toast({
+          title: "Aula atualizada",
+          description: "Aula atualizada com sucesso",
+        });
+      } else {
+        const { created, conflicts } = result as SeriesEditResponse;
+        toast({
+          title: "Série atualizada",
+          description: conflicts.length > 0
+            ? `${created} aula(s) gerada(s); ${conflicts.length} não foram criadas por conflito de horário.`
+            : `${created} aula(s) gerada(s) com as novas informações.`,
+        });
+      }
+      setPendingData(null);
       onClose();
     },
     onError: (error: Error) => {
@@ -142,12 +215,18 @@ export function AppointmentDialog({ aula, open, onClose }: AppointmentDialogProp
   });
 
   const onSubmit = (data: AulaFormData) => {
-    updateAulaMutation.mutate(data);
+    // Aulas de uma série perguntam se a alteração vale para as demais
+    if (aula?.agendamentoRecorrenteId) {
+      setEditScope("this");
+      setPendingData(data);
+      return;
+    }
+    updateAulaMutation.mutate({ data, scope: "this" });
   };
 
   if (!aula) return null;
 
-  const professor = professors.find(p => p.id === aula.professorId);
+  const professor = professors.find(p => p.id === (suggestedProfessorId ?? aula.professorId));
   const student = leads.find(l => l.id === aula.studentId);
 
   const getStatusColor = (status: string) => {
@@ -157,6 +236,7 @@ export function AppointmentDialog({ aula, open, onClose }: AppointmentDialogProp
       case 'concluido': return 'bg-green-500';
       case 'cancelado': return 'bg-red-500';
       case 'remarcado': return 'bg-purple-500';
+      case 'falta': return 'bg-rose-700';
       default: return 'bg-gray-500';
     }
   };
@@ -168,6 +248,7 @@ export function AppointmentDialog({ aula, open, onClose }: AppointmentDialogProp
       case 'concluido': return 'Concluído';
       case 'cancelado': return 'Cancelado';
       case 'remarcado': return 'Remarcado';
+      case 'falta': return 'Falta';
       default: return status;
     }
   };
@@ -193,6 +274,7 @@ export function AppointmentDialog({ aula, open, onClose }: AppointmentDialogProp
               <p className="text-sm font-medium">Professor</p>
               <p className="text-sm text-muted-foreground">
                 {professor?.name || professor?.username || "Não encontrado"}
+                {professorChanged && <Badge variant="outline" className="ml-2 text-xs">Novo professor</Badge>}
               </p>
             </div>
           </div>
@@ -220,9 +302,17 @@ export function AppointmentDialog({ aula, open, onClose }: AppointmentDialogProp
           </div>
         )}
 
+        <AttendanceActions aula={aula} onChange={onClose} />
+
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
             {/* Date and Time */}
+            <div className="flex justify-end">
+              <Button type="button" variant="outline" size="sm" onClick={() => setSlotFinderOpen(true)}>
+                <Sparkles className="h-4 w-4 mr-2" />
+                Sugerir horários
+              </Button>
+            </div>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <FormField
                 control={form.control}
@@ -265,6 +355,13 @@ export function AppointmentDialog({ aula, open, onClose }: AppointmentDialogProp
               />
             </div>
 
+            {availabilityIssue && (
+              <div className="flex items-center gap-2 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+                <AlertCircle className="h-4 w-4 text-amber-600" />
+                {availabilityIssue.message}
+              </div>
+            )}
+
             {/* Location and Service */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <FormField
@@ -277,7 +374,15 @@ export function AppointmentDialog({ aula, open, onClose }: AppointmentDialogProp
                       Local
                     </FormLabel>
                     <FormControl>
-                      <Input {...field} placeholder="Digite o local da aula" />
+                      <LocationInput
+                        value={field.value}
+                        studentId={aula.studentId}
+                        placeholder="Digite o local da aula"
+                        onChange={({ location, locationId }) => {
+                          field.onChange(location);
+                          form.setValue("locationId", locationId);
+                        }}
+                      />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -343,6 +448,7 @@ export function AppointmentDialog({ aula, open, onClose }: AppointmentDialogProp
                         <SelectItem value="concluido">Concluído</SelectItem>
                         <SelectItem value="cancelado">Cancelado</SelectItem>
                         <SelectItem value="remarcado">Remarcado</SelectItem>
+                        <SelectItem value="falta">Falta</SelectItem>
                       </SelectContent>
                     </Select>
                     <FormMessage />
@@ -389,6 +495,48 @@ export function AppointmentDialog({ aula, open, onClose }: AppointmentDialogProp
             </div>
           </form>
         </Form>
+
+        <AlertDialog open={!!pendingData} onOpenChange={(isOpen) => !isOpen && setPendingData(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Editar aula recorrente</AlertDialogTitle>
+              <AlertDialogDescription>
+                Esta aula faz parte de um agendamento recorrente. Aplicar as alterações em:
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <RadioGroup value={editScope} onValueChange={(value) => setEditScope(value as EditScope)}>
+              {editScopeOptions.map((option) => (
+                <div key={option.value} className="flex items-center space-x-2">
+                  <RadioGroupItem value={option.value} id={`scope-${option.value}`} />
+                  <Label htmlFor={`scope-${option.value}`}>{option.label}</Label>
+                </div>
+              ))}
+            </RadioGroup>
+            {editScope !== "this" && (
+              <p className="text-xs text-muted-foreground">
+                Aulas alteradas individualmente, canceladas ou concluídas são mantidas. O status vale apenas para esta aula.
+              </p>
+            )}
+            <AlertDialogFooter>
+              <AlertDialogCancel>Voltar</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => pendingData && updateAulaMutation.mutate({ data: pendingData, scope: editScope })}
+              >
+                Salvar
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+
+        <SlotFinderDialog
+          open={slotFinderOpen}
+          onOpenChange={setSlotFinderOpen}
+          studentId={aula.studentId}
+          excludeAulaId={aula.id}
+          service={form.watch("service")}
+          location={form.watch("location")}
+          onSelect={handleSlotSelect}
+        />
       </DialogContent>
     </Dialog>
   );
@@ -88,7 +88,8 @@ const STATUS_LABELS = {
   em_andamento: { label: "Em andamento", color: "bg-blue-600", textColor: "text-white" },
   concluido: { label: "Concluída", color: "bg-green-500", textColor: "text-white" },
   cancelado: { label: "Cancelada", color: "bg-red-500", textColor: "text-white" },
-  remarcado: { label: "Remarcada", color: "bg-orange-500", textColor: "text-white" }
+  remarcado: { label: "Remarcada", color: "bg-orange-500", textColor: "text-white" },
+  falta: { label: "Falta do aluno", color: "bg-rose-700", textColor: "text-white" }
 };
 
 const AppointmentsManagement = ({ onRefresh }: AppointmentsManagementProps) => {
@@ -0,0 +1,191 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { LogIn, LogOut, UserX, Ban } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import type { IAula } from "@/types";
+
+type AttendanceAction = "check-in" | "check-out" | "no-show" | "cancel";
+
+const actionMessages: Record<AttendanceAction, string> = {
+  "check-in": "Chegada registrada",
+  "check-out": "Aula encerrada",
+  "no-show": "Falta registrada",
+  "cancel": "Aula cancelada",
+};
+
+const formatDateTime = (value: string) => format(new Date(value), "dd/MM/yyyy HH:mm");
+
+interface AttendanceActionsProps {
+  aula: IAula;
+  onChange?: () => void;
+}
+
+/**
+ * Chegada/saída do professor, falta do aluno e cancelamento com motivo de uma aula
+ */
+export function AttendanceActions({ aula, onChange }: AttendanceActionsProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const isAdmin = user?.role === "admin";
+
+  const [cancelOpen, setCancelOpen] = useState(false);
+  const [reason, setReason] = useState("");
+  const [waiveFee, setWaiveFee] = useState(false);
+
+  const attendanceMutation = useMutation({
+    mutationFn: ({ action, data }: { action: AttendanceAction; data?: Record<string, unknown> }) =>
+      apiRequest<IAula>("POST", `/api/new-scheduling/classes/${aula.id}/${action}`, data ?? {}),
+    onSuccess: (updated, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/new-scheduling/classes"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/leads/${aula.studentId}/attendance`] });
+      toast({
+        title: actionMessages[action],
+        description: updated.chargeable ? "A aula será cobrada do aluno conforme a política de cancelamento." : undefined,
+      });
+      setCancelOpen(false);
+      setReason("");
+      setWaiveFee(false);
+      onChange?.();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao registrar presença", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const isOpen = aula.status === "agendado" || aula.status === "remarcado";
+  const started = new Date(aula.startTime) <= new Date();
+
+  return (
+    <div className="space-y-3 p-4 border rounded-lg">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">Presença</p>
+        {aula.chargeable && <Badge variant="destructive">Cobrada</Badge>}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 text-sm text-muted-foreground">
+        <p>Chegada: {aula.checkInAt ? formatDateTime(aula.checkInAt) : "—"}</p>
+        <p>Saída: {aula.checkOutAt ? formatDateTime(aula.checkOutAt) : "—"}</p>
+      </div>
+
+      {aula.status === "cancelado" && aula.cancelledAt && (
+        <div className="text-sm">
+          <p>
+            Cancelada em {formatDateTime(aula.cancelledAt)}
+            {aula.lateCancellation && <Badge variant="outline" className="ml-2 text-xs">Cancelamento tardio</Badge>}
+          </p>
+          {aula.cancellationReason && <p className="text-muted-foreground">Motivo: {aula.cancellationReason}</p>}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {isOpen && (
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            disabled={attendanceMutation.isPending}
+            onClick={() => attendanceMutation.mutate({ action: "check-in" })}
+          >
+            <LogIn className="h-4 w-4 mr-2" />
+            Registrar chegada
+          </Button>
+        )}
+        {aula.status === "em_andamento" && aula.checkInAt && (
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            disabled={attendanceMutation.isPending}
+            onClick={() => attendanceMutation.mutate({ action: "check-out" })}
+          >
+            <LogOut className="h-4 w-4 mr-2" />
+            Encerrar aula
+          </Button>
+        )}
+        {(isOpen || aula.status === "em_andamento") && started && (
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            disabled={attendanceMutation.isPending}
+            onClick={() => attendanceMutation.mutate({ action: "no-show" })}
+          >
+            <UserX className="h-4 w-4 mr-2" />
+            Aluno faltou
+          </Button>
+        )}
+        {(isOpen || aula.status === "em_andamento") && (
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            className="text-red-600"
+            disabled={attendanceMutation.isPending}
+            onClick={() => setCancelOpen(true)}
+          >
+            <Ban className="h-4 w-4 mr-2" />
+            Cancelar aula
+          </Button>
+        )}
+      </div>
+
+      <AlertDialog open={cancelOpen} onOpenChange={setCancelOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancelar aula</AlertDialogTitle>
+            <AlertDialogDescription>
+              Cancelamentos em cima da hora são cobrados do aluno conforme a política de cancelamento.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="cancellation-reason">Motivo</Label>
+            <Textarea
+              id="cancellation-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Ex.: aluno doente, professor indisponível..."
+              rows={3}
+            />
+          </div>
+          {isAdmin && (
+            <div className="flex items-center space-x-2">
+              <Checkbox id="waive-fee" checked={waiveFee} onCheckedChange={(checked) => setWaiveFee(checked === true)} />
+              <Label htmlFor="waive-fee">Isentar cobrança</Label>
+            </div>
+          )}
+          <AlertDialogFooter>
+            <AlertDialogCancel>Voltar</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={!reason.trim() || attendanceMutation.isPending}
+              onClick={(e) => {
+                e.preventDefault();
+                attendanceMutation.mutate({ action: "cancel", data: { reason, waiveFee: waiveFee || undefined } });
+              }}
+            >
+              Cancelar aula
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
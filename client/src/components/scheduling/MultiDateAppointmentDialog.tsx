@@ -14,10 +14,12 @@ import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { format, addDays, differenceInDays } from "date-fns";
 import { ptBR } from "date-fns/locale";
-import { CalendarIcon, Clock, Users, DollarSign, MapPin } from "lucide-react";
+import { CalendarIcon, Clock, Users, DollarSign, MapPin, AlertTriangle } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useProfessorAvailability } from "@/hooks/use-professor-availability";
+import { LocationInput } from "@/components/locations/LocationInput";
 
 // Schema for the appointment form
 const appointmentSchema = z.object({
@@ -26,6 +28,7 @@ const appointmentSchema = z.object({
   startTime: z.string().min(1, "Horário é obrigatório"),
   endTime: z.string().min(1, "Horário de fim é obrigatório"),
   location: z.string().min(1, "Local é obrigatório"),
+  locationId: z.number().nullable().optional(),
   value: z.number().min(0, "Valor deve ser positivo"),
   service: z.string().min(1, "Serviço é obrigatório"),
   notes: z.string().optional(),
@@ -77,6 +80,7 @@ export default function MultiDateAppointmentDialog({
       startTime: "09:00",
       endTime: "10:00",
       location: "",
+      locationId: null,
       value: 0,
       service: "",
       notes: "",
@@ -86,6 +90,29 @@ export default function MultiDateAppointmentDialog({
     },
   });
 
+  // Datas selecionadas fora da disponibilidade do professor (o servidor recusa esses horários)
+  const [watchedProfessorId, watchedStartTime, watchedEndTime] = form.watch(["professorId", "startTime", "endTime"]);
+  const { checkAvailability } = useProfessorAvailability(watchedProfessorId || null);
+  const unavailableDates = selectedDates
+    .map(date => {
+      const day = format(date, "yyyy-MM-dd");
+      return { date, issue: checkAvailability(new Date(`${day}T${watchedStartTime}:00`), new Date(`${day}T${watchedEndTime}:00`)) };
+    })
+    .filter(item => item.issue);
+
+  const postAppointment = async (appointment: AppointmentFormData) => {
+    const res = await fetch("/api/appointments", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(appointment),
+    });
+    const body = await res.json();
+    if (!res.ok) {
+      throw new Error(body.message || "Falha ao criar agendamento");
+    }
+    return body;
+  };
+
   // Create appointment mutation
   const createAppointmentMutation = useMutation({
     mutationFn: async (data: any) => {
@@ -96,11 +123,7 @@ export default function MultiDateAppointmentDialog({
           startTime: `${format(selectedDates[0], "yyyy-MM-dd")} ${data.startTime}:00`,
           endTime: `${format(selectedDates[0], "yyyy-MM-dd")} ${data.endTime}:00`,
         };
-        return fetch("/api/appointments", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(appointmentData),
-        }).then(res => res.json());
+        return postAppointment(appointmentData);
       } else {
         // Multiple appointments or recurring
         const appointments = selectedDates.map(date => ({
@@ -110,15 +133,7 @@ export default function MultiDateAppointmentDialog({
         }));
 
         // Create batch appointments
-        return Promise.all(
-          appointments.map(appointment =>
-            fetch("/api/appointments", {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify(appointment),
-            }).then(res => res.json())
-          )
-        );
+        return Promise.all(appointments.map(postAppointment));
       }
     },
     onSuccess: () => {
@@ -135,7 +150,7 @@ export default function MultiDateAppointmentDialog({
       console.error("Erro ao criar agendamento:", error);
       toast({
         title: "Erro",
-        description: "Falha ao criar agendamento. Tente novamente.",
+        description: error?.message || "Falha ao criar agendamento. Tente novamente.",
         variant: "destructive",
       });
     },
@@ -280,6 +295,20 @@ export default function MultiDateAppointmentDialog({
                 </CardContent>
               </Card>
             )}
+
+            {unavailableDates.length > 0 && (
+              <div className="rounded-md border border-amber-300 bg-amber-50 dark:bg-amber-900/20 p-3 text-sm text-amber-800 dark:text-amber-200 space-y-1">
+                <p className="flex items-center gap-2 font-medium">
+                  <AlertTriangle className="h-4 w-4" />
+                  Professor indisponível em {unavailableDates.length} data(s)
+                </p>
+                {unavailableDates.map(({ date, issue }) => (
+                  <p key={date.toISOString()}>
+                    {format(date, "dd/MM/yyyy", { locale: ptBR })}: {issue!.message}
+                  </p>
+                ))}
+              </div>
+            )}
           </div>
 
           {/* Form Section */}
@@ -390,7 +419,15 @@ export default function MultiDateAppointmentDialog({
                           Local
                         </FormLabel>
                         <FormControl>
-                          <Input placeholder="Ex: Academia Favale" {...field} />
+                          <LocationInput
+                            value={field.value}
+                            studentId={form.watch("studentId") || null}
+                            placeholder="Ex: Academia Favale"
+                            onChange={({ location, locationId }) => {
+                              field.onChange(location);
+                              form.setValue("locationId", locationId);
+                            }}
+                          />
                         </FormControl>
                         <FormMessage />
                       </FormItem>
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQueryClient, useQuery } from "@tanstack/react-query";
@@ -30,6 +30,12 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
+import { useProfessorAvailability } from "@/hooks/use-professor-availability";
+import { Badge } from "@/components/ui/badge";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { expandRecurrence } from "@shared/recurrence";
+import { LocationInput } from "@/components/locations/LocationInput";
 import type { IProfessor, INewRecurrenceForm, IRegraRecorrencia } from "@/types";
 
 // Form validation schema
@@ -37,6 +43,7 @@ const recurrenceFormSchema = z.object({
   professorId: z.number().min(1, "Professor é obrigatório"),
   studentId: z.number().min(1, "Aluno é obrigatório"),
   location: z.string().min(1, "Local é obrigatório"),
+  locationId: z.number().nullable().optional(),
   value: z.number().min(1, "Valor deve ser maior que zero"),
   service: z.string().min(1, "Serviço é obrigatório"),
   notes: z.string().optional(),
@@ -48,6 +55,11 @@ const recurrenceFormSchema = z.object({
     interval: z.number().min(1, "Intervalo deve ser pelo menos 1"),
     weekDays: z.array(z.string()).optional(),
     monthDay: z.number().optional(),
+    monthWeek: z.number().optional(),
+    monthWeekDay: z.string().optional(),
+    weekDayTimes: z.record(z.object({ startTime: z.string() })).optional(),
+    exDates: z.array(z.string()).optional(),
+    rrule: z.string().optional(),
     endType: z.enum(["never", "date", "count"]),
     endDate: z.string().optional(),
     endCount: z.number().optional(),
@@ -71,6 +83,44 @@ const weekDayOptions = [
   { value: "sunday", label: "Domingo" },
 ];
 
+const monthWeekOptions = [
+  { value: "1", label: "Primeira" },
+  { value: "2", label: "Segunda" },
+  { value: "3", label: "Terceira" },
+  { value: "4", label: "Quarta" },
+  { value: "5", label: "Quinta" },
+  { value: "-1", label: "Última" },
+];
+
+// Quantas próximas aulas mostrar na prévia
+const PREVIEW_OCCURRENCES = 5;
+
+/**
+ * Monta as regras enviadas ao servidor a partir do formulário
+ */
+function buildRules(data: RecurrenceFormData): IRegraRecorrencia {
+  const startDateTime = new Date(`${data.startDate}T${data.startTime}`);
+  const endDateTime = new Date(`${data.startDate}T${data.endTime}`);
+  const { monthWeek, monthWeekDay, weekDayTimes, ...recurrence } = data.recurrence;
+  const usesMonthWeek = (recurrence.type === "monthly" || recurrence.type === "yearly") && monthWeek !== undefined;
+
+  // Horários próprios só valem para os dias marcados
+  const selectedTimes = Object.fromEntries(
+    Object.entries(weekDayTimes || {}).filter(([day, time]) =>
+      recurrence.type === "weekly" && recurrence.weekDays?.includes(day) && time.startTime
+    )
+  );
+
+  return {
+    ...recurrence,
+    monthWeek: usesMonthWeek ? monthWeek : undefined,
+    monthWeekDay: usesMonthWeek ? monthWeekDay : undefined,
+    weekDayTimes: Object.keys(selectedTimes).length > 0 ? selectedTimes : undefined,
+    // Duração de cada aula, usada ao gerar as ocorrências da série
+    durationMinutes: Math.round((endDateTime.getTime() - startDateTime.getTime()) / 60000),
+  };
+}
+
 export function NewRecurrenceForm({ open, onClose }: NewRecurrenceFormProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -81,6 +131,7 @@ export function NewRecurrenceForm({ open, onClose }: NewRecurrenceFormProps) {
       professorId: 0,
       studentId: 0,
       location: "",
+      locationId: null,
       value: 0,
       service: "",
       notes: "",
@@ -114,21 +165,22 @@ export function NewRecurrenceForm({ open, onClose }: NewRecurrenceFormProps) {
   // Create recurrence mutation
   const createRecurrenceMutation = useMutation({
     mutationFn: async (data: RecurrenceFormData) => {
-      // Combine date and time for start and end
+      // Combine date and time for start
       const startDateTime = new Date(`${data.startDate}T${data.startTime}`);
-      const endDateTime = new Date(`${data.startDate}T${data.endTime}`);
 
       const payload = {
         professorId: data.professorId,
         studentId: data.studentId,
         location: data.location,
+        locationId: data.locationId ?? null,
         value: Math.round(data.value * 100), // Convert to cents
         service: data.service,
         notes: data.notes,
-        regras: data.recurrence,
+        regras: buildRules(data),
         startDate: startDateTime.toISOString(),
+        // A data de término inclui as aulas do próprio dia
         endDate: data.recurrence.endType === "date" && data.recurrence.endDate
-          ? new Date(data.recurrence.endDate).toISOString()
+          ? new Date(`${data.recurrence.endDate}T23:59:59`).toISOString()
           : undefined,
         maxOccurrences: data.recurrence.endType === "count"
           ? data.recurrence.endCount
@@ -175,6 +227,40 @@ export function NewRecurrenceForm({ open, onClose }: NewRecurrenceFormProps) {
 
   const recurrenceType = form.watch("recurrence.type");
   const recurrenceEndType = form.watch("recurrence.endType");
+  const selectedWeekDays = form.watch("recurrence.weekDays") || [];
+  const monthWeek = form.watch("recurrence.monthWeek");
+  const exDates = form.watch("recurrence.exDates") || [];
+  const [newExDate, setNewExDate] = useState("");
+  const formValues = form.watch();
+  const { checkAvailability } = useProfessorAvailability(formValues.professorId || null);
+
+  // Prévia das próximas aulas calculada com o mesmo motor usado pelo servidor
+  const preview = useMemo(() => {
+    if (!formValues.startDate || !formValues.startTime || !formValues.endTime) {
+      return { occurrences: [], error: null as string | null };
+    }
+    try {
+      const startDate = new Date(`${formValues.startDate}T${formValues.startTime}`);
+      const { occurrences } = expandRecurrence({
+        regras: buildRules(formValues),
+        startDate,
+        endDate: formValues.recurrence.endType === "date" && formValues.recurrence.endDate
+          ? new Date(`${formValues.recurrence.endDate}T23:59:59`)
+          : null,
+        maxOccurrences: formValues.recurrence.endType === "count" ? formValues.recurrence.endCount : null,
+      }, new Date(startDate.getTime() + 2 * 365 * 24 * 60 * 60 * 1000));
+      return { occurrences: occurrences.slice(0, PREVIEW_OCCURRENCES), error: null };
+    } catch (error) {
+      return { occurrences: [], error: error instanceof Error ? error.message : "Regra de recorrência inválida" };
+    }
+  }, [JSON.stringify(formValues)]);
+
+  const addExDate = () => {
+    if (newExDate && !exDates.includes(newExDate)) {
+      form.setValue("recurrence.exDates", [...exDates, newExDate].sort());
+    }
+    setNewExDate("");
+  };
 
   return (
     <Dialog open={open} onOpenChange={onClose}>
@@ -273,7 +359,15 @@ export function NewRecurrenceForm({ open, onClose }: NewRecurrenceFormProps) {
                       Local *
                     </FormLabel>
                     <FormControl>
-                      <Input {...field} placeholder="Ex: Academia Pink, Domicílio..." />
+                      <LocationInput
+                        value={field.value}
+                        studentId={form.watch("studentId") || null}
+                        placeholder="Ex: Academia Pink, Domicílio..."
+                        onChange={({ location, locationId }) => {
+                          field.onChange(location);
+                          form.setValue("locationId", locationId);
+                        }}
+                      />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -385,6 +479,7 @@ export function NewRecurrenceForm({ open, onClose }: NewRecurrenceFormProps) {
                         <SelectItem value="weekly">Semanal</SelectItem>
                         <SelectItem value="monthly">Mensal</SelectItem>
                         <SelectItem value="yearly">Anual</SelectItem>
+                        <SelectItem value="custom">Personalizada (RRULE)</SelectItem>
                       </SelectContent>
                     </Select>
                     <FormMessage />
@@ -392,30 +487,115 @@ export function NewRecurrenceForm({ open, onClose }: NewRecurrenceFormProps) {
                 )}
               />
 
+              {/* RRULE (only for custom) */}
+              {recurrenceType === "custom" && (
+                <FormField
+                  control={form.control}
+                  name="recurrence.rrule"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Regra RRULE</FormLabel>
+                      <FormControl>
+                        <Textarea
+                          {...field}
+                          rows={2}
+                          placeholder="RRULE:FREQ=MONTHLY;BYDAY=-1FR;COUNT=10"
+                          className="font-mono text-sm"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
               {/* Interval */}
-              <FormField
-                control={form.control}
-                name="recurrence.interval"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>
-                      {recurrenceType === "daily" && "A cada quantos dias"}
-                      {recurrenceType === "weekly" && "A cada quantas semanas"}
-                      {recurrenceType === "monthly" && "A cada quantos meses"}
-                      {recurrenceType === "yearly" && "A cada quantos anos"}
-                    </FormLabel>
-                    <FormControl>
-                      <Input
-                        {...field}
-                        type="number"
-                        min="1"
-                        onChange={(e) => field.onChange(parseInt(e.target.value) || 1)}
-                      />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+              {recurrenceType !== "custom" && (
+                <FormField
+                  control={form.control}
+                  name="recurrence.interval"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>
+                        {recurrenceType === "daily" && "A cada quantos dias"}
+                        {recurrenceType === "weekly" && "A cada quantas semanas"}
+                        {recurrenceType === "monthly" && "A cada quantos meses"}
+                        {recurrenceType === "yearly" && "A cada quantos anos"}
+                      </FormLabel>
+                      <FormControl>
+                        <Input
+                          {...field}
+                          type="number"
+                          min="1"
+                          onChange={(e) => field.onChange(parseInt(e.target.value) || 1)}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              {/* Nth weekday of the month (monthly/yearly) */}
+              {(recurrenceType === "monthly" || recurrenceType === "yearly") && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="recurrence.monthWeek"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Repetir no</FormLabel>
+                        <Select
+                          onValueChange={(value) => field.onChange(value === "day" ? undefined : parseInt(value))}
+                          value={field.value !== undefined ? field.value.toString() : "day"}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="day">Mesmo dia do mês da data de início</SelectItem>
+                            {monthWeekOptions.map((option) => (
+                              <SelectItem key={option.value} value={option.value}>
+                                {option.label} semana do mês
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  {monthWeek !== undefined && (
+                    <FormField
+                      control={form.control}
+                      name="recurrence.monthWeekDay"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Dia da semana</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Selecione o dia" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {weekDayOptions.map((option) => (
+                                <SelectItem key={option.value} value={option.value}>
+                                  {option.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                </div>
+              )}
 
               {/* Week Days (only for weekly) */}
               {recurrenceType === "weekly" && (
@@ -452,6 +632,35 @@ export function NewRecurrenceForm({ open, onClose }: NewRecurrenceFormProps) {
                 />
               )}
 
+              {/* Per-weekday start times (optional) */}
+              {recurrenceType === "weekly" && selectedWeekDays.length > 1 && (
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">Horário por dia (opcional)</p>
+                  <p className="text-xs text-muted-foreground">
+                    Deixe em branco para usar o horário de início informado acima.
+                  </p>
+                  <div className="grid grid-cols-2 gap-2">
+                    {weekDayOptions
+                      .filter((option) => selectedWeekDays.includes(option.value))
+                      .map((option) => (
+                        <FormField
+                          key={option.value}
+                          control={form.control}
+                          name={`recurrence.weekDayTimes.${option.value}.startTime`}
+                          render={({ field }) => (
+                            <FormItem className="flex items-center gap-2 space-y-0">
+                              <FormLabel className="w-28 text-sm font-normal">{option.label}</FormLabel>
+                              <FormControl>
+                                <Input {...field} value={field.value || ""} type="time" />
+                              </FormControl>
+                            </FormItem>
+                          )}
+                        />
+                      ))}
+                  </div>
+                </div>
+              )}
+
               {/* End Type */}
               <FormField
                 control={form.control}
@@ -514,6 +723,55 @@ export function NewRecurrenceForm({ open, onClose }: NewRecurrenceFormProps) {
                   )}
                 />
               )}
+
+              {/* Exception dates (EXDATE) */}
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Datas sem aula</p>
+                <div className="flex gap-2">
+                  <Input type="date" value={newExDate} onChange={(e) => setNewExDate(e.target.value)} />
+                  <Button type="button" variant="outline" onClick={addExDate} disabled={!newExDate}>
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </div>
+                {exDates.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {exDates.map((date) => (
+                      <Badge key={date} variant="secondary" className="gap-1">
+                        {format(new Date(`${date}T00:00:00`), "dd/MM/yyyy")}
+                        <button
+                          type="button"
+                          onClick={() => form.setValue("recurrence.exDates", exDates.filter((item) => item !== date))}
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {/* Preview */}
+              <div className="rounded-md bg-muted/50 p-3 text-sm">
+                <p className="font-medium mb-1">Próximas aulas</p>
+                {preview.error ? (
+                  <p className="text-destructive">{preview.error}</p>
+                ) : preview.occurrences.length === 0 ? (
+                  <p className="text-muted-foreground">Informe a data e os horários para ver as aulas geradas.</p>
+                ) : (
+                  <ul className="space-y-0.5">
+                    {preview.occurrences.map((occurrence) => {
+                      // Ocorrências com o professor indisponível não são geradas pelo servidor
+                      const issue = checkAvailability(occurrence.startTime, occurrence.endTime);
+                      return (
+                        <li key={occurrence.startTime.toISOString()} className={issue ? "text-amber-700 dark:text-amber-300" : undefined}>
+                          {format(occurrence.startTime, "EEEE, dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}
+                          {issue && ` — não será criada: ${issue.message}`}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+              </div>
             </div>
 
             {/* Notes */}
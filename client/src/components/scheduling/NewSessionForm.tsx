@@ -4,7 +4,7 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
-import { CalendarIcon, Clock, MapPin, User, DollarSign, Repeat, Calendar } from 'lucide-react';
+import { CalendarIcon, Clock, MapPin, User, DollarSign, Repeat, Calendar, Sparkles } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -19,6 +19,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { SlotFinderDialog } from './SlotFinderDialog';
+import type { SlotSuggestion } from '@shared/availability';
 
 // Schema para o formulário
 const sessionFormSchema = z.object({
@@ -78,6 +80,7 @@ interface NewSessionFormProps {
 
 export function NewSessionForm({ leads, trainers, onSubmit, onCancel, isLoading }: NewSessionFormProps) {
   const [showRecurrence, setShowRecurrence] = useState(false);
+  const [slotFinderOpen, setSlotFinderOpen] = useState(false);
   const { toast } = useToast();
 
   const form = useForm<SessionFormData>({
@@ -128,6 +131,28 @@ export function NewSessionForm({ leads, trainers, onSubmit, onCancel, isLoading
     { value: 'domingo', label: 'Domingo' }
   ];
 
+  // Preenche data, horário, local e professor com o horário sugerido
+  const handleSlotSelect = (slot: SlotSuggestion) => {
+    const start = new Date(slot.startTime);
+    form.setValue('date', start, { shouldValidate: true });
+    form.setValue('startTime', format(start, 'HH:mm'), { shouldValidate: true });
+    form.setValue('endTime', format(new Date(slot.endTime), 'HH:mm'), { shouldValidate: true });
+    if (slot.location && !form.getValues('location')) {
+      form.setValue('location', slot.location, { shouldValidate: true });
+    }
+
+    // /api/trainers devolve os professores do modelo de aulas, com os mesmos IDs das sugestões
+    const trainer = trainers.find(item => item.id === slot.professorId);
+    if (trainer) {
+      form.setValue('trainerId', trainer.id, { shouldValidate: true });
+    } else {
+      toast({
+        title: 'Selecione o professor',
+        description: `${slot.professorName} não foi encontrado na lista de professores deste formulário.`,
+      });
+    }
+  };
+
   const handleSubmit = (data: SessionFormData) => {
     try {
       onSubmit(data);
@@ -319,8 +344,18 @@ export function NewSessionForm({ leads, trainers, onSubmit, onCancel, isLoading
 
           {/* Data e horário */}
           <Card>
-            <CardHeader>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
               <CardTitle className="text-base">Data e Horário</CardTitle>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setSlotFinderOpen(true)}
+                disabled={!form.watch('leadId')}
+              >
+                <Sparkles className="h-4 w-4 mr-2" />
+                Sugerir horários
+              </Button>
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -806,6 +841,15 @@ export function NewSessionForm({ leads, trainers, onSubmit, onCancel, isLoading
           </div>
         </form>
       </Form>
+
+      <SlotFinderDialog
+        open={slotFinderOpen}
+        onOpenChange={setSlotFinderOpen}
+        studentId={form.watch('leadId')}
+        service={form.watch('service')}
+        location={form.watch('location')}
+        onSelect={handleSlotSelect}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -28,6 +28,7 @@ import { CalendarIcon, Download, Printer } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useToast } from '@/hooks/use-toast';
 import { useQuery } from '@tanstack/react-query';
+import type { IAula, IStudent } from '@/types';
 
 type StudentOption = {
   id: string;
@@ -48,6 +49,11 @@ type ReportSession = {
   value: number;
 };
 
+// A API de aulas junta o lead completo do aluno, com a origem
+type ReportAula = IAula & {
+  student?: IStudent & { source?: ReportSession['source'] };
+};
+
 export function SessionReport() {
   const [selectedStudent, setSelectedStudent] = useState<string>("");
   const [fromDate, setFromDate] = useState<Date>(startOfMonth(new Date()));
@@ -57,10 +63,9 @@ export function SessionReport() {
   const [isLoading, setIsLoading] = useState(false);
   const { toast } = useToast();
   
-  // Fetch real data from APIs
-  const { data: sessions = [] } = useQuery({
-    queryKey: ['/api/sessions'],
-    queryFn: () => fetch('/api/sessions').then(res => res.json())
+  // Aulas (com professor e aluno) da mesma API usada pela agenda
+  const { data: aulas = [] } = useQuery<ReportAula[]>({
+    queryKey: ['/api/new-scheduling/classes'],
   });
 
   const { data: leads = [] } = useQuery({
@@ -68,11 +73,6 @@ export function SessionReport() {
     queryFn: () => fetch('/api/leads').then(res => res.json())
   });
 
-  const { data: trainers = [] } = useQuery({
-    queryKey: ['/api/trainers'],
-    queryFn: () => fetch('/api/trainers').then(res => res.json())
-  });
-
   // Filter leads to get only students (alunos)
   const students = leads
     .filter((lead: any) => lead.tags?.includes('aluno'))
@@ -87,51 +87,47 @@ export function SessionReport() {
     ? students.filter(student => student.source === selectedSource) 
     : students;
   
-  // Função para gerar relatório
-  // Helper functions to get names from IDs
-  const getStudentName = (leadId: number) => {
-    const lead = leads.find((l: any) => l.id === leadId);
-    return lead?.name || 'Estudante';
-  };
-
-  const getTrainerName = (trainerId: number) => {
-    const trainer = trainers.find((t: any) => t.id === trainerId);
-    return trainer?.name || 'Professor';
+  const statusLabels: Record<string, string> = {
+    agendado: 'Agendado',
+    em_andamento: 'Em andamento',
+    concluido: 'Concluída',
+    cancelado: 'Cancelada',
+    remarcado: 'Remarcada',
+    falta: 'Falta do aluno',
   };
 
+  // Função para gerar relatório
   const generateReport = () => {
     setIsLoading(true);
     
     try {
-      // Filter sessions based on criteria
-      let filteredSessions = sessions.filter((session: any) => {
-        const sessionDate = new Date(session.startTime);
+      // Filter classes based on criteria
+      let filteredSessions = aulas.filter((aula) => {
+        const sessionDate = new Date(aula.startTime);
         const isInDateRange = sessionDate >= fromDate && sessionDate <= toDate;
-        const matchesSource = !selectedSource || session.source === selectedSource;
-        const matchesStudent = !selectedStudent || session.leadId.toString() === selectedStudent;
+        const matchesSource = !selectedSource || aula.student?.source === selectedSource;
+        const matchesStudent = !selectedStudent || aula.studentId.toString() === selectedStudent;
         
         return isInDateRange && matchesSource && matchesStudent;
       });
 
-      // Convert sessions to report format
-      const reportSessions = filteredSessions.map((session: any) => {
-        const startTime = new Date(session.startTime);
-        const endTime = new Date(session.endTime);
+      // Convert classes to report format
+      const reportSessions = filteredSessions.map((aula): ReportSession => {
+        const startTime = new Date(aula.startTime);
+        const endTime = new Date(aula.endTime);
         const duration = Math.round((endTime.getTime() - startTime.getTime()) / (1000 * 60)); // minutes
         
         return {
-          id: session.id,
+          id: aula.id,
           date: format(startTime, 'yyyy-MM-dd'),
           startTime: format(startTime, 'HH:mm'),
           endTime: format(endTime, 'HH:mm'),
           duration: duration > 60 ? `${Math.floor(duration/60)}h${duration%60 > 0 ? ` ${duration%60}min` : ''}` : `${duration}min`,
-          trainerName: getTrainerName(session.trainerId),
-          source: session.source,
-          status: session.status === 'agendado' ? 'Agendado' : 
-                 session.status === 'completed' ? 'Concluída' : 
-                 session.status === 'cancelled' ? 'Cancelada' : session.status,
-          location: session.location,
-          value: session.value || 0,
+          trainerName: aula.professor?.name || aula.professor?.username || 'Professor',
+          source: aula.student?.source || 'Favale',
+          status: statusLabels[aula.status] || aula.status,
+          location: aula.location,
+          value: (aula.value || 0) / 100, // Valor em centavos
         };
       });
 
@@ -0,0 +1,234 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { addDays, format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Clock, MapPin, Search, User } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { WEEK_DAY_LABELS, type SlotSearchResult, type SlotSuggestion } from "@shared/availability";
+import type { Service } from "@shared/schema";
+
+// Faixas de horário oferecidas como preferência do aluno
+const PERIODS = [
+  { key: "manha", label: "Manhã", start: "06:00", end: "12:00" },
+  { key: "tarde", label: "Tarde", start: "12:00", end: "18:00" },
+  { key: "noite", label: "Noite", start: "18:00", end: "22:00" },
+];
+
+interface SlotFinderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  studentId?: number | null;
+  service?: string;
+  location?: string;
+  excludeAulaId?: number;
+  onSelect: (slot: SlotSuggestion) => void;
+}
+
+/**
+ * Sugere horários livres para o aluno entre todos os professores ativos, considerando expediente,
+ * ausências, aulas já marcadas, especialidade e tempo de deslocamento entre locais
+ */
+export function SlotFinderDialog({ open, onOpenChange, studentId, service, location, excludeAulaId, onSelect }: SlotFinderDialogProps) {
+  const { toast } = useToast();
+  const today = format(new Date(), "yyyy-MM-dd");
+
+  const [serviceId, setServiceId] = useState<string>("");
+  const [fromDate, setFromDate] = useState(today);
+  const [toDate, setToDate] = useState(format(addDays(new Date(), 14), "yyyy-MM-dd"));
+  const [weekDays, setWeekDays] = useState<number[]>([1, 2, 3, 4, 5, 6]);
+  const [periods, setPeriods] = useState<string[]>(PERIODS.map(period => period.key));
+  const [searchLocation, setSearchLocation] = useState(location || "");
+
+  const { data: services = [] } = useQuery<Service[]>({
+    queryKey: ["/api/services"],
+    enabled: open,
+  });
+
+  // Pré-seleciona o serviço e o local já escolhidos no formulário de origem
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+    const current = services.find(item => item.name === service);
+    setServiceId(current ? String(current.id) : "");
+    setSearchLocation(location || "");
+  }, [open, service, location, services]);
+
+  const searchMutation = useMutation({
+    mutationFn: () => apiRequest<SlotSearchResult>("POST", "/api/availability/slots", {
+      studentId,
+      // Serviço fora do cadastro: usa o nome para a especialidade e a duração padrão de uma hora
+      ...(serviceId ? { serviceId: Number(serviceId) } : { service: service || undefined, durationMinutes: 60 }),
+      fromDate,
+      toDate,
+      weekDays,
+      timeWindows: PERIODS
+        .filter(period => periods.includes(period.key))
+        .map(period => ({ start: period.start, end: period.end })),
+      location: searchLocation.trim() || undefined,
+      excludeAulaId,
+    }),
+    onError: (error: Error) => {
+      toast({ title: "Erro ao buscar horários", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggle = <T,>(list: T[], value: T) =>
+    list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+
+  const result = searchMutation.data;
+  const canSearch = !!studentId && weekDays.length > 0 && periods.length > 0 && fromDate <= toDate;
+
+  const handleSelect = (slot: SlotSuggestion) => {
+    onSelect(slot);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Sugerir horários</DialogTitle>
+          <DialogDescription>
+            Horários livres de todos os professores, dos mais recomendados para os menos.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!studentId ? (
+          <p className="text-sm text-muted-foreground">Selecione o aluno para buscar horários.</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Serviço</Label>
+                <Select value={serviceId} onValueChange={setServiceId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder={service || "Selecione o serviço"} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {services.map(item => (
+                      <SelectItem key={item.id} value={String(item.id)}>
+                        {item.name} ({item.duration} min)
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Local</Label>
+                <Input
+                  value={searchLocation}
+                  onChange={(e) => setSearchLocation(e.target.value)}
+                  placeholder="Último local do aluno"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>De</Label>
+                <Input type="date" value={fromDate} min={today} onChange={(e) => setFromDate(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label>Até</Label>
+                <Input type="date" value={toDate} min={fromDate} onChange={(e) => setToDate(e.target.value)} />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Dias preferidos</Label>
+              <div className="flex flex-wrap gap-3">
+                {WEEK_DAY_LABELS.map((label, weekDay) => (
+                  <label key={weekDay} className="flex items-center gap-1.5 text-sm">
+                    <Checkbox
+                      checked={weekDays.includes(weekDay)}
+                      onCheckedChange={() => setWeekDays(toggle(weekDays, weekDay))}
+                    />
+                    {label.slice(0, 3)}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Períodos preferidos</Label>
+              <div className="flex flex-wrap gap-3">
+                {PERIODS.map(period => (
+                  <label key={period.key} className="flex items-center gap-1.5 text-sm">
+                    <Checkbox
+                      checked={periods.includes(period.key)}
+                      onCheckedChange={() => setPeriods(toggle(periods, period.key))}
+                    />
+                    {period.label} ({period.start}–{period.end})
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <Button onClick={() => searchMutation.mutate()} disabled={!canSearch || searchMutation.isPending}>
+              <Search className="h-4 w-4 mr-2" />
+              {searchMutation.isPending ? "Buscando..." : "Buscar horários"}
+            </Button>
+
+            {result && (
+              <div className="space-y-2">
+                <p className="text-xs text-muted-foreground">
+                  {result.slots.length} sugestão(ões) entre {result.professorsSearched} professor(es) · aula de {result.durationMinutes} min
+                </p>
+
+                {result.slots.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    Nenhum horário livre encontrado. Amplie o período ou as preferências.
+                  </p>
+                ) : (
+                  result.slots.map(slot => (
+                    <div
+                      key={`${slot.professorId}-${slot.startTime}`}
+                      className="flex items-start justify-between gap-3 rounded-md border p-3"
+                    >
+                      <div className="space-y-1">
+                        <div className="flex items-center gap-2 text-sm font-medium">
+                          <Clock className="h-4 w-4 text-muted-foreground" />
+                          {format(new Date(slot.startTime), "EEEE, dd/MM 'às' HH:mm", { locale: ptBR })}
+                          {" – "}
+                          {format(new Date(slot.endTime), "HH:mm")}
+                        </div>
+                        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                          <User className="h-4 w-4" />
+                          {slot.professorName}
+                          {slot.location && (
+                            <>
+                              <MapPin className="h-4 w-4 ml-2" />
+                              {slot.location}
+                            </>
+                          )}
+                        </div>
+                        {slot.reasons.length > 0 && (
+                          <div className="flex flex-wrap gap-1">
+                            {slot.reasons.map(reason => (
+                              <Badge key={reason} variant="secondary" className="text-xs font-normal">
+                                {reason}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                      <Button size="sm" variant="outline" onClick={() => handleSelect(slot)}>
+                        Usar
+                      </Button>
+                    </div>
+                  ))
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,312 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Check, Clock, PlusCircle, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import { WEEK_DAY_LABELS } from "@shared/availability";
+import type { IProfessor } from "@/types";
+
+interface WaitlistEntry {
+  id: number;
+  leadId: number;
+  professorId: number | null;
+  weekDays: number[] | null;
+  windowStart: string | null;
+  windowEnd: string | null;
+  service: string | null;
+  fromDate: string | null;
+  untilDate: string | null;
+  notes: string | null;
+  createdAt: string;
+}
+
+interface WaitlistOffer {
+  id: number;
+  leadId: number;
+  status: 'pendente' | 'aceita' | 'recusada' | 'expirada' | 'preenchida';
+  expiresAt: string;
+  slot: {
+    professorId: number;
+    startTime: string;
+    endTime: string;
+    service: string;
+    location: string;
+  } | null;
+}
+
+interface LeadOption {
+  id: number;
+  name: string;
+  status: string;
+}
+
+const emptyForm = {
+  leadId: "",
+  professorId: "any",
+  weekDays: [] as number[],
+  windowStart: "",
+  windowEnd: "",
+  service: "",
+  fromDate: "",
+  untilDate: "",
+};
+
+const formatDateTime = (value: string) => format(new Date(value), "dd/MM/yyyy HH:mm");
+
+/**
+ * Lista de espera: alunos aguardando horário e as ofertas de horários cancelados enviadas por WhatsApp
+ */
+export default function WaitlistPanel() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const isAdmin = user?.role === "admin";
+  const [form, setForm] = useState(emptyForm);
+
+  const { data: entries = [] } = useQuery<WaitlistEntry[]>({ queryKey: ["/api/waitlist"] });
+  const { data: offers = [] } = useQuery<WaitlistOffer[]>({ queryKey: ["/api/waitlist/offers"] });
+  const { data: leads = [] } = useQuery<LeadOption[]>({ queryKey: ["/api/leads"] });
+  const { data: professors = [] } = useQuery<IProfessor[]>({ queryKey: ["/api/users/professors"] });
+
+  const leadName = (id: number) => leads.find(lead => lead.id === id)?.name || `Aluno #${id}`;
+  const professorName = (id: number) => {
+    const professor = professors.find(item => item.id === id);
+    return professor?.name || professor?.username || `Professor #${id}`;
+  };
+
+  const describePreferences = (entry: WaitlistEntry) => {
+    const parts = [entry.professorId ? professorName(entry.professorId) : "Qualquer professor"];
+    if (entry.weekDays && entry.weekDays.length > 0) {
+      parts.push(entry.weekDays.map(day => WEEK_DAY_LABELS[day].slice(0, 3)).join(", "));
+    }
+    if (entry.windowStart && entry.windowEnd) parts.push(`${entry.windowStart}–${entry.windowEnd}`);
+    if (entry.service) parts.push(entry.service);
+    if (entry.fromDate || entry.untilDate) {
+      parts.push(`${entry.fromDate ? format(new Date(`${entry.fromDate}T00:00`), "dd/MM") : "…"} a ${entry.untilDate ? format(new Date(`${entry.untilDate}T00:00`), "dd/MM") : "…"}`);
+    }
+    return parts.join(" · ");
+  };
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/waitlist"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/waitlist/offers"] });
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/waitlist", {
+      leadId: Number(form.leadId),
+      professorId: form.professorId === "any" ? null : Number(form.professorId),
+      weekDays: form.weekDays,
+      windowStart: form.windowStart || null,
+      windowEnd: form.windowEnd || null,
+      service: form.service.trim() || null,
+      fromDate: form.fromDate || null,
+      untilDate: form.untilDate || null,
+    }),
+    onSuccess: () => {
+      refresh();
+      setForm(emptyForm);
+      toast({ title: "Aluno adicionado à lista de espera" });
+    },
+    onError: onError("Erro ao adicionar à lista de espera"),
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/waitlist/${id}`),
+    onSuccess: refresh,
+    onError: onError("Erro ao remover da lista de espera"),
+  });
+
+  const offerMutation = useMutation({
+    mutationFn: ({ id, action }: { id: number; action: "confirm" | "decline" }) =>
+      apiRequest("POST", `/api/waitlist/offers/${id}/${action}`),
+    onSuccess: (_result, { action }) => {
+      refresh();
+      queryClient.invalidateQueries({ queryKey: ["/api/new-scheduling/classes"] });
+      toast({ title: action === "confirm" ? "Aula agendada" : "Oferta recusada" });
+    },
+    onError: onError("Erro ao responder à oferta"),
+  });
+
+  const toggleWeekDay = (day: number, checked: boolean) => {
+    setForm(current => ({
+      ...current,
+      weekDays: checked ? [...current.weekDays, day].sort() : current.weekDays.filter(item => item !== day),
+    }));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3 rounded-md border p-4">
+        <h4 className="text-sm font-medium">Adicionar à lista de espera</h4>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <div className="space-y-1">
+            <Label>Aluno</Label>
+            <Select value={form.leadId} onValueChange={(value) => setForm({ ...form, leadId: value })}>
+              <SelectTrigger>
+                <SelectValue placeholder="Selecione" />
+              </SelectTrigger>
+              <SelectContent>
+                {leads.filter(lead => lead.status === "Aluno").map(lead => (
+                  <SelectItem key={lead.id} value={String(lead.id)}>{lead.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Professor</Label>
+            <Select value={form.professorId} onValueChange={(value) => setForm({ ...form, professorId: value })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Qualquer professor</SelectItem>
+                {professors.map(professor => (
+                  <SelectItem key={professor.id} value={String(professor.id)}>
+                    {professor.name || professor.username}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Serviço</Label>
+            <Input value={form.service} onChange={(e) => setForm({ ...form, service: e.target.value })} placeholder="Qualquer serviço" />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-3">
+          {WEEK_DAY_LABELS.map((label, day) => (
+            <div key={day} className="flex items-center space-x-1">
+              <Checkbox
+                id={`waitlist-day-${day}`}
+                checked={form.weekDays.includes(day)}
+                onCheckedChange={(checked) => toggleWeekDay(day, checked === true)}
+              />
+              <Label htmlFor={`waitlist-day-${day}`} className="text-sm">{label.slice(0, 3)}</Label>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <div className="space-y-1">
+            <Label>Das</Label>
+            <Input type="time" value={form.windowStart} onChange={(e) => setForm({ ...form, windowStart: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <Label>Até</Label>
+            <Input type="time" value={form.windowEnd} onChange={(e) => setForm({ ...form, windowEnd: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <Label>A partir de</Label>
+            <Input type="date" value={form.fromDate} onChange={(e) => setForm({ ...form, fromDate: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <Label>Até o dia</Label>
+            <Input type="date" value={form.untilDate} onChange={(e) => setForm({ ...form, untilDate: e.target.value })} />
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <Button size="sm" disabled={!form.leadId || createMutation.isPending} onClick={() => createMutation.mutate()}>
+            <PlusCircle className="h-4 w-4 mr-2" />
+            Adicionar
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium">Ofertas aguardando resposta</h4>
+        {offers.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nenhuma oferta em aberto.</p>
+        ) : (
+          offers.map(offer => (
+            <div key={offer.id} className="flex items-center justify-between rounded-md border p-3 text-sm">
+              <div>
+                <p className="font-medium">{leadName(offer.leadId)}</p>
+                {offer.slot && (
+                  <p className="text-muted-foreground">
+                    {offer.slot.service} com {professorName(offer.slot.professorId)} — {formatDateTime(offer.slot.startTime)}, {offer.slot.location}
+                  </p>
+                )}
+                <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                  <Clock className="h-3 w-3" />
+                  Vale até {formatDateTime(offer.expiresAt)}
+                </p>
+              </div>
+              {isAdmin && (
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={offerMutation.isPending}
+                    onClick={() => offerMutation.mutate({ id: offer.id, action: "confirm" })}
+                  >
+                    <Check className="h-4 w-4 mr-1" />
+                    Confirmar
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={offerMutation.isPending}
+                    onClick={() => offerMutation.mutate({ id: offer.id, action: "decline" })}
+                  >
+                    <X className="h-4 w-4 mr-1" />
+                    Recusar
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium">Alunos na fila ({entries.length})</h4>
+        {entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nenhum aluno na lista de espera.</p>
+        ) : (
+          entries.map((entry, index) => (
+            <div key={entry.id} className="flex items-center justify-between rounded-md border p-3 text-sm">
+              <div>
+                <p className="font-medium">
+                  <Badge variant="outline" className="mr-2">{index + 1}º</Badge>
+                  {leadName(entry.leadId)}
+                </p>
+                <p className="text-muted-foreground">{describePreferences(entry)}</p>
+                <p className="text-xs text-muted-foreground">Na fila desde {formatDateTime(entry.createdAt)}</p>
+              </div>
+              <Button
+                size="icon"
+                variant="ghost"
+                title="Retirar da lista de espera"
+                disabled={removeMutation.isPending}
+                onClick={() => removeMutation.mutate(entry.id)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -9,6 +9,8 @@ import { X, Paperclip, Calendar, MessageSquare, Plus, Edit, Check, Trash2 } from
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Separator } from "@/components/ui/separator";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import ChangeHistoryTimeline from "@/components/history/ChangeHistoryTimeline";
 import { useTaskContext } from "@/context/TaskContext";
 import TaskDialog from "./TaskDialog";
 import { useAuth } from "@/hooks/use-auth";
@@ -20,6 +22,28 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { useToast } from "@/components/ui/use-toast";
 
+// Rótulos usados no histórico de alterações da tarefa
+const taskFieldLabels: Record<string, string> = {
+  title: "Título",
+  description: "Descrição",
+  assignedById: "Atribuído por",
+  assignedToId: "Atribuído a",
+  dueDate: "Data",
+  priority: "Nível",
+  status: "Status",
+  relatedLeadId: "Lead relacionado",
+};
+
+const taskValueLabels: Record<string, string> = {
+  low: "Baixo",
+  medium: "Médio",
+  high: "Alto",
+  pending: "Pendente",
+  in_progress: "Em andamento",
+  completed: "Concluída",
+  cancelled: "Cancelada",
+};
+
 interface TaskDetailDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -277,226 +301,241 @@ export default function TaskDetailDialog({ open, onOpenChange, taskId }: TaskDet
           <p id="task-details-description" className="sr-only">Este diálogo mostra informações detalhadas sobre a tarefa selecionada.</p>
         </DialogHeader>
 
-        <div className="p-6 space-y-6">
-          {/* Seção de atribuição e meta-info */}
-          <div className="flex flex-wrap gap-4 items-center">
-            <div className="flex items-center gap-2">
-              <Label className="text-sm text-gray-500">Atribuído:</Label>
-              <div className="flex items-center">
-                <Avatar className="h-7 w-7 border-2 border-white dark:border-gray-900">
-                  <AvatarFallback
-                    style={{
-                      background: stringToColor(task.assignedToName || 'User'),
-                      color: 'white'
-                    }}
-                  >
-                    {task.assignedToName?.substring(0, 2).toUpperCase() || 'UN'}
-                  </AvatarFallback>
-                </Avatar>
-                <span className="ml-2 text-sm font-medium">{task.assignedToName || "Não atribuído"}</span>
-                <DropdownMenu>
-                  <DropdownMenuTrigger asChild>
-                    <Button variant="ghost" size="sm" className="ml-1 h-7 w-7 p-0">
-                      <Plus className="h-3.5 w-3.5" />
-                    </Button>
-                  </DropdownMenuTrigger>
-                  <DropdownMenuContent align="end" className="w-56">
-                    {users.map(user => (
-                      <DropdownMenuItem 
-                        key={user.id}
-                        onClick={() => handleAssignUser(user.id)}
-                        disabled={assigningUser}
-                        className="cursor-pointer"
-                      >
-                        <div className="flex items-center gap-2 w-full">
-                          <Avatar className="h-6 w-6">
-                            <AvatarFallback 
-                              style={{
-                                background: stringToColor(user.username),
-                                color: 'white',
-                                fontSize: '12px'
-                              }}
-                            >
-                              {user.username.substring(0, 2).toUpperCase()}
-                            </AvatarFallback>
-                          </Avatar>
-                          <span className="flex-1 truncate">{user.username}</span>
-                          {task.assignedToId === user.id && (
-                            <Check className="h-4 w-4 text-green-500" />
-                          )}
-                        </div>
-                      </DropdownMenuItem>
-                    ))}
-                  </DropdownMenuContent>
-                </DropdownMenu>
+        <Tabs defaultValue="details" className="p-6">
+          <TabsList className="mb-4">
+            <TabsTrigger value="details">Detalhes</TabsTrigger>
+            <TabsTrigger value="history">Histórico</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="history">
+            <ChangeHistoryTimeline
+              url={`/api/tasks/${task.id}/history`}
+              fieldLabels={taskFieldLabels}
+              valueLabels={taskValueLabels}
+            />
+          </TabsContent>
+
+          <TabsContent value="details" className="space-y-6">
+            {/* Seção de atribuição e meta-info */}
+            <div className="flex flex-wrap gap-4 items-center">
+              <div className="flex items-center gap-2">
+                <Label className="text-sm text-gray-500">Atribuído:</Label>
+                <div className="flex items-center">
+                  <Avatar className="h-7 w-7 border-2 border-white dark:border-gray-900">
+                    <AvatarFallback
+                      style={{
+                        background: stringToColor(task.assignedToName || 'User'),
+                        color: 'white'
+                      }}
+                    >
+                      {task.assignedToName?.substring(0, 2).toUpperCase() || 'UN'}
+                    </AvatarFallback>
+                  </Avatar>
+                  <span className="ml-2 text-sm font-medium">{task.assignedToName || "Não atribuído"}</span>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="sm" className="ml-1 h-7 w-7 p-0">
+                        <Plus className="h-3.5 w-3.5" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end" className="w-56">
+                      {users.map(user => (
+                        <DropdownMenuItem 
+                          key={user.id}
+                          onClick={() => handleAssignUser(user.id)}
+                          disabled={assigningUser}
+                          className="cursor-pointer"
+                        >
+                          <div className="flex items-center gap-2 w-full">
+                            <Avatar className="h-6 w-6">
+                              <AvatarFallback 
+                                style={{
+                                  background: stringToColor(user.username),
+                                  color: 'white',
+                                  fontSize: '12px'
+                                }}
+                              >
+                                {user.username.substring(0, 2).toUpperCase()}
+                              </AvatarFallback>
+                            </Avatar>
+                            <span className="flex-1 truncate">{user.username}</span>
+                            {task.assignedToId === user.id && (
+                              <Check className="h-4 w-4 text-green-500" />
+                            )}
+                          </div>
+                        </DropdownMenuItem>
+                      ))}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </div>
               </div>
-            </div>
 
-            <div className="flex items-center gap-2">
-              <Label className="text-sm text-gray-500">Nível:</Label>
-              <Badge 
-                className={`capitalize ${
-                  task.priority === 'high' 
-                    ? 'bg-red-100 text-red-800 hover:bg-red-100' 
-                    : task.priority === 'medium'
-                    ? 'bg-amber-100 text-amber-800 hover:bg-amber-100'
-                    : 'bg-green-100 text-green-800 hover:bg-green-100'
-                }`}
-              >
-                {task.priority === 'high' 
-                  ? 'Alto' 
-                  : task.priority === 'medium' 
-                  ? 'Médio' 
-                  : 'Baixo'}
-              </Badge>
-            </div>
+              <div className="flex items-center gap-2">
+                <Label className="text-sm text-gray-500">Nível:</Label>
+                <Badge 
+                  className={`capitalize ${
+                    task.priority === 'high' 
+                      ? 'bg-red-100 text-red-800 hover:bg-red-100' 
+                      : task.priority === 'medium'
+                      ? 'bg-amber-100 text-amber-800 hover:bg-amber-100'
+                      : 'bg-green-100 text-green-800 hover:bg-green-100'
+                  }`}
+                >
+                  {task.priority === 'high' 
+                    ? 'Alto' 
+                    : task.priority === 'medium' 
+                    ? 'Médio' 
+                    : 'Baixo'}
+                </Badge>
+              </div>
 
-            <div className="flex items-center gap-2">
-              <Label className="text-sm text-gray-500">Data:</Label>
-              <div className="flex items-center gap-1">
-                <Calendar className="h-4 w-4 text-gray-400" />
-                <span className="text-sm">
-                  {task.dueDate && format(new Date(task.dueDate), "dd 'de' MMM, yyyy", { locale: ptBR })}
-                </span>
+              <div className="flex items-center gap-2">
+                <Label className="text-sm text-gray-500">Data:</Label>
+                <div className="flex items-center gap-1">
+                  <Calendar className="h-4 w-4 text-gray-400" />
+                  <span className="text-sm">
+                    {task.dueDate && format(new Date(task.dueDate), "dd 'de' MMM, yyyy", { locale: ptBR })}
+                  </span>
+                </div>
               </div>
             </div>
-          </div>
-
-          {/* Descrição */}
-          <div>
-            <Label className="text-sm font-medium">Descrição:</Label>
-            <p className="mt-2 text-sm text-gray-700 dark:text-gray-300 whitespace-pre-line">
-              {task.description || "Sem descrição."}
-            </p>
-          </div>
 
-          {/* Anexos */}
-          <div>
-            <div className="flex items-center justify-between mb-2">
-              <Label className="text-sm font-medium flex items-center">
-                <Paperclip className="h-4 w-4 mr-2" />
-                Anexos:
-              </Label>
-              <Button
-                variant="ghost"
-                size="sm"
-                className="h-8 text-blue-600 hover:text-blue-800 hover:bg-blue-50"
-                onClick={handleAddAttachment}
-              >
-                + Adicionar um Anexo
-              </Button>
+            {/* Descrição */}
+            <div>
+              <Label className="text-sm font-medium">Descrição:</Label>
+              <p className="mt-2 text-sm text-gray-700 dark:text-gray-300 whitespace-pre-line">
+                {task.description || "Sem descrição."}
+              </p>
             </div>
 
-            {attachments.length > 0 ? (
-              <div className="space-y-2">
-                {attachments.map((file, index) => (
-                  <div key={index} className="flex items-center p-2 border rounded-md bg-gray-50 dark:bg-gray-800">
-                    <div className="bg-gray-200 dark:bg-gray-700 rounded p-1 mr-3">
-                      <Paperclip className="h-4 w-4" />
-                    </div>
-                    <div className="flex-1">
-                      <p className="text-sm font-medium">{file.name}</p>
-                      <p className="text-xs text-gray-500">{Math.round(file.size / 1024)} KB</p>
-                    </div>
-                  </div>
-                ))}
-              </div>
-            ) : (
-              <div className="text-sm text-gray-500 italic">
-                Nenhum anexo adicionado.
+            {/* Anexos */}
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <Label className="text-sm font-medium flex items-center">
+                  <Paperclip className="h-4 w-4 mr-2" />
+                  Anexos:
+                </Label>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 text-blue-600 hover:text-blue-800 hover:bg-blue-50"
+                  onClick={handleAddAttachment}
+                >
+                  + Adicionar um Anexo
+                </Button>
               </div>
-            )}
-          </div>
 
-          <Separator />
-
-          {/* Comentários */}
-          <div>
-            <Label className="text-sm font-medium flex items-center">
-              <MessageSquare className="h-4 w-4 mr-2" />
-              Comentários:
-            </Label>
-
-            <div className="mt-4 space-y-4">
-              {commentsList.length > 0 ? (
-                commentsList.map((comment, index) => (
-                  <div key={index} className="flex gap-3">
-                    <Avatar className="h-8 w-8">
-                      <AvatarFallback
-                        style={{
-                          background: stringToColor(comment.userName || 'User'),
-                          color: 'white'
-                        }}
-                      >
-                        {comment.userName?.substring(0, 2).toUpperCase() || 'UN'}
-                      </AvatarFallback>
-                    </Avatar>
-                    <div className="flex-1">
-                      <div className="flex items-center justify-between">
-                        <div className="flex items-center gap-2">
-                          <p className="text-sm font-medium">{comment.userName}</p>
-                          <span className="text-xs text-gray-500">
-                            {format(new Date(comment.createdAt), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}
-                          </span>
-                        </div>
-                        {user && (user.id === comment.userId || user.role === 'admin') && (
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            className="h-6 w-6 text-gray-400 hover:text-red-500"
-                            onClick={() => handleDeleteComment(comment.id)}
-                            disabled={deletingComment === comment.id}
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
-                        )}
+              {attachments.length > 0 ? (
+                <div className="space-y-2">
+                  {attachments.map((file, index) => (
+                    <div key={index} className="flex items-center p-2 border rounded-md bg-gray-50 dark:bg-gray-800">
+                      <div className="bg-gray-200 dark:bg-gray-700 rounded p-1 mr-3">
+                        <Paperclip className="h-4 w-4" />
+                      </div>
+                      <div className="flex-1">
+                        <p className="text-sm font-medium">{file.name}</p>
+                        <p className="text-xs text-gray-500">{Math.round(file.size / 1024)} KB</p>
                       </div>
-                      <p className="text-sm mt-1">{comment.content}</p>
                     </div>
-                  </div>
-                ))
+                  ))}
+                </div>
               ) : (
-                <p className="text-sm text-gray-500">Nenhum comentário ainda.</p>
+                <div className="text-sm text-gray-500 italic">
+                  Nenhum anexo adicionado.
+                </div>
               )}
             </div>
 
-            {/* Formulário de novo comentário */}
-            <div className="mt-4 flex items-center gap-3">
-              <Avatar className="h-8 w-8">
-                <AvatarFallback
-                  style={{
-                    background: stringToColor(user?.username || 'User'),
-                    color: 'white'
-                  }}
-                >
-                  {user?.username ? user.username.substring(0, 2).toUpperCase() : 'U'}
-                </AvatarFallback>
-              </Avatar>
-              <div className="flex-1 flex gap-2">
-                <Input
-                  className="flex-1"
-                  placeholder="O que você quer dizer..."
-                  value={comment}
-                  onChange={(e) => setComment(e.target.value)}
-                  onKeyDown={(e) => {
-                    if (e.key === 'Enter' && !e.shiftKey) {
-                      e.preventDefault();
-                      handleAddComment();
-                    }
-                  }}
-                />
-                <Button 
-                  variant="ghost" 
-                  size="icon"
-                  className="text-blue-600 hover:text-blue-800 hover:bg-blue-50"
-                  onClick={handleAddComment}
-                >
-                  <MessageSquare className="h-4 w-4" />
-                </Button>
+            <Separator />
+
+            {/* Comentários */}
+            <div>
+              <Label className="text-sm font-medium flex items-center">
+                <MessageSquare className="h-4 w-4 mr-2" />
+                Comentários:
+              </Label>
+
+              <div className="mt-4 space-y-4">
+                {commentsList.length > 0 ? (
+                  commentsList.map((comment, index) => (
+                    <div key={index} className="flex gap-3">
+                      <Avatar className="h-8 w-8">
+                        <AvatarFallback
+                          style={{
+                            background: stringToColor(comment.userName || 'User'),
+                            color: 'white'
+                          }}
+                        >
+                          {comment.userName?.substring(0, 2).toUpperCase() || 'UN'}
+                        </AvatarFallback>
+                      </Avatar>
+                      <div className="flex-1">
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center gap-2">
+                            <p className="text-sm font-medium">{comment.userName}</p>
+                            <span className="text-xs text-gray-500">
+                              {format(new Date(comment.createdAt), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}
+                            </span>
+                          </div>
+                          {user && (user.id === comment.userId || user.role === 'admin') && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-6 w-6 text-gray-400 hover:text-red-500"
+                              onClick={() => handleDeleteComment(comment.id)}
+                              disabled={deletingComment === comment.id}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                        <p className="text-sm mt-1">{comment.content}</p>
+                      </div>
+                    </div>
+                  ))
+                ) : (
+                  <p className="text-sm text-gray-500">Nenhum comentário ainda.</p>
+                )}
+              </div>
+
+              {/* Formulário de novo comentário */}
+              <div className="mt-4 flex items-center gap-3">
+                <Avatar className="h-8 w-8">
+                  <AvatarFallback
+                    style={{
+                      background: stringToColor(user?.username || 'User'),
+                      color: 'white'
+                    }}
+                  >
+                    {user?.username ? user.username.substring(0, 2).toUpperCase() : 'U'}
+                  </AvatarFallback>
+                </Avatar>
+                <div className="flex-1 flex gap-2">
+                  <Input
+                    className="flex-1"
+                    placeholder="O que você quer dizer..."
+                    value={comment}
+                    onChange={(e) => setComment(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter' && !e.shiftKey) {
+                        e.preventDefault();
+                        handleAddComment();
+                      }
+                    }}
+                  />
+                  <Button 
+                    variant="ghost" 
+                    size="icon"
+                    className="text-blue-600 hover:text-blue-800 hover:bg-blue-50"
+                    onClick={handleAddComment}
+                  >
+                    <MessageSquare className="h-4 w-4" />
+                  </Button>
+                </div>
               </div>
             </div>
-          </div>
-        </div>
+          </TabsContent>
+        </Tabs>
       </DialogContent>
 
       {/* Dialog para editar a tarefa */}
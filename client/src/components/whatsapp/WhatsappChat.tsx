@@ -23,6 +23,7 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import WhatsappTemplateSelector from './WhatsappTemplateSelector';
+import WhatsappMessageContent from './WhatsappMessageContent';
 
 interface WhatsappChatProps {
   lead: Lead;
@@ -301,23 +302,7 @@ const WhatsappChat = ({ lead, onClose }: WhatsappChatProps) => {
               <div 
                 className={`max-w-xs md:max-w-md rounded-lg p-3 ${msg.direction === 'outgoing' ? 'bg-primary text-primary-foreground rounded-br-none' : 'bg-gray-100 dark:bg-muted text-gray-900 dark:text-muted-foreground rounded-bl-none'}`}
               >
-                {msg.mediaUrl && msg.mediaType === 'image' ? (
-                  <div className="space-y-2">
-                    <img 
-                      src={msg.mediaUrl} 
-                      alt="Imagem" 
-                      className="max-w-full rounded-md"
-                      onError={(e) => {
-                        e.currentTarget.src = 'https://via.placeholder.com/300x200?text=Erro+ao+carregar+imagem';
-                      }} 
-                    />
-                    {msg.content && msg.content !== '[Imagem enviada]' && (
-                      <p className="whitespace-pre-wrap break-words text-sm">{msg.content}</p>
-                    )}
-                  </div>
-                ) : (
-                  <p className="whitespace-pre-wrap break-words text-sm">{msg.content}</p>
-                )}
+                <WhatsappMessageContent content={msg.content} mediaUrl={msg.mediaUrl} mediaType={msg.mediaType} />
                 <div className="text-xs opacity-80 text-right mt-1 flex justify-end items-center">
                   {formatTime(msg.timestamp)}
                   {msg.direction === 'outgoing' && (
@@ -13,11 +13,29 @@ import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+type WhatsappProviderName = 'evolution' | 'meta' | 'mock';
+
+const PROVIDER_LABELS: Record<WhatsappProviderName, string> = {
+  evolution: 'Evolution API (WhatsApp Web)',
+  meta: 'API oficial do WhatsApp (Meta Cloud API)',
+  mock: 'Simulado (testes, sem celular)',
+};
 
 export default function WhatsappConfigForm() {
+  const [provider, setProvider] = useState<WhatsappProviderName>('evolution');
   const [apiUrl, setApiUrl] = useState('');
   const [apiToken, setApiToken] = useState('');
   const [apiInstance, setApiInstance] = useState('');
+  const [metaPhoneNumberId, setMetaPhoneNumberId] = useState('');
+  const [metaAccessToken, setMetaAccessToken] = useState('');
   const [activeTab, setActiveTab] = useState('general');
   const [showToken, setShowToken] = useState(false);
   const [qrCodeVisible, setQrCodeVisible] = useState(false);
@@ -25,21 +43,29 @@ export default function WhatsappConfigForm() {
   const queryClient = useQueryClient();
 
   // Consulta para obter a configuração atual
-  const { data: configData, isLoading: isLoadingConfig } = useQuery({
+  const { data: configData, isLoading: isLoadingConfig, isError: isConfigError } = useQuery<any>({
     queryKey: ['/api/whatsapp/config'],
-    onSuccess: (data) => {
-      setApiUrl(data.apiUrl || '');
-      setApiInstance(data.apiInstance || 'default');
-      // Não definimos o token aqui pois o servidor não retorna o token completo por segurança
-    },
-    onError: (error: any) => {
+  });
+
+  useEffect(() => {
+    if (configData) {
+      setProvider(configData.provider || 'evolution');
+      setApiUrl(configData.apiUrl || '');
+      setApiInstance(configData.apiInstance || 'default');
+      setMetaPhoneNumberId(configData.metaPhoneNumberId || '');
+      // Não definimos os tokens aqui pois o servidor não os retorna por segurança
+    }
+  }, [configData]);
+
+  useEffect(() => {
+    if (isConfigError) {
       toast({
         title: 'Erro ao carregar configurações',
         description: 'Não foi possível carregar as configurações do WhatsApp.',
         variant: 'destructive',
       });
-    },
-  });
+    }
+  }, [isConfigError]);
 
   // Consulta para verificar o status da conexão
   const { data: statusData, isLoading: isLoadingStatus, refetch: refetchStatus } = useQuery({
@@ -51,9 +77,12 @@ export default function WhatsappConfigForm() {
   const saveConfigMutation = useMutation({
     mutationFn: async () => {
       return apiRequest('POST', '/api/whatsapp/config', {
+        provider,
         apiUrl: apiUrl.trim(),
         apiToken: apiToken.trim() || undefined,
         apiInstance: apiInstance.trim() || 'default',
+        metaPhoneNumberId: metaPhoneNumberId.trim(),
+        metaAccessToken: metaAccessToken.trim() || undefined,
       });
     },
     onSuccess: () => {
@@ -63,14 +92,15 @@ export default function WhatsappConfigForm() {
         title: 'Configurações salvas',
         description: 'As configurações do WhatsApp foram salvas com sucesso.',
       });
-      // Limpar o campo de token por segurança
+      // Limpar os campos de token por segurança
       setApiToken('');
+      setMetaAccessToken('');
       setShowToken(false);
     },
     onError: (error: any) => {
       toast({
         title: 'Erro ao salvar configurações',
-        description: error?.response?.data?.message || 'Não foi possível salvar as configurações do WhatsApp.',
+        description: error?.message || 'Não foi possível salvar as configurações do WhatsApp.',
         variant: 'destructive',
       });
     },
@@ -99,7 +129,7 @@ export default function WhatsappConfigForm() {
 
   // Salvar configurações
   const handleSaveConfig = () => {
-    if (!apiUrl) {
+    if (provider === 'evolution' && !apiUrl) {
       toast({
         title: 'URL da API obrigatória',
         description: 'Por favor, informe a URL da Evolution API.',
@@ -125,67 +155,137 @@ export default function WhatsappConfigForm() {
       <TabsContent value="general" className="mt-4">
         <Card>
           <CardHeader>
-            <CardTitle>Configurações da Evolution API</CardTitle>
+            <CardTitle>Provedor do WhatsApp</CardTitle>
             <CardDescription>
-              Configure a integração com a Evolution API para enviar e receber mensagens via WhatsApp.
+              Escolha como o CRM envia e recebe mensagens via WhatsApp e informe as credenciais do provedor.
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
             <div className="space-y-2">
-              <Label htmlFor="api-url">URL da API</Label>
-              <Input
-                id="api-url"
-                value={apiUrl}
-                onChange={(e) => setApiUrl(e.target.value)}
-                placeholder="https://evolution-api.exemplo.com/api/v1"
+              <Label>Provedor</Label>
+              <Select
+                value={provider}
+                onValueChange={(value) => setProvider(value as WhatsappProviderName)}
                 disabled={isLoadingConfig}
-              />
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(PROVIDER_LABELS) as WhatsappProviderName[]).map(name => (
+                    <SelectItem key={name} value={name}>{PROVIDER_LABELS[name]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
               <p className="text-xs text-muted-foreground">
-                URL completa da Evolution API, incluindo o prefixo e versão (ex: https://evolution-api.exemplo.com/api/v1)
+                O webhook (/api/whatsapp/webhook) passa a aceitar apenas o formato do provedor escolhido, com a
+                assinatura do app (Meta, WHATSAPP_APP_SECRET) ou a apikey da instância (Evolution).
               </p>
             </div>
-            
-            <div className="space-y-2">
-              <Label htmlFor="api-token">Token da API</Label>
-              <div className="flex gap-2">
-                <div className="relative flex-1">
+
+            {provider === 'meta' && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="meta-phone-id">ID do número de telefone</Label>
                   <Input
-                    id="api-token"
-                    type={showToken ? "text" : "password"}
-                    value={apiToken}
-                    onChange={(e) => setApiToken(e.target.value)}
-                    placeholder={configData?.hasToken ? "••••••••••••••••" : "Token de autenticação"}
+                    id="meta-phone-id"
+                    value={metaPhoneNumberId}
+                    onChange={(e) => setMetaPhoneNumberId(e.target.value)}
+                    placeholder="Ex.: 123456789012345"
                     disabled={isLoadingConfig}
                   />
-                  <button 
-                    type="button"
-                    className="absolute right-2 top-1/2 transform -translate-y-1/2 text-gray-500 hover:text-gray-700"
-                    onClick={() => setShowToken(!showToken)}
-                  >
-                    {showToken ? <EyeOff size={18} /> : <Eye size={18} />}
-                  </button>
+                  <p className="text-xs text-muted-foreground">
+                    Encontrado em WhatsApp &gt; Configuração da API, no painel de desenvolvedores da Meta.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="meta-token">Token de acesso</Label>
+                  <Input
+                    id="meta-token"
+                    type="password"
+                    value={metaAccessToken}
+                    onChange={(e) => setMetaAccessToken(e.target.value)}
+                    placeholder={configData?.hasMetaToken ? "••••••••••••••••" : "Token permanente do usuário do sistema"}
+                    disabled={isLoadingConfig}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    {configData?.hasMetaToken
+                      ? "Token já configurado. Preencha apenas se desejar alterar."
+                      : "Token de acesso da Cloud API (obrigatório)"}
+                  </p>
+                </div>
+              </>
+            )}
+
+            {provider === 'mock' && (
+              <Alert>
+                <AlertTitle>Provedor simulado</AlertTitle>
+                <AlertDescription>
+                  Nenhuma mensagem sai do CRM: os envios ficam numa caixa de saída em memória e é possível
+                  simular mensagens recebidas logo abaixo. Use apenas em desenvolvimento e testes.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {provider === 'evolution' && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="api-url">URL da API</Label>
+                  <Input
+                    id="api-url"
+                    value={apiUrl}
+                    onChange={(e) => setApiUrl(e.target.value)}
+                    placeholder="https://evolution-api.exemplo.com/api/v1"
+                    disabled={isLoadingConfig}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    URL completa da Evolution API, incluindo o prefixo e versão (ex: https://evolution-api.exemplo.com/api/v1)
+                  </p>
                 </div>
-              </div>
-              <p className="text-xs text-muted-foreground">
-                {configData?.hasToken
-                  ? "Token já configurado. Preencha apenas se desejar alterar."
-                  : "Token de autenticação para a Evolution API (obrigatório)"}
-              </p>
-            </div>
             
-            <div className="space-y-2">
-              <Label htmlFor="api-instance">Nome da Instância</Label>
-              <Input
-                id="api-instance"
-                value={apiInstance}
-                onChange={(e) => setApiInstance(e.target.value)}
-                placeholder="default"
-                disabled={isLoadingConfig}
-              />
-              <p className="text-xs text-muted-foreground">
-                Nome da instância na Evolution API. Use "default" se não tiver certeza.
-              </p>
-            </div>
+                <div className="space-y-2">
+                  <Label htmlFor="api-token">Token da API</Label>
+                  <div className="flex gap-2">
+                    <div className="relative flex-1">
+                      <Input
+                        id="api-token"
+                        type={showToken ? "text" : "password"}
+                        value={apiToken}
+                        onChange={(e) => setApiToken(e.target.value)}
+                        placeholder={configData?.hasToken ? "••••••••••••••••" : "Token de autenticação"}
+                        disabled={isLoadingConfig}
+                      />
+                      <button 
+                        type="button"
+                        className="absolute right-2 top-1/2 transform -translate-y-1/2 text-gray-500 hover:text-gray-700"
+                        onClick={() => setShowToken(!showToken)}
+                      >
+                        {showToken ? <EyeOff size={18} /> : <Eye size={18} />}
+                      </button>
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {configData?.hasToken
+                      ? "Token já configurado. Preencha apenas se desejar alterar."
+                      : "Token de autenticação para a Evolution API (obrigatório)"}
+                  </p>
+                </div>
+            
+                <div className="space-y-2">
+                  <Label htmlFor="api-instance">Nome da Instância</Label>
+                  <Input
+                    id="api-instance"
+                    value={apiInstance}
+                    onChange={(e) => setApiInstance(e.target.value)}
+                    placeholder="default"
+                    disabled={isLoadingConfig}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Nome da instância na Evolution API. Use "default" se não tiver certeza.
+                  </p>
+                </div>
+              </>
+            )}
           </CardContent>
           <CardFooter className="flex justify-between">
             <div className="flex items-center text-sm text-muted-foreground">
@@ -264,7 +364,7 @@ export default function WhatsappConfigForm() {
                 
                 <Separator />
                 
-                {statusData.status !== 'connected' && (
+                {statusData.status !== 'connected' && configData?.provider === 'evolution' && (
                   <div className="space-y-4">
                     <p className="text-sm">
                       Para conectar o WhatsApp, escaneie o QR Code abaixo com seu celular:
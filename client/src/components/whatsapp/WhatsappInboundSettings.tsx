@@ -0,0 +1,119 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+interface InboundSettings {
+  inboundMode: "inbox" | "create_lead";
+  inboundLeadSource: string;
+  inboundLeadTag: string;
+}
+
+/**
+ * Regras para mensagens recebidas de números que não estão cadastrados como lead
+ */
+export default function WhatsappInboundSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<InboundSettings>({
+    inboundMode: "inbox",
+    inboundLeadSource: "Favale",
+    inboundLeadTag: "whatsapp",
+  });
+
+  const { data: settings } = useQuery<InboundSettings>({
+    queryKey: ["/api/whatsapp/config/inbound"],
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setForm(settings);
+    }
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/whatsapp/config/inbound", form),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/whatsapp/config/inbound"] });
+      toast({ title: "Regras salvas", description: "As próximas mensagens recebidas seguirão a nova configuração." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao salvar regras", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Mensagens de números desconhecidos</CardTitle>
+        <CardDescription>
+          Defina o que acontece quando alguém que não está cadastrado envia mensagem (ex.: anúncios do Instagram).
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-1">
+          <Label>Ação</Label>
+          <Select
+            value={form.inboundMode}
+            onValueChange={(value) => setForm({ ...form, inboundMode: value as InboundSettings["inboundMode"] })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="inbox">Enviar para a fila de triagem (vincular manualmente)</SelectItem>
+              <SelectItem value="create_lead">Criar lead automaticamente</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {form.inboundMode === "create_lead" && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label>Origem do lead</Label>
+              <Select
+                value={form.inboundLeadSource}
+                onValueChange={(value) => setForm({ ...form, inboundLeadSource: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="Favale">Favale</SelectItem>
+                  <SelectItem value="Pink">Pink</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="inbound-tag">Tag</Label>
+              <Input
+                id="inbound-tag"
+                value={form.inboundLeadTag}
+                onChange={(e) => setForm({ ...form, inboundLeadTag: e.target.value })}
+              />
+            </div>
+            <p className="text-xs text-muted-foreground sm:col-span-2">
+              Os leads criados recebem a campanha "WhatsApp Inbound" e o nome do perfil do WhatsApp.
+            </p>
+          </div>
+        )}
+      </CardContent>
+      <CardFooter>
+        <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+          Salvar regras
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,88 @@
+import { FileText, MapPin, Download } from 'lucide-react';
+
+interface WhatsappMessageContentProps {
+  content: string;
+  mediaUrl?: string | null;
+  mediaType?: string | null;
+}
+
+// Textos como "[Imagem]" ou "[Imagem enviada]" só substituem a legenda e não são exibidos junto da mídia
+const isPlaceholder = (content: string) => /^\[[^\]]+\]$/.test(content.trim());
+
+/**
+ * Corpo de uma mensagem do WhatsApp: texto, imagem, áudio, vídeo, documento, localização ou contato
+ */
+export default function WhatsappMessageContent({ content, mediaUrl, mediaType }: WhatsappMessageContentProps) {
+  const caption = content && !isPlaceholder(content) ? (
+    <p className="whitespace-pre-wrap break-words text-sm">{content}</p>
+  ) : null;
+
+  if (!mediaUrl) {
+    return <p className="whitespace-pre-wrap break-words text-sm">{content}</p>;
+  }
+
+  switch (mediaType) {
+    case 'image':
+    case 'sticker':
+      return (
+        <div className="space-y-2">
+          <a href={mediaUrl} target="_blank" rel="noopener noreferrer">
+            <img
+              src={mediaUrl}
+              alt={mediaType === 'sticker' ? 'Figurinha' : 'Imagem'}
+              loading="lazy"
+              className={mediaType === 'sticker' ? 'h-32 w-32 object-contain' : 'max-w-full rounded-md'}
+              onError={(e) => {
+                e.currentTarget.src = 'https://via.placeholder.com/300x200?text=Erro+ao+carregar+imagem';
+              }}
+            />
+          </a>
+          {caption}
+        </div>
+      );
+    case 'audio':
+      return (
+        <div className="space-y-2">
+          <audio controls preload="metadata" src={mediaUrl} className="max-w-full" />
+          {caption}
+        </div>
+      );
+    case 'video':
+      return (
+        <div className="space-y-2">
+          <video controls preload="metadata" src={mediaUrl} className="max-w-full rounded-md" />
+          {caption}
+        </div>
+      );
+    case 'location':
+      return (
+        <a
+          href={mediaUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-start gap-2 text-sm underline-offset-2 hover:underline"
+        >
+          <MapPin className="h-4 w-4 mt-0.5 shrink-0" />
+          <span className="whitespace-pre-wrap break-words">
+            {content.replace(/^📍\s*/, '')}
+            <span className="block text-xs opacity-80">Abrir no mapa</span>
+          </span>
+        </a>
+      );
+    default:
+      return (
+        <div className="space-y-2">
+          <a
+            href={mediaUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-2 rounded-md border border-current/20 px-3 py-2 text-sm hover:opacity-80"
+          >
+            <FileText className="h-5 w-5 shrink-0" />
+            <span className="flex-1 truncate">{isPlaceholder(content) ? 'Documento' : content}</span>
+            <Download className="h-4 w-4 shrink-0" />
+          </a>
+        </div>
+      );
+  }
+}
@@ -0,0 +1,127 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+interface MockOutboundMessage {
+  id: string;
+  phone: string;
+  kind: string;
+  content: string;
+  mediaUrl: string | null;
+  sentAt: string;
+}
+
+interface SimulationResult {
+  received: number;
+  queued: number;
+  duplicates: number;
+}
+
+/**
+ * Painel do provedor simulado: envia mensagens "recebidas" e mostra o que o CRM enviou
+ */
+export default function WhatsappMockSimulator() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [phone, setPhone] = useState("");
+  const [contactName, setContactName] = useState("");
+  const [text, setText] = useState("");
+
+  const { data: outbox = [] } = useQuery<MockOutboundMessage[]>({
+    queryKey: ["/api/whatsapp/mock/outbox"],
+    refetchInterval: 5000,
+  });
+
+  const simulateMutation = useMutation({
+    mutationFn: () => apiRequest<SimulationResult>("POST", "/api/whatsapp/mock/inbound", {
+      phone: phone.trim(),
+      contactName: contactName.trim() || undefined,
+      text: text.trim(),
+    }),
+    onSuccess: (result) => {
+      setText("");
+      queryClient.invalidateQueries({ queryKey: ["/api/whatsapp/recent-messages"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/whatsapp/inbox"] });
+      toast({
+        title: "Mensagem simulada",
+        description: result.queued > 0
+          ? "Número sem lead: a mensagem foi para a fila de triagem."
+          : "A mensagem entrou na conversa do lead.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao simular mensagem", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: () => apiRequest("DELETE", "/api/whatsapp/mock/outbox"),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/whatsapp/mock/outbox"] }),
+  });
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Simulador</CardTitle>
+        <CardDescription>
+          Simule mensagens recebidas de qualquer número e acompanhe os envios feitos pelo CRM.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="mock-phone">Telefone do remetente</Label>
+            <Input id="mock-phone" placeholder="11999999999" value={phone} onChange={(e) => setPhone(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="mock-name">Nome do perfil</Label>
+            <Input id="mock-name" placeholder="Opcional" value={contactName} onChange={(e) => setContactName(e.target.value)} />
+          </div>
+          <div className="space-y-1 sm:col-span-2">
+            <Label htmlFor="mock-text">Mensagem</Label>
+            <Textarea id="mock-text" rows={2} value={text} onChange={(e) => setText(e.target.value)} />
+          </div>
+          <div className="sm:col-span-2">
+            <Button
+              onClick={() => simulateMutation.mutate()}
+              disabled={!phone.trim() || !text.trim() || simulateMutation.isPending}
+            >
+              Simular mensagem recebida
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-medium">Caixa de saída ({outbox.length})</h4>
+            <Button size="sm" variant="ghost" onClick={() => clearMutation.mutate()} disabled={outbox.length === 0}>
+              Limpar
+            </Button>
+          </div>
+          {outbox.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nenhuma mensagem enviada ainda.</p>
+          ) : (
+            <ul className="max-h-64 overflow-y-auto divide-y rounded-md border">
+              {outbox.map(message => (
+                <li key={message.id} className="p-2 text-sm">
+                  <div className="flex justify-between text-xs text-muted-foreground">
+                    <span>{message.phone} · {message.kind}</span>
+                    <span>{format(new Date(message.sentAt), "dd/MM HH:mm:ss")}</span>
+                  </div>
+                  <p className="whitespace-pre-wrap break-words">{message.content}</p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
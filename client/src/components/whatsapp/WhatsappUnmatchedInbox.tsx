@@ -0,0 +1,175 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Link2, UserPlus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { Lead } from "@shared/schema";
+import WhatsappMessageContent from "./WhatsappMessageContent";
+
+interface InboxMessage {
+  id: number;
+  content: string;
+  mediaUrl: string | null;
+  mediaType: string | null;
+  receivedAt: string;
+}
+
+interface InboxConversation {
+  phone: string;
+  contactName: string | null;
+  messageCount: number;
+  lastReceivedAt: string;
+  messages: InboxMessage[];
+}
+
+/**
+ * Fila de conversas de números não cadastrados: vincular a um lead, criar lead ou descartar
+ */
+export default function WhatsappUnmatchedInbox() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedPhone, setSelectedPhone] = useState<string | null>(null);
+  const [leadSearch, setLeadSearch] = useState("");
+
+  const { data: conversations = [], isLoading } = useQuery<InboxConversation[]>({
+    queryKey: ["/api/whatsapp/inbox"],
+    refetchInterval: 30000,
+  });
+
+  const { data: leads = [] } = useQuery<Lead[]>({
+    queryKey: ["/api/leads"],
+    enabled: !!selectedPhone,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/whatsapp/inbox"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/whatsapp/recent-messages"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const linkMutation = useMutation({
+    mutationFn: ({ phone, body }: { phone: string; body: Record<string, unknown> }) =>
+      apiRequest("POST", `/api/whatsapp/inbox/${encodeURIComponent(phone)}/link`, body),
+    onSuccess: () => {
+      refresh();
+      setSelectedPhone(null);
+      setLeadSearch("");
+      toast({ title: "Conversa vinculada", description: "As mensagens foram movidas para a conversa do lead." });
+    },
+    onError: onError("Erro ao vincular conversa"),
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: (phone: string) => apiRequest("POST", `/api/whatsapp/inbox/${encodeURIComponent(phone)}/dismiss`),
+    onSuccess: refresh,
+    onError: onError("Erro ao descartar conversa"),
+  });
+
+  const matchingLeads = leadSearch.trim().length < 2 ? [] : leads
+    .filter(lead =>
+      lead.name.toLowerCase().includes(leadSearch.toLowerCase()) ||
+      lead.phone?.includes(leadSearch.replace(/\D/g, "") || leadSearch)
+    )
+    .slice(0, 8);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (conversations.length === 0) {
+    return <p className="text-sm text-muted-foreground p-4">Nenhuma mensagem de número não cadastrado aguardando triagem.</p>;
+  }
+
+  return (
+    <ul className="space-y-3">
+      {conversations.map(conversation => (
+        <li key={conversation.phone} className="rounded-md border p-3 space-y-2">
+          <div className="flex items-start justify-between gap-2">
+            <div>
+              <p className="font-medium text-sm">{conversation.contactName || conversation.phone}</p>
+              <p className="text-xs text-muted-foreground">
+                {conversation.phone} · {format(new Date(conversation.lastReceivedAt), "dd/MM HH:mm")}
+              </p>
+            </div>
+            <Badge variant="secondary">{conversation.messageCount}</Badge>
+          </div>
+
+          <div className="bg-muted/50 rounded p-2 space-y-1 max-h-32 overflow-y-auto">
+            {conversation.messages.map(message => (
+              <div key={message.id} className="flex gap-2">
+                <span className="text-xs text-muted-foreground pt-0.5">{format(new Date(message.receivedAt), "HH:mm")}</span>
+                <WhatsappMessageContent content={message.content} mediaUrl={message.mediaUrl} mediaType={message.mediaType} />
+              </div>
+            ))}
+          </div>
+
+          {selectedPhone === conversation.phone ? (
+            <div className="space-y-2">
+              <Input
+                autoFocus
+                placeholder="Buscar lead por nome ou telefone..."
+                value={leadSearch}
+                onChange={(e) => setLeadSearch(e.target.value)}
+              />
+              {matchingLeads.map(lead => (
+                <button
+                  key={lead.id}
+                  type="button"
+                  className="w-full text-left text-sm rounded px-2 py-1 hover:bg-muted"
+                  disabled={linkMutation.isPending}
+                  onClick={() => linkMutation.mutate({ phone: conversation.phone, body: { leadId: lead.id } })}
+                >
+                  {lead.name} <span className="text-xs text-muted-foreground">{lead.phone}</span>
+                </button>
+              ))}
+              <Button size="sm" variant="ghost" onClick={() => setSelectedPhone(null)}>Cancelar</Button>
+            </div>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              <Button size="sm" variant="outline" className="gap-1" onClick={() => { setSelectedPhone(conversation.phone); setLeadSearch(""); }}>
+                <Link2 className="h-4 w-4" />
+                Vincular a lead
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="gap-1"
+                disabled={linkMutation.isPending}
+                onClick={() => linkMutation.mutate({ phone: conversation.phone, body: { createLead: true } })}
+              >
+                <UserPlus className="h-4 w-4" />
+                Criar lead
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="gap-1"
+                disabled={dismissMutation.isPending}
+                onClick={() => {
+                  if (confirm("Descartar as mensagens deste número?")) {
+                    dismissMutation.mutate(conversation.phone);
+                  }
+                }}
+              >
+                <Trash2 className="h-4 w-4" />
+                Descartar
+              </Button>
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
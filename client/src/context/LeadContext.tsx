@@ -20,6 +20,17 @@ interface LeadContextProps {
 
 const LeadContext = createContext<LeadContextProps | undefined>(undefined);
 
+// Mensagem do servidor quando a exclusão é recusada (apiRequest lança "status: corpo")
+function deleteErrorMessage(error: unknown, fallback: string): string {
+  const match = error instanceof Error ? error.message.match(/^409: ([\s\S]*)$/) : null;
+  if (!match) return fallback;
+  try {
+    return JSON.parse(match[1]).message || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
 export function LeadProvider({ children }: { children: ReactNode }) {
   const [selectedLead, setSelectedLead] = useState<Lead | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
@@ -90,7 +101,7 @@ export function LeadProvider({ children }: { children: ReactNode }) {
     } catch (error) {
       toast({
         title: "Erro",
-        description: "Falha ao excluir lead",
+        description: deleteErrorMessage(error, "Falha ao excluir lead"),
         variant: "destructive",
       });
       console.error("Error deleting lead:", error);
@@ -142,7 +153,7 @@ export function LeadProvider({ children }: { children: ReactNode }) {
     } catch (error) {
       toast({
         title: "Erro",
-        description: "Falha ao excluir leads em lote",
+        description: deleteErrorMessage(error, "Falha ao excluir leads em lote"),
         variant: "destructive",
       });
       console.error("Error deleting leads in batch:", error);
@@ -0,0 +1,21 @@
+import { useCallback } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { checkAvailability, type ProfessorAvailabilityData } from "@shared/availability";
+
+/**
+ * Expediente, ausências e feriados do professor, com a mesma verificação feita pelo servidor,
+ * para os formulários avisarem antes de enviar um horário indisponível
+ */
+export function useProfessorAvailability(professorId?: number | null) {
+  const { data: availability } = useQuery<ProfessorAvailabilityData>({
+    queryKey: [`/api/availability/professors/${professorId}`],
+    enabled: !!professorId,
+  });
+
+  const check = useCallback(
+    (start: Date, end: Date) => availability ? checkAvailability(availability, start, end) : null,
+    [availability]
+  );
+
+  return { availability, checkAvailability: check };
+}
@@ -4,7 +4,7 @@ import { Calendar, momentLocalizer, Event, View } from "react-big-calendar";
 import moment from "moment";
 import "react-big-calendar/lib/css/react-big-calendar.css";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Plus, Filter, RefreshCw, Calendar as CalendarIcon, List } from "lucide-react";
+import { Plus, Filter, RefreshCw, Calendar as CalendarIcon, List, Hourglass } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -20,6 +20,7 @@ import MultiDateAppointmentDialog from "@/components/scheduling/MultiDateAppoint
 import AppointmentDetailsDialog from "@/components/scheduling/AppointmentDetailsDialog";
 import { RecurringAppointmentDialog } from "@/components/scheduling/RecurringAppointmentDialog";
 import AppointmentsManagement from "@/components/scheduling/AppointmentsManagement";
+import WaitlistPanel from "@/components/scheduling/WaitlistPanel";
 import type { IAula, IProfessor } from "@/types";
 
 // Setup moment localizer for react-big-calendar
@@ -142,6 +143,9 @@ export default function CalendarPage() {
       case 'remarcado':
         backgroundColor = '#8b5cf6'; // purple
         break;
+      case 'falta':
+        backgroundColor = '#be123c'; // rose
+        break;
     }
 
     return {
@@ -337,6 +341,7 @@ export default function CalendarPage() {
                   <SelectItem value="concluido">Concluído</SelectItem>
                   <SelectItem value="cancelado">Cancelado</SelectItem>
                   <SelectItem value="remarcado">Remarcado</SelectItem>
+                  <SelectItem value="falta">Falta</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -376,7 +381,7 @@ export default function CalendarPage() {
       <Card>
         <CardContent className="p-6">
           <Tabs defaultValue="calendar" className="w-full">
-            <TabsList className="grid w-full grid-cols-2">
+            <TabsList className="grid w-full grid-cols-3">
               <TabsTrigger value="calendar" className="flex items-center gap-2">
                 <CalendarIcon className="h-4 w-4" />
                 Calendário
@@ -385,6 +390,10 @@ export default function CalendarPage() {
                 <List className="h-4 w-4" />
                 Agendamentos
               </TabsTrigger>
+              <TabsTrigger value="waitlist" className="flex items-center gap-2">
+                <Hourglass className="h-4 w-4" />
+                Lista de espera
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent value="calendar" className="mt-6">
@@ -421,6 +430,10 @@ export default function CalendarPage() {
             <TabsContent value="appointments" className="mt-6">
               <AppointmentsManagement onRefresh={refetch} />
             </TabsContent>
+
+            <TabsContent value="waitlist" className="mt-6">
+              <WaitlistPanel />
+            </TabsContent>
           </Tabs>
         </CardContent>
       </Card>
@@ -26,6 +26,10 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter,
 import { useQuery } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import AuditLogViewer from "@/components/admin/AuditLogViewer";
+import EmailOutboxViewer from "@/components/admin/EmailOutboxViewer";
+import GoogleCalendarConfig from "@/components/oauth/GoogleCalendarConfig";
+import LocationsSettings from "@/components/locations/LocationsSettings";
+import PipelineSettings from "@/components/pipeline/PipelineSettings";
 // Removed Google Calendar integration
 
 const userProfileSchema = z.object({
@@ -239,6 +243,21 @@ export default function ConfigPage() {
               >
                 Usuários
               </TabsTrigger>
+              <TabsTrigger 
+                value="locations" 
+                className="text-sm data-[state=active]:bg-white dark:data-[state=active]:bg-gray-700"
+              >
+                Locais
+              </TabsTrigger>
+
+              {user?.role === 'admin' && (
+                <TabsTrigger 
+                  value="pipeline" 
+                  className="text-sm data-[state=active]:bg-white dark:data-[state=active]:bg-gray-700"
+                >
+                  Funil
+                </TabsTrigger>
+              )}
 
               {user?.role === 'admin' && (
                 <TabsTrigger 
@@ -248,6 +267,15 @@ export default function ConfigPage() {
                   Auditoria
                 </TabsTrigger>
               )}
+
+              {user?.role === 'admin' && (
+                <TabsTrigger 
+                  value="emails" 
+                  className="text-sm data-[state=active]:bg-white dark:data-[state=active]:bg-gray-700"
+                >
+                  E-mails
+                </TabsTrigger>
+              )}
             </TabsList>
             
             <TabsContent value="profile" className="space-y-4">
@@ -330,6 +358,8 @@ export default function ConfigPage() {
                   </Form>
                 </CardContent>
               </Card>
+
+              <GoogleCalendarConfig />
             </TabsContent>
             
             <TabsContent value="notifications" className="space-y-4">
@@ -584,6 +614,10 @@ export default function ConfigPage() {
             </TabsContent>
 
             
+            <TabsContent value="locations" className="space-y-4">
+              <LocationsSettings />
+            </TabsContent>
+
             <TabsContent value="users" className="space-y-4">
               <div className="flex justify-between items-center mb-4">
                 <h3 className="text-lg font-medium text-gray-800 dark:text-white">Gerenciamento de Usuários</h3>
@@ -750,6 +784,12 @@ export default function ConfigPage() {
               </Card>
             </TabsContent>
             
+            {user?.role === 'admin' && (
+              <TabsContent value="pipeline" className="space-y-4">
+                <PipelineSettings />
+              </TabsContent>
+            )}
+
             {user?.role === 'admin' && (
               <TabsContent value="audit" className="space-y-4">
                 <Card className="border-gray-100 dark:border-gray-700 shadow-sm rounded-xl">
@@ -765,6 +805,12 @@ export default function ConfigPage() {
                 </Card>
               </TabsContent>
             )}
+
+            {user?.role === 'admin' && (
+              <TabsContent value="emails" className="space-y-4">
+                <EmailOutboxViewer />
+              </TabsContent>
+            )}
       </Tabs>
     </div>
   );
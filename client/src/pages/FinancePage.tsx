@@ -0,0 +1,551 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from "@tanstack/react-query";
+import { format, subMonths } from "date-fns";
+import { Lock, LockOpen, Trash2, CheckCircle2, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@/utils/formatters";
+import PackageManager from "@/components/billing/PackageManager";
+import type { IProfessor } from "@/types";
+
+interface RevenueBucket {
+  bucket: string;
+  lessons: number;
+  total: number;
+  bySource: Record<string, number>;
+}
+
+interface RevenueResponse {
+  startDate: string;
+  endDate: string;
+  total: number;
+  lessons: number;
+  bySource: Record<string, number>;
+  buckets: RevenueBucket[];
+}
+
+interface PayrollLine {
+  professorId: number;
+  professorName: string;
+  hourlyRate: number | null;
+  lessonsCount: number;
+  minutesTotal: number;
+  hourlyAmount: number;
+  commissionAmount: number;
+  amount: number;
+  missingRate: boolean;
+  payoutId: number | null;
+  status: 'aberto' | 'pendente' | 'pago';
+  paidAt: string | null;
+}
+
+interface PayrollResponse {
+  period: string;
+  closed: boolean;
+  closing: { closedAt: string; notes: string | null } | null;
+  total: number;
+  lines: PayrollLine[];
+}
+
+interface Commission {
+  id: number;
+  professorId: number;
+  service: string;
+  commissionPercent: number;
+}
+
+// Valores do servidor estão em centavos
+const formatCents = (value: number) => formatCurrency(value / 100);
+
+const formatHours = (minutes: number) => `${(minutes / 60).toFixed(1).replace('.', ',')}h`;
+
+const formatPeriod = (period: string) => {
+  const [year, month] = period.split('-');
+  return month ? `${month}/${year}` : period;
+};
+
+const PAYOUT_STATUS: Record<PayrollLine['status'], { label: string; className: string }> = {
+  aberto: { label: "Em aberto", className: "bg-gray-100 text-gray-700" },
+  pendente: { label: "A pagar", className: "bg-amber-100 text-amber-800" },
+  pago: { label: "Pago", className: "bg-green-100 text-green-800" },
+};
+
+export default function FinancePage() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [revenueStart, setRevenueStart] = useState(format(subMonths(new Date(), 5), "yyyy-MM"));
+  const [revenueEnd, setRevenueEnd] = useState(format(new Date(), "yyyy-MM"));
+  const [payrollPeriod, setPayrollPeriod] = useState(format(subMonths(new Date(), 1), "yyyy-MM"));
+  const [commissionForm, setCommissionForm] = useState({ professorId: "", service: "", commissionPercent: "" });
+
+  const revenueUrl = `/api/finance/revenue?startDate=${revenueStart}-01&endDate=${format(
+    new Date(Number(revenueEnd.slice(0, 4)), Number(revenueEnd.slice(5, 7)), 0),
+    "yyyy-MM-dd"
+  )}`;
+
+  const { data: revenue, isLoading: revenueLoading } = useQuery<RevenueResponse>({
+    queryKey: [revenueUrl],
+    enabled: !!revenueStart && !!revenueEnd && revenueStart <= revenueEnd,
+    placeholderData: keepPreviousData,
+  });
+
+  const payrollUrl = `/api/finance/payroll?period=${payrollPeriod}`;
+  const { data: payroll, isLoading: payrollLoading } = useQuery<PayrollResponse>({
+    queryKey: [payrollUrl],
+    enabled: !!payrollPeriod,
+    placeholderData: keepPreviousData,
+  });
+
+  const { data: commissions = [] } = useQuery<Commission[]>({
+    queryKey: ["/api/finance/commissions"],
+  });
+
+  const { data: professors = [] } = useQuery<IProfessor[]>({
+    queryKey: ["/api/users/professors"],
+  });
+
+  const professorName = (id: number) => {
+    const professor = professors.find(p => p.id === id);
+    return professor?.name || professor?.username || `Professor #${id}`;
+  };
+
+  const invalidatePayroll = () => {
+    queryClient.invalidateQueries({ queryKey: [payrollUrl] });
+  };
+
+  const onMutationError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const closePeriodMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/finance/closings", { period: payrollPeriod }),
+    onSuccess: () => {
+      invalidatePayroll();
+      toast({ title: "Período fechado", description: `As aulas de ${formatPeriod(payrollPeriod)} não podem mais ser alteradas.` });
+    },
+    onError: onMutationError("Erro ao fechar período"),
+  });
+
+  const reopenPeriodMutation = useMutation({
+    mutationFn: () => apiRequest("DELETE", `/api/finance/closings/${payrollPeriod}`),
+    onSuccess: () => {
+      invalidatePayroll();
+      toast({ title: "Período reaberto" });
+    },
+    onError: onMutationError("Erro ao reabrir período"),
+  });
+
+  const payoutMutation = useMutation({
+    mutationFn: ({ id, status }: { id: number; status: 'pago' | 'pendente' }) =>
+      apiRequest("PATCH", `/api/finance/payouts/${id}`, { status }),
+    onSuccess: invalidatePayroll,
+    onError: onMutationError("Erro ao atualizar pagamento"),
+  });
+
+  const saveCommissionMutation = useMutation({
+    mutationFn: () => apiRequest("PUT", "/api/finance/commissions", {
+      professorId: Number(commissionForm.professorId),
+      service: commissionForm.service.trim(),
+      commissionPercent: Number(commissionForm.commissionPercent),
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/finance/commissions"] });
+      invalidatePayroll();
+      setCommissionForm({ professorId: commissionForm.professorId, service: "", commissionPercent: "" });
+      toast({ title: "Comissão salva" });
+    },
+    onError: onMutationError("Erro ao salvar comissão"),
+  });
+
+  const deleteCommissionMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/finance/commissions/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/finance/commissions"] });
+      invalidatePayroll();
+    },
+    onError: onMutationError("Erro ao excluir comissão"),
+  });
+
+  const handleClosePeriod = () => {
+    if (confirm(`Fechar ${formatPeriod(payrollPeriod)}? As aulas do mês ficarão bloqueadas para alteração.`)) {
+      closePeriodMutation.mutate();
+    }
+  };
+
+  const handleReopenPeriod = () => {
+    if (confirm(`Reabrir ${formatPeriod(payrollPeriod)}? Os valores serão recalculados a partir das aulas.`)) {
+      reopenPeriodMutation.mutate();
+    }
+  };
+
+  const sources = revenue ? Object.keys(revenue.bySource) : [];
+  const payrollPaid = payroll?.lines.filter(line => line.status === 'pago').reduce((sum, line) => sum + line.amount, 0) ?? 0;
+
+  return (
+    <div className="container mx-auto p-6">
+      <div className="flex flex-col gap-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Financeiro</h1>
+          <p className="text-muted-foreground">
+            Receita das aulas cobradas, valores devidos aos professores e fechamento mensal
+          </p>
+        </div>
+
+        <Tabs defaultValue="revenue">
+          <TabsList>
+            <TabsTrigger value="revenue">Receita</TabsTrigger>
+            <TabsTrigger value="payroll">Professores</TabsTrigger>
+            <TabsTrigger value="commissions">Comissões</TabsTrigger>
+            <TabsTrigger value="packages">Pacotes</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="revenue" className="space-y-4">
+            <Card>
+              <CardContent className="p-6 flex flex-col sm:flex-row gap-4 sm:items-end">
+                <div className="space-y-1">
+                  <Label htmlFor="revenue-start">De</Label>
+                  <Input id="revenue-start" type="month" value={revenueStart} onChange={(e) => setRevenueStart(e.target.value)} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="revenue-end">Até</Label>
+                  <Input id="revenue-end" type="month" value={revenueEnd} onChange={(e) => setRevenueEnd(e.target.value)} />
+                </div>
+              </CardContent>
+            </Card>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium">Receita total</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">{formatCents(revenue?.total ?? 0)}</div>
+                  <p className="text-xs text-muted-foreground">{revenue?.lessons ?? 0} aulas cobradas</p>
+                </CardContent>
+              </Card>
+              {sources.map(source => (
+                <Card key={source}>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm font-medium">{source}</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold">{formatCents(revenue!.bySource[source])}</div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Receita por mês</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {revenueLoading ? (
+                  <div className="flex justify-center p-8">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+                  </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Mês</TableHead>
+                        <TableHead className="text-right">Aulas</TableHead>
+                        {sources.map(source => (
+                          <TableHead key={source} className="text-right">{source}</TableHead>
+                        ))}
+                        <TableHead className="text-right">Total</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {!revenue || revenue.buckets.length === 0 ? (
+                        <TableRow>
+                          <TableCell colSpan={sources.length + 3} className="text-center text-muted-foreground py-8">
+                            Nenhuma aula concluída no período
+                          </TableCell>
+                        </TableRow>
+                      ) : (
+                        revenue.buckets.map(bucket => (
+                          <TableRow key={bucket.bucket}>
+                            <TableCell>{formatPeriod(bucket.bucket)}</TableCell>
+                            <TableCell className="text-right">{bucket.lessons}</TableCell>
+                            {sources.map(source => (
+                              <TableCell key={source} className="text-right">{formatCents(bucket.bySource[source] || 0)}</TableCell>
+                            ))}
+                            <TableCell className="text-right font-medium">{formatCents(bucket.total)}</TableCell>
+                          </TableRow>
+                        ))
+                      )}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="payroll" className="space-y-4">
+            <Card>
+              <CardContent className="p-6 flex flex-col sm:flex-row gap-4 sm:items-end sm:justify-between">
+                <div className="space-y-1">
+                  <Label htmlFor="payroll-period">Mês</Label>
+                  <Input id="payroll-period" type="month" value={payrollPeriod} onChange={(e) => setPayrollPeriod(e.target.value)} />
+                </div>
+                {payroll?.closed ? (
+                  <Button variant="outline" className="gap-2" onClick={handleReopenPeriod} disabled={reopenPeriodMutation.isPending}>
+                    <LockOpen className="h-4 w-4" />
+                    Reabrir período
+                  </Button>
+                ) : (
+                  <Button className="gap-2" onClick={handleClosePeriod} disabled={!payroll || closePeriodMutation.isPending}>
+                    <Lock className="h-4 w-4" />
+                    Fechar período
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium">Total devido</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">{formatCents(payroll?.total ?? 0)}</div>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium">Pago</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">{formatCents(payrollPaid)}</div>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium">A pagar</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">{formatCents((payroll?.total ?? 0) - payrollPaid)}</div>
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Valores por professor</CardTitle>
+                <CardDescription>
+                  {payroll?.closed && payroll.closing
+                    ? `Período fechado em ${format(new Date(payroll.closing.closedAt), "dd/MM/yyyy HH:mm")}; os valores abaixo estão congelados.`
+                    : "Período em aberto: os valores são recalculados a partir das aulas cobradas."}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {payrollLoading ? (
+                  <div className="flex justify-center p-8">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+                  </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Professor</TableHead>
+                        <TableHead className="text-right">Aulas</TableHead>
+                        <TableHead className="text-right">Horas</TableHead>
+                        <TableHead className="text-right">Valor hora</TableHead>
+                        <TableHead className="text-right">Comissões</TableHead>
+                        <TableHead className="text-right">Total</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead className="w-[140px]"></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {!payroll || payroll.lines.length === 0 ? (
+                        <TableRow>
+                          <TableCell colSpan={8} className="text-center text-muted-foreground py-8">
+                            Nenhuma aula concluída no mês
+                          </TableCell>
+                        </TableRow>
+                      ) : (
+                        payroll.lines.map(line => (
+                          <TableRow key={line.professorId}>
+                            <TableCell className="font-medium">
+                              {line.professorName}
+                              {line.missingRate && (
+                                <p className="text-xs text-amber-600">Sem valor hora para parte das aulas</p>
+                              )}
+                            </TableCell>
+                            <TableCell className="text-right">{line.lessonsCount}</TableCell>
+                            <TableCell className="text-right">{formatHours(line.minutesTotal)}</TableCell>
+                            <TableCell className="text-right">{formatCents(line.hourlyAmount)}</TableCell>
+                            <TableCell className="text-right">{formatCents(line.commissionAmount)}</TableCell>
+                            <TableCell className="text-right font-medium">{formatCents(line.amount)}</TableCell>
+                            <TableCell>
+                              <Badge variant="outline" className={PAYOUT_STATUS[line.status].className}>
+                                {PAYOUT_STATUS[line.status].label}
+                              </Badge>
+                            </TableCell>
+                            <TableCell>
+                              {line.payoutId && line.status === 'pendente' && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  className="gap-1"
+                                  disabled={payoutMutation.isPending}
+                                  onClick={() => payoutMutation.mutate({ id: line.payoutId!, status: 'pago' })}
+                                >
+                                  <CheckCircle2 className="h-4 w-4" />
+                                  Marcar pago
+                                </Button>
+                              )}
+                              {line.payoutId && line.status === 'pago' && (
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  className="gap-1"
+                                  disabled={payoutMutation.isPending}
+                                  onClick={() => payoutMutation.mutate({ id: line.payoutId!, status: 'pendente' })}
+                                >
+                                  <Undo2 className="h-4 w-4" />
+                                  Desfazer
+                                </Button>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        ))
+                      )}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="commissions" className="space-y-4">
+            <Card>
+              <CardHeader>
+                <CardTitle>Comissão por serviço</CardTitle>
+                <CardDescription>
+                  Quando definida, a comissão (percentual do valor da aula) substitui o valor hora do professor naquele serviço.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="flex flex-col md:flex-row gap-4 md:items-end">
+                <div className="space-y-1 md:w-64">
+                  <Label>Professor</Label>
+                  <Select
+                    value={commissionForm.professorId}
+                    onValueChange={(value) => setCommissionForm({ ...commissionForm, professorId: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Selecione" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {professors.map(professor => (
+                        <SelectItem key={professor.id} value={String(professor.id)}>
+                          {professor.name || professor.username}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1 flex-1">
+                  <Label htmlFor="commission-service">Serviço</Label>
+                  <Input
+                    id="commission-service"
+                    placeholder="Ex.: Personal Training"
+                    value={commissionForm.service}
+                    onChange={(e) => setCommissionForm({ ...commissionForm, service: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1 md:w-32">
+                  <Label htmlFor="commission-percent">Comissão (%)</Label>
+                  <Input
+                    id="commission-percent"
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={commissionForm.commissionPercent}
+                    onChange={(e) => setCommissionForm({ ...commissionForm, commissionPercent: e.target.value })}
+                  />
+                </div>
+                <Button
+                  onClick={() => saveCommissionMutation.mutate()}
+                  disabled={!commissionForm.professorId || !commissionForm.service.trim() || commissionForm.commissionPercent === "" || saveCommissionMutation.isPending}
+                >
+                  Salvar
+                </Button>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardContent className="p-6">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Professor</TableHead>
+                      <TableHead>Serviço</TableHead>
+                      <TableHead className="text-right">Comissão</TableHead>
+                      <TableHead className="w-[50px]"></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {commissions.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={4} className="text-center text-muted-foreground py-8">
+                          Nenhuma comissão cadastrada; todas as aulas usam o valor hora
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      commissions.map(commission => (
+                        <TableRow key={commission.id}>
+                          <TableCell>{professorName(commission.professorId)}</TableCell>
+                          <TableCell>{commission.service}</TableCell>
+                          <TableCell className="text-right">{commission.commissionPercent}%</TableCell>
+                          <TableCell>
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              onClick={() => deleteCommissionMutation.mutate(commission.id)}
+                              disabled={deleteCommissionMutation.isPending}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="packages">
+            <PackageManager />
+          </TabsContent>
+        </Tabs>
+      </div>
+    </div>
+  );
+}
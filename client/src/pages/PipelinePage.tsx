@@ -0,0 +1,10 @@
+import PipelineView from "@/components/pipeline/PipelineView";
+import { LeadProvider } from "@/context/LeadContext";
+
+export default function PipelinePage() {
+  return (
+    <LeadProvider>
+      <PipelineView />
+    </LeadProvider>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Plus, Search, Filter, MoreHorizontal, Edit, Trash2 } from "lucide-react";
+import { Plus, Search, Filter, MoreHorizontal, Edit, Trash2, CalendarClock } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -21,12 +21,14 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { ProfessorDialog } from "@/components/professors/ProfessorDialog";
+import { ProfessorAvailabilityDialog } from "@/components/professors/ProfessorAvailabilityDialog";
 import type { IProfessor } from "@/types";
 
 export default function ProfessorsPage() {
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedProfessor, setSelectedProfessor] = useState<IProfessor | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [availabilityProfessor, setAvailabilityProfessor] = useState<IProfessor | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -249,6 +251,10 @@ export default function ProfessorsPage() {
                                 <Edit className="mr-2 h-4 w-4" />
                                 Editar
                               </DropdownMenuItem>
+                              <DropdownMenuItem onClick={() => setAvailabilityProfessor(professor)}>
+                                <CalendarClock className="mr-2 h-4 w-4" />
+                                Disponibilidade
+                              </DropdownMenuItem>
                               <DropdownMenuItem 
                                 onClick={() => handleDeleteProfessor(professor)}
                                 className="text-red-600"
@@ -275,6 +281,12 @@ export default function ProfessorsPage() {
         open={isDialogOpen}
         onClose={handleCloseDialog}
       />
+
+      <ProfessorAvailabilityDialog
+        professor={availabilityProfessor}
+        open={!!availabilityProfessor}
+        onClose={() => setAvailabilityProfessor(null)}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,176 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Download, Loader2, LogOut } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { apiRequest, getQueryFn } from "@/lib/queryClient";
+import PortalAccessForm from "@/components/portal/PortalAccessForm";
+import PortalClassList, { type PortalClass } from "@/components/portal/PortalClassList";
+
+interface PortalProfile {
+  id: number;
+  name: string;
+  email: string;
+  phone: string;
+  source: string;
+  policy: { rescheduleNoticeHours: number; rescheduleWindowDays: number };
+  lateCancellationHours: number;
+}
+
+interface PortalCredits {
+  creditsAvailable: number;
+  unpaidLessons: number;
+  nextExpiry: string | null;
+  purchases: {
+    id: number;
+    packageName: string | null;
+    credits: number;
+    creditsUsed: number;
+    expiresAt: string;
+  }[];
+}
+
+interface PortalPayment {
+  id: number;
+  amount: number;
+  method: 'pix' | 'cartao' | 'dinheiro';
+  status: 'pendente' | 'pago';
+  dueDate: string;
+  paidAt: string | null;
+  hasReceipt: boolean;
+}
+
+const formatCents = (value: number) =>
+  new Intl.NumberFormat("pt-BR", { style: "currency", currency: "BRL" }).format(value / 100);
+
+const formatDate = (value: string) => format(new Date(value), "dd/MM/yyyy");
+
+/**
+ * Portal do aluno: próximas aulas, créditos dos pacotes e recibos, com acesso por link mágico ou código
+ */
+export default function StudentPortalPage() {
+  const queryClient = useQueryClient();
+  const token = new URLSearchParams(window.location.search).get("token");
+
+  const { data: profile, isLoading } = useQuery<PortalProfile | null>({
+    queryKey: ["/api/portal/me"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const { data: classes = [] } = useQuery<PortalClass[]>({ queryKey: ["/api/portal/classes"], enabled: !!profile });
+  const { data: credits } = useQuery<PortalCredits>({ queryKey: ["/api/portal/credits"], enabled: !!profile });
+  const { data: payments = [] } = useQuery<PortalPayment[]>({ queryKey: ["/api/portal/payments"], enabled: !!profile });
+
+  const logoutMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/portal/logout"),
+    onSuccess: () => {
+      queryClient.removeQueries({ queryKey: ["/api/portal/classes"] });
+      queryClient.removeQueries({ queryKey: ["/api/portal/credits"] });
+      queryClient.removeQueries({ queryKey: ["/api/portal/payments"] });
+      queryClient.setQueryData(["/api/portal/me"], null);
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!profile) {
+    return <PortalAccessForm token={token} />;
+  }
+
+  return (
+    <div className="mx-auto max-w-3xl space-y-6 p-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Olá, {profile.name.split(" ")[0]}!</h1>
+          <p className="text-sm text-muted-foreground">{profile.source} Personal Training</p>
+        </div>
+        <Button variant="ghost" size="sm" onClick={() => logoutMutation.mutate()}>
+          <LogOut className="h-4 w-4 mr-2" />
+          Sair
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Próximas aulas</CardTitle>
+          <CardDescription>
+            Remarcações com pelo menos {profile.policy.rescheduleNoticeHours}h de antecedência, para até {profile.policy.rescheduleWindowDays} dias depois da aula.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <PortalClassList
+            classes={classes}
+            rescheduleNoticeHours={profile.policy.rescheduleNoticeHours}
+            lateCancellationHours={profile.lateCancellationHours}
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Créditos</CardTitle>
+          {credits?.nextExpiry && (
+            <CardDescription>Próximo vencimento em {formatDate(credits.nextExpiry)}</CardDescription>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <p className="text-3xl font-bold">
+            {credits?.creditsAvailable ?? 0} <span className="text-base font-normal text-muted-foreground">aula(s) disponível(is)</span>
+          </p>
+          {!!credits?.unpaidLessons && (
+            <p className="text-sm text-destructive">{credits.unpaidLessons} aula(s) dada(s) sem crédito. Fale com a equipe para renovar seu pacote.</p>
+          )}
+          {credits?.purchases.map(purchase => (
+            <div key={purchase.id} className="flex items-center justify-between rounded-md border p-3 text-sm">
+              <span>{purchase.packageName || "Pacote"}</span>
+              <span className="text-muted-foreground">
+                {purchase.credits - purchase.creditsUsed} de {purchase.credits} · vence em {formatDate(purchase.expiresAt)}
+              </span>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Pagamentos</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {payments.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nenhum pagamento registrado.</p>
+          ) : (
+            payments.map(payment => (
+              <div key={payment.id} className="flex items-center justify-between rounded-md border p-3 text-sm">
+                <div>
+                  <p className="font-medium">{formatCents(payment.amount)}</p>
+                  <p className="text-muted-foreground">
+                    {payment.paidAt ? `Pago em ${formatDate(payment.paidAt)}` : `Vence em ${formatDate(payment.dueDate)}`}
+                  </p>
+                </div>
+                {payment.hasReceipt ? (
+                  <Button asChild size="sm" variant="outline">
+                    <a href={`/api/portal/payments/${payment.id}/receipt`} download>
+                      <Download className="h-4 w-4 mr-1" />
+                      Recibo
+                    </a>
+                  </Button>
+                ) : (
+                  <Badge variant={new Date(payment.dueDate) < new Date() ? "destructive" : "secondary"}>
+                    {new Date(payment.dueDate) < new Date() ? "Em atraso" : "Pendente"}
+                  </Badge>
+                )}
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,17 +1,24 @@
+import { useQuery } from "@tanstack/react-query";
 import WhatsappConfigForm from "@/components/whatsapp/WhatsappConfigForm";
+import WhatsappInboundSettings from "@/components/whatsapp/WhatsappInboundSettings";
+import WhatsappMockSimulator from "@/components/whatsapp/WhatsappMockSimulator";
 
 export default function WhatsappConfigPage() {
+  const { data: config } = useQuery<{ provider: string }>({ queryKey: ["/api/whatsapp/config"] });
+
   return (
     <div className="container mx-auto p-4">
       <div className="mb-6">
         <h1 className="text-2xl font-bold">Configuração do WhatsApp</h1>
         <p className="text-muted-foreground">
-          Configure a integração com a Evolution API para usar o WhatsApp no CRM.
+          Configure o provedor de WhatsApp (Evolution API, API oficial ou simulado) usado pelo CRM.
         </p>
       </div>
       <div className="mx-auto max-w-3xl">
         <WhatsappConfigForm />
+        {config?.provider === "mock" && <WhatsappMockSimulator />}
+        <WhatsappInboundSettings />
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -15,6 +15,9 @@ import { CheckCircle2, AlertCircle, XCircle, Search, Filter, PlusCircle, MoreVer
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { format, isToday, isYesterday, isSameWeek } from "date-fns";
 import { ptBR } from "date-fns/locale";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import WhatsappUnmatchedInbox from "@/components/whatsapp/WhatsappUnmatchedInbox";
+import WhatsappMessageContent from "@/components/whatsapp/WhatsappMessageContent";
 
 export default function WhatsappPage() {
   const [searchQuery, setSearchQuery] = useState("");
@@ -37,6 +40,13 @@ export default function WhatsappPage() {
     queryKey: ['/api/whatsapp/recent-messages'],
     refetchInterval: 30000, // Atualiza a cada 30 segundos
   });
+
+  // Conversas de números não cadastrados aguardando triagem
+  const [isInboxOpen, setIsInboxOpen] = useState(false);
+  const { data: unmatchedConversations = [] } = useQuery<any[]>({
+    queryKey: ['/api/whatsapp/inbox'],
+    refetchInterval: 30000,
+  });
   
   /*
    * Filtrar leads com base em 3 critérios:
@@ -185,6 +195,18 @@ export default function WhatsappPage() {
   
   return (
     <div className="flex flex-col h-[calc(100vh-8rem)] w-full bg-background rounded-lg border">
+      <Dialog open={isInboxOpen} onOpenChange={setIsInboxOpen}>
+        <DialogContent className="sm:max-w-[600px] max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Mensagens não vinculadas</DialogTitle>
+            <DialogDescription>
+              Mensagens recebidas de números sem lead cadastrado. Vincule a um lead existente ou crie um novo.
+            </DialogDescription>
+          </DialogHeader>
+          <WhatsappUnmatchedInbox />
+        </DialogContent>
+      </Dialog>
+
       {/* Status da conexão */}
       <Alert 
         variant={connectionStatus.status === 'connected' ? 'default' : 
@@ -218,6 +240,17 @@ export default function WhatsappPage() {
               <RefreshCw className="h-3.5 w-3.5 mr-1" />
               Verificar
             </Button>
+            <Button
+              onClick={() => setIsInboxOpen(true)}
+              variant="outline"
+              size="sm"
+              className="h-7"
+            >
+              Não vinculadas
+              {unmatchedConversations.length > 0 && (
+                <Badge variant="destructive" className="ml-1.5 h-4 px-1 text-[10px]">{unmatchedConversations.length}</Badge>
+              )}
+            </Button>
             <Button 
               onClick={() => window.location.href = '/whatsapp/config'} 
               variant="outline" 
@@ -396,7 +429,7 @@ export default function WhatsappPage() {
                             ? 'bg-primary text-primary-foreground rounded-br-none' 
                             : 'bg-card dark:bg-gray-700 rounded-bl-none'}`}
                         >
-                          <p className="whitespace-pre-wrap break-words text-sm">{message.content}</p>
+                          <WhatsappMessageContent content={message.content} mediaUrl={message.mediaUrl} mediaType={message.mediaType} />
                           <div className="text-xs opacity-80 text-right mt-1 flex justify-end items-center">
                             {formatMessageDate(message.timestamp)}
                             {message.direction === 'outgoing' && (
@@ -1,3 +1,5 @@
+import type { IRegraRecorrencia } from "@shared/recurrence";
+
 // Interface para professores (baseada nos users com role='professor')
 export interface IProfessor {
   id: number;
@@ -16,16 +18,8 @@ export interface IProfessor {
   updatedAt: string;
 }
 
-// Interface para regras de recorrência
-export interface IRegraRecorrencia {
-  type: 'daily' | 'weekly' | 'monthly' | 'yearly' | 'custom';
-  interval: number; // A cada X dias/semanas/meses
-  weekDays?: string[]; // ['monday', 'wednesday', 'friday'] para recorrência semanal
-  monthDay?: number; // Dia do mês (1-31) para recorrência mensal
-  endType: 'never' | 'date' | 'count';
-  endDate?: Date;
-  endCount?: number;
-}
+// Interface para regras de recorrência (compartilhada com o servidor)
+export type { IRegraRecorrencia };
 
 // Interface para agendamentos recorrentes
 export interface IAgendamentoRecorrente {
@@ -33,6 +27,7 @@ export interface IAgendamentoRecorrente {
   professorId: number;
   studentId: number;
   location: string;
+  locationId?: number | null;
   value: number; // Valor em centavos
   service: string;
   notes?: string;
@@ -45,6 +40,20 @@ export interface IAgendamentoRecorrente {
   updatedAt: string;
 }
 
+// Local de aula cadastrado (casa do aluno, estúdio), usado no cálculo do deslocamento
+export interface ILocation {
+  id: number;
+  name: string;
+  address: string | null;
+  neighborhood: string | null;
+  city: string | null;
+  zone: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  studentId: number | null;
+  active: boolean;
+}
+
 // Interface para informações do aluno no agendamento
 export interface IStudent {
   id: number;
@@ -63,13 +72,22 @@ export interface IAula {
   startTime: string;
   endTime: string;
   location: string;
+  locationId?: number | null;
   value: number;
   service: string;
   notes?: string;
-  status: 'agendado' | 'em_andamento' | 'concluido' | 'cancelado' | 'remarcado';
+  status: 'agendado' | 'em_andamento' | 'concluido' | 'cancelado' | 'remarcado' | 'falta';
   isModified: boolean;
   originalStartTime?: string;
   originalEndTime?: string;
+  // Presença e cancelamento
+  checkInAt?: string | null;
+  checkOutAt?: string | null;
+  cancelledAt?: string | null;
+  cancelledBy?: number | null;
+  cancellationReason?: string | null;
+  lateCancellation?: boolean;
+  chargeable?: boolean; // Falta ou cancelamento tardio cobrado do aluno
   createdAt: string;
   updatedAt: string;
   
@@ -89,6 +107,7 @@ export interface INewRecurrenceForm {
   professorId: number;
   studentId: number;
   location: string;
+  locationId?: number | null;
   value: number;
   service: string;
   notes?: string;
@@ -0,0 +1,18 @@
+import { DEFAULT_ATTENDANCE_POLICY, type AttendancePolicy } from '@shared/attendance';
+
+function readNumber(name: string, fallback: number, min: number): number {
+  const value = parseFloat(process.env[name] || '');
+  return value >= min ? value : fallback;
+}
+
+/**
+ * Política de presença e cancelamento configurada no ambiente (ver shared/attendance.ts)
+ */
+export function getAttendancePolicy(): AttendancePolicy {
+  const chargeNoShow = process.env.NO_SHOW_CHARGED;
+  return {
+    lateCancellationHours: readNumber('LATE_CANCELLATION_HOURS', DEFAULT_ATTENDANCE_POLICY.lateCancellationHours, 0),
+    chargeNoShow: chargeNoShow ? chargeNoShow !== 'false' : DEFAULT_ATTENDANCE_POLICY.chargeNoShow,
+    checkInEarlyMinutes: readNumber('CHECK_IN_EARLY_MINUTES', DEFAULT_ATTENDANCE_POLICY.checkInEarlyMinutes, 0),
+  };
+}
@@ -8,19 +8,15 @@
 import fs from 'fs';
 import path from 'path';
 import { Request } from 'express';
+import { storage, type AuditLogFilters } from './storage';
+import type { InsertAuditLog } from '@shared/schema';
+import { log } from './vite';
 
-// Diretório para os logs
-const LOG_DIR = path.join(process.cwd(), 'logs');
-const AUDIT_LOG = path.join(LOG_DIR, 'audit.log');
+// Arquivo usado pela versão anterior do módulo (importado para o banco na inicialização)
+const LEGACY_AUDIT_LOG = path.join(process.cwd(), 'logs', 'audit.log');
 
-// Certifique-se de que o diretório de logs existe
-try {
-  if (!fs.existsSync(LOG_DIR)) {
-    fs.mkdirSync(LOG_DIR, { recursive: true });
-  }
-} catch (error) {
-  console.error('Erro ao criar diretório de logs:', error);
-}
+// Retenção padrão dos logs de auditoria, em dias
+const DEFAULT_RETENTION_DAYS = 365;
 
 /**
  * Tipos de eventos de auditoria
@@ -48,15 +44,33 @@ export enum AuditEventType {
   OAUTH_INIT = 'oauth_init',
   OAUTH_SUCCESS = 'oauth_success',
   OAUTH_ERROR = 'oauth_error',
-  OAUTH_REVOKE = 'oauth_revoke'
+  OAUTH_REVOKE = 'oauth_revoke',
+  EMAIL_RETRY = 'email_retry',
+  LEAD_BATCH_IMPORT = 'lead_batch_import',
+  LEAD_BATCH_UPDATE = 'lead_batch_update',
+  LEAD_BATCH_DELETE = 'lead_batch_delete',
+  AUDIT_LOG_PURGED = 'audit_log_purged',
+  FINANCIAL_PERIOD_CLOSED = 'financial_period_closed',
+  FINANCIAL_PERIOD_REOPENED = 'financial_period_reopened',
+  PAYOUT_STATUS_CHANGED = 'payout_status_changed',
+  PACKAGE_PURCHASED = 'package_purchased',
+  PACKAGE_CANCELLED = 'package_cancelled',
+  PAYMENT_RECORDED = 'payment_recorded',
+  AULA_ATTENDANCE_RECORDED = 'aula_attendance_recorded',
+  AULA_CANCELLED = 'aula_cancelled',
+  WAITLIST_UPDATED = 'waitlist_updated',
+  PORTAL_ACCESS = 'portal_access',
+  PORTAL_AULA_CHANGED = 'portal_aula_changed',
+  LEAD_STAGE_CHANGED = 'lead_stage_changed',
+  LEAD_MERGED = 'lead_merged',
+  RECURRENCE_OCCURRENCES_SKIPPED = 'recurrence_occurrences_skipped'
 }
 
 /**
  * Registra um evento de auditoria
  */
 export function logAuditEvent(type: AuditEventType, req: Request, details: any = {}) {
-  const timestamp = new Date().toISOString();
-  const userId = req.user?.id || 'anonymous';
+  const userId = req.user?.id ?? null;
   const username = req.user?.username || 'anonymous';
   const ip = req.ip || req.socket.remoteAddress || 'unknown';
 
@@ -66,46 +80,127 @@ export function logAuditEvent(type: AuditEventType, req: Request, details: any =
     sanitizedDetails.password = '[REDACTED]';
   }
 
-  const logEntry = {
-    timestamp,
-    type,
-    userId,
-    username,
-    ip,
-    details: sanitizedDetails,
-  };
+  writeAuditLog({ timestamp: new Date(), type, userId, username, ip, details: sanitizedDetails });
+}
 
-  // Escrever no arquivo de log
-  try {
-    fs.appendFileSync(AUDIT_LOG, JSON.stringify(logEntry) + '\n');
-  } catch (error) {
-    console.error('Erro ao escrever log de auditoria:', error);
-  }
+/**
+ * Registra um evento gerado pelo próprio sistema (jobs em segundo plano), sem requisição associada
+ */
+export function logSystemEvent(type: AuditEventType, details: any = {}) {
+  writeAuditLog({ timestamp: new Date(), type, userId: null, username: 'sistema', ip: 'local', details });
+}
+
+function writeAuditLog(entry: InsertAuditLog) {
+  // Gravação assíncrona: uma falha no banco não deve interromper a requisição
+  storage.createAuditLog(entry).catch(error => {
+    console.error('Erro ao gravar log de auditoria:', error);
+  });
 
   // Também registrar no console para desenvolvimento
   if (process.env.NODE_ENV !== 'production') {
-    console.log(`[AUDIT] ${type} - Usuário: ${username} (${userId}) - IP: ${ip}`);
+    log(`${entry.type} - Usuário: ${entry.username} (${entry.userId ?? 'anonymous'}) - IP: ${entry.ip}`, 'audit');
   }
 }
 
+/**
+ * Consulta os logs de auditoria com filtros e paginação
+ */
+export async function getAuditLogs(filters: AuditLogFilters = {}) {
+  return await storage.getAuditLogs(filters);
+}
+
 /**
  * Obtém os logs de auditoria mais recentes
  */
-export function getRecentAuditLogs(count: number = 100) {
-  try {
-    if (!fs.existsSync(AUDIT_LOG)) {
-      return [];
-    }
-
-    const logs = fs.readFileSync(AUDIT_LOG, 'utf8')
-      .split('\n')
-      .filter(line => line.trim() !== '')
-      .map(line => JSON.parse(line))
-      .slice(-count); // Pegar apenas os últimos 'count' logs
-
-    return logs;
-  } catch (error) {
-    console.error('Erro ao ler logs de auditoria:', error);
-    return [];
+export async function getRecentAuditLogs(count: number = 100) {
+  const { logs } = await storage.getAuditLogs({ pageSize: count });
+  return logs;
+}
+
+export function getAuditLogRetentionDays(): number {
+  const days = parseInt(process.env.AUDIT_LOG_RETENTION_DAYS || String(DEFAULT_RETENTION_DAYS), 10);
+  return isNaN(days) || days <= 0 ? DEFAULT_RETENTION_DAYS : days;
+}
+
+/**
+ * Remove logs mais antigos que o período de retenção
+ */
+export async function purgeAuditLogs(retentionDays: number = getAuditLogRetentionDays()): Promise<number> {
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+  const removed = await storage.deleteAuditLogsBefore(cutoff);
+
+  if (removed > 0) {
+    log(`${removed} log(s) de auditoria anteriores a ${cutoff.toISOString()} removidos`, 'audit');
   }
-}
\ No newline at end of file
+
+  return removed;
+}
+
+/**
+ * Importa o arquivo logs/audit.log da versão anterior para o banco e o renomeia
+ */
+export async function importLegacyAuditLogFile(): Promise<number> {
+  if (!fs.existsSync(LEGACY_AUDIT_LOG)) {
+    return 0;
+  }
+
+  const entries: InsertAuditLog[] = fs.readFileSync(LEGACY_AUDIT_LOG, 'utf8')
+    .split('\n')
+    .filter(line => line.trim() !== '')
+    .flatMap(line => {
+      try {
+        const entry = JSON.parse(line);
+        return [{
+          timestamp: new Date(entry.timestamp),
+          type: entry.type,
+          userId: typeof entry.userId === 'number' ? entry.userId : null,
+          username: entry.username || 'anonymous',
+          ip: entry.ip || 'unknown',
+          details: entry.details || {},
+        }];
+      } catch {
+        return [];
+      }
+    });
+
+  let imported = 0;
+  for (let i = 0; i < entries.length; i += 500) {
+    imported += await storage.createAuditLogs(entries.slice(i, i + 500));
+  }
+
+  fs.renameSync(LEGACY_AUDIT_LOG, `${LEGACY_AUDIT_LOG}.imported`);
+  log(`${imported} log(s) de auditoria importados de ${LEGACY_AUDIT_LOG}`, 'audit');
+
+  return imported;
+}
+
+let retentionTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Importa o arquivo legado e agenda a limpeza diária dos logs antigos
+ */
+export function startAuditLogRetentionJob(intervalMs: number = 24 * 60 * 60 * 1000) {
+  if (retentionTimer) {
+    return;
+  }
+
+  const run = () => {
+    purgeAuditLogs().catch(error => {
+      console.error('Erro ao remover logs de auditoria antigos:', error);
+    });
+  };
+
+  importLegacyAuditLogFile()
+    .catch(error => console.error('Erro ao importar arquivo de auditoria legado:', error))
+    .finally(run);
+
+  retentionTimer = setInterval(run, intervalMs);
+  retentionTimer.unref();
+}
+
+export function stopAuditLogRetentionJob() {
+  if (retentionTimer) {
+    clearInterval(retentionTimer);
+    retentionTimer = null;
+  }
+}
@@ -0,0 +1,63 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { CreditBalance } from "./storage";
+
+vi.mock("./storage", () => ({ storage: {} }));
+
+import { buildBillingAlerts, getLowCreditThreshold } from "./billing-service";
+
+function balance(partial: Partial<CreditBalance>): CreditBalance {
+  return {
+    leadId: 1,
+    creditsAvailable: 5,
+    unpaidLessons: 0,
+    nextExpiry: null,
+    overduePayments: 0,
+    overdueAmount: 0,
+    pendingPayments: 0,
+    ...partial,
+  };
+}
+
+afterEach(() => {
+  delete process.env.BILLING_LOW_CREDIT_THRESHOLD;
+});
+
+describe("buildBillingAlerts", () => {
+  it("não gera alerta para quem nunca comprou pacote", () => {
+    expect(buildBillingAlerts(balance({ creditsAvailable: 0 }), false)).toEqual([]);
+  });
+
+  it("avisa sobre saldo baixo ou zerado de quem tem compras", () => {
+    expect(buildBillingAlerts(balance({ creditsAvailable: 2 }), true)).toEqual([
+      { type: "saldo_baixo", message: "Restam apenas 2 crédito(s)" },
+    ]);
+    expect(buildBillingAlerts(balance({ creditsAvailable: 0 }), true)).toEqual([
+      { type: "saldo_baixo", message: "Sem créditos disponíveis" },
+    ]);
+    expect(buildBillingAlerts(balance({ creditsAvailable: 3 }), true)).toEqual([]);
+  });
+
+  it("aulas sem crédito substituem o alerta de saldo baixo", () => {
+    const alerts = buildBillingAlerts(balance({ creditsAvailable: 0, unpaidLessons: 2 }), true);
+
+    expect(alerts).toEqual([{ type: "sem_credito", message: "2 aula(s) concluída(s) sem crédito disponível" }]);
+  });
+
+  it("soma o alerta de pagamento atrasado com o valor em reais", () => {
+    const alerts = buildBillingAlerts(balance({ overduePayments: 1, overdueAmount: 15000 }), false);
+
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0].type).toBe("pagamento_atrasado");
+    expect(alerts[0].message).toMatch(/^1 pagamento\(s\) em atraso \(R\$\s150,00\)$/);
+  });
+});
+
+describe("getLowCreditThreshold", () => {
+  it("usa BILLING_LOW_CREDIT_THRESHOLD e volta ao padrão quando o valor é inválido", () => {
+    expect(getLowCreditThreshold()).toBe(2);
+    process.env.BILLING_LOW_CREDIT_THRESHOLD = "0";
+    expect(getLowCreditThreshold()).toBe(0);
+    process.env.BILLING_LOW_CREDIT_THRESHOLD = "-1";
+    expect(getLowCreditThreshold()).toBe(2);
+  });
+});
@@ -0,0 +1,147 @@
+import type { Lead } from '@shared/schema';
+import { storage, type CreditBalance } from './storage';
+
+/**
+ * Pacotes, créditos e pagamentos dos alunos.
+ * Gera os alertas de saldo baixo e de pagamento em atraso exibidos no perfil do lead e no dashboard.
+ */
+
+export type BillingAlertType = 'saldo_baixo' | 'sem_credito' | 'pagamento_atrasado';
+
+export interface BillingAlert {
+  type: BillingAlertType;
+  message: string;
+}
+
+export interface StudentBillingAlerts {
+  leadId: number;
+  leadName: string;
+  balance: CreditBalance;
+  alerts: BillingAlert[];
+}
+
+const DEFAULT_LOW_CREDIT_THRESHOLD = 2;
+
+// Compras vencidas há até esse número de dias ainda geram alerta de saldo
+const RECENT_PURCHASE_DAYS = 60;
+
+function emptyBalance(leadId: number): CreditBalance {
+  return {
+    leadId,
+    creditsAvailable: 0,
+    unpaidLessons: 0,
+    nextExpiry: null,
+    overduePayments: 0,
+    overdueAmount: 0,
+    pendingPayments: 0,
+  };
+}
+
+/**
+ * Saldo a partir do qual o aluno entra no alerta de saldo baixo (BILLING_LOW_CREDIT_THRESHOLD)
+ */
+export function getLowCreditThreshold(): number {
+  const configured = parseInt(process.env.BILLING_LOW_CREDIT_THRESHOLD || '', 10);
+  return isNaN(configured) || configured < 0 ? DEFAULT_LOW_CREDIT_THRESHOLD : configured;
+}
+
+const formatCents = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value / 100);
+
+/**
+ * Alertas de um aluno a partir do seu saldo. Alunos que nunca compraram pacote
+ * (sem saldo, sem aulas devidas e sem pagamentos) não geram alerta.
+ */
+export function buildBillingAlerts(balance: CreditBalance, hasPurchases: boolean): BillingAlert[] {
+  const alerts: BillingAlert[] = [];
+
+  if (balance.unpaidLessons > 0) {
+    alerts.push({
+      type: 'sem_credito',
+      message: `${balance.unpaidLessons} aula(s) concluída(s) sem crédito disponível`,
+    });
+  } else if (hasPurchases && balance.creditsAvailable <= getLowCreditThreshold()) {
+    alerts.push({
+      type: 'saldo_baixo',
+      message: balance.creditsAvailable === 0
+        ? 'Sem créditos disponíveis'
+        : `Restam apenas ${balance.creditsAvailable} crédito(s)`,
+    });
+  }
+
+  if (balance.overduePayments > 0) {
+    alerts.push({
+      type: 'pagamento_atrasado',
+      message: `${balance.overduePayments} pagamento(s) em atraso (${formatCents(balance.overdueAmount)})`,
+    });
+  }
+
+  return alerts;
+}
+
+/**
+ * Resumo financeiro de um aluno: saldo, compras, pagamentos e alertas
+ */
+export async function getStudentBillingSummary(lead: Lead) {
+  const [balances, purchases, studentPayments] = await Promise.all([
+    storage.getCreditBalances(lead.id),
+    storage.getPackagePurchases(lead.id),
+    storage.getPayments({ leadId: lead.id }),
+  ]);
+
+  const balance = balances[0] || emptyBalance(lead.id);
+
+  const now = new Date();
+
+  return {
+    leadId: lead.id,
+    balance,
+    alerts: buildBillingAlerts(balance, purchases.some(purchase => purchase.status === 'ativo')),
+    purchases,
+    payments: studentPayments.map(payment => ({
+      ...payment,
+      overdue: payment.status === 'pendente' && new Date(payment.dueDate) < now,
+    })),
+  };
+}
+
+/**
+ * Alunos com saldo baixo, aulas sem crédito ou pagamentos em atraso
+ */
+export async function getBillingAlerts(): Promise<StudentBillingAlerts[]> {
+  const balances = await storage.getCreditBalances();
+  const results: StudentBillingAlerts[] = [];
+
+  // Alunos com compras recentes (inclusive já vencidas) entram no alerta de saldo baixo
+  const recentPurchasesSince = new Date(Date.now() - RECENT_PURCHASE_DAYS * 24 * 60 * 60 * 1000);
+  const leadsWithPurchases = new Set(await storage.getLeadIdsWithPurchases(recentPurchasesSince));
+
+  const balancesByLead = new Map(balances.map(balance => [balance.leadId, balance]));
+  for (const leadId of Array.from(leadsWithPurchases)) {
+    if (!balancesByLead.has(leadId)) {
+      balancesByLead.set(leadId, emptyBalance(leadId));
+    }
+  }
+
+  for (const balance of Array.from(balancesByLead.values())) {
+    const alerts = buildBillingAlerts(balance, leadsWithPurchases.has(balance.leadId));
+    if (alerts.length === 0) {
+      continue;
+    }
+
+    const lead = await storage.getLead(balance.leadId);
+    if (!lead || lead.status !== 'Aluno') {
+      continue;
+    }
+
+    results.push({ leadId: lead.id, leadName: lead.name, balance, alerts });
+  }
+
+  // Pendências de pagamento e aulas sem crédito primeiro, depois o menor saldo
+  const priority = (item: StudentBillingAlerts) =>
+    item.alerts.some(alert => alert.type !== 'saldo_baixo') ? 0 : 1;
+
+  return results.sort((a, b) =>
+    priority(a) - priority(b) || a.balance.creditsAvailable - b.balance.creditsAvailable
+  );
+}
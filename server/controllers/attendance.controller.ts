@@ -0,0 +1,249 @@
+import type { Request, Response } from "express";
+import { z, ZodError } from "zod";
+import { subMinutes } from "date-fns";
+import { storage } from "../storage";
+import type { Aula, InsertAula } from "@shared/schema";
+import { summarizeAttendance } from "@shared/attendance";
+import { getAttendancePolicy } from "../attendance";
+import { findClosedPeriod } from "../finance-service";
+import { syncAulaWithGoogle } from "../google-calendar-sync";
+import { offerSlotIfCancelled } from "../waitlist-service";
+import { logAuditEvent, AuditEventType } from "../audit-log";
+
+const noShowRequestSchema = z.object({
+  waiveFee: z.boolean().optional(), // Administrador pode isentar a cobrança da falta
+});
+
+const cancelRequestSchema = z.object({
+  reason: z.string().trim().min(1, "Informe o motivo do cancelamento"),
+  waiveFee: z.boolean().optional(), // Administrador pode isentar a cobrança do cancelamento tardio
+});
+
+// Aulas que ainda vão acontecer (ou estão acontecendo) e aceitam registro de presença
+const OPEN_STATUSES: Aula['status'][] = ['agendado', 'remarcado'];
+
+function validationError(res: Response, error: ZodError) {
+  return res.status(400).json({
+    message: "Dados inválidos",
+    errors: error.errors.map(err => ({
+      field: err.path.join("."),
+      message: err.message
+    }))
+  });
+}
+
+// O professor da aula ou um administrador registram presença e faltas
+function canRecordAttendance(req: Request, aula: Aula): boolean {
+  return req.user?.role === 'admin' || req.user?.id === aula.professorId;
+}
+
+async function findAula(req: Request, res: Response) {
+  const aulaId = parseInt(req.params.id);
+  if (isNaN(aulaId)) {
+    res.status(400).json({ message: "ID inválido" });
+    return undefined;
+  }
+
+  const aula = await storage.getAulaById(aulaId);
+  if (!aula) {
+    res.status(404).json({ message: "Aula não encontrada" });
+    return undefined;
+  }
+
+  // Aulas de meses com fechamento financeiro não podem ser alteradas
+  const closedPeriod = await findClosedPeriod(aula.startTime);
+  if (closedPeriod) {
+    res.status(423).json({ message: `O período ${closedPeriod} está fechado para alterações` });
+    return undefined;
+  }
+
+  return aula;
+}
+
+/**
+ * Chegada do professor: a aula passa a "em andamento"
+ */
+export const checkInAula = async (req: Request, res: Response) => {
+  try {
+    const aula = await findAula(req, res);
+    if (!aula) return;
+
+    if (!canRecordAttendance(req, aula)) {
+      return res.status(403).json({ message: "Apenas o professor da aula ou um administrador pode registrar a presença" });
+    }
+    if (!OPEN_STATUSES.includes(aula.status)) {
+      return res.status(409).json({ message: "A chegada só pode ser registrada em aulas agendadas" });
+    }
+
+    const now = new Date();
+    const { checkInEarlyMinutes } = getAttendancePolicy();
+    if (now < subMinutes(aula.startTime, checkInEarlyMinutes)) {
+      return res.status(409).json({ message: `A chegada pode ser registrada a partir de ${checkInEarlyMinutes} minutos antes do início da aula` });
+    }
+
+    const updated = await storage.updateAula(aula.id, { status: 'em_andamento', checkInAt: now }, req.user?.id);
+    if (!updated) {
+      return res.status(404).json({ message: "Aula não encontrada" });
+    }
+
+    logAuditEvent(AuditEventType.AULA_ATTENDANCE_RECORDED, req, { aulaId: aula.id, action: 'check_in' });
+    res.json(updated);
+  } catch (error) {
+    console.error('Erro ao registrar chegada:', error);
+    res.status(500).json({ message: "Erro ao registrar chegada" });
+  }
+};
+
+/**
+ * Saída do professor: encerra a aula como concluída (consome o crédito do aluno)
+ */
+export const checkOutAula = async (req: Request, res: Response) => {
+  try {
+    const aula = await findAula(req, res);
+    if (!aula) return;
+
+    if (!canRecordAttendance(req, aula)) {
+      return res.status(403).json({ message: "Apenas o professor da aula ou um administrador pode registrar a presença" });
+    }
+    if (aula.status !== 'em_andamento' || !aula.checkInAt) {
+      return res.status(409).json({ message: "Registre a chegada antes de encerrar a aula" });
+    }
+
+    const updated = await storage.updateAula(aula.id, { status: 'concluido', checkOutAt: new Date() }, req.user?.id);
+    if (!updated) {
+      return res.status(404).json({ message: "Aula não encontrada" });
+    }
+
+    logAuditEvent(AuditEventType.AULA_ATTENDANCE_RECORDED, req, { aulaId: aula.id, action: 'check_out' });
+    res.json(updated);
+  } catch (error) {
+    console.error('Erro ao registrar saída:', error);
+    res.status(500).json({ message: "Erro ao registrar saída" });
+  }
+};
+
+/**
+ * Aluno não compareceu: cobrada conforme a política, salvo isenção do administrador
+ */
+export const markAulaNoShow = async (req: Request, res: Response) => {
+  try {
+    const { waiveFee } = noShowRequestSchema.parse(req.body ?? {});
+
+    const aula = await findAula(req, res);
+    if (!aula) return;
+
+    if (!canRecordAttendance(req, aula)) {
+      return res.status(403).json({ message: "Apenas o professor da aula ou um administrador pode registrar a falta" });
+    }
+    if (waiveFee && req.user?.role !== 'admin') {
+      return res.status(403).json({ message: "Apenas administradores podem isentar a cobrança" });
+    }
+    // Com o professor já no local (check-in feito) a falta do aluno ainda pode ser registrada
+    if (!OPEN_STATUSES.includes(aula.status) && aula.status !== 'em_andamento') {
+      return res.status(409).json({ message: "A falta só pode ser registrada em aulas agendadas" });
+    }
+    if (new Date() < aula.startTime) {
+      return res.status(409).json({ message: "A falta só pode ser registrada depois do início da aula" });
+    }
+
+    const changes: Partial<InsertAula> = { status: 'falta' };
+    if (waiveFee) changes.chargeable = false;
+
+    const updated = await storage.updateAula(aula.id, changes, req.user?.id);
+    if (!updated) {
+      return res.status(404).json({ message: "Aula não encontrada" });
+    }
+
+    logAuditEvent(AuditEventType.AULA_ATTENDANCE_RECORDED, req, { aulaId: aula.id, action: 'no_show', chargeable: updated.chargeable });
+    res.json(updated);
+  } catch (error) {
+    if (error instanceof ZodError) return validationError(res, error);
+    console.error('Erro ao registrar falta:', error);
+    res.status(500).json({ message: "Erro ao registrar falta" });
+  }
+};
+
+/**
+ * Cancela a aula com motivo; o cancelamento tardio é cobrado conforme a política, salvo isenção do administrador
+ */
+export const cancelAula = async (req: Request, res: Response) => {
+  try {
+    const { reason, waiveFee } = cancelRequestSchema.parse(req.body ?? {});
+
+    const aula = await findAula(req, res);
+    if (!aula) return;
+
+    if (waiveFee && req.user?.role !== 'admin') {
+      return res.status(403).json({ message: "Apenas administradores podem isentar a cobrança" });
+    }
+    if (aula.status === 'cancelado') {
+      return res.status(409).json({ message: "A aula já está cancelada" });
+    }
+    if (aula.status === 'concluido' || aula.status === 'falta') {
+      return res.status(409).json({ message: "Aulas concluídas ou com falta registrada não podem ser canceladas" });
+    }
+
+    const changes: Partial<InsertAula> = { status: 'cancelado', cancellationReason: reason };
+    if (waiveFee) changes.chargeable = false;
+
+    const updated = await storage.updateAula(aula.id, changes, req.user?.id);
+    if (!updated) {
+      return res.status(404).json({ message: "Aula não encontrada" });
+    }
+    syncAulaWithGoogle(updated);
+    offerSlotIfCancelled(aula, updated);
+
+    logAuditEvent(AuditEventType.AULA_CANCELLED, req, {
+      aulaId: aula.id,
+      reason,
+      lateCancellation: updated.lateCancellation,
+      chargeable: updated.chargeable,
+    });
+    res.json(updated);
+  } catch (error) {
+    if (error instanceof ZodError) return validationError(res, error);
+    console.error('Erro ao cancelar aula:', error);
+    res.status(500).json({ message: "Erro ao cancelar aula" });
+  }
+};
+
+/**
+ * Frequência do aluno (presença e faltas) e as últimas faltas e cancelamentos
+ */
+export const getLeadAttendance = async (req: Request, res: Response) => {
+  try {
+    const leadId = parseInt(req.params.id);
+    if (isNaN(leadId)) {
+      return res.status(400).json({ message: "ID inválido" });
+    }
+
+    const lead = await storage.getLead(leadId);
+    if (!lead) {
+      return res.status(404).json({ message: "Lead não encontrado" });
+    }
+
+    const aulas = await storage.getAulas({ studentId: leadId });
+    const recentAbsences = aulas
+      .filter(aula => aula.status === 'falta' || aula.status === 'cancelado')
+      .reverse()
+      .slice(0, 10)
+      .map(aula => ({
+        id: aula.id,
+        startTime: aula.startTime,
+        service: aula.service,
+        status: aula.status,
+        cancellationReason: aula.cancellationReason,
+        lateCancellation: aula.lateCancellation,
+        chargeable: aula.chargeable,
+      }));
+
+    res.json({
+      summary: summarizeAttendance(aulas),
+      policy: getAttendancePolicy(),
+      recentAbsences,
+    });
+  } catch (error) {
+    console.error('Erro ao buscar frequência do aluno:', error);
+    res.status(500).json({ message: "Erro ao buscar frequência do aluno" });
+  }
+};
@@ -1,16 +1,73 @@
 import type { Request, Response } from "express";
-import { getRecentAuditLogs } from "../audit-log"; // Adjust path as needed
+import { getAuditLogs as queryAuditLogs, purgeAuditLogs, getAuditLogRetentionDays, logAuditEvent, AuditEventType } from "../audit-log";
 
-// Endpoint para obter logs de auditoria
+function parseDateParam(value: unknown, endOfDay = false): Date | undefined | null {
+  if (!value) return undefined;
+  const raw = value.toString();
+  // Datas sem horário (yyyy-MM-dd) cobrem o dia inteiro no filtro final
+  const date = new Date(/^\d{4}-\d{2}-\d{2}$/.test(raw) && endOfDay ? `${raw}T23:59:59.999` : raw);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Endpoint para obter logs de auditoria com filtros e paginação
 export const getAuditLogs = async (req: Request, res: Response) => {
   try {
-    // Default to 100 logs, allow overriding via query param
-    const count = parseInt(req.query.count?.toString() || '100'); 
-    // Add basic validation for count if needed (e.g., max value, ensure positive)
-    const logs = await getRecentAuditLogs(Math.max(1, count)); // Ensure count is at least 1
-    res.json(logs);
+    const page = Math.max(1, parseInt(req.query.page?.toString() || '1') || 1);
+    // "count" mantido por compatibilidade com a versão anterior do endpoint
+    const requestedSize = parseInt(req.query.pageSize?.toString() || req.query.count?.toString() || '50') || 50;
+    const pageSize = Math.min(Math.max(1, requestedSize), 500);
+
+    const startDate = parseDateParam(req.query.startDate);
+    const endDate = parseDateParam(req.query.endDate, true);
+    if (startDate === null || endDate === null) {
+      return res.status(400).json({ message: "Período inválido" });
+    }
+
+    // "user" aceita o ID numérico ou parte do nome de usuário
+    const user = req.query.user?.toString().trim();
+    const userId = user && /^\d+$/.test(user) ? parseInt(user) : undefined;
+
+    const { logs, total } = await queryAuditLogs({
+      type: req.query.type?.toString() || undefined,
+      userId,
+      username: user && userId === undefined ? user : undefined,
+      startDate,
+      endDate,
+      search: req.query.search?.toString().trim() || undefined,
+      page,
+      pageSize,
+    });
+
+    res.json({
+      logs,
+      total,
+      page,
+      pageSize,
+      totalPages: Math.max(1, Math.ceil(total / pageSize)),
+    });
   } catch (error) {
     console.error('Erro ao buscar logs de auditoria:', error);
     res.status(500).json({ message: "Erro ao buscar logs de auditoria" });
   }
-}; 
\ No newline at end of file
+};
+
+// Endpoint para remover logs mais antigos que o período de retenção
+export const purgeOldAuditLogs = async (req: Request, res: Response) => {
+  try {
+    const retentionDays = req.body?.retentionDays !== undefined
+      ? parseInt(req.body.retentionDays)
+      : getAuditLogRetentionDays();
+
+    if (isNaN(retentionDays) || retentionDays < 1) {
+      return res.status(400).json({ message: "Período de retenção inválido" });
+    }
+
+    const removed = await purgeAuditLogs(retentionDays);
+    logAuditEvent(AuditEventType.AUDIT_LOG_PURGED, req, { retentionDays, removed });
+
+    res.json({ removed, retentionDays });
+  } catch (error) {
+    console.error('Erro ao remover logs de auditoria:', error);
+    res.status(500).json({ message: "Erro ao remover logs de auditoria" });
+  }
+};
@@ -0,0 +1,265 @@
+import type { Request, Response } from "express";
+import { z, ZodError } from "zod";
+import { addDays } from "date-fns";
+import { storage } from "../storage";
+import {
+  workingHoursValidationSchema,
+  timeOffValidationSchema,
+  holidayValidationSchema,
+  slotSearchValidationSchema,
+} from "@shared/schema";
+import { logAuditEvent, AuditEventType } from "../audit-log";
+import { findFreeSlots } from "../slot-finder";
+
+const workingHoursPayloadSchema = z.object({
+  workingHours: z.array(workingHoursValidationSchema),
+});
+
+function validationError(res: Response, error: ZodError) {
+  return res.status(400).json({
+    message: "Dados inválidos",
+    errors: error.errors.map(err => ({
+      field: err.path.join("."),
+      message: err.message
+    }))
+  });
+}
+
+// O próprio professor ou um administrador podem alterar a disponibilidade
+function canManage(req: Request, professorId: number): boolean {
+  return req.user?.role === 'admin' || req.user?.id === professorId;
+}
+
+async function findProfessor(professorId: number) {
+  if (isNaN(professorId)) {
+    return undefined;
+  }
+  const professor = await storage.getUserById(professorId);
+  return professor?.role === 'professor' ? professor : undefined;
+}
+
+/**
+ * Expediente, ausências e feriados do professor no período (padrão: próximos 12 meses)
+ */
+export const getProfessorAvailability = async (req: Request, res: Response) => {
+  try {
+    const professorId = parseInt(req.params.professorId);
+    if (!(await findProfessor(professorId))) {
+      return res.status(404).json({ message: "Professor não encontrado" });
+    }
+
+    const from = req.query.from ? new Date(String(req.query.from)) : new Date();
+    const to = req.query.to ? new Date(String(req.query.to)) : addDays(from, 365);
+    if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+      return res.status(400).json({ message: "Período inválido" });
+    }
+
+    res.json(await storage.getProfessorAvailabilityData(professorId, from, to));
+  } catch (error) {
+    console.error('Erro ao buscar disponibilidade do professor:', error);
+    res.status(500).json({ message: "Erro ao buscar disponibilidade do professor" });
+  }
+};
+
+export const saveWorkingHours = async (req: Request, res: Response) => {
+  try {
+    const professorId = parseInt(req.params.professorId);
+    if (!(await findProfessor(professorId))) {
+      return res.status(404).json({ message: "Professor não encontrado" });
+    }
+    if (!canManage(req, professorId)) {
+      return res.status(403).json({ message: "Acesso negado" });
+    }
+
+    const { workingHours } = workingHoursPayloadSchema.parse(req.body);
+    const saved = await storage.replaceProfessorWorkingHours(professorId, workingHours);
+
+    logAuditEvent(AuditEventType.SETTINGS_CHANGED, req, {
+      setting: 'professor_working_hours',
+      professorId,
+      rules: saved.length,
+    });
+
+    res.json(saved);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationError(res, error);
+    }
+    console.error('Erro ao salvar expediente do professor:', error);
+    res.status(500).json({ message: "Erro ao salvar expediente do professor" });
+  }
+};
+
+/**
+ * Registra férias, folga ou licença. Devolve as aulas agendadas no período,
+ * que continuam marcadas e precisam ser remanejadas.
+ */
+export const createTimeOff = async (req: Request, res: Response) => {
+  try {
+    const professorId = parseInt(req.params.professorId);
+    if (!(await findProfessor(professorId))) {
+      return res.status(404).json({ message: "Professor não encontrado" });
+    }
+    if (!canManage(req, professorId)) {
+      return res.status(403).json({ message: "Acesso negado" });
+    }
+
+    const data = timeOffValidationSchema.parse(req.body);
+    const timeOff = await storage.createProfessorTimeOff({
+      ...data,
+      reason: data.reason || null,
+      professorId,
+      createdById: req.user?.id,
+    });
+
+    const affectedAulas = await storage.getAulas({
+      professorId,
+      startDate: data.startTime,
+      endDate: data.endTime,
+      status: 'agendado',
+    });
+
+    logAuditEvent(AuditEventType.SETTINGS_CHANGED, req, {
+      setting: 'professor_time_off',
+      professorId,
+      timeOffId: timeOff.id,
+      kind: timeOff.kind,
+    });
+
+    res.status(201).json({ timeOff, affectedAulas });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationError(res, error);
+    }
+    console.error('Erro ao registrar ausência do professor:', error);
+    res.status(500).json({ message: "Erro ao registrar ausência do professor" });
+  }
+};
+
+export const deleteTimeOff = async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "ID inválido" });
+    }
+
+    const timeOff = await storage.getProfessorTimeOffById(id);
+    if (!timeOff) {
+      return res.status(404).json({ message: "Ausência não encontrada" });
+    }
+    if (!canManage(req, timeOff.professorId)) {
+      return res.status(403).json({ message: "Acesso negado" });
+    }
+
+    await storage.deleteProfessorTimeOff(id);
+
+    logAuditEvent(AuditEventType.SETTINGS_CHANGED, req, { setting: 'professor_time_off', deletedId: id });
+    res.status(204).send();
+  } catch (error) {
+    console.error('Erro ao excluir ausência do professor:', error);
+    res.status(500).json({ message: "Erro ao excluir ausência do professor" });
+  }
+};
+
+export const getHolidays = async (req: Request, res: Response) => {
+  try {
+    const from = typeof req.query.from === 'string' ? req.query.from : undefined;
+    const to = typeof req.query.to === 'string' ? req.query.to : undefined;
+    res.json(await storage.getHolidays(from, to));
+  } catch (error) {
+    console.error('Erro ao buscar feriados:', error);
+    res.status(500).json({ message: "Erro ao buscar feriados" });
+  }
+};
+
+export const createHoliday = async (req: Request, res: Response) => {
+  try {
+    const data = holidayValidationSchema.parse(req.body);
+
+    const existing = await storage.getHolidays(data.date, data.date);
+    if (existing.length > 0) {
+      return res.status(409).json({ message: `Já existe um feriado nesta data (${existing[0].name})` });
+    }
+
+    const holiday = await storage.createHoliday(data);
+
+    logAuditEvent(AuditEventType.SETTINGS_CHANGED, req, { setting: 'holiday', date: holiday.date, name: holiday.name });
+    res.status(201).json(holiday);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationError(res, error);
+    }
+    console.error('Erro ao cadastrar feriado:', error);
+    res.status(500).json({ message: "Erro ao cadastrar feriado" });
+  }
+};
+
+export const deleteHoliday = async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "ID inválido" });
+    }
+
+    const deleted = await storage.deleteHoliday(id);
+    if (!deleted) {
+      return res.status(404).json({ message: "Feriado não encontrado" });
+    }
+
+    logAuditEvent(AuditEventType.SETTINGS_CHANGED, req, { setting: 'holiday', deletedId: id });
+    res.status(204).send();
+  } catch (error) {
+    console.error('Erro ao excluir feriado:', error);
+    res.status(500).json({ message: "Erro ao excluir feriado" });
+  }
+};
+
+/**
+ * Horários livres para agendar o aluno, de todos os professores ativos, do mais recomendado ao menos.
+ * A duração vem do serviço (services.duration) e pode ser informada diretamente quando não há serviço cadastrado.
+ */
+export const findSlots = async (req: Request, res: Response) => {
+  try {
+    const data = slotSearchValidationSchema.parse(req.body);
+
+    const student = await storage.getLeadById(data.studentId);
+    if (!student) {
+      return res.status(404).json({ message: "Aluno não encontrado" });
+    }
+
+    const service = data.serviceId
+      ? await storage.getServiceById(data.serviceId)
+      : data.service ? await storage.getServiceByName(data.service) : undefined;
+    if (data.serviceId && !service) {
+      return res.status(404).json({ message: "Serviço não encontrado" });
+    }
+
+    const durationMinutes = data.durationMinutes || service?.duration;
+    if (!durationMinutes) {
+      return res.status(400).json({ message: "Serviço sem duração cadastrada; informe a duração da aula" });
+    }
+
+    const result = await findFreeSlots({
+      studentId: student.id,
+      durationMinutes,
+      serviceName: service?.name || data.service,
+      fromDate: data.fromDate,
+      toDate: data.toDate,
+      weekDays: data.weekDays,
+      timeWindows: data.timeWindows,
+      location: data.location,
+      locationId: data.locationId,
+      professorIds: data.professorIds,
+      excludeAulaId: data.excludeAulaId,
+      limit: data.limit,
+    });
+
+    res.json(result);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationError(res, error);
+    }
+    console.error('Erro ao buscar horários livres:', error);
+    res.status(500).json({ message: "Erro ao buscar horários livres" });
+  }
+};
@@ -0,0 +1,273 @@
+import type { Request, Response } from "express";
+import { ZodError, z } from "zod";
+import { storage } from "../storage";
+import { packageValidationSchema, paymentValidationSchema } from "@shared/schema";
+import { getStudentBillingSummary, getBillingAlerts } from "../billing-service";
+import { logAuditEvent, AuditEventType } from "../audit-log";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const purchaseRequestSchema = z.object({
+  packageId: z.number().int().positive("Pacote inválido"),
+  price: z.number().int().min(0, "O preço não pode ser negativo").optional(), // Permite desconto sobre o preço do pacote
+  purchasedAt: z.union([z.string().transform(val => new Date(val)), z.date()]).optional(),
+  notes: z.string().optional(),
+  // Pagamento registrado junto com a compra
+  payment: z.object({
+    method: z.enum(["pix", "cartao", "dinheiro"], {
+      errorMap: () => ({ message: "Forma de pagamento deve ser 'pix', 'cartao' ou 'dinheiro'" })
+    }),
+    status: z.enum(["pendente", "pago"]).default("pendente"),
+    dueDate: z.union([z.string().transform(val => new Date(val)), z.date()]).optional(),
+  }).optional(),
+});
+
+function handleValidationError(error: unknown, res: Response): boolean {
+  if (error instanceof ZodError) {
+    res.status(400).json({
+      message: "Dados inválidos",
+      errors: error.errors.map(err => ({
+        field: err.path.join("."),
+        message: err.message
+      }))
+    });
+    return true;
+  }
+  return false;
+}
+
+async function findStudent(req: Request, res: Response) {
+  const leadId = parseInt(req.params.leadId);
+  if (isNaN(leadId)) {
+    res.status(400).json({ message: "ID do aluno inválido" });
+    return undefined;
+  }
+
+  const lead = await storage.getLead(leadId);
+  if (!lead) {
+    res.status(404).json({ message: "Aluno não encontrado" });
+    return undefined;
+  }
+
+  return lead;
+}
+
+export const getPackages = async (req: Request, res: Response) => {
+  try {
+    res.json(await storage.getPackages(req.query.active === 'true'));
+  } catch (error) {
+    console.error('Erro ao buscar pacotes:', error);
+    res.status(500).json({ message: "Erro ao buscar pacotes" });
+  }
+};
+
+export const createPackage = async (req: Request, res: Response) => {
+  try {
+    const data = packageValidationSchema.parse(req.body);
+    const pkg = await storage.createPackage(data);
+
+    logAuditEvent(AuditEventType.SETTINGS_CHANGED, req, { setting: 'package', packageId: pkg.id, name: pkg.name });
+    res.status(201).json(pkg);
+  } catch (error) {
+    if (handleValidationError(error, res)) return;
+    console.error('Erro ao criar pacote:', error);
+    res.status(500).json({ message: "Erro ao criar pacote" });
+  }
+};
+
+export const updatePackage = async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "ID inválido" });
+    }
+
+    const data = packageValidationSchema.partial().parse(req.body);
+    const pkg = await storage.updatePackage(id, data);
+    if (!pkg) {
+      return res.status(404).json({ message: "Pacote não encontrado" });
+    }
+
+    logAuditEvent(AuditEventType.SETTINGS_CHANGED, req, { setting: 'package', packageId: id, changes: data });
+    res.json(pkg);
+  } catch (error) {
+    if (handleValidationError(error, res)) return;
+    console.error('Erro ao atualizar pacote:', error);
+    res.status(500).json({ message: "Erro ao atualizar pacote" });
+  }
+};
+
+// Resumo financeiro do aluno: saldo de créditos, compras, pagamentos e alertas
+export const getStudentBilling = async (req: Request, res: Response) => {
+  try {
+    const lead = await findStudent(req, res);
+    if (!lead) return;
+
+    res.json(await getStudentBillingSummary(lead));
+  } catch (error) {
+    console.error('Erro ao buscar dados financeiros do aluno:', error);
+    res.status(500).json({ message: "Erro ao buscar dados financeiros do aluno" });
+  }
+};
+
+export const createPurchase = async (req: Request, res: Response) => {
+  try {
+    const lead = await findStudent(req, res);
+    if (!lead) return;
+
+    if (lead.status !== 'Aluno') {
+      return res.status(400).json({ message: "Pacotes só podem ser vendidos para alunos" });
+    }
+
+    const data = purchaseRequestSchema.parse(req.body);
+    const pkg = await storage.getPackage(data.packageId);
+    if (!pkg || !pkg.active) {
+      return res.status(404).json({ message: "Pacote não encontrado" });
+    }
+
+    const purchasedAt = data.purchasedAt || new Date();
+    const price = data.price ?? pkg.price;
+
+    const purchase = await storage.createPackagePurchase(
+      {
+        leadId: lead.id,
+        packageId: pkg.id,
+        credits: pkg.credits,
+        price,
+        purchasedAt,
+        expiresAt: new Date(purchasedAt.getTime() + pkg.validityDays * DAY_MS),
+        notes: data.notes || null,
+        createdById: req.user?.id ?? null,
+      },
+      data.payment && price > 0
+        ? {
+            amount: price,
+            method: data.payment.method,
+            status: data.payment.status,
+            dueDate: data.payment.dueDate || purchasedAt,
+            paidAt: data.payment.status === 'pago' ? new Date() : null,
+          }
+        : undefined
+    );
+
+    logAuditEvent(AuditEventType.PACKAGE_PURCHASED, req, {
+      leadId: lead.id,
+      purchaseId: purchase.id,
+      packageId: pkg.id,
+      credits: purchase.credits,
+      price,
+    });
+
+    res.status(201).json(purchase);
+  } catch (error) {
+    if (handleValidationError(error, res)) return;
+    console.error('Erro ao registrar compra de pacote:', error);
+    res.status(500).json({ message: "Erro ao registrar compra de pacote" });
+  }
+};
+
+// Cancela uma compra: os créditos restantes deixam de contar no saldo
+export const cancelPurchase = async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "ID inválido" });
+    }
+
+    const purchase = await storage.updatePackagePurchase(id, { status: 'cancelado' });
+    if (!purchase) {
+      return res.status(404).json({ message: "Compra não encontrada" });
+    }
+
+    logAuditEvent(AuditEventType.PACKAGE_CANCELLED, req, { leadId: purchase.leadId, purchaseId: id });
+    res.json(purchase);
+  } catch (error) {
+    console.error('Erro ao cancelar compra:', error);
+    res.status(500).json({ message: "Erro ao cancelar compra" });
+  }
+};
+
+export const createPayment = async (req: Request, res: Response) => {
+  try {
+    const lead = await findStudent(req, res);
+    if (!lead) return;
+
+    const data = paymentValidationSchema.parse({ ...req.body, leadId: lead.id });
+
+    if (data.purchaseId) {
+      const purchase = await storage.getPackagePurchase(data.purchaseId);
+      if (!purchase || purchase.leadId !== lead.id) {
+        return res.status(400).json({ message: "Compra não pertence ao aluno" });
+      }
+    }
+
+    const payment = await storage.createPayment({
+      ...data,
+      paidAt: data.status === 'pago' ? data.paidAt || new Date() : null,
+    });
+
+    logAuditEvent(AuditEventType.PAYMENT_RECORDED, req, {
+      leadId: lead.id,
+      paymentId: payment.id,
+      amount: payment.amount,
+      method: payment.method,
+      status: payment.status,
+    });
+
+    res.status(201).json(payment);
+  } catch (error) {
+    if (handleValidationError(error, res)) return;
+    console.error('Erro ao registrar pagamento:', error);
+    res.status(500).json({ message: "Erro ao registrar pagamento" });
+  }
+};
+
+export const updatePayment = async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "ID inválido" });
+    }
+
+    const existing = await storage.getPayment(id);
+    if (!existing) {
+      return res.status(404).json({ message: "Pagamento não encontrado" });
+    }
+
+    const data = paymentValidationSchema
+      .pick({ amount: true, method: true, status: true, dueDate: true, paidAt: true, notes: true })
+      .partial()
+      .parse(req.body);
+
+    // Registra a data do pagamento ao marcar como pago
+    if (data.status === 'pago' && existing.status !== 'pago' && !data.paidAt) {
+      data.paidAt = new Date();
+    } else if (data.status && data.status !== 'pago') {
+      data.paidAt = null;
+    }
+
+    const payment = await storage.updatePayment(id, data);
+
+    logAuditEvent(AuditEventType.PAYMENT_RECORDED, req, {
+      leadId: existing.leadId,
+      paymentId: id,
+      changes: data,
+    });
+
+    res.json(payment);
+  } catch (error) {
+    if (handleValidationError(error, res)) return;
+    console.error('Erro ao atualizar pagamento:', error);
+    res.status(500).json({ message: "Erro ao atualizar pagamento" });
+  }
+};
+
+// Alunos com saldo baixo, aulas sem crédito ou pagamentos em atraso (usado no dashboard)
+export const getAlerts = async (req: Request, res: Response) => {
+  try {
+    res.json(await getBillingAlerts());
+  } catch (error) {
+    console.error('Erro ao buscar alertas financeiros:', error);
+    res.status(500).json({ message: "Erro ao buscar alertas financeiros" });
+  }
+};
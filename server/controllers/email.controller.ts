@@ -0,0 +1,67 @@
+import type { Request, Response } from "express";
+import { storage } from "../storage";
+import { retryOutboxEmail, processEmailOutbox } from "../email-service";
+import { logAuditEvent, AuditEventType } from "../audit-log";
+
+const OUTBOX_STATUSES = ['pending', 'sending', 'sent', 'failed'];
+
+// Endpoint para listar a fila de e-mails (outbox) com seu status de envio
+export const getEmailOutbox = async (req: Request, res: Response) => {
+  try {
+    const status = req.query.status?.toString();
+    if (status && !OUTBOX_STATUSES.includes(status)) {
+      return res.status(400).json({ message: "Status inválido" });
+    }
+
+    const leadId = req.query.leadId ? parseInt(req.query.leadId.toString()) : undefined;
+    const limit = Math.min(Math.max(1, parseInt(req.query.limit?.toString() || '100')), 500);
+
+    const entries = await storage.getEmailOutboxEntries({
+      status,
+      leadId: leadId && !isNaN(leadId) ? leadId : undefined,
+      limit,
+    });
+
+    res.json(entries);
+  } catch (error) {
+    console.error('Erro ao buscar fila de e-mails:', error);
+    res.status(500).json({ message: "Erro ao buscar fila de e-mails" });
+  }
+};
+
+// Endpoint para reenviar um e-mail que falhou ou está pendente
+export const retryEmail = async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "ID inválido" });
+    }
+
+    const entry = await retryOutboxEmail(id);
+    if (!entry) {
+      return res.status(404).json({ message: "E-mail não encontrado ou já enviado" });
+    }
+
+    logAuditEvent(AuditEventType.EMAIL_RETRY, req, {
+      emailId: id,
+      toAddress: entry.toAddress,
+      category: entry.category,
+    });
+
+    res.json(entry);
+  } catch (error) {
+    console.error('Erro ao reenviar e-mail:', error);
+    res.status(500).json({ message: "Erro ao reenviar e-mail" });
+  }
+};
+
+// Endpoint para forçar o processamento imediato da fila
+export const processOutbox = async (req: Request, res: Response) => {
+  try {
+    const processed = await processEmailOutbox();
+    res.json({ processed });
+  } catch (error) {
+    console.error('Erro ao processar fila de e-mails:', error);
+    res.status(500).json({ message: "Erro ao processar fila de e-mails" });
+  }
+};
@@ -0,0 +1,241 @@
+import type { Request, Response } from "express";
+import { ZodError } from "zod";
+import { storage } from "../storage";
+import { professorCommissionValidationSchema } from "@shared/schema";
+import {
+  isValidPeriod,
+  getPeriodBounds,
+  getPeriodForDate,
+  getRevenueSummary,
+  getPayrollSummary,
+  closePeriod,
+} from "../finance-service";
+import { logAuditEvent, AuditEventType } from "../audit-log";
+
+// Intervalo padrão da receita: últimos 6 meses, incluindo o atual
+function defaultRevenueRange() {
+  const now = new Date();
+  const currentPeriod = getPeriodForDate(now);
+  const [year, month] = currentPeriod.split('-').map(Number);
+  const first = new Date(Date.UTC(year, month - 6, 1));
+  const firstPeriod = `${first.getUTCFullYear()}-${String(first.getUTCMonth() + 1).padStart(2, '0')}`;
+
+  return {
+    startDate: getPeriodBounds(firstPeriod).startDate,
+    endDate: getPeriodBounds(currentPeriod).endDate,
+  };
+}
+
+// Endpoint de receita por período e por origem (Favale/Pink)
+export const getRevenue = async (req: Request, res: Response) => {
+  try {
+    const granularity = req.query.granularity === 'day' ? 'day' : 'month';
+    let { startDate, endDate } = defaultRevenueRange();
+
+    if (req.query.startDate || req.query.endDate) {
+      if (!req.query.startDate || !req.query.endDate) {
+        return res.status(400).json({ message: "Informe startDate e endDate" });
+      }
+
+      const rawEnd = req.query.endDate.toString();
+      startDate = new Date(req.query.startDate.toString());
+      // Datas sem horário incluem o último dia inteiro
+      endDate = new Date(/^\d{4}-\d{2}-\d{2}$/.test(rawEnd) ? `${rawEnd}T23:59:59.999` : rawEnd);
+
+      if (isNaN(startDate.getTime()) || isNaN(endDate.getTime()) || startDate > endDate) {
+        return res.status(400).json({ message: "Período inválido" });
+      }
+    }
+
+    const summary = await getRevenueSummary(startDate, endDate, granularity);
+
+    res.json({
+      startDate: startDate.toISOString(),
+      endDate: endDate.toISOString(),
+      granularity,
+      ...summary,
+    });
+  } catch (error) {
+    console.error('Erro ao calcular receita:', error);
+    res.status(500).json({ message: "Erro ao calcular receita" });
+  }
+};
+
+// Endpoint com os valores devidos a cada professor no mês
+export const getPayroll = async (req: Request, res: Response) => {
+  try {
+    const period = req.query.period?.toString() || getPeriodForDate(new Date());
+    if (!isValidPeriod(period)) {
+      return res.status(400).json({ message: "Período inválido. Use o formato YYYY-MM" });
+    }
+
+    res.json(await getPayrollSummary(period));
+  } catch (error) {
+    console.error('Erro ao calcular folha dos professores:', error);
+    res.status(500).json({ message: "Erro ao calcular folha dos professores" });
+  }
+};
+
+export const getCommissions = async (req: Request, res: Response) => {
+  try {
+    const professorId = req.query.professorId ? parseInt(req.query.professorId.toString()) : undefined;
+    res.json(await storage.getProfessorCommissions(professorId && !isNaN(professorId) ? professorId : undefined));
+  } catch (error) {
+    console.error('Erro ao buscar comissões:', error);
+    res.status(500).json({ message: "Erro ao buscar comissões" });
+  }
+};
+
+// Cria ou atualiza a comissão de um professor para um serviço
+export const saveCommission = async (req: Request, res: Response) => {
+  try {
+    const data = professorCommissionValidationSchema.parse(req.body);
+
+    const professor = await storage.getUser(data.professorId);
+    if (!professor) {
+      return res.status(404).json({ message: "Professor não encontrado" });
+    }
+
+    const commission = await storage.upsertProfessorCommission(data);
+
+    logAuditEvent(AuditEventType.SETTINGS_CHANGED, req, {
+      setting: 'professor_commission',
+      professorId: commission.professorId,
+      service: commission.service,
+      commissionPercent: commission.commissionPercent,
+    });
+
+    res.json(commission);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        message: "Dados inválidos",
+        errors: error.errors.map(err => ({
+          field: err.path.join("."),
+          message: err.message
+        }))
+      });
+    }
+    console.error('Erro ao salvar comissão:', error);
+    res.status(500).json({ message: "Erro ao salvar comissão" });
+  }
+};
+
+export const deleteCommission = async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "ID inválido" });
+    }
+
+    const deleted = await storage.deleteProfessorCommission(id);
+    if (!deleted) {
+      return res.status(500).json({ message: "Erro ao excluir comissão" });
+    }
+
+    logAuditEvent(AuditEventType.SETTINGS_CHANGED, req, { setting: 'professor_commission', deletedId: id });
+    res.status(204).send();
+  } catch (error) {
+    console.error('Erro ao excluir comissão:', error);
+    res.status(500).json({ message: "Erro ao excluir comissão" });
+  }
+};
+
+export const getClosings = async (req: Request, res: Response) => {
+  try {
+    res.json(await storage.getFinancialClosings());
+  } catch (error) {
+    console.error('Erro ao buscar fechamentos:', error);
+    res.status(500).json({ message: "Erro ao buscar fechamentos" });
+  }
+};
+
+// Fecha o mês, congelando os valores devidos e bloqueando alterações nas aulas
+export const createClosing = async (req: Request, res: Response) => {
+  try {
+    const period = req.body?.period?.toString();
+    if (!period || !isValidPeriod(period)) {
+      return res.status(400).json({ message: "Período inválido. Use o formato YYYY-MM" });
+    }
+
+    const result = await closePeriod(period, req.user!.id, req.body?.notes);
+    if ('error' in result) {
+      return res.status(result.status).json({ message: result.error });
+    }
+
+    logAuditEvent(AuditEventType.FINANCIAL_PERIOD_CLOSED, req, {
+      period,
+      revenueTotal: result.closing.revenueTotal,
+      payrollTotal: result.closing.payrollTotal,
+    });
+
+    res.status(201).json(result.closing);
+  } catch (error) {
+    console.error('Erro ao fechar período:', error);
+    res.status(500).json({ message: "Erro ao fechar período" });
+  }
+};
+
+// Reabre um mês fechado, desde que nenhum pagamento tenha sido registrado
+export const reopenClosing = async (req: Request, res: Response) => {
+  try {
+    const period = req.params.period;
+    const closing = isValidPeriod(period) ? await storage.getFinancialClosing(period) : undefined;
+    if (!closing) {
+      return res.status(404).json({ message: "Fechamento não encontrado" });
+    }
+
+    const payouts = await storage.getProfessorPayouts(period);
+    if (payouts.some(payout => payout.status === 'pago')) {
+      return res.status(409).json({ message: "Não é possível reabrir um período com pagamentos registrados" });
+    }
+
+    const deleted = await storage.deleteFinancialClosing(closing.id);
+    if (!deleted) {
+      return res.status(500).json({ message: "Erro ao reabrir período" });
+    }
+
+    logAuditEvent(AuditEventType.FINANCIAL_PERIOD_REOPENED, req, { period });
+    res.status(204).send();
+  } catch (error) {
+    console.error('Erro ao reabrir período:', error);
+    res.status(500).json({ message: "Erro ao reabrir período" });
+  }
+};
+
+// Marca o valor devido a um professor como pago (ou volta para pendente)
+export const updatePayoutStatus = async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "ID inválido" });
+    }
+
+    const status = req.body?.status;
+    if (status !== 'pago' && status !== 'pendente') {
+      return res.status(400).json({ message: "Status inválido. Use pago ou pendente" });
+    }
+
+    const payout = await storage.getProfessorPayout(id);
+    if (!payout) {
+      return res.status(404).json({ message: "Pagamento não encontrado" });
+    }
+
+    const updated = await storage.updateProfessorPayout(id, status === 'pago'
+      ? { status, paidAt: new Date(), paidById: req.user!.id }
+      : { status, paidAt: null, paidById: null });
+
+    logAuditEvent(AuditEventType.PAYOUT_STATUS_CHANGED, req, {
+      payoutId: id,
+      professorId: payout.professorId,
+      period: payout.period,
+      amount: payout.amount,
+      status,
+    });
+
+    res.json(updated);
+  } catch (error) {
+    console.error('Erro ao atualizar pagamento:', error);
+    res.status(500).json({ message: "Erro ao atualizar pagamento" });
+  }
+};
@@ -0,0 +1,45 @@
+import type { Request, Response } from "express";
+import { storage, type HistoryEntityType } from "../storage";
+
+// Busca o registro para confirmar que ele existe antes de retornar o histórico
+const entityLoaders: Record<HistoryEntityType, (id: number) => Promise<unknown>> = {
+  lead: (id) => storage.getLead(id),
+  task: (id) => storage.getTask(id),
+  aula: (id) => storage.getAulaById(id),
+  session: (id) => storage.getSession(id),
+};
+
+const notFoundMessages: Record<HistoryEntityType, string> = {
+  lead: "Lead não encontrado",
+  task: "Tarefa não encontrada",
+  aula: "Aula não encontrada",
+  session: "Sessão não encontrada",
+};
+
+function createHistoryHandler(entityType: HistoryEntityType) {
+  return async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "ID inválido" });
+      }
+
+      const entity = await entityLoaders[entityType](id);
+      if (!entity) {
+        return res.status(404).json({ message: notFoundMessages[entityType] });
+      }
+
+      const history = await storage.getEntityHistory(entityType, id);
+      res.json(history);
+    } catch (error) {
+      console.error(`Erro ao buscar histórico (${entityType}):`, error);
+      res.status(500).json({ message: "Erro ao buscar histórico de alterações" });
+    }
+  };
+}
+
+// Endpoints de histórico de alterações (antes/depois por campo)
+export const getLeadHistory = createHistoryHandler('lead');
+export const getTaskHistory = createHistoryHandler('task');
+export const getAulaHistory = createHistoryHandler('aula');
+export const getSessionHistory = createHistoryHandler('session');
@@ -1,171 +1,10 @@
 import type { Request, Response } from "express";
 import { storage } from "../storage";
-import { leadValidationSchema } from "@shared/schema";
+import { leadValidationSchema, leadSearchValidationSchema, leadDuplicatesQuerySchema, mergeLeadsSchema } from "@shared/schema";
 import { fromZodError } from "zod-validation-error";
-import { normalizePhone } from "../utils/lead.utils"; // Import the utility function
 import { logAuditEvent, AuditEventType } from "../audit-log";
-
-const BATCH_SIZE = 250; // Define batch size constant
-
-// Importação em lote (batch) de leads
-export const importLeadsBatch = async (req: Request, res: Response) => {
-  try {
-    console.log(`Recebendo solicitação de importação em lote de ${req.body.leads?.length || 0} leads`);
-    const { leads } = req.body;
-    
-    if (!Array.isArray(leads) || leads.length === 0) {
-      return res.status(400).json({ message: "Nenhum lead válido fornecido para importação" });
-    }
-    
-    const existingLeads = await storage.getLeads();
-    const phoneToLeadMap = new Map();
-    
-    existingLeads.forEach(lead => {
-      if (lead.phone) {
-        const normalized = normalizePhone(lead.phone);
-        phoneToLeadMap.set(normalized, lead.id);
-      }
-    });
-    
-    const results = { 
-      success: [] as any[],
-      updated: [] as any[],
-      errors: [] as any[]
-    };
-    
-    const totalBatches = Math.ceil(leads.length / BATCH_SIZE);
-    console.log(`Processando ${leads.length} leads em ${totalBatches} lotes de ${BATCH_SIZE}`);
-    
-    for (let batchIndex = 0; batchIndex < totalBatches; batchIndex++) {
-      console.log(`Enviando lote ${batchIndex + 1}/${totalBatches} (${Math.min(BATCH_SIZE, leads.length - batchIndex * BATCH_SIZE)} leads)`);
-      
-      const startIdx = batchIndex * BATCH_SIZE;
-      const endIdx = Math.min((batchIndex + 1) * BATCH_SIZE, leads.length);
-      const currentBatch = leads.slice(startIdx, endIdx);
-      
-      for (let i = 0; i < currentBatch.length; i++) {
-        const globalIndex = startIdx + i;
-        try {
-          let leadData = currentBatch[i];
-          const normalizedCurrentPhone = normalizePhone(leadData.phone);
-          
-          if (normalizedCurrentPhone && phoneToLeadMap.has(normalizedCurrentPhone)) {
-            const existingLeadId = phoneToLeadMap.get(normalizedCurrentPhone);
-            const existingLead = existingLeads.find(l => l.id === existingLeadId);
-            
-            if (existingLead) {
-              // Process tags before update check
-              if (typeof leadData.tags === 'string') {
-                leadData.tags = leadData.tags.split(/[,;]/).map((tag: string) => tag.trim()).filter(Boolean);
-              } else if (!Array.isArray(leadData.tags)) {
-                leadData.tags = [];
-              }
-              
-              if (existingLead.tags && Array.isArray(existingLead.tags) && existingLead.tags.length > 0) {
-                const combinedTags = Array.from(new Set([...existingLead.tags, ...leadData.tags]));
-                leadData.tags = combinedTags.filter(tag => tag && tag.trim() !== '');
-              }
-              
-              // Perform update
-              console.log(`Atualizando lead ID ${existingLeadId} com novos dados`);
-              await storage.updateLead(existingLeadId, leadData); // Use await here
-              results.updated.push({
-                index: globalIndex,
-                id: existingLeadId,
-                action: "atualizado",
-                phone: leadData.phone
-              });
-              continue; // Move to next lead in batch
-            } else {
-               throw new Error(`Telefone ${leadData.phone} já existe, mas o lead correspondente (ID: ${existingLeadId}) não foi encontrado.`);
-            }
-          }
-          
-          // Process tags for new lead
-          if (typeof leadData.tags === 'string') {
-            leadData.tags = leadData.tags.split(/[,;]/).map((tag: string) => tag.trim()).filter(Boolean);
-          } else if (!Array.isArray(leadData.tags)) {
-            leadData.tags = [];
-          }
-
-          const validationResult = leadValidationSchema.safeParse(leadData);
-          
-          if (!validationResult.success) {
-            const validationError = fromZodError(validationResult.error);
-            throw new Error(`Erro de validação: ${validationError.message}`);
-          }
-          
-          let validatedLead = validationResult.data;
-          
-          // Convert entryDate string to Date
-          if (validatedLead.entryDate) {
-             try {
-                if (typeof validatedLead.entryDate === 'string') {
-                  if (/^\d{2}\/\d{2}\/\d{4}$/.test(validatedLead.entryDate)) {
-                    const [day, month, year] = validatedLead.entryDate.split('/');
-                    validatedLead.entryDate = new Date(`${year}-${month}-${day}`);
-                  } else {
-                    validatedLead.entryDate = new Date(validatedLead.entryDate);
-                  }
-                  if (isNaN(validatedLead.entryDate.getTime())) {
-                    console.warn(`Data inválida: ${validatedLead.entryDate}, usando data atual`);
-                    validatedLead.entryDate = new Date(); 
-                  }
-                } else if (!(validatedLead.entryDate instanceof Date)) {
-                  validatedLead.entryDate = new Date();
-                }
-              } catch (e) {
-                console.error(`Erro ao converter data: ${validatedLead.entryDate}`, e);
-                validatedLead.entryDate = new Date();
-              }
-          } else {
-             validatedLead.entryDate = new Date();
-          }
-
-          const newLead = await storage.createLead(validatedLead);
-          
-          if (newLead.phone) {
-            const normalizedNewPhone = normalizePhone(newLead.phone);
-            phoneToLeadMap.set(normalizedNewPhone, newLead.id);
-          }
-          
-          results.success.push({
-            index: globalIndex,
-            id: newLead.id,
-            email: newLead.email
-          });
-        } catch (error) {
-          console.error(`Erro ao processar lead #${globalIndex}:`, error);
-          results.errors.push({
-            index: globalIndex,
-            error: error instanceof Error ? error.message : 'Erro desconhecido',
-            data: currentBatch[i]
-          });
-        }
-      }
-    }
-    
-    logAuditEvent(AuditEventType.LEAD_BATCH_IMPORT, req, { 
-      totalCount: leads.length,
-      successCount: results.success.length,
-      updatedCount: results.updated.length,
-      errorCount: results.errors.length
-    });
-    
-    console.log(`Importação em lote concluída: ${results.success.length} novos, ${results.updated.length} atualizados, ${results.errors.length} erros`);
-    res.status(200).json({
-      message: `Importação concluída. ${results.success.length} leads importados e ${results.updated.length} atualizados com sucesso. ${results.errors.length} erros.`, // Added error count to message
-      totalProcessed: leads.length,
-      successCount: results.success.length,
-      updatedCount: results.updated.length,
-      errorCount: results.errors.length,
-      results
-    });
-  } catch (error) {
-    console.error('Erro na importação em lote:', error);
-    res.status(500).json({ message: "Falha na importação em lote", details: String(error) });
-  }
-};
+import { syncLeadStage } from "../pipeline-service";
+import { findDuplicateLeads, mergeDuplicateLeads } from "../dedup-service";
 
 // Atualização em lote de leads
 export const updateLeadsBatch = async (req: Request, res: Response) => {
@@ -201,6 +40,15 @@ export const updateLeadsBatch = async (req: Request, res: Response) => {
     
     console.log('Dados para atualização em lote:', dataToUpdate);
     const count = await storage.updateLeadsInBatch(ids, dataToUpdate);
+
+    // Status alterado em lote: os leads acompanham no funil
+    if (dataToUpdate.status) {
+      const pipelineStages = await storage.getPipelineStages();
+      for (const id of ids) {
+        const lead = await storage.getLead(id);
+        if (lead) await syncLeadStage(lead, req.user?.id, pipelineStages);
+      }
+    }
     
     logAuditEvent(AuditEventType.LEAD_BATCH_UPDATE, req, {
       leadIds: ids,
@@ -224,6 +72,11 @@ export const deleteLeadsBatch = async (req: Request, res: Response) => {
     if (!Array.isArray(ids) || ids.length === 0) {
       return res.status(400).json({ message: "IDs de leads são obrigatórios" });
     }
+
+    const blockers = await storage.getLeadDeletionBlockers(ids);
+    if (blockers.length > 0) {
+      return res.status(409).json({ message: `Há leads com ${blockers.join(', ')} registrados; eles não podem ser excluídos` });
+    }
     
     const leadsInfo = await Promise.all(
       ids.map(async (id) => {
@@ -261,6 +114,64 @@ export const getAllLeads = async (req: Request, res: Response) => {
   }
 };
 
+// Busca paginada de leads com filtros, ordenação e contagem por faceta
+export const searchLeads = async (req: Request, res: Response) => {
+  try {
+    const validation = leadSearchValidationSchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({ message: fromZodError(validation.error).message });
+    }
+
+    res.json(await storage.searchLeads(validation.data));
+  } catch (error) {
+    console.error('Erro ao buscar leads:', error);
+    res.status(500).json({ message: "Erro ao buscar leads" });
+  }
+};
+
+// Possíveis leads duplicados, com a pontuação de cada par
+export const getDuplicateLeads = async (req: Request, res: Response) => {
+  try {
+    const validation = leadDuplicatesQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({ message: fromZodError(validation.error).message });
+    }
+
+    res.json(await findDuplicateLeads(validation.data.minScore, validation.data.limit));
+  } catch (error) {
+    console.error('Erro ao buscar leads duplicados:', error);
+    res.status(500).json({ message: "Erro ao buscar leads duplicados" });
+  }
+};
+
+// Mesclar leads duplicados em um lead mantido
+export const mergeLeads = async (req: Request, res: Response) => {
+  try {
+    const validation = mergeLeadsSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ message: fromZodError(validation.error).message });
+    }
+
+    const { survivorId, duplicateIds } = validation.data;
+    const result = await mergeDuplicateLeads(survivorId, duplicateIds, req.user?.id);
+    if ('error' in result) {
+      return res.status(result.status).json({ message: result.error });
+    }
+
+    logAuditEvent(AuditEventType.LEAD_MERGED, req, {
+      leadId: survivorId,
+      name: result.lead.name,
+      mergedLeads: result.merged.map(lead => ({ id: lead.id, name: lead.name, phone: lead.phone, email: lead.email })),
+      moved: result.moved,
+    });
+
+    res.json({ lead: result.lead, moved: result.moved });
+  } catch (error) {
+    console.error('Erro ao mesclar leads:', error);
+    res.status(500).json({ message: "Erro ao mesclar leads" });
+  }
+};
+
 // Obter lead por ID
 export const getLeadById = async (req: Request, res: Response) => {
   try {
@@ -309,7 +220,7 @@ export const createLead = async (req: Request, res: Response) => {
     }
     
     console.log('Dados convertidos para inserção:', leadToInsert);
-    const newLead = await storage.createLead(leadToInsert);
+    const newLead = await syncLeadStage(await storage.createLead(leadToInsert), req.user?.id);
     
     logAuditEvent(AuditEventType.LEAD_CREATED, req, {
       leadId: newLead.id,
@@ -361,11 +272,16 @@ export const updateLead = async (req: Request, res: Response) => {
     }
     
     console.log('Dados para atualização:', dataToUpdate);
-    const updatedLead = await storage.updateLead(leadId, dataToUpdate);
+    let updatedLead = await storage.updateLead(leadId, dataToUpdate, req.user?.id);
     
     if (!updatedLead) {
       return res.status(404).json({ message: "Lead não encontrado" });
     }
+
+    // Status alterado pelo formulário: o lead acompanha no funil
+    if (dataToUpdate.status) {
+      updatedLead = await syncLeadStage(updatedLead, req.user?.id);
+    }
     
     // Get original lead data for status change logging
     const originalLead = await storage.getLead(leadId); // Assuming updateLead doesn't return the original
@@ -400,6 +316,11 @@ export const deleteLead = async (req: Request, res: Response) => {
     if (!leadToDelete) {
       return res.status(404).json({ message: "Lead não encontrado" });
     }
+
+    const blockers = await storage.getLeadDeletionBlockers([leadId]);
+    if (blockers.length > 0) {
+      return res.status(409).json({ message: `O lead tem ${blockers.join(', ')} registrados e não pode ser excluído` });
+    }
     
     const success = await storage.deleteLead(leadId);
     
@@ -0,0 +1,184 @@
+import type { Request, Response } from "express";
+import { fromZodError } from "zod-validation-error";
+import { storage } from "../storage";
+import { leadImportMappingSchema, type LeadImportJob } from "@shared/schema";
+import { logAuditEvent, AuditEventType } from "../audit-log";
+import {
+  createLeadImportFromUpload,
+  saveLeadImportMapping,
+  runLeadImportDryRun,
+  startLeadImport,
+  cancelLeadImport,
+  writeLeadImportErrorReport,
+} from "../lead-import-service";
+
+// Campos internos que não vão para o navegador
+const toResponse = ({ filePath, ...job }: LeadImportJob) => job;
+
+async function findJob(req: Request, res: Response): Promise<LeadImportJob | undefined> {
+  const id = parseInt(req.params.id);
+  if (isNaN(id)) {
+    res.status(400).json({ message: "ID inválido" });
+    return undefined;
+  }
+
+  const job = await storage.getLeadImportJob(id);
+  if (!job) {
+    res.status(404).json({ message: "Importação não encontrada" });
+    return undefined;
+  }
+  return job;
+}
+
+/**
+ * Recebe a planilha (CSV ou XLSX) como corpo binário da requisição; o nome do arquivo vem em ?fileName=
+ */
+export const uploadLeadImport = async (req: Request, res: Response) => {
+  try {
+    const fileName = String(req.query.fileName || '').trim();
+    if (!fileName) {
+      return res.status(400).json({ message: "Informe o nome do arquivo" });
+    }
+
+    const result = await createLeadImportFromUpload(req, fileName, req.user?.id);
+    if ('error' in result) {
+      return res.status(result.status).json({ message: result.error });
+    }
+
+    res.status(201).json({ job: toResponse(result.job), sample: result.sample });
+  } catch (error) {
+    console.error('Erro ao receber planilha de importação:', error);
+    res.status(500).json({ message: "Erro ao receber a planilha" });
+  }
+};
+
+export const getLeadImports = async (req: Request, res: Response) => {
+  try {
+    const jobs = await storage.getLeadImportJobs(20);
+    res.json(jobs.map(toResponse));
+  } catch (error) {
+    console.error('Erro ao buscar importações de leads:', error);
+    res.status(500).json({ message: "Erro ao buscar importações de leads" });
+  }
+};
+
+/**
+ * Situação e andamento da importação (linhas processadas, criados, atualizados e erros)
+ */
+export const getLeadImport = async (req: Request, res: Response) => {
+  try {
+    const job = await findJob(req, res);
+    if (job) res.json(toResponse(job));
+  } catch (error) {
+    console.error('Erro ao buscar importação de leads:', error);
+    res.status(500).json({ message: "Erro ao buscar importação de leads" });
+  }
+};
+
+/**
+ * Salva o mapeamento de colunas e os valores padrão; devolve a prévia das primeiras linhas validadas
+ */
+export const updateLeadImportMapping = async (req: Request, res: Response) => {
+  try {
+    const job = await findJob(req, res);
+    if (!job) return;
+
+    const validation = leadImportMappingSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ message: fromZodError(validation.error).message });
+    }
+
+    const result = await saveLeadImportMapping(job, validation.data.mapping, validation.data.defaults);
+    if ('error' in result) {
+      return res.status(result.status).json({ message: result.error });
+    }
+
+    res.json({ job: toResponse(result.job), preview: result.preview });
+  } catch (error) {
+    console.error('Erro ao salvar mapeamento da importação:', error);
+    res.status(500).json({ message: "Erro ao salvar o mapeamento das colunas" });
+  }
+};
+
+export const dryRunLeadImport = async (req: Request, res: Response) => {
+  try {
+    const job = await findJob(req, res);
+    if (!job) return;
+
+    const result = await runLeadImportDryRun(job);
+    if ('error' in result) {
+      return res.status(result.status).json({ message: result.error });
+    }
+
+    res.json({ job: toResponse(result.job), dryRun: result.dryRun });
+  } catch (error) {
+    console.error('Erro ao simular importação de leads:', error);
+    res.status(500).json({ message: "Erro ao simular a importação" });
+  }
+};
+
+/**
+ * Inicia a importação em segundo plano; numa importação que falhou, retoma da última linha gravada
+ */
+export const startLeadImportJob = async (req: Request, res: Response) => {
+  try {
+    const job = await findJob(req, res);
+    if (!job) return;
+
+    const result = await startLeadImport(job);
+    if ('error' in result) {
+      return res.status(result.status).json({ message: result.error });
+    }
+
+    logAuditEvent(AuditEventType.LEAD_BATCH_IMPORT, req, {
+      importId: job.id,
+      fileName: job.fileName,
+      resumed: job.status === 'falhou',
+      totalRows: job.totalRows,
+    });
+    res.json(toResponse(result));
+  } catch (error) {
+    console.error('Erro ao iniciar importação de leads:', error);
+    res.status(500).json({ message: "Erro ao iniciar a importação" });
+  }
+};
+
+export const cancelLeadImportJob = async (req: Request, res: Response) => {
+  try {
+    const job = await findJob(req, res);
+    if (!job) return;
+
+    const result = await cancelLeadImport(job);
+    if ('error' in result) {
+      return res.status(result.status).json({ message: result.error });
+    }
+
+    res.json(toResponse(result));
+  } catch (error) {
+    console.error('Erro ao cancelar importação de leads:', error);
+    res.status(500).json({ message: "Erro ao cancelar a importação" });
+  }
+};
+
+/**
+ * Relatório em CSV das linhas rejeitadas, com o motivo e os valores originais
+ */
+export const downloadLeadImportErrors = async (req: Request, res: Response) => {
+  try {
+    const job = await findJob(req, res);
+    if (!job) return;
+
+    const baseName = job.fileName.replace(/\.[^.]+$/, '').replace(/[^\w.-]+/g, '_');
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="erros_${baseName || 'importacao'}.csv"`);
+    await writeLeadImportErrorReport(job, res);
+    res.end();
+  } catch (error) {
+    console.error('Erro ao gerar relatório de erros da importação:', error);
+    if (res.headersSent) {
+      res.end();
+    } else {
+      res.status(500).json({ message: "Erro ao gerar o relatório de erros" });
+    }
+  }
+};
@@ -0,0 +1,387 @@
+import type { Request, Response } from "express";
+import { ZodError } from "zod";
+import { fromZonedTime, formatInTimeZone } from "date-fns-tz";
+import { storage } from "../storage";
+import {
+  agendamentoRecorrenteValidationSchema,
+  aulaValidationSchema,
+  type AgendamentoRecorrente,
+  type Aula,
+  type Lead,
+  type User,
+} from "@shared/schema";
+import { AVAILABILITY_TIMEZONE } from "@shared/availability";
+import type { IRegraRecorrencia } from "@shared/recurrence";
+import { findClosedPeriod } from "../finance-service";
+import { extendRecurringSeries } from "../recurrence-service";
+import { removeAulasFromGoogle, syncAulaWithGoogle } from "../google-calendar-sync";
+import { offerSlotIfCancelled } from "../waitlist-service";
+import { toAulaStatus, toLegacyStatus, toLegacyWeekDays, toRecurrenceRules } from "../legacy-scheduling";
+
+/**
+ * Camada de compatibilidade de /api/sessions e /api/trainers para as telas antigas.
+ * As sessões não são mais gravadas: cada requisição é traduzida para aulas, séries e professores (users),
+ * e as respostas voltam no formato de sessão. IDs são os do modelo novo (aula e professor);
+ * IDs de sessões migradas são traduzidos por GET /api/sessions/legacy/:legacyId.
+ */
+
+function validationError(res: Response, error: ZodError) {
+  return res.status(400).json({
+    message: "Dados inválidos",
+    errors: error.errors.map(err => ({
+      field: err.path.join("."),
+      message: err.message
+    }))
+  });
+}
+
+/**
+ * Aula no formato de sessão do legado (leadId, trainerId, source e campos recurrence*)
+ */
+function toLegacySession(aula: Aula, lead?: Lead, series?: AgendamentoRecorrente) {
+  const regras = series?.regras as IRegraRecorrencia | undefined;
+  return {
+    id: aula.id,
+    startTime: aula.startTime,
+    endTime: aula.endTime,
+    leadId: aula.studentId,
+    trainerId: aula.professorId,
+    location: aula.location,
+    locationId: aula.locationId,
+    value: aula.value,
+    service: aula.service,
+    notes: aula.notes,
+    status: toLegacyStatus(aula.status),
+    source: lead?.source ?? null,
+    recurrenceType: regras?.type ?? 'none',
+    recurrenceInterval: regras?.interval ?? 1,
+    recurrenceWeekDays: regras ? toLegacyWeekDays(regras.weekDays) : null,
+    recurrenceEndType: regras?.endType ?? 'never',
+    recurrenceEndDate: series?.endDate ?? null,
+    recurrenceEndCount: series?.maxOccurrences ?? null,
+    recurrenceGroupId: series ? String(series.id) : null,
+    isRecurrenceParent: false,
+    parentSessionId: null,
+    createdAt: aula.createdAt,
+    updatedAt: aula.updatedAt,
+  };
+}
+
+async function toLegacySessions(aulasList: Aula[]) {
+  const [leadsList, seriesList] = await Promise.all([
+    storage.getLeads(),
+    storage.getAgendamentosRecorrentes(),
+  ]);
+  const leadsById = new Map(leadsList.map(lead => [lead.id, lead]));
+  const seriesById = new Map<number, AgendamentoRecorrente>(seriesList.map(series => [series.id, series]));
+  return aulasList.map(aula => toLegacySession(
+    aula,
+    leadsById.get(aula.studentId),
+    aula.agendamentoRecorrenteId ? seriesById.get(aula.agendamentoRecorrenteId) : undefined
+  ));
+}
+
+/**
+ * Professor no formato de trainer. No modelo novo o professor atende as duas marcas.
+ */
+function toLegacyTrainer(professor: User) {
+  return {
+    id: professor.id,
+    name: professor.name || professor.username,
+    email: professor.email,
+    phone: professor.phone,
+    specialties: professor.specialties || (professor.specialty ? [professor.specialty] : []),
+    source: 'FavalePink',
+    active: professor.active,
+  };
+}
+
+export const getLegacyTrainers = async (req: Request, res: Response) => {
+  try {
+    const professors = await storage.getAllProfessors();
+    res.json(professors
+      .filter(professor => professor.active)
+      .map(toLegacyTrainer)
+      .sort((a, b) => a.name.localeCompare(b.name)));
+  } catch (error) {
+    console.error('Erro ao buscar professores:', error);
+    res.status(500).json({ message: "Erro ao buscar professores" });
+  }
+};
+
+/**
+ * Sessões no formato antigo. Aceita ?start e ?end (ISO) para limitar o período.
+ */
+export const getLegacySessions = async (req: Request, res: Response) => {
+  try {
+    const startDate = req.query.start ? new Date(String(req.query.start)) : undefined;
+    const endDate = req.query.end ? new Date(String(req.query.end)) : undefined;
+    const aulasList = await storage.getAulas(startDate && endDate ? { startDate, endDate } : undefined);
+    res.json(await toLegacySessions(aulasList));
+  } catch (error) {
+    console.error('Erro ao buscar sessões:', error);
+    res.status(500).json({ message: "Erro ao buscar sessões" });
+  }
+};
+
+/**
+ * Aula correspondente a uma sessão migrada, para links e referências com o ID antigo
+ */
+export const getLegacySessionByLegacyId = async (req: Request, res: Response) => {
+  try {
+    const mapping = await storage.getLegacyIdMapping('session', req.params.legacyId);
+    const aula = mapping ? await storage.getAulaById(mapping.newId) : undefined;
+    if (!aula) {
+      return res.status(404).json({ message: "Sessão não encontrada" });
+    }
+    const [session] = await toLegacySessions([aula]);
+    res.json(session);
+  } catch (error) {
+    console.error('Erro ao buscar sessão migrada:', error);
+    res.status(500).json({ message: "Erro ao buscar sessão" });
+  }
+};
+
+/**
+ * Criação no formato antigo: sessão avulsa vira aula; com recorrência, vira série de aulas
+ */
+export const createLegacySession = async (req: Request, res: Response) => {
+  try {
+    const body = req.body;
+    const base = {
+      professorId: body.trainerId,
+      studentId: body.leadId,
+      location: body.location,
+      locationId: body.locationId ?? null,
+      value: body.value,
+      service: body.service,
+      notes: body.notes || undefined,
+    };
+
+    if (!body.recurrenceType || body.recurrenceType === 'none') {
+      const data = aulaValidationSchema.parse({
+        ...base,
+        startTime: body.startTime,
+        endTime: body.endTime,
+        status: toAulaStatus(body.status),
+      });
+
+      const closedPeriod = await findClosedPeriod(data.startTime);
+      if (closedPeriod) {
+        return res.status(423).json({ message: `O período ${closedPeriod} está fechado para alterações` });
+      }
+
+      const conflict = await storage.checkSchedulingConflicts(
+        data.professorId,
+        data.studentId,
+        data.startTime as Date,
+        data.endTime as Date,
+        undefined,
+        { locationId: data.locationId, location: data.location }
+      );
+      if (conflict) {
+        return res.status(409).json({ message: conflict.message || "Conflito de horário detectado", conflict });
+      }
+
+      const aula = await storage.createAula(data);
+      syncAulaWithGoogle(aula);
+      const [session] = await toLegacySessions([aula]);
+      return res.status(201).json({ ...session, message: 'Sessão criada com sucesso', recurring: false, count: 1 });
+    }
+
+    const startTime = new Date(body.startTime);
+    const endTime = new Date(body.endTime);
+    if (isNaN(startTime.getTime()) || isNaN(endTime.getTime())) {
+      return res.status(400).json({ message: "Horário de início e término são obrigatórios" });
+    }
+    const recurrenceEndDate = body.recurrenceEndDate ? new Date(body.recurrenceEndDate) : null;
+
+    let regras: IRegraRecorrencia;
+    try {
+      regras = toRecurrenceRules({
+        startTime,
+        endTime,
+        recurrenceType: body.recurrenceType,
+        recurrenceInterval: body.recurrenceInterval,
+        recurrenceWeekDays: body.recurrenceWeekDays,
+        recurrenceEndType: body.recurrenceEndType || 'never',
+        recurrenceEndDate,
+        recurrenceEndCount: body.recurrenceEndCount ?? null,
+      });
+    } catch (error) {
+      return res.status(400).json({ message: error instanceof Error ? error.message : "Regra de recorrência inválida" });
+    }
+
+    const data = agendamentoRecorrenteValidationSchema.parse({
+      ...base,
+      regras,
+      startDate: startTime,
+      endDate: body.recurrenceEndType === 'date' && recurrenceEndDate ? recurrenceEndDate : undefined,
+      maxOccurrences: body.recurrenceEndType === 'count' ? body.recurrenceEndCount : undefined,
+    });
+
+    // Ocorrências em conflito são puladas pela geração da série e informadas na resposta
+    const series = await storage.createAgendamentoRecorrente(data);
+    const { created, conflicts } = await extendRecurringSeries(series);
+
+    res.status(201).json({
+      message: 'Sessões criadas com sucesso',
+      recurring: true,
+      count: created.length,
+      skipped: conflicts.length,
+      parentId: created[0]?.id ?? null,
+      groupId: String(series.id),
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationError(res, error);
+    }
+    console.error('Erro ao criar sessão:', error);
+    res.status(500).json({ message: "Erro ao criar sessão" });
+  }
+};
+
+/**
+ * Edição no formato antigo: horário, local, status e observações da aula
+ */
+export const updateLegacySession = async (req: Request, res: Response) => {
+  try {
+    const aulaId = parseInt(req.params.id);
+    if (isNaN(aulaId)) {
+      return res.status(400).json({ message: "ID inválido" });
+    }
+
+    const existingAula = await storage.getAulaById(aulaId);
+    if (!existingAula) {
+      return res.status(404).json({ message: "Sessão não encontrada" });
+    }
+
+    const updates: Partial<Aula> = {};
+    if (req.body.startTime) updates.startTime = new Date(req.body.startTime);
+    if (req.body.endTime) updates.endTime = new Date(req.body.endTime);
+    if (req.body.location) {
+      updates.location = req.body.location;
+      updates.locationId = req.body.locationId ?? null;
+    }
+    if (req.body.status) updates.status = toAulaStatus(req.body.status);
+    if (req.body.notes !== undefined) updates.notes = req.body.notes;
+    if (req.body.trainerId) updates.professorId = req.body.trainerId;
+
+    if (Object.keys(updates).length === 0) {
+      return res.status(400).json({ message: 'Nenhum campo para atualizar' });
+    }
+
+    // Aulas de meses com fechamento financeiro não podem ser alteradas
+    const closedPeriod = await findClosedPeriod(existingAula.startTime, updates.startTime);
+    if (closedPeriod) {
+      return res.status(423).json({ message: `O período ${closedPeriod} está fechado para alterações` });
+    }
+
+    const newStart = updates.startTime ?? existingAula.startTime;
+    const newEnd = updates.endTime ?? existingAula.endTime;
+    const timeChanged = newStart.getTime() !== existingAula.startTime.getTime() || newEnd.getTime() !== existingAula.endTime.getTime();
+    if (timeChanged) {
+      updates.isModified = true;
+      if (!existingAula.originalStartTime) {
+        updates.originalStartTime = existingAula.startTime;
+        updates.originalEndTime = existingAula.endTime;
+      }
+    }
+
+    const professorId = updates.professorId ?? existingAula.professorId;
+    const location = updates.location ?? existingAula.location;
+    const locationId = updates.locationId !== undefined ? updates.locationId : existingAula.locationId;
+    const changed = timeChanged || location !== existingAula.location || professorId !== existingAula.professorId;
+    if (changed && (updates.status ?? existingAula.status) !== 'cancelado') {
+      const conflict = await storage.checkSchedulingConflicts(
+        professorId,
+        existingAula.studentId,
+        newStart,
+        newEnd,
+        aulaId,
+        { locationId, location }
+      );
+      if (conflict) {
+        return res.status(409).json({ message: conflict.message || "Conflito de horário detectado", conflict });
+      }
+    }
+
+    // Atualiza via storage para registrar o histórico de alterações
+    const aula = await storage.updateAula(aulaId, updates, req.user?.id);
+    if (!aula) {
+      return res.status(404).json({ message: "Sessão não encontrada" });
+    }
+    syncAulaWithGoogle(aula);
+    offerSlotIfCancelled(existingAula, aula);
+
+    const [session] = await toLegacySessions([aula]);
+    res.json({ ...session, message: 'Sessão atualizada com sucesso' });
+  } catch (error) {
+    console.error('Erro ao atualizar sessão:', error);
+    res.status(500).json({ message: "Erro ao atualizar sessão" });
+  }
+};
+
+export const deleteLegacySession = async (req: Request, res: Response) => {
+  try {
+    const aulaId = parseInt(req.params.id);
+    const aula = isNaN(aulaId) ? undefined : await storage.getAulaById(aulaId);
+    if (!aula) {
+      return res.status(404).json({ message: "Sessão não encontrada" });
+    }
+
+    const closedPeriod = await findClosedPeriod(aula.startTime);
+    if (closedPeriod) {
+      return res.status(423).json({ message: `O período ${closedPeriod} está fechado para alterações` });
+    }
+
+    const deleted = await storage.deleteAula(aulaId);
+    if (!deleted) {
+      return res.status(500).json({ message: "Erro ao deletar sessão" });
+    }
+    removeAulasFromGoogle([aula]);
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Erro ao deletar sessão:', error);
+    res.status(500).json({ message: "Erro ao deletar sessão" });
+  }
+};
+
+/**
+ * Verificação de conflitos no formato antigo (data + horários do dia, no fuso de São Paulo)
+ */
+export const checkLegacySessionConflicts = async (req: Request, res: Response) => {
+  try {
+    const { trainerId, leadId, date, startTime, endTime } = req.body;
+
+    if (!trainerId || !date || !startTime || !endTime) {
+      return res.status(400).json({ message: "Parâmetros obrigatórios não fornecidos" });
+    }
+
+    const start = fromZonedTime(`${date}T${startTime}`, AVAILABILITY_TIMEZONE);
+    const end = fromZonedTime(`${date}T${endTime}`, AVAILABILITY_TIMEZONE);
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+      return res.status(400).json({ message: "Data ou horário inválido" });
+    }
+
+    // Sem aluno informado, só a agenda do professor é verificada
+    const conflict = await storage.checkSchedulingConflicts(Number(trainerId), Number(leadId) || 0, start, end);
+    if (!conflict) {
+      return res.json({ conflicts: [] });
+    }
+
+    const message = conflict.message
+      || `Já existe aula agendada das ${formatInTimeZone(conflict.startTime, AVAILABILITY_TIMEZONE, 'HH:mm')} às ${formatInTimeZone(conflict.endTime, AVAILABILITY_TIMEZONE, 'HH:mm')}`;
+    res.json({
+      conflicts: [{
+        type: conflict.message ? conflict.type : 'trainer_busy',
+        message,
+        suggestion: 'Use "Sugerir horários" para ver os horários livres do professor.',
+      }],
+    });
+  } catch (error) {
+    console.error('Erro ao verificar conflitos:', error);
+    res.status(500).json({ message: "Erro ao verificar conflitos" });
+  }
+};
@@ -0,0 +1,151 @@
+import type { Request, Response } from "express";
+import { z, ZodError } from "zod";
+import { storage } from "../storage";
+import { locationValidationSchema, travelTimeRuleValidationSchema } from "@shared/schema";
+import { estimateTravel, resolveTravelPoint } from "@shared/travel";
+import { logAuditEvent, AuditEventType } from "../audit-log";
+
+const travelRulesPayloadSchema = z.object({
+  rules: z.array(travelTimeRuleValidationSchema),
+});
+
+function validationError(res: Response, error: ZodError) {
+  return res.status(400).json({
+    message: "Dados inválidos",
+    errors: error.errors.map(err => ({
+      field: err.path.join("."),
+      message: err.message
+    }))
+  });
+}
+
+/**
+ * Locais cadastrados. Com studentId, traz os do aluno e os de uso geral.
+ */
+export const getLocations = async (req: Request, res: Response) => {
+  try {
+    const studentId = req.query.studentId ? parseInt(String(req.query.studentId)) : undefined;
+    res.json(await storage.getLocations({
+      studentId: studentId && !isNaN(studentId) ? studentId : undefined,
+      search: typeof req.query.search === 'string' && req.query.search.trim() ? req.query.search.trim() : undefined,
+      includeInactive: req.query.includeInactive === 'true',
+    }));
+  } catch (error) {
+    console.error('Erro ao buscar locais:', error);
+    res.status(500).json({ message: "Erro ao buscar locais" });
+  }
+};
+
+export const createLocation = async (req: Request, res: Response) => {
+  try {
+    const data = locationValidationSchema.parse(req.body);
+    const location = await storage.createLocation(data);
+
+    logAuditEvent(AuditEventType.SETTINGS_CHANGED, req, { setting: 'location', locationId: location.id, name: location.name });
+    res.status(201).json(location);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationError(res, error);
+    }
+    console.error('Erro ao cadastrar local:', error);
+    res.status(500).json({ message: "Erro ao cadastrar local" });
+  }
+};
+
+export const updateLocation = async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "ID inválido" });
+    }
+
+    const data = locationValidationSchema.parse(req.body);
+    const location = await storage.updateLocation(id, data);
+    if (!location) {
+      return res.status(404).json({ message: "Local não encontrado" });
+    }
+
+    logAuditEvent(AuditEventType.SETTINGS_CHANGED, req, { setting: 'location', locationId: id, name: location.name });
+    res.json(location);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationError(res, error);
+    }
+    console.error('Erro ao atualizar local:', error);
+    res.status(500).json({ message: "Erro ao atualizar local" });
+  }
+};
+
+/**
+ * Locais já usados em aulas não são apagados, apenas deixam de aparecer na seleção
+ */
+export const deactivateLocation = async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "ID inválido" });
+    }
+
+    const location = await storage.updateLocation(id, { active: false });
+    if (!location) {
+      return res.status(404).json({ message: "Local não encontrado" });
+    }
+
+    logAuditEvent(AuditEventType.SETTINGS_CHANGED, req, { setting: 'location', deactivatedId: id });
+    res.status(204).send();
+  } catch (error) {
+    console.error('Erro ao desativar local:', error);
+    res.status(500).json({ message: "Erro ao desativar local" });
+  }
+};
+
+export const getTravelRules = async (req: Request, res: Response) => {
+  try {
+    res.json(await storage.getTravelTimeRules());
+  } catch (error) {
+    console.error('Erro ao buscar regras de deslocamento:', error);
+    res.status(500).json({ message: "Erro ao buscar regras de deslocamento" });
+  }
+};
+
+/**
+ * Substitui a tabela de tempo de deslocamento entre regiões (a tela edita todas de uma vez)
+ */
+export const saveTravelRules = async (req: Request, res: Response) => {
+  try {
+    const { rules } = travelRulesPayloadSchema.parse(req.body);
+    const saved = await storage.replaceTravelTimeRules(rules);
+
+    logAuditEvent(AuditEventType.SETTINGS_CHANGED, req, { setting: 'travel_time_rules', rules: saved.length });
+    res.json(saved);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationError(res, error);
+    }
+    console.error('Erro ao salvar regras de deslocamento:', error);
+    res.status(500).json({ message: "Erro ao salvar regras de deslocamento" });
+  }
+};
+
+/**
+ * Tempo estimado entre dois locais, cadastrados (fromId/toId) ou digitados (from/to)
+ */
+export const getTravelEstimate = async (req: Request, res: Response) => {
+  try {
+    const fromId = req.query.fromId ? parseInt(String(req.query.fromId)) : null;
+    const toId = req.query.toId ? parseInt(String(req.query.toId)) : null;
+    const fromText = typeof req.query.from === 'string' ? req.query.from : null;
+    const toText = typeof req.query.to === 'string' ? req.query.to : null;
+    if (!(fromId || fromText) || !(toId || toText)) {
+      return res.status(400).json({ message: "Informe os dois locais" });
+    }
+
+    const context = await storage.getTravelContext();
+    const from = resolveTravelPoint(context, fromId, fromText);
+    const to = resolveTravelPoint(context, toId, toText);
+    res.json(estimateTravel(from, to, context.rules, context.settings));
+  } catch (error) {
+    console.error('Erro ao estimar deslocamento:', error);
+    res.status(500).json({ message: "Erro ao estimar deslocamento" });
+  }
+};
@@ -2,12 +2,17 @@ import type { Request, Response } from "express";
 import { storage } from "../storage";
 import { agendamentoRecorrenteValidationSchema, aulaValidationSchema } from "../../shared/schema";
 import { ZodError } from "zod";
+import { findClosedPeriod } from "../finance-service";
+import { extendRecurringSeries, getRecurrenceHorizonEnd } from "../recurrence-service";
+import { syncAulaWithGoogle } from "../google-calendar-sync";
+import { offerSlotIfCancelled } from "../waitlist-service";
+import { expandRecurrence, toRRuleLines } from "../../shared/recurrence";
 
 // MÉTODOS PARA AGENDAMENTOS RECORRENTES
 
 /**
  * Criar um novo agendamento recorrente
- * Gera automaticamente as instâncias de aula para os próximos 6 meses
+ * Gera as instâncias de aula até o horizonte configurado; o job de recorrência continua a série depois disso
  */
 export const createRecurrentScheduling = async (req: Request, res: Response) => {
   try {
@@ -26,25 +31,22 @@ export const createRecurrentScheduling = async (req: Request, res: Response) =>
       return res.status(400).json({ message: "Aluno não encontrado" });
     }
 
-    // Criar o agendamento recorrente
-    const agendamento = await storage.createAgendamentoRecorrente(validatedData);
-
-    // Gerar instâncias de aulas para os próximos 6 meses
-    const aulas = await generateRecurrentClasses(agendamento);
-
-    // Validar conflitos para cada aula
+    // Validar conflitos para cada ocorrência antes de criar a série
+    const { occurrences } = expandRecurrence(validatedData, getRecurrenceHorizonEnd());
     const conflicts = [];
-    for (const aula of aulas) {
+    for (const occurrence of occurrences) {
       const hasConflict = await storage.checkSchedulingConflicts(
-        aula.professorId,
-        aula.studentId,
-        new Date(aula.startTime),
-        new Date(aula.endTime)
+        validatedData.professorId,
+        validatedData.studentId,
+        occurrence.startTime,
+        occurrence.endTime,
+        undefined,
+        { locationId: validatedData.locationId, location: validatedData.location }
       );
       
       if (hasConflict) {
         conflicts.push({
-          date: aula.startTime,
+          date: occurrence.startTime,
           conflict: hasConflict
         });
       }
@@ -58,8 +60,9 @@ export const createRecurrentScheduling = async (req: Request, res: Response) =>
       });
     }
 
-    // Criar todas as aulas
-    const createdAulas = await storage.createMultipleAulas(aulas);
+    // Criar o agendamento recorrente e as aulas até o horizonte
+    const agendamento = await storage.createAgendamentoRecorrente(validatedData);
+    const { created: createdAulas } = await extendRecurringSeries(agendamento);
 
     res.status(201).json({
       agendamento,
@@ -144,8 +147,22 @@ export const updateClass = async (req: Request, res: Response) => {
       return res.status(404).json({ message: "Aula não encontrada" });
     }
 
-    // Se horário está sendo alterado, verificar conflitos
-    if (validatedData.startTime || validatedData.endTime) {
+    // Aulas de meses com fechamento financeiro não podem ser alteradas
+    const closedPeriod = await findClosedPeriod(existingAula.startTime, validatedData.startTime as Date | undefined);
+    if (closedPeriod) {
+      return res.status(423).json({ message: `O período ${closedPeriod} está fechado para alterações` });
+    }
+
+    // Local digitado sem escolher um cadastrado desfaz o vínculo anterior
+    if (validatedData.location !== undefined && validatedData.locationId === undefined && validatedData.location !== existingAula.location) {
+      validatedData.locationId = null;
+    }
+    const location = validatedData.location ?? existingAula.location;
+    const locationId = validatedData.locationId !== undefined ? validatedData.locationId : existingAula.locationId;
+    const locationChanged = location !== existingAula.location || locationId !== existingAula.locationId;
+
+    // Se horário ou local está sendo alterado, verificar conflitos (inclusive tempo de deslocamento)
+    if (validatedData.startTime || validatedData.endTime || locationChanged) {
       const startTime = validatedData.startTime ? new Date(validatedData.startTime as any) : new Date(existingAula.startTime);
       const endTime = validatedData.endTime ? new Date(validatedData.endTime as any) : new Date(existingAula.endTime);
       const professorId = validatedData.professorId || existingAula.professorId;
@@ -156,12 +173,13 @@ export const updateClass = async (req: Request, res: Response) => {
         studentId,
         startTime,
         endTime,
-        aulaId // Excluir a própria aula da verificação
+        aulaId, // Excluir a própria aula da verificação
+        { locationId, location }
       );
 
       if (hasConflict) {
         return res.status(409).json({
-          message: "Conflito de horário detectado",
+          message: hasConflict.message || "Conflito de horário detectado",
           conflict: hasConflict
         });
       }
@@ -176,7 +194,11 @@ export const updateClass = async (req: Request, res: Response) => {
       }
     }
 
-    const updatedAula = await storage.updateAula(aulaId, validatedData);
+    const updatedAula = await storage.updateAula(aulaId, validatedData, req.user?.id);
+    if (updatedAula) {
+      syncAulaWithGoogle(updatedAula);
+      offerSlotIfCancelled(existingAula, updatedAula);
+    }
     res.json(updatedAula);
   } catch (error) {
     if (error instanceof ZodError) {
@@ -198,7 +220,7 @@ export const updateClass = async (req: Request, res: Response) => {
  */
 export const checkConflicts = async (req: Request, res: Response) => {
   try {
-    const { professorId, studentId, startTime, endTime, excludeAulaId } = req.body;
+    const { professorId, studentId, startTime, endTime, excludeAulaId, location, locationId } = req.body;
 
     if (!professorId || !studentId || !startTime || !endTime) {
       return res.status(400).json({ message: "Dados obrigatórios não fornecidos" });
@@ -209,7 +231,8 @@ export const checkConflicts = async (req: Request, res: Response) => {
       parseInt(studentId),
       new Date(startTime),
       new Date(endTime),
-      excludeAulaId ? parseInt(excludeAulaId) : undefined
+      excludeAulaId ? parseInt(excludeAulaId) : undefined,
+      location || locationId ? { location, locationId: locationId ? parseInt(locationId) : null } : undefined
     );
 
     res.json({
@@ -223,86 +246,24 @@ export const checkConflicts = async (req: Request, res: Response) => {
 };
 
 /**
- * Função auxiliar para gerar aulas recorrentes
+ * Exportar as regras da série no formato RRULE (RFC 5545)
  */
-async function generateRecurrentClasses(agendamento: any): Promise<any[]> {
-  const aulas = [];
-  const { regras } = agendamento;
-  const startDate = new Date(agendamento.startDate);
-  const endDate = agendamento.endDate ? new Date(agendamento.endDate) : null;
-  const maxDate = new Date();
-  maxDate.setMonth(maxDate.getMonth() + 6); // 6 meses à frente
-
-  let currentDate = new Date(startDate);
-  let occurrenceCount = 0;
-
-  while (currentDate <= maxDate) {
-    // Verificar se atingiu limite de ocorrências
-    if (agendamento.maxOccurrences && occurrenceCount >= agendamento.maxOccurrences) {
-      break;
-    }
-
-    // Verificar se atingiu data limite
-    if (endDate && currentDate > endDate) {
-      break;
+export const exportRecurrenceRule = async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "ID inválido" });
     }
 
-    // Verificar se o dia da semana está nas regras (para recorrência semanal)
-    if (regras.type === 'weekly' && regras.weekDays) {
-      const dayNames = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
-      const currentDayName = dayNames[currentDate.getDay()];
-      if (!regras.weekDays.includes(currentDayName)) {
-        currentDate.setDate(currentDate.getDate() + 1);
-        continue;
-      }
+    const agendamento = await storage.getAgendamentoRecorrenteById(id);
+    if (!agendamento) {
+      return res.status(404).json({ message: "Agendamento recorrente não encontrado" });
     }
 
-    // Criar aula para esta data
-    const startTime = new Date(currentDate);
-    const endTime = new Date(currentDate);
-    
-    // Definir horários baseados na primeira aula
-    const originalStartTime = new Date(startDate);
-    const originalEndTime = new Date(startDate);
-    originalEndTime.setHours(originalStartTime.getHours() + 1); // Duração padrão de 1 hora
-
-    startTime.setHours(originalStartTime.getHours(), originalStartTime.getMinutes());
-    endTime.setHours(originalEndTime.getHours(), originalEndTime.getMinutes());
-
-    aulas.push({
-      agendamentoRecorrenteId: agendamento.id,
-      professorId: agendamento.professorId,
-      studentId: agendamento.studentId,
-      startTime: startTime.toISOString(),
-      endTime: endTime.toISOString(),
-      location: agendamento.location,
-      value: agendamento.value,
-      service: agendamento.service,
-      notes: agendamento.notes,
-      status: "agendado" as const,
-      isModified: false
-    });
-
-    occurrenceCount++;
-
-    // Avançar para próxima ocorrência baseado no tipo de recorrência
-    switch (regras.type) {
-      case 'daily':
-        currentDate.setDate(currentDate.getDate() + regras.interval);
-        break;
-      case 'weekly':
-        currentDate.setDate(currentDate.getDate() + (7 * regras.interval));
-        break;
-      case 'monthly':
-        currentDate.setMonth(currentDate.getMonth() + regras.interval);
-        break;
-      case 'yearly':
-        currentDate.setFullYear(currentDate.getFullYear() + regras.interval);
-        break;
-      default:
-        currentDate.setDate(currentDate.getDate() + 1);
-    }
+    const lines = toRRuleLines(agendamento);
+    res.json({ rrule: lines.join("\n"), lines });
+  } catch (error) {
+    console.error("Erro ao exportar regra de recorrência:", error);
+    res.status(500).json({ message: "Erro ao exportar regra de recorrência" });
   }
-
-  return aulas;
-}
\ No newline at end of file
+};
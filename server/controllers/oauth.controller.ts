@@ -1,7 +1,9 @@
 
 import { Request, Response } from 'express';
 import { storage } from '../storage';
-import { getAuthUrl, getTokensFromCode, setCredentials } from '../google-calendar';
+import { getAuthUrl, getTokensFromCode, isTestMode } from '../google-calendar';
+import { pullGoogleChanges } from '../google-calendar-sync';
+import { getFakeCalendarEvents, simulateFakeGoogleEdit } from '../google-calendar-fake';
 import { logAuditEvent, AuditEventType } from '../audit-log';
 
 export async function getGoogleAuthUrl(req: Request, res: Response) {
@@ -52,9 +54,6 @@ export async function handleGoogleCallback(req: Request, res: Response) {
     // Salvar tokens no banco de dados
     await storage.saveGoogleTokens(req.user!.id, tokens);
     
-    // Configurar credenciais para uso imediato
-    setCredentials(tokens);
-    
     logAuditEvent(AuditEventType.OAUTH_SUCCESS, req, {
       userId: req.user?.id,
       provider: 'google',
@@ -83,23 +82,26 @@ export async function handleGoogleCallback(req: Request, res: Response) {
 
 export async function getTokenStatus(req: Request, res: Response) {
   try {
-    const tokens = await storage.getGoogleTokens(req.user!.id);
+    const connection = await storage.getGoogleConnection(req.user!.id);
     
-    if (!tokens) {
+    if (!connection) {
       return res.json({ 
         authorized: false,
+        testMode: isTestMode,
         message: 'Nenhuma autorização encontrada'
       });
     }
     
-    const now = Date.now();
-    const isExpired = tokens.expiry_date <= now;
+    // Com refresh token o acesso é renovado automaticamente; só expira de fato sem ele
+    const isExpired = !connection.refreshToken && connection.expiryDate.getTime() <= Date.now();
     
     res.json({
       authorized: true,
+      testMode: isTestMode,
       isExpired,
-      hasRefreshToken: !!tokens.refresh_token,
-      expiryDate: new Date(tokens.expiry_date).toISOString()
+      hasRefreshToken: !!connection.refreshToken,
+      expiryDate: connection.expiryDate.toISOString(),
+      lastSyncedAt: connection.lastSyncedAt?.toISOString() || null
     });
   } catch (error) {
     console.error('Erro ao verificar status dos tokens:', error);
@@ -128,3 +130,58 @@ export async function revokeGoogleAccess(req: Request, res: Response) {
     });
   }
 }
+
+/**
+ * Lê agora as alterações feitas no Google Calendar do usuário, sem esperar o job periódico
+ */
+export async function syncGoogleCalendar(req: Request, res: Response) {
+  try {
+    const connection = await storage.getGoogleConnection(req.user!.id);
+    if (!connection) {
+      return res.status(400).json({ message: 'Google Calendar não conectado' });
+    }
+
+    const result = await pullGoogleChanges(req.user!.id);
+    res.json(result);
+  } catch (error) {
+    console.error('Erro ao sincronizar com o Google Calendar:', error);
+    res.status(500).json({ 
+      message: 'Erro ao sincronizar com o Google Calendar',
+      error: error instanceof Error ? error.message : 'Erro desconhecido'
+    });
+  }
+}
+
+/**
+ * Eventos do calendário simulado do usuário (somente em modo de teste)
+ */
+export async function getFakeEvents(req: Request, res: Response) {
+  if (!isTestMode) {
+    return res.status(404).json({ message: 'Calendário simulado disponível apenas em modo de teste' });
+  }
+
+  res.json(getFakeCalendarEvents(req.user!.id));
+}
+
+/**
+ * Simula uma edição feita pelo professor no Google (somente em modo de teste)
+ */
+export async function simulateFakeEventEdit(req: Request, res: Response) {
+  if (!isTestMode) {
+    return res.status(404).json({ message: 'Calendário simulado disponível apenas em modo de teste' });
+  }
+
+  const { startTime, endTime, location, cancelled } = req.body;
+  const event = simulateFakeGoogleEdit(req.user!.id, req.params.eventId, {
+    startTime: startTime ? new Date(startTime).toISOString() : undefined,
+    endTime: endTime ? new Date(endTime).toISOString() : undefined,
+    location,
+    cancelled: !!cancelled,
+  });
+
+  if (!event) {
+    return res.status(404).json({ message: 'Evento não encontrado' });
+  }
+
+  res.json(event);
+}
@@ -0,0 +1,271 @@
+import type { Request, Response } from "express";
+import { ZodError, z } from "zod";
+import { storage } from "../storage";
+import {
+  pipelineStageValidationSchema,
+  lossReasonValidationSchema,
+  moveLeadStageSchema,
+} from "@shared/schema";
+import { logAuditEvent, AuditEventType } from "../audit-log";
+
+const DEFAULT_BOARD_LIMIT = 50;
+const MAX_BOARD_LIMIT = 200;
+const HOUR_MS = 60 * 60 * 1000;
+
+const reorderStagesSchema = z.object({
+  ids: z.array(z.number().int().positive()).min(1, "Informe a ordem das etapas"),
+});
+
+function validationError(res: Response, error: ZodError) {
+  return res.status(400).json({
+    message: "Dados inválidos",
+    errors: error.errors.map(err => ({
+      field: err.path.join("."),
+      message: err.message
+    }))
+  });
+}
+
+function parseId(value: string): number | undefined {
+  const id = parseInt(value);
+  return isNaN(id) ? undefined : id;
+}
+
+export const getStages = async (req: Request, res: Response) => {
+  try {
+    res.json(await storage.getPipelineStages(req.query.active === 'true'));
+  } catch (error) {
+    console.error('Erro ao buscar etapas do funil:', error);
+    res.status(500).json({ message: "Erro ao buscar etapas do funil" });
+  }
+};
+
+export const createStage = async (req: Request, res: Response) => {
+  try {
+    const stages = await storage.getPipelineStages();
+    // Novas etapas entram no fim do quadro quando a posição não é informada
+    const data = pipelineStageValidationSchema.parse({ position: stages.length, ...req.body });
+
+    if (stages.some(stage => stage.name.toLowerCase() === data.name.toLowerCase())) {
+      return res.status(409).json({ message: "Já existe uma etapa com esse nome" });
+    }
+
+    const stage = await storage.createPipelineStage(data);
+    logAuditEvent(AuditEventType.SETTINGS_CHANGED, req, { setting: 'pipeline_stage', stageId: stage.id, name: stage.name });
+    res.status(201).json(stage);
+  } catch (error) {
+    if (error instanceof ZodError) return validationError(res, error);
+    console.error('Erro ao criar etapa do funil:', error);
+    res.status(500).json({ message: "Erro ao criar etapa do funil" });
+  }
+};
+
+export const updateStage = async (req: Request, res: Response) => {
+  try {
+    const id = parseId(req.params.id);
+    if (id === undefined) {
+      return res.status(400).json({ message: "ID inválido" });
+    }
+
+    const data = pipelineStageValidationSchema.partial().parse(req.body);
+    const stages = await storage.getPipelineStages();
+    const stage = stages.find(item => item.id === id);
+    if (!stage) {
+      return res.status(404).json({ message: "Etapa não encontrada" });
+    }
+
+    if (data.name && stages.some(item => item.id !== id && item.name.toLowerCase() === data.name!.toLowerCase())) {
+      return res.status(409).json({ message: "Já existe uma etapa com esse nome" });
+    }
+
+    // Uma etapa desativada some do quadro: os leads dela ficariam sem coluna
+    if (data.active === false && stage.active) {
+      const leadsInStage = await storage.countLeadsInStage(id);
+      if (leadsInStage > 0) {
+        return res.status(409).json({ message: `Mova os ${leadsInStage} lead(s) desta etapa antes de desativá-la` });
+      }
+    }
+
+    // Mudar o tipo alteraria o significado das transições já registradas (ex.: conversões)
+    if (data.kind && data.kind !== stage.kind && await storage.countLeadsInStage(id) > 0) {
+      return res.status(409).json({ message: "Não é possível alterar o tipo de uma etapa com leads" });
+    }
+
+    const updated = await storage.updatePipelineStage(id, data);
+    logAuditEvent(AuditEventType.SETTINGS_CHANGED, req, { setting: 'pipeline_stage', stageId: id, changes: data });
+    res.json(updated);
+  } catch (error) {
+    if (error instanceof ZodError) return validationError(res, error);
+    console.error('Erro ao atualizar etapa do funil:', error);
+    res.status(500).json({ message: "Erro ao atualizar etapa do funil" });
+  }
+};
+
+export const reorderStages = async (req: Request, res: Response) => {
+  try {
+    const { ids } = reorderStagesSchema.parse(req.body);
+    const stages = await storage.getPipelineStages();
+
+    if (ids.length !== stages.length || !stages.every(stage => ids.includes(stage.id))) {
+      return res.status(400).json({ message: "A nova ordem deve conter todas as etapas" });
+    }
+
+    await storage.reorderPipelineStages(ids);
+    logAuditEvent(AuditEventType.SETTINGS_CHANGED, req, { setting: 'pipeline_order', ids });
+    res.json(await storage.getPipelineStages());
+  } catch (error) {
+    if (error instanceof ZodError) return validationError(res, error);
+    console.error('Erro ao reordenar etapas do funil:', error);
+    res.status(500).json({ message: "Erro ao reordenar etapas do funil" });
+  }
+};
+
+export const getLossReasons = async (req: Request, res: Response) => {
+  try {
+    res.json(await storage.getLossReasons(req.query.active === 'true'));
+  } catch (error) {
+    console.error('Erro ao buscar motivos de perda:', error);
+    res.status(500).json({ message: "Erro ao buscar motivos de perda" });
+  }
+};
+
+export const createLossReason = async (req: Request, res: Response) => {
+  try {
+    const data = lossReasonValidationSchema.parse(req.body);
+    const reasons = await storage.getLossReasons();
+
+    if (reasons.some(reason => reason.name.toLowerCase() === data.name.toLowerCase())) {
+      return res.status(409).json({ message: "Esse motivo de perda já existe" });
+    }
+
+    const reason = await storage.createLossReason(data);
+    logAuditEvent(AuditEventType.SETTINGS_CHANGED, req, { setting: 'loss_reason', reasonId: reason.id, name: reason.name });
+    res.status(201).json(reason);
+  } catch (error) {
+    if (error instanceof ZodError) return validationError(res, error);
+    console.error('Erro ao criar motivo de perda:', error);
+    res.status(500).json({ message: "Erro ao criar motivo de perda" });
+  }
+};
+
+export const updateLossReason = async (req: Request, res: Response) => {
+  try {
+    const id = parseId(req.params.id);
+    if (id === undefined) {
+      return res.status(400).json({ message: "ID inválido" });
+    }
+
+    const data = lossReasonValidationSchema.partial().parse(req.body);
+    const reason = await storage.updateLossReason(id, data);
+    if (!reason) {
+      return res.status(404).json({ message: "Motivo de perda não encontrado" });
+    }
+
+    logAuditEvent(AuditEventType.SETTINGS_CHANGED, req, { setting: 'loss_reason', reasonId: id, changes: data });
+    res.json(reason);
+  } catch (error) {
+    if (error instanceof ZodError) return validationError(res, error);
+    console.error('Erro ao atualizar motivo de perda:', error);
+    res.status(500).json({ message: "Erro ao atualizar motivo de perda" });
+  }
+};
+
+/**
+ * Quadro do funil: etapas ativas com o total de leads e os leads que entraram nelas mais recentemente
+ */
+export const getBoard = async (req: Request, res: Response) => {
+  try {
+    const requested = parseInt(String(req.query.limit || DEFAULT_BOARD_LIMIT));
+    const limit = isNaN(requested) ? DEFAULT_BOARD_LIMIT : Math.min(Math.max(requested, 1), MAX_BOARD_LIMIT);
+    res.json(await storage.getPipelineBoard(limit));
+  } catch (error) {
+    console.error('Erro ao buscar quadro do funil:', error);
+    res.status(500).json({ message: "Erro ao buscar quadro do funil" });
+  }
+};
+
+export const moveLeadStage = async (req: Request, res: Response) => {
+  try {
+    const leadId = parseId(req.params.id);
+    if (leadId === undefined) {
+      return res.status(400).json({ message: "ID do lead inválido" });
+    }
+
+    const data = moveLeadStageSchema.parse(req.body);
+    const [lead, stage] = await Promise.all([storage.getLead(leadId), storage.getPipelineStage(data.stageId)]);
+    if (!lead) {
+      return res.status(404).json({ message: "Lead não encontrado" });
+    }
+    if (!stage || !stage.active) {
+      return res.status(400).json({ message: "Etapa inválida" });
+    }
+    if (stage.kind === 'perdido' && !data.lossReason) {
+      return res.status(400).json({ message: "Informe o motivo da perda" });
+    }
+
+    const moved = await storage.moveLeadToStage(leadId, stage, {
+      changedBy: req.user?.id,
+      lossReason: data.lossReason,
+    });
+
+    if (lead.stageId !== stage.id) {
+      logAuditEvent(AuditEventType.LEAD_STAGE_CHANGED, req, {
+        leadId,
+        name: lead.name,
+        fromStageId: lead.stageId,
+        toStageId: stage.id,
+        stage: stage.name,
+        lossReason: stage.kind === 'perdido' ? data.lossReason : undefined,
+      });
+    }
+
+    res.json(moved);
+  } catch (error) {
+    if (error instanceof ZodError) return validationError(res, error);
+    console.error('Erro ao mover lead de etapa:', error);
+    res.status(500).json({ message: "Erro ao mover lead de etapa" });
+  }
+};
+
+/**
+ * Passagens do lead pelo funil, com o tempo que ele ficou em cada etapa
+ */
+export const getLeadStageHistory = async (req: Request, res: Response) => {
+  try {
+    const leadId = parseId(req.params.id);
+    if (leadId === undefined) {
+      return res.status(400).json({ message: "ID do lead inválido" });
+    }
+
+    const lead = await storage.getLead(leadId);
+    if (!lead) {
+      return res.status(404).json({ message: "Lead não encontrado" });
+    }
+
+    const [transitions, stages] = await Promise.all([
+      storage.getLeadStageTransitions(leadId),
+      storage.getPipelineStages(),
+    ]);
+    const stageName = (id: number | null) => stages.find(stage => stage.id === id)?.name ?? null;
+
+    // Cada transição encerra a passagem pela etapa anterior; a etapa atual conta até agora
+    const stays = transitions.map((transition, index) => {
+      const leftAt = transitions[index + 1]?.createdAt ?? null;
+      const until = leftAt ?? new Date();
+      return {
+        stageId: transition.toStageId,
+        stage: stageName(transition.toStageId),
+        enteredAt: transition.createdAt,
+        leftAt,
+        hoursInStage: Number(((until.getTime() - transition.createdAt.getTime()) / HOUR_MS).toFixed(1)),
+        lossReason: transition.lossReason,
+        changedBy: transition.changedBy,
+      };
+    });
+
+    res.json(stays);
+  } catch (error) {
+    console.error('Erro ao buscar histórico de etapas do lead:', error);
+    res.status(500).json({ message: "Erro ao buscar histórico de etapas do lead" });
+  }
+};
@@ -0,0 +1,403 @@
+import type { Request, Response } from "express";
+import { z, ZodError } from "zod";
+import { addDays, differenceInMinutes } from "date-fns";
+import { formatInTimeZone } from "date-fns-tz";
+import { storage } from "../storage";
+import type { Aula, InsertAula } from "@shared/schema";
+import { AVAILABILITY_TIMEZONE } from "@shared/availability";
+import { canStudentCancel, canStudentReschedule, checkRescheduleRequest } from "@shared/portal";
+import { isLateCancellation } from "@shared/attendance";
+import { getAttendancePolicy } from "../attendance";
+import { findClosedPeriod } from "../finance-service";
+import { syncAulaWithGoogle } from "../google-calendar-sync";
+import { offerSlotIfCancelled } from "../waitlist-service";
+import { findFreeSlots } from "../slot-finder";
+import {
+  findPortalStudent,
+  sendPortalAccess,
+  verifyPortalToken,
+  verifyPortalCode,
+  notifyStaffOfPortalChange,
+  buildPaymentReceipt,
+  getPortalSettings,
+} from "../portal-service";
+import { logAuditEvent, AuditEventType } from "../audit-log";
+
+const accessRequestSchema = z.object({
+  identifier: z.string().trim().min(1, "Informe seu e-mail ou telefone"),
+});
+
+const accessVerifySchema = z.union([
+  z.object({ token: z.string().min(1) }),
+  z.object({
+    identifier: z.string().trim().min(1, "Informe seu e-mail ou telefone"),
+    code: z.string().trim().regex(/^\d{6}$/, "O código tem 6 dígitos"),
+  }),
+]);
+
+const rescheduleRequestSchema = z.object({
+  startTime: z.string().transform(val => new Date(val)).refine(date => !isNaN(date.getTime()), "Horário inválido"),
+});
+
+const cancelRequestSchema = z.object({
+  reason: z.string().trim().min(1, "Informe o motivo do cancelamento"),
+});
+
+function validationError(res: Response, error: ZodError) {
+  return res.status(400).json({
+    message: "Dados inválidos",
+    errors: error.errors.map(err => ({
+      field: err.path.join("."),
+      message: err.message
+    }))
+  });
+}
+
+// Resposta igual para identificadores conhecidos ou não, para não revelar quem é aluno
+const ACCESS_REQUESTED_MESSAGE = "Se o contato estiver cadastrado, você receberá o link e o código de acesso em instantes";
+
+/**
+ * Aula do aluno autenticado no portal (aulas de outros alunos respondem como inexistentes)
+ */
+async function findStudentAula(req: Request, res: Response): Promise<Aula | undefined> {
+  const aulaId = parseInt(req.params.id);
+  if (isNaN(aulaId)) {
+    res.status(400).json({ message: "ID inválido" });
+    return undefined;
+  }
+
+  const aula = await storage.getAulaById(aulaId);
+  if (!aula || aula.studentId !== req.portalLead!.id) {
+    res.status(404).json({ message: "Aula não encontrada" });
+    return undefined;
+  }
+  return aula;
+}
+
+/**
+ * Envia link mágico e código ao e-mail ou WhatsApp informado
+ */
+export const requestAccess = async (req: Request, res: Response) => {
+  try {
+    const { identifier } = accessRequestSchema.parse(req.body);
+
+    if (!getPortalSettings().baseUrl) {
+      return res.status(503).json({ message: "O portal do aluno não está configurado" });
+    }
+
+    const student = await findPortalStudent(identifier);
+    if (student) {
+      const sent = await sendPortalAccess(student.lead, student.channel);
+      logAuditEvent(AuditEventType.PORTAL_ACCESS, req, { action: 'requested', leadId: student.lead.id, channel: student.channel, sent });
+    }
+
+    res.json({ message: ACCESS_REQUESTED_MESSAGE });
+  } catch (error) {
+    if (error instanceof ZodError) return validationError(res, error);
+    console.error('Erro ao enviar acesso ao portal:', error);
+    res.status(500).json({ message: "Erro ao enviar acesso ao portal" });
+  }
+};
+
+/**
+ * Abre a sessão do portal com o link mágico ou com o código digitado
+ */
+export const verifyAccess = async (req: Request, res: Response) => {
+  try {
+    const data = accessVerifySchema.parse(req.body);
+    const lead = 'token' in data
+      ? await verifyPortalToken(data.token)
+      : await verifyPortalCode(data.identifier, data.code);
+
+    if (!lead) {
+      logAuditEvent(AuditEventType.PORTAL_ACCESS, req, { action: 'failed', method: 'token' in data ? 'link' : 'code' });
+      return res.status(401).json({ message: "Link ou código inválido ou expirado" });
+    }
+
+    // Nova sessão a cada login, para que um ID de sessão plantado antes não herde o acesso do aluno
+    await new Promise<void>((resolve, reject) => req.session.regenerate(error => error ? reject(error) : resolve()));
+    req.session.portalLeadId = lead.id;
+    logAuditEvent(AuditEventType.PORTAL_ACCESS, req, { action: 'login', leadId: lead.id, method: 'token' in data ? 'link' : 'code' });
+    res.json({ id: lead.id, name: lead.name });
+  } catch (error) {
+    if (error instanceof ZodError) return validationError(res, error);
+    console.error('Erro ao validar acesso ao portal:', error);
+    res.status(500).json({ message: "Erro ao validar acesso ao portal" });
+  }
+};
+
+export const logoutPortal = (req: Request, res: Response) => {
+  delete req.session.portalLeadId;
+  res.sendStatus(200);
+};
+
+export const getPortalProfile = (req: Request, res: Response) => {
+  const lead = req.portalLead!;
+  res.json({
+    id: lead.id,
+    name: lead.name,
+    email: lead.email,
+    phone: lead.phone,
+    source: lead.source,
+    policy: getPortalSettings().policy,
+    lateCancellationHours: getAttendancePolicy().lateCancellationHours,
+  });
+};
+
+/**
+ * Próximas aulas do aluno, com o que ele pode fazer em cada uma
+ */
+export const getPortalClasses = async (req: Request, res: Response) => {
+  try {
+    const now = new Date();
+    const { policy } = getPortalSettings();
+    const attendancePolicy = getAttendancePolicy();
+    const aulas = await storage.getAulas({ studentId: req.portalLead!.id });
+    const professors = await storage.getAllProfessors();
+
+    res.json(aulas
+      .filter(aula => aula.endTime > now && aula.status !== 'cancelado')
+      .map(aula => {
+        const professor = professors.find(item => item.id === aula.professorId);
+        return {
+          id: aula.id,
+          service: aula.service,
+          startTime: aula.startTime,
+          endTime: aula.endTime,
+          location: aula.location,
+          status: aula.status,
+          professorName: professor?.name || professor?.username || null,
+          canReschedule: canStudentReschedule(aula, now, policy),
+          canCancel: canStudentCancel(aula, now),
+          lateCancellation: isLateCancellation(aula.startTime, now, attendancePolicy),
+        };
+      }));
+  } catch (error) {
+    console.error('Erro ao buscar aulas do portal:', error);
+    res.status(500).json({ message: "Erro ao buscar aulas" });
+  }
+};
+
+/**
+ * Horários livres com o mesmo professor para remarcar a aula, dentro da política do portal
+ */
+export const getRescheduleOptions = async (req: Request, res: Response) => {
+  try {
+    const aula = await findStudentAula(req, res);
+    if (!aula) return;
+
+    const now = new Date();
+    const { policy } = getPortalSettings();
+    if (!canStudentReschedule(aula, now, policy)) {
+      return res.json([]);
+    }
+
+    const earliest = new Date(now.getTime() + policy.rescheduleNoticeHours * 60 * 60 * 1000);
+    const result = await findFreeSlots({
+      studentId: aula.studentId,
+      durationMinutes: differenceInMinutes(aula.endTime, aula.startTime),
+      serviceName: aula.service,
+      fromDate: formatInTimeZone(earliest, AVAILABILITY_TIMEZONE, 'yyyy-MM-dd'),
+      toDate: formatInTimeZone(addDays(aula.startTime, policy.rescheduleWindowDays), AVAILABILITY_TIMEZONE, 'yyyy-MM-dd'),
+      location: aula.location,
+      locationId: aula.locationId,
+      professorIds: [aula.professorId],
+      excludeAulaId: aula.id,
+      limit: 20,
+    });
+
+    res.json(result.slots
+      .filter(slot => !checkRescheduleRequest(aula, new Date(slot.startTime), now, policy))
+      .sort((a, b) => a.startTime.localeCompare(b.startTime))
+      .map(slot => ({ startTime: slot.startTime, endTime: slot.endTime })));
+  } catch (error) {
+    console.error('Erro ao buscar horários para remarcação:', error);
+    res.status(500).json({ message: "Erro ao buscar horários para remarcação" });
+  }
+};
+
+/**
+ * Remarca a aula para outro horário com o mesmo professor, usando as mesmas verificações de conflito da agenda
+ */
+export const rescheduleClass = async (req: Request, res: Response) => {
+  try {
+    const { startTime } = rescheduleRequestSchema.parse(req.body);
+
+    const aula = await findStudentAula(req, res);
+    if (!aula) return;
+
+    const policyError = checkRescheduleRequest(aula, startTime, new Date(), getPortalSettings().policy);
+    if (policyError) {
+      return res.status(409).json({ message: policyError });
+    }
+
+    const endTime = new Date(startTime.getTime() + (aula.endTime.getTime() - aula.startTime.getTime()));
+
+    const closedPeriod = await findClosedPeriod(aula.startTime, startTime);
+    if (closedPeriod) {
+      return res.status(423).json({ message: `O período ${closedPeriod} está fechado para alterações` });
+    }
+
+    const conflict = await storage.checkSchedulingConflicts(
+      aula.professorId,
+      aula.studentId,
+      startTime,
+      endTime,
+      aula.id,
+      { locationId: aula.locationId, location: aula.location }
+    );
+    if (conflict) {
+      return res.status(409).json({ message: conflict.message || "Horário indisponível" });
+    }
+
+    const changes: Partial<InsertAula> = { startTime, endTime, status: 'remarcado', isModified: true };
+    if (!aula.originalStartTime) {
+      changes.originalStartTime = aula.startTime;
+      changes.originalEndTime = aula.endTime;
+    }
+
+    const updated = await storage.updateAula(aula.id, changes);
+    if (!updated) {
+      return res.status(404).json({ message: "Aula não encontrada" });
+    }
+    syncAulaWithGoogle(updated);
+    notifyStaffOfPortalChange(updated, req.portalLead!, { action: 'remarcada', previousStart: aula.startTime });
+
+    logAuditEvent(AuditEventType.PORTAL_AULA_CHANGED, req, {
+      action: 'rescheduled',
+      leadId: req.portalLead!.id,
+      aulaId: aula.id,
+      previousStart: aula.startTime,
+      startTime,
+    });
+    res.json(updated);
+  } catch (error) {
+    if (error instanceof ZodError) return validationError(res, error);
+    console.error('Erro ao remarcar aula pelo portal:', error);
+    res.status(500).json({ message: "Erro ao remarcar aula" });
+  }
+};
+
+/**
+ * Cancela a aula; o cancelamento tardio é cobrado conforme a política de presença
+ */
+export const cancelClass = async (req: Request, res: Response) => {
+  try {
+    const { reason } = cancelRequestSchema.parse(req.body);
+
+    const aula = await findStudentAula(req, res);
+    if (!aula) return;
+
+    if (!canStudentCancel(aula, new Date())) {
+      return res.status(409).json({ message: "Esta aula não pode mais ser cancelada" });
+    }
+
+    const closedPeriod = await findClosedPeriod(aula.startTime);
+    if (closedPeriod) {
+      return res.status(423).json({ message: `O período ${closedPeriod} está fechado para alterações` });
+    }
+
+    const updated = await storage.updateAula(aula.id, { status: 'cancelado', cancellationReason: reason });
+    if (!updated) {
+      return res.status(404).json({ message: "Aula não encontrada" });
+    }
+    syncAulaWithGoogle(updated);
+    offerSlotIfCancelled(aula, updated);
+    notifyStaffOfPortalChange(updated, req.portalLead!, { action: 'cancelada', reason, lateCancellation: updated.lateCancellation });
+
+    logAuditEvent(AuditEventType.PORTAL_AULA_CHANGED, req, {
+      action: 'cancelled',
+      leadId: req.portalLead!.id,
+      aulaId: aula.id,
+      reason,
+      lateCancellation: updated.lateCancellation,
+    });
+    res.json(updated);
+  } catch (error) {
+    if (error instanceof ZodError) return validationError(res, error);
+    console.error('Erro ao cancelar aula pelo portal:', error);
+    res.status(500).json({ message: "Erro ao cancelar aula" });
+  }
+};
+
+/**
+ * Saldo de créditos e pacotes ativos do aluno
+ */
+export const getPortalCredits = async (req: Request, res: Response) => {
+  try {
+    const leadId = req.portalLead!.id;
+    const now = new Date();
+    const [balances, purchases, packages] = await Promise.all([
+      storage.getCreditBalances(leadId),
+      storage.getPackagePurchases(leadId),
+      storage.getPackages(),
+    ]);
+
+    res.json({
+      creditsAvailable: balances[0]?.creditsAvailable ?? 0,
+      unpaidLessons: balances[0]?.unpaidLessons ?? 0,
+      nextExpiry: balances[0]?.nextExpiry ?? null,
+      purchases: purchases
+        .filter(purchase => purchase.status === 'ativo' && purchase.expiresAt >= now)
+        .map(purchase => ({
+          id: purchase.id,
+          packageName: packages.find(pkg => pkg.id === purchase.packageId)?.name ?? null,
+          credits: purchase.credits,
+          creditsUsed: purchase.creditsUsed,
+          purchasedAt: purchase.purchasedAt,
+          expiresAt: purchase.expiresAt,
+        })),
+    });
+  } catch (error) {
+    console.error('Erro ao buscar créditos do portal:', error);
+    res.status(500).json({ message: "Erro ao buscar créditos" });
+  }
+};
+
+export const getPortalPayments = async (req: Request, res: Response) => {
+  try {
+    const payments = await storage.getPayments({ leadId: req.portalLead!.id });
+    res.json(payments
+      .filter(payment => payment.status !== 'cancelado')
+      .map(payment => ({
+        id: payment.id,
+        amount: payment.amount,
+        method: payment.method,
+        status: payment.status,
+        dueDate: payment.dueDate,
+        paidAt: payment.paidAt,
+        hasReceipt: payment.status === 'pago',
+      })));
+  } catch (error) {
+    console.error('Erro ao buscar pagamentos do portal:', error);
+    res.status(500).json({ message: "Erro ao buscar pagamentos" });
+  }
+};
+
+/**
+ * Recibo de um pagamento quitado, baixado como arquivo HTML
+ */
+export const downloadReceipt = async (req: Request, res: Response) => {
+  try {
+    const paymentId = parseInt(req.params.id);
+    if (isNaN(paymentId)) {
+      return res.status(400).json({ message: "ID inválido" });
+    }
+
+    const payment = await storage.getPayment(paymentId);
+    if (!payment || payment.leadId !== req.portalLead!.id) {
+      return res.status(404).json({ message: "Pagamento não encontrado" });
+    }
+    if (payment.status !== 'pago') {
+      return res.status(409).json({ message: "O recibo fica disponível após a confirmação do pagamento" });
+    }
+
+    const receipt = await buildPaymentReceipt(payment, req.portalLead!);
+    res.setHeader('Content-Type', 'text/html; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="recibo-${payment.id}.html"`);
+    res.send(receipt);
+  } catch (error) {
+    console.error('Erro ao gerar recibo:', error);
+    res.status(500).json({ message: "Erro ao gerar recibo" });
+  }
+};
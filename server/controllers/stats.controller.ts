@@ -1,67 +1,163 @@
 import type { Request, Response } from "express";
+import { fromZonedTime } from "date-fns-tz";
 import { storage } from "../storage"; // Adjust path as needed
-import { sql } from 'drizzle-orm';
+import { AVAILABILITY_TIMEZONE } from "@shared/availability";
+
+type StatsPeriod = 'week' | 'month' | 'quarter' | 'custom';
+
+const PERIOD_DAYS: Record<Exclude<StatsPeriod, 'custom'>, number> = {
+  week: 7,
+  month: 30,
+  quarter: 90,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface PeriodRange {
+  period: StatsPeriod;
+  startDate: Date;
+  endDate: Date;
+  previousStartDate: Date;
+  previousEndDate: Date;
+}
+
+// Resolve o período atual e o período anterior de mesma duração (para comparação)
+function resolvePeriod(query: Request['query']): PeriodRange | { error: string } {
+  const period = (query.period?.toString() || 'month') as StatsPeriod;
+  let startDate: Date;
+  let endDate: Date;
+
+  if (period === 'custom') {
+    if (!query.startDate || !query.endDate) {
+      return { error: "Informe startDate e endDate para o período personalizado" };
+    }
+
+    // Datas do período personalizado são do fuso do estúdio; sem horário, o último dia entra inteiro
+    const rawStart = query.startDate.toString();
+    const rawEnd = query.endDate.toString();
+    startDate = fromZonedTime(/^\d{4}-\d{2}-\d{2}$/.test(rawStart) ? `${rawStart}T00:00:00` : rawStart, AVAILABILITY_TIMEZONE);
+    endDate = fromZonedTime(/^\d{4}-\d{2}-\d{2}$/.test(rawEnd) ? `${rawEnd}T23:59:59.999` : rawEnd, AVAILABILITY_TIMEZONE);
+
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime()) || startDate > endDate) {
+      return { error: "Período inválido" };
+    }
+  } else if (period in PERIOD_DAYS) {
+    endDate = new Date();
+    startDate = new Date(endDate.getTime() - PERIOD_DAYS[period] * DAY_MS);
+  } else {
+    return { error: "Período inválido. Use week, month, quarter ou custom" };
+  }
+
+  const duration = endDate.getTime() - startDate.getTime();
+  const previousEndDate = new Date(startDate.getTime() - 1);
+  const previousStartDate = new Date(previousEndDate.getTime() - duration);
+
+  return { period, startDate, endDate, previousStartDate, previousEndDate };
+}
+
+// Variação percentual entre períodos (null quando não há base de comparação)
+function percentChange(current: number, previous: number): number | null {
+  if (previous === 0) {
+    return current === 0 ? 0 : null;
+  }
+  return Number((((current - previous) / previous) * 100).toFixed(1));
+}
+
+function ratio(numerator: number, denominator: number, percentage = false): number {
+  if (denominator === 0) return 0;
+  const value = numerator / denominator * (percentage ? 100 : 1);
+  return Number(value.toFixed(1));
+}
 
 export const getStats = async (req: Request, res: Response) => {
   try {
-    // Buscar todos os leads e alunos
-    const allLeadsPromise = storage.getLeads();
-    // Assuming getStudents() exists and returns Student data (or similar)
-    // If `getStudents` isn't implemented in storage, we might need to fetch leads with status 'Aluno'
-    const studentsPromise = storage.getStudents ? storage.getStudents() : storage.getLeads().then(leads => leads.filter(l => l.status === 'Aluno'));
-
-    const [allLeads, alunos] = await Promise.all([allLeadsPromise, studentsPromise]);
-
-    // Calcular taxa de conversão (Alunos / Leads Totais)
-    const conversionRate = allLeads.length > 0 ? (alunos.length / allLeads.length) * 100 : 0;
-
-    // Calcular crescimento mensal (simulado)
-    // Ideally, this would query leads based on creation date
-    const oneMonthAgo = new Date();
-    oneMonthAgo.setMonth(oneMonthAgo.getMonth() - 1);
-    const leadsLastMonth = allLeads.filter(lead => new Date(lead.entryDate) >= oneMonthAgo).length;
-    const leadsBeforeLastMonth = allLeads.length - leadsLastMonth;
-    const monthlyGrowth = leadsBeforeLastMonth > 0 ? ((leadsLastMonth - leadsBeforeLastMonth) / leadsBeforeLastMonth) * 100 : (leadsLastMonth > 0 ? 100 : 0);
-
-    // Agrupar leads por origem, estado e campanha (se disponíveis)
-    const leadsBySource = allLeads.reduce((acc, lead) => {
-      const source = lead.source || 'Desconhecido';
-      acc[source] = (acc[source] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
-
-    const leadsByState = allLeads.reduce((acc, lead) => {
-      const state = lead.state || 'Desconhecido';
-      acc[state] = (acc[state] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
-
-    // Example assuming campaign is stored directly on lead; adjust if needed
-    const leadsByCampaign = allLeads.reduce((acc, lead) => {
-      const campaign = lead.campaign || 'Nenhuma';
-      acc[campaign] = (acc[campaign] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
-
-    // Calcular estatísticas gerais
+    const range = resolvePeriod(req.query);
+    if ('error' in range) {
+      return res.status(400).json({ message: range.error });
+    }
+
+    // Aulas ativas são as que ainda vão acontecer: de agora até o fim de uma janela com a duração do período
+    const now = new Date();
+    const upcomingEndDate = new Date(now.getTime() + (range.endDate.getTime() - range.startDate.getTime()));
+
+    const [
+      totals, currentLeads, previousLeads, currentSessions, previousSessions, upcomingSessions,
+      stages, stageMetrics, lossReasons,
+    ] = await Promise.all([
+      storage.getLeadTotals(),
+      storage.getLeadPeriodStats(range.startDate, range.endDate),
+      storage.getLeadPeriodStats(range.previousStartDate, range.previousEndDate),
+      storage.getSchedulingPeriodStats(range.startDate, range.endDate),
+      storage.getSchedulingPeriodStats(range.previousStartDate, range.previousEndDate),
+      storage.getSchedulingPeriodStats(now, upcomingEndDate),
+      storage.getPipelineStages(),
+      storage.getPipelineStageMetrics(range.startDate, range.endDate),
+      storage.getLossReasonCounts(range.startDate, range.endDate),
+    ]);
+
+    // Indicadores do período com a comparação contra o período anterior
+    const buildKpi = (current: number, previous: number) => ({
+      current,
+      previous,
+      change: percentChange(current, previous),
+    });
+
+    const kpis = {
+      newLeads: buildKpi(currentLeads.newLeads, previousLeads.newLeads),
+      // Conversões e perdas contadas pelas entradas nas etapas de ganho e de perda do funil
+      convertedLeads: buildKpi(currentLeads.convertedLeads, previousLeads.convertedLeads),
+      lostLeads: buildKpi(currentLeads.lostLeads, previousLeads.lostLeads),
+      conversionRate: buildKpi(
+        ratio(currentLeads.convertedLeads, currentLeads.newLeads, true),
+        ratio(previousLeads.convertedLeads, previousLeads.newLeads, true)
+      ),
+      scheduledSessions: buildKpi(currentSessions.scheduled, previousSessions.scheduled),
+      completedSessions: buildKpi(currentSessions.completed, previousSessions.completed),
+      cancelledSessions: buildKpi(currentSessions.cancelled, previousSessions.cancelled),
+      activeStudents: buildKpi(currentSessions.activeStudents, previousSessions.activeStudents),
+      sessionsPerStudent: buildKpi(
+        ratio(currentSessions.completed, currentSessions.studentsWithCompleted),
+        ratio(previousSessions.completed, previousSessions.studentsWithCompleted)
+      ),
+    };
+
     const stats = {
-      totalLeads: allLeads.length,
-      totalStudents: alunos.length,
-      // Mock session counts based on student numbers - replace with real data when available
-      totalActiveSessions: Math.round(alunos.length * 1.6),
-      totalCompletedSessions: Math.round(alunos.length * 3.8),
-      sessionsPerStudent: alunos.length > 0 ? ((Math.round(alunos.length * 1.6) + Math.round(alunos.length * 3.8)) / alunos.length).toFixed(1) : "0.0", // Approximate
-      conversionRate: conversionRate.toFixed(1),
-      monthlyGrowth: monthlyGrowth.toFixed(1),
-      leadsBySource,
-      leadsByState,
-      leadsByCampaign,
-      totalLeadsByCampaign: Object.values(leadsByCampaign).reduce((a, b) => a + b, 0)
+      period: {
+        type: range.period,
+        startDate: range.startDate.toISOString(),
+        endDate: range.endDate.toISOString(),
+        previousStartDate: range.previousStartDate.toISOString(),
+        previousEndDate: range.previousEndDate.toISOString(),
+      },
+      kpis,
+      totalLeads: totals.totalLeads,
+      totalStudents: totals.totalStudents,
+      totalActiveSessions: upcomingSessions.active,
+      totalCompletedSessions: currentSessions.completed,
+      sessionsPerStudent: kpis.sessionsPerStudent.current.toFixed(1),
+      conversionRate: ratio(totals.convertedLeads, totals.totalLeads, true).toFixed(1),
+      // Crescimento de novos leads em relação ao período anterior de mesma duração
+      monthlyGrowth: (kpis.newLeads.change ?? 0).toFixed(1),
+      leadsBySource: totals.leadsBySource,
+      leadsByState: totals.leadsByState,
+      leadsByCampaign: totals.leadsByCampaign,
+      totalLeadsByCampaign: Object.values(totals.leadsByCampaign).reduce((a, b) => a + b, 0),
+      // Funil no período: entradas e saídas de cada etapa, tempo médio nela e motivos das perdas
+      pipeline: {
+        stages: stages.map(stage => ({
+          id: stage.id,
+          name: stage.name,
+          kind: stage.kind,
+          active: stage.active,
+          ...stageMetrics.find(metrics => metrics.stageId === stage.id),
+        })),
+        lossReasons,
+      },
     };
-    
+
     res.json(stats);
   } catch (error) {
     console.error('Erro ao buscar estatísticas:', error);
     res.status(500).json({ message: "Erro ao buscar estatísticas" });
   }
-}; 
\ No newline at end of file
+};
@@ -87,7 +87,7 @@ export const updateTask = async (req: Request, res: Response) => {
      if (validatedData.dueDate && typeof validatedData.dueDate === 'string') {
       validatedData.dueDate = new Date(validatedData.dueDate);
     }
-    const updatedTask = await storage.updateTask(id, validatedData);
+    const updatedTask = await storage.updateTask(id, validatedData, req.user?.id);
     res.json(updatedTask);
   } catch (error: any) {
     if (error.name === 'ZodError') {
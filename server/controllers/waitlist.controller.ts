@@ -0,0 +1,148 @@
+import type { Request, Response } from "express";
+import { ZodError } from "zod";
+import { storage } from "../storage";
+import { waitlistEntryValidationSchema } from "@shared/schema";
+import { acceptWaitlistOffer, declineWaitlistOffer } from "../waitlist-service";
+import { logAuditEvent, AuditEventType } from "../audit-log";
+
+function validationError(res: Response, error: ZodError) {
+  return res.status(400).json({
+    message: "Dados inválidos",
+    errors: error.errors.map(err => ({
+      field: err.path.join("."),
+      message: err.message
+    }))
+  });
+}
+
+/**
+ * Alunos na lista de espera, na ordem de prioridade (padrão: aguardando)
+ */
+export const getWaitlist = async (req: Request, res: Response) => {
+  try {
+    const status = req.query.status === 'all' ? undefined : String(req.query.status || 'aguardando');
+    const leadId = req.query.leadId ? parseInt(String(req.query.leadId)) : undefined;
+    res.json(await storage.getWaitlistEntries({ status, leadId }));
+  } catch (error) {
+    console.error('Erro ao buscar lista de espera:', error);
+    res.status(500).json({ message: "Erro ao buscar lista de espera" });
+  }
+};
+
+export const createWaitlistEntry = async (req: Request, res: Response) => {
+  try {
+    const data = waitlistEntryValidationSchema.parse(req.body);
+
+    const lead = await storage.getLead(data.leadId);
+    if (!lead) {
+      return res.status(404).json({ message: "Aluno não encontrado" });
+    }
+
+    const entry = await storage.createWaitlistEntry({
+      ...data,
+      weekDays: data.weekDays && data.weekDays.length > 0 ? data.weekDays : null,
+      createdById: req.user?.id ?? null,
+    });
+
+    logAuditEvent(AuditEventType.WAITLIST_UPDATED, req, { action: 'created', entryId: entry.id, leadId: entry.leadId });
+    res.status(201).json(entry);
+  } catch (error) {
+    if (error instanceof ZodError) return validationError(res, error);
+    console.error('Erro ao adicionar aluno à lista de espera:', error);
+    res.status(500).json({ message: "Erro ao adicionar aluno à lista de espera" });
+  }
+};
+
+/**
+ * Retira o aluno da lista de espera (o registro fica para o histórico das ofertas)
+ */
+export const removeWaitlistEntry = async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "ID inválido" });
+    }
+
+    const entry = await storage.updateWaitlistEntry(id, { status: 'cancelado' });
+    if (!entry) {
+      return res.status(404).json({ message: "Registro da lista de espera não encontrado" });
+    }
+
+    logAuditEvent(AuditEventType.WAITLIST_UPDATED, req, { action: 'removed', entryId: id, leadId: entry.leadId });
+    res.json(entry);
+  } catch (error) {
+    console.error('Erro ao remover aluno da lista de espera:', error);
+    res.status(500).json({ message: "Erro ao remover aluno da lista de espera" });
+  }
+};
+
+/**
+ * Horários oferecidos aos alunos da fila (padrão: aguardando resposta), com os dados da aula cancelada
+ */
+export const getWaitlistOffers = async (req: Request, res: Response) => {
+  try {
+    const status = req.query.status === 'all' ? undefined : String(req.query.status || 'pendente');
+    const offers = await storage.getWaitlistOffers({ status });
+
+    const withSlots = await Promise.all(offers.map(async offer => {
+      const aula = await storage.getAulaById(offer.cancelledAulaId);
+      return {
+        ...offer,
+        slot: aula ? {
+          professorId: aula.professorId,
+          startTime: aula.startTime,
+          endTime: aula.endTime,
+          service: aula.service,
+          location: aula.location,
+        } : null,
+      };
+    }));
+    res.json(withSlots);
+  } catch (error) {
+    console.error('Erro ao buscar ofertas da lista de espera:', error);
+    res.status(500).json({ message: "Erro ao buscar ofertas da lista de espera" });
+  }
+};
+
+/**
+ * Confirmação manual pelo administrador (ex.: o aluno respondeu por telefone)
+ */
+export const confirmOffer = async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "ID inválido" });
+    }
+
+    const result = await acceptWaitlistOffer(id, req.user?.id);
+    if ('error' in result) {
+      return res.status(result.status).json({ message: result.error });
+    }
+
+    logAuditEvent(AuditEventType.WAITLIST_UPDATED, req, { action: 'offer_confirmed', offerId: id, aulaId: result.aula.id });
+    res.json(result);
+  } catch (error) {
+    console.error('Erro ao confirmar oferta da lista de espera:', error);
+    res.status(500).json({ message: "Erro ao confirmar oferta da lista de espera" });
+  }
+};
+
+export const declineOffer = async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "ID inválido" });
+    }
+
+    const offer = await declineWaitlistOffer(id);
+    if (!offer) {
+      return res.status(409).json({ message: "A oferta não está mais aguardando resposta" });
+    }
+
+    logAuditEvent(AuditEventType.WAITLIST_UPDATED, req, { action: 'offer_declined', offerId: id });
+    res.json(offer);
+  } catch (error) {
+    console.error('Erro ao recusar oferta da lista de espera:', error);
+    res.status(500).json({ message: "Erro ao recusar oferta da lista de espera" });
+  }
+};
@@ -19,8 +19,24 @@ import {
   sendWhatsAppVideo,
   getWhatsAppGroups,
   createWhatsAppGroup,
-  getWhatsAppContacts
+  getWhatsAppContacts,
+  getInboundSettings,
+  saveInboundSettings,
+  getActiveProvider
 } from "../whatsapp-service"; // Adjust path if needed
+import { WHATSAPP_PROVIDERS, getMockOutbox, clearMockOutbox, type MockWebhookPayload } from "../whatsapp-providers";
+import { createLeadFromInbound, getInboxConversations, processWebhookEvents } from "../whatsapp-inbound";
+import { getMediaAbsolutePath } from "../whatsapp-media";
+import { logAuditEvent, AuditEventType } from "../audit-log";
+import { log } from "../vite";
+
+declare global {
+  namespace Express {
+    interface Request {
+      rawBody?: Buffer; // Corpo original do webhook, guardado pelo parser JSON da rota (server/index.ts)
+    }
+  }
+}
 
 // Helper to get lead or return 404
 const findLeadOr404 = async (leadId: number, res: Response) => {
@@ -171,11 +187,11 @@ export const getWhatsappConfig = async (req: Request, res: Response) => {
 // Salvar configuração da API do WhatsApp
 export const saveWhatsappConfig = async (req: Request, res: Response) => {
   try {
-    const { apiUrl, apiToken, apiInstance } = req.body;
-    if (!apiUrl) { // Basic validation
-      return res.status(400).json({ success: false, message: 'URL da API é obrigatória' });
+    const { provider = 'evolution', apiUrl, apiToken, apiInstance, metaPhoneNumberId, metaAccessToken } = req.body;
+    if (!WHATSAPP_PROVIDERS.includes(provider)) {
+      return res.status(400).json({ success: false, message: 'Provedor de WhatsApp inválido' });
     }
-    const result = await saveConfigSettings(apiUrl, apiToken, apiInstance);
+    const result = await saveConfigSettings({ provider, apiUrl, apiToken, apiInstance, metaPhoneNumberId, metaAccessToken });
     if (result.success) {
       res.json({ success: true, message: 'Configurações salvas com sucesso', details: result.details });
     } else {
@@ -400,161 +416,33 @@ export const sendTemplateMessage = async (req: Request, res: Response) => {
   }
 };
 
-// Manipulador de Webhook (POST) - Tenta lidar com Meta e Evolution API
+// Manipulador de Webhook (POST) - o provedor configurado interpreta o próprio formato
 export const handleWebhook = async (req: Request, res: Response) => {
   try {
     const data = req.body;
-    console.log('Webhook POST recebido:', JSON.stringify(data, null, 2));
-
-    // --- Tentativa de Processamento - Formato Meta ---
-    if (data?.object === 'whatsapp_business_account' && data?.entry && Array.isArray(data.entry)) {
-      console.log("Detectado formato de webhook Meta");
-      for (const entry of data.entry) {
-        if (!entry.changes || !Array.isArray(entry.changes)) continue;
-        for (const change of entry.changes) {
-          if (change.field !== 'messages') continue;
-          const value = change.value;
-
-          // Processar mensagens recebidas
-          if (value?.messages && Array.isArray(value.messages)) {
-            for (const message of value.messages) {
-              // Só processar mensagens de texto recebidas (ignorar enviadas pelo sistema/echo)
-              if (message.from && message.id && message.type === 'text') { // Basic check for incoming text
-                const phoneNumber = message.from;
-                const messageContent = message.text?.body || '';
-                const messageId = message.id;
-
-                const cleanPhone = normalizePhone(phoneNumber); // Use imported utility function
-                const leadsFound = await storage.getLeadsByPhone(cleanPhone); // Assumes storage has this method
-                
-                if (!leadsFound || leadsFound.length === 0) {
-                  console.warn(`[Meta Webhook] Mensagem recebida de número não cadastrado: ${phoneNumber}`);
-                  continue; // Skip if lead not found
-                }
-                const lead = leadsFound[0]; // Use the first match
-
-                await storage.createWhatsappMessage({
-                  leadId: lead.id,
-                  direction: 'incoming',
-                  content: messageContent,
-                  status: 'received', // Or 'read' if applicable? Check Meta docs
-                  messageId: messageId, // Store Meta's message ID
-                  mediaUrl: null,
-                  mediaType: message.type, // Store 'text'
-                });
-                console.log(`[Meta Webhook] Mensagem recebida de ${lead.name} (${phoneNumber}) salva.`);
-              } else {
-                 console.log(`[Meta Webhook] Ignorando mensagem não-texto ou sem remetente: ${message.id}`);
-              }
-            }
-          }
-
-           // Processar atualizações de status de mensagens enviadas
-          if (value?.statuses && Array.isArray(value.statuses)) {
-             for (const statusUpdate of value.statuses) {
-                 if (statusUpdate.id && statusUpdate.status) { // Check if we have API message ID and new status
-                    const apiMessageId = statusUpdate.id;
-                    const newStatus = statusUpdate.status; // e.g., 'sent', 'delivered', 'read', 'failed'
-
-                    const message = await storage.getWhatsappMessageByApiId(apiMessageId);
-                    if (message) {
-                       if (message.status !== newStatus) {
-                           console.log(`[Meta Webhook] Atualizando status da mensagem ID ${message.id} (API ID: ${apiMessageId}) de ${message.status} para ${newStatus}`);
-                           await storage.updateWhatsappMessageStatus(message.id, newStatus);
-                       }
-                    } else {
-                       console.warn(`[Meta Webhook] Recebido status para mensagem API desconhecida: ${apiMessageId}`);
-                    }
-                 }
-             }
-          }
-        }
-      }
-      return res.status(200).send('EVENT_RECEIVED'); // Specific response for Meta
-    }
+    const provider = await getActiveProvider();
 
-    // --- Tentativa de Processamento - Formato Evolution API ---
-    // Example check - adjust based on actual Evolution API webhook structure
-    if (data?.event === 'messages.upsert' || data?.event === 'messages.update' || data?.appId) { 
-      console.log("Detectado formato de webhook Evolution API (ou similar)");
-      const event = data.event;
-      const messageData = data.data || data.message; // Structure might vary
-
-       // Mensagem Recebida (Evolution Example)
-      if ((event === 'messages.upsert' || data.type === 'message') && messageData) {
-        const from = messageData?.key?.remoteJid || messageData?.sender || data.from; // Adjust based on actual payload
-        const content = messageData?.message?.conversation || messageData?.message?.extendedTextMessage?.text || messageData?.body || messageData?.caption || '[Mensagem sem texto]';
-        const messageId = messageData?.key?.id || data.messageId || `incoming_${Date.now()}`; // Adjust based on actual payload
-        const mediaUrl = messageData?.mediaUrl || messageData?.url; // Adjust
-        const mediaType = messageData?.mediaType || (mediaUrl ? 'image' : null); // Adjust
-
-        if (!from) {
-          console.warn('[Evolution Webhook] Número de origem não encontrado');
-          return res.status(400).json({ success: false, message: 'Número de origem não encontrado' });
-        }
-        
-        // Find lead by phone number (use normalizePhone and potentially more robust matching)
-        const cleanPhone = normalizePhone(from); // Use imported utility function
-        const leadsFound = await storage.getLeadsByPhone(cleanPhone); // Assumes storage has this method
-        
-        if (!leadsFound || leadsFound.length === 0) {
-           console.warn(`[Evolution Webhook] Mensagem recebida de número não cadastrado: ${from} (Normalizado: ${cleanPhone})`);
-           // Optionally create a new lead here? Or just ignore.
-           return res.status(404).json({ success: false, message: 'Lead não encontrado' }); 
-        }
+    // Origem conferida antes de qualquer efeito (criação de lead, gravação de mídia, lista de espera)
+    if (!provider.verifyWebhook({ headers: req.headers, rawBody: req.rawBody, payload: data })) {
+      console.warn(`Webhook WhatsApp recusado: assinatura ou token inválido para o provedor ${provider.name}`);
+      return res.status(401).json({ success: false, message: 'Assinatura do webhook inválida' });
+    }
 
-        const lead = leadsFound[0]; // Use first match
-        await storage.createWhatsappMessage({
-          leadId: lead.id,
-          direction: 'incoming',
-          content,
-          status: 'received', 
-          messageId, // Store Evolution API's message ID if available
-          mediaUrl: mediaUrl || null,
-          mediaType: mediaType || null
-        });
-        console.log(`[Evolution Webhook] Mensagem recebida de ${lead.name} (${from}) salva.`);
-        return res.status(201).json({ success: true, message: 'Mensagem recebida salva', leadId: lead.id });
-      }
-      
-      // Atualização de Status (Evolution Example)
-      else if (event === 'messages.update' || data.type === 'status') {
-          const apiMessageId = data.messageId || data.id; // Adjust field names
-          const status = data.status?.status || data.status || data.update?.status || 'unknown'; // Adjust field names
-          const validStatuses = ['sent', 'delivered', 'read', 'failed', 'pending', 'received']; // Add Evolution statuses
-
-          if (!apiMessageId) {
-              console.warn('[Evolution Webhook] ID da mensagem não encontrado na atualização de status');
-              return res.status(400).json({ success: false, message: 'ID da mensagem não encontrado' });
-          }
-
-          const message = await storage.getWhatsappMessageByApiId(apiMessageId);
-          if (!message) {
-              console.warn(`[Evolution Webhook] Recebido status para mensagem API desconhecida: ${apiMessageId}`);
-              return res.status(404).json({ success: false, message: 'Mensagem não encontrada' });
-          }
-
-          if (validStatuses.includes(status) && message.status !== status) {
-               console.log(`[Evolution Webhook] Atualizando status da mensagem ID ${message.id} (API ID: ${apiMessageId}) de ${message.status} para ${status}`);
-              await storage.updateWhatsappMessageStatus(message.id, status);
-              return res.json({ success: true, message: 'Status atualizado', previousStatus: message.status, newStatus: status });
-          } else {
-               console.log(`[Evolution Webhook] Status ${status} inválido ou inalterado para mensagem API ${apiMessageId}`);
-               return res.json({ success: false, message: 'Status inválido ou inalterado' }); // Or 200 OK?
-          }
-      }
-      
-      // Fallback for other Evolution events
-      else {
-         console.log(`[Evolution Webhook] Evento recebido: ${event || 'Tipo desconhecido'}`);
-          return res.json({ success: true, message: 'Evento Evolution recebido', eventType: event || data.type });
-      }
+    if (!provider.matchesWebhook(data)) {
+      // Payload de outro provedor (ex.: webhook antigo ainda apontado para cá) é ignorado sem erro,
+      // para o remetente não ficar reenviando
+      console.warn(`Webhook WhatsApp ignorado: formato não corresponde ao provedor ${provider.name}`);
+      return res.status(200).json({ success: false, message: `Formato de webhook não corresponde ao provedor ${provider.name}` });
     }
 
-    // --- Nenhum formato conhecido ---
-    console.warn('Webhook POST recebido com formato não reconhecido:', JSON.stringify(data));
-    res.status(400).json({ message: 'Formato de webhook não reconhecido' });
+    const events = provider.parseWebhook(data);
+    const summary = await processWebhookEvents(events);
+    log(`Webhook ${provider.name}: ${events.length} evento(s), ${summary.queued} na fila, ${summary.duplicates} duplicado(s), ${summary.statusUpdates} atualização(ões) de status`, 'whatsapp');
 
+    if (provider.name === 'meta') {
+      return res.status(200).send('EVENT_RECEIVED'); // Specific response for Meta
+    }
+    res.json({ success: true, ...summary });
   } catch (error: any) {
     console.error('Erro ao processar webhook WhatsApp POST:', error);
     res.status(500).json({ success: false, message: 'Erro interno ao processar webhook', error: error.message || String(error) });
@@ -813,4 +701,166 @@ export const getWhatsappContacts = async (req: Request, res: Response) => {
       message: error.message || 'Erro interno ao obter contatos'
     });
   }
-}; 
\ No newline at end of file
+}; 
+// Regras para mensagens recebidas de números sem lead cadastrado
+export const getInboundConfig = async (req: Request, res: Response) => {
+  try {
+    res.json(await getInboundSettings());
+  } catch (error) {
+    console.error('Erro ao obter regras de mensagens recebidas:', error);
+    res.status(500).json({ success: false, message: 'Erro ao obter regras de mensagens recebidas' });
+  }
+};
+
+export const saveInboundConfig = async (req: Request, res: Response) => {
+  try {
+    const { inboundMode, inboundLeadSource, inboundLeadTag } = req.body;
+    if (inboundMode !== 'inbox' && inboundMode !== 'create_lead') {
+      return res.status(400).json({ success: false, message: "Modo inválido. Use 'inbox' ou 'create_lead'" });
+    }
+    if (!inboundLeadSource) {
+      return res.status(400).json({ success: false, message: 'A origem dos leads é obrigatória' });
+    }
+
+    const result = await saveInboundSettings({
+      inboundMode,
+      inboundLeadSource,
+      inboundLeadTag: (inboundLeadTag || '').trim(),
+    });
+
+    if (!result.success) {
+      return res.status(400).json({ success: false, message: result.error });
+    }
+
+    logAuditEvent(AuditEventType.WHATSAPP_CONFIG_CHANGED, req, { inbound: result.details });
+    res.json({ success: true, message: 'Regras de mensagens recebidas salvas', details: result.details });
+  } catch (error) {
+    console.error('Erro ao salvar regras de mensagens recebidas:', error);
+    res.status(500).json({ success: false, message: 'Erro ao salvar regras de mensagens recebidas' });
+  }
+};
+
+// Conversas de números não cadastrados aguardando triagem
+export const getInbox = async (req: Request, res: Response) => {
+  try {
+    const status = req.query.status?.toString() || 'pendente';
+    if (!['pendente', 'vinculado', 'descartado'].includes(status)) {
+      return res.status(400).json({ success: false, message: 'Status inválido' });
+    }
+
+    res.json(await getInboxConversations(status));
+  } catch (error) {
+    console.error('Erro ao buscar fila de mensagens não vinculadas:', error);
+    res.status(500).json({ success: false, message: 'Erro ao buscar fila de mensagens não vinculadas' });
+  }
+};
+
+// Vincula a conversa de um número a um lead existente (ou cria um lead novo para ele)
+export const linkInboxConversation = async (req: Request, res: Response) => {
+  try {
+    const phone = normalizePhone(req.params.phone);
+    const { leadId, createLead, name, source } = req.body;
+
+    let lead;
+    if (createLead) {
+      const pending = await storage.getWhatsappInboxEntries({ phone, status: 'pendente' });
+      lead = await createLeadFromInbound(phone, pending.find(entry => entry.contactName)?.contactName, { name, source });
+      logAuditEvent(AuditEventType.LEAD_CREATED, req, { leadId: lead.id, origin: 'whatsapp_inbox', phone });
+    } else {
+      lead = await findLeadOr404(parseInt(leadId), res);
+      if (!lead) return;
+    }
+
+    const linked = await storage.linkWhatsappInboxToLead(phone, lead.id, req.user?.id);
+    if (linked === 0 && !createLead) {
+      return res.status(404).json({ success: false, message: 'Nenhuma mensagem pendente para este número' });
+    }
+
+    res.json({ success: true, leadId: lead.id, linkedMessages: linked });
+  } catch (error) {
+    console.error('Erro ao vincular conversa do WhatsApp:', error);
+    res.status(500).json({ success: false, message: 'Erro ao vincular conversa do WhatsApp' });
+  }
+};
+
+export const dismissInboxConversation = async (req: Request, res: Response) => {
+  try {
+    const phone = normalizePhone(req.params.phone);
+    const dismissed = await storage.dismissWhatsappInboxPhone(phone, req.user?.id);
+    if (dismissed === 0) {
+      return res.status(404).json({ success: false, message: 'Nenhuma mensagem pendente para este número' });
+    }
+
+    res.json({ success: true, dismissedMessages: dismissed });
+  } catch (error) {
+    console.error('Erro ao descartar conversa do WhatsApp:', error);
+    res.status(500).json({ success: false, message: 'Erro ao descartar conversa do WhatsApp' });
+  }
+};
+
+// Tipos exibidos direto no navegador; os demais são sempre baixados como anexo
+const INLINE_MEDIA_TYPES = /^(image\/(jpeg|png|gif|webp)|audio\/|video\/|application\/pdf$)/;
+
+export const getMediaFile = async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "ID da mídia inválido" });
+    }
+
+    const media = await storage.getWhatsappMedia(id);
+    if (!media) {
+      return res.status(404).json({ message: "Mídia não encontrada" });
+    }
+
+    const disposition = INLINE_MEDIA_TYPES.test(media.mimeType) ? 'inline' : 'attachment';
+    const fileName = media.fileName || media.storagePath.split(/[\\/]/).pop() || `midia-${media.id}`;
+
+    res.setHeader('Content-Type', media.mimeType);
+    res.setHeader('Content-Disposition', `${disposition}; filename*=UTF-8''${encodeURIComponent(fileName)}`);
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.setHeader('Cache-Control', 'private, max-age=86400, immutable');
+    res.setHeader('ETag', `"${media.sha256}"`);
+
+    res.sendFile(getMediaAbsolutePath(media), (error) => {
+      if (error && !res.headersSent) {
+        console.error(`Arquivo da mídia ${media.id} não encontrado no disco:`, error);
+        res.status(404).json({ message: "Arquivo da mídia não encontrado" });
+      }
+    });
+  } catch (error) {
+    console.error('Erro ao servir mídia do WhatsApp:', error);
+    res.status(500).json({ message: "Erro ao obter mídia do WhatsApp" });
+  }
+};
+
+// Provedor simulado: gera uma mensagem recebida, como se viesse do webhook
+export const simulateMockInbound = async (req: Request, res: Response) => {
+  try {
+    const provider = await getActiveProvider();
+    if (provider.name !== 'mock') {
+      return res.status(409).json({ success: false, message: 'O provedor simulado não está ativo' });
+    }
+
+    const { phone, text, contactName, mediaType, mediaUrl, latitude, longitude } = req.body;
+    if (!phone || (!text && !mediaUrl && latitude === undefined)) {
+      return res.status(400).json({ success: false, message: 'Telefone e conteúdo da mensagem são obrigatórios' });
+    }
+
+    const payload: MockWebhookPayload = { provider: 'mock', from: phone, text, contactName, mediaType, mediaUrl, latitude, longitude };
+    const summary = await processWebhookEvents(provider.parseWebhook(payload));
+    res.status(201).json({ success: true, ...summary });
+  } catch (error) {
+    console.error('Erro ao simular mensagem recebida:', error);
+    res.status(500).json({ success: false, message: 'Erro ao simular mensagem recebida' });
+  }
+};
+
+export const getMockOutboxMessages = (req: Request, res: Response) => {
+  res.json(getMockOutbox());
+};
+
+export const clearMockOutboxMessages = (req: Request, res: Response) => {
+  clearMockOutbox();
+  res.status(204).send();
+};
@@ -0,0 +1,96 @@
+import { describe, expect, it, vi } from "vitest";
+import type { Lead } from "@shared/schema";
+
+vi.mock("./storage", () => ({ storage: {} }));
+vi.mock("./pipeline-service", () => ({ syncLeadStage: vi.fn() }));
+
+import { buildMergedLeadData, scoreLeadPair } from "./dedup-service";
+
+function lead(partial: Partial<Lead>): Lead {
+  return {
+    id: 1,
+    name: "Ana Souza",
+    email: "",
+    phone: "",
+    state: "",
+    campaign: "",
+    tags: [],
+    notes: null,
+    status: "Lead",
+    entryDate: new Date("2025-03-01T12:00:00.000Z"),
+    ...partial,
+  } as Lead;
+}
+
+describe("scoreLeadPair", () => {
+  it("reconhece o mesmo celular em formatos diferentes, inclusive sem o nono dígito", () => {
+    const result = scoreLeadPair(
+      lead({ phone: "+55 (11) 98765-4321" }),
+      lead({ id: 2, phone: "11 8765-4321" })
+    );
+
+    expect(result.reasons).toEqual(["telefone", "nome"]);
+    expect(result.score).toBe(90);
+    expect(result.nameSimilarity).toBe(1);
+  });
+
+  it("pontua menos quando só o final do telefone coincide", () => {
+    const result = scoreLeadPair(lead({ phone: "(11) 98765-4321" }), lead({ id: 2, phone: "98765-4321" }));
+
+    expect(result.reasons).toEqual(["telefone_parcial", "nome"]);
+    expect(result.score).toBe(65);
+  });
+
+  it("soma o e-mail sem diferenciar maiúsculas e ignora valores sem @", () => {
+    expect(scoreLeadPair(lead({ email: " Ana@Example.com" }), lead({ id: 2, email: "ana@example.com" })).reasons)
+      .toEqual(["email", "nome"]);
+    expect(scoreLeadPair(lead({ email: "nao tem" }), lead({ id: 2, email: "nao tem" })).reasons).toEqual(["nome"]);
+  });
+
+  it("reduz a pontuação de nomes muito diferentes com o mesmo contato", () => {
+    const result = scoreLeadPair(
+      lead({ name: "Maria Oliveira", phone: "11987654321" }),
+      lead({ id: 2, name: "Pedro Henrique", phone: "11987654321" })
+    );
+
+    expect(result.reasons).toEqual(["telefone"]);
+    expect(result.score).toBe(40);
+  });
+
+  it("limita a pontuação a 100", () => {
+    const result = scoreLeadPair(
+      lead({ phone: "11987654321", email: "ana@example.com" }),
+      lead({ id: 2, phone: "11987654321", email: "ana@example.com" })
+    );
+
+    expect(result.score).toBe(100);
+  });
+});
+
+describe("buildMergedLeadData", () => {
+  it("completa os campos vazios, soma etiquetas e observações e mantém a data mais antiga", () => {
+    const survivor = lead({ phone: "11987654321", tags: ["vip"], notes: "Prefere manhã" });
+    const duplicates = [
+      lead({ id: 2, email: "ana@example.com", phone: "1133334444", state: "SP", tags: ["vip", "indicação"], notes: "Prefere manhã" }),
+      lead({ id: 3, campaign: "Instagram", notes: "Veio pelo Instagram", entryDate: new Date("2024-12-10T12:00:00.000Z") }),
+    ];
+
+    expect(buildMergedLeadData(survivor, duplicates)).toEqual({
+      email: "ana@example.com",
+      phone: "11987654321",
+      state: "SP",
+      campaign: "Instagram",
+      tags: ["vip", "indicação"],
+      notes: "Prefere manhã\n\nVeio pelo Instagram",
+      status: "Lead",
+      entryDate: new Date("2024-12-10T12:00:00.000Z"),
+    });
+  });
+
+  it("mantém o lead como aluno se qualquer um dos mesclados já for aluno", () => {
+    const merged = buildMergedLeadData(lead({}), [lead({ id: 2, status: "Aluno" })]);
+
+    expect(merged.status).toBe("Aluno");
+    expect(merged.notes).toBeNull();
+  });
+});
@@ -0,0 +1,186 @@
+import type { Lead } from '@shared/schema';
+import { STUDENT_STATUS } from '@shared/pipeline';
+import { storage, type LeadMergeResult } from './storage';
+import { syncLeadStage } from './pipeline-service';
+import { canonicalPhone, nameSimilarity } from './utils/lead.utils';
+
+/**
+ * Leads duplicados: o mesmo contato cadastrado mais de uma vez (formulários, importações e WhatsApp
+ * gravam o telefone em formatos diferentes). Os pares candidatos recebem uma pontuação de 0 a 100
+ * a partir do telefone, do e-mail e da semelhança dos nomes; a mesclagem é sempre manual.
+ */
+
+export type DuplicateReason = 'telefone' | 'telefone_parcial' | 'email' | 'nome';
+
+export interface DuplicateCandidate {
+  leads: [Lead, Lead];
+  score: number;
+  reasons: DuplicateReason[];
+  nameSimilarity: number;
+}
+
+export type MergeResult =
+  | (LeadMergeResult & { merged: Lead[] })
+  | { error: string; status: number };
+
+// Telefones e e-mails repetidos em muitos leads são valores genéricos ("naotem@...", "0000-0000")
+// e não indicam duplicidade; também evitam comparar todos contra todos
+const MAX_GROUP_SIZE = 25;
+const PHONE_SUFFIX_LENGTH = 8;
+
+const emailKey = (email: string) => {
+  const normalized = (email || '').trim().toLowerCase();
+  return normalized.includes('@') ? normalized : '';
+};
+
+const phoneSuffix = (phone: string) => {
+  const digits = canonicalPhone(phone);
+  return digits.length >= PHONE_SUFFIX_LENGTH ? digits.slice(-PHONE_SUFFIX_LENGTH) : '';
+};
+
+/**
+ * Pontua um par de leads. O telefone completo igual (DDD + número) pesa mais que só o final igual,
+ * que pode ser o mesmo número sem DDD; nomes muito diferentes com o mesmo contato (ex.: mãe e filho)
+ * reduzem a pontuação.
+ */
+export function scoreLeadPair(a: Lead, b: Lead): Omit<DuplicateCandidate, 'leads'> {
+  const reasons: DuplicateReason[] = [];
+  let score = 0;
+
+  const phoneA = canonicalPhone(a.phone);
+  const phoneB = canonicalPhone(b.phone);
+  if (phoneA.length >= 10 && phoneA === phoneB) {
+    score += 60;
+    reasons.push('telefone');
+  } else if (phoneSuffix(a.phone) && phoneSuffix(a.phone) === phoneSuffix(b.phone)) {
+    score += 35;
+    reasons.push('telefone_parcial');
+  }
+
+  const emailA = emailKey(a.email);
+  if (emailA && emailA === emailKey(b.email)) {
+    score += 40;
+    reasons.push('email');
+  }
+
+  const similarity = nameSimilarity(a.name, b.name);
+  if (similarity >= 0.6) {
+    score += Math.round(similarity * 30);
+    reasons.push('nome');
+  } else if (similarity < 0.3) {
+    score -= 20;
+  }
+
+  return {
+    score: Math.max(0, Math.min(100, score)),
+    reasons,
+    nameSimilarity: Number(similarity.toFixed(2)),
+  };
+}
+
+/**
+ * Lista os pares de possíveis duplicados com pontuação mínima, dos mais prováveis para os menos.
+ * Só compara leads que compartilham o final do telefone ou o e-mail.
+ */
+export async function findDuplicateLeads(minScore: number, limit: number): Promise<{ candidates: DuplicateCandidate[]; total: number }> {
+  const allLeads = await storage.getLeads();
+  const groups = new Map<string, Lead[]>();
+
+  const addToGroup = (key: string, lead: Lead) => {
+    const group = groups.get(key);
+    if (group) {
+      group.push(lead);
+    } else {
+      groups.set(key, [lead]);
+    }
+  };
+
+  for (const lead of allLeads) {
+    const suffix = phoneSuffix(lead.phone);
+    if (suffix) addToGroup(`telefone:${suffix}`, lead);
+    const email = emailKey(lead.email);
+    if (email) addToGroup(`email:${email}`, lead);
+  }
+
+  const compared = new Set<string>();
+  const candidates: DuplicateCandidate[] = [];
+
+  groups.forEach(group => {
+    if (group.length < 2 || group.length > MAX_GROUP_SIZE) return;
+
+    for (let i = 0; i < group.length; i++) {
+      for (let j = i + 1; j < group.length; j++) {
+        const [a, b] = group[i].id < group[j].id ? [group[i], group[j]] : [group[j], group[i]];
+        const pairKey = `${a.id}-${b.id}`;
+        if (compared.has(pairKey)) continue;
+        compared.add(pairKey);
+
+        const result = scoreLeadPair(a, b);
+        if (result.score >= minScore) {
+          candidates.push({ leads: [a, b], ...result });
+        }
+      }
+    }
+  });
+
+  candidates.sort((x, y) => y.score - x.score || x.leads[0].id - y.leads[0].id);
+  return { candidates: candidates.slice(0, limit), total: candidates.length };
+}
+
+const isFilled = (value: string | null | undefined): value is string => !!value && value.trim() !== '';
+
+/**
+ * Dados do lead mantido depois da mesclagem: os campos vazios são completados pelos duplicados,
+ * etiquetas e observações são somadas e a data de entrada é a mais antiga.
+ * Se algum dos leads já é aluno, o lead mantido também passa a ser.
+ */
+export function buildMergedLeadData(survivor: Lead, duplicates: Lead[]): Partial<Lead> {
+  const all = [survivor, ...duplicates];
+  const firstFilled = (field: 'email' | 'phone' | 'state' | 'campaign') =>
+    all.map(lead => lead[field]).find(isFilled) ?? survivor[field];
+
+  const notes: string[] = [];
+  for (const lead of all) {
+    const note = lead.notes?.trim();
+    if (note && !notes.includes(note)) notes.push(note);
+  }
+
+  return {
+    email: firstFilled('email'),
+    phone: firstFilled('phone'),
+    state: firstFilled('state'),
+    campaign: firstFilled('campaign'),
+    tags: Array.from(new Set(all.flatMap(lead => lead.tags || []))),
+    notes: notes.length > 0 ? notes.join('\n\n') : null,
+    status: all.some(lead => lead.status === STUDENT_STATUS) ? STUDENT_STATUS : survivor.status,
+    entryDate: new Date(Math.min(...all.map(lead => new Date(lead.entryDate).getTime()))),
+  };
+}
+
+/**
+ * Mescla os duplicados no lead mantido e acerta a etapa do funil caso o status tenha mudado
+ */
+export async function mergeDuplicateLeads(survivorId: number, duplicateIds: number[], changedBy?: number): Promise<MergeResult> {
+  const survivor = await storage.getLead(survivorId);
+  if (!survivor) {
+    return { error: "Lead mantido não encontrado", status: 404 };
+  }
+
+  const duplicates: Lead[] = [];
+  for (const id of Array.from(new Set(duplicateIds))) {
+    const lead = await storage.getLead(id);
+    if (!lead) {
+      return { error: `Lead ${id} não encontrado`, status: 404 };
+    }
+    duplicates.push(lead);
+  }
+
+  const result = await storage.mergeLeads(survivorId, duplicates.map(lead => lead.id), buildMergedLeadData(survivor, duplicates), changedBy);
+  if (!result) {
+    // Algum dos leads foi excluído entre a leitura e a mesclagem
+    return { error: "Os leads foram alterados por outra operação. Atualize a lista e tente novamente", status: 409 };
+  }
+
+  const lead = await syncLeadStage(result.lead, changedBy);
+  return { lead, moved: result.moved, merged: duplicates };
+}
@@ -1,23 +1,181 @@
-import { Session, Trainer } from '@shared/schema';
+import { Session, EmailOutbox } from '@shared/schema';
 import { formatInTimeZone } from 'date-fns-tz';
+import { storage } from './storage';
+import { getEmailTransport } from './email-transport';
+import { log } from './vite';
 
-// TODO: Implementar configuração de e-mail quando as credenciais estiverem disponíveis
-// import nodemailer from 'nodemailer';
-// const transporter = nodemailer.createTransport({
-//   service: 'gmail',
-//   auth: {
-//     user: process.env.EMAIL_USER,
-//     pass: process.env.EMAIL_PASSWORD,
-//   },
-// });
-
-// Função de log para usar durante o desenvolvimento
-function logEmailContent(subject: string, recipient: string, content: string) {
-  console.log(`---------- E-MAIL SIMULADO ----------`);
-  console.log(`Para: ${recipient}`);
-  console.log(`Assunto: ${subject}`);
-  console.log(`Conteúdo: ${content.substring(0, 100)}...`);
-  console.log(`------------------------------------`);
+export type EmailCategory =
+  | 'session_confirmation'
+  | 'session_cancellation'
+  | 'session_reminder'
+  | 'session_rescheduled'
+  | 'portal_access'
+  | 'portal_notification';
+
+interface QueueEmailOptions {
+  to: string;
+  subject: string;
+  html: string;
+  category: EmailCategory | string;
+  leadId?: number | null;
+  maxAttempts?: number;
+}
+
+// Backoff exponencial: 1min, 2min, 4min, ... limitado a 6 horas
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+const OUTBOX_BATCH_SIZE = 20;
+
+export function getRetryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(attempts - 1, 0)), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Registra o e-mail na fila (outbox) e dispara uma tentativa imediata de entrega.
+ * Falhas de entrega não são propagadas: o e-mail fica pendente para nova tentativa.
+ */
+export async function queueEmail(options: QueueEmailOptions): Promise<EmailOutbox> {
+  const entry = await storage.createEmailOutboxEntry({
+    toAddress: options.to,
+    subject: options.subject,
+    html: options.html,
+    category: options.category,
+    leadId: options.leadId ?? null,
+    maxAttempts: options.maxAttempts ?? 5,
+    status: 'pending',
+    nextAttemptAt: new Date(),
+  });
+
+  processEmailOutbox().catch(error => {
+    console.error('Erro ao processar fila de e-mails:', error);
+  });
+
+  return entry;
+}
+
+/**
+ * HTML entregue ao transporte. O e-mail de acesso ao portal tem só marcadores na fila: o link e o
+ * código são gerados agora e não voltam para o banco (import dinâmico: portal-service usa queueEmail)
+ */
+async function renderOutboxHtml(entry: EmailOutbox): Promise<string> {
+  if (entry.category === 'portal_access') {
+    const { renderPortalAccessEmail } = await import('./portal-service');
+    return renderPortalAccessEmail(entry);
+  }
+  return entry.html;
+}
+
+/**
+ * Tenta entregar um item da fila, atualizando tentativas, status e erro
+ */
+async function deliverOutboxEntry(entry: EmailOutbox): Promise<EmailOutbox | undefined> {
+  const transport = getEmailTransport();
+  const attempts = entry.attempts + 1;
+
+  await storage.updateEmailOutboxEntry(entry.id, { status: 'sending', attempts });
+
+  try {
+    const result = await transport.send({
+      to: entry.toAddress,
+      subject: entry.subject,
+      html: await renderOutboxHtml(entry),
+    });
+
+    return await storage.updateEmailOutboxEntry(entry.id, {
+      status: 'sent',
+      sentAt: new Date(),
+      lastError: null,
+      transport: transport.name,
+      providerMessageId: result.messageId ?? null,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const exhausted = attempts >= entry.maxAttempts;
+    log(`Falha ao enviar e-mail #${entry.id} (tentativa ${attempts}/${entry.maxAttempts}): ${message}`, 'email');
+
+    return await storage.updateEmailOutboxEntry(entry.id, {
+      status: exhausted ? 'failed' : 'pending',
+      lastError: message,
+      transport: transport.name,
+      nextAttemptAt: new Date(Date.now() + getRetryDelayMs(attempts)),
+    });
+  }
+}
+
+let isProcessingOutbox = false;
+
+/**
+ * Processa os e-mails pendentes cuja próxima tentativa já venceu
+ */
+export async function processEmailOutbox(): Promise<number> {
+  if (isProcessingOutbox) {
+    return 0;
+  }
+
+  isProcessingOutbox = true;
+  let processed = 0;
+
+  try {
+    const dueEntries = await storage.getDueEmailOutboxEntries(OUTBOX_BATCH_SIZE);
+
+    for (const entry of dueEntries) {
+      await deliverOutboxEntry(entry);
+      processed++;
+    }
+  } finally {
+    isProcessingOutbox = false;
+  }
+
+  return processed;
+}
+
+/**
+ * Recoloca um e-mail (normalmente com falha) na fila para envio imediato
+ */
+export async function retryOutboxEmail(id: number): Promise<EmailOutbox | undefined> {
+  const entry = await storage.getEmailOutboxEntry(id);
+  if (!entry || entry.status === 'sent') {
+    return undefined;
+  }
+
+  const updated = await storage.updateEmailOutboxEntry(id, {
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: new Date(),
+  });
+
+  processEmailOutbox().catch(error => {
+    console.error('Erro ao processar fila de e-mails:', error);
+  });
+
+  return updated;
+}
+
+let outboxTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Inicia o processamento periódico da fila de e-mails
+ */
+export function startEmailOutboxWorker(intervalMs: number = parseInt(process.env.EMAIL_OUTBOX_INTERVAL_MS || '60000', 10)) {
+  if (outboxTimer) {
+    return;
+  }
+
+  outboxTimer = setInterval(() => {
+    processEmailOutbox().catch(error => {
+      console.error('Erro ao processar fila de e-mails:', error);
+    });
+  }, intervalMs);
+  outboxTimer.unref();
+
+  log(`Worker da fila de e-mails iniciado (intervalo de ${intervalMs}ms)`, 'email');
+}
+
+export function stopEmailOutboxWorker() {
+  if (outboxTimer) {
+    clearInterval(outboxTimer);
+    outboxTimer = null;
+  }
 }
 
 /**
@@ -43,7 +201,6 @@ export async function sendSessionConfirmationEmail(
       "HH:mm"
     );
 
-    // TODO: Implementar envio real de e-mails quando as credenciais estiverem disponíveis
     // Email para o aluno
     const studentEmailContent = `
       <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; border: 1px solid ${session.source === 'Favale' ? '#0057b7' : '#FF69B4'}; border-radius: 5px;">
@@ -63,11 +220,13 @@ export async function sendSessionConfirmationEmail(
       </div>
     `;
     
-    logEmailContent(
-      `Confirmação de Agendamento - ${session.source} Personal Training`,
-      studentEmail,
-      studentEmailContent
-    );
+    await queueEmail({
+      to: studentEmail,
+      subject: `Confirmação de Agendamento - ${session.source} Personal Training`,
+      html: studentEmailContent,
+      category: 'session_confirmation',
+      leadId: session.leadId,
+    });
 
     // Email para o professor
     const trainerEmailContent = `
@@ -87,11 +246,12 @@ export async function sendSessionConfirmationEmail(
       </div>
     `;
     
-    logEmailContent(
-      `Novo Agendamento - ${studentName}`,
-      trainerEmail,
-      trainerEmailContent
-    );
+    await queueEmail({
+      to: trainerEmail,
+      subject: `Novo Agendamento - ${studentName}`,
+      html: trainerEmailContent,
+      category: 'session_confirmation',
+    });
 
     return true;
   } catch (error) {
@@ -118,7 +278,6 @@ export async function sendSessionCancellationEmail(
       "dd/MM/yyyy 'às' HH:mm"
     );
 
-    // TODO: Implementar envio real de e-mails quando as credenciais estiverem disponíveis
     // Email para o aluno
     const studentEmailContent = `
       <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; border: 1px solid ${session.source === 'Favale' ? '#0057b7' : '#FF69B4'}; border-radius: 5px;">
@@ -137,11 +296,13 @@ export async function sendSessionCancellationEmail(
       </div>
     `;
     
-    logEmailContent(
-      `Cancelamento de Agendamento - ${session.source} Personal Training`,
-      studentEmail,
-      studentEmailContent
-    );
+    await queueEmail({
+      to: studentEmail,
+      subject: `Cancelamento de Agendamento - ${session.source} Personal Training`,
+      html: studentEmailContent,
+      category: 'session_cancellation',
+      leadId: session.leadId,
+    });
 
     // Email para o professor
     const trainerEmailContent = `
@@ -161,11 +322,12 @@ export async function sendSessionCancellationEmail(
       </div>
     `;
     
-    logEmailContent(
-      `Sessão Cancelada - ${studentName}`,
-      trainerEmail,
-      trainerEmailContent
-    );
+    await queueEmail({
+      to: trainerEmail,
+      subject: `Sessão Cancelada - ${studentName}`,
+      html: trainerEmailContent,
+      category: 'session_cancellation',
+    });
 
     return true;
   } catch (error) {
@@ -174,14 +336,29 @@ export async function sendSessionCancellationEmail(
   }
 }
 
+/**
+ * Descreve a antecedência do lembrete ("amanhã", "em 2 horas", "em 3 dias")
+ */
+export function formatReminderWhen(hoursBefore: number): string {
+  if (hoursBefore === 24) {
+    return 'amanhã';
+  }
+  if (hoursBefore < 24) {
+    const hours = Math.max(1, Math.round(hoursBefore));
+    return `em ${hours} hora${hours > 1 ? 's' : ''}`;
+  }
+  return `em ${Math.round(hoursBefore / 24)} dias`;
+}
+
 /**
  * Envia e-mail de lembrete para sessão agendada
  */
 export async function sendSessionReminderEmail(
-  session: Session,
+  session: Pick<Session, 'startTime' | 'endTime' | 'location' | 'notes' | 'source' | 'leadId'>,
   trainerName: string,
   studentName: string,
-  studentEmail: string
+  studentEmail: string,
+  hoursBefore: number = 24
 ): Promise<boolean> {
   try {
     const startTime = formatInTimeZone(
@@ -196,14 +373,15 @@ export async function sendSessionReminderEmail(
       "HH:mm"
     );
 
-    // TODO: Implementar envio real de e-mails quando as credenciais estiverem disponíveis
+    const whenLabel = formatReminderWhen(hoursBefore);
+
     // Email de lembrete para o aluno
     const reminderEmailContent = `
       <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; border: 1px solid ${session.source === 'Favale' ? '#0057b7' : '#FF69B4'}; border-radius: 5px;">
         <h2 style="color: ${session.source === 'Favale' ? '#0057b7' : '#FF69B4'}; text-align: center;">${session.source} Personal Training</h2>
         <h3>Lembrete de Treino</h3>
         <p>Olá, <strong>${studentName}</strong>!</p>
-        <p>Este é um lembrete para o seu treino amanhã:</p>
+        <p>Este é um lembrete para o seu treino ${whenLabel}:</p>
         <div style="background-color: #f9f9f9; padding: 15px; border-radius: 5px; margin: 15px 0;">
           <p><strong>Data e Hora:</strong> ${startTime} até ${endTime}</p>
           <p><strong>Local:</strong> ${session.location}</p>
@@ -216,11 +394,13 @@ export async function sendSessionReminderEmail(
       </div>
     `;
     
-    logEmailContent(
-      `Lembrete: Seu treino amanhã - ${session.source} Personal Training`,
-      studentEmail,
-      reminderEmailContent
-    );
+    await queueEmail({
+      to: studentEmail,
+      subject: `Lembrete: Seu treino ${whenLabel} - ${session.source} Personal Training`,
+      html: reminderEmailContent,
+      category: 'session_reminder',
+      leadId: session.leadId,
+    });
 
     return true;
   } catch (error) {
@@ -259,7 +439,6 @@ export async function sendSessionRescheduledEmail(
       "HH:mm"
     );
 
-    // TODO: Implementar envio real de e-mails quando as credenciais estiverem disponíveis
     // Email para o aluno
     const studentEmailContent = `
       <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; border: 1px solid ${newSession.source === 'Favale' ? '#0057b7' : '#FF69B4'}; border-radius: 5px;">
@@ -279,11 +458,13 @@ export async function sendSessionRescheduledEmail(
       </div>
     `;
     
-    logEmailContent(
-      `Sessão Reagendada - ${newSession.source} Personal Training`,
-      studentEmail,
-      studentEmailContent
-    );
+    await queueEmail({
+      to: studentEmail,
+      subject: `Sessão Reagendada - ${newSession.source} Personal Training`,
+      html: studentEmailContent,
+      category: 'session_rescheduled',
+      leadId: newSession.leadId,
+    });
 
     // Email para o professor
     const trainerEmailContent = `
@@ -304,11 +485,12 @@ export async function sendSessionRescheduledEmail(
       </div>
     `;
     
-    logEmailContent(
-      `Sessão Reagendada - ${studentName}`,
-      trainerEmail,
-      trainerEmailContent
-    );
+    await queueEmail({
+      to: trainerEmail,
+      subject: `Sessão Reagendada - ${studentName}`,
+      html: trainerEmailContent,
+      category: 'session_rescheduled',
+    });
 
     return true;
   } catch (error) {
@@ -0,0 +1,155 @@
+import nodemailer from 'nodemailer';
+import type { Transporter } from 'nodemailer';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { randomUUID } from 'crypto';
+import { log } from './vite';
+
+/**
+ * Transportes de e-mail plugáveis.
+ * O transporte é escolhido pela variável EMAIL_TRANSPORT (smtp | file | console).
+ * Quando não informada, usa SMTP se SMTP_HOST estiver configurado e, caso contrário, o console.
+ */
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+}
+
+export interface EmailSendResult {
+  messageId?: string;
+}
+
+export interface EmailTransport {
+  name: string;
+  send(message: EmailMessage): Promise<EmailSendResult>;
+}
+
+const DEFAULT_FROM = 'Favale Personal Training <no-reply@favale.com.br>';
+
+function getFromAddress(): string {
+  return process.env.EMAIL_FROM || DEFAULT_FROM;
+}
+
+/**
+ * Envio real via SMTP (nodemailer)
+ */
+export class SmtpEmailTransport implements EmailTransport {
+  name = 'smtp';
+  private transporter: Transporter;
+
+  constructor() {
+    const port = parseInt(process.env.SMTP_PORT || '587', 10);
+
+    this.transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+        : undefined,
+    });
+  }
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const info = await this.transporter.sendMail({
+      from: getFromAddress(),
+      to: message.to,
+      subject: message.subject,
+      html: message.html,
+    });
+
+    return { messageId: info.messageId };
+  }
+}
+
+/**
+ * Grava cada e-mail como arquivo .eml em um diretório no formato maildir (tmp/ -> new/).
+ * Útil em desenvolvimento e homologação para inspecionar as mensagens geradas.
+ */
+export class FileEmailTransport implements EmailTransport {
+  name = 'file';
+  private builder = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' });
+
+  constructor(private directory: string = process.env.EMAIL_FILE_DIR || path.join(process.cwd(), 'logs', 'maildir')) {}
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const info = await this.builder.sendMail({
+      from: getFromAddress(),
+      to: message.to,
+      subject: message.subject,
+      html: message.html,
+    });
+
+    const fileName = `${Date.now()}.${randomUUID()}.${os.hostname()}.eml`;
+    const tmpDir = path.join(this.directory, 'tmp');
+    const newDir = path.join(this.directory, 'new');
+
+    await fs.mkdir(tmpDir, { recursive: true });
+    await fs.mkdir(newDir, { recursive: true });
+
+    // Escreve em tmp/ e move para new/ para que leitores nunca vejam arquivos incompletos
+    await fs.writeFile(path.join(tmpDir, fileName), info.message as Buffer);
+    await fs.rename(path.join(tmpDir, fileName), path.join(newDir, fileName));
+
+    return { messageId: info.messageId };
+  }
+}
+
+/**
+ * Apenas registra o e-mail no console (comportamento anterior ao outbox)
+ */
+export class ConsoleEmailTransport implements EmailTransport {
+  name = 'console';
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    log(`E-mail simulado para ${message.to} - Assunto: ${message.subject} - Conteúdo: ${message.html.substring(0, 100)}...`, 'email');
+
+    return { messageId: `console-${randomUUID()}` };
+  }
+}
+
+let currentTransport: EmailTransport | null = null;
+
+/**
+ * Retorna o transporte configurado (instanciado uma única vez)
+ */
+export function getEmailTransport(): EmailTransport {
+  if (currentTransport) {
+    return currentTransport;
+  }
+
+  const configured = (process.env.EMAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'console')).toLowerCase();
+
+  switch (configured) {
+    case 'smtp':
+      if (!process.env.SMTP_HOST) {
+        log('EMAIL_TRANSPORT=smtp sem SMTP_HOST configurado, usando console', 'email');
+        currentTransport = new ConsoleEmailTransport();
+      } else {
+        currentTransport = new SmtpEmailTransport();
+      }
+      break;
+    case 'file':
+      currentTransport = new FileEmailTransport();
+      break;
+    case 'console':
+      currentTransport = new ConsoleEmailTransport();
+      break;
+    default:
+      log(`Transporte de e-mail desconhecido "${configured}", usando console`, 'email');
+      currentTransport = new ConsoleEmailTransport();
+  }
+
+  log(`Transporte de e-mail ativo: ${currentTransport.name}`, 'email');
+  return currentTransport;
+}
+
+/**
+ * Substitui o transporte ativo (usado para trocar a implementação em tempo de execução)
+ */
+export function setEmailTransport(transport: EmailTransport): void {
+  currentTransport = transport;
+}
@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const storageMock = vi.hoisted(() => ({
+  getBillableAulasForPayroll: vi.fn(),
+  getProfessorCommissions: vi.fn(),
+  getUser: vi.fn(),
+  getFinancialClosing: vi.fn(),
+}));
+
+vi.mock("./storage", () => ({ storage: storageMock }));
+
+import { calculatePayroll, findClosedPeriod, getPeriodBounds, getPeriodForDate } from "./finance-service";
+
+function aula(professorId: number, start: string, minutes: number, service: string, value: number) {
+  const startTime = new Date(start);
+  return { professorId, startTime, endTime: new Date(startTime.getTime() + minutes * 60000), service, value };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  storageMock.getProfessorCommissions.mockResolvedValue([]);
+});
+
+describe("períodos", () => {
+  it("usa o mês no fuso de São Paulo", () => {
+    // 01/04 00:30 em UTC ainda é 31/03 em São Paulo
+    expect(getPeriodForDate(new Date("2025-04-01T00:30:00.000Z"))).toBe("2025-03");
+    expect(getPeriodBounds("2025-12")).toEqual({
+      startDate: new Date("2025-12-01T03:00:00.000Z"),
+      endDate: new Date("2026-01-01T02:59:59.999Z"),
+    });
+  });
+
+  it("encontra o primeiro período fechado entre as datas", async () => {
+    storageMock.getFinancialClosing.mockImplementation(async (period: string) => period === "2025-02" ? { period } : undefined);
+
+    await expect(findClosedPeriod(new Date("2025-03-10T12:00:00.000Z"), null)).resolves.toBeNull();
+    await expect(findClosedPeriod(new Date("2025-03-10T12:00:00.000Z"), "2025-02-20T12:00:00.000Z")).resolves.toBe("2025-02");
+  });
+});
+
+describe("calculatePayroll", () => {
+  it("paga comissão quando há percentual para o serviço e valor hora nas demais aulas", async () => {
+    storageMock.getBillableAulasForPayroll.mockResolvedValue([
+      aula(1, "2025-03-03T13:00:00.000Z", 60, "Personal", 12000),
+      aula(1, "2025-03-04T13:00:00.000Z", 45, "Avaliação", 8000),
+      aula(2, "2025-03-05T13:00:00.000Z", 90, "Personal", 15000),
+    ]);
+    storageMock.getProfessorCommissions.mockResolvedValue([{ professorId: 1, service: "Personal", commissionPercent: 40 }]);
+    storageMock.getUser.mockImplementation(async (id: number) =>
+      id === 1 ? { id, name: "Carla", hourlyRate: 6000 } : { id, name: "Bruno", hourlyRate: null }
+    );
+
+    const lines = await calculatePayroll("2025-03");
+
+    expect(lines.map(line => line.professorName)).toEqual(["Bruno", "Carla"]);
+    expect(lines[1]).toMatchObject({
+      lessonsCount: 2,
+      minutesTotal: 105,
+      commissionAmount: 4800,
+      hourlyAmount: 4500,
+      amount: 9300,
+      missingRate: false,
+      status: "aberto",
+    });
+    // Sem comissão nem valor hora: a aula conta, mas o valor fica pendente de cadastro
+    expect(lines[0]).toMatchObject({ lessonsCount: 1, minutesTotal: 90, amount: 0, missingRate: true });
+  });
+
+  it("busca as aulas cobradas dentro dos limites do mês", async () => {
+    storageMock.getBillableAulasForPayroll.mockResolvedValue([]);
+
+    await expect(calculatePayroll("2025-03")).resolves.toEqual([]);
+    expect(storageMock.getBillableAulasForPayroll).toHaveBeenCalledWith(
+      new Date("2025-03-01T03:00:00.000Z"),
+      new Date("2025-04-01T02:59:59.999Z")
+    );
+  });
+});
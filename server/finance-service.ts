@@ -0,0 +1,313 @@
+import { fromZonedTime, formatInTimeZone } from 'date-fns-tz';
+import type { Aula, FinancialClosing, ProfessorPayout } from '@shared/schema';
+import { storage } from './storage';
+
+/**
+ * Módulo financeiro: receita das aulas cobradas e valores devidos aos professores.
+ * Aula cobrada segue isBillableAula (concluída ou falta/cancelamento tardio cobrado), tanto na receita quanto na folha.
+ * Os períodos são meses no formato YYYY-MM, sempre no fuso de São Paulo.
+ * Um período fechado congela os valores devidos e bloqueia alterações nas aulas daquele mês.
+ */
+
+const TIMEZONE = 'America/Sao_Paulo';
+const PERIOD_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+export const REVENUE_SOURCES = ['Favale', 'Pink'];
+
+export interface PeriodBounds {
+  startDate: Date;
+  endDate: Date;
+}
+
+export interface RevenueBucket {
+  bucket: string;
+  lessons: number;
+  total: number;
+  bySource: Record<string, number>;
+}
+
+export interface RevenueSummary {
+  total: number;
+  lessons: number;
+  bySource: Record<string, number>;
+  buckets: RevenueBucket[];
+}
+
+export interface PayrollLine {
+  professorId: number;
+  professorName: string;
+  hourlyRate: number | null;
+  lessonsCount: number;
+  minutesTotal: number;
+  hourlyAmount: number; // Parte calculada pelo valor hora, em centavos
+  commissionAmount: number; // Parte calculada por comissão de serviço, em centavos
+  amount: number; // Em centavos
+  missingRate: boolean; // Aulas sem comissão de um professor sem valor hora cadastrado
+  payoutId: number | null;
+  status: 'aberto' | ProfessorPayout['status'];
+  paidAt: Date | null;
+}
+
+export interface PayrollSummary {
+  period: string;
+  closed: boolean;
+  closing: FinancialClosing | null;
+  total: number;
+  lines: PayrollLine[];
+}
+
+export function isValidPeriod(period: string): boolean {
+  return PERIOD_PATTERN.test(period);
+}
+
+/**
+ * Período (YYYY-MM) ao qual uma data pertence
+ */
+export function getPeriodForDate(date: Date): string {
+  return formatInTimeZone(date, TIMEZONE, 'yyyy-MM');
+}
+
+/**
+ * Início e fim do mês no fuso de São Paulo, em UTC
+ */
+export function getPeriodBounds(period: string): PeriodBounds {
+  const [year, month] = period.split('-').map(Number);
+  const nextYear = month === 12 ? year + 1 : year;
+  const nextMonth = month === 12 ? 1 : month + 1;
+
+  const startDate = fromZonedTime(`${period}-01T00:00:00`, TIMEZONE);
+  const nextStart = fromZonedTime(`${nextYear}-${String(nextMonth).padStart(2, '0')}-01T00:00:00`, TIMEZONE);
+
+  return { startDate, endDate: new Date(nextStart.getTime() - 1) };
+}
+
+/**
+ * Receita das aulas cobradas (concluídas, faltas e cancelamentos tardios cobrados) no intervalo, por origem (Favale/Pink) e por dia ou mês
+ */
+export async function getRevenueSummary(
+  startDate: Date,
+  endDate: Date,
+  granularity: 'day' | 'month' = 'month'
+): Promise<RevenueSummary> {
+  const rows = await storage.getRevenueBreakdown(startDate, endDate, granularity);
+
+  const emptySources = () => Object.fromEntries(REVENUE_SOURCES.map(source => [source, 0]));
+  const summary: RevenueSummary = { total: 0, lessons: 0, bySource: emptySources(), buckets: [] };
+  const buckets = new Map<string, RevenueBucket>();
+
+  for (const row of rows) {
+    const source = row.source || 'Sem origem';
+    if (!buckets.has(row.bucket)) {
+      buckets.set(row.bucket, { bucket: row.bucket, lessons: 0, total: 0, bySource: emptySources() });
+    }
+
+    const bucket = buckets.get(row.bucket)!;
+    bucket.lessons += row.lessons;
+    bucket.total += row.revenue;
+    bucket.bySource[source] = (bucket.bySource[source] || 0) + row.revenue;
+
+    summary.lessons += row.lessons;
+    summary.total += row.revenue;
+    summary.bySource[source] = (summary.bySource[source] || 0) + row.revenue;
+  }
+
+  summary.buckets = Array.from(buckets.values()).sort((a, b) => a.bucket.localeCompare(b.bucket));
+  return summary;
+}
+
+/**
+ * Calcula o valor devido a cada professor pelas aulas cobradas no período (a mesma regra da receita).
+ * Quando há comissão cadastrada para o serviço da aula, vale o percentual sobre o valor da aula;
+ * caso contrário, o valor hora do professor multiplicado pela duração da aula.
+ */
+export async function calculatePayroll(period: string): Promise<PayrollLine[]> {
+  const { startDate, endDate } = getPeriodBounds(period);
+  const [billableAulas, commissions] = await Promise.all([
+    storage.getBillableAulasForPayroll(startDate, endDate),
+    storage.getProfessorCommissions(),
+  ]);
+
+  const commissionByService = new Map(
+    commissions.map(commission => [`${commission.professorId}:${commission.service}`, commission.commissionPercent])
+  );
+
+  const aulasByProfessor = new Map<number, Aula[]>();
+  for (const aula of billableAulas) {
+    const list = aulasByProfessor.get(aula.professorId) || [];
+    list.push(aula);
+    aulasByProfessor.set(aula.professorId, list);
+  }
+
+  const lines: PayrollLine[] = [];
+  for (const [professorId, professorAulas] of Array.from(aulasByProfessor.entries())) {
+    const professor = await storage.getUser(professorId);
+    const hourlyRate = professor?.hourlyRate ?? null;
+    const line: PayrollLine = {
+      professorId,
+      professorName: professor?.name || professor?.username || `Professor #${professorId}`,
+      hourlyRate,
+      lessonsCount: 0,
+      minutesTotal: 0,
+      hourlyAmount: 0,
+      commissionAmount: 0,
+      amount: 0,
+      missingRate: false,
+      payoutId: null,
+      status: 'aberto',
+      paidAt: null,
+    };
+
+    for (const aula of professorAulas) {
+      const minutes = Math.max(0, Math.round(
+        (new Date(aula.endTime).getTime() - new Date(aula.startTime).getTime()) / 60000
+      ));
+      const commissionPercent = commissionByService.get(`${professorId}:${aula.service}`);
+
+      line.lessonsCount++;
+      line.minutesTotal += minutes;
+
+      if (commissionPercent !== undefined) {
+        line.commissionAmount += Math.round((aula.value || 0) * commissionPercent / 100);
+      } else if (hourlyRate !== null) {
+        line.hourlyAmount += Math.round(hourlyRate * minutes / 60);
+      } else {
+        line.missingRate = true;
+      }
+    }
+
+    line.amount = line.hourlyAmount + line.commissionAmount;
+    lines.push(line);
+  }
+
+  return lines.sort((a, b) => a.professorName.localeCompare(b.professorName));
+}
+
+/**
+ * Folha do período: valores calculados na hora para meses abertos,
+ * ou os valores congelados no fechamento (com status de pagamento) para meses fechados
+ */
+export async function getPayrollSummary(period: string): Promise<PayrollSummary> {
+  const closing = await storage.getFinancialClosing(period);
+  const lines = await calculatePayroll(period);
+
+  if (closing) {
+    const payouts = await storage.getProfessorPayouts(period);
+    const linesByProfessor = new Map(lines.map(line => [line.professorId, line]));
+
+    const lockedLines = await Promise.all(payouts.map(async (payout) => {
+      const calculated = linesByProfessor.get(payout.professorId);
+      const professor = calculated ? null : await storage.getUser(payout.professorId);
+
+      return {
+        ...(calculated || {
+          professorId: payout.professorId,
+          professorName: professor?.name || professor?.username || `Professor #${payout.professorId}`,
+          hourlyRate: professor?.hourlyRate ?? null,
+          hourlyAmount: 0,
+          commissionAmount: 0,
+          missingRate: false,
+        }),
+        lessonsCount: payout.lessonsCount,
+        minutesTotal: payout.minutesTotal,
+        amount: payout.amount,
+        payoutId: payout.id,
+        status: payout.status,
+        paidAt: payout.paidAt,
+      };
+    }));
+
+    return {
+      period,
+      closed: true,
+      closing,
+      total: lockedLines.reduce((sum, line) => sum + line.amount, 0),
+      lines: lockedLines.sort((a, b) => a.professorName.localeCompare(b.professorName)),
+    };
+  }
+
+  return {
+    period,
+    closed: false,
+    closing: null,
+    total: lines.reduce((sum, line) => sum + line.amount, 0),
+    lines,
+  };
+}
+
+/**
+ * Fecha o mês: grava o resumo de receita e os valores devidos a cada professor como pendentes
+ */
+export async function closePeriod(
+  period: string,
+  closedById: number,
+  notes?: string | null
+): Promise<{ closing: FinancialClosing } | { error: string; status: number }> {
+  const { startDate, endDate } = getPeriodBounds(period);
+
+  if (endDate > new Date()) {
+    return { error: "Só é possível fechar meses já encerrados", status: 400 };
+  }
+
+  if (await storage.getFinancialClosing(period)) {
+    return { error: "Período já está fechado", status: 409 };
+  }
+
+  const [revenue, payroll] = await Promise.all([
+    getRevenueSummary(startDate, endDate, 'month'),
+    calculatePayroll(period),
+  ]);
+
+  const payrollTotal = payroll.reduce((sum, line) => sum + line.amount, 0);
+
+  const closing = await storage.createFinancialClosing(
+    {
+      period,
+      closedById,
+      revenueTotal: revenue.total,
+      payrollTotal,
+      notes: notes || null,
+      summary: {
+        lessons: revenue.lessons,
+        revenueBySource: revenue.bySource,
+        payroll: payroll.map(line => ({
+          professorId: line.professorId,
+          professorName: line.professorName,
+          lessonsCount: line.lessonsCount,
+          minutesTotal: line.minutesTotal,
+          hourlyAmount: line.hourlyAmount,
+          commissionAmount: line.commissionAmount,
+          amount: line.amount,
+        })),
+      },
+    },
+    payroll.map(line => ({
+      professorId: line.professorId,
+      period,
+      lessonsCount: line.lessonsCount,
+      minutesTotal: line.minutesTotal,
+      amount: line.amount,
+      status: 'pendente' as const,
+    }))
+  );
+
+  return { closing };
+}
+
+/**
+ * Retorna o período fechado que impede a alteração, ou null se as datas estão em meses abertos
+ */
+export async function findClosedPeriod(...dates: Array<Date | string | null | undefined>): Promise<string | null> {
+  const periods = new Set(
+    dates
+      .filter((date): date is Date | string => !!date)
+      .map(date => getPeriodForDate(new Date(date)))
+  );
+
+  for (const period of Array.from(periods)) {
+    if (await storage.getFinancialClosing(period)) {
+      return period;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,146 @@
+import type { calendar_v3 } from '@googleapis/calendar';
+import { log } from './vite';
+
+/**
+ * Google Calendar simulado, em memória, usado quando não há GOOGLE_CLIENT_ID/SECRET.
+ * Cada usuário conectado tem o seu calendário, com log de versões para emular os
+ * sync tokens da sincronização incremental. Edições "feitas no Google" são simuladas
+ * com simulateFakeGoogleEdit (exposto em /api/oauth/google/fake/events).
+ */
+
+type FakeEvent = calendar_v3.Schema$Event & { id: string; version: number };
+
+interface FakeCalendar {
+  events: Map<string, FakeEvent>;
+  version: number;
+}
+
+export interface FakeGoogleEdit {
+  startTime?: string;
+  endTime?: string;
+  location?: string;
+  cancelled?: boolean;
+}
+
+const calendars = new Map<number, FakeCalendar>();
+let sequence = 0;
+
+function getCalendar(userId: number): FakeCalendar {
+  let calendar = calendars.get(userId);
+  if (!calendar) {
+    calendar = { events: new Map(), version: 0 };
+    calendars.set(userId, calendar);
+  }
+  return calendar;
+}
+
+function touch(calendar: FakeCalendar, event: FakeEvent): FakeEvent {
+  calendar.version++;
+  event.version = calendar.version;
+  event.updated = new Date().toISOString();
+  return event;
+}
+
+function syncTokenFor(calendar: FakeCalendar): string {
+  return `fake-sync-${calendar.version}`;
+}
+
+function strip({ version, ...event }: FakeEvent): calendar_v3.Schema$Event {
+  return event;
+}
+
+export function fakeInsertEvent(userId: number, body: calendar_v3.Schema$Event): calendar_v3.Schema$Event {
+  const calendar = getCalendar(userId);
+  sequence++;
+  const event = touch(calendar, { ...body, id: `fake-event-${Date.now()}-${sequence}`, status: 'confirmed', version: 0 });
+  calendar.events.set(event.id, event);
+  log(`[Google Calendar simulado] evento ${event.id} criado para o usuário ${userId}`, 'google-calendar');
+  return strip(event);
+}
+
+export function fakeUpdateEvent(userId: number, eventId: string, body: calendar_v3.Schema$Event): calendar_v3.Schema$Event | null {
+  const calendar = getCalendar(userId);
+  const existing = calendar.events.get(eventId);
+  if (!existing || existing.status === 'cancelled') {
+    return null;
+  }
+  const event = touch(calendar, { ...existing, ...body, id: eventId });
+  calendar.events.set(eventId, event);
+  return strip(event);
+}
+
+export function fakeDeleteEvent(userId: number, eventId: string): boolean {
+  const calendar = getCalendar(userId);
+  const existing = calendar.events.get(eventId);
+  if (!existing || existing.status === 'cancelled') {
+    return false;
+  }
+  // Assim como no Google, o evento excluído continua visível como "cancelled" na sincronização incremental
+  touch(calendar, Object.assign(existing, { status: 'cancelled' }));
+  return true;
+}
+
+export function fakeListEvents(userId: number, timeMin: Date, timeMax: Date): calendar_v3.Schema$Event[] {
+  return Array.from(getCalendar(userId).events.values())
+    .filter(event => event.status !== 'cancelled'
+      && new Date(event.start?.dateTime || 0) < timeMax
+      && new Date(event.end?.dateTime || 0) > timeMin)
+    .sort((a, b) => new Date(a.start?.dateTime || 0).getTime() - new Date(b.start?.dateTime || 0).getTime())
+    .map(strip);
+}
+
+/**
+ * Retorna os eventos alterados desde o sync token informado, ou null se o token não for
+ * reconhecido (equivalente ao 410 Gone do Google, que exige uma sincronização completa)
+ */
+export function fakeListChanges(userId: number, syncToken: string | null): { items: calendar_v3.Schema$Event[]; nextSyncToken: string } | null {
+  const calendar = getCalendar(userId);
+  const events = Array.from(calendar.events.values());
+
+  if (!syncToken) {
+    return {
+      items: events.filter(event => event.status !== 'cancelled').map(strip),
+      nextSyncToken: syncTokenFor(calendar),
+    };
+  }
+
+  const match = /^fake-sync-(\d+)$/.exec(syncToken);
+  if (!match || Number(match[1]) > calendar.version) {
+    return null;
+  }
+
+  const since = Number(match[1]);
+  return {
+    items: events.filter(event => event.version > since).map(strip),
+    nextSyncToken: syncTokenFor(calendar),
+  };
+}
+
+export function getFakeCalendarEvents(userId: number): calendar_v3.Schema$Event[] {
+  return Array.from(getCalendar(userId).events.values()).map(strip);
+}
+
+/**
+ * Simula uma alteração feita pelo professor diretamente no Google Calendar
+ */
+export function simulateFakeGoogleEdit(userId: number, eventId: string, edit: FakeGoogleEdit): calendar_v3.Schema$Event | null {
+  const calendar = getCalendar(userId);
+  const existing = calendar.events.get(eventId);
+  if (!existing || existing.status === 'cancelled') {
+    return null;
+  }
+
+  if (edit.cancelled) {
+    fakeDeleteEvent(userId, eventId);
+    return strip(existing);
+  }
+
+  const event = touch(calendar, {
+    ...existing,
+    start: edit.startTime ? { ...existing.start, dateTime: edit.startTime } : existing.start,
+    end: edit.endTime ? { ...existing.end, dateTime: edit.endTime } : existing.end,
+    location: edit.location ?? existing.location,
+  });
+  calendar.events.set(eventId, event);
+  return strip(event);
+}
@@ -0,0 +1,264 @@
+import type { calendar_v3 } from '@googleapis/calendar';
+import type { Aula, InsertAula } from '@shared/schema';
+import { storage } from './storage';
+import {
+  createCalendarEvent,
+  updateCalendarEvent,
+  deleteCalendarEvent,
+  listCalendarChanges,
+  type CalendarEventData
+} from './google-calendar';
+import { findClosedPeriod } from './finance-service';
+import { log } from './vite';
+
+/**
+ * Resultado da leitura das alterações feitas no Google Calendar de um professor
+ */
+export interface GooglePullResult {
+  updated: number;
+  cancelled: number;
+  skipped: number; // Alterações não aplicadas (período financeiro fechado)
+}
+
+type ChangeOutcome = keyof GooglePullResult | 'ignored';
+
+async function buildEventData(aula: Aula): Promise<CalendarEventData> {
+  const student = await storage.getLeadById(aula.studentId);
+  const studentName = student?.name || 'Aluno';
+
+  return {
+    aulaId: aula.id,
+    summary: `${aula.service}: ${studentName}`,
+    description: aula.notes || `Aula de ${aula.service} com ${studentName}`,
+    location: aula.location,
+    startTime: aula.startTime,
+    endTime: aula.endTime,
+  };
+}
+
+/**
+ * Leva a aula para o Google Calendar do professor, se ele estiver conectado:
+ * cria o evento, atualiza o existente ou o remove quando a aula é cancelada.
+ * Aula transferida de professor sai do calendário antigo. Nunca lança erro,
+ * para não interromper a operação que originou a sincronização.
+ */
+export async function syncAulaWithGoogle(aula: Aula): Promise<void> {
+  try {
+    let { googleEventId } = aula;
+
+    if (googleEventId && aula.googleCalendarUserId
+      && (aula.status === 'cancelado' || aula.googleCalendarUserId !== aula.professorId)) {
+      await deleteCalendarEvent(aula.googleCalendarUserId, googleEventId);
+      await storage.setAulaGoogleEvent(aula.id, null, null);
+      googleEventId = null;
+    }
+
+    if (aula.status === 'cancelado' || !(await storage.getGoogleConnection(aula.professorId))) {
+      return;
+    }
+
+    const data = await buildEventData(aula);
+    if (googleEventId) {
+      await updateCalendarEvent(aula.professorId, googleEventId, data);
+      return;
+    }
+
+    const eventId = await createCalendarEvent(aula.professorId, data);
+    if (eventId) {
+      await storage.setAulaGoogleEvent(aula.id, eventId, aula.professorId);
+    }
+  } catch (error) {
+    console.error(`Erro ao sincronizar aula ${aula.id} com o Google Calendar:`, error);
+  }
+}
+
+/**
+ * Sincroniza várias aulas em sequência (ex.: geradas por uma série recorrente)
+ */
+export async function syncAulasWithGoogle(aulasList: Aula[]): Promise<void> {
+  for (const aula of aulasList) {
+    await syncAulaWithGoogle(aula);
+  }
+}
+
+/**
+ * Remove do Google Calendar os eventos de aulas excluídas do CRM
+ */
+export async function removeAulasFromGoogle(aulasList: Aula[]): Promise<void> {
+  for (const aula of aulasList) {
+    if (!aula.googleEventId || !aula.googleCalendarUserId) {
+      continue;
+    }
+    try {
+      await deleteCalendarEvent(aula.googleCalendarUserId, aula.googleEventId);
+    } catch (error) {
+      console.error(`Erro ao remover evento da aula ${aula.id} do Google Calendar:`, error);
+    }
+  }
+}
+
+/**
+ * Aplica na aula vinculada um evento alterado no Google: horário, local ou exclusão
+ */
+async function applyGoogleChange(userId: number, event: calendar_v3.Schema$Event): Promise<ChangeOutcome> {
+  if (!event.id) {
+    return 'ignored';
+  }
+
+  const aula = await storage.getAulaByGoogleEvent(userId, event.id);
+  if (!aula) {
+    return 'ignored';
+  }
+
+  if (event.status === 'cancelled') {
+    // O evento não existe mais: a aula deixa de apontar para ele em qualquer caso
+    await storage.setAulaGoogleEvent(aula.id, null, null);
+    if (aula.status !== 'agendado') {
+      return 'ignored';
+    }
+    if (await findClosedPeriod(aula.startTime)) {
+      return 'skipped';
+    }
+    // Cancelado pelo professor: não é cobrado do aluno mesmo em cima da hora
+    await storage.updateAula(aula.id, {
+      status: 'cancelado',
+      cancellationReason: 'Evento excluído no Google Calendar',
+      chargeable: false,
+    });
+    return 'cancelled';
+  }
+
+  // Eventos de dia inteiro não têm horário para aplicar na aula
+  if (!event.start?.dateTime || !event.end?.dateTime) {
+    return 'ignored';
+  }
+
+  const startTime = new Date(event.start.dateTime);
+  const endTime = new Date(event.end.dateTime);
+  const timeChanged = startTime.getTime() !== aula.startTime.getTime() || endTime.getTime() !== aula.endTime.getTime();
+  const changes: Partial<InsertAula> = {};
+
+  if (timeChanged) {
+    // Mesma marcação da edição individual: a série não substitui mais esta aula
+    Object.assign(changes, {
+      startTime,
+      endTime,
+      isModified: true,
+      originalStartTime: aula.originalStartTime ?? aula.startTime,
+      originalEndTime: aula.originalEndTime ?? aula.endTime,
+    });
+  }
+  if (event.location && event.location !== aula.location) {
+    changes.location = event.location;
+    changes.locationId = null; // Endereço digitado no Google não corresponde a um local cadastrado
+  }
+
+  if (Object.keys(changes).length === 0) {
+    return 'ignored';
+  }
+
+  if (timeChanged && await findClosedPeriod(aula.startTime, startTime)) {
+    // Período fechado: o CRM prevalece e o evento volta ao horário da aula
+    await syncAulaWithGoogle(aula);
+    return 'skipped';
+  }
+
+  await storage.updateAula(aula.id, changes);
+  return 'updated';
+}
+
+/**
+ * Lê as alterações feitas no Google Calendar do usuário desde a última sincronização
+ * (sync token incremental) e aplica nas aulas vinculadas aos eventos
+ */
+export async function pullGoogleChanges(userId: number): Promise<GooglePullResult> {
+  const result: GooglePullResult = { updated: 0, cancelled: 0, skipped: 0 };
+
+  const connection = await storage.getGoogleConnection(userId);
+  if (!connection) {
+    return result;
+  }
+
+  let changes = await listCalendarChanges(userId, connection.syncToken);
+  if (changes.expired) {
+    log(`Sync token do usuário ${userId} expirou; refazendo a leitura completa`, 'google-calendar');
+    changes = await listCalendarChanges(userId, null);
+    if (changes.expired) {
+      return result;
+    }
+  }
+
+  for (const event of changes.events) {
+    const outcome = await applyGoogleChange(userId, event);
+    if (outcome !== 'ignored') {
+      result[outcome]++;
+    }
+  }
+
+  await storage.updateGoogleSyncState(userId, changes.nextSyncToken);
+
+  if (result.updated + result.cancelled + result.skipped > 0) {
+    log(`Usuário ${userId}: ${result.updated} aula(s) alteradas, ${result.cancelled} cancelada(s) e ${result.skipped} ignorada(s) pelo Google Calendar`, 'google-calendar');
+  }
+
+  return result;
+}
+
+/**
+ * Lê as alterações de todos os professores conectados
+ */
+export async function pullAllGoogleChanges(): Promise<number> {
+  const connections = await storage.getGoogleConnections();
+  let applied = 0;
+
+  for (const connection of connections) {
+    try {
+      const result = await pullGoogleChanges(connection.userId);
+      applied += result.updated + result.cancelled;
+    } catch (error) {
+      console.error(`Erro ao ler alterações do Google Calendar do usuário ${connection.userId}:`, error);
+    }
+  }
+
+  return applied;
+}
+
+let googleSyncTimer: NodeJS.Timeout | null = null;
+let isPullingGoogleChanges = false;
+
+/**
+ * Inicia a leitura periódica das alterações feitas no Google Calendar (padrão: a cada 10 minutos)
+ */
+export function startGoogleCalendarSync(intervalMs: number = parseInt(process.env.GOOGLE_CALENDAR_SYNC_INTERVAL_MS || '600000', 10)) {
+  if (googleSyncTimer || process.env.GOOGLE_CALENDAR_SYNC_ENABLED === 'false') {
+    return;
+  }
+
+  const run = async () => {
+    if (isPullingGoogleChanges) {
+      return;
+    }
+
+    isPullingGoogleChanges = true;
+    try {
+      await pullAllGoogleChanges();
+    } catch (error) {
+      console.error('Erro ao sincronizar com o Google Calendar:', error);
+    } finally {
+      isPullingGoogleChanges = false;
+    }
+  };
+
+  googleSyncTimer = setInterval(run, intervalMs);
+  googleSyncTimer.unref();
+  run();
+
+  log(`Sincronização com o Google Calendar iniciada (a cada ${Math.round(intervalMs / 60000)} min)`, 'google-calendar');
+}
+
+export function stopGoogleCalendarSync() {
+  if (googleSyncTimer) {
+    clearInterval(googleSyncTimer);
+    googleSyncTimer = null;
+  }
+}
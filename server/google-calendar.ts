@@ -1,52 +1,127 @@
-import { calendar as googleCalendar, auth as googleAuth } from '@googleapis/calendar';
+import { calendar as googleCalendar, auth as googleAuth, calendar_v3 } from '@googleapis/calendar';
 import { storage } from './storage';
-import { Trainer, Session } from '@shared/schema';
 import { formatInTimeZone } from 'date-fns-tz';
+import {
+  fakeInsertEvent,
+  fakeUpdateEvent,
+  fakeDeleteEvent,
+  fakeListEvents,
+  fakeListChanges
+} from './google-calendar-fake';
 
-// Configuração do OAuth2
-const oauth2Client = new googleAuth.OAuth2(
-  process.env.GOOGLE_CLIENT_ID,
-  process.env.GOOGLE_CLIENT_SECRET,
-  process.env.GOOGLE_REDIRECT_URI || `${process.env.REPL_URL || 'http://localhost:5000'}/api/oauth/google/callback`
-);
-
-// Criar uma instância da API do Calendar
-const calendar = googleCalendar({ version: 'v3', auth: oauth2Client });
-
-// TODO: Implementar modo de teste para desenvolvimento sem API keys
-const isTestMode = !process.env.GOOGLE_CLIENT_ID || !process.env.GOOGLE_CLIENT_SECRET;
-
-// Função para simular requisições do calendar em modo de teste
-function simulateCalendarOperation(operation: string, data: any = {}): any {
-  console.log(`[SIMULAÇÃO GOOGLE CALENDAR] ${operation}`, data);
-  
-  // Simular dados de resposta com base na operação
-  if (operation === 'insert') {
-    return { data: { id: `fake-event-${Date.now()}` } };
-  } else if (operation === 'update' || operation === 'delete') {
-    return { data: { updated: true } };
-  } else if (operation === 'list') {
-    return { data: { items: [] } };
-  }
-  
-  return { data: {} };
+const TIMEZONE = 'America/Sao_Paulo';
+const REDIRECT_URI = process.env.GOOGLE_REDIRECT_URI || `${process.env.REPL_URL || 'http://localhost:5000'}/api/oauth/google/callback`;
+
+function createOAuthClient() {
+  return new googleAuth.OAuth2(
+    process.env.GOOGLE_CLIENT_ID,
+    process.env.GOOGLE_CLIENT_SECRET,
+    REDIRECT_URI
+  );
 }
 
+// Cliente usado apenas no fluxo de autorização; as chamadas à agenda usam um cliente por usuário
+const oauth2Client = createOAuthClient();
+
+// Sem credenciais configuradas, as operações vão para o calendário simulado em memória
+export const isTestMode = !process.env.GOOGLE_CLIENT_ID || !process.env.GOOGLE_CLIENT_SECRET;
+
 // Escopos necessários para acessar o calendar
 const SCOPES = [
   'https://www.googleapis.com/auth/calendar',
   'https://www.googleapis.com/auth/calendar.events'
 ];
 
+/**
+ * Dados de uma aula no formato necessário para montar o evento
+ */
+export interface CalendarEventData {
+  aulaId: number;
+  summary: string;
+  description: string;
+  location: string;
+  startTime: Date;
+  endTime: Date;
+}
+
+/**
+ * Resultado da leitura incremental de alterações do calendário
+ */
+export type CalendarChanges =
+  | { expired: false; events: calendar_v3.Schema$Event[]; nextSyncToken: string | null }
+  | { expired: true };
+
+function toDateTime(date: Date): string {
+  return formatInTimeZone(date, TIMEZONE, "yyyy-MM-dd'T'HH:mm:ss.SSSxxx");
+}
+
+function toGoogleEvent(data: CalendarEventData): calendar_v3.Schema$Event {
+  return {
+    summary: data.summary,
+    location: data.location,
+    description: data.description,
+    start: { dateTime: toDateTime(data.startTime), timeZone: TIMEZONE },
+    end: { dateTime: toDateTime(data.endTime), timeZone: TIMEZONE },
+    // Permite reconhecer os eventos criados pelo CRM mesmo fora da tabela de aulas
+    extendedProperties: { private: { crmAulaId: String(data.aulaId) } },
+    reminders: {
+      useDefault: false,
+      overrides: [
+        { method: 'email', minutes: 24 * 60 }, // 1 dia antes
+        { method: 'popup', minutes: 60 } // 1 hora antes
+      ],
+    },
+  };
+}
+
+function errorStatus(error: unknown): number | undefined {
+  const code = (error as { code?: number | string })?.code;
+  return typeof code === 'number' ? code : code ? parseInt(code, 10) : undefined;
+}
+
+/**
+ * Cria o cliente da agenda com os tokens do usuário. Retorna null se ele não conectou o Google.
+ */
+async function getUserCalendar(userId: number): Promise<{ calendar: calendar_v3.Calendar; calendarId: string } | null> {
+  const connection = await storage.getGoogleConnection(userId);
+  if (!connection) {
+    return null;
+  }
+
+  const client = createOAuthClient();
+  client.setCredentials({
+    access_token: connection.accessToken,
+    refresh_token: connection.refreshToken,
+    expiry_date: connection.expiryDate.getTime(),
+  });
+
+  // A biblioteca renova o access token quando expira; persiste o novo para as próximas chamadas
+  client.on('tokens', (tokens) => {
+    if (!tokens.access_token || !tokens.expiry_date) {
+      return;
+    }
+    storage.saveGoogleTokens(userId, {
+      access_token: tokens.access_token,
+      refresh_token: tokens.refresh_token || undefined,
+      expiry_date: tokens.expiry_date,
+    }).catch(error => console.error('Erro ao salvar token renovado do Google:', error));
+  });
+
+  return {
+    calendar: googleCalendar({ version: 'v3', auth: client }),
+    calendarId: connection.calendarId,
+  };
+}
+
 /**
  * Gera a URL de autorização para o Google
  */
 export function getAuthUrl(): string {
   if (isTestMode) {
-    console.log(`[SIMULAÇÃO GOOGLE CALENDAR] getAuthUrl`);
-    return 'https://teste-oauth-url.example.com/authorize';
+    // Sem Google de verdade, a "autorização" vai direto para o callback com um código simulado
+    return `${REDIRECT_URI}?code=modo-teste`;
   }
-  
+
   return oauth2Client.generateAuthUrl({
     access_type: 'offline',
     scope: SCOPES,
@@ -63,327 +138,161 @@ export async function getTokensFromCode(code: string): Promise<{
   expiry_date: number;
 }> {
   if (isTestMode) {
-    console.log(`[SIMULAÇÃO GOOGLE CALENDAR] getTokensFromCode ${code}`);
     return {
       access_token: 'fake-access-token',
       refresh_token: 'fake-refresh-token',
       expiry_date: Date.now() + 3600000, // 1 hora a partir de agora
     };
   }
-  
+
   const { tokens } = await oauth2Client.getToken(code);
   return {
     access_token: tokens.access_token!,
-    refresh_token: tokens.refresh_token,
+    refresh_token: tokens.refresh_token || undefined,
     expiry_date: tokens.expiry_date!,
   };
 }
 
 /**
- * Define as credenciais para o cliente OAuth2
- */
-export function setCredentials(tokens: {
-  access_token: string;
-  refresh_token?: string;
-  expiry_date: number;
-}): void {
-  if (isTestMode) {
-    console.log(`[SIMULAÇÃO GOOGLE CALENDAR] setCredentials`, tokens);
-    return;
-  }
-  
-  oauth2Client.setCredentials({
-    access_token: tokens.access_token,
-    refresh_token: tokens.refresh_token,
-    expiry_date: tokens.expiry_date
-  });
-}
-
-/**
- * Carrega tokens de um usuário e configura as credenciais
+ * Cria um evento no Google Calendar do usuário e retorna o ID do evento
  */
-export async function loadUserCredentials(userId: number): Promise<boolean> {
-  if (isTestMode) {
-    console.log(`[SIMULAÇÃO GOOGLE CALENDAR] loadUserCredentials for user ${userId}`);
-    return true;
-  }
-  
+export async function createCalendarEvent(userId: number, data: CalendarEventData): Promise<string | null> {
   try {
-    const tokens = await storage.getGoogleTokens(userId);
-    if (!tokens) {
-      return false;
-    }
-    
-    setCredentials(tokens);
-    
-    // Verificar se o token precisa ser renovado
-    const now = Date.now();
-    if (tokens.expiry_date <= now + 300000) { // Renovar se expira em 5 minutos
-      await refreshTokenIfNeeded(userId);
+    if (isTestMode) {
+      return fakeInsertEvent(userId, toGoogleEvent(data)).id || null;
     }
-    
-    return true;
-  } catch (error) {
-    console.error('Erro ao carregar credenciais do usuário:', error);
-    return false;
-  }
-}
 
-/**
- * Renova o token de acesso se necessário
- */
-async function refreshTokenIfNeeded(userId: number): Promise<void> {
-  try {
-    const tokens = await storage.getGoogleTokens(userId);
-    if (!tokens?.refresh_token) {
-      throw new Error('Refresh token não disponível');
+    const userCalendar = await getUserCalendar(userId);
+    if (!userCalendar) {
+      return null;
     }
-    
-    oauth2Client.setCredentials({
-      refresh_token: tokens.refresh_token
+
+    const response = await userCalendar.calendar.events.insert({
+      calendarId: userCalendar.calendarId,
+      requestBody: toGoogleEvent(data),
     });
-    
-    const { credentials } = await oauth2Client.refreshAccessToken();
-    
-    if (credentials.access_token && credentials.expiry_date) {
-      const newTokens = {
-        access_token: credentials.access_token,
-        refresh_token: credentials.refresh_token || tokens.refresh_token,
-        expiry_date: credentials.expiry_date
-      };
-      
-      await storage.saveGoogleTokens(userId, newTokens);
-      setCredentials(newTokens);
-    }
+
+    return response.data.id || null;
   } catch (error) {
-    console.error('Erro ao renovar token:', error);
-    throw error;
+    console.error('Erro ao criar evento no Google Calendar:', error);
+    return null;
   }
 }
 
 /**
- * Cria um evento no Google Calendar
+ * Atualiza um evento no Google Calendar. Retorna false se o evento não existe mais.
  */
-export async function createCalendarEvent(session: Session, trainer: Trainer, studentName: string): Promise<string | null> {
+export async function updateCalendarEvent(userId: number, eventId: string, data: CalendarEventData): Promise<boolean> {
   try {
-    // Formatar as datas para ISO
-    const startTimeISO = session.startTime instanceof Date ? 
-      formatInTimeZone(session.startTime, 'America/Sao_Paulo', "yyyy-MM-dd'T'HH:mm:ss.SSSxxx") : 
-      formatInTimeZone(new Date(session.startTime), 'America/Sao_Paulo', "yyyy-MM-dd'T'HH:mm:ss.SSSxxx");
-    
-    const endTimeISO = session.endTime instanceof Date ? 
-      formatInTimeZone(session.endTime, 'America/Sao_Paulo', "yyyy-MM-dd'T'HH:mm:ss.SSSxxx") : 
-      formatInTimeZone(new Date(session.endTime), 'America/Sao_Paulo', "yyyy-MM-dd'T'HH:mm:ss.SSSxxx");
-
-    // Cor do evento baseada na fonte (Favale = azul, Pink = rosa)
-    const colorId = session.source === 'Favale' ? '1' : '3'; // 1=azul, 3=roxo/rosa
-    
-    // Criar o evento
-    const event = {
-      summary: `Treino ${session.source}: ${studentName}`,
-      location: session.location,
-      description: session.notes || `Sessão de treinamento para ${studentName}`,
-      start: {
-        dateTime: startTimeISO,
-        timeZone: 'America/Sao_Paulo',
-      },
-      end: {
-        dateTime: endTimeISO,
-        timeZone: 'America/Sao_Paulo',
-      },
-      colorId: colorId,
-      attendees: [
-        { email: trainer.email, responseStatus: 'accepted' },
-      ],
-      reminders: {
-        useDefault: false,
-        overrides: [
-          { method: 'email', minutes: 24 * 60 }, // 1 dia antes
-          { method: 'popup', minutes: 60 } // 1 hora antes
-        ],
-      },
-    };
-
-    // ID do calendário do professor ou o calendário primário se não especificado
-    const calendarId = trainer.calendarId || 'primary';
-
-    // Modo de teste ou produção
-    let response;
     if (isTestMode) {
-      // Simular operação do Google Calendar em modo de teste
-      response = simulateCalendarOperation('insert', {
-        calendarId,
-        event,
-        studentName,
-        trainerEmail: trainer.email
-      });
-    } else {
-      // Fazer requisição real ao Google Calendar
-      response = await calendar.events.insert({
-        calendarId: calendarId,
-        requestBody: event,
-        sendNotifications: true,
-      });
+      return fakeUpdateEvent(userId, eventId, toGoogleEvent(data)) !== null;
     }
 
-    return response.data.id || null;
+    const userCalendar = await getUserCalendar(userId);
+    if (!userCalendar) {
+      return false;
+    }
+
+    await userCalendar.calendar.events.update({
+      calendarId: userCalendar.calendarId,
+      eventId,
+      requestBody: toGoogleEvent(data),
+    });
+
+    return true;
   } catch (error) {
-    console.error('Erro ao criar evento no Google Calendar:', error);
-    return null;
+    console.error('Erro ao atualizar evento no Google Calendar:', error);
+    return false;
   }
 }
 
 /**
- * Atualiza um evento no Google Calendar
+ * Cancela (exclui) um evento no Google Calendar. Evento já excluído conta como sucesso.
  */
-export async function updateCalendarEvent(
-  session: Session, 
-  trainer: Trainer, 
-  studentName: string, 
-  eventId: string
-): Promise<boolean> {
+export async function deleteCalendarEvent(userId: number, eventId: string): Promise<boolean> {
   try {
-    // Formatar as datas para ISO
-    const startTimeISO = session.startTime instanceof Date ? 
-      formatInTimeZone(session.startTime, 'America/Sao_Paulo', "yyyy-MM-dd'T'HH:mm:ss.SSSxxx") : 
-      formatInTimeZone(new Date(session.startTime), 'America/Sao_Paulo', "yyyy-MM-dd'T'HH:mm:ss.SSSxxx");
-    
-    const endTimeISO = session.endTime instanceof Date ? 
-      formatInTimeZone(session.endTime, 'America/Sao_Paulo', "yyyy-MM-dd'T'HH:mm:ss.SSSxxx") : 
-      formatInTimeZone(new Date(session.endTime), 'America/Sao_Paulo', "yyyy-MM-dd'T'HH:mm:ss.SSSxxx");
-
-    // Cor do evento baseada na fonte (Favale = azul, Pink = rosa)
-    const colorId = session.source === 'Favale' ? '1' : '3'; // 1=azul, 3=roxo/rosa
-
-    // Dados atualizados do evento
-    const event = {
-      summary: `Treino ${session.source}: ${studentName}`,
-      location: session.location,
-      description: session.notes || `Sessão de treinamento para ${studentName}`,
-      start: {
-        dateTime: startTimeISO,
-        timeZone: 'America/Sao_Paulo',
-      },
-      end: {
-        dateTime: endTimeISO,
-        timeZone: 'America/Sao_Paulo',
-      },
-      colorId: colorId,
-      attendees: [
-        { email: trainer.email, responseStatus: 'accepted' },
-      ],
-      reminders: {
-        useDefault: false,
-        overrides: [
-          { method: 'email', minutes: 24 * 60 }, // 1 dia antes
-          { method: 'popup', minutes: 60 } // 1 hora antes
-        ],
-      },
-    };
-    
-    // ID do calendário do professor ou o calendário primário se não especificado
-    const calendarId = trainer.calendarId || 'primary';
-    
-    // Modo de teste ou produção
     if (isTestMode) {
-      // Simular operação do Google Calendar em modo de teste
-      simulateCalendarOperation('update', {
-        calendarId,
-        eventId,
-        event,
-        studentName,
-        trainerEmail: trainer.email
-      });
-    } else {
-      // Fazer requisição real ao Google Calendar
-      await calendar.events.update({
-        calendarId: calendarId,
-        eventId: eventId,
-        requestBody: event,
-        sendNotifications: true,
-      });
+      fakeDeleteEvent(userId, eventId);
+      return true;
     }
-    
+
+    const userCalendar = await getUserCalendar(userId);
+    if (!userCalendar) {
+      return false;
+    }
+
+    await userCalendar.calendar.events.delete({
+      calendarId: userCalendar.calendarId,
+      eventId,
+    });
+
     return true;
   } catch (error) {
-    console.error('Erro ao atualizar evento no Google Calendar:', error);
+    const status = errorStatus(error);
+    if (status === 404 || status === 410) {
+      return true;
+    }
+    console.error('Erro ao excluir evento no Google Calendar:', error);
     return false;
   }
 }
 
 /**
- * Cancela (exclui) um evento no Google Calendar
+ * Lê os eventos alterados desde o último sync token. Sem token, faz a leitura completa
+ * a partir de agora (o que passou não interessa à sincronização) e devolve o primeiro token.
  */
-export async function deleteCalendarEvent(trainer: Trainer, eventId: string): Promise<boolean> {
+export async function listCalendarChanges(userId: number, syncToken: string | null): Promise<CalendarChanges> {
+  if (isTestMode) {
+    const changes = fakeListChanges(userId, syncToken);
+    return changes
+      ? { expired: false, events: changes.items, nextSyncToken: changes.nextSyncToken }
+      : { expired: true };
+  }
+
+  const userCalendar = await getUserCalendar(userId);
+  if (!userCalendar) {
+    return { expired: false, events: [], nextSyncToken: syncToken };
+  }
+
+  const events: calendar_v3.Schema$Event[] = [];
+  let pageToken: string | undefined;
+  let nextSyncToken: string | null = null;
+
   try {
-    // ID do calendário do professor ou o calendário primário se não especificado
-    const calendarId = trainer.calendarId || 'primary';
-    
-    // Modo de teste ou produção
-    if (isTestMode) {
-      // Simular operação do Google Calendar em modo de teste
-      simulateCalendarOperation('delete', {
-        calendarId,
-        eventId,
-        trainerEmail: trainer.email
-      });
-    } else {
-      // Fazer requisição real ao Google Calendar
-      await calendar.events.delete({
-        calendarId: calendarId,
-        eventId: eventId,
-        sendNotifications: true,
+    do {
+      const response = await userCalendar.calendar.events.list({
+        calendarId: userCalendar.calendarId,
+        singleEvents: true,
+        pageToken,
+        ...(syncToken ? { syncToken } : { timeMin: new Date().toISOString() }),
       });
-    }
-    
-    return true;
+      events.push(...(response.data.items || []));
+      pageToken = response.data.nextPageToken || undefined;
+      nextSyncToken = response.data.nextSyncToken || nextSyncToken;
+    } while (pageToken);
   } catch (error) {
-    console.error('Erro ao excluir evento no Google Calendar:', error);
-    return false;
+    // 410 Gone: o token expirou e o Google exige uma nova leitura completa
+    if (errorStatus(error) === 410) {
+      return { expired: true };
+    }
+    throw error;
   }
+
+  return { expired: false, events, nextSyncToken };
 }
 
 /**
  * Verifica disponibilidade do professor em um período específico
  */
 export async function checkTrainerAvailability(
-  trainer: Trainer, 
-  startTime: Date, 
+  userId: number,
+  startTime: Date,
   endTime: Date
 ): Promise<boolean> {
   try {
-    // ID do calendário do professor ou o calendário primário se não especificado
-    const calendarId = trainer.calendarId || 'primary';
-    
-    // Formatar as datas para ISO
-    const startTimeISO = formatInTimeZone(startTime, 'America/Sao_Paulo', "yyyy-MM-dd'T'HH:mm:ss.SSSxxx");
-    const endTimeISO = formatInTimeZone(endTime, 'America/Sao_Paulo', "yyyy-MM-dd'T'HH:mm:ss.SSSxxx");
-    
-    // Modo de teste ou produção
-    let response;
-    if (isTestMode) {
-      // Simular operação do Google Calendar em modo de teste
-      response = simulateCalendarOperation('list', {
-        calendarId,
-        timeMin: startTimeISO,
-        timeMax: endTimeISO,
-        trainerEmail: trainer.email
-      });
-      // Em modo de teste, sempre retornar disponível
-      return true;
-    } else {
-      // Fazer requisição real ao Google Calendar
-      response = await calendar.events.list({
-        calendarId: calendarId,
-        timeMin: startTimeISO,
-        timeMax: endTimeISO,
-        singleEvents: true,
-        orderBy: 'startTime',
-      });
-      
-      // Se não há eventos no período, o professor está disponível
-      return response.data.items && response.data.items.length === 0;
-    }
+    const events = await getTrainerEvents(userId, startTime, endTime);
+    // Se não há eventos no período, o professor está disponível
+    return events.length === 0;
   } catch (error) {
     console.error('Erro ao verificar disponibilidade do professor:', error);
     return false;
@@ -394,42 +303,29 @@ export async function checkTrainerAvailability(
  * Obtém todos os eventos do calendário de um professor em um período
  */
 export async function getTrainerEvents(
-  trainer: Trainer, 
-  startDate: Date, 
+  userId: number,
+  startDate: Date,
   endDate: Date
-): Promise<any[]> {
+): Promise<calendar_v3.Schema$Event[]> {
   try {
-    // ID do calendário do professor ou o calendário primário se não especificado
-    const calendarId = trainer.calendarId || 'primary';
-    
-    // Formatar as datas para ISO
-    const startTimeISO = formatInTimeZone(startDate, 'America/Sao_Paulo', "yyyy-MM-dd'T'HH:mm:ss.SSSxxx");
-    const endTimeISO = formatInTimeZone(endDate, 'America/Sao_Paulo', "yyyy-MM-dd'T'HH:mm:ss.SSSxxx");
-    
-    // Modo de teste ou produção
-    let response;
     if (isTestMode) {
-      // Simular operação do Google Calendar em modo de teste
-      response = simulateCalendarOperation('list', {
-        calendarId,
-        timeMin: startTimeISO,
-        timeMax: endTimeISO,
-        trainerEmail: trainer.email
-      });
-      // Em modo de teste, retornar um array vazio
+      return fakeListEvents(userId, startDate, endDate);
+    }
+
+    const userCalendar = await getUserCalendar(userId);
+    if (!userCalendar) {
       return [];
-    } else {
-      // Fazer requisição real ao Google Calendar
-      response = await calendar.events.list({
-        calendarId: calendarId,
-        timeMin: startTimeISO,
-        timeMax: endTimeISO,
-        singleEvents: true,
-        orderBy: 'startTime',
-      });
-      
-      return response.data.items || [];
     }
+
+    const response = await userCalendar.calendar.events.list({
+      calendarId: userCalendar.calendarId,
+      timeMin: toDateTime(startDate),
+      timeMax: toDateTime(endDate),
+      singleEvents: true,
+      orderBy: 'startTime',
+    });
+
+    return response.data.items || [];
   } catch (error) {
     console.error('Erro ao obter eventos do professor:', error);
     return [];
@@ -6,6 +6,14 @@ import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { validateProductionEnvironment, setupSecurityHeaders, setupHealthCheck, getProductionConfig } from "./production-config";
 import type { Server } from "http";
+import { startEmailOutboxWorker, stopEmailOutboxWorker } from "./email-service";
+import { startReminderScheduler, stopReminderScheduler } from "./reminder-service";
+import { startAuditLogRetentionJob, stopAuditLogRetentionJob } from "./audit-log";
+import { startRecurrenceScheduler, stopRecurrenceScheduler } from "./recurrence-service";
+import { startGoogleCalendarSync, stopGoogleCalendarSync } from "./google-calendar-sync";
+import { startWaitlistScheduler, stopWaitlistScheduler } from "./waitlist-service";
+import { startLeadImportWorker, stopLeadImportWorker } from "./lead-import-service";
+import { MAX_MEDIA_BYTES } from "./whatsapp-providers/message-utils";
 
 // Production environment check
 const isProduction = process.env.NODE_ENV === 'production';
@@ -33,9 +41,15 @@ if (isProduction) {
   setupSecurityHeaders(app);
 }
 
-// Aumentar o limite de tamanho para processamento de dados grandes (50MB)
-app.use(express.json({ limit: '50mb' }));
-app.use(express.urlencoded({ extended: false, limit: '50mb' }));
+// O webhook do WhatsApp pode trazer a mídia em base64 no corpo: limite calculado pelo tamanho máximo de mídia
+app.use('/api/whatsapp/webhook', express.json({
+  limit: Math.ceil(MAX_MEDIA_BYTES * 4 / 3) + 1024 * 1024,
+  // Corpo original guardado para conferir a assinatura da Meta (X-Hub-Signature-256)
+  verify: (req: Request, _res, buf) => { req.rawBody = buf; },
+}));
+// Demais rotas: planilhas de leads são enviadas como arquivo para /api/lead-imports, não em JSON
+app.use(express.json({ limit: '1mb' }));
+app.use(express.urlencoded({ extended: false, limit: '1mb' }));
 
 app.use((req, res, next) => {
   const start = Date.now();
@@ -83,6 +97,13 @@ let server: Server;
 // Graceful shutdown handler
 const gracefulShutdown = (signal: string) => {
   log(`Received ${signal}, shutting down gracefully...`, 'shutdown');
+  stopEmailOutboxWorker();
+  stopReminderScheduler();
+  stopAuditLogRetentionJob();
+  stopRecurrenceScheduler();
+  stopGoogleCalendarSync();
+  stopWaitlistScheduler();
+  stopLeadImportWorker();
   
   if (server) {
     server.close(() => {
@@ -160,6 +181,15 @@ process.on('SIGINT', () => gracefulShutdown('SIGINT'));
         log('Production mode active - Security headers enabled', 'startup');
         log('Health check endpoints: /health, /ready, /live', 'startup');
       }
+
+      // Processamento em segundo plano da fila de e-mails, lembretes de aulas, retenção da auditoria, séries recorrentes, Google Calendar, lista de espera e importações de leads
+      startEmailOutboxWorker();
+      startReminderScheduler();
+      startAuditLogRetentionJob();
+      startRecurrenceScheduler();
+      startGoogleCalendarSync();
+      startWaitlistScheduler();
+      startLeadImportWorker();
     });
 
   } catch (error) {
@@ -0,0 +1,589 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { Request } from 'express';
+import { formatInTimeZone } from 'date-fns-tz';
+import type { Writable } from 'stream';
+import {
+  leadValidationSchema,
+  leadImportMappingSchema,
+  type InsertLeadImportError,
+  type Lead,
+  type LeadImportJob,
+  type PipelineStage,
+} from '@shared/schema';
+import {
+  mapLeadImportRow,
+  suggestLeadImportMapping,
+  type LeadImportDefaults,
+  type LeadImportDryRun,
+  type LeadImportField,
+  type LeadImportMapping,
+  type LeadImportRowError,
+} from '@shared/lead-import';
+import { AVAILABILITY_TIMEZONE } from '@shared/availability';
+import { storage } from './storage';
+import { syncLeadStage } from './pipeline-service';
+import { canonicalPhone, getStateFromPhone } from './utils/lead.utils';
+import { detectSpreadsheetFormat, readSpreadsheet, SpreadsheetError, type SpreadsheetFormat } from './spreadsheet-reader';
+import { log } from './vite';
+
+/**
+ * Importação de leads por planilha no servidor: o arquivo é enviado em fluxo para o disco,
+ * o usuário mapeia as colunas, confere a prévia e a simulação, e a importação roda em segundo plano
+ * em lotes. O avanço de cada lote é gravado, então uma importação interrompida (reinício do servidor,
+ * falha) continua da linha seguinte à última gravada.
+ */
+
+export const LEAD_IMPORT_DIR = path.resolve(process.env.LEAD_IMPORT_DIR || 'uploads/lead-imports');
+
+function readNumber(name: string, fallback: number, min: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return value >= min ? value : fallback;
+}
+
+const MAX_UPLOAD_MB = readNumber('LEAD_IMPORT_MAX_MB', 20, 1);
+const BATCH_SIZE = 200;
+const SAMPLE_ROWS = 5;
+const PREVIEW_ROWS = 10;
+const DRY_RUN_ERROR_LIMIT = 100;
+const ERROR_REPORT_PAGE = 1000;
+// Sem gravar avanço por esse tempo, a importação é considerada abandonada e pode ser retomada
+const STALE_JOB_MS = 5 * 60 * 1000;
+
+export type ImportResult<T> = T | { error: string; status: number };
+
+// Estados em que a importação ainda pode ser alterada ou iniciada
+const EDITABLE_STATUSES: LeadImportJob['status'][] = ['rascunho'];
+const STARTABLE_STATUSES: LeadImportJob['status'][] = ['rascunho', 'falhou'];
+const CANCELLABLE_STATUSES: LeadImportJob['status'][] = ['rascunho', 'na_fila', 'processando', 'falhou'];
+
+const absolutePath = (job: LeadImportJob) => (job.filePath ? path.join(LEAD_IMPORT_DIR, job.filePath) : null);
+
+async function removeFile(relativePath: string | null) {
+  if (!relativePath) return;
+  await fs.promises.rm(path.join(LEAD_IMPORT_DIR, relativePath), { force: true }).catch(error => {
+    console.error('Erro ao remover arquivo de importação:', error);
+  });
+}
+
+/**
+ * Cabeçalhos da planilha sem espaços extras, com nome para colunas sem título e sem repetições
+ */
+function normalizeHeaders(cells: string[]): string[] {
+  const headers: string[] = [];
+  cells.forEach((cell, index) => {
+    const base = cell.trim() || `Coluna ${index + 1}`;
+    let header = base;
+    for (let copy = 2; headers.includes(header); copy++) {
+      header = `${base} (${copy})`;
+    }
+    headers.push(header);
+  });
+  return headers;
+}
+
+const rowObject = (headers: string[], cells: string[]): Record<string, string> => {
+  const row: Record<string, string> = {};
+  headers.forEach((header, index) => {
+    row[header] = cells[index] ?? '';
+  });
+  return row;
+};
+
+const today = () => formatInTimeZone(new Date(), AVAILABILITY_TIMEZONE, 'yyyy-MM-dd');
+
+/**
+ * Percorre as linhas de dados (sem o cabeçalho) da planilha da importação
+ */
+async function readJobRows(
+  job: LeadImportJob,
+  onRow: (row: Record<string, string>, rowNumber: number) => Promise<boolean | void> | boolean | void
+): Promise<void> {
+  const filePath = absolutePath(job);
+  if (!filePath || !fs.existsSync(filePath)) {
+    throw new SpreadsheetError('O arquivo desta importação não está mais disponível. Envie a planilha novamente');
+  }
+
+  let headerRead = false;
+  await readSpreadsheet(filePath, job.format as SpreadsheetFormat, (cells, rowNumber) => {
+    if (!headerRead) {
+      headerRead = true;
+      return;
+    }
+    return onRow(rowObject(job.headers, cells), rowNumber);
+  });
+}
+
+/**
+ * Recebe o arquivo enviado no corpo da requisição, grava no disco e cria a importação com
+ * os cabeçalhos, algumas linhas de exemplo e o mapeamento sugerido
+ */
+export async function createLeadImportFromUpload(
+  req: Request,
+  fileName: string,
+  createdBy?: number
+): Promise<ImportResult<{ job: LeadImportJob; sample: Record<string, string>[] }>> {
+  await fs.promises.mkdir(LEAD_IMPORT_DIR, { recursive: true });
+  const storedName = `${randomUUID()}${path.extname(fileName).toLowerCase()}`;
+  const filePath = path.join(LEAD_IMPORT_DIR, storedName);
+  const maxBytes = MAX_UPLOAD_MB * 1024 * 1024;
+
+  let size = 0;
+  const limiter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      size += chunk.length;
+      callback(size > maxBytes ? new Error('too_large') : null, chunk);
+    },
+  });
+
+  try {
+    await pipeline(req, limiter, fs.createWriteStream(filePath));
+  } catch (error) {
+    await removeFile(storedName);
+    if (error instanceof Error && error.message === 'too_large') {
+      return { error: `O arquivo passa do limite de ${MAX_UPLOAD_MB} MB`, status: 413 };
+    }
+    throw error;
+  }
+
+  const discard = async (message: string, status = 400) => {
+    await removeFile(storedName);
+    return { error: message, status };
+  };
+
+  if (size === 0) {
+    return await discard('O arquivo enviado está vazio');
+  }
+
+  const handle = await fs.promises.open(filePath, 'r');
+  const firstBytes = Buffer.alloc(4);
+  await handle.read(firstBytes, 0, 4, 0);
+  await handle.close();
+
+  const format = detectSpreadsheetFormat(fileName, firstBytes);
+  if (!format) {
+    return await discard('Arquivos .xls não são suportados. Salve a planilha como .xlsx ou .csv');
+  }
+
+  let headers: string[] | null = null;
+  const sampleCells: string[][] = [];
+  try {
+    await readSpreadsheet(filePath, format, (cells) => {
+      if (!headers) {
+        headers = normalizeHeaders(cells);
+        return;
+      }
+      sampleCells.push(cells);
+      return sampleCells.length < SAMPLE_ROWS;
+    });
+  } catch (error) {
+    if (error instanceof SpreadsheetError) {
+      return await discard(error.message);
+    }
+    await removeFile(storedName);
+    throw error;
+  }
+
+  if (!headers) {
+    return await discard('A planilha não tem cabeçalho nem dados');
+  }
+  const jobHeaders: string[] = headers;
+
+  const job = await storage.createLeadImportJob({
+    fileName,
+    format,
+    filePath: storedName,
+    fileSize: size,
+    headers: jobHeaders,
+    mapping: suggestLeadImportMapping(jobHeaders),
+    defaults: { status: 'Lead' },
+    createdBy: createdBy ?? null,
+  });
+
+  return { job, sample: sampleCells.map(cells => rowObject(jobHeaders, cells)) };
+}
+
+type PreparedRow =
+  | { ok: true; lead: ReturnType<typeof leadValidationSchema.parse>; provided: LeadImportField[]; phoneKey: string }
+  | { ok: false; message: string };
+
+/**
+ * Converte a linha com o mapeamento e valida com as mesmas regras do cadastro de leads.
+ * Sem coluna de estado, a UF vem do DDD do telefone.
+ */
+function prepareRow(row: Record<string, string>, job: LeadImportJob, day: string): PreparedRow {
+  const { data, provided } = mapLeadImportRow(row, job.mapping, job.defaults, day);
+  if (!data.state) {
+    data.state = getStateFromPhone(String(data.phone)) || '';
+  }
+
+  const validation = leadValidationSchema.safeParse(data);
+  if (!validation.success) {
+    return { ok: false, message: validation.error.errors.map(issue => issue.message).join('; ') };
+  }
+
+  return { ok: true, lead: validation.data, provided, phoneKey: canonicalPhone(validation.data.phone) };
+}
+
+async function loadLeadsByPhone(): Promise<Map<string, Lead>> {
+  const byPhone = new Map<string, Lead>();
+  for (const lead of await storage.getLeads()) {
+    const key = canonicalPhone(lead.phone);
+    if (key && !byPhone.has(key)) byPhone.set(key, lead);
+  }
+  return byPhone;
+}
+
+export interface LeadImportPreviewRow {
+  row: number;
+  lead: Record<string, unknown> | null;
+  error: string | null;
+}
+
+/**
+ * Salva o mapeamento de colunas e devolve a prévia das primeiras linhas já convertidas e validadas
+ */
+export async function saveLeadImportMapping(
+  job: LeadImportJob,
+  mapping: LeadImportMapping,
+  defaults: LeadImportDefaults
+): Promise<ImportResult<{ job: LeadImportJob; preview: LeadImportPreviewRow[] }>> {
+  if (!EDITABLE_STATUSES.includes(job.status)) {
+    return { error: "O mapeamento só pode ser alterado antes de iniciar a importação", status: 409 };
+  }
+
+  const unknownColumn = Object.values(mapping).find(header => header && !job.headers.includes(header));
+  if (unknownColumn) {
+    return { error: `A coluna "${unknownColumn}" não existe na planilha`, status: 400 };
+  }
+
+  // Um novo mapeamento invalida a simulação anterior
+  const updated = await storage.updateLeadImportJob(job.id, { mapping, defaults, dryRun: null });
+  if (!updated) {
+    return { error: "Importação não encontrada", status: 404 };
+  }
+
+  const preview: LeadImportPreviewRow[] = [];
+  const day = today();
+  try {
+    await readJobRows(updated, (row, rowNumber) => {
+      const prepared = prepareRow(row, updated, day);
+      preview.push(prepared.ok
+        ? { row: rowNumber, lead: prepared.lead, error: null }
+        : { row: rowNumber, lead: null, error: prepared.message });
+      return preview.length < PREVIEW_ROWS;
+    });
+  } catch (error) {
+    if (error instanceof SpreadsheetError) return { error: error.message, status: 400 };
+    throw error;
+  }
+
+  return { job: updated, preview };
+}
+
+/**
+ * Simula a importação: valida todas as linhas e conta quantos leads seriam criados e quantos
+ * atualizados (telefone já cadastrado ou repetido em uma linha anterior da planilha), sem gravar leads
+ */
+export async function runLeadImportDryRun(job: LeadImportJob): Promise<ImportResult<{ job: LeadImportJob; dryRun: LeadImportDryRun }>> {
+  if (!EDITABLE_STATUSES.includes(job.status)) {
+    return { error: "A simulação só pode ser feita antes de iniciar a importação", status: 409 };
+  }
+
+  const existing = await loadLeadsByPhone();
+  const seenInFile = new Set<string>();
+  const errors: LeadImportRowError[] = [];
+  const counts = { totalRows: 0, creates: 0, updates: 0, invalid: 0 };
+  const day = today();
+
+  try {
+    await readJobRows(job, (row, rowNumber) => {
+      counts.totalRows++;
+      const prepared = prepareRow(row, job, day);
+      if (!prepared.ok) {
+        counts.invalid++;
+        if (errors.length < DRY_RUN_ERROR_LIMIT) errors.push({ row: rowNumber, message: prepared.message });
+        return;
+      }
+
+      if (prepared.phoneKey && (existing.has(prepared.phoneKey) || seenInFile.has(prepared.phoneKey))) {
+        counts.updates++;
+      } else {
+        counts.creates++;
+      }
+      if (prepared.phoneKey) seenInFile.add(prepared.phoneKey);
+    });
+  } catch (error) {
+    if (error instanceof SpreadsheetError) return { error: error.message, status: 400 };
+    throw error;
+  }
+
+  const dryRun: LeadImportDryRun = { ...counts, errors, finishedAt: new Date().toISOString() };
+  const updated = await storage.updateLeadImportJob(job.id, { dryRun, totalRows: counts.totalRows });
+  return { job: updated ?? job, dryRun };
+}
+
+/**
+ * Coloca a importação na fila (ou retoma uma que falhou, a partir da última linha gravada)
+ */
+export async function startLeadImport(job: LeadImportJob): Promise<ImportResult<LeadImportJob>> {
+  if (!STARTABLE_STATUSES.includes(job.status)) {
+    return { error: "Esta importação não pode ser iniciada", status: 409 };
+  }
+  const mapping = leadImportMappingSchema.safeParse({ mapping: job.mapping, defaults: job.defaults });
+  if (!mapping.success) {
+    return { error: mapping.error.errors[0].message, status: 400 };
+  }
+
+  const updated = await storage.updateLeadImportJob(job.id, { status: 'na_fila', lastError: null });
+  processLeadImports().catch(error => {
+    console.error('Erro ao processar importações de leads:', error);
+  });
+  return updated ?? job;
+}
+
+export async function cancelLeadImport(job: LeadImportJob): Promise<ImportResult<LeadImportJob>> {
+  if (!CANCELLABLE_STATUSES.includes(job.status)) {
+    return { error: "Esta importação já foi encerrada", status: 409 };
+  }
+
+  // Em processamento, o worker percebe o cancelamento ao gravar o lote e remove o arquivo
+  const updated = await storage.updateLeadImportJob(job.id, {
+    status: 'cancelado',
+    finishedAt: new Date(),
+    ...(job.status === 'processando' ? {} : { filePath: null }),
+  });
+  if (job.status !== 'processando') {
+    await removeFile(job.filePath);
+  }
+  return updated ?? job;
+}
+
+/**
+ * Importa uma linha: atualiza o lead com o mesmo telefone (só com os campos preenchidos na planilha,
+ * somando as etiquetas) ou cria um novo, e acerta a etapa do funil
+ */
+async function importRow(
+  prepared: Extract<PreparedRow, { ok: true }>,
+  byPhone: Map<string, Lead>,
+  stages: PipelineStage[],
+  changedBy?: number
+): Promise<'created' | 'updated'> {
+  const existing = prepared.phoneKey ? byPhone.get(prepared.phoneKey) : undefined;
+
+  if (existing) {
+    const updates: Record<string, unknown> = {};
+    for (const field of prepared.provided) {
+      updates[field] = prepared.lead[field];
+    }
+    if (updates.tags) {
+      updates.tags = Array.from(new Set([...(existing.tags || []), ...prepared.lead.tags]));
+    }
+
+    let updated = await storage.updateLead(existing.id, updates, changedBy) ?? existing;
+    if (prepared.provided.includes('status')) {
+      updated = await syncLeadStage(updated, changedBy, stages);
+    }
+    byPhone.set(prepared.phoneKey, updated);
+    return 'updated';
+  }
+
+  const created = await syncLeadStage(await storage.createLead(prepared.lead), changedBy, stages);
+  if (prepared.phoneKey) byPhone.set(prepared.phoneKey, created);
+  return 'created';
+}
+
+async function runLeadImportJob(job: LeadImportJob): Promise<void> {
+  const [byPhone, stages] = await Promise.all([loadLeadsByPhone(), storage.getPipelineStages()]);
+  const changedBy = job.createdBy ?? undefined;
+  const day = today();
+  const progress = {
+    processedRows: job.processedRows,
+    createdCount: job.createdCount,
+    updatedCount: job.updatedCount,
+    errorCount: job.errorCount,
+  };
+
+  let dataRows = 0;
+  let cancelled = false;
+  let batch: { row: Record<string, string>; rowNumber: number }[] = [];
+
+  const flush = async () => {
+    const errors: InsertLeadImportError[] = [];
+    for (const { row, rowNumber } of batch) {
+      const prepared = prepareRow(row, job, day);
+      if (!prepared.ok) {
+        errors.push({ jobId: job.id, rowNumber, message: prepared.message, data: row });
+        continue;
+      }
+      try {
+        const result = await importRow(prepared, byPhone, stages, changedBy);
+        if (result === 'created') progress.createdCount++; else progress.updatedCount++;
+      } catch (error) {
+        console.error(`Erro ao importar linha ${rowNumber} da importação ${job.id}:`, error);
+        errors.push({ jobId: job.id, rowNumber, message: 'Erro ao gravar o lead', data: row });
+      }
+    }
+
+    progress.processedRows = dataRows;
+    progress.errorCount += errors.length;
+    batch = [];
+
+    const saved = await storage.saveLeadImportProgress(job.id, progress, errors);
+    cancelled = !saved || saved.status !== 'processando';
+  };
+
+  await readJobRows(job, async (row, rowNumber) => {
+    dataRows++;
+    // Linhas já gravadas antes da interrupção
+    if (dataRows <= job.processedRows) return;
+
+    batch.push({ row, rowNumber });
+    if (batch.length >= BATCH_SIZE) {
+      await flush();
+      if (cancelled) return false;
+    }
+  });
+
+  if (!cancelled && batch.length > 0) {
+    await flush();
+  }
+
+  if (cancelled) {
+    await storage.updateLeadImportJob(job.id, { filePath: null });
+    await removeFile(job.filePath);
+    log(`Importação de leads ${job.id} cancelada após ${progress.processedRows} linha(s)`, 'lead-import');
+    return;
+  }
+
+  await storage.updateLeadImportJob(job.id, {
+    status: 'concluido',
+    totalRows: dataRows,
+    finishedAt: new Date(),
+    filePath: null,
+  });
+  await removeFile(job.filePath);
+  log(`Importação de leads ${job.id} concluída: ${progress.createdCount} criado(s), ${progress.updatedCount} atualizado(s), ${progress.errorCount} erro(s)`, 'lead-import');
+}
+
+let isProcessingImports = false;
+
+/**
+ * Processa as importações da fila, uma de cada vez
+ */
+export async function processLeadImports(): Promise<void> {
+  if (isProcessingImports) {
+    return;
+  }
+
+  isProcessingImports = true;
+  try {
+    let job: LeadImportJob | undefined;
+    while ((job = await storage.claimLeadImportJob(new Date(Date.now() - STALE_JOB_MS)))) {
+      try {
+        await runLeadImportJob(job);
+      } catch (error) {
+        console.error(`Erro na importação de leads ${job.id}:`, error);
+        // O arquivo é mantido para a importação poder ser retomada
+        await storage.updateLeadImportJob(job.id, {
+          status: 'falhou',
+          lastError: error instanceof SpreadsheetError ? error.message : 'Erro inesperado ao processar a planilha',
+        });
+      }
+    }
+  } finally {
+    isProcessingImports = false;
+  }
+}
+
+let importTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Verifica periodicamente a fila de importações; também retoma importações interrompidas por um reinício
+ */
+export function startLeadImportWorker(intervalMs: number = readNumber('LEAD_IMPORT_INTERVAL_MS', 30000, 1000)) {
+  if (importTimer) {
+    return;
+  }
+
+  const run = () => {
+    processLeadImports().catch(error => {
+      console.error('Erro ao processar importações de leads:', error);
+    });
+  };
+
+  importTimer = setInterval(run, intervalMs);
+  importTimer.unref();
+  run();
+
+  log('Worker de importação de leads iniciado', 'lead-import');
+}
+
+export function stopLeadImportWorker() {
+  if (importTimer) {
+    clearInterval(importTimer);
+    importTimer = null;
+  }
+}
+
+const csvCell = (value: unknown) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[";\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Espera o 'drain' quando o buffer enche; se a conexão cair antes, a escrita falha em vez de esperar para sempre
+const writeChunk = (out: Writable, chunk: string) =>
+  new Promise<void>((resolve, reject) => {
+    if (out.destroyed) {
+      reject(new Error('Conexão encerrada antes do fim do relatório'));
+      return;
+    }
+    if (out.write(chunk)) {
+      resolve();
+      return;
+    }
+
+    const cleanup = () => {
+      out.off('drain', onDrain);
+      out.off('close', onClose);
+      out.off('error', onError);
+    };
+    const onDrain = () => {
+      cleanup();
+      resolve();
+    };
+    const onClose = () => {
+      cleanup();
+      reject(new Error('Conexão encerrada antes do fim do relatório'));
+    };
+    const onError = (error: Error) => {
+      cleanup();
+      reject(error);
+    };
+    out.on('drain', onDrain);
+    out.on('close', onClose);
+    out.on('error', onError);
+  });
+
+/**
+ * Relatório das linhas rejeitadas em CSV (separado por ";" e com BOM, para abrir direto no Excel),
+ * com as colunas originais para corrigir e importar de novo
+ */
+export async function writeLeadImportErrorReport(job: LeadImportJob, out: Writable): Promise<void> {
+  await writeChunk(out, '\uFEFF' + ['Linha', 'Erro', ...job.headers].map(csvCell).join(';') + '\n');
+
+  let afterId = 0;
+  while (true) {
+    const errors = await storage.getLeadImportErrors(job.id, afterId, ERROR_REPORT_PAGE);
+    if (errors.length === 0) break;
+
+    const lines = errors.map(error =>
+      [error.rowNumber, error.message, ...job.headers.map(header => error.data[header])].map(csvCell).join(';')
+    );
+    await writeChunk(out, lines.join('\n') + '\n');
+    afterId = errors[errors.length - 1].id;
+  }
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it, vi } from "vitest";
+import type { LegacyRecurrenceFields } from "./legacy-scheduling";
+
+vi.mock("./db", () => ({ db: {} }));
+vi.mock("./auth", () => ({ hashPassword: vi.fn() }));
+
+import { toAulaStatus, toLegacyStatus, toLegacyWeekDays, toRecurrenceRules, toRecurrenceWeekDays } from "./legacy-scheduling";
+
+describe("status", () => {
+  it("converte o texto livre do legado, em português ou inglês", () => {
+    expect(toAulaStatus("Concluído")).toBe("concluido");
+    expect(toAulaStatus("completed")).toBe("concluido");
+    expect(toAulaStatus("canceled")).toBe("cancelado");
+    expect(toAulaStatus("Em andamento")).toBe("em_andamento");
+    expect(toAulaStatus("no-show")).toBe("falta");
+    expect(toAulaStatus("qualquer coisa")).toBe("agendado");
+    expect(toAulaStatus(null)).toBe("agendado");
+  });
+
+  it("devolve o concluído com acento, como o legado grava", () => {
+    expect(toLegacyStatus("concluido")).toBe("concluído");
+    expect(toLegacyStatus("remarcado")).toBe("remarcado");
+  });
+});
+
+describe("dias da semana", () => {
+  it("aceita arrays, texto JSON e o formato de array do Postgres", () => {
+    expect(toRecurrenceWeekDays(["segunda", "Terça-feira", "sábado"])).toEqual(["monday", "tuesday", "saturday"]);
+    expect(toRecurrenceWeekDays('["quarta","sexta"]')).toEqual(["wednesday", "friday"]);
+    expect(toRecurrenceWeekDays("{domingo,quinta}")).toEqual(["sunday", "thursday"]);
+    expect(toRecurrenceWeekDays(["feriado"])).toEqual([]);
+    expect(toRecurrenceWeekDays(null)).toEqual([]);
+  });
+
+  it("converte de volta para os nomes do legado", () => {
+    expect(toLegacyWeekDays(["monday", "saturday", "invalido"])).toEqual(["segunda", "sabado"]);
+    expect(toLegacyWeekDays(undefined)).toEqual([]);
+  });
+});
+
+describe("toRecurrenceRules", () => {
+  // Segunda-feira, 03/03/2025, das 10:00 às 10:50 em São Paulo
+  const fields: LegacyRecurrenceFields = {
+    startTime: new Date("2025-03-03T13:00:00.000Z"),
+    endTime: new Date("2025-03-03T13:50:00.000Z"),
+    recurrenceType: "weekly",
+    recurrenceInterval: null,
+    recurrenceWeekDays: null,
+    recurrenceEndType: "count",
+    recurrenceEndDate: null,
+    recurrenceEndCount: 8,
+  };
+
+  it("usa os dias das ocorrências quando a série semanal não informa os dias", () => {
+    const thursday = new Date("2025-03-06T13:00:00.000Z");
+
+    expect(toRecurrenceRules(fields, [fields.startTime, thursday])).toMatchObject({
+      type: "weekly",
+      interval: 1,
+      weekDays: ["monday", "thursday"],
+      durationMinutes: 50,
+      endType: "count",
+      endCount: 8,
+    });
+  });
+
+  it("trata a recorrência personalizada do legado como semanal", () => {
+    const rules = toRecurrenceRules({ ...fields, recurrenceType: "custom", recurrenceInterval: 2, recurrenceWeekDays: ["quarta"] });
+
+    expect(rules).toMatchObject({ type: "weekly", interval: 2, weekDays: ["wednesday"] });
+  });
+});
@@ -0,0 +1,355 @@
+import { randomBytes } from 'crypto';
+import { and, asc, eq, inArray, sql, TransactionRollbackError } from 'drizzle-orm';
+import { formatInTimeZone } from 'date-fns-tz';
+import {
+  agendamentosRecorrentes,
+  aulas,
+  entityHistory,
+  legacyIdMappings,
+  sessionReminders,
+  sessions,
+  trainers,
+  users,
+  type Aula,
+  type LegacyEntityType,
+  type Session,
+} from '@shared/schema';
+import { normalizeRecurrenceRules, RECURRENCE_TIMEZONE, WEEK_DAYS, type IRegraRecorrencia } from '@shared/recurrence';
+import { db } from './db';
+import { hashPassword } from './auth';
+
+/**
+ * Transição do agendamento legado (sessions + trainers) para o modelo de aulas (aulas + agendamentos_recorrentes + users).
+ * - migrateLegacyScheduling copia professores, séries e sessões para o modelo novo, registrando a correspondência
+ *   de IDs em legacy_id_mappings; pode ser executada várias vezes, só migra o que ainda não foi migrado.
+ * - As conversões de status e dias da semana também são usadas pela camada de compatibilidade de /api/sessions.
+ */
+
+type AulaStatus = Aula['status'];
+
+// Dias da semana do formulário legado (recurrenceWeekDays), na mesma ordem de WEEK_DAYS
+const LEGACY_WEEK_DAYS = ['domingo', 'segunda', 'terca', 'quarta', 'quinta', 'sexta', 'sabado'];
+
+function normalizeLegacyText(value: string): string {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
+}
+
+/**
+ * Status do legado (texto livre, em português ou inglês) para o enum das aulas
+ */
+export function toAulaStatus(status?: string | null): AulaStatus {
+  switch (normalizeLegacyText(status || '')) {
+    case 'concluido':
+    case 'completed':
+      return 'concluido';
+    case 'cancelado':
+    case 'cancelled':
+    case 'canceled':
+      return 'cancelado';
+    case 'remarcado':
+    case 'rescheduled':
+      return 'remarcado';
+    case 'em_andamento':
+    case 'em andamento':
+      return 'em_andamento';
+    case 'falta':
+    case 'no-show':
+    case 'no_show':
+      return 'falta';
+    default:
+      return 'agendado';
+  }
+}
+
+/**
+ * Status da aula no formato gravado pelo legado ("concluído" com acento)
+ */
+export function toLegacyStatus(status: AulaStatus): string {
+  return status === 'concluido' ? 'concluído' : status;
+}
+
+/**
+ * Dias do legado ("segunda", "Terça"...) para os dias da regra de recorrência ("monday", "tuesday"...).
+ * Aceita também o array gravado como texto JSON pela primeira versão da rota de criação.
+ */
+export function toRecurrenceWeekDays(value: unknown): string[] {
+  let days = value;
+  if (typeof value === 'string') {
+    try {
+      days = JSON.parse(value);
+    } catch {
+      days = value.replace(/[{}"]/g, '').split(',');
+    }
+  }
+  if (!Array.isArray(days)) {
+    return [];
+  }
+  return days
+    // "Terça-feira" → "terca"
+    .map(day => LEGACY_WEEK_DAYS.indexOf(normalizeLegacyText(String(day)).split('-')[0]))
+    .filter(index => index >= 0)
+    .map(index => WEEK_DAYS[index]);
+}
+
+export function toLegacyWeekDays(weekDays?: string[]): string[] {
+  return (weekDays || [])
+    .map(day => WEEK_DAYS.indexOf(day as typeof WEEK_DAYS[number]))
+    .filter(index => index >= 0)
+    .map(index => LEGACY_WEEK_DAYS[index]);
+}
+
+// Campos de recorrência de uma sessão legada (também enviados pelos formulários antigos)
+export type LegacyRecurrenceFields = Pick<Session,
+  'startTime' | 'endTime' | 'recurrenceType' | 'recurrenceInterval' | 'recurrenceWeekDays'
+  | 'recurrenceEndType' | 'recurrenceEndDate' | 'recurrenceEndCount'
+>;
+
+/**
+ * Regra de recorrência equivalente aos campos recurrence* do legado.
+ * Séries semanais sem dias informados usam os dias da semana das ocorrências (por padrão, a primeira).
+ */
+export function toRecurrenceRules(fields: LegacyRecurrenceFields, occurrences: Date[] = [fields.startTime]): IRegraRecorrencia {
+  const durationMinutes = Math.round((fields.endTime.getTime() - fields.startTime.getTime()) / 60000);
+  let weekDays = toRecurrenceWeekDays(fields.recurrenceWeekDays);
+  if (fields.recurrenceType === 'weekly' && weekDays.length === 0) {
+    const indexes = new Set(occurrences.map(date => Number(formatInTimeZone(date, RECURRENCE_TIMEZONE, 'i')) % 7));
+    weekDays = WEEK_DAYS.filter((_, index) => indexes.has(index));
+  }
+
+  return normalizeRecurrenceRules({
+    // "custom" no legado nunca teve RRULE: tratada como semanal
+    type: fields.recurrenceType === 'custom' ? 'weekly' : fields.recurrenceType,
+    interval: fields.recurrenceInterval || 1,
+    weekDays: weekDays.length > 0 ? weekDays : undefined,
+    durationMinutes: durationMinutes > 0 ? durationMinutes : undefined,
+    endType: fields.recurrenceEndType,
+    endDate: fields.recurrenceEndDate ?? undefined,
+    endCount: fields.recurrenceEndCount ?? undefined,
+  });
+}
+
+export interface LegacyMigrationReport {
+  dryRun: boolean;
+  trainers: { matched: number; created: number; alreadyMigrated: number };
+  recurrenceGroups: { migrated: number; alreadyMigrated: number };
+  sessions: { migrated: number; alreadyMigrated: number };
+  historyEntries: number;
+  reminders: number;
+  warnings: string[];
+}
+
+/**
+ * Migra professores (trainers → users), grupos de recorrência (→ agendamentos_recorrentes)
+ * e sessões (→ aulas) numa única transação. Com dryRun, tudo é desfeito ao final e só o relatório é devolvido.
+ *
+ * Professores são associados a usuários existentes pelo e-mail; os demais são criados com uma senha aleatória
+ * (o administrador define a senha depois). Séries migradas têm generatedUntil na última sessão existente,
+ * então o job de recorrência continua a série a partir dali sem recriar sessões antigas.
+ */
+export async function migrateLegacyScheduling(options: { dryRun?: boolean } = {}): Promise<LegacyMigrationReport> {
+  const report: LegacyMigrationReport = {
+    dryRun: !!options.dryRun,
+    trainers: { matched: 0, created: 0, alreadyMigrated: 0 },
+    recurrenceGroups: { migrated: 0, alreadyMigrated: 0 },
+    sessions: { migrated: 0, alreadyMigrated: 0 },
+    historyEntries: 0,
+    reminders: 0,
+    warnings: [],
+  };
+
+  try {
+    await db.transaction(async (tx) => {
+      const existing = await tx.select().from(legacyIdMappings);
+      const mapped: Record<LegacyEntityType, Map<string, number>> = {
+        trainer: new Map(),
+        session: new Map(),
+        recurrence_group: new Map(),
+      };
+      existing.forEach(mapping => {
+        mapped[mapping.entityType as LegacyEntityType]?.set(mapping.legacyId, mapping.newId);
+      });
+
+      const remember = async (entityType: LegacyEntityType, legacyId: string | number, newId: number) => {
+        await tx.insert(legacyIdMappings).values({ entityType, legacyId: String(legacyId), newId });
+        mapped[entityType].set(String(legacyId), newId);
+      };
+
+      // 1. Professores
+      const legacyTrainers = await tx.select().from(trainers).orderBy(asc(trainers.id));
+      for (const trainer of legacyTrainers) {
+        if (mapped.trainer.has(String(trainer.id))) {
+          report.trainers.alreadyMigrated++;
+          continue;
+        }
+
+        const [user] = await tx
+          .select()
+          .from(users)
+          .where(sql`lower(${users.email}) = lower(${trainer.email})`)
+          .limit(1);
+        if (user) {
+          await remember('trainer', trainer.id, user.id);
+          report.trainers.matched++;
+          continue;
+        }
+
+        const email = trainer.email.trim().toLowerCase();
+        const [usernameTaken] = await tx.select({ id: users.id }).from(users).where(eq(users.username, email)).limit(1);
+        const [created] = await tx
+          .insert(users)
+          .values({
+            username: usernameTaken ? `${email}-${trainer.id}` : email,
+            password: await hashPassword(randomBytes(24).toString('hex')),
+            role: 'professor',
+            name: trainer.name,
+            email,
+            phone: trainer.phone,
+            specialties: trainer.specialties,
+            specialty: trainer.specialties?.[0] ?? null,
+            active: trainer.active,
+          })
+          .returning();
+        await remember('trainer', trainer.id, created.id);
+        report.trainers.created++;
+      }
+
+      // 2. Grupos de recorrência
+      const legacySessions = await tx.select().from(sessions).orderBy(asc(sessions.startTime), asc(sessions.id));
+      const groups = new Map<string, Session[]>();
+      legacySessions.forEach(session => {
+        if (session.recurrenceGroupId) {
+          groups.set(session.recurrenceGroupId, [...(groups.get(session.recurrenceGroupId) || []), session]);
+        }
+      });
+
+      const groupIds = Array.from(groups.keys());
+      for (const groupId of groupIds) {
+        const groupSessions = groups.get(groupId)!;
+        if (mapped.recurrence_group.has(groupId)) {
+          report.recurrenceGroups.alreadyMigrated++;
+          continue;
+        }
+
+        const parent = groupSessions.find(session => session.isRecurrenceParent) || groupSessions[0];
+        const professorId = mapped.trainer.get(String(parent.trainerId));
+        if (!professorId) {
+          report.warnings.push(`Grupo ${groupId}: professor ${parent.trainerId} não encontrado; sessões migradas como avulsas`);
+          continue;
+        }
+
+        let regras: IRegraRecorrencia;
+        try {
+          regras = toRecurrenceRules(parent, groupSessions.map(session => session.startTime));
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : String(error);
+          report.warnings.push(`Grupo ${groupId}: regra inválida (${reason}); sessões migradas como avulsas`);
+          continue;
+        }
+
+        const last = groupSessions[groupSessions.length - 1];
+        const [series] = await tx
+          .insert(agendamentosRecorrentes)
+          .values({
+            professorId,
+            studentId: parent.leadId,
+            location: parent.location,
+            value: parent.value,
+            service: parent.service,
+            notes: parent.notes,
+            regras,
+            startDate: groupSessions[0].startTime,
+            endDate: parent.recurrenceEndDate,
+            maxOccurrences: parent.recurrenceEndCount,
+            active: groupSessions.some(session => toAulaStatus(session.status) !== 'cancelado'),
+            generatedUntil: last.startTime,
+          })
+          .returning();
+        await remember('recurrence_group', groupId, series.id);
+        report.recurrenceGroups.migrated++;
+      }
+
+      // 3. Sessões
+      const migratedSessions: { sessionId: number; aulaId: number }[] = [];
+      for (const session of legacySessions) {
+        if (mapped.session.has(String(session.id))) {
+          report.sessions.alreadyMigrated++;
+          continue;
+        }
+
+        const professorId = mapped.trainer.get(String(session.trainerId));
+        if (!professorId) {
+          report.warnings.push(`Sessão ${session.id}: professor ${session.trainerId} não encontrado; não migrada`);
+          continue;
+        }
+
+        const [aula] = await tx
+          .insert(aulas)
+          .values({
+            agendamentoRecorrenteId: session.recurrenceGroupId
+              ? mapped.recurrence_group.get(session.recurrenceGroupId) ?? null
+              : null,
+            professorId,
+            studentId: session.leadId,
+            startTime: session.startTime,
+            endTime: session.endTime,
+            location: session.location,
+            value: session.value,
+            service: session.service,
+            notes: session.notes,
+            status: toAulaStatus(session.status),
+            isModified: false,
+            createdAt: session.createdAt,
+            updatedAt: session.updatedAt,
+          })
+          .returning();
+        await remember('session', session.id, aula.id);
+        migratedSessions.push({ sessionId: session.id, aulaId: aula.id });
+        report.sessions.migrated++;
+      }
+
+      // 4. Histórico de alterações e lembretes já enviados acompanham a sessão
+      const aulaBySession = new Map(migratedSessions.map(item => [item.sessionId, item.aulaId]));
+      const sessionIds = migratedSessions.map(item => item.sessionId);
+
+      const history = sessionIds.length === 0 ? [] : await tx
+        .select()
+        .from(entityHistory)
+        .where(and(eq(entityHistory.entityType, 'session'), inArray(entityHistory.entityId, sessionIds)));
+      if (history.length > 0) {
+        await tx.insert(entityHistory).values(history.map(({ id, ...entry }) => ({
+          ...entry,
+          entityType: 'aula',
+          entityId: aulaBySession.get(entry.entityId)!,
+        })));
+        report.historyEntries = history.length;
+      }
+
+      const reminders = sessionIds.length === 0 ? [] : await tx
+        .select()
+        .from(sessionReminders)
+        .where(and(eq(sessionReminders.targetType, 'session'), inArray(sessionReminders.targetId, sessionIds)));
+      if (reminders.length > 0) {
+        const copied = await tx
+          .insert(sessionReminders)
+          .values(reminders.map(({ id, ...reminder }) => ({
+            ...reminder,
+            targetType: 'aula',
+            targetId: aulaBySession.get(reminder.targetId)!,
+          })))
+          .onConflictDoNothing()
+          .returning({ id: sessionReminders.id });
+        report.reminders = copied.length;
+      }
+
+      if (options.dryRun) {
+        tx.rollback();
+      }
+    });
+  } catch (error) {
+    if (!(options.dryRun && error instanceof TransactionRollbackError)) {
+      throw error;
+    }
+  }
+
+  return report;
+}
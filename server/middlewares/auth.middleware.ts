@@ -1,4 +1,20 @@
 import type { Request, Response, NextFunction } from "express";
+import type { Lead } from "@shared/schema";
+import { storage } from "../storage";
+
+declare module "express-session" {
+  interface SessionData {
+    portalLeadId?: number; // Aluno autenticado no portal (independente do login da equipe)
+  }
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      portalLead?: Lead;
+    }
+  }
+}
 
 // Middleware para checar autenticação sem exigir admin
 export function isAuthenticated(req: Request, res: Response, next: NextFunction) {
@@ -18,4 +34,24 @@ export function isAdmin(req: Request, res: Response, next: NextFunction) {
     return res.status(403).json({ message: "Acesso negado" });
   }
   next();
-} 
\ No newline at end of file
+} 
+
+// Middleware do portal do aluno: a sessão guarda o aluno que entrou por link mágico ou código
+export async function isPortalStudent(req: Request, res: Response, next: NextFunction) {
+  const leadId = req.session.portalLeadId;
+  if (!leadId) {
+    return res.status(401).json({ message: "Acesso ao portal não autenticado" });
+  }
+
+  try {
+    const lead = await storage.getLead(leadId);
+    if (!lead || lead.status !== "Aluno") {
+      delete req.session.portalLeadId;
+      return res.status(401).json({ message: "Acesso ao portal não autenticado" });
+    }
+    req.portalLead = lead;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,85 @@
+import { storage } from "./storage";
+import type { Lead, PipelineStage } from "@shared/schema";
+import {
+  DEFAULT_LOSS_REASONS,
+  DEFAULT_PIPELINE_STAGES,
+  STUDENT_STATUS,
+  defaultStageForStatus,
+  stageMatchesStatus,
+} from "@shared/pipeline";
+
+const BACKFILL_BATCH_SIZE = 500;
+
+/**
+ * Coloca o lead na etapa padrão do seu status quando ele ainda não está no funil
+ * ou quando o status foi alterado fora do quadro (formulário, edição em lote, importação).
+ * Recebe as etapas já carregadas para evitar uma consulta por lead nas importações.
+ */
+export async function syncLeadStage(lead: Lead, changedBy?: number, stages?: PipelineStage[]): Promise<Lead> {
+  const allStages = stages ?? await storage.getPipelineStages();
+  const current = allStages.find(stage => stage.id === lead.stageId);
+  if (current && stageMatchesStatus(current.kind, lead.status)) {
+    return lead;
+  }
+
+  const target = defaultStageForStatus(allStages, lead.status);
+  if (!target) {
+    // Funil ainda não configurado (npm run db:setup-pipeline)
+    return lead;
+  }
+
+  return await storage.moveLeadToStage(lead.id, target, { changedBy }) ?? lead;
+}
+
+export interface PipelineSetupReport {
+  stagesCreated: number;
+  lossReasonsCreated: number;
+  leadsAssigned: number;
+}
+
+/**
+ * Cria as etapas e os motivos de perda padrão (somente se ainda não existir nenhum)
+ * e coloca no funil os leads cadastrados antes dele. Pode ser repetido: só processa o que falta.
+ */
+export async function setupDefaultPipeline(): Promise<PipelineSetupReport> {
+  const report: PipelineSetupReport = { stagesCreated: 0, lossReasonsCreated: 0, leadsAssigned: 0 };
+
+  let stages = await storage.getPipelineStages();
+  if (stages.length === 0) {
+    for (let position = 0; position < DEFAULT_PIPELINE_STAGES.length; position++) {
+      await storage.createPipelineStage({ ...DEFAULT_PIPELINE_STAGES[position], position });
+      report.stagesCreated++;
+    }
+    stages = await storage.getPipelineStages();
+  }
+
+  if ((await storage.getLossReasons()).length === 0) {
+    for (const name of DEFAULT_LOSS_REASONS) {
+      await storage.createLossReason({ name });
+      report.lossReasonsCreated++;
+    }
+  }
+
+  let lastId = 0;
+  while (true) {
+    const pending = await storage.getLeadsWithoutStage(lastId, BACKFILL_BATCH_SIZE);
+
+    for (const lead of pending) {
+      const target = defaultStageForStatus(stages, lead.status);
+      if (!target) continue;
+
+      // Sem histórico anterior, a entrada no funil é datada pela data de entrada do lead;
+      // para alunos, a última atualização é a melhor aproximação da data da conversão
+      const at = lead.status === STUDENT_STATUS ? lead.updatedAt : lead.entryDate;
+      await storage.moveLeadToStage(lead.id, target, { at });
+      report.leadsAssigned++;
+    }
+
+    if (pending.length < BACKFILL_BATCH_SIZE) {
+      break;
+    }
+    lastId = pending[pending.length - 1].id;
+  }
+
+  return report;
+}
@@ -0,0 +1,107 @@
+import { createHmac } from "crypto";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { EmailOutbox, Lead, Payment } from "@shared/schema";
+
+const storageMock = vi.hoisted(() => ({
+  countPortalAccessTokensSince: vi.fn(),
+  createPortalAccessToken: vi.fn(),
+  getLead: vi.fn(),
+  getPackagePurchases: vi.fn(),
+  getPackage: vi.fn(),
+}));
+const queueEmailMock = vi.hoisted(() => vi.fn());
+
+vi.mock("./storage", () => ({ storage: storageMock }));
+vi.mock("./email-service", () => ({ queueEmail: queueEmailMock }));
+vi.mock("./whatsapp-service", () => ({ sendWhatsAppMessage: vi.fn() }));
+vi.mock("./vite", () => ({ log: vi.fn() }));
+
+import { buildPaymentReceipt, renderPortalAccessEmail, sendPortalAccess } from "./portal-service";
+
+const lead = {
+  id: 7,
+  name: "<b>Ana</b> Souza",
+  email: "ana@example.com",
+  phone: "11999999999",
+  source: "Favale",
+  status: "Aluno",
+} as Lead;
+
+function hash(value: string): string {
+  return createHmac("sha256", process.env.SESSION_SECRET || "favale-pink-secret-key").update(value).digest("hex");
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  process.env.PORTAL_BASE_URL = "https://portal.example.com/";
+  storageMock.countPortalAccessTokensSince.mockResolvedValue(0);
+  storageMock.getLead.mockResolvedValue(lead);
+});
+
+describe("acesso ao portal por e-mail", () => {
+  it("enfileira o e-mail sem link nem código e sem criar o acesso", async () => {
+    await expect(sendPortalAccess(lead, "email")).resolves.toBe(true);
+
+    const { html } = queueEmailMock.mock.calls[0][0];
+    expect(html).toContain("{{portal_link}}");
+    expect(html).toContain("{{portal_code}}");
+    expect(html).not.toContain("token=");
+    expect(html).toContain("&lt;b&gt;Ana&lt;/b&gt;");
+    expect(storageMock.createPortalAccessToken).not.toHaveBeenCalled();
+  });
+
+  it("gera o acesso na entrega e devolve o HTML com o link e o código", async () => {
+    await sendPortalAccess(lead, "email");
+    const queued = queueEmailMock.mock.calls[0][0];
+    const entry = { id: 1, html: queued.html, leadId: lead.id, category: "portal_access" } as EmailOutbox;
+
+    const html = await renderPortalAccessEmail(entry);
+
+    const token = html.match(/portal\?token=([\w-]+)/)?.[1];
+    const code = html.match(/letter-spacing: 4px;">(\d{6})</)?.[1];
+    expect(html).toContain("https://portal.example.com/portal?token=");
+    expect(token && code).toBeTruthy();
+    expect(storageMock.createPortalAccessToken).toHaveBeenCalledWith(expect.objectContaining({
+      leadId: lead.id,
+      channel: "email",
+      tokenHash: hash(token!),
+      codeHash: hash(code!),
+    }));
+  });
+
+  it("não envia sem PORTAL_BASE_URL", async () => {
+    delete process.env.PORTAL_BASE_URL;
+    await expect(sendPortalAccess(lead, "email")).resolves.toBe(false);
+    await expect(renderPortalAccessEmail({ id: 1, html: "", leadId: lead.id } as EmailOutbox)).rejects.toThrow();
+    expect(queueEmailMock).not.toHaveBeenCalled();
+  });
+
+  it("respeita o limite de pedidos por hora", async () => {
+    storageMock.countPortalAccessTokensSince.mockResolvedValue(5);
+    await expect(sendPortalAccess(lead, "email")).resolves.toBe(false);
+    expect(queueEmailMock).not.toHaveBeenCalled();
+  });
+});
+
+describe("buildPaymentReceipt", () => {
+  it("escapa o nome do aluno e do pacote", async () => {
+    storageMock.getPackagePurchases.mockResolvedValue([{ id: 3, packageId: 4, credits: 10 }]);
+    storageMock.getPackage.mockResolvedValue({ id: 4, name: "Mensal <script>" });
+    const payment = {
+      id: 12,
+      leadId: lead.id,
+      purchaseId: 3,
+      amount: 45000,
+      method: "pix",
+      status: "pago",
+      paidAt: new Date("2025-03-10T15:00:00.000Z"),
+      updatedAt: new Date("2025-03-10T15:00:00.000Z"),
+    } as Payment;
+
+    const html = await buildPaymentReceipt(payment, lead);
+
+    expect(html).toContain("&lt;b&gt;Ana&lt;/b&gt; Souza");
+    expect(html).toContain("Pacote Mensal &lt;script&gt; (10 aulas)");
+    expect(html).not.toContain("<script>");
+  });
+});
@@ -0,0 +1,296 @@
+import { createHmac, randomBytes, randomInt, timingSafeEqual } from 'crypto';
+import { formatInTimeZone } from 'date-fns-tz';
+import type { Aula, EmailOutbox, Lead, Payment } from '@shared/schema';
+import { AVAILABILITY_TIMEZONE } from '@shared/availability';
+import { DEFAULT_PORTAL_POLICY, type PortalPolicy } from '@shared/portal';
+import { storage } from './storage';
+import { queueEmail } from './email-service';
+import { sendWhatsAppMessage } from './whatsapp-service';
+import { log } from './vite';
+
+/**
+ * Portal do aluno: acesso por link mágico ou código enviado ao e-mail ou WhatsApp do aluno,
+ * avisos à equipe sobre remarcações e cancelamentos feitos pelo aluno e recibos de pagamento.
+ */
+
+export interface PortalSettings {
+  policy: PortalPolicy;
+  accessMinutes: number; // Validade do link e do código
+  maxRequestsPerHour: number; // Pedidos de acesso por aluno, contra abuso do envio
+  maxCodeAttempts: number; // Tentativas de código (certas ou erradas) antes de invalidá-lo
+  baseUrl: string | null; // Endereço público usado no link mágico; sem ele o portal não envia acessos
+}
+
+export type PortalAccessChannel = 'email' | 'whatsapp';
+
+function readNumber(name: string, fallback: number, min: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return value >= min ? value : fallback;
+}
+
+export function getPortalSettings(): PortalSettings {
+  return {
+    policy: {
+      rescheduleNoticeHours: readNumber('PORTAL_RESCHEDULE_NOTICE_HOURS', DEFAULT_PORTAL_POLICY.rescheduleNoticeHours, 0),
+      rescheduleWindowDays: readNumber('PORTAL_RESCHEDULE_WINDOW_DAYS', DEFAULT_PORTAL_POLICY.rescheduleWindowDays, 1),
+    },
+    accessMinutes: readNumber('PORTAL_ACCESS_MINUTES', 15, 1),
+    maxRequestsPerHour: readNumber('PORTAL_MAX_REQUESTS_PER_HOUR', 5, 1),
+    maxCodeAttempts: 5,
+    baseUrl: process.env.PORTAL_BASE_URL?.replace(/\/+$/, '') || null,
+  };
+}
+
+const formatWhen = (date: Date) => formatInTimeZone(date, AVAILABILITY_TIMEZONE, "dd/MM/yyyy 'às' HH:mm");
+
+const formatCents = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value / 100);
+
+// Nomes (inclusive o do perfil do WhatsApp), locais e o motivo digitado pelo aluno vão para HTML
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Link e código ficam no banco apenas como HMAC, para que uma cópia do banco não dê acesso ao portal
+// (no e-mail, nem a fila guarda o texto: ver renderPortalAccessEmail)
+function hashSecret(value: string): string {
+  return createHmac('sha256', process.env.SESSION_SECRET || 'favale-pink-secret-key').update(value).digest('hex');
+}
+
+function sameHash(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a, 'hex');
+  const bufferB = Buffer.from(b, 'hex');
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+}
+
+/**
+ * Aluno identificado pelo e-mail ou telefone informado no portal. Só alunos (não leads) têm acesso,
+ * e um identificador compartilhado por mais de um aluno não é aceito.
+ */
+export async function findPortalStudent(identifier: string): Promise<{ lead: Lead; channel: PortalAccessChannel } | undefined> {
+  const value = identifier.trim();
+  let channel: PortalAccessChannel;
+  let candidates: Lead[];
+
+  if (value.includes('@')) {
+    channel = 'email';
+    candidates = await storage.getLeadsByEmail(value);
+  } else {
+    // Número completo com DDD, para não casar com trechos de outros telefones
+    if (value.replace(/\D/g, '').length < 10) {
+      return undefined;
+    }
+    channel = 'whatsapp';
+    candidates = await storage.getLeadsByPhone(value);
+  }
+
+  const students = candidates.filter(lead => lead.status === 'Aluno');
+  return students.length === 1 ? { lead: students[0], channel } : undefined;
+}
+
+// Marcadores do e-mail na fila, trocados pelo link e pelo código só no momento do envio
+const LINK_PLACEHOLDER = '{{portal_link}}';
+const CODE_PLACEHOLDER = '{{portal_code}}';
+
+/**
+ * Cria o acesso (link e código) e grava apenas os HMACs
+ */
+async function issuePortalAccess(lead: Lead, channel: PortalAccessChannel, settings: PortalSettings): Promise<{ link: string; code: string }> {
+  const token = randomBytes(32).toString('base64url');
+  const code = String(randomInt(0, 1000000)).padStart(6, '0');
+  await storage.createPortalAccessToken({
+    leadId: lead.id,
+    channel,
+    tokenHash: hashSecret(token),
+    codeHash: hashSecret(code),
+    expiresAt: new Date(Date.now() + settings.accessMinutes * 60000),
+  });
+
+  return { link: `${settings.baseUrl}/portal?token=${token}`, code };
+}
+
+/**
+ * Gera um novo acesso e o envia pelo mesmo canal do identificador informado.
+ * No e-mail, o acesso é criado só na entrega (renderPortalAccessEmail), para a fila não guardar o link.
+ * O link usa sempre PORTAL_BASE_URL, nunca o Host do pedido, que pode ser forjado para
+ * mandar ao aluno um link verdadeiro apontando para outro domínio.
+ * Retorna false quando o portal não está configurado, o aluno excedeu o limite de pedidos ou o envio falhou.
+ */
+export async function sendPortalAccess(lead: Lead, channel: PortalAccessChannel): Promise<boolean> {
+  const settings = getPortalSettings();
+  const now = new Date();
+
+  if (!settings.baseUrl) {
+    log('PORTAL_BASE_URL não configurado; acesso ao portal não enviado', 'portal');
+    return false;
+  }
+
+  const recentRequests = await storage.countPortalAccessTokensSince(lead.id, new Date(now.getTime() - 60 * 60 * 1000));
+  if (recentRequests >= settings.maxRequestsPerHour) {
+    log(`Limite de pedidos de acesso ao portal atingido para o aluno ${lead.id}`, 'portal');
+    return false;
+  }
+
+  const firstName = lead.name.split(' ')[0];
+
+  if (channel === 'email') {
+    await queueEmail({
+      to: lead.email,
+      subject: `Seu acesso ao portal do aluno - ${lead.source} Personal Training`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; border: 1px solid ${lead.source === 'Favale' ? '#0057b7' : '#FF69B4'}; border-radius: 5px;">
+          <h2 style="color: ${lead.source === 'Favale' ? '#0057b7' : '#FF69B4'}; text-align: center;">${lead.source} Personal Training</h2>
+          <p>Olá, <strong>${escapeHtml(firstName)}</strong>!</p>
+          <p>Para acessar o portal do aluno, clique no link abaixo:</p>
+          <p style="text-align: center;"><a href="${LINK_PLACEHOLDER}">Entrar no portal</a></p>
+          <p>Ou digite o código <strong style="font-size: 18px; letter-spacing: 4px;">${CODE_PLACEHOLDER}</strong> na tela de acesso.</p>
+          <p>O link e o código valem por ${settings.accessMinutes} minutos. Se você não pediu este acesso, ignore este e-mail.</p>
+        </div>
+      `,
+      category: 'portal_access',
+      leadId: lead.id,
+    });
+    return true;
+  }
+
+  // Enviado direto pelo provedor, sem registrar no histórico de conversas: o código não deve ficar visível à equipe
+  const { link, code } = await issuePortalAccess(lead, channel, settings);
+  const result = await sendWhatsAppMessage(lead,
+    `Olá, ${firstName}! Seu código de acesso ao portal do aluno é ${code}. ` +
+    `Você também pode entrar pelo link ${link}. Vale por ${settings.accessMinutes} minutos.`
+  );
+  return result.success;
+}
+
+/**
+ * HTML final do e-mail de acesso, montado pela fila no momento da entrega: o acesso é criado agora e
+ * o texto com o link e o código vai direto ao transporte, sem ser gravado em email_outbox.
+ * Cada nova tentativa de envio gera um acesso novo.
+ */
+export async function renderPortalAccessEmail(entry: EmailOutbox): Promise<string> {
+  const settings = getPortalSettings();
+  const lead = entry.leadId ? await storage.getLead(entry.leadId) : undefined;
+  if (!lead || !settings.baseUrl) {
+    throw new Error('Não foi possível gerar o acesso ao portal: aluno não encontrado ou PORTAL_BASE_URL não configurado');
+  }
+
+  const { link, code } = await issuePortalAccess(lead, 'email', settings);
+  return entry.html.split(LINK_PLACEHOLDER).join(link).split(CODE_PLACEHOLDER).join(code);
+}
+
+/**
+ * Valida o link mágico e o consome (cada link abre uma única sessão)
+ */
+export async function verifyPortalToken(token: string): Promise<Lead | undefined> {
+  const access = await storage.getPortalAccessTokenByHash(hashSecret(token));
+  if (!access || access.usedAt || access.expiresAt < new Date()) {
+    return undefined;
+  }
+
+  const consumed = await storage.consumePortalAccessToken(access.id);
+  return consumed ? storage.getLead(consumed.leadId) : undefined;
+}
+
+/**
+ * Valida o código do último acesso pedido pelo aluno; tentativas demais invalidam o código.
+ * A tentativa é contada antes da comparação, então o limite vale também para pedidos simultâneos.
+ */
+export async function verifyPortalCode(identifier: string, code: string): Promise<Lead | undefined> {
+  const student = await findPortalStudent(identifier);
+  if (!student) {
+    return undefined;
+  }
+
+  const latest = await storage.getLatestPortalAccessToken(student.lead.id, new Date());
+  const access = latest && await storage.claimPortalCodeAttempt(latest.id, getPortalSettings().maxCodeAttempts);
+  if (!access || !sameHash(access.codeHash, hashSecret(code.trim()))) {
+    return undefined;
+  }
+
+  const consumed = await storage.consumePortalAccessToken(access.id);
+  return consumed ? student.lead : undefined;
+}
+
+export type PortalChange =
+  | { action: 'cancelada'; reason: string; lateCancellation: boolean }
+  | { action: 'remarcada'; previousStart: Date };
+
+/**
+ * Avisa por e-mail o professor da aula e os administradores sobre a alteração feita pelo aluno no portal.
+ * Falhas são apenas registradas: a alteração já foi gravada.
+ */
+export async function notifyStaffOfPortalChange(aula: Aula, lead: Lead, change: PortalChange): Promise<void> {
+  try {
+    const users = await storage.getAllUsers();
+    const recipients = users.filter(user =>
+      user.active && user.email && (user.id === aula.professorId || user.role === 'admin')
+    );
+
+    const details = change.action === 'cancelada'
+      ? `<p><strong>Data e Hora:</strong> ${formatWhen(aula.startTime)}</p>
+         <p><strong>Motivo:</strong> ${escapeHtml(change.reason)}</p>
+         ${change.lateCancellation ? '<p><strong>Cancelamento tardio:</strong> cobrado conforme a política</p>' : ''}`
+      : `<p><strong>Horário anterior:</strong> ${formatWhen(change.previousStart)}</p>
+         <p><strong>Novo horário:</strong> ${formatWhen(aula.startTime)}</p>`;
+
+    for (const user of recipients) {
+      await queueEmail({
+        to: user.email!,
+        subject: `Aula ${change.action} pelo aluno - ${lead.name}`,
+        html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; border: 1px solid #ddd; border-radius: 5px;">
+            <h3>Aula ${change.action} pelo portal do aluno</h3>
+            <p>Olá, <strong>${escapeHtml(user.name || user.username)}</strong>!</p>
+            <p>O aluno <strong>${escapeHtml(lead.name)}</strong> ${change.action === 'cancelada' ? 'cancelou' : 'remarcou'} a aula de ${escapeHtml(aula.service)}.</p>
+            <div style="background-color: #f9f9f9; padding: 15px; border-radius: 5px; margin: 15px 0;">
+              ${details}
+              <p><strong>Local:</strong> ${escapeHtml(aula.location)}</p>
+            </div>
+          </div>
+        `,
+        category: 'portal_notification',
+      });
+    }
+  } catch (error) {
+    console.error('Erro ao avisar a equipe sobre alteração no portal do aluno:', error);
+  }
+}
+
+const PAYMENT_METHOD_LABELS: Record<Payment['method'], string> = {
+  pix: 'Pix',
+  cartao: 'Cartão',
+  dinheiro: 'Dinheiro',
+};
+
+/**
+ * Recibo de um pagamento quitado, em HTML pronto para imprimir ou salvar como PDF
+ */
+export async function buildPaymentReceipt(payment: Payment, lead: Lead): Promise<string> {
+  let description = 'Aulas de personal training';
+  if (payment.purchaseId) {
+    const purchase = (await storage.getPackagePurchases(lead.id)).find(item => item.id === payment.purchaseId);
+    const pkg = purchase ? await storage.getPackage(purchase.packageId) : undefined;
+    if (purchase && pkg) {
+      description = `Pacote ${escapeHtml(pkg.name)} (${purchase.credits} aulas)`;
+    }
+  }
+
+  const paidAt = payment.paidAt || payment.updatedAt;
+  return `<!DOCTYPE html>
+<html lang="pt-BR">
+<head>
+  <meta charset="utf-8">
+  <title>Recibo nº ${payment.id}</title>
+</head>
+<body style="font-family: Arial, sans-serif; max-width: 600px; margin: 40px auto; padding: 20px; border: 1px solid #ddd; border-radius: 5px;">
+  <h2 style="color: ${lead.source === 'Favale' ? '#0057b7' : '#FF69B4'}; text-align: center;">${lead.source} Personal Training</h2>
+  <h3 style="text-align: center;">Recibo nº ${payment.id}</h3>
+  <p>Recebemos de <strong>${escapeHtml(lead.name)}</strong> a quantia de <strong>${formatCents(payment.amount)}</strong>
+    referente a ${description}.</p>
+  <div style="background-color: #f9f9f9; padding: 15px; border-radius: 5px; margin: 15px 0;">
+    <p><strong>Forma de pagamento:</strong> ${PAYMENT_METHOD_LABELS[payment.method]}</p>
+    <p><strong>Data do pagamento:</strong> ${formatInTimeZone(paidAt, AVAILABILITY_TIMEZONE, 'dd/MM/yyyy')}</p>
+  </div>
+  <p style="font-size: 12px; color: #666;">Emitido em ${formatWhen(new Date())} pelo portal do aluno.</p>
+</body>
+</html>`;
+}
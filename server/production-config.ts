@@ -52,6 +52,7 @@ export function validateProductionEnvironment(): void {
     'SENDGRID_API_KEY',
     'GOOGLE_CLIENT_ID',
     'GOOGLE_CLIENT_SECRET',
+    'PORTAL_BASE_URL',
   ];
 
   const missing = requiredVars.filter(varName => !process.env[varName]);
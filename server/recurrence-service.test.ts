@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { AgendamentoRecorrente } from "@shared/schema";
+
+const storageMock = vi.hoisted(() => ({
+  getAulasByAgendamentoRecorrente: vi.fn(),
+  checkSchedulingConflicts: vi.fn(),
+  createMultipleAulas: vi.fn(),
+  updateAgendamentoRecorrente: vi.fn(),
+}));
+const findClosedPeriodMock = vi.hoisted(() => vi.fn());
+const logSystemEventMock = vi.hoisted(() => vi.fn());
+
+vi.mock("./storage", () => ({ storage: storageMock }));
+vi.mock("./finance-service", () => ({ findClosedPeriod: findClosedPeriodMock }));
+vi.mock("./google-calendar-sync", () => ({
+  syncAulaWithGoogle: vi.fn(),
+  syncAulasWithGoogle: vi.fn(),
+  removeAulasFromGoogle: vi.fn(),
+}));
+vi.mock("./audit-log", () => ({
+  AuditEventType: { RECURRENCE_OCCURRENCES_SKIPPED: "RECURRENCE_OCCURRENCES_SKIPPED" },
+  logSystemEvent: logSystemEventMock,
+}));
+vi.mock("./vite", () => ({ log: vi.fn() }));
+
+import { extendRecurringSeries, getRecurrenceHorizonDays } from "./recurrence-service";
+
+// Toda segunda, 10:00 em São Paulo; até o horizonte são 4 ocorrências (3, 10, 17 e 24 de março)
+const series = {
+  id: 9,
+  professorId: 2,
+  studentId: 7,
+  location: "Academia",
+  locationId: null,
+  value: 15000,
+  service: "Personal",
+  notes: null,
+  regras: { type: "weekly", interval: 1, endType: "never", weekDays: ["monday"] },
+  startDate: new Date("2025-03-03T13:00:00.000Z"),
+  endDate: null,
+  maxOccurrences: null,
+  active: true,
+  generatedUntil: null,
+  exhaustedAt: null,
+} as unknown as AgendamentoRecorrente;
+const horizonEnd = new Date("2025-03-25T03:00:00.000Z");
+
+const monday = (day: number) => new Date(`2025-03-${String(day).padStart(2, "0")}T13:00:00.000Z`);
+
+function createdStarts(): Date[] {
+  const aulas = storageMock.createMultipleAulas.mock.calls[0]?.[0] ?? [];
+  return aulas.map((aula: { startTime: Date }) => aula.startTime);
+}
+
+describe("getRecurrenceHorizonDays", () => {
+  afterEach(() => {
+    delete process.env.RECURRENCE_HORIZON_DAYS;
+  });
+
+  it("usa 180 dias por padrão ou quando o valor é inválido", () => {
+    expect(getRecurrenceHorizonDays()).toBe(180);
+    process.env.RECURRENCE_HORIZON_DAYS = "0";
+    expect(getRecurrenceHorizonDays()).toBe(180);
+  });
+
+  it("aceita o horizonte configurado", () => {
+    process.env.RECURRENCE_HORIZON_DAYS = "30";
+    expect(getRecurrenceHorizonDays()).toBe(30);
+  });
+});
+
+describe("extendRecurringSeries", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storageMock.getAulasByAgendamentoRecorrente.mockResolvedValue([]);
+    storageMock.checkSchedulingConflicts.mockResolvedValue(null);
+    storageMock.createMultipleAulas.mockImplementation(async (aulas: unknown[]) => aulas);
+    findClosedPeriodMock.mockResolvedValue(null);
+  });
+
+  it("cria as ocorrências até o horizonte e avança a marca d'água", async () => {
+    const result = await extendRecurringSeries(series, horizonEnd);
+
+    expect(createdStarts()).toEqual([monday(3), monday(10), monday(17), monday(24)]);
+    expect(result.created[0]).toMatchObject({ agendamentoRecorrenteId: 9, status: "agendado", value: 15000 });
+    expect(result.exhausted).toBe(false);
+    expect(storageMock.updateAgendamentoRecorrente).toHaveBeenCalledWith(9, { generatedUntil: horizonEnd, exhaustedAt: null });
+  });
+
+  it("não duplica aulas existentes nem remarcadas, e parte da última aula em séries sem marca d'água", async () => {
+    storageMock.getAulasByAgendamentoRecorrente.mockResolvedValue([
+      { id: 1, startTime: monday(3), originalStartTime: null },
+      { id: 2, startTime: new Date("2025-03-11T13:00:00.000Z"), originalStartTime: monday(10) },
+    ]);
+
+    await extendRecurringSeries(series, horizonEnd);
+
+    expect(createdStarts()).toEqual([monday(17), monday(24)]);
+  });
+
+  it("respeita a marca d'água e não a faz recuar quando o horizonte diminui", async () => {
+    const generatedUntil = new Date("2025-04-01T03:00:00.000Z");
+
+    const result = await extendRecurringSeries({ ...series, generatedUntil }, horizonEnd);
+
+    expect(result.created).toEqual([]);
+    expect(storageMock.createMultipleAulas).not.toHaveBeenCalled();
+    expect(storageMock.updateAgendamentoRecorrente).toHaveBeenCalledWith(9, { generatedUntil, exhaustedAt: null });
+  });
+
+  it("pula conflitos e meses fechados, registrando os conflitos na auditoria", async () => {
+    storageMock.checkSchedulingConflicts.mockImplementation(async (_professorId: number, _studentId: number, start: Date) =>
+      start.getTime() === monday(10).getTime() ? { id: 40, aulaId: 40, message: "Professor ocupado" } : null
+    );
+    findClosedPeriodMock.mockImplementation(async (date: Date) => (date < monday(10) ? "2025-03" : null));
+
+    const result = await extendRecurringSeries(series, horizonEnd);
+
+    expect(createdStarts()).toEqual([monday(17), monday(24)]);
+    expect(result.conflicts.map(({ startTime }) => startTime)).toEqual([monday(10)]);
+    expect(logSystemEventMock).toHaveBeenCalledWith("RECURRENCE_OCCURRENCES_SKIPPED", expect.objectContaining({
+      agendamentoRecorrenteId: 9,
+      ocorrencias: [
+        { startTime: "2025-03-03 10:00", aulaId: null, reason: "O período 2025-03 está fechado para alterações" },
+        { startTime: "2025-03-10 10:00", aulaId: 40, reason: "Professor ocupado" },
+      ],
+    }));
+  });
+
+  it("marca a série como encerrada quando atinge o número máximo de ocorrências", async () => {
+    const result = await extendRecurringSeries({ ...series, maxOccurrences: 2 }, horizonEnd);
+
+    expect(createdStarts()).toEqual([monday(3), monday(10)]);
+    expect(result.exhausted).toBe(true);
+    expect(storageMock.updateAgendamentoRecorrente).toHaveBeenCalledWith(9, {
+      generatedUntil: horizonEnd,
+      exhaustedAt: expect.any(Date),
+    });
+  });
+});
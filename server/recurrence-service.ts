@@ -0,0 +1,374 @@
+import { addDays, differenceInCalendarDays, format } from 'date-fns';
+import { formatInTimeZone, toZonedTime } from 'date-fns-tz';
+import type { AgendamentoRecorrente, Aula, InsertAgendamentoRecorrente, InsertAula } from '@shared/schema';
+import {
+  expandRecurrence,
+  normalizeRecurrenceRules,
+  shiftRecurrenceRules,
+  RECURRENCE_TIMEZONE,
+  type IRegraRecorrencia,
+  type RecurrenceOccurrence,
+} from '@shared/recurrence';
+import { storage } from './storage';
+import { findClosedPeriod } from './finance-service';
+import { syncAulaWithGoogle, syncAulasWithGoogle, removeAulasFromGoogle } from './google-calendar-sync';
+import { AuditEventType, logSystemEvent } from './audit-log';
+import { log } from './vite';
+
+/**
+ * Geração contínua das aulas de agendamentos recorrentes.
+ * As aulas são materializadas apenas até um horizonte móvel (RECURRENCE_HORIZON_DAYS) e um job
+ * periódico estende cada série ativa conforme o tempo passa, até atingir endDate ou maxOccurrences.
+ * A marca d'água generatedUntil garante que aulas excluídas ou remarcadas não sejam recriadas.
+ */
+
+const DEFAULT_HORIZON_DAYS = 180;
+
+export interface SeriesExtensionResult {
+  created: Aula[];
+  conflicts: RecurrenceOccurrence[];
+  exhausted: boolean;
+}
+
+/**
+ * Quantos dias à frente as aulas das séries devem existir
+ */
+export function getRecurrenceHorizonDays(): number {
+  const days = parseInt(process.env.RECURRENCE_HORIZON_DAYS || '', 10);
+  return days > 0 ? days : DEFAULT_HORIZON_DAYS;
+}
+
+export function getRecurrenceHorizonEnd(now: Date = new Date()): Date {
+  return addDays(now, getRecurrenceHorizonDays());
+}
+
+// Séries sendo estendidas agora, para o job não concorrer com a criação pela API
+const seriesInProgress = new Set<number>();
+
+/**
+ * Cria as aulas que faltam na série até o horizonte e avança a marca d'água.
+ * Ocorrências que já têm aula (inclusive remarcadas, pelo horário original) não são duplicadas;
+ * as que batem com outro compromisso do professor ou do aluno são puladas, devolvidas em conflicts
+ * e registradas na auditoria, já que a marca d'água passa delas e o job não tenta de novo.
+ */
+export async function extendRecurringSeries(
+  series: AgendamentoRecorrente,
+  horizonEnd: Date = getRecurrenceHorizonEnd()
+): Promise<SeriesExtensionResult> {
+  if (seriesInProgress.has(series.id)) {
+    return { created: [], conflicts: [], exhausted: false };
+  }
+
+  seriesInProgress.add(series.id);
+  try {
+    const existing = await storage.getAulasByAgendamentoRecorrente(series.id);
+    const existingTimes = new Set(existing.map(aula => (aula.originalStartTime ?? aula.startTime).getTime()));
+
+    // Séries criadas antes da marca d'água: considera geradas até a última aula existente
+    let watermark = series.generatedUntil;
+    if (!watermark && existing.length > 0) {
+      watermark = new Date(Math.max(...Array.from(existingTimes)));
+    }
+
+    const { occurrences, exhausted } = expandRecurrence(series, horizonEnd);
+    const pending = occurrences.filter(occurrence =>
+      (!watermark || occurrence.startTime > watermark) && !existingTimes.has(occurrence.startTime.getTime())
+    );
+
+    const toCreate: InsertAula[] = [];
+    const conflicts: RecurrenceOccurrence[] = [];
+    const skipped: Array<{ startTime: string; aulaId: number | null; reason: string }> = [];
+    for (const occurrence of pending) {
+      // Meses com fechamento financeiro não recebem aulas novas
+      const closedPeriod = await findClosedPeriod(occurrence.startTime);
+      if (closedPeriod) {
+        skipped.push({
+          startTime: formatInTimeZone(occurrence.startTime, RECURRENCE_TIMEZONE, 'yyyy-MM-dd HH:mm'),
+          aulaId: null,
+          reason: `O período ${closedPeriod} está fechado para alterações`,
+        });
+        continue;
+      }
+
+      const conflict = await storage.checkSchedulingConflicts(
+        series.professorId,
+        series.studentId,
+        occurrence.startTime,
+        occurrence.endTime,
+        undefined,
+        { locationId: series.locationId, location: series.location }
+      );
+      if (conflict) {
+        conflicts.push(occurrence);
+        skipped.push({
+          startTime: formatInTimeZone(occurrence.startTime, RECURRENCE_TIMEZONE, 'yyyy-MM-dd HH:mm'),
+          // Aula que bateu (a própria ou a vizinha, no deslocamento); indisponibilidade não tem aula
+          aulaId: conflict.aulaId ?? (conflict.type ? null : conflict.id),
+          reason: conflict.message ?? 'Horário ocupado por outra aula do professor ou do aluno',
+        });
+        continue;
+      }
+
+      toCreate.push({
+        agendamentoRecorrenteId: series.id,
+        professorId: series.professorId,
+        studentId: series.studentId,
+        startTime: occurrence.startTime,
+        endTime: occurrence.endTime,
+        location: series.location,
+        locationId: series.locationId,
+        value: series.value,
+        service: series.service,
+        notes: series.notes,
+        status: 'agendado',
+        isModified: false
+      });
+    }
+
+    const created = toCreate.length > 0 ? await storage.createMultipleAulas(toCreate) : [];
+    // Em segundo plano: o Google Calendar não deve atrasar a geração da série
+    syncAulasWithGoogle(created);
+
+    // A marca d'água nunca recua, mesmo se o horizonte for reduzido
+    await storage.updateAgendamentoRecorrente(series.id, {
+      generatedUntil: watermark && watermark > horizonEnd ? watermark : horizonEnd,
+      exhaustedAt: exhausted ? new Date() : null
+    });
+
+    if (conflicts.length > 0) {
+      log(`Série ${series.id}: ${conflicts.length} ocorrência(s) não geradas por conflito de horário`, 'recurrence');
+      logSystemEvent(AuditEventType.RECURRENCE_OCCURRENCES_SKIPPED, {
+        agendamentoRecorrenteId: series.id,
+        professorId: series.professorId,
+        studentId: series.studentId,
+        ocorrencias: skipped,
+      });
+    }
+
+    return { created, conflicts, exhausted };
+  } finally {
+    seriesInProgress.delete(series.id);
+  }
+}
+
+/**
+ * Estende todas as séries ativas até o horizonte configurado
+ */
+export async function processRecurringSeries(): Promise<number> {
+  const horizonEnd = getRecurrenceHorizonEnd();
+  const series = await storage.getActiveAgendamentosRecorrentes();
+  let createdCount = 0;
+  let exhaustedCount = 0;
+
+  for (const item of series) {
+    try {
+      const result = await extendRecurringSeries(item, horizonEnd);
+      createdCount += result.created.length;
+      if (result.exhausted) exhaustedCount++;
+    } catch (error) {
+      console.error(`Erro ao estender série recorrente ${item.id}:`, error);
+    }
+  }
+
+  if (createdCount > 0 || exhaustedCount > 0) {
+    log(`${createdCount} aula(s) gerada(s), ${exhaustedCount} série(s) encerrada(s)`, 'recurrence');
+  }
+
+  return createdCount;
+}
+
+// Escopo de uma edição feita a partir de uma aula da série, como no Google Agenda
+export type SeriesEditScope = 'this' | 'following' | 'all';
+
+// Campos da série que podem ser alterados a partir de uma aula
+export interface SeriesEditChanges {
+  startTime?: Date;
+  endTime?: Date;
+  professorId?: number;
+  location?: string;
+  locationId?: number | null;
+  value?: number;
+  service?: string;
+  notes?: string | null;
+}
+
+export interface SeriesEditResult {
+  series: AgendamentoRecorrente;
+  removed: number;
+  created: number;
+  conflicts: RecurrenceOccurrence[];
+}
+
+function zonedDay(date: Date): string {
+  return formatInTimeZone(date, RECURRENCE_TIMEZONE, 'yyyy-MM-dd');
+}
+
+/**
+ * Aplica a edição de uma aula a "esta e as seguintes" ou a "todas" as aulas da série.
+ * Em 'following' a série é dividida na aula escolhida; em 'all' a regra é alterada a partir de agora.
+ * Aulas passadas, alteradas individualmente ou com status diferente de agendado são mantidas,
+ * e os dias delas viram exceções da regra para não serem geradas de novo.
+ */
+export async function editRecurringSeries(
+  aula: Aula,
+  scope: Exclude<SeriesEditScope, 'this'>,
+  changes: SeriesEditChanges,
+  changedBy?: number
+): Promise<SeriesEditResult | { error: string; status: number }> {
+  if (!aula.agendamentoRecorrenteId) {
+    return { error: 'Esta aula não pertence a um agendamento recorrente', status: 400 };
+  }
+
+  const series = await storage.getAgendamentoRecorrenteById(aula.agendamentoRecorrenteId);
+  if (!series) {
+    return { error: 'Agendamento recorrente não encontrado', status: 404 };
+  }
+
+  const rules = normalizeRecurrenceRules(series.regras);
+  const pivot = aula.originalStartTime ?? aula.startTime;
+  const firstOccurrence = expandRecurrence(series, pivot).occurrences[0]?.startTime;
+  const splits = scope === 'following' && !!firstOccurrence && pivot > firstOccurrence;
+  // Em 'all' as aulas que já passaram ficam como estão
+  const now = new Date();
+  const from = scope === 'all' ? now : pivot;
+
+  const closedPeriod = await findClosedPeriod(from, changes.startTime);
+  if (closedPeriod) {
+    return { error: `O período ${closedPeriod} está fechado para alterações`, status: 423 };
+  }
+
+  // Horário só muda se for diferente do atual da aula; o deslocamento parte do horário original da série
+  const timeChanged = !!changes.startTime && changes.startTime.getTime() !== aula.startTime.getTime();
+  const newStart = timeChanged ? changes.startTime! : pivot;
+  const durationMinutes = changes.startTime && changes.endTime
+    ? Math.round((changes.endTime.getTime() - changes.startTime.getTime()) / 60000)
+    : undefined;
+  if (durationMinutes !== undefined && durationMinutes <= 0) {
+    return { error: 'O horário de término deve ser depois do início', status: 400 };
+  }
+
+  const shiftedRules = shiftRecurrenceRules(rules, pivot, newStart, durationMinutes);
+  const dayShift = differenceInCalendarDays(toZonedTime(newStart, RECURRENCE_TIMEZONE), toZonedTime(pivot, RECURRENCE_TIMEZONE));
+
+  // Aulas mantidas a partir do ponto de corte: seus dias (já deslocados) viram exceções
+  const existing = await storage.getAulasByAgendamentoRecorrente(series.id);
+  const kept = existing.filter(item =>
+    item.startTime >= from && (item.isModified || item.status !== 'agendado')
+  );
+  const keptDays = kept.map(item =>
+    format(addDays(new Date(`${zonedDay(item.originalStartTime ?? item.startTime)}T00:00:00`), dayShift), 'yyyy-MM-dd')
+  );
+  shiftedRules.exDates = Array.from(new Set([...(shiftedRules.exDates || []), ...keptDays])).sort();
+  if (shiftedRules.exDates.length === 0) {
+    shiftedRules.exDates = undefined;
+  }
+
+  const fields = {
+    professorId: changes.professorId ?? series.professorId,
+    location: changes.location ?? series.location,
+    // Local digitado sem escolher um cadastrado desfaz o vínculo anterior
+    locationId: changes.locationId !== undefined
+      ? changes.locationId
+      : changes.location !== undefined && changes.location !== series.location ? null : series.locationId,
+    value: changes.value ?? series.value,
+    service: changes.service ?? series.service,
+    notes: changes.notes !== undefined ? changes.notes : series.notes,
+  };
+
+  let result: { series: AgendamentoRecorrente; removedAulas: Aula[] };
+  if (splits) {
+    // COUNT continua valendo para a série inteira: a continuação recebe o que falta
+    const maxOccurrences = series.maxOccurrences ?? (rules.endType === 'count' ? rules.endCount : undefined);
+    const countBefore = maxOccurrences
+      ? expandRecurrence({ ...series, regras: { ...rules, exDates: undefined } }, new Date(pivot.getTime() - 1)).occurrences.length
+      : 0;
+    const remaining = maxOccurrences ? Math.max(1, maxOccurrences - countBefore) : null;
+
+    const next: InsertAgendamentoRecorrente = {
+      ...fields,
+      studentId: series.studentId,
+      regras: remaining ? { ...shiftedRules, endCount: remaining } : shiftedRules,
+      startDate: newStart,
+      endDate: series.endDate,
+      maxOccurrences: remaining,
+      active: series.active,
+    };
+
+    result = await storage.splitAgendamentoRecorrente(series.id, from, {
+      endDate: new Date(pivot.getTime() - 1000),
+      exhaustedAt: now,
+    }, next);
+  } else {
+    const shift = newStart.getTime() - pivot.getTime();
+    result = await storage.rewriteAgendamentoRecorrente(series.id, from, {
+      ...fields,
+      regras: shiftedRules,
+      startDate: new Date(series.startDate.getTime() + shift),
+      // Gera novamente apenas a partir do ponto de corte
+      generatedUntil: new Date(from.getTime() - 1),
+      exhaustedAt: null,
+    });
+  }
+
+  // A própria aula, se foi mantida, recebe as alterações diretamente
+  if (kept.some(item => item.id === aula.id)) {
+    const updated = await storage.updateAula(aula.id, {
+      ...fields,
+      ...(timeChanged ? { startTime: changes.startTime, endTime: changes.endTime ?? aula.endTime } : {}),
+    }, changedBy);
+    if (updated) {
+      syncAulaWithGoogle(updated);
+    }
+  }
+
+  removeAulasFromGoogle(result.removedAulas);
+
+  const extension = await extendRecurringSeries(result.series);
+
+  return {
+    series: result.series,
+    removed: result.removedAulas.length,
+    created: extension.created.length,
+    conflicts: extension.conflicts,
+  };
+}
+
+let recurrenceTimer: NodeJS.Timeout | null = null;
+let isProcessingRecurrences = false;
+
+/**
+ * Inicia a extensão periódica das séries recorrentes (padrão: a cada 6 horas)
+ */
+export function startRecurrenceScheduler(intervalMs: number = parseInt(process.env.RECURRENCE_JOB_INTERVAL_MS || '21600000', 10)) {
+  if (recurrenceTimer || process.env.RECURRENCE_JOB_ENABLED === 'false') {
+    return;
+  }
+
+  const run = async () => {
+    if (isProcessingRecurrences) {
+      return;
+    }
+
+    isProcessingRecurrences = true;
+    try {
+      await processRecurringSeries();
+    } catch (error) {
+      console.error('Erro ao gerar aulas de séries recorrentes:', error);
+    } finally {
+      isProcessingRecurrences = false;
+    }
+  };
+
+  recurrenceTimer = setInterval(run, intervalMs);
+  recurrenceTimer.unref();
+  run();
+
+  log(`Geração contínua de aulas recorrentes iniciada (horizonte: ${getRecurrenceHorizonDays()} dias)`, 'recurrence');
+}
+
+export function stopRecurrenceScheduler() {
+  if (recurrenceTimer) {
+    clearInterval(recurrenceTimer);
+    recurrenceTimer = null;
+  }
+}
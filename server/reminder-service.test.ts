@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const storageMock = vi.hoisted(() => ({
+  getAulas: vi.fn(),
+  getSessionsByDateRange: vi.fn(),
+  getLegacyIdMappings: vi.fn(),
+  getUser: vi.fn(),
+  getLead: vi.fn(),
+  claimSessionReminder: vi.fn(),
+  updateSessionReminder: vi.fn(),
+}));
+const sendEmailMock = vi.hoisted(() => vi.fn());
+
+vi.mock("./storage", () => ({ storage: storageMock }));
+vi.mock("./email-service", () => ({
+  sendSessionReminderEmail: sendEmailMock,
+  formatReminderWhen: (hours: number) => `em ${hours}h`,
+  getRetryDelayMs: (attempts: number) => 60000 * Math.pow(2, attempts - 1),
+}));
+vi.mock("./whatsapp-service", () => ({ sendWhatsAppMessage: vi.fn() }));
+vi.mock("./vite", () => ({ log: vi.fn() }));
+
+import { getReminderOffsetsMinutes, processSessionReminders, selectDueOffset } from "./reminder-service";
+
+const now = new Date("2025-03-10T12:00:00.000Z");
+const inMinutes = (minutes: number) => new Date(now.getTime() + minutes * 60000);
+
+describe("selectDueOffset", () => {
+  const offsets = [1440, 120];
+
+  it("escolhe a menor antecedência cuja janela já começou", () => {
+    expect(selectDueOffset(inMinutes(600), now, offsets)).toBe(1440);
+    expect(selectDueOffset(inMinutes(90), now, offsets)).toBe(120);
+  });
+
+  it("ignora aulas fora da janela ou que já começaram", () => {
+    expect(selectDueOffset(inMinutes(2000), now, offsets)).toBeNull();
+    expect(selectDueOffset(now, now, offsets)).toBeNull();
+    expect(selectDueOffset(inMinutes(-30), now, offsets)).toBeNull();
+  });
+});
+
+describe("getReminderOffsetsMinutes", () => {
+  afterEach(() => {
+    delete process.env.REMINDER_OFFSETS_HOURS;
+  });
+
+  it("usa 24h e 2h por padrão", () => {
+    expect(getReminderOffsetsMinutes()).toEqual([1440, 120]);
+  });
+
+  it("converte, ordena e descarta valores inválidos ou repetidos", () => {
+    process.env.REMINDER_OFFSETS_HOURS = "1, 0.5, abc, -2, 48, 1";
+    expect(getReminderOffsetsMinutes()).toEqual([2880, 60, 30]);
+  });
+});
+
+describe("processSessionReminders", () => {
+  const aula = {
+    id: 5,
+    studentId: 7,
+    professorId: 2,
+    startTime: inMinutes(90),
+    endTime: inMinutes(150),
+    location: "Academia",
+    notes: null,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.REMINDER_CHANNELS = "email";
+    storageMock.getSessionsByDateRange.mockResolvedValue([]);
+    storageMock.getUser.mockResolvedValue({ id: 2, name: "Paula" });
+    storageMock.getLead.mockResolvedValue({ id: 7, name: "Ana Souza", email: "ana@example.com", source: "Favale" });
+  });
+
+  afterEach(() => {
+    delete process.env.REMINDER_CHANNELS;
+  });
+
+  it("lembra aulas remarcadas e registra o lembrete pelo horário da aula", async () => {
+    storageMock.getAulas.mockResolvedValue([
+      { ...aula, status: "remarcado" },
+      { ...aula, id: 6, status: "cancelado" },
+    ]);
+    storageMock.claimSessionReminder.mockResolvedValue({ id: 1, attempts: 1 });
+    sendEmailMock.mockResolvedValue(true);
+
+    await expect(processSessionReminders(now)).resolves.toBe(1);
+
+    expect(storageMock.claimSessionReminder).toHaveBeenCalledTimes(1);
+    expect(storageMock.claimSessionReminder).toHaveBeenCalledWith(
+      expect.objectContaining({ targetType: "aula", targetId: 5, startTime: aula.startTime, offsetMinutes: 120 }),
+      now,
+      5
+    );
+  });
+
+  it("agenda nova tentativa com backoff quando o envio falha", async () => {
+    storageMock.getAulas.mockResolvedValue([{ ...aula, status: "agendado" }]);
+    storageMock.claimSessionReminder.mockResolvedValue({ id: 1, attempts: 3 });
+    sendEmailMock.mockResolvedValue(false);
+    vi.useFakeTimers({ now });
+
+    try {
+      await expect(processSessionReminders(now)).resolves.toBe(0);
+    } finally {
+      vi.useRealTimers();
+    }
+
+    expect(storageMock.updateSessionReminder).toHaveBeenCalledWith(1, expect.objectContaining({
+      status: "failed",
+      nextAttemptAt: inMinutes(4),
+    }));
+  });
+});
@@ -0,0 +1,308 @@
+import { formatInTimeZone } from 'date-fns-tz';
+import type { Lead } from '@shared/schema';
+import { storage } from './storage';
+import { sendSessionReminderEmail, formatReminderWhen, getRetryDelayMs } from './email-service';
+import { sendWhatsAppMessage } from './whatsapp-service';
+import { log } from './vite';
+
+/**
+ * Job de lembretes de aulas.
+ * Varre as aulas (novo sistema) e sessões (sistema legado) agendadas e envia lembretes
+ * por e-mail e WhatsApp nas antecedências configuradas em REMINDER_OFFSETS_HOURS.
+ * Cada envio é registrado em session_reminders (pelo horário da aula) antes de sair, então reinicializações
+ * não geram duplicidade e uma aula remarcada volta a ser lembrada. Envios com falha são repetidos com o
+ * mesmo backoff da fila de e-mails, até MAX_REMINDER_ATTEMPTS tentativas.
+ */
+
+type ReminderChannel = 'email' | 'whatsapp';
+type ReminderTargetType = 'aula' | 'session';
+
+// Dados comuns de uma aula/sessão necessários para montar o lembrete
+interface ReminderTarget {
+  type: ReminderTargetType;
+  id: number;
+  leadId: number;
+  startTime: Date;
+  endTime: Date;
+  location: string;
+  notes: string | null;
+  source: string | null;
+  trainerName: string;
+}
+
+const DEFAULT_OFFSETS_HOURS = [24, 2];
+const DEFAULT_CHANNELS: ReminderChannel[] = ['email', 'whatsapp'];
+const REMINDABLE_STATUSES = ['agendado', 'remarcado'];
+const MAX_REMINDER_ATTEMPTS = 5;
+
+/**
+ * Antecedências configuradas, em minutos, da maior para a menor
+ */
+export function getReminderOffsetsMinutes(): number[] {
+  const configured = process.env.REMINDER_OFFSETS_HOURS
+    ? process.env.REMINDER_OFFSETS_HOURS.split(',').map(value => parseFloat(value.trim()))
+    : DEFAULT_OFFSETS_HOURS;
+
+  const offsets = configured
+    .filter(hours => !isNaN(hours) && hours > 0)
+    .map(hours => Math.round(hours * 60));
+
+  return Array.from(new Set(offsets)).sort((a, b) => b - a);
+}
+
+function getReminderChannels(): ReminderChannel[] {
+  if (!process.env.REMINDER_CHANNELS) {
+    return DEFAULT_CHANNELS;
+  }
+
+  return process.env.REMINDER_CHANNELS
+    .split(',')
+    .map(channel => channel.trim().toLowerCase())
+    .filter((channel): channel is ReminderChannel => channel === 'email' || channel === 'whatsapp');
+}
+
+/**
+ * Escolhe qual antecedência deve ser enviada agora: a menor cuja janela já começou.
+ * Lembretes maiores que ficaram para trás (ex.: aula marcada 3h antes) são ignorados.
+ */
+export function selectDueOffset(startTime: Date, now: Date, offsetsMinutes: number[]): number | null {
+  const minutesUntilStart = (startTime.getTime() - now.getTime()) / 60000;
+  if (minutesUntilStart <= 0) {
+    return null;
+  }
+
+  const dueOffsets = offsetsMinutes.filter(offset => minutesUntilStart <= offset);
+  return dueOffsets.length > 0 ? Math.min(...dueOffsets) : null;
+}
+
+async function loadUpcomingTargets(now: Date, horizon: Date): Promise<ReminderTarget[]> {
+  const targets: ReminderTarget[] = [];
+  const professorNames = new Map<number, string>();
+  const trainerNames = new Map<number, string>();
+
+  const upcomingAulas = await storage.getAulas({ startDate: now, endDate: horizon });
+  for (const aula of upcomingAulas) {
+    if (!REMINDABLE_STATUSES.includes(aula.status)) {
+      continue;
+    }
+
+    if (!professorNames.has(aula.professorId)) {
+      const professor = await storage.getUser(aula.professorId);
+      professorNames.set(aula.professorId, professor?.name || professor?.username || 'Professor');
+    }
+
+    targets.push({
+      type: 'aula',
+      id: aula.id,
+      leadId: aula.studentId,
+      startTime: new Date(aula.startTime),
+      endTime: new Date(aula.endTime),
+      location: aula.location,
+      notes: aula.notes,
+      source: null,
+      trainerName: professorNames.get(aula.professorId)!,
+    });
+  }
+
+  // Sessões já migradas para aulas são lembradas pela aula correspondente
+  const upcomingSessions = await storage.getSessionsByDateRange(now, horizon);
+  const migratedSessionIds = upcomingSessions.length > 0
+    ? new Set((await storage.getLegacyIdMappings('session')).map(mapping => mapping.legacyId))
+    : new Set<string>();
+  for (const session of upcomingSessions) {
+    if (!REMINDABLE_STATUSES.includes(session.status) || migratedSessionIds.has(String(session.id))) {
+      continue;
+    }
+
+    if (!trainerNames.has(session.trainerId)) {
+      const trainer = await storage.getTrainer(session.trainerId);
+      trainerNames.set(session.trainerId, trainer?.name || 'Professor');
+    }
+
+    targets.push({
+      type: 'session',
+      id: session.id,
+      leadId: session.leadId,
+      startTime: new Date(session.startTime),
+      endTime: new Date(session.endTime),
+      location: session.location,
+      notes: session.notes,
+      source: session.source,
+      trainerName: trainerNames.get(session.trainerId)!,
+    });
+  }
+
+  return targets;
+}
+
+function buildWhatsAppReminder(target: ReminderTarget, lead: Lead, offsetMinutes: number): string {
+  const firstName = lead.name.split(' ')[0];
+  const startTime = formatInTimeZone(target.startTime, 'America/Sao_Paulo', "dd/MM 'às' HH:mm");
+
+  return `Olá, ${firstName}! Lembrete do seu treino ${formatReminderWhen(offsetMinutes / 60)}: ` +
+    `${startTime} com ${target.trainerName}, em ${target.location}. ` +
+    `Caso precise remarcar, avise com antecedência.`;
+}
+
+/**
+ * Envia o lembrete em um canal, retornando o status a ser registrado
+ */
+async function deliverReminder(
+  channel: ReminderChannel,
+  target: ReminderTarget,
+  lead: Lead,
+  offsetMinutes: number
+): Promise<{ status: 'sent' | 'failed' | 'skipped'; error?: string }> {
+  const source = target.source || lead.source;
+
+  if (channel === 'email') {
+    if (!lead.email) {
+      return { status: 'skipped', error: 'Aluno sem e-mail cadastrado' };
+    }
+
+    const queued = await sendSessionReminderEmail(
+      { ...target, source, leadId: lead.id },
+      target.trainerName,
+      lead.name,
+      lead.email,
+      offsetMinutes / 60
+    );
+    return queued ? { status: 'sent' } : { status: 'failed', error: 'Falha ao enfileirar e-mail' };
+  }
+
+  if (!lead.phone) {
+    return { status: 'skipped', error: 'Aluno sem telefone cadastrado' };
+  }
+
+  const content = buildWhatsAppReminder(target, lead, offsetMinutes);
+  const message = await storage.createWhatsappMessage({
+    leadId: lead.id,
+    direction: 'outgoing',
+    content,
+    status: 'pending',
+    messageId: null,
+  });
+
+  const result = await sendWhatsAppMessage(lead, content);
+  await storage.updateWhatsappMessageStatus(message.id, result.success ? 'sent' : 'failed');
+  if (result.success && result.messageId) {
+    await storage.updateWhatsappMessageId(message.id, result.messageId);
+  }
+
+  return result.success ? { status: 'sent' } : { status: 'failed', error: result.error };
+}
+
+function getNextAttemptAt(attempts: number): Date {
+  return new Date(Date.now() + getRetryDelayMs(attempts));
+}
+
+/**
+ * Executa um ciclo do job: envia os lembretes que venceram e ainda não foram registrados
+ */
+export async function processSessionReminders(now: Date = new Date()): Promise<number> {
+  const offsets = getReminderOffsetsMinutes();
+  const channels = getReminderChannels();
+  if (offsets.length === 0 || channels.length === 0) {
+    return 0;
+  }
+
+  const horizon = new Date(now.getTime() + offsets[0] * 60000);
+  const targets = await loadUpcomingTargets(now, horizon);
+  let sent = 0;
+
+  for (const target of targets) {
+    const offsetMinutes = selectDueOffset(target.startTime, now, offsets);
+    if (offsetMinutes === null) {
+      continue;
+    }
+
+    const lead = await storage.getLead(target.leadId);
+    if (!lead) {
+      continue;
+    }
+
+    for (const channel of channels) {
+      // Registra o lembrete antes do envio; se já existir, só é reenviado quando a falha anterior já pode ser repetida
+      const reminder = await storage.claimSessionReminder({
+        targetType: target.type,
+        targetId: target.id,
+        startTime: target.startTime,
+        offsetMinutes,
+        channel,
+        status: 'pending',
+        leadId: lead.id,
+      }, now, MAX_REMINDER_ATTEMPTS);
+
+      if (!reminder) {
+        continue;
+      }
+
+      try {
+        const result = await deliverReminder(channel, target, lead, offsetMinutes);
+        await storage.updateSessionReminder(reminder.id, {
+          status: result.status,
+          error: result.error ?? null,
+          sentAt: result.status === 'sent' ? new Date() : null,
+          nextAttemptAt: result.status === 'failed' ? getNextAttemptAt(reminder.attempts) : null,
+        });
+
+        if (result.status === 'sent') {
+          sent++;
+        }
+      } catch (error) {
+        console.error(`Erro ao enviar lembrete de ${target.type} #${target.id} via ${channel}:`, error);
+        await storage.updateSessionReminder(reminder.id, {
+          status: 'failed',
+          error: error instanceof Error ? error.message : String(error),
+          nextAttemptAt: getNextAttemptAt(reminder.attempts),
+        });
+      }
+    }
+  }
+
+  if (sent > 0) {
+    log(`${sent} lembrete(s) de aula enviado(s)`, 'reminders');
+  }
+
+  return sent;
+}
+
+let reminderTimer: NodeJS.Timeout | null = null;
+let isProcessingReminders = false;
+
+/**
+ * Inicia a verificação periódica de lembretes (padrão: a cada 5 minutos)
+ */
+export function startReminderScheduler(intervalMs: number = parseInt(process.env.REMINDER_INTERVAL_MS || '300000', 10)) {
+  if (reminderTimer || process.env.REMINDERS_ENABLED === 'false') {
+    return;
+  }
+
+  const run = async () => {
+    if (isProcessingReminders) {
+      return;
+    }
+
+    isProcessingReminders = true;
+    try {
+      await processSessionReminders();
+    } catch (error) {
+      console.error('Erro ao processar lembretes de aulas:', error);
+    } finally {
+      isProcessingReminders = false;
+    }
+  };
+
+  reminderTimer = setInterval(run, intervalMs);
+  reminderTimer.unref();
+  run();
+
+  log(`Agendador de lembretes iniciado (antecedências: ${getReminderOffsetsMinutes().map(m => `${m / 60}h`).join(', ')})`, 'reminders');
+}
+
+export function stopReminderScheduler() {
+  if (reminderTimer) {
+    clearInterval(reminderTimer);
+    reminderTimer = null;
+  }
+}
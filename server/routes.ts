@@ -3,14 +3,15 @@ import { createServer, type Server } from "http";
 import { storage, type IStorage } from "./storage";
 import { db } from "./db";
 import { 
-  leads, sessions, users, aulas, agendamentosRecorrentes, services,
+  leads, users, aulas, agendamentosRecorrentes, services,
   insertLeadSchema, leadValidationSchema, whatsappMessageValidationSchema,
   taskValidationSchema, taskCommentValidationSchema,
-  type Session, type Student, type WhatsappMessage
+  type Student, type WhatsappMessage
 } from "@shared/schema";
 import * as schema from "@shared/schema";
-import { eq, desc, and, or, like, isNull, isNotNull, count, sql as drizzleSql, inArray, gte, lte } from "drizzle-orm";
-import { randomUUID } from "crypto";
+import { eq, desc, and, or, like, isNull, isNotNull, count, sql as drizzleSql, inArray, gte, lte, lt, gt, ne } from "drizzle-orm";
+import { addDays, format, parseISO } from "date-fns";
+import { fromZonedTime } from "date-fns-tz";
 import { fromZodError } from "zod-validation-error";
 import { setupAuth } from "./auth";
 import { logAuditEvent, AuditEventType, getRecentAuditLogs } from "./audit-log";
@@ -39,10 +40,29 @@ import weatherRouter from "./routes/weather.routes"; // Import weather router
 import schedulingRouter from "./routes/scheduling.routes"; // Import scheduling router
 import newSchedulingRouter from "./routes/scheduling.routes"; // Import new scheduling router
 import statsRouter from "./routes/stats.routes"; // Import stats router
+import emailRouter from "./routes/email.routes"; // Import email router
+import financeRouter from "./routes/finance.routes"; // Import finance router
+import billingRouter from "./routes/billing.routes"; // Import billing router
 import { isAuthenticated, isAdmin } from "./middlewares/auth.middleware"; // Import middlewares
 import { addUserNamesToTasks } from "./utils/task.utils"; // Import addUserNamesToTasks
-// Remover integração Google Calendar
-// import oauthRoutes from './routes/oauth.routes';
+import { getAulaHistory } from "./controllers/history.controller";
+import { checkInAula, checkOutAula, markAulaNoShow, cancelAula } from "./controllers/attendance.controller";
+import { exportRecurrenceRule } from "./controllers/newScheduling.controller";
+import { normalizeRecurrenceRules } from "@shared/recurrence";
+import { findClosedPeriod } from "./finance-service";
+import { extendRecurringSeries, editRecurringSeries } from "./recurrence-service";
+import { syncAulaWithGoogle, syncAulasWithGoogle } from "./google-calendar-sync";
+import { offerSlotIfCancelled } from "./waitlist-service";
+import oauthRoutes from './routes/oauth.routes';
+import availabilityRouter from "./routes/availability.routes";
+import locationsRouter from "./routes/locations.routes";
+import legacySessionsRouter from "./routes/legacySessions.routes";
+import waitlistRouter from "./routes/waitlist.routes";
+import portalRouter from "./routes/portal.routes";
+import pipelineRouter from "./routes/pipeline.routes";
+import leadImportRouter from "./routes/leadImport.routes";
+import { getLegacyTrainers } from "./controllers/legacySessions.controller";
+import { checkAvailability, toLocalDay, AVAILABILITY_TIMEZONE } from "@shared/availability";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Set up authentication routes and middleware
@@ -58,279 +78,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.use("/api/scheduling", schedulingRouter); // Use old scheduling router
   app.use("/api/new-scheduling", newSchedulingRouter); // Use new scheduling router
   app.use("/api/stats", statsRouter); // Use stats router
-  // Remover integração Google Calendar
-  // app.use('/api/oauth', oauthRoutes);
-
-  // Get all sessions
-  app.get('/api/sessions', async (req, res) => {
-    try {
-      const result = await db.execute(sql`
-        SELECT 
-          id,
-          start_time as "startTime",
-          end_time as "endTime", 
-          location,
-          source,
-          notes,
-          status,
-          lead_id as "leadId",
-          trainer_id as "trainerId",
-          value,
-          service,
-          recurrence_type as "recurrenceType",
-          recurrence_interval as "recurrenceInterval",
-          recurrence_week_days as "recurrenceWeekDays",
-          recurrence_end_type as "recurrenceEndType",
-          recurrence_end_date as "recurrenceEndDate",
-          recurrence_end_count as "recurrenceEndCount",
-          recurrence_group_id as "recurrenceGroupId",
-          is_recurrence_parent as "isRecurrenceParent",
-          parent_session_id as "parentSessionId"
-        FROM sessions 
-        ORDER BY start_time ASC
-      `);
-      
-      res.json(result.rows);
-    } catch (error) {
-      console.error('Erro ao buscar sessões:', error);
-      res.status(500).json({ message: "Erro ao buscar sessões" });
-    }
-  });
-
-  // Get all trainers
-  app.get('/api/trainers', async (req, res) => {
-    try {
-      const result = await db.execute(sql`
-        SELECT id, name, email, specialties, source
-        FROM trainers 
-        ORDER BY name ASC
-      `);
-      
-      res.json(result.rows);
-    } catch (error) {
-      console.error('Erro ao buscar professores:', error);
-      res.status(500).json({ message: "Erro ao buscar professores" });
-    }
-  });
-
-  // Create new session with recurrence support
-  app.post('/api/sessions', async (req, res) => {
-    try {
-      const { 
-        startTime, 
-        endTime, 
-        location, 
-        source, 
-        leadId, 
-        trainerId, 
-        notes, 
-        status,
-        value,
-        service,
-        recurrenceType,
-        recurrenceInterval,
-        recurrenceWeekDays,
-        recurrenceEndType,
-        recurrenceEndDate,
-        recurrenceEndCount
-      } = req.body;
-
-      if (recurrenceType === 'none') {
-        // Single session
-        const result = await db.execute(sql`
-          INSERT INTO sessions (
-            start_time, end_time, location, source, lead_id, trainer_id, 
-            notes, status, value, service, recurrence_type
-          )
-          VALUES (
-            ${startTime}, ${endTime}, ${location}, ${source}, ${leadId}, ${trainerId}, 
-            ${notes || null}, ${status || 'agendado'}, ${value}, ${service}, ${recurrenceType}
-          )
-          RETURNING id
-        `);
-        
-        return res.json({ 
-          id: result.rows[0].id, 
-          message: 'Sessão criada com sucesso',
-          recurring: false,
-          count: 1
-        });
-      }
-
-      // Generate recurring sessions
-      const recurrenceGroupId = randomUUID();
-      const sessions = [];
-      const baseStartTime = new Date(startTime);
-      const baseEndTime = new Date(endTime);
-      let currentDate = new Date(baseStartTime);
-      
-      // Determine end condition
-      const maxSessions = recurrenceEndType === 'count' ? recurrenceEndCount : 100;
-      const endDate = recurrenceEndType === 'date' ? new Date(recurrenceEndDate) : null;
-      
-      let sessionCount = 0;
-      
-      while (sessionCount < maxSessions) {
-        // Check if we've reached the end date
-        if (endDate && currentDate > endDate) {
-          break;
-        }
-
-        // For weekly recurrence, check if current day matches selected days
-        if (recurrenceType === 'weekly') {
-          const dayNames = ['domingo', 'segunda', 'terca', 'quarta', 'quinta', 'sexta', 'sabado'];
-          const currentDayName = dayNames[currentDate.getDay()];
-          
-          if (recurrenceWeekDays && recurrenceWeekDays.includes(currentDayName)) {
-            const sessionStart = new Date(currentDate);
-            sessionStart.setHours(baseStartTime.getHours(), baseStartTime.getMinutes(), 0, 0);
-            
-            const sessionEnd = new Date(currentDate);
-            sessionEnd.setHours(baseEndTime.getHours(), baseEndTime.getMinutes(), 0, 0);
-            
-            sessions.push({
-              startTime: sessionStart.toISOString(),
-              endTime: sessionEnd.toISOString(),
-              isParent: sessions.length === 0
-            });
-          }
-          
-          // Move to next day
-          currentDate.setDate(currentDate.getDate() + 1);
-          
-          // After checking 7 days, jump by interval weeks
-          if (currentDate.getDay() === baseStartTime.getDay()) {
-            currentDate.setDate(currentDate.getDate() + (7 * (recurrenceInterval - 1)));
-          }
-        } else if (recurrenceType === 'daily') {
-          const sessionStart = new Date(currentDate);
-          sessionStart.setHours(baseStartTime.getHours(), baseStartTime.getMinutes(), 0, 0);
-          
-          const sessionEnd = new Date(currentDate);
-          sessionEnd.setHours(baseEndTime.getHours(), baseEndTime.getMinutes(), 0, 0);
-          
-          sessions.push({
-            startTime: sessionStart.toISOString(),
-            endTime: sessionEnd.toISOString(),
-            isParent: sessions.length === 0
-          });
-          
-          currentDate.setDate(currentDate.getDate() + recurrenceInterval);
-        } else if (recurrenceType === 'monthly') {
-          const sessionStart = new Date(currentDate);
-          sessionStart.setHours(baseStartTime.getHours(), baseStartTime.getMinutes(), 0, 0);
-          
-          const sessionEnd = new Date(currentDate);
-          sessionEnd.setHours(baseEndTime.getHours(), baseEndTime.getMinutes(), 0, 0);
-          
-          sessions.push({
-            startTime: sessionStart.toISOString(),
-            endTime: sessionEnd.toISOString(),
-            isParent: sessions.length === 0
-          });
-          
-          currentDate.setMonth(currentDate.getMonth() + recurrenceInterval);
-        }
-        
-        sessionCount++;
-        
-        // Safety check to prevent infinite loops
-        if (sessionCount > 365) break;
-      }
-
-      // Insert all sessions using SQL
-      let parentSessionId = null;
-      const insertedSessions = [];
-
-      for (const session of sessions) {
-        const result = await db.execute(sql`
-          INSERT INTO sessions (
-            start_time, end_time, location, source, lead_id, trainer_id, 
-            notes, status, value, service, recurrence_type, recurrence_interval,
-            recurrence_week_days, recurrence_end_type, recurrence_end_date, 
-            recurrence_end_count, recurrence_group_id, is_recurrence_parent,
-            parent_session_id
-          )
-          VALUES (
-            ${session.startTime}, ${session.endTime}, ${location}, ${source}, 
-            ${leadId}, ${trainerId}, ${notes}, ${status || 'agendado'}, 
-            ${value}, ${service}, ${recurrenceType}, ${recurrenceInterval},
-            ${recurrenceWeekDays ? JSON.stringify(recurrenceWeekDays) : null}, ${recurrenceEndType}, ${recurrenceEndDate}, 
-            ${recurrenceEndCount}, ${recurrenceGroupId}, ${session.isParent},
-            ${parentSessionId}
-          )
-          RETURNING id
-        `);
-        
-        const sessionId = result.rows[0].id;
-        insertedSessions.push(sessionId);
-        
-        if (session.isParent) {
-          parentSessionId = sessionId;
-        }
-      }
-
-      res.json({ 
-        message: 'Sessões criadas com sucesso',
-        recurring: true,
-        count: insertedSessions.length,
-        parentId: parentSessionId,
-        groupId: recurrenceGroupId
-      });
-    } catch (error) {
-      console.error('Erro ao criar sessão:', error);
-      res.status(500).json({ message: "Erro ao criar sessão" });
-    }
-  });
-
-  // Update session
-  app.patch('/api/sessions/:id', async (req, res) => {
-    try {
-      const sessionId = parseInt(req.params.id);
-      const updates = req.body;
-      
-      // Build dynamic update query
-      const updateFields = [];
-      const values = [];
-      
-      if (updates.startTime) {
-        updateFields.push('start_time = $' + (values.length + 1));
-        values.push(updates.startTime);
-      }
-      if (updates.endTime) {
-        updateFields.push('end_time = $' + (values.length + 1));
-        values.push(updates.endTime);
-      }
-      if (updates.location) {
-        updateFields.push('location = $' + (values.length + 1));
-        values.push(updates.location);
-      }
-      if (updates.status) {
-        updateFields.push('status = $' + (values.length + 1));
-        values.push(updates.status);
-      }
-      if (updates.notes !== undefined) {
-        updateFields.push('notes = $' + (values.length + 1));
-        values.push(updates.notes);
-      }
-      
-      if (updateFields.length === 0) {
-        return res.status(400).json({ message: 'Nenhum campo para atualizar' });
-      }
-      
-      updateFields.push('updated_at = NOW()');
-      values.push(sessionId);
-      
-      const query = `UPDATE sessions SET ${updateFields.join(', ')} WHERE id = $${values.length}`;
-      
-      await db.execute(sql.raw(query, values));
-      
-      res.json({ message: 'Sessão atualizada com sucesso' });
-    } catch (error) {
-      console.error('Erro ao atualizar sessão:', error);
-      res.status(500).json({ message: "Erro ao atualizar sessão" });
-    }
-  });
+  app.use("/api/emails", emailRouter); // Use email router
+  app.use("/api/finance", financeRouter); // Use finance router
+  app.use("/api/billing", billingRouter); // Use billing router
+  app.use('/api/oauth', oauthRoutes); // Conexão e sincronização com o Google Calendar
+  app.use("/api/availability", availabilityRouter); // Expediente, ausências e feriados dos professores
+  app.use("/api/locations", locationsRouter); // Locais de aula e tempo de deslocamento entre regiões
+  app.use("/api/waitlist", waitlistRouter); // Lista de espera e ofertas de horários cancelados
+  app.use("/api/portal", portalRouter); // Portal do aluno (acesso por link mágico ou código)
+  app.use("/api/pipeline", pipelineRouter); // Funil de vendas: etapas, motivos de perda e quadro de leads
+  app.use("/api/lead-imports", leadImportRouter); // Importação de leads por planilha (CSV/XLSX) em segundo plano
+
+  // API antiga de sessões e treinadores: camada de compatibilidade sobre aulas e professores
+  app.use("/api/sessions", legacySessionsRouter);
+  app.get('/api/trainers', isAuthenticated, getLegacyTrainers);
 
   // Get all leads
   app.get('/api/leads', async (req, res) => {
@@ -487,218 +248,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get all trainers
-  app.get('/api/trainers', async (req, res) => {
-    try {
-      const trainersResult = await db.execute(sql`
-        SELECT id, name, email, source, active, specialties, phone
-        FROM trainers 
-        WHERE active = true
-        ORDER BY source, name
-      `);
-      
-      res.json(trainersResult.rows);
-    } catch (error) {
-      console.error('Erro ao buscar professores:', error);
-      res.status(500).json({ message: "Erro ao buscar professores" });
-    }
-  });
-
-  // Check session conflicts
-  app.post('/api/sessions/check-conflicts', async (req, res) => {
-    try {
-      const { trainerId, date, startTime, endTime } = req.body;
-      
-      if (!trainerId || !date || !startTime || !endTime) {
-        return res.status(400).json({ message: "Parâmetros obrigatórios não fornecidos" });
-      }
-
-      const startDateTime = new Date(`${date}T${startTime}`);
-      const endDateTime = new Date(`${date}T${endTime}`);
-      
-      // Adicionar 15 minutos de tolerância
-      const toleranceStart = new Date(startDateTime.getTime() - 15 * 60000);
-      const toleranceEnd = new Date(endDateTime.getTime() + 15 * 60000);
-
-      // Verificar conflitos com sessões existentes
-      const conflictsResult = await db.execute(sql`
-        SELECT s.*, l.name as student_name
-        FROM sessions s
-        JOIN leads l ON s.lead_id = l.id
-        WHERE s.trainer_id = ${trainerId}
-        AND s.status = 'agendado'
-        AND DATE(s.start_time) = ${date}
-        AND (
-          (s.start_time BETWEEN ${toleranceStart.toISOString()} AND ${toleranceEnd.toISOString()})
-          OR 
-          (s.end_time BETWEEN ${toleranceStart.toISOString()} AND ${toleranceEnd.toISOString()})
-          OR
-          (s.start_time <= ${startDateTime.toISOString()} AND s.end_time >= ${endDateTime.toISOString()})
-        )
-      `);
-
-      const conflicts = [];
-      
-      if (conflictsResult.rows.length > 0) {
-        for (const conflict of conflictsResult.rows) {
-          const conflictRow = conflict as any;
-          conflicts.push({
-            type: 'trainer_busy',
-            message: `Professor já tem sessão agendada com ${conflictRow.student_name} das ${new Date(conflictRow.start_time as string).toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' })} às ${new Date(conflictRow.end_time as string).toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' })}`,
-            suggestion: 'Considere agendar 15 minutos antes ou depois do horário conflitante.'
-          });
-        }
-      }
-
-      // Sugerir horários alternativos se houver conflitos
-      if (conflicts.length > 0) {
-        const suggestedTimes = [];
-        const timeSlots = [
-          "06:00", "06:30", "07:00", "07:30", "08:00", "08:30", 
-          "09:00", "09:30", "10:00", "10:30", "11:00", "11:30",
-          "12:00", "12:30", "13:00", "13:30", "14:00", "14:30", 
-          "15:00", "15:30", "16:00", "16:30", "17:00", "17:30",
-          "18:00", "18:30", "19:00", "19:30", "20:00", "20:30"
-        ];
-
-        // Verificar horários disponíveis
-        for (const slot of timeSlots.slice(0, 5)) { // Limitar a 5 sugestões
-          const slotStart = new Date(`${date}T${slot}`);
-          const slotEnd = new Date(slotStart.getTime() + (endDateTime.getTime() - startDateTime.getTime()));
-          
-          const slotConflictResult = await db.execute(sql`
-            SELECT COUNT(*) as count
-            FROM sessions s
-            WHERE s.trainer_id = ${trainerId}
-            AND s.status = 'agendado'
-            AND DATE(s.start_time) = ${date}
-            AND (
-              (s.start_time BETWEEN ${slotStart.toISOString()} AND ${slotEnd.toISOString()})
-              OR 
-              (s.end_time BETWEEN ${slotStart.toISOString()} AND ${slotEnd.toISOString()})
-              OR
-              (s.start_time <= ${slotStart.toISOString()} AND s.end_time >= ${slotEnd.toISOString()})
-            )
-          `);
-
-          if (parseInt((slotConflictResult.rows[0] as any).count) === 0) {
-            suggestedTimes.push({
-              start: slot,
-              end: slotEnd.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' })
-            });
-          }
-        }
-
-        if (suggestedTimes.length > 0) {
-          conflicts.push({
-            type: 'suggestion',
-            message: `Horários disponíveis: ${suggestedTimes.map(t => `${t.start}-${t.end}`).join(', ')}`,
-          });
-        }
-      }
-
-      res.json({ conflicts });
-    } catch (error) {
-      console.error('Erro ao verificar conflitos:', error);
-      res.status(500).json({ message: "Erro ao verificar conflitos" });
-    }
-  });
-
-  // Get all sessions
-  app.get('/api/sessions', async (req, res) => {
-    try {
-      const sessions = await storage.getSessions();
-      res.json(sessions);
-    } catch (error) {
-      console.error('Erro ao buscar sessões:', error);
-      res.status(500).json({ message: "Erro ao buscar sessões" });
-    }
-  });
-
-  // Create new session
-  app.post('/api/sessions', async (req, res) => {
-    try {
-      const sessionData = {
-        ...req.body,
-        startTime: new Date(req.body.startTime),
-        endTime: new Date(req.body.endTime)
-      };
-      
-      // Gerar sessões recorrentes se necessário
-      if (!sessionData.isOneTime && sessionData.weeklyFrequency && sessionData.weekDays) {
-        const recurrenceGroupId = sessionData.recurrenceGroupId || crypto.randomUUID();
-        const sessions = [];
-        
-        // Gerar sessões para as próximas 4 semanas
-        for (let week = 0; week < 4; week++) {
-          for (const dayName of sessionData.weekDays) {
-            const dayIndex = ['Domingo', 'Segunda', 'Terça', 'Quarta', 'Quinta', 'Sexta', 'Sábado'].indexOf(dayName);
-            const sessionDate = new Date(sessionData.startTime);
-            sessionDate.setDate(sessionDate.getDate() + (week * 7) + (dayIndex - sessionDate.getDay()));
-            
-            const endDate = new Date(sessionData.endTime);
-            endDate.setDate(endDate.getDate() + (week * 7) + (dayIndex - endDate.getDay()));
-            
-            const session = await storage.createSession({
-              ...sessionData,
-              startTime: sessionDate,
-              endTime: endDate,
-              recurrenceGroupId,
-              parentSessionId: week === 0 ? null : sessions[0]?.id || null
-            });
-            
-            sessions.push(session);
-          }
-        }
-        
-        res.status(201).json({ sessions, message: `${sessions.length} sessões criadas com sucesso` });
-      } else {
-        // Sessão avulsa
-        const session = await storage.createSession(sessionData);
-        res.status(201).json(session);
-      }
-    } catch (error) {
-      console.error('Erro ao criar sessão:', error);
-      res.status(500).json({ message: "Erro ao criar sessão" });
-    }
-  });
-
-  // Update session
-  app.patch('/api/sessions/:id', async (req, res) => {
-    try {
-      const sessionId = parseInt(req.params.id);
-      const updates = req.body;
-      
-      const updatedSession = await storage.updateSession(sessionId, updates);
-      
-      if (!updatedSession) {
-        return res.status(404).json({ message: "Sessão não encontrada" });
-      }
-      
-      res.json(updatedSession);
-    } catch (error) {
-      console.error('Erro ao atualizar sessão:', error);
-      res.status(500).json({ message: "Erro ao atualizar sessão" });
-    }
-  });
-
-  // Delete session
-  app.delete('/api/sessions/:id', async (req, res) => {
-    try {
-      const sessionId = parseInt(req.params.id);
-      const deleted = await storage.deleteSession(sessionId);
-      
-      if (!deleted) {
-        return res.status(404).json({ message: "Sessão não encontrada" });
-      }
-      
-      res.status(204).send();
-    } catch (error) {
-      console.error('Erro ao deletar sessão:', error);
-      res.status(500).json({ message: "Erro ao deletar sessão" });
-    }
-  });
-
   // Simple appointments API for new scheduling system
   app.post('/api/appointments', async (req, res) => {
     try {
@@ -711,6 +260,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         startTime: new Date(appointmentData.startTime),
         endTime: new Date(appointmentData.endTime),
         location: appointmentData.location || '',
+        locationId: appointmentData.locationId || null,
         value: appointmentData.value || 0,
         service: appointmentData.service || '',
         notes: appointmentData.notes || '',
@@ -718,7 +268,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
         isModified: false,
       };
 
+      const closedPeriod = await findClosedPeriod(aulaData.startTime);
+      if (closedPeriod) {
+        return res.status(423).json({ message: `O período ${closedPeriod} está fechado para alterações` });
+      }
+
+      // Outra aula no horário, professor indisponível (expediente, feriado, ausência) ou sem tempo de deslocamento
+      const conflict = await storage.checkSchedulingConflicts(
+        aulaData.professorId,
+        aulaData.studentId,
+        aulaData.startTime,
+        aulaData.endTime,
+        undefined,
+        { locationId: aulaData.locationId, location: aulaData.location }
+      );
+      if (conflict) {
+        return res.status(409).json({ message: conflict.message || "Conflito de horário detectado", conflict });
+      }
+
       const [newAula] = await db.insert(aulas).values(aulaData).returning();
+      syncAulaWithGoogle(newAula);
       
       res.status(201).json(newAula);
     } catch (error) {
@@ -776,86 +345,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Helper function to generate classes from recurrence
-  async function generateClassesFromRecurrence(agendamento: any) {
-    const { regras, startDate, endDate, maxOccurrences } = agendamento;
-    const classes = [];
-    
-    let currentDate = new Date(startDate);
-    const endDateTime = endDate ? new Date(endDate) : null;
-    let count = 0;
-    
-    while (true) {
-      // Check if we should stop
-      if (maxOccurrences && count >= maxOccurrences) break;
-      if (endDateTime && currentDate > endDateTime) break;
-      if (count > 100) break; // Safety limit
-      
-      // Calculate end time for this class (assuming 1 hour duration by default)
-      const classEndTime = new Date(currentDate);
-      classEndTime.setHours(classEndTime.getHours() + 1);
-      
-      // Create the class
-      classes.push({
-        agendamentoRecorrenteId: agendamento.id,
-        professorId: agendamento.professorId,
-        studentId: agendamento.studentId,
-        startTime: new Date(currentDate),
-        endTime: classEndTime,
-        location: agendamento.location,
-        value: agendamento.value,
-        service: agendamento.service,
-        notes: agendamento.notes,
-        status: 'agendado',
-        isModified: false
-      });
-      
-      count++;
-      
-      // Calculate next occurrence based on recurrence rules
-      switch (regras.type) {
-        case 'daily':
-          currentDate.setDate(currentDate.getDate() + regras.interval);
-          break;
-        case 'weekly':
-          currentDate.setDate(currentDate.getDate() + (7 * regras.interval));
-          break;
-        case 'monthly':
-          currentDate.setMonth(currentDate.getMonth() + regras.interval);
-          break;
-        case 'yearly':
-          currentDate.setFullYear(currentDate.getFullYear() + regras.interval);
-          break;
-        default:
-          // For weekly with specific days, we need more complex logic
-          if (regras.type === 'weekly' && regras.weekDays) {
-            // Find next occurrence based on weekDays
-            let found = false;
-            for (let i = 1; i <= 7; i++) {
-              const testDate = new Date(currentDate);
-              testDate.setDate(testDate.getDate() + i);
-              const dayName = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'][testDate.getDay()];
-              if (regras.weekDays.includes(dayName)) {
-                currentDate = testDate;
-                found = true;
-                break;
-              }
-            }
-            if (!found) break;
-          } else {
-            break;
-          }
-      }
-    }
-    
-    // Insert all classes in batch
-    if (classes.length > 0) {
-      await db.insert(aulas).values(classes);
-    }
-    
-    return classes;
-  }
-
   // Professor routes
   app.get('/api/users/professors', async (req, res) => {
     try {
@@ -967,18 +456,95 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch('/api/new-scheduling/classes/:id', async (req, res) => {
+  app.patch('/api/new-scheduling/classes/:id', isAuthenticated, async (req, res) => {
     try {
       const aulaId = parseInt(req.params.id);
-      const updateData = req.body;
+      if (isNaN(aulaId)) {
+        return res.status(400).json({ message: "ID inválido" });
+      }
+
+      const validation = schema.aulaUpdateSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: fromZodError(validation.error).message });
+      }
+      const { scope, ...changes } = validation.data;
+      const updateData: Partial<schema.InsertAula> = { ...changes };
+
+      const existingAula = await storage.getAulaById(aulaId);
+      if (!existingAula) {
+        return res.status(404).json({ message: "Aula não encontrada" });
+      }
+
+      // "Esta e as seguintes" / "todas": altera a regra da série e gera as aulas novamente
+      if (scope !== 'this') {
+        const result = await editRecurringSeries(existingAula, scope, {
+          startTime: changes.startTime,
+          endTime: changes.endTime,
+          professorId: changes.professorId,
+          location: changes.location,
+          locationId: changes.locationId,
+          value: changes.value,
+          service: changes.service,
+          notes: changes.notes,
+        }, req.user?.id);
+
+        if ('error' in result) {
+          return res.status(result.status).json({ message: result.error });
+        }
+        return res.json(result);
+      }
+
+      // Aulas de meses com fechamento financeiro não podem ser alteradas
+      const closedPeriod = await findClosedPeriod(existingAula.startTime, updateData.startTime);
+      if (closedPeriod) {
+        return res.status(423).json({ message: `O período ${closedPeriod} está fechado para alterações` });
+      }
+
+      // Aula alterada individualmente: a série não a substitui nas próximas edições
+      const newStart = changes.startTime ?? existingAula.startTime;
+      const newEnd = changes.endTime ?? existingAula.endTime;
+      const timeChanged = newStart.getTime() !== existingAula.startTime.getTime() || newEnd.getTime() !== existingAula.endTime.getTime();
+      if (timeChanged) {
+        updateData.isModified = true;
+        if (!existingAula.originalStartTime) {
+          updateData.originalStartTime = existingAula.startTime;
+          updateData.originalEndTime = existingAula.endTime;
+        }
+      }
+
+      // Local digitado sem escolher um cadastrado desfaz o vínculo anterior
+      if (updateData.location !== undefined && updateData.locationId === undefined && updateData.location !== existingAula.location) {
+        updateData.locationId = null;
+      }
+
+      // Novo horário, professor ou local precisam estar livres, dentro da disponibilidade e com tempo de deslocamento
+      const newProfessorId = updateData.professorId ?? existingAula.professorId;
+      const newLocation = updateData.location ?? existingAula.location;
+      const newLocationId = updateData.locationId !== undefined ? updateData.locationId : existingAula.locationId;
+      const locationChanged = newLocation !== existingAula.location || newLocationId !== existingAula.locationId;
+      if ((timeChanged || locationChanged || newProfessorId !== existingAula.professorId) && (updateData.status ?? existingAula.status) !== 'cancelado') {
+        const conflict = await storage.checkSchedulingConflicts(
+          newProfessorId,
+          updateData.studentId ?? existingAula.studentId,
+          newStart,
+          newEnd,
+          aulaId,
+          { locationId: newLocationId, location: newLocation }
+        );
+        if (conflict) {
+          return res.status(409).json({ message: conflict.message || "Conflito de horário detectado", conflict });
+        }
+      }
       
-      const [aula] = await db.update(schema.aulas)
-        .set({
-          ...updateData,
-          updatedAt: new Date()
-        })
-        .where(eq(schema.aulas.id, aulaId))
-        .returning();
+      // Atualiza via storage para registrar o histórico de alterações
+      const aula = await storage.updateAula(aulaId, updateData, req.user?.id);
+      
+      if (!aula) {
+        return res.status(404).json({ message: "Aula não encontrada" });
+      }
+      syncAulaWithGoogle(aula);
+      // Horário liberado por cancelamento é oferecido à lista de espera
+      offerSlotIfCancelled(existingAula, aula);
       
       res.json(aula);
     } catch (error) {
@@ -987,6 +553,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Histórico de alterações da aula
+  app.get('/api/new-scheduling/classes/:id/history', isAuthenticated, getAulaHistory);
+
+  // Presença (chegada/saída do professor), falta do aluno e cancelamento com motivo
+  app.post('/api/new-scheduling/classes/:id/check-in', isAuthenticated, checkInAula);
+  app.post('/api/new-scheduling/classes/:id/check-out', isAuthenticated, checkOutAula);
+  app.post('/api/new-scheduling/classes/:id/no-show', isAuthenticated, markAulaNoShow);
+  app.post('/api/new-scheduling/classes/:id/cancel', isAuthenticated, cancelAula);
+
+  // Regras da série no formato RRULE (RFC 5545)
+  app.get('/api/new-scheduling/recurrent/:id/rrule', isAuthenticated, exportRecurrenceRule);
+
   app.post('/api/new-scheduling/recurrent', async (req, res) => {
     try {
       const {
@@ -1003,6 +581,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         active = true
       } = req.body;
 
+      let normalizedRules;
+      try {
+        normalizedRules = normalizeRecurrenceRules(regras);
+      } catch (error) {
+        return res.status(400).json({ message: error instanceof Error ? error.message : "Regra de recorrência inválida" });
+      }
+
       // Create the recurrent schedule
       const [agendamento] = await db.insert(schema.agendamentosRecorrentes)
         .values({
@@ -1012,7 +597,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           value,
           service,
           notes,
-          regras,
+          regras: normalizedRules,
           startDate: new Date(startDate),
           endDate: endDate ? new Date(endDate) : null,
           maxOccurrences,
@@ -1020,8 +605,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         })
         .returning();
 
-      // Generate individual classes based on recurrence rules
-      await generateClassesFromRecurrence(agendamento);
+      // Gera as aulas até o horizonte; o job de recorrência estende a série depois
+      await extendRecurringSeries(agendamento);
 
       res.json(agendamento);
     } catch (error) {
@@ -1039,38 +624,47 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: 'Missing required fields' });
       }
 
-      // Convert day of week and times to check for conflicts
-      const start = new Date(`2024-01-01T${startTime}:00`);
-      const end = new Date(`2024-01-01T${endTime}:00`);
-      
-      // Query for conflicting appointments in the date range
-      const conflicts = await db.select()
-        .from(aulas)
-        .where(
-          and(
-            eq(aulas.professorId, professorId),
-            gte(aulas.startTime, new Date(startDate)),
-            lte(aulas.startTime, new Date(endDate)),
-            eq(sql`EXTRACT(dow FROM ${aulas.startTime})`, dayOfWeek),
-            or(
-              and(
-                lte(sql`EXTRACT(hour FROM ${aulas.startTime}) * 60 + EXTRACT(minute FROM ${aulas.startTime})`,
-                    start.getHours() * 60 + start.getMinutes()),
-                gte(sql`EXTRACT(hour FROM ${aulas.endTime}) * 60 + EXTRACT(minute FROM ${aulas.endTime})`,
-                    start.getHours() * 60 + start.getMinutes())
-              ),
-              and(
-                lte(sql`EXTRACT(hour FROM ${aulas.startTime}) * 60 + EXTRACT(minute FROM ${aulas.startTime})`,
-                    end.getHours() * 60 + end.getMinutes()),
-                gte(sql`EXTRACT(hour FROM ${aulas.endTime}) * 60 + EXTRACT(minute FROM ${aulas.endTime})`,
-                    end.getHours() * 60 + end.getMinutes())
-              )
+      // Datas do período no calendário da academia; "2025-03-10" é um dia, não meia-noite UTC
+      const dayOf = (value: string) => /^\d{4}-\d{2}-\d{2}/.test(value) ? value.slice(0, 10) : toLocalDay(new Date(value));
+      const firstDay = dayOf(startDate);
+      const lastDay = dayOf(endDate);
+      const availability = await storage.getProfessorAvailabilityData(
+        professorId,
+        fromZonedTime(`${firstDay}T00:00:00`, AVAILABILITY_TIMEZONE),
+        fromZonedTime(`${lastDay}T23:59:59`, AVAILABILITY_TIMEZONE)
+      );
+
+      let conflicts = 0;
+      const unavailableDates: { date: string; reason: string; message: string }[] = [];
+      for (let day = firstDay; day <= lastDay; day = format(addDays(parseISO(day), 1), 'yyyy-MM-dd')) {
+        if (parseISO(day).getDay() !== Number(dayOfWeek)) {
+          continue;
+        }
+
+        // Cada data é convertida no fuso da academia, respeitando mudanças de horário
+        const slotStart = fromZonedTime(`${day}T${startTime}:00`, AVAILABILITY_TIMEZONE);
+        const slotEnd = fromZonedTime(`${day}T${endTime}:00`, AVAILABILITY_TIMEZONE);
+
+        const overlapping = await db.select({ id: aulas.id })
+          .from(aulas)
+          .where(
+            and(
+              eq(aulas.professorId, professorId),
+              lt(aulas.startTime, slotEnd),
+              gt(aulas.endTime, slotStart),
+              ne(aulas.status, 'cancelado')
             )
-          )
-        );
+          );
+        conflicts += overlapping.length;
+
+        const issue = checkAvailability(availability, slotStart, slotEnd);
+        if (issue) {
+          unavailableDates.push({ date: day, ...issue });
+        }
+      }
 
-      const available = conflicts.length === 0;
-      res.json({ available, conflicts: conflicts.length });
+      const available = conflicts === 0 && unavailableDates.length === 0;
+      res.json({ available, conflicts, unavailableDates });
 
     } catch (error) {
       console.error('Error checking professor availability:', error);
@@ -1096,7 +690,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Create recurring appointments
   app.post('/api/appointments/recurring', async (req, res) => {
     try {
-      const { studentName, service, location, value, notes, startDate, endDate, weeklySchedule } = req.body;
+      const { studentName, service, location, locationId, value, notes, startDate, endDate, weeklySchedule } = req.body;
 
       if (!studentName || !service || !startDate || !endDate || !weeklySchedule?.length) {
         return res.status(400).json({ error: 'Missing required fields' });
@@ -1130,12 +724,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
           studentId,
           service,
           location: location || '',
+          locationId: locationId || null,
           value: value || 0,
           notes: notes || '',
           startDate: new Date(startDate),
           endDate: new Date(endDate),
           regras: { type: 'weekly', interval: 1 }, // Correct field name
-          active: true // Correct field name
+          active: true, // Correct field name
+          // Todas as aulas do período são geradas abaixo, a série não é estendida pelo job
+          generatedUntil: new Date(endDate),
+          exhaustedAt: new Date()
         })
         .returning();
 
@@ -1145,6 +743,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const appointments = [];
       const start = new Date(startDate);
       const end = new Date(endDate);
+      // Horários com conflito (outra aula, indisponibilidade ou deslocamento) ficam de fora e são informados na resposta
+      const unavailable: { professorId: number; startTime: Date; message: string }[] = [];
 
       for (let currentDate = new Date(start); currentDate <= end; currentDate.setDate(currentDate.getDate() + 1)) {
         const dayOfWeek = currentDate.getDay();
@@ -1165,6 +765,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
               startTime.setHours(startHour, startMin, 0, 0);
               endTime.setHours(endHour, endMin, 0, 0);
 
+              const conflict = await storage.checkSchedulingConflicts(
+                profSchedule.professorId,
+                studentId,
+                startTime,
+                endTime,
+                undefined,
+                { locationId: locationId || null, location: location || '' }
+              );
+              if (conflict) {
+                unavailable.push({
+                  professorId: profSchedule.professorId,
+                  startTime,
+                  message: conflict.message || "Conflito com outra aula no mesmo horário",
+                });
+                continue;
+              }
+
               appointments.push({
                 agendamentoRecorrenteId: recurringId,
                 professorId: profSchedule.professorId,
@@ -1172,6 +789,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 startTime,
                 endTime,
                 location: location || '',
+                locationId: locationId || null,
                 value: value || 0,
                 service,
                 notes: notes || '',
@@ -1185,14 +803,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Insert all appointments
       if (appointments.length > 0) {
-        await db.insert(aulas).values(appointments);
+        const created = await db.insert(aulas).values(appointments).returning();
+        syncAulasWithGoogle(created);
       }
 
       res.json({
         success: true,
         recurringAppointmentId: recurringId,
         appointmentsCreated: appointments.length,
-        message: `${appointments.length} agendamentos criados com sucesso`
+        unavailable,
+        message: unavailable.length > 0
+          ? `${appointments.length} agendamentos criados com sucesso; ${unavailable.length} não criados por conflito de horário`
+          : `${appointments.length} agendamentos criados com sucesso`
       });
 
     } catch (error) {
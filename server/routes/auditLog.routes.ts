@@ -1,10 +1,11 @@
 import { Router } from 'express';
 import { isAdmin } from '../middlewares/auth.middleware';
-import { getAuditLogs } from '../controllers/auditLog.controller';
+import { getAuditLogs, purgeOldAuditLogs } from '../controllers/auditLog.controller';
 
 const router = Router();
 
 // Somente administradores podem acessar os logs de auditoria
 router.get('/', isAdmin, getAuditLogs);
+router.post('/purge', isAdmin, purgeOldAuditLogs);
 
-export default router; 
\ No newline at end of file
+export default router; 
@@ -0,0 +1,32 @@
+import { Router } from 'express';
+import { isAuthenticated, isAdmin } from '../middlewares/auth.middleware';
+import {
+  getProfessorAvailability,
+  saveWorkingHours,
+  createTimeOff,
+  deleteTimeOff,
+  getHolidays,
+  createHoliday,
+  deleteHoliday,
+  findSlots,
+} from '../controllers/availability.controller';
+
+const router = Router();
+
+router.use(isAuthenticated);
+
+// Expediente e ausências: o próprio professor ou um administrador
+router.get('/professors/:professorId', getProfessorAvailability);
+router.put('/professors/:professorId/working-hours', saveWorkingHours);
+router.post('/professors/:professorId/time-off', createTimeOff);
+router.delete('/time-off/:id', deleteTimeOff);
+
+// Feriados valem para todos e só administradores alteram
+router.get('/holidays', getHolidays);
+router.post('/holidays', isAdmin, createHoliday);
+router.delete('/holidays/:id', isAdmin, deleteHoliday);
+
+// Sugestão de horários livres para agendar um aluno
+router.post('/slots', findSlots);
+
+export default router;
@@ -0,0 +1,33 @@
+import { Router } from 'express';
+import { isAuthenticated, isAdmin } from '../middlewares/auth.middleware';
+import {
+  getPackages,
+  createPackage,
+  updatePackage,
+  getStudentBilling,
+  createPurchase,
+  cancelPurchase,
+  createPayment,
+  updatePayment,
+  getAlerts,
+} from '../controllers/billing.controller';
+
+const router = Router();
+
+router.use(isAuthenticated);
+
+// Catálogo de pacotes (alterações somente por administradores)
+router.get('/packages', getPackages);
+router.post('/packages', isAdmin, createPackage);
+router.patch('/packages/:id', isAdmin, updatePackage);
+
+// Saldo, compras e pagamentos de cada aluno
+router.get('/students/:leadId', getStudentBilling);
+router.post('/students/:leadId/purchases', createPurchase);
+router.post('/students/:leadId/payments', createPayment);
+router.post('/purchases/:id/cancel', cancelPurchase);
+router.patch('/payments/:id', updatePayment);
+
+router.get('/alerts', getAlerts);
+
+export default router;
@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import { isAdmin } from '../middlewares/auth.middleware';
+import { getEmailOutbox, retryEmail, processOutbox } from '../controllers/email.controller';
+
+const router = Router();
+
+// Somente administradores podem acompanhar e reenviar e-mails
+router.get('/outbox', isAdmin, getEmailOutbox);
+router.post('/outbox/process', isAdmin, processOutbox);
+router.post('/outbox/:id/retry', isAdmin, retryEmail);
+
+export default router;
@@ -0,0 +1,33 @@
+import { Router } from 'express';
+import { isAdmin } from '../middlewares/auth.middleware';
+import {
+  getRevenue,
+  getPayroll,
+  getCommissions,
+  saveCommission,
+  deleteCommission,
+  getClosings,
+  createClosing,
+  reopenClosing,
+  updatePayoutStatus,
+} from '../controllers/finance.controller';
+
+const router = Router();
+
+// Dados financeiros são restritos aos administradores
+router.use(isAdmin);
+
+router.get('/revenue', getRevenue);
+router.get('/payroll', getPayroll);
+
+router.get('/commissions', getCommissions);
+router.put('/commissions', saveCommission);
+router.delete('/commissions/:id', deleteCommission);
+
+router.get('/closings', getClosings);
+router.post('/closings', createClosing);
+router.delete('/closings/:period', reopenClosing);
+
+router.patch('/payouts/:id', updatePayoutStatus);
+
+export default router;
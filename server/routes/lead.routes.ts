@@ -1,30 +1,38 @@
 import { Router } from 'express';
 import { isAuthenticated } from '../middlewares/auth.middleware'; // Assuming all lead routes require authentication
 import {
-  importLeadsBatch,
   updateLeadsBatch,
   deleteLeadsBatch,
   getAllLeads,
+  searchLeads,
+  getDuplicateLeads,
+  mergeLeads,
   getLeadById,
   createLead,
   updateLead,
   deleteLead
 } from '../controllers/lead.controller';
+import { getLeadHistory } from '../controllers/history.controller';
+import { getLeadAttendance } from '../controllers/attendance.controller';
 
 const router = Router();
 
 // Apply authentication middleware to all lead routes
 router.use(isAuthenticated);
 
-// Batch operations
-router.post('/batch/import', importLeadsBatch);
+// Batch operations (a importação por planilha fica em /api/lead-imports)
 router.post('/batch/update', updateLeadsBatch);
 router.post('/batch/delete', deleteLeadsBatch);
 
 // Standard CRUD operations
 router.get('/', getAllLeads);
+router.get('/search', searchLeads);
+router.get('/duplicates', getDuplicateLeads);
+router.post('/merge', mergeLeads);
 router.post('/', createLead);
 router.get('/:id', getLeadById);
+router.get('/:id/history', getLeadHistory);
+router.get('/:id/attendance', getLeadAttendance);
 router.patch('/:id', updateLead);
 router.delete('/:id', deleteLead);
 
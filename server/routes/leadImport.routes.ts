@@ -0,0 +1,30 @@
+import { Router } from 'express';
+import { isAuthenticated } from '../middlewares/auth.middleware';
+import {
+  uploadLeadImport,
+  getLeadImports,
+  getLeadImport,
+  updateLeadImportMapping,
+  dryRunLeadImport,
+  startLeadImportJob,
+  cancelLeadImportJob,
+  downloadLeadImportErrors,
+} from '../controllers/leadImport.controller';
+
+const router = Router();
+
+router.use(isAuthenticated);
+
+// Envio da planilha (corpo binário) e acompanhamento das importações
+router.post('/', uploadLeadImport);
+router.get('/', getLeadImports);
+router.get('/:id', getLeadImport);
+
+// Mapeamento das colunas, simulação e execução em segundo plano
+router.put('/:id/mapping', updateLeadImportMapping);
+router.post('/:id/dry-run', dryRunLeadImport);
+router.post('/:id/start', startLeadImportJob);
+router.post('/:id/cancel', cancelLeadImportJob);
+router.get('/:id/errors.csv', downloadLeadImportErrors);
+
+export default router;
@@ -0,0 +1,32 @@
+import { Router } from 'express';
+import { isAuthenticated } from '../middlewares/auth.middleware';
+import { getAulaHistory } from '../controllers/history.controller';
+import {
+  getLegacySessions,
+  getLegacySessionByLegacyId,
+  createLegacySession,
+  updateLegacySession,
+  deleteLegacySession,
+  checkLegacySessionConflicts,
+} from '../controllers/legacySessions.controller';
+
+const router = Router();
+
+router.use(isAuthenticated);
+
+// API antiga mantida durante a transição: os dados vêm de /api/new-scheduling (aulas)
+router.use((req, res, next) => {
+  res.setHeader('Deprecation', 'true');
+  res.setHeader('Link', '</api/new-scheduling/classes>; rel="successor-version"');
+  next();
+});
+
+router.get('/', getLegacySessions);
+router.post('/', createLegacySession);
+router.post('/check-conflicts', checkLegacySessionConflicts);
+router.get('/legacy/:legacyId', getLegacySessionByLegacyId);
+router.patch('/:id', updateLegacySession);
+router.delete('/:id', deleteLegacySession);
+router.get('/:id/history', getAulaHistory);
+
+export default router;
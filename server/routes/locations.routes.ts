@@ -0,0 +1,28 @@
+import { Router } from 'express';
+import { isAuthenticated, isAdmin } from '../middlewares/auth.middleware';
+import {
+  getLocations,
+  createLocation,
+  updateLocation,
+  deactivateLocation,
+  getTravelRules,
+  saveTravelRules,
+  getTravelEstimate,
+} from '../controllers/locations.controller';
+
+const router = Router();
+
+router.use(isAuthenticated);
+
+// Tempo de deslocamento entre regiões: só administradores alteram
+router.get('/travel-rules', getTravelRules);
+router.put('/travel-rules', isAdmin, saveTravelRules);
+router.get('/travel-estimate', getTravelEstimate);
+
+// Locais de aula (professores cadastram a casa dos alunos)
+router.get('/', getLocations);
+router.post('/', createLocation);
+router.put('/:id', updateLocation);
+router.delete('/:id', deactivateLocation);
+
+export default router;
@@ -5,7 +5,10 @@ import {
   getGoogleAuthUrl,
   handleGoogleCallback,
   getTokenStatus,
-  revokeGoogleAccess
+  revokeGoogleAccess,
+  syncGoogleCalendar,
+  getFakeEvents,
+  simulateFakeEventEdit
 } from '../controllers/oauth.controller';
 
 const router = Router();
@@ -25,4 +28,11 @@ router.get('/google/status', getTokenStatus);
 // Revogar acesso
 router.delete('/google/revoke', revokeGoogleAccess);
 
+// Ler agora as alterações feitas no Google Calendar
+router.post('/google/sync', syncGoogleCalendar);
+
+// Calendário simulado (modo de teste, sem credenciais do Google)
+router.get('/google/fake/events', getFakeEvents);
+router.patch('/google/fake/events/:eventId', simulateFakeEventEdit);
+
 export default router;
@@ -0,0 +1,34 @@
+import { Router } from 'express';
+import { isAuthenticated, isAdmin } from '../middlewares/auth.middleware';
+import {
+  getStages,
+  createStage,
+  updateStage,
+  reorderStages,
+  getLossReasons,
+  createLossReason,
+  updateLossReason,
+  getBoard,
+  moveLeadStage,
+  getLeadStageHistory,
+} from '../controllers/pipeline.controller';
+
+const router = Router();
+
+router.use(isAuthenticated);
+
+// Etapas do funil e motivos de perda (alterações somente por administradores)
+router.get('/stages', getStages);
+router.post('/stages', isAdmin, createStage);
+router.put('/stages/order', isAdmin, reorderStages);
+router.patch('/stages/:id', isAdmin, updateStage);
+router.get('/loss-reasons', getLossReasons);
+router.post('/loss-reasons', isAdmin, createLossReason);
+router.patch('/loss-reasons/:id', isAdmin, updateLossReason);
+
+// Quadro e movimentação dos leads entre as etapas
+router.get('/board', getBoard);
+router.post('/leads/:id/move', moveLeadStage);
+router.get('/leads/:id/history', getLeadStageHistory);
+
+export default router;
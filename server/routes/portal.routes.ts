@@ -0,0 +1,49 @@
+import { Router } from 'express';
+import rateLimit from 'express-rate-limit';
+import { isPortalStudent } from '../middlewares/auth.middleware';
+import {
+  requestAccess,
+  verifyAccess,
+  logoutPortal,
+  getPortalProfile,
+  getPortalClasses,
+  getRescheduleOptions,
+  rescheduleClass,
+  cancelClass,
+  getPortalCredits,
+  getPortalPayments,
+  downloadReceipt,
+} from '../controllers/portal.controller';
+
+const router = Router();
+
+// Limite por IP nas rotas públicas de acesso, contra força bruta do código de 6 dígitos e abuso do envio
+const accessLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  limit: 20,
+  standardHeaders: 'draft-7',
+  legacyHeaders: false,
+  message: { message: 'Muitas tentativas de acesso. Aguarde alguns minutos e tente novamente' },
+});
+
+// Acesso do aluno por link mágico ou código (sem login da equipe)
+router.post('/access/request', accessLimiter, requestAccess);
+router.post('/access/verify', accessLimiter, verifyAccess);
+router.post('/logout', logoutPortal);
+
+router.use(isPortalStudent);
+
+router.get('/me', getPortalProfile);
+
+// Próximas aulas; remarcação dentro da política e cancelamento avisam a equipe
+router.get('/classes', getPortalClasses);
+router.get('/classes/:id/reschedule-options', getRescheduleOptions);
+router.post('/classes/:id/reschedule', rescheduleClass);
+router.post('/classes/:id/cancel', cancelClass);
+
+// Créditos dos pacotes, pagamentos e recibos
+router.get('/credits', getPortalCredits);
+router.get('/payments', getPortalPayments);
+router.get('/payments/:id/receipt', downloadReceipt);
+
+export default router;
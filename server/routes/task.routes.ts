@@ -11,6 +11,7 @@ import {
   addTaskComment,
   deleteTaskComment
 } from '../controllers/task.controller';
+import { getTaskHistory } from '../controllers/history.controller';
 
 const router = Router();
 
@@ -25,6 +26,7 @@ router.get('/status/:status', getTasksByStatus);
 router.get('/', getAllTasks);
 router.post('/', createTask);
 router.get('/:id', getTaskById);
+router.get('/:id/history', getTaskHistory);
 router.patch('/:id', updateTask);
 router.delete('/:id', isAdmin, deleteTask); // Only admins can delete tasks
 
@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import { isAuthenticated, isAdmin } from '../middlewares/auth.middleware';
+import {
+  getWaitlist,
+  createWaitlistEntry,
+  removeWaitlistEntry,
+  getWaitlistOffers,
+  confirmOffer,
+  declineOffer,
+} from '../controllers/waitlist.controller';
+
+const router = Router();
+
+router.use(isAuthenticated);
+
+// Alunos aguardando horário com um professor, dia da semana ou faixa de horário
+router.get('/', getWaitlist);
+router.post('/', createWaitlistEntry);
+router.delete('/:id', removeWaitlistEntry);
+
+// Horários liberados oferecidos por WhatsApp; o administrador pode responder pelo aluno
+router.get('/offers', getWaitlistOffers);
+router.post('/offers/:id/confirm', isAdmin, confirmOffer);
+router.post('/offers/:id/decline', isAdmin, declineOffer);
+
+export default router;
@@ -21,7 +21,16 @@ import {
   sendVideoMessage,
   getWhatsappGroups,
   createWhatsappGroup,
-  getWhatsappContacts
+  getWhatsappContacts,
+  getInboundConfig,
+  saveInboundConfig,
+  getInbox,
+  linkInboxConversation,
+  dismissInboxConversation,
+  getMediaFile,
+  simulateMockInbound,
+  getMockOutboxMessages,
+  clearMockOutboxMessages
 } from '../controllers/whatsapp.controller';
 
 const router = Router();
@@ -33,6 +42,8 @@ router.get('/webhook', verifyWebhook); // For Meta webhook verification
 // Configuration routes (Admin only)
 router.get('/config', isAuthenticated, isAdmin, getWhatsappConfig);
 router.post('/config', isAuthenticated, isAdmin, saveWhatsappConfig);
+router.get('/config/inbound', isAuthenticated, isAdmin, getInboundConfig);
+router.post('/config/inbound', isAuthenticated, isAdmin, saveInboundConfig);
 
 // General WhatsApp status and QR code (Authenticated users)
 router.get('/status', isAuthenticated, getWhatsappStatus);
@@ -55,6 +66,19 @@ router.post('/groups', isAuthenticated, createWhatsappGroup);
 // Rota para obter contatos
 router.get('/contacts', isAuthenticated, getWhatsappContacts);
 
+// Fila de mensagens de números não cadastrados
+router.get('/inbox', isAuthenticated, getInbox);
+router.post('/inbox/:phone/link', isAuthenticated, linkInboxConversation);
+router.post('/inbox/:phone/dismiss', isAuthenticated, dismissInboxConversation);
+
+// Mídias recebidas (arquivos armazenados localmente)
+router.get('/media/:id', isAuthenticated, getMediaFile);
+
+// Provedor simulado (testes locais sem celular)
+router.post('/mock/inbound', isAuthenticated, simulateMockInbound);
+router.get('/mock/outbox', isAuthenticated, getMockOutboxMessages);
+router.delete('/mock/outbox', isAuthenticated, clearMockOutboxMessages);
+
 router.get('/recent-messages', isAuthenticated, getRecentMessagesPerLead);
 router.get('/lead/:leadId', isAuthenticated, getLeadMessages);
 // Note: a previous route was /api/whatsapp/lead/:id - this consolidates to /lead/:leadId
@@ -0,0 +1,30 @@
+// Migra o agendamento legado (sessions/trainers) para aulas, séries e professores.
+// Uso: npm run db:migrate-legacy [-- --dry-run]
+// Execute antes o db:push para criar a tabela legacy_id_mappings. Pode ser repetido: só migra o que falta.
+import 'dotenv/config';
+import { migrateLegacyScheduling } from '../legacy-scheduling';
+import { log } from '../vite';
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run');
+  log(dryRun ? 'Simulando a migração (nada será gravado)...' : 'Migrando o agendamento legado...', 'legacy-migration');
+
+  const report = await migrateLegacyScheduling({ dryRun });
+
+  log(`Professores: ${report.trainers.matched} associados pelo e-mail, ${report.trainers.created} criados, ${report.trainers.alreadyMigrated} já migrados`, 'legacy-migration');
+  log(`Séries: ${report.recurrenceGroups.migrated} migradas, ${report.recurrenceGroups.alreadyMigrated} já migradas`, 'legacy-migration');
+  log(`Sessões: ${report.sessions.migrated} migradas, ${report.sessions.alreadyMigrated} já migradas`, 'legacy-migration');
+  log(`Histórico: ${report.historyEntries} alteração(ões) copiada(s); lembretes: ${report.reminders} copiado(s)`, 'legacy-migration');
+  report.warnings.forEach(warning => console.warn(`⚠️  ${warning}`));
+
+  if (report.trainers.created > 0 && !dryRun) {
+    log('Professores criados receberam uma senha aleatória: defina a senha de cada um na tela de professores.', 'legacy-migration');
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('❌ Erro na migração do agendamento legado:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,22 @@
+// Cria as etapas padrão do funil de vendas e coloca nele os leads já cadastrados.
+// Uso: npm run db:setup-pipeline
+// Execute antes o db:push para criar as tabelas do pipeline. Pode ser repetido: só processa o que falta.
+import 'dotenv/config';
+import { setupDefaultPipeline } from '../pipeline-service';
+import { log } from '../vite';
+
+async function main() {
+  log('Configurando o funil de vendas...', 'pipeline');
+
+  const report = await setupDefaultPipeline();
+
+  log(`Etapas criadas: ${report.stagesCreated}; motivos de perda criados: ${report.lossReasonsCreated}`, 'pipeline');
+  log(`Leads colocados no funil: ${report.leadsAssigned}`, 'pipeline');
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('❌ Erro ao configurar o funil de vendas:', error);
+    process.exit(1);
+  });
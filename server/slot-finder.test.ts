@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_TRAVEL_SETTINGS, buildTravelContext } from "@shared/travel";
+
+const storageMock = vi.hoisted(() => ({
+  getTravelContext: vi.fn(),
+  getAulas: vi.fn(),
+  getAllProfessors: vi.fn(),
+  getProfessorAvailabilityData: vi.fn(),
+}));
+
+vi.mock("./storage", () => ({ storage: storageMock }));
+
+import { findFreeSlots, type SlotSearchParams } from "./slot-finder";
+
+// Horário de parede de São Paulo (UTC-3)
+const at = (local: string) => new Date(`${local}:00.000-03:00`);
+
+const professors = [
+  { id: 1, name: "Carla", username: "carla", active: true, specialty: "Pilates", specialties: [] },
+  { id: 2, name: "Bruno", username: "bruno", active: true, specialty: null, specialties: ["Musculação"] },
+  { id: 3, name: "Inativo", username: "inativo", active: false, specialty: "Pilates", specialties: [] },
+];
+
+// Carla tem aula das 10:00 às 11:00 na mesma academia; Bruno já deu aula para o aluno
+const professorAulas: Record<number, object[]> = {
+  1: [{ id: 50, professorId: 1, studentId: 9, startTime: at("2025-03-10T10:00"), endTime: at("2025-03-10T11:00"), location: "Academia", locationId: null, status: "agendado" }],
+  2: [],
+};
+const studentAulas = [
+  { id: 40, professorId: 2, studentId: 7, startTime: at("2025-03-03T09:00"), endTime: at("2025-03-03T10:00"), location: "Academia", locationId: null, status: "concluido" },
+];
+
+const params: SlotSearchParams = {
+  studentId: 7,
+  durationMinutes: 60,
+  serviceName: "pilates",
+  fromDate: "2025-03-10",
+  toDate: "2025-03-10",
+  timeWindows: [{ start: "09:00", end: "11:00" }],
+  location: "Academia",
+  limit: 10,
+};
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: new Date("2025-03-05T12:00:00.000Z") });
+  storageMock.getTravelContext.mockResolvedValue(buildTravelContext([], [], DEFAULT_TRAVEL_SETTINGS));
+  storageMock.getAllProfessors.mockResolvedValue(professors);
+  storageMock.getProfessorAvailabilityData.mockResolvedValue({ workingHours: [], timeOff: [], holidays: [] });
+  storageMock.getAulas.mockImplementation(async (filters: { studentId?: number; professorId?: number }) =>
+    filters.studentId ? studentAulas : professorAulas[filters.professorId!] || []
+  );
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("findFreeSlots", () => {
+  it("ordena pela pontuação e limita as sugestões por professor e dia", async () => {
+    const result = await findFreeSlots(params);
+
+    expect(result.professorsSearched).toBe(2);
+    expect(result.slots.map(slot => [slot.professorName, slot.startTime, slot.score])).toEqual([
+      // Especialista, emendada com a aula das 10:00 no mesmo local, uma aula no dia
+      ["Carla", at("2025-03-10T09:00").toISOString(), 57],
+      ["Bruno", at("2025-03-10T09:00").toISOString(), 15],
+      ["Bruno", at("2025-03-10T09:30").toISOString(), 15],
+    ]);
+    expect(result.slots[0].reasons).toEqual(["Especialidade compatível com o serviço", "Emendada com outra aula no mesmo local"]);
+    expect(result.slots[1].reasons).toEqual(["Já deu 1 aula(s) para o aluno", "Sem outras aulas no dia"]);
+  });
+
+  it("libera o horário da aula sendo remarcada e respeita os horários ocupados do aluno", async () => {
+    storageMock.getAulas.mockImplementation(async (filters: { studentId?: number; professorId?: number }) =>
+      filters.studentId
+        ? [...studentAulas, { id: 41, professorId: 2, studentId: 7, startTime: at("2025-03-10T09:00"), endTime: at("2025-03-10T09:30"), status: "agendado" }]
+        : professorAulas[filters.professorId!] || []
+    );
+
+    const result = await findFreeSlots({ ...params, professorIds: [1], excludeAulaId: 50 });
+
+    expect(result.slots.map(slot => slot.startTime)).toEqual([
+      at("2025-03-10T09:30").toISOString(),
+      at("2025-03-10T10:00").toISOString(),
+    ]);
+  });
+});
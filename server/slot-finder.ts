@@ -0,0 +1,263 @@
+import { addDays, addMinutes, format, parseISO } from 'date-fns';
+import { fromZonedTime } from 'date-fns-tz';
+import type { Aula, User } from '@shared/schema';
+import {
+  AVAILABILITY_TIMEZONE,
+  checkAvailability,
+  toLocalDay,
+  type ProfessorAvailabilityData,
+  type SlotSearchResult,
+  type SlotSuggestion,
+} from '@shared/availability';
+import { estimateTravel, normalizeTravelText, resolveTravelPoint, type TravelContext, type TravelPoint } from '@shared/travel';
+import { storage } from './storage';
+
+/**
+ * Busca de horários livres para agendar um aluno.
+ * Percorre os dias e faixas de horário preferidos em passos de SLOT_STEP_MINUTES e, para cada professor ativo,
+ * descarta os horários fora da disponibilidade, que colidem com aulas do professor ou do aluno, ou que não
+ * deixam tempo de deslocamento até o local da aula (estimado por shared/travel.ts). Os horários restantes são ordenados por pontuação:
+ * especialidade compatível com o serviço, aula emendada no mesmo local, professor que já atende o aluno
+ * e agenda menos carregada no dia.
+ */
+
+const SLOT_STEP_MINUTES = 30;
+const MAX_SEARCH_DAYS = 62;
+const DEFAULT_TIME_WINDOW = { start: '06:00', end: '22:00' };
+// Intervalo máximo entre duas aulas para considerá-las emendadas
+const BACK_TO_BACK_MINUTES = 15;
+// Limite de sugestões do mesmo professor no mesmo dia, para variar as opções
+const MAX_SLOTS_PER_PROFESSOR_DAY = 2;
+
+const SCORE_SPECIALTY = 40;
+const SCORE_BACK_TO_BACK = 20;
+const SCORE_KNOWN_PROFESSOR = 15;
+const SCORE_PER_AULA_IN_DAY = -3;
+
+export interface SlotSearchParams {
+  studentId: number;
+  durationMinutes: number;
+  serviceName?: string | null;
+  fromDate: string; // yyyy-MM-dd
+  toDate: string; // yyyy-MM-dd
+  weekDays?: number[];
+  timeWindows?: { start: string; end: string }[];
+  location?: string | null;
+  locationId?: number | null;
+  professorIds?: number[];
+  excludeAulaId?: number;
+  limit: number;
+}
+
+interface ProfessorContext {
+  professor: User;
+  availability: ProfessorAvailabilityData;
+  aulasByDay: Map<string, Aula[]>;
+  specialist: boolean;
+  aulasWithStudent: number;
+}
+
+function isSpecialist(professor: User, serviceName?: string | null): boolean {
+  const service = normalizeTravelText(serviceName);
+  if (!service) {
+    return false;
+  }
+  return [professor.specialty, ...(professor.specialties || [])]
+    .map(normalizeTravelText)
+    .some(specialty => specialty && (specialty.includes(service) || service.includes(specialty)));
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function toTime(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+
+function groupByDay(aulasList: Aula[]): Map<string, Aula[]> {
+  const byDay = new Map<string, Aula[]>();
+  aulasList.forEach(aula => {
+    const day = toLocalDay(new Date(aula.startTime));
+    byDay.set(day, [...(byDay.get(day) || []), aula]);
+  });
+  return byDay;
+}
+
+function listDays(fromDate: string, toDate: string): string[] {
+  const days: string[] = [];
+  let current = parseISO(fromDate);
+  const last = parseISO(toDate);
+  while (current <= last && days.length < MAX_SEARCH_DAYS) {
+    days.push(format(current, 'yyyy-MM-dd'));
+    current = addDays(current, 1);
+  }
+  return days;
+}
+
+/**
+ * Avalia um horário para o professor: null quando não dá para marcar, senão a pontuação e os motivos
+ */
+function evaluateSlot(
+  context: ProfessorContext,
+  day: string,
+  start: Date,
+  end: Date,
+  point: TravelPoint,
+  travel: TravelContext
+): { score: number; reasons: string[] } | null {
+  if (checkAvailability(context.availability, start, end)) {
+    return null;
+  }
+
+  // Aulas do dia e do anterior (aula noturna com deslocamento pode invadir a madrugada)
+  const previousDay = format(addDays(parseISO(day), -1), 'yyyy-MM-dd');
+  const dayAulas = context.aulasByDay.get(day) || [];
+  const nearby = [...(context.aulasByDay.get(previousDay) || []), ...dayAulas];
+
+  let backToBack = false;
+  for (const aula of nearby) {
+    const aulaStart = new Date(aula.startTime).getTime();
+    const aulaEnd = new Date(aula.endTime).getTime();
+    const estimate = estimateTravel(resolveTravelPoint(travel, aula.locationId, aula.location), point, travel.rules, travel.settings);
+    const gap = estimate.minutes * 60000;
+    if (start.getTime() < aulaEnd + gap && end.getTime() + gap > aulaStart) {
+      return null;
+    }
+    const gapBefore = start.getTime() - aulaEnd;
+    const gapAfter = aulaStart - end.getTime();
+    if (estimate.source === 'mesmo_local' && ((gapBefore >= 0 && gapBefore <= BACK_TO_BACK_MINUTES * 60000)
+      || (gapAfter >= 0 && gapAfter <= BACK_TO_BACK_MINUTES * 60000))) {
+      backToBack = true;
+    }
+  }
+
+  let score = SCORE_PER_AULA_IN_DAY * dayAulas.length;
+  const reasons: string[] = [];
+  if (context.specialist) {
+    score += SCORE_SPECIALTY;
+    reasons.push('Especialidade compatível com o serviço');
+  }
+  if (backToBack) {
+    score += SCORE_BACK_TO_BACK;
+    reasons.push('Emendada com outra aula no mesmo local');
+  }
+  if (context.aulasWithStudent > 0) {
+    score += SCORE_KNOWN_PROFESSOR;
+    reasons.push(`Já deu ${context.aulasWithStudent} aula(s) para o aluno`);
+  }
+  if (dayAulas.length === 0) {
+    reasons.push('Sem outras aulas no dia');
+  }
+
+  return { score, reasons };
+}
+
+export async function findFreeSlots(params: SlotSearchParams): Promise<SlotSearchResult> {
+  const now = new Date();
+  const days = listDays(params.fromDate, params.toDate);
+  const timeWindows = params.timeWindows?.length ? params.timeWindows : [DEFAULT_TIME_WINDOW];
+  const travel = await storage.getTravelContext();
+  // Aulas canceladas e a própria aula sendo remarcada não ocupam horário
+  const isActive = (aula: Aula) => aula.status !== 'cancelado' && aula.id !== params.excludeAulaId;
+
+  const rangeStart = addDays(fromZonedTime(`${days[0]}T00:00:00`, AVAILABILITY_TIMEZONE), -1);
+  const rangeEnd = addDays(fromZonedTime(`${days[days.length - 1]}T23:59:59`, AVAILABILITY_TIMEZONE), 1);
+
+  // Histórico do aluno: define o local padrão, quem já o atende e os horários em que ele está ocupado
+  const studentAulas: Aula[] = (await storage.getAulas({ studentId: params.studentId })).filter(isActive);
+  const lastAula = studentAulas.filter(aula => new Date(aula.startTime) <= now).pop();
+  const locationId = params.locationId || (params.location ? null : lastAula?.locationId) || null;
+  const location = params.location
+    || (locationId ? travel.locationsById.get(locationId)?.name : undefined)
+    || lastAula?.location
+    || null;
+  const point = resolveTravelPoint(travel, locationId, location);
+  const studentBusy = studentAulas.filter(aula =>
+    new Date(aula.endTime) > rangeStart && new Date(aula.startTime) < rangeEnd
+  );
+
+  const professors = (await storage.getAllProfessors()).filter(professor =>
+    professor.active && (!params.professorIds?.length || params.professorIds.includes(professor.id))
+  );
+
+  const contexts: ProfessorContext[] = await Promise.all(professors.map(async professor => {
+    const [availability, professorAulas] = await Promise.all([
+      storage.getProfessorAvailabilityData(professor.id, rangeStart, rangeEnd),
+      storage.getAulas({ professorId: professor.id, startDate: rangeStart, endDate: rangeEnd }),
+    ]);
+    return {
+      professor,
+      availability,
+      aulasByDay: groupByDay(professorAulas.filter(isActive)),
+      specialist: isSpecialist(professor, params.serviceName),
+      aulasWithStudent: studentAulas.filter(aula => aula.professorId === professor.id).length,
+    };
+  }));
+
+  const candidates: (SlotSuggestion & { day: string })[] = [];
+  days.forEach(day => {
+    if (params.weekDays?.length && !params.weekDays.includes(parseISO(day).getDay())) {
+      return;
+    }
+    timeWindows.forEach(window => {
+      const windowEnd = toMinutes(window.end);
+      for (let minutes = toMinutes(window.start); minutes + params.durationMinutes <= windowEnd; minutes += SLOT_STEP_MINUTES) {
+        const start = fromZonedTime(`${day}T${toTime(minutes)}:00`, AVAILABILITY_TIMEZONE);
+        const end = addMinutes(start, params.durationMinutes);
+        if (start <= now) {
+          continue;
+        }
+        if (studentBusy.some(aula => new Date(aula.startTime) < end && new Date(aula.endTime) > start)) {
+          continue;
+        }
+
+        contexts.forEach(context => {
+          const evaluation = evaluateSlot(context, day, start, end, point, travel);
+          if (!evaluation) {
+            return;
+          }
+          candidates.push({
+            day,
+            professorId: context.professor.id,
+            professorName: context.professor.name || context.professor.username,
+            startTime: start.toISOString(),
+            endTime: end.toISOString(),
+            location,
+            locationId,
+            ...evaluation,
+          });
+        });
+      }
+    });
+  });
+
+  // Maior pontuação primeiro; no empate, o horário mais cedo
+  candidates.sort((a, b) => b.score - a.score || a.startTime.localeCompare(b.startTime));
+
+  const perProfessorDay = new Map<string, number>();
+  const slots: SlotSuggestion[] = [];
+  for (const { day, ...slot } of candidates) {
+    if (slots.length >= params.limit) {
+      break;
+    }
+    const key = `${slot.professorId}:${day}`;
+    const count = perProfessorDay.get(key) || 0;
+    if (count >= MAX_SLOTS_PER_PROFESSOR_DAY) {
+      continue;
+    }
+    perProfessorDay.set(key, count + 1);
+    slots.push(slot);
+  }
+
+  return {
+    durationMinutes: params.durationMinutes,
+    serviceName: params.serviceName || null,
+    location,
+    locationId,
+    professorsSearched: contexts.length,
+    slots,
+  };
+}
@@ -0,0 +1,211 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import zlib from "zlib";
+import { afterAll, describe, expect, it } from "vitest";
+import { SpreadsheetError, detectSpreadsheetFormat, readSpreadsheet, type SpreadsheetFormat } from "./spreadsheet-reader";
+
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "spreadsheet-reader-"));
+let fileCount = 0;
+
+afterAll(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+function writeTemp(content: Buffer | string, extension: string): string {
+  const filePath = path.join(tempDir, `arquivo-${++fileCount}.${extension}`);
+  fs.writeFileSync(filePath, content);
+  return filePath;
+}
+
+async function readRows(filePath: string, format: SpreadsheetFormat): Promise<Array<[number, string[]]>> {
+  const rows: Array<[number, string[]]> = [];
+  await readSpreadsheet(filePath, format, (cells, rowNumber) => {
+    rows.push([rowNumber, cells]);
+  });
+  return rows;
+}
+
+// ZIP mínimo (deflate, sem CRC, que o leitor não confere); com zip64, os tamanhos e posições vão nos registros de 64 bits
+function buildZip(files: Record<string, string | Buffer>, zip64 = false): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = Buffer.from(name, "utf8");
+    const data = Buffer.isBuffer(content) ? content : Buffer.from(content, "utf8");
+    const compressed = zlib.deflateRawSync(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, compressed);
+
+    const extra = Buffer.alloc(zip64 ? 28 : 0);
+    if (zip64) {
+      extra.writeUInt16LE(0x0001, 0);
+      extra.writeUInt16LE(24, 2);
+      extra.writeUInt32LE(data.length, 4);
+      extra.writeUInt32LE(compressed.length, 12);
+      extra.writeUInt32LE(offset, 20);
+    }
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(zip64 ? 0xffffffff : compressed.length, 20);
+    central.writeUInt32LE(zip64 ? 0xffffffff : data.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt16LE(extra.length, 30);
+    central.writeUInt32LE(zip64 ? 0xffffffff : offset, 42);
+    centrals.push(central, nameBytes, extra);
+
+    offset += 30 + nameBytes.length + compressed.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const count = Object.keys(files).length;
+  const trailer: Buffer[] = [];
+
+  if (zip64) {
+    const record = Buffer.alloc(56);
+    record.writeUInt32LE(0x06064b50, 0);
+    record.writeUInt32LE(44, 4);
+    record.writeUInt32LE(count, 24);
+    record.writeUInt32LE(count, 32);
+    record.writeUInt32LE(directory.length, 40);
+    record.writeUInt32LE(offset, 48);
+
+    const locator = Buffer.alloc(20);
+    locator.writeUInt32LE(0x07064b50, 0);
+    locator.writeUInt32LE(offset + directory.length, 8);
+    locator.writeUInt32LE(1, 16);
+    trailer.push(record, locator);
+  }
+
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(zip64 ? 0xffff : count, 8);
+  eocd.writeUInt16LE(zip64 ? 0xffff : count, 10);
+  eocd.writeUInt32LE(zip64 ? 0xffffffff : directory.length, 12);
+  eocd.writeUInt32LE(zip64 ? 0xffffffff : offset, 16);
+
+  return Buffer.concat([...locals, directory, ...trailer, eocd]);
+}
+
+function sheetXml(rows: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?><worksheet><sheetData>${rows}</sheetData></worksheet>`;
+}
+
+const workbookFiles = {
+  "xl/workbook.xml": '<workbook><sheets><sheet name="Leads" sheetId="2" r:id="rId2"/><sheet name="Outra" sheetId="1" r:id="rId1"/></sheets></workbook>',
+  "xl/_rels/workbook.xml.rels":
+    '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Target="worksheets/sheet2.xml"/></Relationships>',
+  "xl/sharedStrings.xml":
+    '<sst><si><t>Nome</t></si><si><r><t>Ana </t></r><r><t>Souza</t></r><rPh><t>ana</t></rPh></si><si/><si><t>A &amp; B</t></si></sst>',
+  "xl/worksheets/sheet1.xml": sheetXml('<row r="1"><c r="A1"><v>ignorada</v></c></row>'),
+  "xl/worksheets/sheet2.xml": sheetXml(
+    '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="inlineStr"><is><t>Telefone</t></is></c></row>' +
+    '<row r="2"><c r="A2" t="s"><v>1</v></c><c r="B2" t="s"><v>3</v></c><c r="C2"><v>5.511999999999E+12</v></c></row>' +
+    '<row r="3"><c r="A3" t="s"><v>2</v></c></row>' +
+    '<row r="5"><c r="A5" t="inlineStr"><is><r><t>Bruno</t></r><r><t xml:space="preserve"> Lima</t></r></is></c><c r="B5" t="b"><v>1</v></c></row>'
+  ),
+};
+
+describe("detectSpreadsheetFormat", () => {
+  it("reconhece o XLSX pela assinatura do ZIP, mesmo com outra extensão", () => {
+    expect(detectSpreadsheetFormat("leads.csv", Buffer.from([0x50, 0x4b, 0x03, 0x04]))).toBe("xlsx");
+    expect(detectSpreadsheetFormat("leads.txt", Buffer.from("nome;email"))).toBe("csv");
+    expect(detectSpreadsheetFormat("leads.XLS", Buffer.from([0xd0, 0xcf, 0x11, 0xe0]))).toBeNull();
+  });
+});
+
+describe("CSV", () => {
+  it("detecta o separador pela primeira linha, ignorando os que estão entre aspas", async () => {
+    const semicolon = writeTemp('nome;"email, principal";telefone\nAna;ana@example.com;11999999999\n', "csv");
+    const tab = writeTemp("nome\ttelefone\nAna\t11999999999", "csv");
+    const comma = writeTemp('nome,"obs; extra"\nAna,"sim"\n', "csv");
+
+    expect(await readRows(semicolon, "csv")).toEqual([
+      [1, ["nome", "email, principal", "telefone"]],
+      [2, ["Ana", "ana@example.com", "11999999999"]],
+    ]);
+    expect(await readRows(tab, "csv")).toEqual([[1, ["nome", "telefone"]], [2, ["Ana", "11999999999"]]]);
+    expect(await readRows(comma, "csv")).toEqual([[1, ["nome", "obs; extra"]], [2, ["Ana", "sim"]]]);
+  });
+
+  it("aceita quebras de linha e aspas duplicadas dentro de campos, e pula linhas vazias", async () => {
+    const filePath = writeTemp('nome;obs\r\n"Ana";"linha 1\nlinha 2 ""citada"""\r\n;\r\nBruno;ok', "csv");
+
+    expect(await readRows(filePath, "csv")).toEqual([
+      [1, ["nome", "obs"]],
+      [2, ["Ana", 'linha 1\nlinha 2 "citada"']],
+      [4, ["Bruno", "ok"]],
+    ]);
+  });
+
+  it("lê arquivos salvos em Windows-1252", async () => {
+    const filePath = writeTemp(Buffer.from([...Buffer.from("nome;cidade\nJo"), 0xe3, ...Buffer.from("o;S"), 0xe3, ...Buffer.from("o Paulo\n")]), "csv");
+
+    expect(await readRows(filePath, "csv")).toEqual([[1, ["nome", "cidade"]], [2, ["João", "São Paulo"]]]);
+  });
+
+  it("para de ler quando o handler retorna false", async () => {
+    const filePath = writeTemp("a\nb\nc\n", "csv");
+    const rows: string[] = [];
+    await readSpreadsheet(filePath, "csv", (cells) => {
+      rows.push(cells[0]);
+      return rows.length < 2;
+    });
+
+    expect(rows).toEqual(["a", "b"]);
+  });
+});
+
+describe("XLSX", () => {
+  const expected: Array<[number, string[]]> = [
+    [1, ["Nome", "", "Telefone"]],
+    [2, ["Ana Souza", "A & B", "5511999999999"]],
+    [5, ["Bruno Lima", "VERDADEIRO"]],
+  ];
+
+  it("lê strings compartilhadas e inline da primeira aba na ordem do workbook", async () => {
+    const filePath = writeTemp(buildZip(workbookFiles), "xlsx");
+
+    expect(await readRows(filePath, "xlsx")).toEqual(expected);
+  });
+
+  it("lê arquivos ZIP64", async () => {
+    const filePath = writeTemp(buildZip(workbookFiles, true), "xlsx");
+
+    expect(await readRows(filePath, "xlsx")).toEqual(expected);
+  });
+
+  it("rejeita arquivos que não são ZIP", async () => {
+    const filePath = writeTemp("não é um zip", "xlsx");
+
+    await expect(readRows(filePath, "xlsx")).rejects.toThrow(SpreadsheetError);
+  });
+
+  it("recusa strings compartilhadas que passam do limite depois de descompactadas", async () => {
+    const filePath = writeTemp(buildZip({
+      ...workbookFiles,
+      "xl/sharedStrings.xml": Buffer.alloc(65 * 1024 * 1024, " "),
+    }), "xlsx");
+
+    await expect(readRows(filePath, "xlsx")).rejects.toThrow(/grande demais/);
+  });
+
+  it("recusa uma linha sem fechamento maior que o limite", async () => {
+    const filePath = writeTemp(buildZip({
+      ...workbookFiles,
+      "xl/worksheets/sheet2.xml": `<worksheet><sheetData><row r="1"><c r="A1"><v>${"9".repeat(9 * 1024 * 1024)}`,
+    }), "xlsx");
+
+    await expect(readRows(filePath, "xlsx")).rejects.toThrow(/grande demais/);
+  });
+});
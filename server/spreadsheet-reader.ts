@@ -0,0 +1,565 @@
+import fs from 'fs';
+import zlib from 'zlib';
+import { pipeline, Transform, type Readable } from 'stream';
+
+/**
+ * Leitura de planilhas CSV e XLSX linha a linha, sem carregar o arquivo inteiro na memória.
+ * O XLSX é um ZIP (inclusive ZIP64): o diretório central é lido do fim do arquivo e só a primeira planilha
+ * é descompactada em fluxo (as strings compartilhadas são carregadas antes, por serem referenciadas pelas células).
+ */
+
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+
+// Recebe as células e o número da linha na planilha; retornar false interrompe a leitura
+export type RowHandler = (cells: string[], rowNumber: number) => Promise<boolean | void> | boolean | void;
+
+export class SpreadsheetError extends Error {}
+
+/**
+ * Formato pelo conteúdo (XLSX começa com a assinatura do ZIP) e, na falta dela, pela extensão
+ */
+export function detectSpreadsheetFormat(fileName: string, firstBytes: Buffer): SpreadsheetFormat | null {
+  if (firstBytes.length >= 4 && firstBytes.readUInt32LE(0) === 0x04034b50) {
+    return 'xlsx';
+  }
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'xls') {
+    return null; // Formato binário antigo do Excel
+  }
+  return 'csv';
+}
+
+export async function readSpreadsheet(filePath: string, format: SpreadsheetFormat, onRow: RowHandler): Promise<void> {
+  if (format === 'xlsx') {
+    await readXlsx(filePath, onRow);
+  } else {
+    await readCsv(filePath, onRow);
+  }
+}
+
+/**
+ * Entrega os pedaços do fluxo um de cada vez, pausando a leitura enquanto o pedaço é processado
+ */
+function readChunks(stream: Readable, onChunk: (chunk: Buffer) => Promise<boolean | void>): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let finished = false;
+    const finish = (error?: Error) => {
+      if (finished) return;
+      finished = true;
+      if (error) reject(error); else resolve();
+    };
+
+    stream.on('data', (chunk: Buffer) => {
+      stream.pause();
+      onChunk(chunk).then(result => {
+        if (result === false) {
+          stream.destroy();
+          finish();
+        } else {
+          stream.resume();
+        }
+      }, error => {
+        stream.destroy();
+        finish(error);
+      });
+    });
+    stream.on('end', () => finish());
+    stream.on('error', error => finish(error));
+  });
+}
+
+const isEmptyRow = (cells: string[]) => cells.every(cell => cell.trim() === '');
+
+// ---------------------------------------------------------------------------
+// CSV
+
+const CSV_DELIMITERS = [';', ',', '\t'];
+
+/**
+ * Separador mais frequente fora de aspas na primeira linha (o Excel em português grava com ";")
+ */
+function detectDelimiter(line: string): string {
+  let best = ',';
+  let bestCount = 0;
+  for (const delimiter of CSV_DELIMITERS) {
+    let count = 0;
+    let inQuotes = false;
+    for (let i = 0; i < line.length; i++) {
+      if (line[i] === '"') inQuotes = !inQuotes;
+      else if (!inQuotes && line[i] === delimiter) count++;
+    }
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+function firstLineEnd(text: string): number {
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && text[i] === '\n') return i;
+  }
+  return -1;
+}
+
+/**
+ * Analisador de CSV incremental (RFC 4180): campos entre aspas podem conter separadores,
+ * quebras de linha e aspas duplicadas
+ */
+class CsvParser {
+  private delimiter: string | null = null;
+  private pending = '';
+  private field = '';
+  private record: string[] = [];
+  private inQuotes = false;
+  private quotePending = false;
+  private records: string[][] = [];
+
+  push(text: string): string[][] {
+    if (this.delimiter === null) {
+      this.pending += text;
+      const lineEnd = firstLineEnd(this.pending);
+      if (lineEnd < 0) return [];
+      this.delimiter = detectDelimiter(this.pending.slice(0, lineEnd));
+      text = this.pending;
+      this.pending = '';
+    }
+    this.consume(text);
+    return this.take();
+  }
+
+  end(): string[][] {
+    if (this.delimiter === null) {
+      this.delimiter = detectDelimiter(this.pending);
+      this.consume(this.pending);
+      this.pending = '';
+    }
+    if (this.field !== '' || this.record.length > 0 || this.quotePending) {
+      this.endRecord();
+    }
+    return this.take();
+  }
+
+  private consume(text: string) {
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (this.inQuotes) {
+        if (this.quotePending) {
+          this.quotePending = false;
+          if (char === '"') {
+            this.field += '"';
+            continue;
+          }
+          this.inQuotes = false;
+        } else if (char === '"') {
+          this.quotePending = true;
+          continue;
+        } else {
+          this.field += char;
+          continue;
+        }
+      }
+
+      if (char === '"' && this.field === '') {
+        this.inQuotes = true;
+      } else if (char === this.delimiter) {
+        this.record.push(this.field);
+        this.field = '';
+      } else if (char === '\n') {
+        this.endRecord();
+      } else if (char !== '\r') {
+        this.field += char;
+      }
+    }
+  }
+
+  private endRecord() {
+    this.record.push(this.field);
+    this.records.push(this.record);
+    this.record = [];
+    this.field = '';
+    this.inQuotes = false;
+    this.quotePending = false;
+  }
+
+  private take(): string[][] {
+    const records = this.records;
+    this.records = [];
+    return records;
+  }
+}
+
+async function readCsv(filePath: string, onRow: RowHandler): Promise<void> {
+  const parser = new CsvParser();
+  let decoder: TextDecoder | null = null;
+  let rowNumber = 0;
+  let stopped = false;
+
+  const emit = async (records: string[][]) => {
+    for (const cells of records) {
+      rowNumber++;
+      if (isEmptyRow(cells)) continue;
+      if (await onRow(cells, rowNumber) === false) {
+        stopped = true;
+        return;
+      }
+    }
+  };
+
+  await readChunks(fs.createReadStream(filePath, { highWaterMark: 64 * 1024 }), async (chunk) => {
+    if (!decoder) {
+      // Planilhas salvas pelo Excel no Windows costumam vir em Windows-1252 em vez de UTF-8
+      try {
+        new TextDecoder('utf-8', { fatal: true }).decode(chunk, { stream: true });
+        decoder = new TextDecoder('utf-8');
+      } catch {
+        decoder = new TextDecoder('windows-1252');
+      }
+    }
+    await emit(parser.push(decoder.decode(chunk, { stream: true })));
+    return !stopped;
+  });
+
+  if (!stopped) {
+    await emit(parser.push(decoder ? (decoder as TextDecoder).decode() : ''));
+    if (!stopped) await emit(parser.end());
+  }
+}
+
+// ---------------------------------------------------------------------------
+// XLSX
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+// Limites do conteúdo descompactado: um XLSX pequeno pode se expandir para gigabytes (bomba de ZIP).
+// O workbook e as strings compartilhadas ficam na memória; a planilha é lida em fluxo, mas conta para o total.
+const MAX_XML_ENTRY_BYTES = 64 * 1024 * 1024;
+const MAX_INFLATED_BYTES = 1024 * 1024 * 1024;
+const MAX_ROW_XML_BYTES = 8 * 1024 * 1024;
+
+const TOO_LARGE_MESSAGE = 'Planilha grande demais depois de descompactada. Salve como CSV ou divida o arquivo';
+
+// Bytes descompactados que ainda podem ser lidos nesta leitura do arquivo
+interface InflateBudget {
+  remaining: number;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EXTRA_FIELD = 0x0001;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const MAX_EOCD_SEARCH = 65557; // Registro final (22 bytes) + comentário máximo
+const ZIP64_MARKER = 0xffffffff; // Valor de 32 bits que indica que o campo real está nos registros ZIP64
+
+const INVALID_XLSX_MESSAGE = 'Arquivo XLSX inválido ou corrompido';
+
+// Inteiros de 64 bits do ZIP64 (arquivos de até 2^53 bytes)
+function readUInt64LE(buffer: Buffer, offset: number): number {
+  return buffer.readUInt32LE(offset) + buffer.readUInt32LE(offset + 4) * 0x100000000;
+}
+
+/**
+ * Campos de 32 bits da entrada que estouraram vão, nesta ordem, no campo extra ZIP64 (0x0001)
+ */
+function applyZip64Extra(entry: ZipEntry, uncompressedSize: number, extra: Buffer) {
+  let offset = 0;
+  while (offset + 4 <= extra.length) {
+    const id = extra.readUInt16LE(offset);
+    const length = extra.readUInt16LE(offset + 2);
+    if (id === ZIP64_EXTRA_FIELD) {
+      let position = offset + 4;
+      const end = position + length;
+      const next = () => {
+        if (position + 8 > end) throw new SpreadsheetError(INVALID_XLSX_MESSAGE);
+        const value = readUInt64LE(extra, position);
+        position += 8;
+        return value;
+      };
+      if (uncompressedSize === ZIP64_MARKER) next();
+      if (entry.compressedSize === ZIP64_MARKER) entry.compressedSize = next();
+      if (entry.localHeaderOffset === ZIP64_MARKER) entry.localHeaderOffset = next();
+      return;
+    }
+    offset += 4 + length;
+  }
+  throw new SpreadsheetError(INVALID_XLSX_MESSAGE);
+}
+
+async function readZipEntries(filePath: string): Promise<Map<string, ZipEntry>> {
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    const { size } = await handle.stat();
+    const tailSize = Math.min(size, MAX_EOCD_SEARCH);
+    const tail = Buffer.alloc(tailSize);
+    await handle.read(tail, 0, tailSize, size - tailSize);
+
+    let eocd = -1;
+    for (let i = tailSize - 22; i >= 0; i--) {
+      if (tail.readUInt32LE(i) === EOCD_SIGNATURE) {
+        eocd = i;
+        break;
+      }
+    }
+    if (eocd < 0) {
+      throw new SpreadsheetError(INVALID_XLSX_MESSAGE);
+    }
+
+    let directorySize = tail.readUInt32LE(eocd + 12);
+    let directoryOffset = tail.readUInt32LE(eocd + 16);
+
+    // ZIP64: o localizador fica logo antes do registro final e aponta para o registro final de 64 bits
+    if (eocd >= 20 && tail.readUInt32LE(eocd - 20) === ZIP64_LOCATOR_SIGNATURE) {
+      const record = Buffer.alloc(56);
+      await handle.read(record, 0, 56, readUInt64LE(tail, eocd - 12));
+      if (record.readUInt32LE(0) !== ZIP64_EOCD_SIGNATURE) {
+        throw new SpreadsheetError(INVALID_XLSX_MESSAGE);
+      }
+      directorySize = readUInt64LE(record, 40);
+      directoryOffset = readUInt64LE(record, 48);
+    }
+
+    if (directoryOffset + directorySize > size || directorySize > MAX_XML_ENTRY_BYTES) {
+      throw new SpreadsheetError(INVALID_XLSX_MESSAGE);
+    }
+
+    const directory = Buffer.alloc(directorySize);
+    await handle.read(directory, 0, directorySize, directoryOffset);
+
+    const entries = new Map<string, ZipEntry>();
+    let offset = 0;
+    while (offset + 46 <= directory.length && directory.readUInt32LE(offset) === CENTRAL_DIRECTORY_SIGNATURE) {
+      const nameLength = directory.readUInt16LE(offset + 28);
+      const extraLength = directory.readUInt16LE(offset + 30);
+      const commentLength = directory.readUInt16LE(offset + 32);
+      const name = directory.toString('utf8', offset + 46, offset + 46 + nameLength);
+      const entry: ZipEntry = {
+        name,
+        method: directory.readUInt16LE(offset + 10),
+        compressedSize: directory.readUInt32LE(offset + 20),
+        localHeaderOffset: directory.readUInt32LE(offset + 42),
+      };
+      const uncompressedSize = directory.readUInt32LE(offset + 24);
+      if (entry.compressedSize === ZIP64_MARKER || uncompressedSize === ZIP64_MARKER || entry.localHeaderOffset === ZIP64_MARKER) {
+        const extraStart = offset + 46 + nameLength;
+        applyZip64Extra(entry, uncompressedSize, directory.subarray(extraStart, extraStart + extraLength));
+      }
+      entries.set(name, entry);
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+    return entries;
+  } finally {
+    await handle.close();
+  }
+}
+
+async function openZipEntry(filePath: string, entry: ZipEntry, budget: InflateBudget, entryLimit = MAX_INFLATED_BYTES): Promise<Readable> {
+  const handle = await fs.promises.open(filePath, 'r');
+  const header = Buffer.alloc(30);
+  try {
+    await handle.read(header, 0, 30, entry.localHeaderOffset);
+  } finally {
+    await handle.close();
+  }
+
+  const dataStart = entry.localHeaderOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+  const raw = fs.createReadStream(filePath, {
+    start: dataStart,
+    end: Math.max(dataStart, dataStart + entry.compressedSize - 1),
+  });
+
+  if (entry.method !== 0 && entry.method !== 8) {
+    raw.destroy();
+    throw new SpreadsheetError('Compressão do XLSX não suportada');
+  }
+
+  // O tamanho descompactado declarado no ZIP não é confiável: os bytes são contados durante a leitura
+  let entryBytes = 0;
+  const limiter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      entryBytes += chunk.length;
+      budget.remaining -= chunk.length;
+      if (entryBytes > entryLimit || budget.remaining < 0) {
+        callback(new SpreadsheetError(TOO_LARGE_MESSAGE));
+      } else {
+        callback(null, chunk);
+      }
+    },
+  });
+
+  // pipeline encerra todos os fluxos (e fecha o arquivo) quando a leitura termina, falha ou é interrompida
+  const noop = () => {};
+  return entry.method === 0
+    ? pipeline(raw, limiter, noop)
+    : pipeline(raw, zlib.createInflateRaw(), limiter, noop);
+}
+
+async function readZipEntryText(filePath: string, entry: ZipEntry, budget: InflateBudget): Promise<string> {
+  const chunks: Buffer[] = [];
+  await readChunks(await openZipEntry(filePath, entry, budget, MAX_XML_ENTRY_BYTES), async (chunk) => {
+    chunks.push(chunk);
+  });
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+function decodeXml(value: string): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#\d+|lt|gt|amp|quot|apos);/g, (match, entity: string) => {
+    switch (entity) {
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'amp': return '&';
+      case 'quot': return '"';
+      case 'apos': return "'";
+      default:
+        return entity[1] === 'x'
+          ? String.fromCharCode(parseInt(entity.slice(2), 16))
+          : String.fromCharCode(parseInt(entity.slice(1), 10));
+    }
+  });
+}
+
+function xmlAttribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}="([^"]*)"`));
+  return match ? decodeXml(match[1]) : undefined;
+}
+
+// Texto de um <si> ou <is>: todos os <t>, ignorando as anotações fonéticas (<rPh>)
+function richText(xml: string): string {
+  const texts: string[] = [];
+  const withoutPhonetic = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '');
+  const pattern = /<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(withoutPhonetic))) {
+    texts.push(decodeXml(match[1]));
+  }
+  return texts.join('');
+}
+
+/**
+ * Caminho da primeira planilha do arquivo, pela ordem das abas no workbook
+ */
+async function firstSheetPath(filePath: string, entries: Map<string, ZipEntry>, budget: InflateBudget): Promise<string> {
+  const workbook = entries.get('xl/workbook.xml');
+  const relations = entries.get('xl/_rels/workbook.xml.rels');
+
+  if (workbook && relations) {
+    const sheetTag = (await readZipEntryText(filePath, workbook, budget)).match(/<sheet\b[^>]*>/);
+    const relationId = sheetTag ? xmlAttribute(sheetTag[0], 'r:id') : undefined;
+    const relationTags = (await readZipEntryText(filePath, relations, budget)).match(/<Relationship\b[^>]*>/g) || [];
+    const relation = relationTags.find(tag => xmlAttribute(tag, 'Id') === relationId);
+    const target = relation ? xmlAttribute(relation, 'Target') : undefined;
+    if (target) {
+      const resolved = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+      if (entries.has(resolved)) return resolved;
+    }
+  }
+
+  const fallback = Array.from(entries.keys()).filter(name => /^xl\/worksheets\/sheet\d+\.xml$/.test(name)).sort()[0];
+  if (!fallback) {
+    throw new SpreadsheetError('Nenhuma planilha encontrada no arquivo XLSX');
+  }
+  return fallback;
+}
+
+// Coluna "B" -> 1, "AA" -> 26
+function columnIndex(reference: string): number {
+  const letters = reference.replace(/\d+$/, '');
+  let index = 0;
+  for (let i = 0; i < letters.length; i++) {
+    index = index * 26 + (letters.charCodeAt(i) - 64);
+  }
+  return index - 1;
+}
+
+function parseRow(xml: string, sharedStrings: string[]): string[] {
+  const cells: string[] = [];
+  const pattern = /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(xml))) {
+    const attributes = match[1];
+    const content = match[2] || '';
+    const reference = xmlAttribute(attributes, 'r');
+    const index = reference ? columnIndex(reference) : cells.length;
+    const type = xmlAttribute(attributes, 't');
+    const rawValue = content.match(/<v>([\s\S]*?)<\/v>/);
+    const value = rawValue ? decodeXml(rawValue[1]) : '';
+
+    let text: string;
+    if (type === 's') {
+      text = sharedStrings[parseInt(value, 10)] ?? '';
+    } else if (type === 'inlineStr') {
+      text = richText(content);
+    } else if (type === 'b') {
+      text = value === '1' ? 'VERDADEIRO' : 'FALSO';
+    } else if (/^-?\d+(\.\d+)?[eE][+-]?\d+$/.test(value)) {
+      // Números longos (ex.: telefones) podem vir em notação científica
+      text = String(Number(value));
+    } else {
+      text = value;
+    }
+
+    while (cells.length < index) cells.push('');
+    cells[index] = text;
+  }
+
+  return cells;
+}
+
+async function readXlsx(filePath: string, onRow: RowHandler): Promise<void> {
+  const entries = await readZipEntries(filePath);
+  const budget: InflateBudget = { remaining: MAX_INFLATED_BYTES };
+
+  const sharedStrings: string[] = [];
+  const sharedStringsEntry = entries.get('xl/sharedStrings.xml');
+  if (sharedStringsEntry) {
+    const xml = await readZipEntryText(filePath, sharedStringsEntry, budget);
+    const pattern = /<si>([\s\S]*?)<\/si>|<si\/>/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(xml))) {
+      sharedStrings.push(match[1] ? richText(match[1]) : '');
+    }
+  }
+
+  const sheet = entries.get(await firstSheetPath(filePath, entries, budget))!;
+  const decoder = new TextDecoder('utf-8');
+  let buffer = '';
+  let lastRowNumber = 0;
+
+  await readChunks(await openZipEntry(filePath, sheet, budget), async (chunk) => {
+    buffer += decoder.decode(chunk, { stream: true });
+
+    let end: number;
+    while ((end = buffer.indexOf('</row>')) >= 0) {
+      const xml = buffer.slice(0, end);
+      buffer = buffer.slice(end + 6);
+
+      const start = Math.max(xml.lastIndexOf('<row '), xml.lastIndexOf('<row>'));
+      if (start < 0) continue;
+      const rowXml = xml.slice(start);
+      const openTag = rowXml.slice(0, rowXml.indexOf('>') + 1);
+      const rowNumber = parseInt(xmlAttribute(openTag, 'r') || '', 10) || lastRowNumber + 1;
+      lastRowNumber = rowNumber;
+
+      const cells = parseRow(rowXml.slice(openTag.length), sharedStrings);
+      if (isEmptyRow(cells)) continue;
+      if (await onRow(cells, rowNumber) === false) {
+        return false;
+      }
+    }
+
+    // Uma linha sem fechamento não pode acumular a planilha inteira na memória
+    if (buffer.length > MAX_ROW_XML_BYTES) {
+      throw new SpreadsheetError(TOO_LARGE_MESSAGE);
+    }
+  });
+}
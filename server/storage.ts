@@ -16,13 +16,65 @@ import {
   // New scheduling system imports
   agendamentosRecorrentes, aulas,
   type AgendamentoRecorrente, type InsertAgendamentoRecorrente,
-  type Aula, type InsertAula
+  type Aula, type InsertAula,
+  emailOutbox, type EmailOutbox, type InsertEmailOutbox,
+  sessionReminders, type SessionReminder, type InsertSessionReminder,
+  auditLogs, type AuditLog, type InsertAuditLog,
+  entityHistory, type EntityHistory, type FieldChange,
+  professorCommissions, type ProfessorCommission, type InsertProfessorCommission,
+  financialClosings, type FinancialClosing, type InsertFinancialClosing,
+  professorPayouts, type ProfessorPayout, type InsertProfessorPayout,
+  packages, type Package, type InsertPackage,
+  packagePurchases, type PackagePurchase, type InsertPackagePurchase,
+  payments, type Payment, type InsertPayment,
+  aulaCreditUsages,
+  whatsappInbox, type WhatsappInboxEntry, type InsertWhatsappInboxEntry,
+  whatsappMedia, type WhatsappMedia, type InsertWhatsappMedia,
+  googleTokens, type GoogleToken,
+  professorWorkingHours, type ProfessorWorkingHours,
+  professorTimeOff, type ProfessorTimeOff, type InsertProfessorTimeOff,
+  holidays, type Holiday, type InsertHoliday,
+  services, type Service,
+  locations, type Location, type InsertLocation,
+  travelTimeRules, type TravelTimeRule,
+  legacyIdMappings, type LegacyIdMapping, type LegacyEntityType,
+  waitlistEntries, type WaitlistEntry, type InsertWaitlistEntry,
+  waitlistOffers, type WaitlistOffer, type InsertWaitlistOffer,
+  portalAccessTokens, type PortalAccessToken, type InsertPortalAccessToken,
+  leadSearchDocument, type LeadSearchInput,
+  pipelineStages, type PipelineStage, type InsertPipelineStage,
+  lossReasons, type LossReason, type InsertLossReason,
+  leadStageTransitions, type LeadStageTransition,
+  leadImportJobs, type LeadImportJob, type InsertLeadImportJob,
+  leadImportErrors, type LeadImportError, type InsertLeadImportError
 } from "@shared/schema";
+import type { LeadImportDefaults, LeadImportDryRun, LeadImportMapping } from "@shared/lead-import";
+import { stageMatchesStatus, statusForStageKind } from "@shared/pipeline";
+import { AVAILABILITY_TIMEZONE, checkAvailability, toLocalDay, type ProfessorAvailabilityData, type WorkingHoursRule } from "@shared/availability";
+import {
+  buildTravelContext,
+  estimateTravel,
+  resolveTravelPoint,
+  type AulaLocationRef,
+  type TravelContext,
+  type TravelRule,
+} from "@shared/travel";
+import { formatInTimeZone, fromZonedTime } from "date-fns-tz";
+import { getTravelSettings } from "./travel";
+import { getAttendancePolicy } from "./attendance";
+import { isBillableAula, isLateCancellation } from "@shared/attendance";
 import { db, sql as pgClient } from "./db";
-import { eq, and, desc, asc, between, inArray, or, like, sql, SQL } from "drizzle-orm";
+import { eq, and, desc, asc, between, inArray, or, like, ilike, lt, gt, gte, lte, isNull, sql, SQL } from "drizzle-orm";
 import session from "express-session";
 import { SupabaseSessionStore } from "./supabase-session-store";
 import { alias } from "drizzle-orm/pg-core";
+import { diffEntity } from "./utils/history.utils";
+
+// Sessões legadas já copiadas para aulas (npm run db:migrate-legacy) não podem ser contadas duas vezes
+const legacySessionNotMigrated = sql`not exists (
+  select 1 from ${legacyIdMappings}
+  where ${legacyIdMappings.entityType} = 'session' and ${legacyIdMappings.legacyId} = ${sessions.id}::text
+)`;
 
 // modify the interface with any CRUD methods
 // you might need
@@ -48,17 +100,21 @@ export interface IStorage {
   getLeads(): Promise<Lead[]>;
   getLead(id: number): Promise<Lead | undefined>;
   createLead(lead: InsertLead): Promise<Lead>;
-  updateLead(id: number, lead: Partial<InsertLead>): Promise<Lead | undefined>;
+  updateLead(id: number, lead: Partial<InsertLead>, changedBy?: number): Promise<Lead | undefined>;
   deleteLead(id: number): Promise<boolean>;
   getLeadsBySource(source: string): Promise<Lead[]>;
   getLeadsByStatus(status: string): Promise<Lead[]>;
   getLeadsByCampaign(campaign: string): Promise<Lead[]>;
   getLeadsByState(state: string): Promise<Lead[]>;
   getLeadsByPhone(phone: string): Promise<Lead[]>;
+  getLeadsByEmail(email: string): Promise<Lead[]>;
+  searchLeads(params: LeadSearchInput): Promise<LeadSearchResult>;
+  mergeLeads(survivorId: number, duplicateIds: number[], updates: Partial<Lead>, changedBy?: number): Promise<LeadMergeResult | undefined>;
 
   // Batch operations
   updateLeadsInBatch(ids: number[], updates: Partial<InsertLead>): Promise<number>;
   deleteLeadsInBatch(ids: number[]): Promise<number>;
+  getLeadDeletionBlockers(ids: number[]): Promise<string[]>;
 
   // WhatsApp methods
   getWhatsappMessages(leadId: number): Promise<WhatsappMessage[]>;
@@ -93,7 +149,7 @@ export interface IStorage {
   getSessions(): Promise<Session[]>;
   getSession(id: number): Promise<Session | undefined>;
   createSession(session: InsertSession): Promise<Session>;
-  updateSession(id: number, session: Partial<InsertSession>): Promise<Session | undefined>;
+  updateSession(id: number, session: Partial<InsertSession>, changedBy?: number): Promise<Session | undefined>;
   deleteSession(id: number): Promise<boolean>;
   getSessionsByStudentId(studentId: number): Promise<Session[]>;
   getSessionsByTrainerId(trainerId: number): Promise<Session[]>;
@@ -111,7 +167,7 @@ export interface IStorage {
   getTasks(): Promise<Task[]>;
   getTask(id: number): Promise<Task | undefined>;
   createTask(task: InsertTask): Promise<Task>;
-  updateTask(id: number, task: Partial<InsertTask>): Promise<Task | undefined>;
+  updateTask(id: number, task: Partial<InsertTask>, changedBy?: number): Promise<Task | undefined>;
   deleteTask(id: number): Promise<boolean>;
   getTasksByAssignedToId(userId: number): Promise<Task[]>;
   getTasksByAssignedById(userId: number): Promise<Task[]>;
@@ -129,6 +185,19 @@ export interface IStorage {
   // WhatsApp Settings methods
   getWhatsappSettings(): Promise<WhatsappSettings | undefined>;
   saveWhatsappSettings(settings: InsertWhatsappSettings): Promise<WhatsappSettings>;
+  updateWhatsappSettings(id: number, settings: Partial<InsertWhatsappSettings>): Promise<WhatsappSettings | undefined>;
+
+  // WhatsApp inbox (mensagens de números sem lead)
+  createWhatsappInboxEntry(entry: InsertWhatsappInboxEntry): Promise<WhatsappInboxEntry>;
+  getWhatsappInboxEntries(filters?: { status?: string; phone?: string }): Promise<WhatsappInboxEntry[]>;
+  getLinkedLeadIdForPhone(phone: string): Promise<number | undefined>;
+  linkWhatsappInboxToLead(phone: string, leadId: number, resolvedById?: number): Promise<number>;
+  dismissWhatsappInboxPhone(phone: string, resolvedById?: number): Promise<number>;
+
+  // WhatsApp media
+  getWhatsappMedia(id: number): Promise<WhatsappMedia | undefined>;
+  getWhatsappMediaBySha256(sha256: string): Promise<WhatsappMedia | undefined>;
+  createWhatsappMedia(media: InsertWhatsappMedia): Promise<WhatsappMedia>;
 
   // Google OAuth2 token management
   saveGoogleTokens(userId: number, tokens: {
@@ -142,27 +211,297 @@ export interface IStorage {
     expiry_date: number;
   } | null>;
   deleteGoogleTokens(userId: number): Promise<void>;
+  getGoogleConnection(userId: number): Promise<GoogleToken | undefined>;
+  getGoogleConnections(): Promise<GoogleToken[]>;
+  updateGoogleSyncState(userId: number, syncToken: string | null): Promise<void>;
+  setAulaGoogleEvent(aulaId: number, googleEventId: string | null, googleCalendarUserId: number | null): Promise<void>;
+  getAulaByGoogleEvent(googleCalendarUserId: number, googleEventId: string): Promise<Aula | undefined>;
 
   // New Scheduling System methods
   // Agendamentos Recorrentes
   createAgendamentoRecorrente(agendamento: any): Promise<any>;
   getAgendamentosRecorrentes(): Promise<any[]>;
+  getAgendamentoRecorrenteById(id: number): Promise<AgendamentoRecorrente | undefined>;
   updateAgendamentoRecorrente(id: number, agendamento: any): Promise<any>;
   deleteAgendamentoRecorrente(id: number): Promise<boolean>;
+  getActiveAgendamentosRecorrentes(): Promise<AgendamentoRecorrente[]>;
+  splitAgendamentoRecorrente(id: number, from: Date, update: Partial<InsertAgendamentoRecorrente>, next: InsertAgendamentoRecorrente): Promise<{ series: AgendamentoRecorrente; removedAulas: Aula[] }>;
+  rewriteAgendamentoRecorrente(id: number, from: Date, update: Partial<InsertAgendamentoRecorrente>): Promise<{ series: AgendamentoRecorrente; removedAulas: Aula[] }>;
 
   // Aulas (individual class instances)
   getAulas(filters?: any): Promise<any[]>;
   getAulaById(id: number): Promise<any | undefined>;
   createAula(aula: any): Promise<any>;
   createMultipleAulas(aulas: any[]): Promise<any[]>;
-  updateAula(id: number, aula: any): Promise<any>;
+  getAulasByAgendamentoRecorrente(agendamentoRecorrenteId: number): Promise<Aula[]>;
+  updateAula(id: number, aula: Partial<InsertAula>, changedBy?: number): Promise<Aula | undefined>;
   deleteAula(id: number): Promise<boolean>;
   
   // Lead helpers
   getLeadById(id: number): Promise<Lead | undefined>;
   
   // Conflict checking
-  checkSchedulingConflicts(professorId: number, studentId: number, startTime: Date, endTime: Date, excludeAulaId?: number): Promise<any>;
+  checkSchedulingConflicts(professorId: number, studentId: number, startTime: Date, endTime: Date, excludeAulaId?: number, location?: AulaLocationRef): Promise<any>;
+
+  // Disponibilidade dos professores
+  getProfessorWorkingHours(professorId: number): Promise<ProfessorWorkingHours[]>;
+  replaceProfessorWorkingHours(professorId: number, rules: WorkingHoursRule[]): Promise<ProfessorWorkingHours[]>;
+  getProfessorTimeOff(professorId: number, from?: Date, to?: Date): Promise<ProfessorTimeOff[]>;
+  getProfessorTimeOffById(id: number): Promise<ProfessorTimeOff | undefined>;
+  createProfessorTimeOff(timeOff: InsertProfessorTimeOff): Promise<ProfessorTimeOff>;
+  deleteProfessorTimeOff(id: number): Promise<boolean>;
+  getHolidays(fromDay?: string, toDay?: string): Promise<Holiday[]>;
+  createHoliday(holiday: InsertHoliday): Promise<Holiday>;
+  deleteHoliday(id: number): Promise<boolean>;
+  getProfessorAvailabilityData(professorId: number, from: Date, to: Date): Promise<ProfessorAvailabilityData>;
+
+  // Locais de aula e deslocamento
+  getLocations(filters?: { studentId?: number; search?: string; includeInactive?: boolean }): Promise<Location[]>;
+  getLocationById(id: number): Promise<Location | undefined>;
+  createLocation(location: InsertLocation): Promise<Location>;
+  updateLocation(id: number, location: Partial<InsertLocation>): Promise<Location | undefined>;
+  getTravelTimeRules(): Promise<TravelTimeRule[]>;
+  replaceTravelTimeRules(rules: TravelRule[]): Promise<TravelTimeRule[]>;
+  getTravelContext(): Promise<TravelContext>;
+
+  // Services
+  getServiceById(id: number): Promise<Service | undefined>;
+  getServiceByName(name: string): Promise<Service | undefined>;
+
+  // Email outbox methods
+  createEmailOutboxEntry(entry: InsertEmailOutbox): Promise<EmailOutbox>;
+  getEmailOutboxEntry(id: number): Promise<EmailOutbox | undefined>;
+  getDueEmailOutboxEntries(limit: number): Promise<EmailOutbox[]>;
+  getEmailOutboxEntries(filters?: { status?: string; leadId?: number; limit?: number }): Promise<EmailOutbox[]>;
+  updateEmailOutboxEntry(id: number, updates: Partial<InsertEmailOutbox>): Promise<EmailOutbox | undefined>;
+
+  // Session reminder methods
+  claimSessionReminder(reminder: InsertSessionReminder, now: Date, maxAttempts: number): Promise<SessionReminder | undefined>;
+  updateSessionReminder(id: number, updates: Partial<InsertSessionReminder>): Promise<SessionReminder | undefined>;
+  getSessionRemindersByTarget(targetType: string, targetId: number): Promise<SessionReminder[]>;
+
+  // Audit log methods
+  createAuditLog(entry: InsertAuditLog): Promise<AuditLog>;
+  createAuditLogs(entries: InsertAuditLog[]): Promise<number>;
+  getAuditLogs(filters?: AuditLogFilters): Promise<{ logs: AuditLog[]; total: number }>;
+  deleteAuditLogsBefore(date: Date): Promise<number>;
+
+  // Stats methods (agregações SQL usadas pelo dashboard)
+  getLeadTotals(): Promise<LeadTotals>;
+  getLeadPeriodStats(startDate: Date, endDate: Date): Promise<LeadPeriodStats>;
+  getSchedulingPeriodStats(startDate: Date, endDate: Date): Promise<SchedulingPeriodStats>;
+
+  // Financial methods
+  getRevenueBreakdown(startDate: Date, endDate: Date, granularity: 'day' | 'month'): Promise<RevenueRow[]>;
+  getBillableAulasForPayroll(startDate: Date, endDate: Date): Promise<Aula[]>;
+  getProfessorCommissions(professorId?: number): Promise<ProfessorCommission[]>;
+  upsertProfessorCommission(commission: InsertProfessorCommission): Promise<ProfessorCommission>;
+  deleteProfessorCommission(id: number): Promise<boolean>;
+  getFinancialClosings(): Promise<FinancialClosing[]>;
+  getFinancialClosing(period: string): Promise<FinancialClosing | undefined>;
+  createFinancialClosing(closing: InsertFinancialClosing, payouts: Omit<InsertProfessorPayout, 'closingId'>[]): Promise<FinancialClosing>;
+  deleteFinancialClosing(id: number): Promise<boolean>;
+  getProfessorPayouts(period: string): Promise<ProfessorPayout[]>;
+  getProfessorPayout(id: number): Promise<ProfessorPayout | undefined>;
+  updateProfessorPayout(id: number, updates: Partial<InsertProfessorPayout>): Promise<ProfessorPayout | undefined>;
+
+  // Package, purchase and payment methods
+  getPackages(activeOnly?: boolean): Promise<Package[]>;
+  getPackage(id: number): Promise<Package | undefined>;
+  createPackage(pkg: InsertPackage): Promise<Package>;
+  updatePackage(id: number, pkg: Partial<InsertPackage>): Promise<Package | undefined>;
+  getPackagePurchases(leadId: number): Promise<PackagePurchase[]>;
+  getPackagePurchase(id: number): Promise<PackagePurchase | undefined>;
+  createPackagePurchase(purchase: InsertPackagePurchase, payment?: Omit<InsertPayment, 'leadId' | 'purchaseId'>): Promise<PackagePurchase>;
+  updatePackagePurchase(id: number, updates: Partial<InsertPackagePurchase>): Promise<PackagePurchase | undefined>;
+  getPayments(filters?: { leadId?: number; status?: string }): Promise<Payment[]>;
+  getPayment(id: number): Promise<Payment | undefined>;
+  createPayment(payment: InsertPayment): Promise<Payment>;
+  updatePayment(id: number, updates: Partial<InsertPayment>): Promise<Payment | undefined>;
+  getCreditBalances(leadId?: number): Promise<CreditBalance[]>;
+  getLeadIdsWithPurchases(expiredSince: Date): Promise<number[]>;
+
+  // Entity change history methods
+  getEntityHistory(entityType: HistoryEntityType, entityId: number): Promise<(EntityHistory & { username: string | null })[]>;
+
+  // Legacy scheduling migration (sessions/trainers → aulas/users)
+  getLegacyIdMappings(entityType: LegacyEntityType): Promise<LegacyIdMapping[]>;
+  getLegacyIdMapping(entityType: LegacyEntityType, legacyId: string | number): Promise<LegacyIdMapping | undefined>;
+
+  // Waitlist methods
+  getWaitlistEntries(filters?: { status?: string; leadId?: number }): Promise<WaitlistEntry[]>;
+  getWaitlistEntry(id: number): Promise<WaitlistEntry | undefined>;
+  createWaitlistEntry(entry: InsertWaitlistEntry): Promise<WaitlistEntry>;
+  updateWaitlistEntry(id: number, updates: Partial<InsertWaitlistEntry>): Promise<WaitlistEntry | undefined>;
+  getWaitlistOffers(filters?: { status?: string; leadId?: number; cancelledAulaId?: number }): Promise<WaitlistOffer[]>;
+  getWaitlistOffer(id: number): Promise<WaitlistOffer | undefined>;
+  createWaitlistOffer(offer: InsertWaitlistOffer): Promise<WaitlistOffer>;
+  updateWaitlistOffer(id: number, updates: Partial<InsertWaitlistOffer>): Promise<WaitlistOffer | undefined>;
+  claimWaitlistOffer(id: number, confirmedById?: number): Promise<WaitlistOffer | undefined>;
+  getOpenWaitlistOfferForLead(leadId: number, now: Date): Promise<WaitlistOffer | undefined>;
+
+  // Student portal access
+  createPortalAccessToken(token: InsertPortalAccessToken): Promise<PortalAccessToken>;
+  countPortalAccessTokensSince(leadId: number, since: Date): Promise<number>;
+  getPortalAccessTokenByHash(tokenHash: string): Promise<PortalAccessToken | undefined>;
+  getLatestPortalAccessToken(leadId: number, now: Date): Promise<PortalAccessToken | undefined>;
+  claimPortalCodeAttempt(id: number, maxAttempts: number): Promise<PortalAccessToken | undefined>;
+  consumePortalAccessToken(id: number): Promise<PortalAccessToken | undefined>;
+
+  // Sales pipeline methods
+  getPipelineStages(activeOnly?: boolean): Promise<PipelineStage[]>;
+  getPipelineStage(id: number): Promise<PipelineStage | undefined>;
+  createPipelineStage(stage: InsertPipelineStage): Promise<PipelineStage>;
+  updatePipelineStage(id: number, updates: Partial<InsertPipelineStage>): Promise<PipelineStage | undefined>;
+  reorderPipelineStages(ids: number[]): Promise<void>;
+  countLeadsInStage(stageId: number): Promise<number>;
+  getLossReasons(activeOnly?: boolean): Promise<LossReason[]>;
+  createLossReason(reason: InsertLossReason): Promise<LossReason>;
+  updateLossReason(id: number, updates: Partial<InsertLossReason>): Promise<LossReason | undefined>;
+  moveLeadToStage(leadId: number, stage: PipelineStage, options?: MoveLeadStageOptions): Promise<Lead | undefined>;
+  getLeadStageTransitions(leadId: number): Promise<LeadStageTransition[]>;
+  getLeadsWithoutStage(afterId: number, limit: number): Promise<Lead[]>;
+  getPipelineBoard(limitPerStage: number): Promise<PipelineBoardColumn[]>;
+  getPipelineStageMetrics(startDate: Date, endDate: Date): Promise<PipelineStageMetrics[]>;
+  getLossReasonCounts(startDate: Date, endDate: Date): Promise<LossReasonCount[]>;
+
+  // Lead import jobs
+  createLeadImportJob(job: InsertLeadImportJob): Promise<LeadImportJob>;
+  getLeadImportJob(id: number): Promise<LeadImportJob | undefined>;
+  getLeadImportJobs(limit: number): Promise<LeadImportJob[]>;
+  updateLeadImportJob(id: number, updates: Partial<InsertLeadImportJob>): Promise<LeadImportJob | undefined>;
+  claimLeadImportJob(staleBefore: Date): Promise<LeadImportJob | undefined>;
+  saveLeadImportProgress(id: number, progress: LeadImportProgress, errors: InsertLeadImportError[]): Promise<LeadImportJob | undefined>;
+  getLeadImportErrors(jobId: number, afterId: number, limit: number): Promise<LeadImportError[]>;
+}
+
+export type HistoryEntityType = 'lead' | 'task' | 'aula' | 'session';
+
+export interface RevenueRow {
+  bucket: string; // YYYY-MM ou YYYY-MM-DD no fuso de São Paulo
+  source: string;
+  origin: 'aula' | 'session';
+  lessons: number;
+  revenue: number; // Em centavos
+}
+
+export interface CreditBalance {
+  leadId: number;
+  creditsAvailable: number; // Créditos de compras ativas e dentro da validade
+  unpaidLessons: number; // Aulas concluídas sem crédito disponível
+  nextExpiry: Date | null; // Vencimento mais próximo entre as compras com saldo
+  overduePayments: number;
+  overdueAmount: number; // Em centavos
+  pendingPayments: number;
+}
+
+export interface LeadTotals {
+  totalLeads: number;
+  totalStudents: number;
+  convertedLeads: number; // Leads que já chegaram a uma etapa de ganho do funil
+  leadsBySource: Record<string, number>;
+  leadsByState: Record<string, number>;
+  leadsByCampaign: Record<string, number>;
+}
+
+export interface LeadPeriodStats {
+  newLeads: number;
+  convertedLeads: number; // Leads que entraram numa etapa de ganho no período
+  lostLeads: number; // Leads que entraram numa etapa de perda no período
+}
+
+export interface LeadMergeResult {
+  lead: Lead;
+  moved: Record<string, number>; // Registros transferidos para o lead mantido, por tabela
+}
+
+export interface LeadImportProgress {
+  processedRows: number;
+  createdCount: number;
+  updatedCount: number;
+  errorCount: number;
+}
+
+export interface MoveLeadStageOptions {
+  changedBy?: number;
+  lossReason?: string | null;
+  at?: Date; // Data da mudança; usada ao preencher o funil com o histórico existente
+}
+
+export interface PipelineBoardColumn {
+  stage: PipelineStage;
+  total: number;
+  leads: Lead[]; // Leads mais recentes na etapa, limitados por coluna
+}
+
+export interface PipelineStageMetrics {
+  stageId: number;
+  current: number; // Leads na etapa agora
+  entered: number; // Entradas na etapa no período
+  exited: number; // Saídas da etapa no período
+  avgHoursInStage: number | null; // Tempo médio na etapa das saídas do período
+}
+
+export interface LossReasonCount {
+  reason: string;
+  count: number;
+}
+
+export interface SchedulingPeriodStats {
+  scheduled: number; // Todas as aulas marcadas no período, exceto canceladas (inclui concluídas e faltas)
+  active: number; // Aulas ainda por acontecer ou em curso: agendadas, em andamento e remarcadas
+  completed: number;
+  cancelled: number;
+  activeStudents: number;
+  studentsWithCompleted: number;
+}
+
+export type LeadFacet = 'source' | 'status' | 'campaign' | 'state' | 'tag';
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface LeadSearchResult {
+  leads: Lead[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+  // Contagem por valor de cada filtro, aplicando os demais filtros (o próprio não, para mostrar as alternativas)
+  facets: Record<LeadFacet, FacetCount[]>;
+}
+
+// Limite de valores por faceta (campanhas e tags podem ter muitos valores)
+const LEAD_FACET_LIMIT = 50;
+
+const LEAD_SORT_COLUMNS = {
+  entryDate: leads.entryDate,
+  name: leads.name,
+  createdAt: leads.createdAt,
+  updatedAt: leads.updatedAt,
+};
+
+export interface AuditLogFilters {
+  type?: string;
+  userId?: number;
+  username?: string;
+  startDate?: Date;
+  endDate?: Date;
+  search?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+// Colunas jsonb da importação com os tipos da aplicação
+function toLeadImportJob(row: typeof leadImportJobs.$inferSelect): LeadImportJob {
+  return {
+    ...row,
+    mapping: row.mapping as LeadImportMapping,
+    defaults: row.defaults as LeadImportDefaults,
+    dryRun: row.dryRun as LeadImportDryRun | null,
+  };
 }
 
 export class DatabaseStorage implements IStorage {
@@ -257,13 +596,13 @@ export class DatabaseStorage implements IStorage {
       // Check if professor has any future classes
       const now = new Date();
       const result = await db
-        .select({ count: sql<number>`count(*)` })
-        .from(sessions)
+        .select({ count: sql<number>`count(*)::int` })
+        .from(aulas)
         .where(
           and(
-            eq(sessions.trainerId, professorId),
-            sql`${sessions.startTime} > ${now}`,
-            sql`${sessions.status} != 'cancelado'`
+            eq(aulas.professorId, professorId),
+            sql`${aulas.startTime} > ${now}`,
+            sql`${aulas.status} != 'cancelado'`
           )
         );
       
@@ -311,7 +650,9 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async updateLead(id: number, updates: Partial<InsertLead>): Promise<Lead | undefined> {
+  async updateLead(id: number, updates: Partial<InsertLead>, changedBy?: number): Promise<Lead | undefined> {
+    const before = await this.getLead(id);
+
     // Process updates, ensuring correct types for DB
     const processedUpdates: { [key: string]: any } = { ...updates }; // Use a more flexible type initially
 
@@ -332,20 +673,27 @@ export class DatabaseStorage implements IStorage {
       .set(processedUpdates as Partial<Lead>) 
       .where(eq(leads.id, id))
       .returning();
+
+    if (before && updatedLead) {
+      await this.recordEntityChanges('lead', id, before, updatedLead, changedBy);
+    }
     return updatedLead || undefined;
   }
 
   async deleteLead(id: number): Promise<boolean> {
     try {
-      // First delete any associated WhatsApp messages
-      await db
-        .delete(whatsappMessages)
-        .where(eq(whatsappMessages.leadId, id));
-
-      // Then delete the lead
-      await db
-        .delete(leads)
-        .where(eq(leads.id, id));
+      // Mensagens e lead juntos: se a exclusão do lead falhar, as mensagens não se perdem.
+      // Funil, lista de espera, acessos ao portal e lembretes saem em cascata; fila de e-mails,
+      // triagem do WhatsApp e locais só perdem o vínculo (onDelete no schema)
+      await db.transaction(async (tx) => {
+        await tx
+          .delete(whatsappMessages)
+          .where(eq(whatsappMessages.leadId, id));
+
+        await tx
+          .delete(leads)
+          .where(eq(leads.id, id));
+      });
 
       return true;
     } catch (error) {
@@ -401,6 +749,109 @@ export class DatabaseStorage implements IStorage {
       );
   }
 
+  async getLeadsByEmail(email: string): Promise<Lead[]> {
+    return await db
+      .select()
+      .from(leads)
+      .where(sql`lower(${leads.email}) = ${email.trim().toLowerCase()}`);
+  }
+
+  /**
+   * Condições da busca de leads. A busca textual usa o índice GIN (prefixo de cada palavra);
+   * números de telefone digitados também são procurados em qualquer posição dos dígitos do telefone.
+   */
+  private leadSearchConditions(params: LeadSearchInput, skipFacet?: LeadFacet): SQL[] {
+    const conditions: SQL[] = [];
+
+    if (params.q) {
+      const terms = params.q.toLowerCase().split(/[^a-z0-9\u00e0-\u00f6\u00f8-\u00ff]+/).filter(Boolean).slice(0, 10);
+      const digits = params.q.replace(/\D/g, '');
+      const textMatch = terms.length > 0
+        ? sql`${leadSearchDocument(leads)} @@ to_tsquery('simple', ${terms.map(term => `${term}:*`).join(' & ')})`
+        : undefined;
+      const phoneMatch = digits.length >= 4 && !/[a-z\u00c0-\u00ff]/i.test(params.q)
+        ? sql`regexp_replace(${leads.phone}, '[^0-9]', '', 'g') like ${`%${digits}%`}`
+        : undefined;
+      if (textMatch || phoneMatch) {
+        conditions.push(or(textMatch, phoneMatch)!);
+      }
+    }
+
+    if (params.source && skipFacet !== 'source') conditions.push(eq(leads.source, params.source));
+    if (params.status && skipFacet !== 'status') conditions.push(eq(leads.status, params.status));
+    if (params.campaign && skipFacet !== 'campaign') conditions.push(eq(leads.campaign, params.campaign));
+    if (params.state && skipFacet !== 'state') conditions.push(eq(leads.state, params.state));
+    if (params.tag && skipFacet !== 'tag') conditions.push(sql`${leads.tags} @> array[${params.tag}]::text[]`);
+
+    // Datas de entrada no fuso da academia, com a data final inclusive
+    if (params.startDate) {
+      conditions.push(gte(leads.entryDate, fromZonedTime(`${params.startDate}T00:00:00`, AVAILABILITY_TIMEZONE)));
+    }
+    if (params.endDate) {
+      const end = fromZonedTime(`${params.endDate}T00:00:00`, AVAILABILITY_TIMEZONE);
+      conditions.push(lt(leads.entryDate, new Date(end.getTime() + 24 * 60 * 60 * 1000)));
+    }
+
+    return conditions;
+  }
+
+  private async getLeadFacetCounts(params: LeadSearchInput, facet: LeadFacet): Promise<FacetCount[]> {
+    const conditions = this.leadSearchConditions(params, facet);
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    if (facet === 'tag') {
+      return await db
+        .select({ value: sql<string>`lead_tag`, count: sql<number>`count(*)::int` })
+        .from(sql`${leads} cross join unnest(${leads.tags}) as lead_tag`)
+        .where(where ? and(where, sql`lead_tag <> ''`) : sql`lead_tag <> ''`)
+        .groupBy(sql`lead_tag`)
+        .orderBy(sql`count(*) desc`, sql`lead_tag`)
+        .limit(LEAD_FACET_LIMIT);
+    }
+
+    const column = { source: leads.source, status: leads.status, campaign: leads.campaign, state: leads.state }[facet];
+    return await db
+      .select({ value: column, count: sql<number>`count(*)::int` })
+      .from(leads)
+      .where(where)
+      .groupBy(column)
+      .orderBy(sql`count(*) desc`, column)
+      .limit(LEAD_FACET_LIMIT);
+  }
+
+  async searchLeads(params: LeadSearchInput): Promise<LeadSearchResult> {
+    const conditions = this.leadSearchConditions(params);
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+    const sortColumn = LEAD_SORT_COLUMNS[params.sortBy];
+    const direction = params.sortDir === 'asc' ? asc : desc;
+
+    const [[{ total }], pageLeads, source, status, campaign, state, tag] = await Promise.all([
+      db.select({ total: sql<number>`count(*)::int` }).from(leads).where(where),
+      db
+        .select()
+        .from(leads)
+        .where(where)
+        // O id desempata registros com o mesmo valor, para a paginação não repetir nem pular leads
+        .orderBy(direction(sortColumn), direction(leads.id))
+        .limit(params.pageSize)
+        .offset((params.page - 1) * params.pageSize),
+      this.getLeadFacetCounts(params, 'source'),
+      this.getLeadFacetCounts(params, 'status'),
+      this.getLeadFacetCounts(params, 'campaign'),
+      this.getLeadFacetCounts(params, 'state'),
+      this.getLeadFacetCounts(params, 'tag'),
+    ]);
+
+    return {
+      leads: pageLeads,
+      total,
+      page: params.page,
+      pageSize: params.pageSize,
+      totalPages: Math.ceil(total / params.pageSize),
+      facets: { source, status, campaign, state, tag },
+    };
+  }
+
   // Batch operations
   async updateLeadsInBatch(ids: number[], updates: Partial<InsertLead>): Promise<number> {
     if (ids.length === 0) return 0;
@@ -434,15 +885,16 @@ export class DatabaseStorage implements IStorage {
 
     // First delete all WhatsApp messages associated with these leads
     try {
-      // Delete related WhatsApp messages first
-      await db
-        .delete(whatsappMessages)
-        .where(sql`${whatsappMessages.leadId} IN (${sql.join(ids, sql`, `)})`);
-
-      // Then delete the leads
-      await db
-        .delete(leads)
-        .where(sql`${leads.id} IN (${sql.join(ids, sql`, `)})`);
+      // Mesmas regras de deleteLead, numa única transação
+      await db.transaction(async (tx) => {
+        await tx
+          .delete(whatsappMessages)
+          .where(inArray(whatsappMessages.leadId, ids));
+
+        await tx
+          .delete(leads)
+          .where(inArray(leads.id, ids));
+      });
 
       return ids.length; // Return the number of deleted rows
     } catch (error) {
@@ -451,6 +903,92 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  /**
+   * O que impede excluir os leads: aulas, sessões, séries recorrentes, compras de pacotes e pagamentos
+   * são preservados (entram em relatórios e períodos financeiros fechados), então o lead também fica
+   */
+  async getLeadDeletionBlockers(ids: number[]): Promise<string[]> {
+    if (ids.length === 0) return [];
+
+    const checks: [string, Promise<unknown[]>][] = [
+      ['aulas', db.select({ id: aulas.id }).from(aulas).where(inArray(aulas.studentId, ids)).limit(1)],
+      ['sessões', db.select({ id: sessions.id }).from(sessions).where(inArray(sessions.leadId, ids)).limit(1)],
+      ['agendamentos recorrentes', db.select({ id: agendamentosRecorrentes.id }).from(agendamentosRecorrentes).where(inArray(agendamentosRecorrentes.studentId, ids)).limit(1)],
+      ['pacotes', db.select({ id: packagePurchases.id }).from(packagePurchases).where(inArray(packagePurchases.leadId, ids)).limit(1)],
+      ['pagamentos', db.select({ id: payments.id }).from(payments).where(inArray(payments.leadId, ids)).limit(1)],
+    ];
+
+    const results = await Promise.all(checks.map(([, query]) => query));
+    return checks.filter((_, index) => results[index].length > 0).map(([label]) => label);
+  }
+
+  /**
+   * Junta leads duplicados no lead mantido: tudo que aponta para os duplicados (mensagens, tarefas,
+   * aulas, cobranças, funil etc.) passa para ele, os dados combinados são gravados e os duplicados excluídos.
+   * Tudo numa transação para não deixar registros apontando para um lead removido.
+   */
+  async mergeLeads(survivorId: number, duplicateIds: number[], updates: Partial<Lead>, changedBy?: number): Promise<LeadMergeResult | undefined> {
+    const result = await db.transaction(async (tx) => {
+      const locked = await tx
+        .select()
+        .from(leads)
+        .where(inArray(leads.id, [survivorId, ...duplicateIds]))
+        .for('update');
+      const before = locked.find(lead => lead.id === survivorId);
+      if (!before || locked.length !== duplicateIds.length + 1) {
+        return undefined;
+      }
+
+      const moved: Record<string, number> = {};
+      const reassign = async (name: string, rows: Promise<{ id: number }[]>) => {
+        moved[name] = (await rows).length;
+      };
+
+      await reassign('whatsappMessages', tx.update(whatsappMessages).set({ leadId: survivorId }).where(inArray(whatsappMessages.leadId, duplicateIds)).returning({ id: whatsappMessages.id }));
+      await reassign('whatsappInbox', tx.update(whatsappInbox).set({ leadId: survivorId }).where(inArray(whatsappInbox.leadId, duplicateIds)).returning({ id: whatsappInbox.id }));
+      await reassign('tasks', tx.update(tasks).set({ relatedLeadId: survivorId }).where(inArray(tasks.relatedLeadId, duplicateIds)).returning({ id: tasks.id }));
+      await reassign('aulas', tx.update(aulas).set({ studentId: survivorId }).where(inArray(aulas.studentId, duplicateIds)).returning({ id: aulas.id }));
+      await reassign('agendamentosRecorrentes', tx.update(agendamentosRecorrentes).set({ studentId: survivorId }).where(inArray(agendamentosRecorrentes.studentId, duplicateIds)).returning({ id: agendamentosRecorrentes.id }));
+      await reassign('sessions', tx.update(sessions).set({ leadId: survivorId }).where(inArray(sessions.leadId, duplicateIds)).returning({ id: sessions.id }));
+      await reassign('locations', tx.update(locations).set({ studentId: survivorId }).where(inArray(locations.studentId, duplicateIds)).returning({ id: locations.id }));
+      await reassign('waitlistEntries', tx.update(waitlistEntries).set({ leadId: survivorId }).where(inArray(waitlistEntries.leadId, duplicateIds)).returning({ id: waitlistEntries.id }));
+      await reassign('waitlistOffers', tx.update(waitlistOffers).set({ leadId: survivorId }).where(inArray(waitlistOffers.leadId, duplicateIds)).returning({ id: waitlistOffers.id }));
+      await reassign('portalAccessTokens', tx.update(portalAccessTokens).set({ leadId: survivorId }).where(inArray(portalAccessTokens.leadId, duplicateIds)).returning({ id: portalAccessTokens.id }));
+      await reassign('packagePurchases', tx.update(packagePurchases).set({ leadId: survivorId }).where(inArray(packagePurchases.leadId, duplicateIds)).returning({ id: packagePurchases.id }));
+      await reassign('payments', tx.update(payments).set({ leadId: survivorId }).where(inArray(payments.leadId, duplicateIds)).returning({ id: payments.id }));
+      await reassign('aulaCreditUsages', tx.update(aulaCreditUsages).set({ leadId: survivorId }).where(inArray(aulaCreditUsages.leadId, duplicateIds)).returning({ id: aulaCreditUsages.id }));
+      await reassign('emailOutbox', tx.update(emailOutbox).set({ leadId: survivorId }).where(inArray(emailOutbox.leadId, duplicateIds)).returning({ id: emailOutbox.id }));
+      await reassign('sessionReminders', tx.update(sessionReminders).set({ leadId: survivorId }).where(inArray(sessionReminders.leadId, duplicateIds)).returning({ id: sessionReminders.id }));
+      await reassign('stageTransitions', tx.update(leadStageTransitions).set({ leadId: survivorId }).where(inArray(leadStageTransitions.leadId, duplicateIds)).returning({ id: leadStageTransitions.id }));
+      await reassign('history', tx.update(entityHistory).set({ entityId: survivorId }).where(and(eq(entityHistory.entityType, 'lead'), inArray(entityHistory.entityId, duplicateIds))).returning({ id: entityHistory.id }));
+
+      // Um lead tem no máximo um cadastro de aluno: o do lead mantido prevalece
+      const [survivorStudent] = await tx.select({ id: students.id }).from(students).where(eq(students.leadId, survivorId)).limit(1);
+      if (survivorStudent) {
+        await tx.delete(students).where(inArray(students.leadId, duplicateIds));
+      } else {
+        await reassign('students', tx.update(students).set({ leadId: survivorId }).where(inArray(students.leadId, duplicateIds)).returning({ id: students.id }));
+      }
+
+      const [after] = await tx
+        .update(leads)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(leads.id, survivorId))
+        .returning();
+
+      await tx.delete(leads).where(inArray(leads.id, duplicateIds));
+
+      return { before, after, moved };
+    });
+
+    if (!result) {
+      return undefined;
+    }
+
+    await this.recordEntityChanges('lead', survivorId, result.before, result.after, changedBy);
+    return { lead: result.after, moved: result.moved };
+  }
+
   // Trainer methods
   async getTrainers(): Promise<Trainer[]> {
     return await db.select().from(trainers).orderBy(trainers.name);
@@ -609,7 +1147,9 @@ export class DatabaseStorage implements IStorage {
     return session;
   }
 
-  async updateSession(id: number, updates: Partial<InsertSession>): Promise<Session | undefined> {
+  async updateSession(id: number, updates: Partial<InsertSession>, changedBy?: number): Promise<Session | undefined> {
+    const before = await this.getSession(id);
+
     const [updatedSession] = await db
       .update(sessions)
       .set({
@@ -618,6 +1158,27 @@ export class DatabaseStorage implements IStorage {
       })
       .where(eq(sessions.id, id))
       .returning();
+
+    if (before && updatedSession) {
+      const changes = await this.recordEntityChanges('session', id, before, updatedSession, changedBy);
+
+      // Mantém também o histórico específico de sessões (session_history), que exige o autor
+      if (changes.length > 0 && changedBy) {
+        const changedFields = changes.map(change => change.field);
+        await this.createSessionHistory({
+          sessionId: id,
+          changedAt: new Date(),
+          changeType: updatedSession.status === 'cancelado' && before.status !== 'cancelado'
+            ? 'cancelled'
+            : changedFields.includes('startTime') || changedFields.includes('endTime')
+              ? 'rescheduled'
+              : 'updated',
+          userId: changedBy,
+          oldValue: Object.fromEntries(changes.map(change => [change.field, change.oldValue])),
+          newValue: Object.fromEntries(changes.map(change => [change.field, change.newValue])),
+        });
+      }
+    }
     return updatedSession || undefined;
   }
 
@@ -801,7 +1362,9 @@ export class DatabaseStorage implements IStorage {
     return task;
   }
 
-  async updateTask(id: number, updates: Partial<InsertTask>): Promise<Task | undefined> {
+  async updateTask(id: number, updates: Partial<InsertTask>, changedBy?: number): Promise<Task | undefined> {
+    const before = await this.getTask(id);
+
     // Log the incoming update data
     console.log('Updating task', id, 'with data:', JSON.stringify(updates, null, 2));
 
@@ -835,6 +1398,10 @@ export class DatabaseStorage implements IStorage {
       .set(processedUpdates)
       .where(eq(tasks.id, id))
       .returning();
+
+    if (before && updatedTask) {
+      await this.recordEntityChanges('task', id, before, updatedTask, changedBy);
+    }
     return updatedTask || undefined;
   }
 
@@ -990,6 +1557,111 @@ export class DatabaseStorage implements IStorage {
     return saved;
   }
 
+  async updateWhatsappSettings(id: number, settings: Partial<InsertWhatsappSettings>): Promise<WhatsappSettings | undefined> {
+    const [updated] = await db
+      .update(whatsappSettings)
+      .set({ ...settings, updatedAt: new Date() })
+      .where(eq(whatsappSettings.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  // WhatsApp inbox (mensagens de números sem lead)
+  async createWhatsappInboxEntry(entry: InsertWhatsappInboxEntry): Promise<WhatsappInboxEntry> {
+    const [created] = await db.insert(whatsappInbox).values(entry).returning();
+    return created;
+  }
+
+  async getWhatsappInboxEntries(filters: { status?: string; phone?: string } = {}): Promise<WhatsappInboxEntry[]> {
+    const conditions: SQL[] = [];
+    if (filters.status) {
+      conditions.push(sql`${whatsappInbox.status} = ${filters.status}`);
+    }
+    if (filters.phone) {
+      conditions.push(eq(whatsappInbox.phone, filters.phone));
+    }
+
+    return await db
+      .select()
+      .from(whatsappInbox)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(whatsappInbox.receivedAt));
+  }
+
+  async getLinkedLeadIdForPhone(phone: string): Promise<number | undefined> {
+    // Números já vinculados manualmente continuam indo para o mesmo lead
+    const [entry] = await db
+      .select({ leadId: whatsappInbox.leadId })
+      .from(whatsappInbox)
+      .where(and(eq(whatsappInbox.phone, phone), eq(whatsappInbox.status, 'vinculado')))
+      .orderBy(desc(whatsappInbox.resolvedAt))
+      .limit(1);
+    return entry?.leadId ?? undefined;
+  }
+
+  async linkWhatsappInboxToLead(phone: string, leadId: number, resolvedById?: number): Promise<number> {
+    return await db.transaction(async (tx) => {
+      const pending = await tx
+        .select()
+        .from(whatsappInbox)
+        .where(and(eq(whatsappInbox.phone, phone), eq(whatsappInbox.status, 'pendente')))
+        .orderBy(asc(whatsappInbox.receivedAt));
+
+      if (pending.length === 0) {
+        return 0;
+      }
+
+      // As mensagens da fila passam para a conversa do lead, preservando o horário de recebimento
+      await tx.insert(whatsappMessages).values(pending.map(entry => ({
+        leadId,
+        direction: 'incoming',
+        content: entry.content,
+        status: 'received',
+        timestamp: entry.receivedAt,
+        mediaUrl: entry.mediaUrl,
+        mediaType: entry.mediaType,
+        messageId: entry.messageId,
+      })));
+
+      await tx
+        .update(whatsappInbox)
+        .set({ status: 'vinculado', leadId, resolvedById: resolvedById ?? null, resolvedAt: new Date() })
+        .where(inArray(whatsappInbox.id, pending.map(entry => entry.id)));
+
+      return pending.length;
+    });
+  }
+
+  async dismissWhatsappInboxPhone(phone: string, resolvedById?: number): Promise<number> {
+    const dismissed = await db
+      .update(whatsappInbox)
+      .set({ status: 'descartado', resolvedById: resolvedById ?? null, resolvedAt: new Date() })
+      .where(and(eq(whatsappInbox.phone, phone), eq(whatsappInbox.status, 'pendente')))
+      .returning({ id: whatsappInbox.id });
+    return dismissed.length;
+  }
+
+  // WhatsApp media
+  async getWhatsappMedia(id: number): Promise<WhatsappMedia | undefined> {
+    const [media] = await db.select().from(whatsappMedia).where(eq(whatsappMedia.id, id));
+    return media || undefined;
+  }
+
+  async getWhatsappMediaBySha256(sha256: string): Promise<WhatsappMedia | undefined> {
+    const [media] = await db.select().from(whatsappMedia).where(eq(whatsappMedia.sha256, sha256));
+    return media || undefined;
+  }
+
+  async createWhatsappMedia(media: InsertWhatsappMedia): Promise<WhatsappMedia> {
+    // O mesmo arquivo reenviado reaproveita o registro existente
+    const [created] = await db
+      .insert(whatsappMedia)
+      .values(media)
+      .onConflictDoNothing({ target: whatsappMedia.sha256 })
+      .returning();
+    return created || (await this.getWhatsappMediaBySha256(media.sha256))!;
+  }
+
   // Google OAuth2 token management
   async saveGoogleTokens(userId: number, tokens: {
     access_token: string;
@@ -997,17 +1669,26 @@ export class DatabaseStorage implements IStorage {
     expiry_date: number;
   }): Promise<void> {
     try {
-      // Usar SQL direto para gerenciar tokens do Google
-      await db.execute(sql`
-        INSERT INTO google_tokens (userId, accessToken, refreshToken, expiryDate, updatedAt)
-        VALUES (${userId}, ${tokens.access_token}, ${tokens.refresh_token || null}, ${tokens.expiry_date}, ${new Date().toISOString()})
-        ON CONFLICT (userId) 
-        DO UPDATE SET 
-          accessToken = ${tokens.access_token},
-          refreshToken = ${tokens.refresh_token || null},
-          expiryDate = ${tokens.expiry_date},
-          updatedAt = ${new Date().toISOString()}
-      `);
+      const now = new Date();
+      await db
+        .insert(googleTokens)
+        .values({
+          userId,
+          accessToken: tokens.access_token,
+          refreshToken: tokens.refresh_token || null,
+          expiryDate: new Date(tokens.expiry_date),
+          updatedAt: now,
+        })
+        .onConflictDoUpdate({
+          target: googleTokens.userId,
+          set: {
+            accessToken: tokens.access_token,
+            // O Google só devolve o refresh token no primeiro consentimento: mantém o anterior
+            refreshToken: sql`coalesce(excluded.refresh_token, ${googleTokens.refreshToken})`,
+            expiryDate: new Date(tokens.expiry_date),
+            updatedAt: now,
+          },
+        });
       
       console.log("Google tokens salvos com sucesso para usuário:", userId);
     } catch (error) {
@@ -1022,23 +1703,15 @@ export class DatabaseStorage implements IStorage {
     expiry_date: number;
   } | null> {
     try {
-      const result = await db.execute(sql`
-        SELECT accessToken, refreshToken, expiryDate 
-        FROM google_tokens 
-        WHERE userId = ${userId}
-      `);
-      
-      if (!result.rows || result.rows.length === 0) {
-        console.log("Nenhum token encontrado para usuário:", userId);
+      const connection = await this.getGoogleConnection(userId);
+      if (!connection) {
         return null;
       }
       
-      const token = result.rows[0] as any;
-      
       return {
-        access_token: token.accesstoken,
-        refresh_token: token.refreshtoken,
-        expiry_date: parseInt(token.expirydate),
+        access_token: connection.accessToken,
+        refresh_token: connection.refreshToken || undefined,
+        expiry_date: connection.expiryDate.getTime(),
       };
     } catch (error) {
       console.error("Erro ao buscar tokens do Google:", error);
@@ -1048,10 +1721,7 @@ export class DatabaseStorage implements IStorage {
 
   async deleteGoogleTokens(userId: number): Promise<void> {
     try {
-      await db.execute(sql`
-        DELETE FROM google_tokens 
-        WHERE userId = ${userId}
-      `);
+      await db.delete(googleTokens).where(eq(googleTokens.userId, userId));
       
       console.log("Tokens do Google removidos para usuário:", userId);
     } catch (error) {
@@ -1060,6 +1730,44 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getGoogleConnection(userId: number): Promise<GoogleToken | undefined> {
+    const [connection] = await db.select().from(googleTokens).where(eq(googleTokens.userId, userId));
+    return connection || undefined;
+  }
+
+  async getGoogleConnections(): Promise<GoogleToken[]> {
+    return await db.select().from(googleTokens).orderBy(asc(googleTokens.userId));
+  }
+
+  async updateGoogleSyncState(userId: number, syncToken: string | null): Promise<void> {
+    await db
+      .update(googleTokens)
+      .set({ syncToken, lastSyncedAt: new Date(), updatedAt: new Date() })
+      .where(eq(googleTokens.userId, userId));
+  }
+
+  /**
+   * Vincula (ou desvincula, com null) a aula ao evento do Google Calendar.
+   * Não passa por updateAula: é um dado técnico e não entra no histórico.
+   */
+  async setAulaGoogleEvent(aulaId: number, googleEventId: string | null, googleCalendarUserId: number | null): Promise<void> {
+    await db
+      .update(aulas)
+      .set({ googleEventId, googleCalendarUserId })
+      .where(eq(aulas.id, aulaId));
+  }
+
+  async getAulaByGoogleEvent(googleCalendarUserId: number, googleEventId: string): Promise<Aula | undefined> {
+    const [aula] = await db
+      .select()
+      .from(aulas)
+      .where(and(
+        eq(aulas.googleCalendarUserId, googleCalendarUserId),
+        eq(aulas.googleEventId, googleEventId)
+      ));
+    return aula || undefined;
+  }
+
   // NEW SCHEDULING SYSTEM METHODS
 
   // Lead helper method
@@ -1081,6 +1789,11 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(agendamentosRecorrentes);
   }
 
+  async getAgendamentoRecorrenteById(id: number): Promise<AgendamentoRecorrente | undefined> {
+    const [agendamento] = await db.select().from(agendamentosRecorrentes).where(eq(agendamentosRecorrentes.id, id));
+    return agendamento || undefined;
+  }
+
   async updateAgendamentoRecorrente(id: number, agendamento: Partial<InsertAgendamentoRecorrente>): Promise<AgendamentoRecorrente | undefined> {
     try {
       const [updated] = await db
@@ -1105,6 +1818,78 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // Séries ativas que ainda podem gerar aulas
+  async getActiveAgendamentosRecorrentes(): Promise<AgendamentoRecorrente[]> {
+    return await db
+      .select()
+      .from(agendamentosRecorrentes)
+      .where(and(
+        eq(agendamentosRecorrentes.active, true),
+        isNull(agendamentosRecorrentes.exhaustedAt)
+      ));
+  }
+
+  /**
+   * Encerra a série antes de `from` e cria a continuação com as novas regras.
+   * As aulas futuras ainda agendadas e não modificadas são removidas para serem geradas pela nova série.
+   */
+  async splitAgendamentoRecorrente(
+    id: number,
+    from: Date,
+    update: Partial<InsertAgendamentoRecorrente>,
+    next: InsertAgendamentoRecorrente
+  ): Promise<{ series: AgendamentoRecorrente; removedAulas: Aula[] }> {
+    return await db.transaction(async (tx) => {
+      await tx
+        .update(agendamentosRecorrentes)
+        .set({ ...update, updatedAt: new Date() })
+        .where(eq(agendamentosRecorrentes.id, id));
+
+      const [series] = await tx.insert(agendamentosRecorrentes).values(next).returning();
+
+      // Aulas geradas pela série e ainda intocadas: agendadas e sem alteração individual
+      const removed = await tx
+        .delete(aulas)
+        .where(and(
+          eq(aulas.agendamentoRecorrenteId, id),
+          gte(aulas.startTime, from),
+          eq(aulas.status, 'agendado'),
+          eq(aulas.isModified, false)
+        ))
+        .returning();
+      return { series, removedAulas: removed };
+    });
+  }
+
+  /**
+   * Altera as regras da série a partir de `from`, removendo as aulas que serão geradas novamente
+   */
+  async rewriteAgendamentoRecorrente(
+    id: number,
+    from: Date,
+    update: Partial<InsertAgendamentoRecorrente>
+  ): Promise<{ series: AgendamentoRecorrente; removedAulas: Aula[] }> {
+    return await db.transaction(async (tx) => {
+      const [series] = await tx
+        .update(agendamentosRecorrentes)
+        .set({ ...update, updatedAt: new Date() })
+        .where(eq(agendamentosRecorrentes.id, id))
+        .returning();
+
+      // Aulas geradas pela série e ainda intocadas: agendadas e sem alteração individual
+      const removed = await tx
+        .delete(aulas)
+        .where(and(
+          eq(aulas.agendamentoRecorrenteId, id),
+          gte(aulas.startTime, from),
+          eq(aulas.status, 'agendado'),
+          eq(aulas.isModified, false)
+        ))
+        .returning();
+      return { series, removedAulas: removed };
+    });
+  }
+
   // Aulas methods
   async getAulas(filters?: any): Promise<Aula[]> {
     let query = db.select().from(aulas);
@@ -1151,6 +1936,7 @@ export class DatabaseStorage implements IStorage {
       .insert(aulas)
       .values(aula)
       .returning();
+    await this.syncAulaCreditUsage(created);
     return created;
   }
 
@@ -1162,13 +1948,31 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
-  async updateAula(id: number, aula: Partial<InsertAula>): Promise<Aula | undefined> {
+  async getAulasByAgendamentoRecorrente(agendamentoRecorrenteId: number): Promise<Aula[]> {
+    return await db
+      .select()
+      .from(aulas)
+      .where(eq(aulas.agendamentoRecorrenteId, agendamentoRecorrenteId))
+      .orderBy(asc(aulas.startTime));
+  }
+
+  async updateAula(id: number, aula: Partial<InsertAula>, changedBy?: number): Promise<Aula | undefined> {
     try {
+      const before = await this.getAulaById(id);
+      const changes = before ? this.withAttendanceChanges(before, aula, changedBy) : aula;
+
       const [updated] = await db
         .update(aulas)
-        .set({ ...aula, updatedAt: new Date() })
+        .set({ ...changes, updatedAt: new Date() })
         .where(eq(aulas.id, id))
         .returning();
+
+      if (before && updated) {
+        await this.recordEntityChanges('aula', id, before, updated, changedBy);
+        if (before.status !== updated.status || before.studentId !== updated.studentId || before.chargeable !== updated.chargeable) {
+          await this.syncAulaCreditUsage(updated);
+        }
+      }
       return updated || undefined;
     } catch (error) {
       console.error("Erro ao atualizar aula:", error);
@@ -1176,8 +1980,31 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // Mudança de status preenche o cancelamento (quando, quem, se foi tardio) e a cobrança pela política; valores enviados prevalecem
+  private withAttendanceChanges(before: Aula, changes: Partial<InsertAula>, changedBy?: number): Partial<InsertAula> {
+    const status = changes.status ?? before.status;
+    if (status === before.status) {
+      return changes;
+    }
+
+    const policy = getAttendancePolicy();
+    if (status === 'cancelado') {
+      const cancelledAt = changes.cancelledAt ?? new Date();
+      const startTime = changes.startTime ? new Date(changes.startTime) : before.startTime;
+      const lateCancellation = isLateCancellation(startTime, cancelledAt, policy);
+      return { cancelledAt, cancelledBy: changedBy ?? null, lateCancellation, chargeable: lateCancellation, ...changes };
+    }
+
+    // Aula reativada (ou com outro desfecho) deixa de ser cancelada
+    const reactivated = before.status === 'cancelado'
+      ? { cancelledAt: null, cancelledBy: null, cancellationReason: null, lateCancellation: false }
+      : {};
+    return { ...reactivated, chargeable: status === 'falta' && policy.chargeNoShow, ...changes };
+  }
+
   async deleteAula(id: number): Promise<boolean> {
     try {
+      await this.releaseAulaCredit(id);
       await db.delete(aulas).where(eq(aulas.id, id));
       return true;
     } catch (error) {
@@ -1192,7 +2019,8 @@ export class DatabaseStorage implements IStorage {
     studentId: number, 
     startTime: Date, 
     endTime: Date, 
-    excludeAulaId?: number
+    excludeAulaId?: number,
+    location?: AulaLocationRef
   ): Promise<any> {
     try {
       const conditions = [
@@ -1225,12 +2053,1606 @@ export class DatabaseStorage implements IStorage {
         .where(and(...conditions))
         .limit(1);
 
-      return conflicts.length > 0 ? conflicts[0] : null;
+      if (conflicts.length > 0) {
+        return conflicts[0];
+      }
+
+      // Fora do expediente, no intervalo, em feriado ou ausência do professor também conta como conflito
+      const availability = await this.getProfessorAvailabilityData(professorId, startTime, endTime);
+      const issue = checkAvailability(availability, startTime, endTime);
+      if (issue) {
+        return { type: 'availability', ...issue };
+      }
+
+      // Aulas em locais diferentes precisam deixar tempo para o professor se deslocar
+      return location ? await this.checkTravelTime(professorId, startTime, endTime, location, excludeAulaId) : null;
     } catch (error) {
       console.error("Erro ao verificar conflitos:", error);
       return null;
     }
   }
+
+  /**
+   * Compara o intervalo entre a aula e as vizinhas do professor (a anterior e a seguinte)
+   * com o deslocamento estimado entre os locais
+   */
+  private async checkTravelTime(
+    professorId: number,
+    startTime: Date,
+    endTime: Date,
+    location: AulaLocationRef,
+    excludeAulaId?: number
+  ): Promise<any> {
+    // Nenhum deslocamento estimado passa de 4 horas (limite das regras)
+    const windowMs = 4 * 60 * 60 * 1000;
+    const conditions = [
+      eq(aulas.professorId, professorId),
+      sql`${aulas.status} != 'cancelado'`,
+      sql`${aulas.endTime} > ${new Date(startTime.getTime() - windowMs)}`,
+      sql`${aulas.startTime} < ${new Date(endTime.getTime() + windowMs)}`,
+    ];
+    if (excludeAulaId) {
+      conditions.push(sql`${aulas.id} != ${excludeAulaId}`);
+    }
+
+    const nearby = await db.select().from(aulas).where(and(...conditions));
+    const previous = nearby
+      .filter(aula => aula.endTime <= startTime)
+      .sort((a, b) => b.endTime.getTime() - a.endTime.getTime())[0];
+    const next = nearby
+      .filter(aula => aula.startTime >= endTime)
+      .sort((a, b) => a.startTime.getTime() - b.startTime.getTime())[0];
+    if (!previous && !next) {
+      return null;
+    }
+
+    const context = await this.getTravelContext();
+    const point = resolveTravelPoint(context, location.locationId, location.location);
+    const hour = (date: Date) => formatInTimeZone(date, AVAILABILITY_TIMEZONE, 'HH:mm');
+
+    if (previous) {
+      const estimate = estimateTravel(resolveTravelPoint(context, previous.locationId, previous.location), point, context.rules, context.settings);
+      const availableMinutes = Math.floor((startTime.getTime() - previous.endTime.getTime()) / 60000);
+      if (availableMinutes < estimate.minutes) {
+        return {
+          type: 'travel',
+          aulaId: previous.id,
+          requiredMinutes: estimate.minutes,
+          availableMinutes,
+          source: estimate.source,
+          message: `Tempo de deslocamento insuficiente: a aula anterior termina às ${hour(previous.endTime)} em ${previous.location} e são necessários ${estimate.minutes} min até ${location.location || 'o novo local'}`,
+        };
+      }
+    }
+
+    if (next) {
+      const estimate = estimateTravel(point, resolveTravelPoint(context, next.locationId, next.location), context.rules, context.settings);
+      const availableMinutes = Math.floor((next.startTime.getTime() - endTime.getTime()) / 60000);
+      if (availableMinutes < estimate.minutes) {
+        return {
+          type: 'travel',
+          aulaId: next.id,
+          requiredMinutes: estimate.minutes,
+          availableMinutes,
+          source: estimate.source,
+          message: `Tempo de deslocamento insuficiente: a próxima aula começa às ${hour(next.startTime)} em ${next.location} e são necessários ${estimate.minutes} min para chegar lá`,
+        };
+      }
+    }
+
+    return null;
+  }
+
+  // Disponibilidade dos professores
+  async getProfessorWorkingHours(professorId: number): Promise<ProfessorWorkingHours[]> {
+    return await db
+      .select()
+      .from(professorWorkingHours)
+      .where(eq(professorWorkingHours.professorId, professorId))
+      .orderBy(asc(professorWorkingHours.weekDay), asc(professorWorkingHours.startTime));
+  }
+
+  /**
+   * Substitui todo o expediente semanal do professor (a tela edita a semana inteira de uma vez)
+   */
+  async replaceProfessorWorkingHours(professorId: number, rules: WorkingHoursRule[]): Promise<ProfessorWorkingHours[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(professorWorkingHours).where(eq(professorWorkingHours.professorId, professorId));
+      if (rules.length === 0) {
+        return [];
+      }
+      return await tx
+        .insert(professorWorkingHours)
+        .values(rules.map(rule => ({
+          professorId,
+          weekDay: rule.weekDay,
+          startTime: rule.startTime,
+          endTime: rule.endTime,
+          breakStart: rule.breakStart || null,
+          breakEnd: rule.breakEnd || null,
+        })))
+        .returning();
+    });
+  }
+
+  async getProfessorTimeOff(professorId: number, from?: Date, to?: Date): Promise<ProfessorTimeOff[]> {
+    const conditions = [eq(professorTimeOff.professorId, professorId)];
+    if (from) {
+      conditions.push(gte(professorTimeOff.endTime, from));
+    }
+    if (to) {
+      conditions.push(lte(professorTimeOff.startTime, to));
+    }
+    return await db
+      .select()
+      .from(professorTimeOff)
+      .where(and(...conditions))
+      .orderBy(asc(professorTimeOff.startTime));
+  }
+
+  async getProfessorTimeOffById(id: number): Promise<ProfessorTimeOff | undefined> {
+    const [timeOff] = await db.select().from(professorTimeOff).where(eq(professorTimeOff.id, id));
+    return timeOff || undefined;
+  }
+
+  async createProfessorTimeOff(timeOff: InsertProfessorTimeOff): Promise<ProfessorTimeOff> {
+    const [created] = await db.insert(professorTimeOff).values(timeOff).returning();
+    return created;
+  }
+
+  async deleteProfessorTimeOff(id: number): Promise<boolean> {
+    const deleted = await db.delete(professorTimeOff).where(eq(professorTimeOff.id, id)).returning({ id: professorTimeOff.id });
+    return deleted.length > 0;
+  }
+
+  async getHolidays(fromDay?: string, toDay?: string): Promise<Holiday[]> {
+    const conditions = [];
+    if (fromDay) {
+      conditions.push(gte(holidays.date, fromDay));
+    }
+    if (toDay) {
+      conditions.push(lte(holidays.date, toDay));
+    }
+    return await db
+      .select()
+      .from(holidays)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(holidays.date));
+  }
+
+  async createHoliday(holiday: InsertHoliday): Promise<Holiday> {
+    const [created] = await db.insert(holidays).values(holiday).returning();
+    return created;
+  }
+
+  async deleteHoliday(id: number): Promise<boolean> {
+    const deleted = await db.delete(holidays).where(eq(holidays.id, id)).returning({ id: holidays.id });
+    return deleted.length > 0;
+  }
+
+  /**
+   * Expediente, ausências e feriados do professor que afetam o intervalo informado
+   */
+  async getProfessorAvailabilityData(professorId: number, from: Date, to: Date): Promise<ProfessorAvailabilityData> {
+    const [workingHours, timeOff, holidayList] = await Promise.all([
+      this.getProfessorWorkingHours(professorId),
+      this.getProfessorTimeOff(professorId, from, to),
+      this.getHolidays(toLocalDay(from), toLocalDay(to)),
+    ]);
+    return { workingHours, timeOff, holidays: holidayList };
+  }
+
+  // Locais de aula e deslocamento
+  /**
+   * Com studentId, traz os locais do aluno e os de uso geral (estúdios, academias)
+   */
+  async getLocations(filters: { studentId?: number; search?: string; includeInactive?: boolean } = {}): Promise<Location[]> {
+    const conditions: SQL[] = [];
+    if (!filters.includeInactive) {
+      conditions.push(eq(locations.active, true));
+    }
+    if (filters.studentId) {
+      conditions.push(or(eq(locations.studentId, filters.studentId), isNull(locations.studentId))!);
+    }
+    if (filters.search) {
+      const term = `%${filters.search}%`;
+      conditions.push(or(
+        ilike(locations.name, term),
+        ilike(locations.address, term),
+        ilike(locations.neighborhood, term)
+      )!);
+    }
+
+    return await db
+      .select()
+      .from(locations)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(locations.name));
+  }
+
+  async getLocationById(id: number): Promise<Location | undefined> {
+    const [location] = await db.select().from(locations).where(eq(locations.id, id));
+    return location || undefined;
+  }
+
+  async createLocation(location: InsertLocation): Promise<Location> {
+    const [created] = await db.insert(locations).values(location).returning();
+    return created;
+  }
+
+  async updateLocation(id: number, location: Partial<InsertLocation>): Promise<Location | undefined> {
+    const [updated] = await db
+      .update(locations)
+      .set({ ...location, updatedAt: new Date() })
+      .where(eq(locations.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async getTravelTimeRules(): Promise<TravelTimeRule[]> {
+    return await db.select().from(travelTimeRules).orderBy(asc(travelTimeRules.fromZone), asc(travelTimeRules.toZone));
+  }
+
+  /**
+   * Substitui a tabela de deslocamentos. Cada par de regiões é gravado uma única vez, em ordem alfabética,
+   * já que a regra vale nos dois sentidos.
+   */
+  async replaceTravelTimeRules(rules: TravelRule[]): Promise<TravelTimeRule[]> {
+    const byPair = new Map<string, TravelRule>();
+    rules.forEach(rule => {
+      const [fromZone, toZone] = [rule.fromZone.trim(), rule.toZone.trim()].sort((a, b) => a.localeCompare(b));
+      byPair.set(`${fromZone.toLowerCase()}|${toZone.toLowerCase()}`, { fromZone, toZone, minutes: rule.minutes });
+    });
+    const normalized = Array.from(byPair.values());
+
+    return await db.transaction(async (tx) => {
+      await tx.delete(travelTimeRules);
+      if (normalized.length === 0) {
+        return [];
+      }
+      return await tx.insert(travelTimeRules).values(normalized).returning();
+    });
+  }
+
+  async getTravelContext(): Promise<TravelContext> {
+    const [locationList, rules] = await Promise.all([
+      this.getLocations({ includeInactive: true }),
+      this.getTravelTimeRules(),
+    ]);
+    return buildTravelContext(locationList, rules, getTravelSettings());
+  }
+
+  // Services methods
+  async getServiceById(id: number): Promise<Service | undefined> {
+    const [service] = await db.select().from(services).where(eq(services.id, id));
+    return service || undefined;
+  }
+
+  async getServiceByName(name: string): Promise<Service | undefined> {
+    const [service] = await db.select().from(services).where(sql`lower(${services.name}) = lower(${name.trim()})`);
+    return service || undefined;
+  }
+
+  // Email outbox methods
+  async createEmailOutboxEntry(entry: InsertEmailOutbox): Promise<EmailOutbox> {
+    const [created] = await db
+      .insert(emailOutbox)
+      .values(entry)
+      .returning();
+    return created;
+  }
+
+  async getEmailOutboxEntry(id: number): Promise<EmailOutbox | undefined> {
+    const [entry] = await db.select().from(emailOutbox).where(eq(emailOutbox.id, id));
+    return entry || undefined;
+  }
+
+  async getDueEmailOutboxEntries(limit: number): Promise<EmailOutbox[]> {
+    // Inclui envios presos em "sending" há mais de 10 minutos (ex.: servidor reiniciado no meio do envio)
+    const staleSendingThreshold = new Date(Date.now() - 10 * 60 * 1000);
+    return await db
+      .select()
+      .from(emailOutbox)
+      .where(
+        or(
+          and(
+            eq(emailOutbox.status, 'pending'),
+            sql`${emailOutbox.nextAttemptAt} <= ${new Date()}`
+          ),
+          and(
+            eq(emailOutbox.status, 'sending'),
+            sql`${emailOutbox.updatedAt} < ${staleSendingThreshold}`
+          )
+        )
+      )
+      .orderBy(asc(emailOutbox.nextAttemptAt))
+      .limit(limit);
+  }
+
+  async getEmailOutboxEntries(filters?: { status?: string; leadId?: number; limit?: number }): Promise<EmailOutbox[]> {
+    const conditions: SQL[] = [];
+
+    if (filters?.status) {
+      conditions.push(sql`${emailOutbox.status} = ${filters.status}`);
+    }
+
+    if (filters?.leadId) {
+      conditions.push(eq(emailOutbox.leadId, filters.leadId));
+    }
+
+    return await db
+      .select()
+      .from(emailOutbox)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(emailOutbox.createdAt))
+      .limit(filters?.limit || 100);
+  }
+
+  async updateEmailOutboxEntry(id: number, updates: Partial<InsertEmailOutbox>): Promise<EmailOutbox | undefined> {
+    const [updated] = await db
+      .update(emailOutbox)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(emailOutbox.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  // Session reminder methods
+  async claimSessionReminder(reminder: InsertSessionReminder, now: Date, maxAttempts: number): Promise<SessionReminder | undefined> {
+    // O índice único garante que cada lembrete (alvo + horário + antecedência + canal) seja registrado uma única vez
+    const [claimed] = await db
+      .insert(sessionReminders)
+      .values({ ...reminder, attempts: 1 })
+      .onConflictDoNothing()
+      .returning();
+    if (claimed) {
+      return claimed;
+    }
+
+    // Já registrado: só volta a ser enviado se falhou, o backoff venceu e ainda há tentativas
+    const [retried] = await db
+      .update(sessionReminders)
+      .set({ status: 'pending', error: null, attempts: sql`${sessionReminders.attempts} + 1` })
+      .where(and(
+        eq(sessionReminders.targetType, reminder.targetType),
+        eq(sessionReminders.targetId, reminder.targetId),
+        reminder.startTime ? eq(sessionReminders.startTime, reminder.startTime) : isNull(sessionReminders.startTime),
+        eq(sessionReminders.offsetMinutes, reminder.offsetMinutes),
+        eq(sessionReminders.channel, reminder.channel),
+        eq(sessionReminders.status, 'failed'),
+        lte(sessionReminders.nextAttemptAt, now),
+        lt(sessionReminders.attempts, maxAttempts)
+      ))
+      .returning();
+    return retried || undefined;
+  }
+
+  async updateSessionReminder(id: number, updates: Partial<InsertSessionReminder>): Promise<SessionReminder | undefined> {
+    const [updated] = await db
+      .update(sessionReminders)
+      .set(updates)
+      .where(eq(sessionReminders.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async getSessionRemindersByTarget(targetType: string, targetId: number): Promise<SessionReminder[]> {
+    return await db
+      .select()
+      .from(sessionReminders)
+      .where(and(
+        eq(sessionReminders.targetType, targetType),
+        eq(sessionReminders.targetId, targetId)
+      ))
+      .orderBy(desc(sessionReminders.createdAt));
+  }
+
+  // Audit log methods
+  async createAuditLog(entry: InsertAuditLog): Promise<AuditLog> {
+    const [created] = await db
+      .insert(auditLogs)
+      .values(entry)
+      .returning();
+    return created;
+  }
+
+  async createAuditLogs(entries: InsertAuditLog[]): Promise<number> {
+    if (entries.length === 0) {
+      return 0;
+    }
+
+    const created = await db
+      .insert(auditLogs)
+      .values(entries)
+      .returning({ id: auditLogs.id });
+    return created.length;
+  }
+
+  async getAuditLogs(filters: AuditLogFilters = {}): Promise<{ logs: AuditLog[]; total: number }> {
+    const conditions: SQL[] = [];
+
+    if (filters.type) {
+      conditions.push(eq(auditLogs.type, filters.type));
+    }
+
+    if (filters.userId) {
+      conditions.push(eq(auditLogs.userId, filters.userId));
+    }
+
+    if (filters.username) {
+      conditions.push(ilike(auditLogs.username, `%${filters.username}%`));
+    }
+
+    if (filters.startDate) {
+      conditions.push(sql`${auditLogs.timestamp} >= ${filters.startDate}`);
+    }
+
+    if (filters.endDate) {
+      conditions.push(sql`${auditLogs.timestamp} <= ${filters.endDate}`);
+    }
+
+    if (filters.search) {
+      const pattern = `%${filters.search}%`;
+      conditions.push(or(
+        ilike(auditLogs.username, pattern),
+        ilike(auditLogs.type, pattern),
+        ilike(auditLogs.ip, pattern),
+        sql`${auditLogs.details}::text ILIKE ${pattern}`
+      )!);
+    }
+
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+    const pageSize = filters.pageSize || 50;
+    const page = filters.page || 1;
+
+    const [{ total }] = await db
+      .select({ total: sql<number>`count(*)::int` })
+      .from(auditLogs)
+      .where(where);
+
+    const logs = await db
+      .select()
+      .from(auditLogs)
+      .where(where)
+      .orderBy(desc(auditLogs.timestamp), desc(auditLogs.id))
+      .limit(pageSize)
+      .offset((page - 1) * pageSize);
+
+    return { logs, total };
+  }
+
+  async deleteAuditLogsBefore(date: Date): Promise<number> {
+    const deleted = await db
+      .delete(auditLogs)
+      .where(lt(auditLogs.timestamp, date))
+      .returning({ id: auditLogs.id });
+    return deleted.length;
+  }
+
+  // Stats methods
+  async getLeadTotals(): Promise<LeadTotals> {
+    const [totals] = await db
+      .select({
+        totalLeads: sql<number>`count(*)::int`,
+        totalStudents: sql<number>`count(*) filter (where ${leads.status} = 'Aluno')::int`,
+      })
+      .from(leads);
+
+    const [converted] = await db
+      .select({ count: sql<number>`count(distinct ${leadStageTransitions.leadId})::int` })
+      .from(leadStageTransitions)
+      .innerJoin(pipelineStages, eq(pipelineStages.id, leadStageTransitions.toStageId))
+      .where(eq(pipelineStages.kind, 'ganho'));
+
+    const groupCount = async (column: typeof leads.source | typeof leads.state | typeof leads.campaign, fallback: string) => {
+      const rows = await db
+        .select({ key: column, total: sql<number>`count(*)::int` })
+        .from(leads)
+        .groupBy(column);
+
+      return rows.reduce((acc, row) => {
+        const key = row.key || fallback;
+        acc[key] = (acc[key] || 0) + row.total;
+        return acc;
+      }, {} as Record<string, number>);
+    };
+
+    const [leadsBySource, leadsByState, leadsByCampaign] = await Promise.all([
+      groupCount(leads.source, 'Desconhecido'),
+      groupCount(leads.state, 'Desconhecido'),
+      groupCount(leads.campaign, 'Nenhuma'),
+    ]);
+
+    return {
+      totalLeads: totals.totalLeads,
+      totalStudents: totals.totalStudents,
+      convertedLeads: converted?.count ?? 0,
+      leadsBySource,
+      leadsByState,
+      leadsByCampaign,
+    };
+  }
+
+  async getLeadPeriodStats(startDate: Date, endDate: Date): Promise<LeadPeriodStats> {
+    const [row] = await db
+      .select({ newLeads: sql<number>`count(*)::int` })
+      .from(leads)
+      .where(and(gte(leads.entryDate, startDate), lte(leads.entryDate, endDate)));
+
+    // Conversões e perdas vêm das mudanças de etapa no período, não do status atual dos leads
+    const [transitions] = await db
+      .select({
+        convertedLeads: sql<number>`count(distinct ${leadStageTransitions.leadId}) filter (where ${pipelineStages.kind} = 'ganho')::int`,
+        lostLeads: sql<number>`count(distinct ${leadStageTransitions.leadId}) filter (where ${pipelineStages.kind} = 'perdido')::int`,
+      })
+      .from(leadStageTransitions)
+      .innerJoin(pipelineStages, eq(pipelineStages.id, leadStageTransitions.toStageId))
+      .where(and(gte(leadStageTransitions.createdAt, startDate), lte(leadStageTransitions.createdAt, endDate)));
+
+    return {
+      newLeads: row.newLeads,
+      convertedLeads: transitions?.convertedLeads ?? 0,
+      lostLeads: transitions?.lostLeads ?? 0,
+    };
+  }
+
+  async getSchedulingPeriodStats(startDate: Date, endDate: Date): Promise<SchedulingPeriodStats> {
+    // Aulas (novo sistema) e sessões ainda não migradas (sistema legado) são somadas; o legado grava status como texto livre
+    const legacyCompleted = sql`${sessions.status} in ('concluido', 'concluído')`;
+    const legacyCancelled = sql`${sessions.status} = 'cancelado'`;
+    const legacyActive = sql`${sessions.status} in ('agendado', 'remarcado')`;
+
+    const [aulaStats] = await db
+      .select({
+        scheduled: sql<number>`count(*) filter (where ${aulas.status} <> 'cancelado')::int`,
+        active: sql<number>`count(*) filter (where ${aulas.status} in ('agendado', 'em_andamento', 'remarcado'))::int`,
+        completed: sql<number>`count(*) filter (where ${aulas.status} = 'concluido')::int`,
+        cancelled: sql<number>`count(*) filter (where ${aulas.status} = 'cancelado')::int`,
+      })
+      .from(aulas)
+      .where(and(gte(aulas.startTime, startDate), lte(aulas.startTime, endDate)));
+
+    const [sessionStats] = await db
+      .select({
+        scheduled: sql<number>`count(*) filter (where not (${legacyCancelled}))::int`,
+        active: sql<number>`count(*) filter (where ${legacyActive})::int`,
+        completed: sql<number>`count(*) filter (where ${legacyCompleted})::int`,
+        cancelled: sql<number>`count(*) filter (where ${legacyCancelled})::int`,
+      })
+      .from(sessions)
+      .where(and(gte(sessions.startTime, startDate), lte(sessions.startTime, endDate), legacySessionNotMigrated));
+
+    // Alunos distintos considerando os dois sistemas (um mesmo lead pode ter aulas e sessões)
+    const aulaStudents = await db
+      .selectDistinct({ leadId: aulas.studentId, completed: sql<boolean>`${aulas.status} = 'concluido'` })
+      .from(aulas)
+      .where(and(
+        gte(aulas.startTime, startDate),
+        lte(aulas.startTime, endDate),
+        sql`${aulas.status} <> 'cancelado'`
+      ));
+
+    const sessionStudents = await db
+      .selectDistinct({ leadId: sessions.leadId, completed: sql<boolean>`${legacyCompleted}` })
+      .from(sessions)
+      .where(and(
+        gte(sessions.startTime, startDate),
+        lte(sessions.startTime, endDate),
+        sql`not (${legacyCancelled})`,
+        legacySessionNotMigrated
+      ));
+
+    const activeStudents = new Set<number>();
+    const studentsWithCompleted = new Set<number>();
+    for (const row of [...aulaStudents, ...sessionStudents]) {
+      activeStudents.add(row.leadId);
+      if (row.completed) {
+        studentsWithCompleted.add(row.leadId);
+      }
+    }
+
+    return {
+      scheduled: aulaStats.scheduled + sessionStats.scheduled,
+      active: aulaStats.active + sessionStats.active,
+      completed: aulaStats.completed + sessionStats.completed,
+      cancelled: aulaStats.cancelled + sessionStats.cancelled,
+      activeStudents: activeStudents.size,
+      studentsWithCompleted: studentsWithCompleted.size,
+    };
+  }
+
+  // Financial methods
+  async getRevenueBreakdown(startDate: Date, endDate: Date, granularity: 'day' | 'month'): Promise<RevenueRow[]> {
+    const format = granularity === 'day' ? 'YYYY-MM-DD' : 'YYYY-MM';
+    const localTime = (column: typeof aulas.startTime | typeof sessions.startTime) =>
+      sql`(${column} AT TIME ZONE 'UTC' AT TIME ZONE 'America/Sao_Paulo')`;
+
+    // Receita considera as aulas cobradas (isBillableAula): concluídas e faltas/cancelamentos tardios cobrados; a origem (Favale/Pink) da aula vem do lead
+    const aulaBucket = sql<string>`to_char(${localTime(aulas.startTime)}, ${format})`;
+    const aulaRows = await db
+      .select({
+        bucket: aulaBucket,
+        source: leads.source,
+        lessons: sql<number>`count(*)::int`,
+        revenue: sql<number>`coalesce(sum(${aulas.value}), 0)::int`,
+      })
+      .from(aulas)
+      .innerJoin(leads, eq(aulas.studentId, leads.id))
+      .where(and(
+        or(eq(aulas.status, 'concluido'), eq(aulas.chargeable, true)),
+        gte(aulas.startTime, startDate),
+        lte(aulas.startTime, endDate)
+      ))
+      .groupBy(aulaBucket, leads.source);
+
+    const sessionBucket = sql<string>`to_char(${localTime(sessions.startTime)}, ${format})`;
+    const sessionRows = await db
+      .select({
+        bucket: sessionBucket,
+        source: sessions.source,
+        lessons: sql<number>`count(*)::int`,
+        revenue: sql<number>`coalesce(sum(${sessions.value}), 0)::int`,
+      })
+      .from(sessions)
+      .where(and(
+        sql`${sessions.status} in ('concluido', 'concluído')`,
+        gte(sessions.startTime, startDate),
+        lte(sessions.startTime, endDate),
+        legacySessionNotMigrated
+      ))
+      .groupBy(sessionBucket, sessions.source);
+
+    return [
+      ...aulaRows.map(row => ({ ...row, origin: 'aula' as const })),
+      ...sessionRows.map(row => ({ ...row, origin: 'session' as const })),
+    ];
+  }
+
+  async getBillableAulasForPayroll(startDate: Date, endDate: Date): Promise<Aula[]> {
+    // Mesma regra da receita (isBillableAula): concluídas e cobradas por falta ou cancelamento tardio
+    return await db
+      .select()
+      .from(aulas)
+      .where(and(
+        or(eq(aulas.status, 'concluido'), eq(aulas.chargeable, true)),
+        gte(aulas.startTime, startDate),
+        lte(aulas.startTime, endDate)
+      ))
+      .orderBy(asc(aulas.startTime));
+  }
+
+  async getProfessorCommissions(professorId?: number): Promise<ProfessorCommission[]> {
+    return await db
+      .select()
+      .from(professorCommissions)
+      .where(professorId ? eq(professorCommissions.professorId, professorId) : undefined)
+      .orderBy(asc(professorCommissions.professorId), asc(professorCommissions.service));
+  }
+
+  async upsertProfessorCommission(commission: InsertProfessorCommission): Promise<ProfessorCommission> {
+    const [saved] = await db
+      .insert(professorCommissions)
+      .values(commission)
+      .onConflictDoUpdate({
+        target: [professorCommissions.professorId, professorCommissions.service],
+        set: { commissionPercent: commission.commissionPercent, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteProfessorCommission(id: number): Promise<boolean> {
+    try {
+      await db.delete(professorCommissions).where(eq(professorCommissions.id, id));
+      return true;
+    } catch (error) {
+      console.error("Erro ao excluir comissão:", error);
+      return false;
+    }
+  }
+
+  async getFinancialClosings(): Promise<FinancialClosing[]> {
+    return await db.select().from(financialClosings).orderBy(desc(financialClosings.period));
+  }
+
+  async getFinancialClosing(period: string): Promise<FinancialClosing | undefined> {
+    const [closing] = await db.select().from(financialClosings).where(eq(financialClosings.period, period));
+    return closing || undefined;
+  }
+
+  async createFinancialClosing(
+    closing: InsertFinancialClosing,
+    payouts: Omit<InsertProfessorPayout, 'closingId'>[]
+  ): Promise<FinancialClosing> {
+    // Fechamento e valores devidos são gravados juntos
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(financialClosings).values(closing).returning();
+
+      if (payouts.length > 0) {
+        await tx.insert(professorPayouts).values(
+          payouts.map(payout => ({ ...payout, closingId: created.id }))
+        );
+      }
+
+      return created;
+    });
+  }
+
+  async deleteFinancialClosing(id: number): Promise<boolean> {
+    try {
+      await db.transaction(async (tx) => {
+        await tx.delete(professorPayouts).where(eq(professorPayouts.closingId, id));
+        await tx.delete(financialClosings).where(eq(financialClosings.id, id));
+      });
+      return true;
+    } catch (error) {
+      console.error("Erro ao reabrir período:", error);
+      return false;
+    }
+  }
+
+  async getProfessorPayouts(period: string): Promise<ProfessorPayout[]> {
+    return await db
+      .select()
+      .from(professorPayouts)
+      .where(eq(professorPayouts.period, period))
+      .orderBy(asc(professorPayouts.professorId));
+  }
+
+  async getProfessorPayout(id: number): Promise<ProfessorPayout | undefined> {
+    const [payout] = await db.select().from(professorPayouts).where(eq(professorPayouts.id, id));
+    return payout || undefined;
+  }
+
+  async updateProfessorPayout(id: number, updates: Partial<InsertProfessorPayout>): Promise<ProfessorPayout | undefined> {
+    const [updated] = await db
+      .update(professorPayouts)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(professorPayouts.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  // Package, purchase and payment methods
+  async getPackages(activeOnly = false): Promise<Package[]> {
+    return await db
+      .select()
+      .from(packages)
+      .where(activeOnly ? eq(packages.active, true) : undefined)
+      .orderBy(asc(packages.name));
+  }
+
+  async getPackage(id: number): Promise<Package | undefined> {
+    const [pkg] = await db.select().from(packages).where(eq(packages.id, id));
+    return pkg || undefined;
+  }
+
+  async createPackage(pkg: InsertPackage): Promise<Package> {
+    const [created] = await db.insert(packages).values(pkg).returning();
+    return created;
+  }
+
+  async updatePackage(id: number, pkg: Partial<InsertPackage>): Promise<Package | undefined> {
+    const [updated] = await db
+      .update(packages)
+      .set({ ...pkg, updatedAt: new Date() })
+      .where(eq(packages.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async getPackagePurchases(leadId: number): Promise<PackagePurchase[]> {
+    return await db
+      .select()
+      .from(packagePurchases)
+      .where(eq(packagePurchases.leadId, leadId))
+      .orderBy(desc(packagePurchases.purchasedAt));
+  }
+
+  async getPackagePurchase(id: number): Promise<PackagePurchase | undefined> {
+    const [purchase] = await db.select().from(packagePurchases).where(eq(packagePurchases.id, id));
+    return purchase || undefined;
+  }
+
+  async createPackagePurchase(
+    purchase: InsertPackagePurchase,
+    payment?: Omit<InsertPayment, 'leadId' | 'purchaseId'>
+  ): Promise<PackagePurchase> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(packagePurchases).values(purchase).returning();
+
+      if (payment) {
+        await tx.insert(payments).values({ ...payment, leadId: created.leadId, purchaseId: created.id });
+      }
+
+      // Aulas já concluídas sem crédito passam a consumir a nova compra, das mais antigas para as mais recentes,
+      // com as mesmas regras de syncAulaCreditUsage: serviço coberto pelo pacote e aula dentro da validade
+      const [pkg] = await tx.select({ service: packages.service }).from(packages).where(eq(packages.id, created.packageId));
+      const unpaid = await tx
+        .select({ id: aulaCreditUsages.id })
+        .from(aulaCreditUsages)
+        .innerJoin(aulas, eq(aulaCreditUsages.aulaId, aulas.id))
+        .where(and(
+          eq(aulaCreditUsages.leadId, created.leadId),
+          isNull(aulaCreditUsages.purchaseId),
+          lte(aulas.startTime, created.expiresAt),
+          pkg?.service ? eq(aulas.service, pkg.service) : undefined
+        ))
+        .orderBy(asc(aulas.startTime))
+        .limit(created.credits)
+        .for('update', { of: aulaCreditUsages });
+
+      if (unpaid.length === 0) {
+        return created;
+      }
+
+      const assigned = await tx
+        .update(aulaCreditUsages)
+        .set({ purchaseId: created.id })
+        .where(and(inArray(aulaCreditUsages.id, unpaid.map(usage => usage.id)), isNull(aulaCreditUsages.purchaseId)))
+        .returning({ id: aulaCreditUsages.id });
+
+      const [updated] = await tx
+        .update(packagePurchases)
+        .set({ creditsUsed: assigned.length })
+        .where(eq(packagePurchases.id, created.id))
+        .returning();
+      return updated;
+    });
+  }
+
+  async updatePackagePurchase(id: number, updates: Partial<InsertPackagePurchase>): Promise<PackagePurchase | undefined> {
+    const [updated] = await db
+      .update(packagePurchases)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(packagePurchases.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async getPayments(filters: { leadId?: number; status?: string } = {}): Promise<Payment[]> {
+    const conditions: SQL[] = [];
+    if (filters.leadId) {
+      conditions.push(eq(payments.leadId, filters.leadId));
+    }
+    if (filters.status) {
+      conditions.push(sql`${payments.status} = ${filters.status}`);
+    }
+
+    return await db
+      .select()
+      .from(payments)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(payments.dueDate));
+  }
+
+  async getPayment(id: number): Promise<Payment | undefined> {
+    const [payment] = await db.select().from(payments).where(eq(payments.id, id));
+    return payment || undefined;
+  }
+
+  async createPayment(payment: InsertPayment): Promise<Payment> {
+    const [created] = await db.insert(payments).values(payment).returning();
+    return created;
+  }
+
+  async updatePayment(id: number, updates: Partial<InsertPayment>): Promise<Payment | undefined> {
+    const [updated] = await db
+      .update(payments)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(payments.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async getCreditBalances(leadId?: number): Promise<CreditBalance[]> {
+    const now = new Date();
+
+    const credits = await db
+      .select({
+        leadId: packagePurchases.leadId,
+        creditsAvailable: sql<number>`coalesce(sum(${packagePurchases.credits} - ${packagePurchases.creditsUsed}), 0)::int`,
+        nextExpiry: sql<Date | null>`min(${packagePurchases.expiresAt}) filter (where ${packagePurchases.creditsUsed} < ${packagePurchases.credits})`,
+      })
+      .from(packagePurchases)
+      .where(and(
+        eq(packagePurchases.status, 'ativo'),
+        gte(packagePurchases.expiresAt, now),
+        leadId ? eq(packagePurchases.leadId, leadId) : undefined
+      ))
+      .groupBy(packagePurchases.leadId);
+
+    const unpaid = await db
+      .select({
+        leadId: aulaCreditUsages.leadId,
+        count: sql<number>`count(*)::int`,
+      })
+      .from(aulaCreditUsages)
+      .where(and(
+        sql`${aulaCreditUsages.purchaseId} is null`,
+        leadId ? eq(aulaCreditUsages.leadId, leadId) : undefined
+      ))
+      .groupBy(aulaCreditUsages.leadId);
+
+    const paymentTotals = await db
+      .select({
+        leadId: payments.leadId,
+        overdue: sql<number>`count(*) filter (where ${payments.dueDate} < ${now})::int`,
+        overdueAmount: sql<number>`coalesce(sum(${payments.amount}) filter (where ${payments.dueDate} < ${now}), 0)::int`,
+        pending: sql<number>`count(*)::int`,
+      })
+      .from(payments)
+      .where(and(
+        eq(payments.status, 'pendente'),
+        leadId ? eq(payments.leadId, leadId) : undefined
+      ))
+      .groupBy(payments.leadId);
+
+    // Alunos sem compras ativas ainda aparecem se tiverem aulas sem crédito ou pagamentos pendentes
+    const balances = new Map<number, CreditBalance>();
+    const ensure = (id: number) => {
+      if (!balances.has(id)) {
+        balances.set(id, {
+          leadId: id,
+          creditsAvailable: 0,
+          unpaidLessons: 0,
+          nextExpiry: null,
+          overduePayments: 0,
+          overdueAmount: 0,
+          pendingPayments: 0,
+        });
+      }
+      return balances.get(id)!;
+    };
+
+    for (const row of credits) {
+      const balance = ensure(row.leadId);
+      balance.creditsAvailable = row.creditsAvailable;
+      balance.nextExpiry = row.nextExpiry ? new Date(row.nextExpiry) : null;
+    }
+    for (const row of unpaid) {
+      ensure(row.leadId).unpaidLessons = row.count;
+    }
+    for (const row of paymentTotals) {
+      const balance = ensure(row.leadId);
+      balance.overduePayments = row.overdue;
+      balance.overdueAmount = row.overdueAmount;
+      balance.pendingPayments = row.pending;
+    }
+
+    return Array.from(balances.values());
+  }
+
+  async getLeadIdsWithPurchases(expiredSince: Date): Promise<number[]> {
+    const rows = await db
+      .selectDistinct({ leadId: packagePurchases.leadId })
+      .from(packagePurchases)
+      .where(and(eq(packagePurchases.status, 'ativo'), gte(packagePurchases.expiresAt, expiredSince)));
+    return rows.map(row => row.leadId);
+  }
+
+  // Consome (ou devolve) o crédito da aula de acordo com o status: aulas concluídas e faltas/cancelamentos cobrados consomem crédito
+  private async syncAulaCreditUsage(aula: Aula): Promise<void> {
+    const [usage] = await db.select().from(aulaCreditUsages).where(eq(aulaCreditUsages.aulaId, aula.id));
+    const billable = isBillableAula(aula);
+
+    if (!billable || (usage && usage.leadId !== aula.studentId)) {
+      await this.releaseAulaCredit(aula.id);
+      if (!billable) {
+        return;
+      }
+    } else if (usage) {
+      return;
+    }
+
+    await db.transaction(async (tx) => {
+      // Usa a compra válida que vence primeiro, respeitando o serviço coberto pelo pacote.
+      // A compra fica bloqueada até o fim da transação: aulas concluídas ao mesmo tempo não passam do saldo
+      const [purchase] = await tx
+        .select({ id: packagePurchases.id })
+        .from(packagePurchases)
+        .innerJoin(packages, eq(packagePurchases.packageId, packages.id))
+        .where(and(
+          eq(packagePurchases.leadId, aula.studentId),
+          eq(packagePurchases.status, 'ativo'),
+          gte(packagePurchases.expiresAt, aula.startTime),
+          sql`${packagePurchases.creditsUsed} < ${packagePurchases.credits}`,
+          or(sql`${packages.service} is null`, eq(packages.service, aula.service))
+        ))
+        .orderBy(asc(packagePurchases.expiresAt))
+        .limit(1)
+        .for('update', { of: packagePurchases });
+
+      const [created] = await tx
+        .insert(aulaCreditUsages)
+        .values({ aulaId: aula.id, leadId: aula.studentId, purchaseId: purchase?.id ?? null })
+        .onConflictDoNothing()
+        .returning();
+
+      if (created && purchase) {
+        // Condição repetida no UPDATE: sem saldo, a aula fica como devedora em vez de estourar o pacote
+        const [charged] = await tx
+          .update(packagePurchases)
+          .set({ creditsUsed: sql`${packagePurchases.creditsUsed} + 1`, updatedAt: new Date() })
+          .where(and(eq(packagePurchases.id, purchase.id), sql`${packagePurchases.creditsUsed} < ${packagePurchases.credits}`))
+          .returning({ id: packagePurchases.id });
+
+        if (!charged) {
+          await tx.update(aulaCreditUsages).set({ purchaseId: null }).where(eq(aulaCreditUsages.id, created.id));
+        }
+      }
+    });
+  }
+
+  private async releaseAulaCredit(aulaId: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [removed] = await tx
+        .delete(aulaCreditUsages)
+        .where(eq(aulaCreditUsages.aulaId, aulaId))
+        .returning();
+
+      if (removed?.purchaseId) {
+        await tx
+          .update(packagePurchases)
+          .set({ creditsUsed: sql`greatest(${packagePurchases.creditsUsed} - 1, 0)`, updatedAt: new Date() })
+          .where(eq(packagePurchases.id, removed.purchaseId));
+      }
+    });
+  }
+
+  // Entity change history methods
+  private async recordEntityChanges(
+    entityType: HistoryEntityType,
+    entityId: number,
+    before: Record<string, any>,
+    after: Record<string, any>,
+    changedBy?: number
+  ): Promise<FieldChange[]> {
+    const changes = diffEntity(before, after);
+    if (changes.length === 0) {
+      return changes;
+    }
+
+    // Uma falha ao gravar o histórico não deve desfazer a atualização já realizada
+    try {
+      await db.insert(entityHistory).values({
+        entityType,
+        entityId,
+        changedAt: new Date(),
+        userId: changedBy ?? null,
+        changes,
+      });
+    } catch (error) {
+      console.error(`Erro ao registrar histórico de ${entityType} ${entityId}:`, error);
+    }
+
+    return changes;
+  }
+
+  async getEntityHistory(entityType: HistoryEntityType, entityId: number): Promise<(EntityHistory & { username: string | null })[]> {
+    const rows = await db
+      .select({
+        history: entityHistory,
+        username: users.username,
+      })
+      .from(entityHistory)
+      .leftJoin(users, eq(entityHistory.userId, users.id))
+      .where(and(
+        eq(entityHistory.entityType, entityType),
+        eq(entityHistory.entityId, entityId)
+      ))
+      .orderBy(desc(entityHistory.changedAt), desc(entityHistory.id));
+
+    return rows.map(row => ({
+      ...row.history,
+      changes: row.history.changes as FieldChange[],
+      username: row.username,
+    }));
+  }
+
+  // Legacy scheduling migration
+  async getLegacyIdMappings(entityType: LegacyEntityType): Promise<LegacyIdMapping[]> {
+    return await db
+      .select()
+      .from(legacyIdMappings)
+      .where(eq(legacyIdMappings.entityType, entityType));
+  }
+
+  async getLegacyIdMapping(entityType: LegacyEntityType, legacyId: string | number): Promise<LegacyIdMapping | undefined> {
+    const [mapping] = await db
+      .select()
+      .from(legacyIdMappings)
+      .where(and(
+        eq(legacyIdMappings.entityType, entityType),
+        eq(legacyIdMappings.legacyId, String(legacyId))
+      ));
+    return mapping || undefined;
+  }
+
+  // Waitlist methods
+  async getWaitlistEntries(filters: { status?: string; leadId?: number } = {}): Promise<WaitlistEntry[]> {
+    const conditions: SQL[] = [];
+    if (filters.status) {
+      conditions.push(sql`${waitlistEntries.status} = ${filters.status}`);
+    }
+    if (filters.leadId) {
+      conditions.push(eq(waitlistEntries.leadId, filters.leadId));
+    }
+
+    // Mais antigos primeiro: é a ordem de prioridade da fila
+    return await db
+      .select()
+      .from(waitlistEntries)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(waitlistEntries.createdAt), asc(waitlistEntries.id));
+  }
+
+  async getWaitlistEntry(id: number): Promise<WaitlistEntry | undefined> {
+    const [entry] = await db.select().from(waitlistEntries).where(eq(waitlistEntries.id, id));
+    return entry || undefined;
+  }
+
+  async createWaitlistEntry(entry: InsertWaitlistEntry): Promise<WaitlistEntry> {
+    const [created] = await db.insert(waitlistEntries).values(entry).returning();
+    return created;
+  }
+
+  async updateWaitlistEntry(id: number, updates: Partial<InsertWaitlistEntry>): Promise<WaitlistEntry | undefined> {
+    const [updated] = await db
+      .update(waitlistEntries)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(waitlistEntries.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async getWaitlistOffers(filters: { status?: string; leadId?: number; cancelledAulaId?: number } = {}): Promise<WaitlistOffer[]> {
+    const conditions: SQL[] = [];
+    if (filters.status) {
+      conditions.push(sql`${waitlistOffers.status} = ${filters.status}`);
+    }
+    if (filters.leadId) {
+      conditions.push(eq(waitlistOffers.leadId, filters.leadId));
+    }
+    if (filters.cancelledAulaId) {
+      conditions.push(eq(waitlistOffers.cancelledAulaId, filters.cancelledAulaId));
+    }
+
+    return await db
+      .select()
+      .from(waitlistOffers)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(waitlistOffers.createdAt));
+  }
+
+  async getWaitlistOffer(id: number): Promise<WaitlistOffer | undefined> {
+    const [offer] = await db.select().from(waitlistOffers).where(eq(waitlistOffers.id, id));
+    return offer || undefined;
+  }
+
+  async createWaitlistOffer(offer: InsertWaitlistOffer): Promise<WaitlistOffer> {
+    const [created] = await db.insert(waitlistOffers).values(offer).returning();
+    return created;
+  }
+
+  async updateWaitlistOffer(id: number, updates: Partial<InsertWaitlistOffer>): Promise<WaitlistOffer | undefined> {
+    const [updated] = await db
+      .update(waitlistOffers)
+      .set(updates)
+      .where(eq(waitlistOffers.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  /**
+   * Marca a oferta como aceita se ela ainda está pendente (ou vencida, na confirmação pelo administrador)
+   * e nenhuma outra oferta do mesmo horário foi aceita. A condição fica no próprio UPDATE para que
+   * duas respostas simultâneas não agendem o horário duas vezes.
+   */
+  async claimWaitlistOffer(id: number, confirmedById?: number): Promise<WaitlistOffer | undefined> {
+    const [claimed] = await db
+      .update(waitlistOffers)
+      .set({ status: 'aceita', respondedAt: new Date(), confirmedById: confirmedById ?? null })
+      .where(and(
+        eq(waitlistOffers.id, id),
+        confirmedById
+          ? inArray(waitlistOffers.status, ['pendente', 'expirada'])
+          : eq(waitlistOffers.status, 'pendente'),
+        sql`not exists (
+          select 1 from ${waitlistOffers} as other_offers
+          where other_offers.cancelled_aula_id = ${waitlistOffers.cancelledAulaId}
+            and other_offers.status = 'aceita'
+        )`
+      ))
+      .returning();
+    return claimed || undefined;
+  }
+
+  async getOpenWaitlistOfferForLead(leadId: number, now: Date): Promise<WaitlistOffer | undefined> {
+    const [offer] = await db
+      .select()
+      .from(waitlistOffers)
+      .where(and(
+        eq(waitlistOffers.leadId, leadId),
+        eq(waitlistOffers.status, 'pendente'),
+        gte(waitlistOffers.expiresAt, now)
+      ))
+      .orderBy(desc(waitlistOffers.createdAt))
+      .limit(1);
+    return offer || undefined;
+  }
+
+  // Student portal access
+  async createPortalAccessToken(token: InsertPortalAccessToken): Promise<PortalAccessToken> {
+    const [created] = await db.insert(portalAccessTokens).values(token).returning();
+    return created;
+  }
+
+  async countPortalAccessTokensSince(leadId: number, since: Date): Promise<number> {
+    const [row] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(portalAccessTokens)
+      .where(and(eq(portalAccessTokens.leadId, leadId), gte(portalAccessTokens.createdAt, since)));
+    return row?.count ?? 0;
+  }
+
+  async getPortalAccessTokenByHash(tokenHash: string): Promise<PortalAccessToken | undefined> {
+    const [token] = await db.select().from(portalAccessTokens).where(eq(portalAccessTokens.tokenHash, tokenHash));
+    return token || undefined;
+  }
+
+  /**
+   * Último acesso pedido pelo aluno ainda válido (não usado e dentro da validade)
+   */
+  async getLatestPortalAccessToken(leadId: number, now: Date): Promise<PortalAccessToken | undefined> {
+    const [token] = await db
+      .select()
+      .from(portalAccessTokens)
+      .where(and(
+        eq(portalAccessTokens.leadId, leadId),
+        isNull(portalAccessTokens.usedAt),
+        gte(portalAccessTokens.expiresAt, now)
+      ))
+      .orderBy(desc(portalAccessTokens.createdAt))
+      .limit(1);
+    return token || undefined;
+  }
+
+  /**
+   * Conta uma tentativa de código e devolve o acesso só se ainda havia tentativas: o limite é conferido
+   * no mesmo UPDATE, para que pedidos simultâneos não passem todos pela verificação
+   */
+  async claimPortalCodeAttempt(id: number, maxAttempts: number): Promise<PortalAccessToken | undefined> {
+    const [claimed] = await db
+      .update(portalAccessTokens)
+      .set({ attempts: sql`${portalAccessTokens.attempts} + 1` })
+      .where(and(
+        eq(portalAccessTokens.id, id),
+        isNull(portalAccessTokens.usedAt),
+        sql`${portalAccessTokens.attempts} < ${maxAttempts}`
+      ))
+      .returning();
+    return claimed || undefined;
+  }
+
+  /**
+   * Marca o acesso como usado; a condição no UPDATE impede que o mesmo link ou código abra duas sessões
+   */
+  async consumePortalAccessToken(id: number): Promise<PortalAccessToken | undefined> {
+    const [consumed] = await db
+      .update(portalAccessTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(portalAccessTokens.id, id), isNull(portalAccessTokens.usedAt)))
+      .returning();
+    return consumed || undefined;
+  }
+
+  // Sales pipeline methods
+  async getPipelineStages(activeOnly = false): Promise<PipelineStage[]> {
+    return await db
+      .select()
+      .from(pipelineStages)
+      .where(activeOnly ? eq(pipelineStages.active, true) : undefined)
+      .orderBy(asc(pipelineStages.position), asc(pipelineStages.id));
+  }
+
+  async getPipelineStage(id: number): Promise<PipelineStage | undefined> {
+    const [stage] = await db.select().from(pipelineStages).where(eq(pipelineStages.id, id));
+    return stage || undefined;
+  }
+
+  async createPipelineStage(stage: InsertPipelineStage): Promise<PipelineStage> {
+    const [created] = await db.insert(pipelineStages).values(stage).returning();
+    return created;
+  }
+
+  async updatePipelineStage(id: number, updates: Partial<InsertPipelineStage>): Promise<PipelineStage | undefined> {
+    const [updated] = await db
+      .update(pipelineStages)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(pipelineStages.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async reorderPipelineStages(ids: number[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      for (let position = 0; position < ids.length; position++) {
+        await tx
+          .update(pipelineStages)
+          .set({ position, updatedAt: new Date() })
+          .where(eq(pipelineStages.id, ids[position]));
+      }
+    });
+  }
+
+  async countLeadsInStage(stageId: number): Promise<number> {
+    const [row] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(leads)
+      .where(eq(leads.stageId, stageId));
+    return row?.count ?? 0;
+  }
+
+  async getLossReasons(activeOnly = false): Promise<LossReason[]> {
+    return await db
+      .select()
+      .from(lossReasons)
+      .where(activeOnly ? eq(lossReasons.active, true) : undefined)
+      .orderBy(asc(lossReasons.name));
+  }
+
+  async createLossReason(reason: InsertLossReason): Promise<LossReason> {
+    const [created] = await db.insert(lossReasons).values(reason).returning();
+    return created;
+  }
+
+  async updateLossReason(id: number, updates: Partial<InsertLossReason>): Promise<LossReason | undefined> {
+    const [updated] = await db
+      .update(lossReasons)
+      .set(updates)
+      .where(eq(lossReasons.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  /**
+   * Move o lead para a etapa, atualizando o status derivado dela e registrando a transição.
+   * O lead é bloqueado durante a troca para que duas mudanças simultâneas não gravem o mesmo "de" duas vezes.
+   */
+  async moveLeadToStage(leadId: number, stage: PipelineStage, options: MoveLeadStageOptions = {}): Promise<Lead | undefined> {
+    const at = options.at ?? new Date();
+
+    const result = await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(leads).where(eq(leads.id, leadId)).for('update');
+      if (!before) {
+        return undefined;
+      }
+      if (before.stageId === stage.id) {
+        return { before, after: before };
+      }
+
+      const lossReason = stage.kind === 'perdido' ? options.lossReason || null : null;
+      const [after] = await tx
+        .update(leads)
+        .set({
+          stageId: stage.id,
+          stageEnteredAt: at,
+          lossReason,
+          status: stageMatchesStatus(stage.kind, before.status) ? before.status : statusForStageKind(stage.kind),
+          updatedAt: new Date(),
+        })
+        .where(eq(leads.id, leadId))
+        .returning();
+
+      await tx.insert(leadStageTransitions).values({
+        leadId,
+        fromStageId: before.stageId,
+        toStageId: stage.id,
+        fromStageEnteredAt: before.stageEnteredAt,
+        lossReason,
+        changedBy: options.changedBy ?? null,
+        createdAt: at,
+      });
+
+      return { before, after };
+    });
+
+    if (!result) {
+      return undefined;
+    }
+
+    // O histórico do lead mostra a mudança de status; as etapas ficam nas transições
+    await this.recordEntityChanges('lead', leadId, { status: result.before.status }, { status: result.after.status }, options.changedBy);
+    return result.after;
+  }
+
+  async getLeadStageTransitions(leadId: number): Promise<LeadStageTransition[]> {
+    return await db
+      .select()
+      .from(leadStageTransitions)
+      .where(eq(leadStageTransitions.leadId, leadId))
+      .orderBy(asc(leadStageTransitions.createdAt), asc(leadStageTransitions.id));
+  }
+
+  async getLeadsWithoutStage(afterId: number, limit: number): Promise<Lead[]> {
+    return await db
+      .select()
+      .from(leads)
+      .where(and(isNull(leads.stageId), gt(leads.id, afterId)))
+      .orderBy(asc(leads.id))
+      .limit(limit);
+  }
+
+  async getPipelineBoard(limitPerStage: number): Promise<PipelineBoardColumn[]> {
+    const stages = await this.getPipelineStages(true);
+    if (stages.length === 0) {
+      return [];
+    }
+
+    const totals = await db
+      .select({ stageId: leads.stageId, total: sql<number>`count(*)::int` })
+      .from(leads)
+      .where(inArray(leads.stageId, stages.map(stage => stage.id)))
+      .groupBy(leads.stageId);
+
+    // Uma consulta por coluna usa o índice (stage_id, stage_entered_at) e traz só os leads mais recentes
+    return await Promise.all(stages.map(async (stage) => ({
+      stage,
+      total: totals.find(row => row.stageId === stage.id)?.total ?? 0,
+      leads: await db
+        .select()
+        .from(leads)
+        .where(eq(leads.stageId, stage.id))
+        .orderBy(desc(leads.stageEnteredAt), desc(leads.id))
+        .limit(limitPerStage),
+    })));
+  }
+
+  async getPipelineStageMetrics(startDate: Date, endDate: Date): Promise<PipelineStageMetrics[]> {
+    const inPeriod = and(gte(leadStageTransitions.createdAt, startDate), lte(leadStageTransitions.createdAt, endDate));
+
+    const [stages, current, entered, exited] = await Promise.all([
+      this.getPipelineStages(),
+      db
+        .select({ stageId: leads.stageId, count: sql<number>`count(*)::int` })
+        .from(leads)
+        .groupBy(leads.stageId),
+      db
+        .select({ stageId: leadStageTransitions.toStageId, count: sql<number>`count(*)::int` })
+        .from(leadStageTransitions)
+        .where(inPeriod)
+        .groupBy(leadStageTransitions.toStageId),
+      db
+        .select({
+          stageId: leadStageTransitions.fromStageId,
+          count: sql<number>`count(*)::int`,
+          avgHours: sql<number | null>`avg(extract(epoch from ${leadStageTransitions.createdAt} - ${leadStageTransitions.fromStageEnteredAt}) / 3600)::float`,
+        })
+        .from(leadStageTransitions)
+        .where(and(inPeriod, sql`${leadStageTransitions.fromStageId} is not null`))
+        .groupBy(leadStageTransitions.fromStageId),
+    ]);
+
+    return stages.map(stage => {
+      const exits = exited.find(row => row.stageId === stage.id);
+      return {
+        stageId: stage.id,
+        current: current.find(row => row.stageId === stage.id)?.count ?? 0,
+        entered: entered.find(row => row.stageId === stage.id)?.count ?? 0,
+        exited: exits?.count ?? 0,
+        avgHoursInStage: exits?.avgHours == null ? null : Number(exits.avgHours.toFixed(1)),
+      };
+    });
+  }
+
+  async getLossReasonCounts(startDate: Date, endDate: Date): Promise<LossReasonCount[]> {
+    return await db
+      .select({
+        reason: sql<string>`coalesce(${leadStageTransitions.lossReason}, 'Não informado')`,
+        count: sql<number>`count(*)::int`,
+      })
+      .from(leadStageTransitions)
+      .innerJoin(pipelineStages, eq(pipelineStages.id, leadStageTransitions.toStageId))
+      .where(and(
+        eq(pipelineStages.kind, 'perdido'),
+        gte(leadStageTransitions.createdAt, startDate),
+        lte(leadStageTransitions.createdAt, endDate)
+      ))
+      .groupBy(sql`1`)
+      .orderBy(sql`count(*) desc`);
+  }
+
+  // Lead import jobs
+  async createLeadImportJob(job: InsertLeadImportJob): Promise<LeadImportJob> {
+    const [created] = await db.insert(leadImportJobs).values(job).returning();
+    return toLeadImportJob(created);
+  }
+
+  async getLeadImportJob(id: number): Promise<LeadImportJob | undefined> {
+    const [job] = await db.select().from(leadImportJobs).where(eq(leadImportJobs.id, id));
+    return job ? toLeadImportJob(job) : undefined;
+  }
+
+  async getLeadImportJobs(limit: number): Promise<LeadImportJob[]> {
+    const jobs = await db
+      .select()
+      .from(leadImportJobs)
+      .orderBy(desc(leadImportJobs.createdAt))
+      .limit(limit);
+    return jobs.map(toLeadImportJob);
+  }
+
+  async updateLeadImportJob(id: number, updates: Partial<InsertLeadImportJob>): Promise<LeadImportJob | undefined> {
+    const [job] = await db
+      .update(leadImportJobs)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(leadImportJobs.id, id))
+      .returning();
+    return job ? toLeadImportJob(job) : undefined;
+  }
+
+  /**
+   * Reserva a próxima importação da fila, ou uma em processamento sem sinal de vida desde staleBefore
+   * (o servidor foi reiniciado no meio dela). SKIP LOCKED evita que duas instâncias peguem a mesma.
+   */
+  async claimLeadImportJob(staleBefore: Date): Promise<LeadImportJob | undefined> {
+    return await db.transaction(async (tx) => {
+      const [next] = await tx
+        .select({ id: leadImportJobs.id })
+        .from(leadImportJobs)
+        .where(or(
+          eq(leadImportJobs.status, 'na_fila'),
+          and(eq(leadImportJobs.status, 'processando'), lt(leadImportJobs.updatedAt, staleBefore))
+        ))
+        .orderBy(asc(leadImportJobs.id))
+        .limit(1)
+        .for('update', { skipLocked: true });
+      if (!next) {
+        return undefined;
+      }
+
+      const now = new Date();
+      const [job] = await tx
+        .update(leadImportJobs)
+        .set({
+          status: 'processando',
+          startedAt: sql`coalesce(${leadImportJobs.startedAt}, ${now})`,
+          lastError: null,
+          updatedAt: now,
+        })
+        .where(eq(leadImportJobs.id, next.id))
+        .returning();
+      return toLeadImportJob(job);
+    });
+  }
+
+  /**
+   * Grava o avanço de um lote junto com as linhas rejeitadas, para a retomada não repetir erros
+   */
+  async saveLeadImportProgress(id: number, progress: LeadImportProgress, errors: InsertLeadImportError[]): Promise<LeadImportJob | undefined> {
+    return await db.transaction(async (tx) => {
+      if (errors.length > 0) {
+        await tx.insert(leadImportErrors).values(errors);
+      }
+      const [job] = await tx
+        .update(leadImportJobs)
+        .set({ ...progress, updatedAt: new Date() })
+        .where(eq(leadImportJobs.id, id))
+        .returning();
+      return job ? toLeadImportJob(job) : undefined;
+    });
+  }
+
+  async getLeadImportErrors(jobId: number, afterId: number, limit: number): Promise<LeadImportError[]> {
+    const rows = await db
+      .select()
+      .from(leadImportErrors)
+      .where(and(eq(leadImportErrors.jobId, jobId), gt(leadImportErrors.id, afterId)))
+      .orderBy(asc(leadImportErrors.id))
+      .limit(limit);
+    return rows.map(row => ({ ...row, data: row.data as Record<string, string> }));
+  }
 }
 
 // Inicializa o armazenamento usando o banco de dados PostgreSQL
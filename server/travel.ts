@@ -0,0 +1,17 @@
+import { DEFAULT_TRAVEL_SETTINGS, type TravelSettings } from '@shared/travel';
+
+function readNumber(name: string, fallback: number, min: number): number {
+  const value = parseFloat(process.env[name] || '');
+  return value >= min ? value : fallback;
+}
+
+/**
+ * Parâmetros da estimativa de deslocamento entre aulas (ver shared/travel.ts)
+ */
+export function getTravelSettings(): TravelSettings {
+  return {
+    defaultMinutes: readNumber('TRAVEL_DEFAULT_MINUTES', DEFAULT_TRAVEL_SETTINGS.defaultMinutes, 0),
+    sameZoneMinutes: readNumber('TRAVEL_SAME_ZONE_MINUTES', DEFAULT_TRAVEL_SETTINGS.sameZoneMinutes, 0),
+    averageSpeedKmh: readNumber('TRAVEL_AVERAGE_SPEED_KMH', DEFAULT_TRAVEL_SETTINGS.averageSpeedKmh, 1),
+  };
+}
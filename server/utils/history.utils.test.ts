@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { diffEntity } from "./history.utils";
+
+describe("diffEntity", () => {
+  it("retorna só os campos alterados, com os valores antes e depois", () => {
+    const before = { id: 1, name: "Ana", status: "Lead", tags: ["vip"], notes: null };
+    const after = { id: 1, name: "Ana Souza", status: "Lead", tags: ["vip", "indicação"], notes: null };
+
+    expect(diffEntity(before, after)).toEqual([
+      { field: "name", oldValue: "Ana", newValue: "Ana Souza" },
+      { field: "tags", oldValue: ["vip"], newValue: ["vip", "indicação"] },
+    ]);
+  });
+
+  it("compara datas pelo instante e grava em ISO", () => {
+    const before = { startTime: new Date("2025-03-10T13:00:00.000Z"), endTime: new Date("2025-03-10T14:00:00.000Z") };
+    const after = { startTime: new Date("2025-03-10T13:00:00.000Z"), endTime: new Date("2025-03-10T14:30:00.000Z") };
+
+    expect(diffEntity(before, after)).toEqual([
+      { field: "endTime", oldValue: "2025-03-10T14:00:00.000Z", newValue: "2025-03-10T14:30:00.000Z" },
+    ]);
+  });
+
+  it("ignora campos controlados pelo sistema e trata ausente como nulo", () => {
+    const before = { id: 1, updatedAt: new Date("2025-03-01T00:00:00.000Z"), campaign: undefined, state: "SP" };
+    const after = { id: 1, updatedAt: new Date("2025-03-02T00:00:00.000Z"), campaign: null, state: "RJ", email: "ana@example.com" };
+
+    expect(diffEntity(before, after)).toEqual([
+      { field: "state", oldValue: "SP", newValue: "RJ" },
+      { field: "email", oldValue: null, newValue: "ana@example.com" },
+    ]);
+  });
+});
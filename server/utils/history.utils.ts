@@ -0,0 +1,30 @@
+import type { FieldChange } from "@shared/schema";
+
+// Campos controlados pelo sistema que não entram no histórico
+const IGNORED_FIELDS = new Set(['id', 'createdAt', 'updatedAt']);
+
+// Normaliza valores para comparação e armazenamento em JSON
+function normalizeValue(value: unknown): unknown {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return value === undefined ? null : value;
+}
+
+// Compara o registro antes e depois da atualização e retorna apenas os campos alterados
+export function diffEntity(before: Record<string, any>, after: Record<string, any>): FieldChange[] {
+  const changes: FieldChange[] = [];
+
+  for (const field of Object.keys(after)) {
+    if (IGNORED_FIELDS.has(field)) continue;
+
+    const oldValue = normalizeValue(before[field]);
+    const newValue = normalizeValue(after[field]);
+
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      changes.push({ field, oldValue, newValue });
+    }
+  }
+
+  return changes;
+}
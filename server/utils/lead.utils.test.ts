@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { canonicalPhone, getStateFromPhone } from "./lead.utils";
+
+describe("getStateFromPhone", () => {
+  it("deduz a UF pelo DDD, com ou sem o código do país", () => {
+    expect(getStateFromPhone("(21) 98765-4321")).toBe("RJ");
+    expect(getStateFromPhone("+55 61 3333-4444")).toBe("DF");
+    expect(getStateFromPhone("5511987654321")).toBe("SP");
+  });
+
+  it("retorna null para DDD inexistente ou telefone vazio", () => {
+    expect(getStateFromPhone("(20) 98765-4321")).toBeNull();
+    expect(getStateFromPhone("")).toBeNull();
+  });
+});
+
+describe("canonicalPhone", () => {
+  it("chega ao mesmo número a partir dos formatos usados por WhatsApp, formulários e planilhas", () => {
+    const expected = "11987654321";
+
+    expect(canonicalPhone("5511987654321")).toBe(expected);
+    expect(canonicalPhone("+55 (11) 98765-4321")).toBe(expected);
+    expect(canonicalPhone("0055 11 98765-4321")).toBe(expected);
+    expect(canonicalPhone("0 21 11 98765-4321")).toBe(expected);
+    expect(canonicalPhone("(011) 98765-4321")).toBe(expected);
+    // Celular gravado antes do nono dígito
+    expect(canonicalPhone("11 8765-4321")).toBe(expected);
+  });
+
+  it("não acrescenta o nono dígito em telefone fixo", () => {
+    expect(canonicalPhone("(11) 3333-4444")).toBe("1133334444");
+  });
+});
@@ -1,4 +1,113 @@
 export const normalizePhone = (phone: string): string => {
   if (!phone) return '';
   return phone.replace(/[\s\(\)\-\+]/g, '');
-}; 
\ No newline at end of file
+}; 
+
+// UF correspondente a cada DDD brasileiro
+const DDD_STATES: Record<string, string> = {
+  '11': 'SP', '12': 'SP', '13': 'SP', '14': 'SP', '15': 'SP', '16': 'SP', '17': 'SP', '18': 'SP', '19': 'SP',
+  '21': 'RJ', '22': 'RJ', '24': 'RJ', '27': 'ES', '28': 'ES',
+  '31': 'MG', '32': 'MG', '33': 'MG', '34': 'MG', '35': 'MG', '37': 'MG', '38': 'MG',
+  '41': 'PR', '42': 'PR', '43': 'PR', '44': 'PR', '45': 'PR', '46': 'PR',
+  '47': 'SC', '48': 'SC', '49': 'SC',
+  '51': 'RS', '53': 'RS', '54': 'RS', '55': 'RS',
+  '61': 'DF', '62': 'GO', '64': 'GO', '63': 'TO', '65': 'MT', '66': 'MT', '67': 'MS',
+  '68': 'AC', '69': 'RO',
+  '71': 'BA', '73': 'BA', '74': 'BA', '75': 'BA', '77': 'BA', '79': 'SE',
+  '81': 'PE', '87': 'PE', '82': 'AL', '83': 'PB', '84': 'RN', '85': 'CE', '88': 'CE', '86': 'PI', '89': 'PI',
+  '91': 'PA', '93': 'PA', '94': 'PA', '92': 'AM', '97': 'AM', '95': 'RR', '96': 'AP', '98': 'MA', '99': 'MA',
+};
+
+/**
+ * Deduz a UF a partir do DDD de um telefone brasileiro (com ou sem o código do país)
+ */
+export const getStateFromPhone = (phone: string): string | null => {
+  let digits = (phone || '').replace(/\D/g, '');
+  if (digits.startsWith('55') && digits.length >= 12) {
+    digits = digits.slice(2);
+  }
+  return DDD_STATES[digits.slice(0, 2)] || null;
+};
+
+/**
+ * Forma canônica de um telefone brasileiro para comparação: DDD + número, sem o código do país (55),
+ * sem o zero de longa distância/operadora e com o nono dígito nos celulares cadastrados no formato antigo.
+ * Números sem DDD voltam só com os dígitos.
+ */
+export const canonicalPhone = (phone: string): string => {
+  let digits = (phone || '').replace(/\D/g, '');
+
+  if (digits.startsWith('00')) {
+    digits = digits.slice(2);
+  }
+  if (digits.startsWith('55') && (digits.length === 12 || digits.length === 13)) {
+    digits = digits.slice(2);
+  }
+  if (digits.startsWith('0')) {
+    // 0 + operadora + DDD + número (ex.: 0 21 11 98765-4321) ou só 0 + DDD + número
+    digits = digits.length >= 13 ? digits.slice(3) : digits.slice(1);
+  }
+
+  // Celular com DDD e 8 dígitos (anterior ao nono dígito)
+  if (digits.length === 10 && DDD_STATES[digits.slice(0, 2)] && /[6-9]/.test(digits[2])) {
+    digits = `${digits.slice(0, 2)}9${digits.slice(2)}`;
+  }
+
+  return digits;
+};
+
+/**
+ * Nome sem acentos, em minúsculas e só com letras e espaços
+ */
+export const normalizeName = (name: string): string => {
+  return (name || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+// Partículas que não ajudam a distinguir nomes
+const NAME_PARTICLES = new Set(['da', 'de', 'do', 'das', 'dos', 'e']);
+
+const bigrams = (value: string): string[] => {
+  const result: string[] = [];
+  for (let i = 0; i < value.length - 1; i++) {
+    result.push(value.slice(i, i + 2));
+  }
+  return result;
+};
+
+/**
+ * Similaridade entre dois nomes, de 0 a 1 (coeficiente de Dice sobre pares de letras).
+ * Um nome contido no outro ("Ana Souza" e "Ana Paula de Souza") conta como muito parecido.
+ */
+export const nameSimilarity = (a: string, b: string): number => {
+  const tokensA = normalizeName(a).split(' ').filter(token => token && !NAME_PARTICLES.has(token));
+  const tokensB = normalizeName(b).split(' ').filter(token => token && !NAME_PARTICLES.has(token));
+  if (tokensA.length === 0 || tokensB.length === 0) return 0;
+
+  const joinedA = tokensA.join(' ');
+  const joinedB = tokensB.join(' ');
+  if (joinedA === joinedB) return 1;
+
+  const pairsA = bigrams(joinedA);
+  const pairsB = bigrams(joinedB);
+  const remaining = pairsB.slice();
+  let shared = 0;
+  for (const pair of pairsA) {
+    const index = remaining.indexOf(pair);
+    if (index >= 0) {
+      shared++;
+      remaining.splice(index, 1);
+    }
+  }
+  const dice = pairsA.length + pairsB.length > 0 ? (2 * shared) / (pairsA.length + pairsB.length) : 0;
+
+  const [shorter, longer] = tokensA.length <= tokensB.length ? [tokensA, tokensB] : [tokensB, tokensA];
+  const contained = shorter.length >= 2 && shorter.every(token => longer.includes(token));
+
+  return contained ? Math.max(dice, 0.9) : dice;
+};
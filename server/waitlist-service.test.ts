@@ -0,0 +1,26 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("./storage", () => ({ storage: {} }));
+vi.mock("./whatsapp-service", () => ({ sendWhatsAppMessage: vi.fn() }));
+vi.mock("./google-calendar-sync", () => ({ syncAulaWithGoogle: vi.fn() }));
+vi.mock("./finance-service", () => ({ findClosedPeriod: vi.fn() }));
+vi.mock("./vite", () => ({ log: vi.fn() }));
+
+import { parseWaitlistReply } from "./waitlist-service";
+
+describe("parseWaitlistReply", () => {
+  it("reconhece aceite e recusa sem depender de acento, caixa ou pontuação", () => {
+    expect(parseWaitlistReply("SIM!")).toBe("accept");
+    expect(parseWaitlistReply("  quero ")).toBe("accept");
+    expect(parseWaitlistReply("Ok.")).toBe("accept");
+    expect(parseWaitlistReply("Não")).toBe("decline");
+    expect(parseWaitlistReply("não quero")).toBe("decline");
+    expect(parseWaitlistReply("N")).toBe("decline");
+  });
+
+  it("ignora mensagens que não são uma resposta à oferta", () => {
+    expect(parseWaitlistReply("sim, mas só depois das 18h")).toBeNull();
+    expect(parseWaitlistReply("Bom dia")).toBeNull();
+    expect(parseWaitlistReply("")).toBeNull();
+  });
+});
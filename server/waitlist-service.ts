@@ -0,0 +1,361 @@
+import { formatInTimeZone } from 'date-fns-tz';
+import type { Aula, Lead, WaitlistOffer } from '@shared/schema';
+import { AVAILABILITY_TIMEZONE } from '@shared/availability';
+import { matchesWaitlistPreferences } from '@shared/waitlist';
+import { storage } from './storage';
+import { sendWhatsAppMessage } from './whatsapp-service';
+import { syncAulaWithGoogle } from './google-calendar-sync';
+import { findClosedPeriod } from './finance-service';
+import { log } from './vite';
+
+/**
+ * Lista de espera: quando uma aula é cancelada, o horário é oferecido por WhatsApp aos primeiros alunos
+ * compatíveis da fila. A primeira resposta "SIM" (ou a confirmação de um administrador) agenda a aula;
+ * recusas e ofertas vencidas passam o horário para os próximos da fila.
+ */
+
+export interface WaitlistSettings {
+  batchSize: number; // Quantos alunos recebem a oferta ao mesmo tempo
+  offerMinutes: number; // Validade da oferta
+  minNoticeMinutes: number; // Horários mais próximos que isso não são oferecidos
+}
+
+export type OfferResult =
+  | { aula: Aula; offer: WaitlistOffer }
+  | { error: string; status: number };
+
+function readNumber(name: string, fallback: number, min: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return value >= min ? value : fallback;
+}
+
+export function getWaitlistSettings(): WaitlistSettings {
+  return {
+    batchSize: readNumber('WAITLIST_OFFER_BATCH', 3, 1),
+    offerMinutes: readNumber('WAITLIST_OFFER_MINUTES', 120, 5),
+    minNoticeMinutes: readNumber('WAITLIST_MIN_NOTICE_MINUTES', 60, 0),
+  };
+}
+
+const formatWhen = (date: Date) => formatInTimeZone(date, AVAILABILITY_TIMEZONE, "dd/MM 'às' HH:mm");
+
+// Respostas aceitas pelo WhatsApp, sem acento e em minúsculas
+const ACCEPT_REPLIES = ['sim', 's', 'quero', 'confirmo', 'aceito', 'ok'];
+const DECLINE_REPLIES = ['nao', 'n', 'nao quero', 'recuso'];
+
+/**
+ * Interpreta a resposta do aluno à oferta (null quando a mensagem não é uma resposta)
+ */
+export function parseWaitlistReply(content: string): 'accept' | 'decline' | null {
+  const normalized = content
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z ]/g, '')
+    .trim();
+
+  if (ACCEPT_REPLIES.includes(normalized)) return 'accept';
+  if (DECLINE_REPLIES.includes(normalized)) return 'decline';
+  return null;
+}
+
+async function sendWaitlistMessage(lead: Lead, content: string): Promise<boolean> {
+  if (!lead.phone) {
+    return false;
+  }
+
+  const message = await storage.createWhatsappMessage({
+    leadId: lead.id,
+    direction: 'outgoing',
+    content,
+    status: 'pending',
+    messageId: null,
+  });
+
+  const result = await sendWhatsAppMessage(lead, content);
+  await storage.updateWhatsappMessageStatus(message.id, result.success ? 'sent' : 'failed');
+  if (result.success && result.messageId) {
+    await storage.updateWhatsappMessageId(message.id, result.messageId);
+  }
+  return result.success;
+}
+
+async function getProfessorName(professorId: number): Promise<string> {
+  const professor = await storage.getUserById(professorId);
+  return professor?.name || professor?.username || 'o professor';
+}
+
+/**
+ * Oferece o horário da aula cancelada aos próximos alunos compatíveis da fila.
+ * Não oferece de novo a quem já recebeu a oferta deste horário nem enquanto houver ofertas em aberto suficientes.
+ */
+export async function offerFreedSlot(aula: Aula, now: Date = new Date()): Promise<WaitlistOffer[]> {
+  const settings = getWaitlistSettings();
+  if (aula.status !== 'cancelado' || aula.startTime.getTime() - now.getTime() < settings.minNoticeMinutes * 60000) {
+    return [];
+  }
+
+  const previousOffers = await storage.getWaitlistOffers({ cancelledAulaId: aula.id });
+  if (previousOffers.some(offer => offer.status === 'aceita')) {
+    return [];
+  }
+
+  // Ofertas vencidas liberam a vez para os próximos da fila
+  let openOffers = 0;
+  for (const offer of previousOffers) {
+    if (offer.status !== 'pendente') continue;
+    if (offer.expiresAt < now) {
+      await storage.updateWaitlistOffer(offer.id, { status: 'expirada' });
+    } else {
+      openOffers++;
+    }
+  }
+
+  const available = settings.batchSize - openOffers;
+  if (available <= 0) {
+    return [];
+  }
+
+  const alreadyOffered = new Set(previousOffers.map(offer => offer.leadId));
+  alreadyOffered.add(aula.studentId);
+  const slot = { professorId: aula.professorId, startTime: aula.startTime, endTime: aula.endTime, service: aula.service };
+  const entries = await storage.getWaitlistEntries({ status: 'aguardando' });
+
+  const professorName = await getProfessorName(aula.professorId);
+  const expiresAt = new Date(Math.min(now.getTime() + settings.offerMinutes * 60000, aula.startTime.getTime()));
+  const created: WaitlistOffer[] = [];
+
+  for (const entry of entries) {
+    if (created.length >= available) break;
+    if (alreadyOffered.has(entry.leadId) || !matchesWaitlistPreferences(entry, slot)) continue;
+    alreadyOffered.add(entry.leadId);
+
+    // O aluno precisa estar livre (o professor já está, com a aula cancelada)
+    const conflict = await storage.checkSchedulingConflicts(
+      aula.professorId, entry.leadId, aula.startTime, aula.endTime, aula.id,
+      { locationId: aula.locationId, location: aula.location }
+    );
+    if (conflict) continue;
+
+    const lead = await storage.getLead(entry.leadId);
+    if (!lead?.phone) continue;
+
+    const offer = await storage.createWaitlistOffer({
+      entryId: entry.id,
+      leadId: lead.id,
+      cancelledAulaId: aula.id,
+      expiresAt,
+    });
+
+    const firstName = lead.name.split(' ')[0];
+    const sent = await sendWaitlistMessage(lead,
+      `Olá, ${firstName}! Abriu um horário de ${aula.service} com ${professorName} em ${formatWhen(aula.startTime)}, ` +
+      `em ${aula.location}. Quer ficar com ele? Responda SIM para confirmar ou NÃO para recusar. ` +
+      `A oferta vale até ${formatWhen(expiresAt)}.`
+    );
+    if (!sent) {
+      await storage.updateWaitlistOffer(offer.id, { status: 'expirada' });
+      continue;
+    }
+    created.push(offer);
+  }
+
+  if (created.length > 0) {
+    log(`Horário da aula #${aula.id} oferecido a ${created.length} aluno(s) da lista de espera`, 'waitlist');
+  }
+  return created;
+}
+
+/**
+ * Chamado depois de alterar uma aula: se ela acabou de ser cancelada, oferece o horário à lista de espera.
+ * Nunca lança erro, para não interromper a operação que cancelou a aula.
+ */
+export async function offerSlotIfCancelled(before: Pick<Aula, 'status'> | undefined, after: Aula): Promise<void> {
+  if (before?.status === 'cancelado' || after.status !== 'cancelado') {
+    return;
+  }
+
+  try {
+    await offerFreedSlot(after);
+  } catch (error) {
+    console.error(`Erro ao oferecer o horário da aula ${after.id} à lista de espera:`, error);
+  }
+}
+
+/**
+ * Aceita a oferta e agenda a aula no horário liberado (resposta do aluno ou confirmação do administrador)
+ */
+export async function acceptWaitlistOffer(offerId: number, confirmedById?: number, now: Date = new Date()): Promise<OfferResult> {
+  const offer = await storage.getWaitlistOffer(offerId);
+  if (!offer) {
+    return { error: 'Oferta não encontrada', status: 404 };
+  }
+  // O administrador pode confirmar uma oferta vencida; o aluno não
+  if (!confirmedById && offer.expiresAt < now) {
+    return { error: 'A oferta expirou', status: 409 };
+  }
+
+  const cancelledAula = await storage.getAulaById(offer.cancelledAulaId);
+  if (!cancelledAula || cancelledAula.startTime < now) {
+    return { error: 'O horário já passou', status: 409 };
+  }
+
+  const closedPeriod = await findClosedPeriod(cancelledAula.startTime);
+  if (closedPeriod) {
+    return { error: `O período ${closedPeriod} está fechado para alterações`, status: 423 };
+  }
+
+  const claimed = await storage.claimWaitlistOffer(offer.id, confirmedById);
+  if (!claimed) {
+    return { error: 'O horário já foi preenchido ou a oferta já foi respondida', status: 409 };
+  }
+
+  const conflict = await storage.checkSchedulingConflicts(
+    cancelledAula.professorId, offer.leadId, cancelledAula.startTime, cancelledAula.endTime, cancelledAula.id,
+    { locationId: cancelledAula.locationId, location: cancelledAula.location }
+  );
+  if (conflict) {
+    await storage.updateWaitlistOffer(offer.id, { status: 'preenchida' });
+    return { error: conflict.message || 'O horário não está mais livre', status: 409 };
+  }
+
+  const aula = await storage.createAula({
+    professorId: cancelledAula.professorId,
+    studentId: offer.leadId,
+    startTime: cancelledAula.startTime,
+    endTime: cancelledAula.endTime,
+    location: cancelledAula.location,
+    locationId: cancelledAula.locationId,
+    value: cancelledAula.value,
+    service: cancelledAula.service,
+    notes: 'Aula agendada pela lista de espera',
+    status: 'agendado',
+  });
+
+  const booked = await storage.updateWaitlistOffer(offer.id, { bookedAulaId: aula.id });
+  await storage.updateWaitlistEntry(offer.entryId, { status: 'atendido' });
+
+  // Demais ofertas do mesmo horário deixam de valer
+  const otherOffers = await storage.getWaitlistOffers({ cancelledAulaId: cancelledAula.id, status: 'pendente' });
+  for (const other of otherOffers) {
+    await storage.updateWaitlistOffer(other.id, { status: 'preenchida' });
+  }
+
+  syncAulaWithGoogle(aula);
+
+  const lead = await storage.getLead(offer.leadId);
+  if (lead) {
+    const professorName = await getProfessorName(aula.professorId);
+    await sendWaitlistMessage(lead, `Pronto! Sua aula de ${aula.service} com ${professorName} está marcada para ${formatWhen(aula.startTime)}, em ${aula.location}.`);
+  }
+
+  log(`Aula #${aula.id} agendada pela lista de espera (oferta #${offer.id})`, 'waitlist');
+  return { aula, offer: booked ?? claimed };
+}
+
+/**
+ * Recusa a oferta e passa o horário para o próximo aluno da fila
+ */
+export async function declineWaitlistOffer(offerId: number): Promise<WaitlistOffer | undefined> {
+  const offer = await storage.getWaitlistOffer(offerId);
+  if (!offer || offer.status !== 'pendente') {
+    return undefined;
+  }
+
+  const declined = await storage.updateWaitlistOffer(offer.id, { status: 'recusada', respondedAt: new Date() });
+  const cancelledAula = await storage.getAulaById(offer.cancelledAulaId);
+  if (cancelledAula) {
+    await offerFreedSlot(cancelledAula);
+  }
+  return declined;
+}
+
+/**
+ * Resposta recebida pelo WhatsApp: aceita ou recusa a oferta em aberto do aluno.
+ * Retorna false quando não há oferta em aberto ou a mensagem não é uma resposta.
+ */
+export async function handleWaitlistReply(lead: Lead, content: string): Promise<boolean> {
+  try {
+    const reply = parseWaitlistReply(content);
+    if (!reply) {
+      return false;
+    }
+
+    const offer = await storage.getOpenWaitlistOfferForLead(lead.id, new Date());
+    if (!offer) {
+      return false;
+    }
+
+    if (reply === 'decline') {
+      await declineWaitlistOffer(offer.id);
+      await sendWaitlistMessage(lead, 'Tudo bem! Você continua na lista de espera e avisaremos sobre os próximos horários.');
+      return true;
+    }
+
+    const result = await acceptWaitlistOffer(offer.id);
+    if ('error' in result) {
+      await sendWaitlistMessage(lead, `Não foi possível confirmar: ${result.error.toLowerCase()}. Você continua na lista de espera.`);
+    }
+    return true;
+  } catch (error) {
+    console.error(`Erro ao processar resposta da lista de espera do lead ${lead.id}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Passa adiante os horários cujas ofertas venceram sem resposta
+ */
+export async function processExpiredWaitlistOffers(now: Date = new Date()): Promise<number> {
+  const pending = await storage.getWaitlistOffers({ status: 'pendente' });
+  const expiredAulaIds = new Set(pending.filter(offer => offer.expiresAt < now).map(offer => offer.cancelledAulaId));
+  let offered = 0;
+
+  for (const aulaId of Array.from(expiredAulaIds)) {
+    const aula = await storage.getAulaById(aulaId);
+    if (aula) {
+      offered += (await offerFreedSlot(aula, now)).length;
+    }
+  }
+  return offered;
+}
+
+let waitlistTimer: NodeJS.Timeout | null = null;
+let isProcessingWaitlist = false;
+
+/**
+ * Inicia a verificação periódica das ofertas vencidas (padrão: a cada 5 minutos)
+ */
+export function startWaitlistScheduler(intervalMs: number = parseInt(process.env.WAITLIST_INTERVAL_MS || '300000', 10)) {
+  if (waitlistTimer || process.env.WAITLIST_ENABLED === 'false') {
+    return;
+  }
+
+  const run = async () => {
+    if (isProcessingWaitlist) {
+      return;
+    }
+
+    isProcessingWaitlist = true;
+    try {
+      await processExpiredWaitlistOffers();
+    } catch (error) {
+      console.error('Erro ao processar ofertas da lista de espera:', error);
+    } finally {
+      isProcessingWaitlist = false;
+    }
+  };
+
+  waitlistTimer = setInterval(run, intervalMs);
+  waitlistTimer.unref();
+  run();
+
+  log('Verificação da lista de espera iniciada', 'waitlist');
+}
+
+export function stopWaitlistScheduler() {
+  if (waitlistTimer) {
+    clearInterval(waitlistTimer);
+    waitlistTimer = null;
+  }
+}
@@ -0,0 +1,216 @@
+import type { Lead, WhatsappInboxEntry } from '@shared/schema';
+import { storage } from './storage';
+import { getInboundSettings } from './whatsapp-service';
+import type { WebhookEvent } from './whatsapp-providers';
+import { resolveInboundMedia } from './whatsapp-media';
+import { handleWaitlistReply } from './waitlist-service';
+import { syncLeadStage } from './pipeline-service';
+import { normalizePhone, getStateFromPhone } from './utils/lead.utils';
+import { log } from './vite';
+
+/**
+ * Roteamento das mensagens recebidas pelo webhook do WhatsApp.
+ * Mensagens de números cadastrados vão para a conversa do lead; as demais geram um lead novo
+ * (modo "create_lead") ou entram na fila de triagem para a equipe vincular (modo "inbox").
+ */
+
+export const INBOUND_LEAD_CAMPAIGN = 'WhatsApp Inbound';
+
+export interface InboundMessage {
+  phone: string;
+  contactName?: string | null;
+  content: string;
+  messageId?: string | null;
+  mediaUrl?: string | null;
+  mediaType?: string | null;
+}
+
+export type InboundResult =
+  | { outcome: 'duplicate' }
+  | { outcome: 'lead'; lead: Lead; created: boolean }
+  | { outcome: 'inbox'; entry: WhatsappInboxEntry };
+
+export interface WebhookSummary {
+  received: number;
+  queued: number;
+  duplicates: number;
+  statusUpdates: number;
+}
+
+export interface InboxConversation {
+  phone: string;
+  contactName: string | null;
+  messageCount: number;
+  lastMessage: string;
+  lastReceivedAt: Date;
+  messages: WhatsappInboxEntry[];
+}
+
+async function findLeadForPhone(phone: string): Promise<Lead | undefined> {
+  const leadsFound = await storage.getLeadsByPhone(phone);
+  if (leadsFound.length > 0) {
+    return leadsFound[0];
+  }
+
+  const linkedLeadId = await storage.getLinkedLeadIdForPhone(phone);
+  return linkedLeadId ? await storage.getLead(linkedLeadId) : undefined;
+}
+
+/**
+ * Cria o lead de um primeiro contato pelo WhatsApp (ex.: anúncios do Instagram)
+ */
+export async function createLeadFromInbound(
+  phone: string,
+  contactName?: string | null,
+  overrides: { name?: string; source?: string } = {}
+): Promise<Lead> {
+  const settings = await getInboundSettings();
+
+  const lead = await storage.createLead({
+    entryDate: new Date(),
+    name: overrides.name?.trim() || contactName?.trim() || phone,
+    email: '',
+    phone,
+    state: getStateFromPhone(phone) || '',
+    campaign: INBOUND_LEAD_CAMPAIGN,
+    tags: settings.inboundLeadTag ? [settings.inboundLeadTag] : [],
+    source: overrides.source || settings.inboundLeadSource,
+    status: 'Lead',
+    notes: 'Lead criado automaticamente a partir de mensagem recebida no WhatsApp',
+  });
+
+  return await syncLeadStage(lead);
+}
+
+/**
+ * Registra uma mensagem recebida, criando o lead ou enfileirando-a conforme a configuração
+ */
+export async function routeInboundMessage(message: InboundMessage): Promise<InboundResult> {
+  // Reentregas do webhook não duplicam a mensagem
+  if (message.messageId && await storage.getWhatsappMessageByApiId(message.messageId)) {
+    return { outcome: 'duplicate' };
+  }
+
+  const phone = normalizePhone(message.phone);
+  let lead = await findLeadForPhone(phone);
+  let created = false;
+
+  if (!lead) {
+    const settings = await getInboundSettings();
+
+    if (settings.inboundMode !== 'create_lead') {
+      if (message.messageId) {
+        const queued = await storage.getWhatsappInboxEntries({ phone });
+        if (queued.some(entry => entry.messageId === message.messageId)) {
+          return { outcome: 'duplicate' };
+        }
+      }
+
+      const entry = await storage.createWhatsappInboxEntry({
+        phone,
+        contactName: message.contactName || null,
+        content: message.content,
+        mediaUrl: message.mediaUrl || null,
+        mediaType: message.mediaType || null,
+        messageId: message.messageId || null,
+      });
+      log(`Mensagem de número não cadastrado (${phone}) enviada para a fila de triagem`, 'whatsapp');
+      return { outcome: 'inbox', entry };
+    }
+
+    lead = await createLeadFromInbound(phone, message.contactName);
+    created = true;
+    log(`Lead #${lead.id} criado a partir de mensagem recebida de ${phone}`, 'whatsapp');
+  }
+
+  await storage.createWhatsappMessage({
+    leadId: lead.id,
+    direction: 'incoming',
+    content: message.content,
+    status: 'received',
+    messageId: message.messageId || null,
+    mediaUrl: message.mediaUrl || null,
+    mediaType: message.mediaType || null,
+  });
+
+  // "SIM"/"NÃO" em resposta a um horário oferecido pela lista de espera
+  if (!created) {
+    await handleWaitlistReply(lead, message.content);
+  }
+
+  return { outcome: 'lead', lead, created };
+}
+
+/**
+ * Aplica os eventos já interpretados pelo provedor: mensagens recebidas e atualizações de status
+ */
+export async function processWebhookEvents(events: WebhookEvent[]): Promise<WebhookSummary> {
+  const summary: WebhookSummary = { received: 0, queued: 0, duplicates: 0, statusUpdates: 0 };
+
+  for (const event of events) {
+    if (event.type === 'status') {
+      const message = await storage.getWhatsappMessageByApiId(event.messageId);
+      if (!message) {
+        log(`Status recebido para mensagem desconhecida: ${event.messageId}`, 'whatsapp');
+        continue;
+      }
+      if (message.status !== event.status) {
+        await storage.updateWhatsappMessageStatus(message.id, event.status);
+        summary.statusUpdates++;
+      }
+      continue;
+    }
+
+    // Reentregas não baixam a mídia de novo
+    if (await storage.getWhatsappMessageByApiId(event.messageId)) {
+      summary.duplicates++;
+      continue;
+    }
+
+    const result = await routeInboundMessage({
+      phone: event.phone,
+      contactName: event.contactName,
+      messageId: event.messageId,
+      ...(await resolveInboundMedia(event.message)),
+    });
+
+    if (result.outcome === 'duplicate') {
+      summary.duplicates++;
+    } else if (result.outcome === 'inbox') {
+      summary.queued++;
+    } else {
+      summary.received++;
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Conversas pendentes na fila de triagem, agrupadas por número
+ */
+export async function getInboxConversations(status = 'pendente'): Promise<InboxConversation[]> {
+  const entries = await storage.getWhatsappInboxEntries({ status });
+  const conversations = new Map<string, InboxConversation>();
+
+  // As entradas chegam da mais recente para a mais antiga
+  for (const entry of entries) {
+    const conversation = conversations.get(entry.phone);
+    if (!conversation) {
+      conversations.set(entry.phone, {
+        phone: entry.phone,
+        contactName: entry.contactName,
+        messageCount: 1,
+        lastMessage: entry.content,
+        lastReceivedAt: entry.receivedAt,
+        messages: [entry],
+      });
+    } else {
+      conversation.messageCount++;
+      conversation.contactName = conversation.contactName || entry.contactName;
+      conversation.messages.unshift(entry);
+    }
+  }
+
+  return Array.from(conversations.values());
+}
@@ -0,0 +1,95 @@
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import type { WhatsappMedia } from '@shared/schema';
+import { storage } from './storage';
+import type { InboundMediaType, ParsedInboundMessage } from './whatsapp-providers';
+import { log } from './vite';
+
+/**
+ * Mídias recebidas pelo webhook do WhatsApp.
+ * Os provedores indicam como baixar cada arquivo; aqui ele é gravado no disco, deduplicado
+ * pelo SHA-256 e servido por /api/whatsapp/media/:id, que exige autenticação — as URLs dos
+ * provedores expiram.
+ */
+
+export const MEDIA_STORAGE_DIR = path.resolve(process.env.MEDIA_STORAGE_DIR || 'uploads/whatsapp-media');
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp',
+  'image/gif': '.gif',
+  'audio/ogg': '.ogg',
+  'audio/mpeg': '.mp3',
+  'audio/mp4': '.m4a',
+  'audio/aac': '.aac',
+  'audio/amr': '.amr',
+  'video/mp4': '.mp4',
+  'video/3gpp': '.3gp',
+  'application/pdf': '.pdf',
+};
+
+/**
+ * Grava o arquivo no diretório de mídia, reaproveitando o registro se o mesmo conteúdo já foi recebido
+ */
+export async function storeMedia(buffer: Buffer, mimeType: string, fileName?: string | null): Promise<WhatsappMedia> {
+  const sha256 = createHash('sha256').update(buffer).digest('hex');
+  const existing = await storage.getWhatsappMediaBySha256(sha256);
+  if (existing) {
+    return existing;
+  }
+
+  const baseMimeType = mimeType.split(';')[0].trim().toLowerCase();
+  const extension = MIME_EXTENSIONS[baseMimeType] || path.extname(fileName || '') || '';
+  const storagePath = path.join(sha256.slice(0, 2), `${sha256}${extension}`);
+  const absolutePath = path.join(MEDIA_STORAGE_DIR, storagePath);
+
+  // Escrita em arquivo temporário + rename para nunca servir um arquivo pela metade
+  await fs.mkdir(path.dirname(absolutePath), { recursive: true });
+  const tempPath = `${absolutePath}.${process.pid}.partial`;
+  await fs.writeFile(tempPath, buffer);
+  await fs.rename(tempPath, absolutePath);
+
+  return await storage.createWhatsappMedia({
+    sha256,
+    mimeType: baseMimeType || 'application/octet-stream',
+    size: buffer.length,
+    fileName: fileName || null,
+    storagePath,
+  });
+}
+
+export function getMediaAbsolutePath(media: WhatsappMedia): string {
+  return path.join(MEDIA_STORAGE_DIR, media.storagePath);
+}
+
+/**
+ * Baixa e armazena a mídia da mensagem, devolvendo os campos a salvar na conversa.
+ * Se o download falhar a mensagem é registrada mesmo assim, apenas com o texto.
+ */
+export async function resolveInboundMedia(parsed: ParsedInboundMessage): Promise<{
+  content: string;
+  mediaType: InboundMediaType;
+  mediaUrl: string | null;
+}> {
+  if (!parsed.download) {
+    return { content: parsed.content, mediaType: parsed.mediaType, mediaUrl: parsed.mediaUrl || null };
+  }
+
+  try {
+    const downloaded = await parsed.download();
+    if (downloaded) {
+      const media = await storeMedia(downloaded.buffer, downloaded.mimeType, parsed.fileName || downloaded.fileName);
+      return { content: parsed.content, mediaType: parsed.mediaType, mediaUrl: `/api/whatsapp/media/${media.id}` };
+    }
+  } catch (error) {
+    log(`Erro ao armazenar mídia recebida: ${error}`, 'error');
+  }
+
+  return {
+    content: `${parsed.content} (não foi possível baixar o arquivo)`,
+    mediaType: parsed.mediaType,
+    mediaUrl: null,
+  };
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("../vite", () => ({ log: vi.fn() }));
+
+import { createEvolutionProvider } from "./evolution";
+
+const config = { apiUrl: "https://evolution.example.com", apiToken: "global", apiInstance: "default", webhookToken: "token-da-instancia" };
+
+describe("createEvolutionProvider().verifyWebhook", () => {
+  const provider = createEvolutionProvider(config);
+
+  it("aceita a apikey no corpo ou no cabeçalho", () => {
+    const payload = { event: "messages.upsert", apikey: "token-da-instancia" };
+    expect(provider.verifyWebhook({ headers: {}, payload })).toBe(true);
+    expect(provider.verifyWebhook({ headers: { apikey: "token-da-instancia" }, payload: { event: "messages.upsert" } })).toBe(true);
+  });
+
+  it("recusa apikey ausente ou diferente", () => {
+    expect(provider.verifyWebhook({ headers: {}, payload: { event: "messages.upsert" } })).toBe(false);
+    expect(provider.verifyWebhook({ headers: {}, payload: { event: "messages.upsert", apikey: "global" } })).toBe(false);
+  });
+
+  it("recusa tudo quando não há token configurado", () => {
+    const unconfigured = createEvolutionProvider({ ...config, webhookToken: "" });
+    expect(unconfigured.verifyWebhook({ headers: {}, payload: { event: "messages.upsert", apikey: "" } })).toBe(false);
+  });
+});
@@ -0,0 +1,494 @@
+import axios from 'axios';
+import { log } from '../vite';
+import type {
+  DownloadedMedia,
+  InboundMediaType,
+  OutboundMedia,
+  ParsedInboundMessage,
+  WebhookEvent,
+  WhatsAppResult,
+  WhatsappProvider,
+} from './types';
+import {
+  MEDIA_PLACEHOLDERS,
+  MAX_MEDIA_BYTES,
+  placeholder,
+  locationUrl,
+  describeLocation,
+  describeContacts,
+  parseVcard,
+  normalizeMessageStatus,
+  safeEqual,
+  headerValue,
+} from './message-utils';
+
+export interface EvolutionConfig {
+  apiUrl: string;
+  apiToken: string;
+  apiInstance: string;
+  webhookToken: string; // apikey que a Evolution envia no webhook (da instância ou a global)
+}
+
+// Formato Baileys usado pela Evolution API (apenas os campos que lemos)
+interface EvolutionMediaMessage {
+  caption?: string;
+  mimetype?: string;
+  fileName?: string;
+  title?: string;
+}
+
+interface EvolutionMessageContent {
+  conversation?: string;
+  extendedTextMessage?: { text?: string };
+  imageMessage?: EvolutionMediaMessage;
+  audioMessage?: EvolutionMediaMessage;
+  videoMessage?: EvolutionMediaMessage;
+  documentMessage?: EvolutionMediaMessage;
+  stickerMessage?: EvolutionMediaMessage;
+  documentWithCaptionMessage?: { message?: EvolutionMessageContent };
+  locationMessage?: EvolutionLocation;
+  liveLocationMessage?: EvolutionLocation;
+  contactMessage?: EvolutionContact;
+  contactsArrayMessage?: { contacts?: EvolutionContact[] };
+  reactionMessage?: unknown;
+  protocolMessage?: unknown;
+  base64?: string;
+  mediaUrl?: string;
+}
+
+interface EvolutionLocation {
+  degreesLatitude: number;
+  degreesLongitude: number;
+  name?: string;
+  address?: string;
+}
+
+interface EvolutionContact {
+  displayName?: string;
+  vcard?: string;
+}
+
+export interface EvolutionMessageData {
+  key?: { id?: string; remoteJid?: string; fromMe?: boolean };
+  pushName?: string;
+  message?: EvolutionMessageContent;
+  messageType?: string;
+  base64?: string;
+  mediaUrl?: string;
+}
+
+interface EvolutionStatusData {
+  keyId?: string;
+  key?: { id?: string; fromMe?: boolean };
+  status?: string;
+}
+
+export interface EvolutionWebhookPayload {
+  event: string;
+  instance?: string;
+  apikey?: string;
+  data?: EvolutionMessageData | EvolutionStatusData | (EvolutionMessageData | EvolutionStatusData)[];
+}
+
+const MEDIA_KINDS: [keyof EvolutionMessageContent, InboundMediaType][] = [
+  ['imageMessage', 'image'],
+  ['audioMessage', 'audio'],
+  ['videoMessage', 'video'],
+  ['documentMessage', 'document'],
+  ['stickerMessage', 'sticker'],
+];
+
+// A Evolution envia o evento como "messages.upsert" ou "MESSAGES_UPSERT", conforme a versão
+function normalizeEvent(event: string): string {
+  return event.toLowerCase().replace(/_/g, '.');
+}
+
+/**
+ * Hosts de onde a mídia pode ser baixada: o da própria Evolution API e os do armazenamento S3/MinIO
+ * configurados em EVOLUTION_MEDIA_HOSTS. A URL vem no corpo do webhook, que não é autenticado.
+ */
+function allowedMediaHosts(apiUrl: string): Set<string> {
+  const hosts = new Set(
+    (process.env.EVOLUTION_MEDIA_HOSTS || '')
+      .split(',')
+      .map(host => host.trim().toLowerCase())
+      .filter(Boolean)
+  );
+  try {
+    hosts.add(new URL(apiUrl).host.toLowerCase());
+  } catch {
+    // URL da API inválida: só os hosts configurados
+  }
+  return hosts;
+}
+
+function isAllowedMediaUrl(mediaUrl: string, hosts: Set<string>): boolean {
+  try {
+    const url = new URL(mediaUrl);
+    return (url.protocol === 'https:' || url.protocol === 'http:') && hosts.has(url.host.toLowerCase());
+  } catch {
+    return false;
+  }
+}
+
+function asArray<T>(value: T | T[] | undefined): T[] {
+  if (!value) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+export function createEvolutionProvider(config: EvolutionConfig): WhatsappProvider & {
+  request(endpoint: string, method?: string, data?: any): Promise<WhatsAppResult>;
+} {
+  /**
+   * Requisição autenticada para a Evolution API ({instance} é substituído pela instância configurada)
+   */
+  async function request(endpoint: string, method = 'GET', data: any = null): Promise<WhatsAppResult> {
+    try {
+      if (!config.apiUrl || !config.apiToken) {
+        return { success: false, error: 'Configuração da Evolution API (URL ou Token) não encontrada.' };
+      }
+
+      const fullUrl = `${config.apiUrl}${endpoint.replace('{instance}', config.apiInstance)}`;
+      log(`Fazendo requisição ${method} para ${fullUrl}`, 'info');
+
+      const response = await axios({
+        method,
+        url: fullUrl,
+        data,
+        headers: {
+          'Content-Type': 'application/json',
+          'apikey': config.apiToken
+        },
+        timeout: 20000 // 20 segundos
+      });
+
+      return { success: true, details: response.data };
+    } catch (error) {
+      let errorMessage = 'Erro desconhecido na requisição';
+      let details = null;
+
+      if (axios.isAxiosError(error)) {
+        if (error.response) {
+          errorMessage = error.response.data?.error ||
+                        error.response.data?.message ||
+                        `Erro ${error.response.status}: ${error.message}`;
+          details = error.response.data;
+        } else if (error.request) {
+          errorMessage = 'Não foi possível conectar à Evolution API. Verifique sua conexão.';
+        } else {
+          errorMessage = `Erro na configuração da requisição: ${error.message}`;
+        }
+      }
+
+      log(`Erro na requisição para Evolution API: ${errorMessage}`, 'error');
+      return { success: false, error: errorMessage, details };
+    }
+  }
+
+  // Extrai o ID da mensagem da resposta de envio
+  function withMessageId(result: WhatsAppResult): WhatsAppResult {
+    if (!result.success) return result;
+    const messageId = result.details?.key?.id || result.details?.messageId || result.details?.id;
+    return { ...result, messageId };
+  }
+
+  /**
+   * Usa o base64 do webhook quando a instância está configurada para enviá-lo; caso contrário pede à API
+   */
+  async function downloadMedia(messageData: EvolutionMessageData, mimeType: string): Promise<DownloadedMedia | null> {
+    try {
+      const inlineBase64 = messageData.message?.base64 || messageData.base64;
+      if (inlineBase64) {
+        const buffer = Buffer.from(inlineBase64, 'base64');
+        if (buffer.length > MAX_MEDIA_BYTES) {
+          log(`Mídia da mensagem ${messageData.key?.id || ''} passa do limite de ${MAX_MEDIA_BYTES} bytes`, 'warn');
+          return null;
+        }
+        return { buffer, mimeType };
+      }
+
+      // Instâncias com armazenamento S3/MinIO enviam a URL do arquivo já descriptografado.
+      // Outros hosts são ignorados e a mídia é pedida à API.
+      const mediaUrl = messageData.message?.mediaUrl || messageData.mediaUrl;
+      if (mediaUrl && isAllowedMediaUrl(mediaUrl, allowedMediaHosts(config.apiUrl))) {
+        const file = await axios.get<ArrayBuffer>(mediaUrl, {
+          responseType: 'arraybuffer',
+          timeout: 60000,
+          maxRedirects: 0,
+          maxContentLength: MAX_MEDIA_BYTES,
+          maxBodyLength: MAX_MEDIA_BYTES
+        });
+        return {
+          buffer: Buffer.from(file.data),
+          mimeType: String(file.headers['content-type'] || mimeType)
+        };
+      }
+      if (mediaUrl) {
+        log(`URL de mídia fora dos hosts permitidos ignorada: ${mediaUrl}`, 'warn');
+      }
+
+      if (!messageData.key?.id) {
+        return null;
+      }
+
+      const result = await request('/chat/getBase64FromMediaMessage/{instance}', 'POST', {
+        message: { key: messageData.key },
+        convertToMp4: false
+      });
+
+      if (!result.success || !result.details?.base64) {
+        log(`Evolution API não retornou a mídia da mensagem ${messageData.key.id}: ${result.error || 'sem conteúdo'}`, 'warn');
+        return null;
+      }
+
+      const buffer = Buffer.from(result.details.base64, 'base64');
+      if (buffer.length > MAX_MEDIA_BYTES) {
+        log(`Mídia da mensagem ${messageData.key.id} passa do limite de ${MAX_MEDIA_BYTES} bytes`, 'warn');
+        return null;
+      }
+
+      return {
+        buffer,
+        mimeType: result.details.mimetype || mimeType,
+        fileName: result.details.fileName || null
+      };
+    } catch (error) {
+      log(`Erro ao baixar mídia da Evolution API: ${error}`, 'error');
+      return null;
+    }
+  }
+
+  /**
+   * Interpreta o conteúdo de uma mensagem recebida.
+   * Retorna null para tipos que não geram mensagem na conversa (ex.: reações).
+   */
+  function parseMessage(messageData: EvolutionMessageData): ParsedInboundMessage | null {
+    const message = messageData.message || {};
+
+    if (message.conversation || message.extendedTextMessage) {
+      return { content: message.conversation || message.extendedTextMessage?.text || '', mediaType: 'text' };
+    }
+
+    if (message.reactionMessage || message.protocolMessage) {
+      return null;
+    }
+
+    // Documentos com legenda chegam encapsulados
+    const content = message.documentWithCaptionMessage?.message || message;
+
+    for (const [key, mediaType] of MEDIA_KINDS) {
+      const media = content[key] as EvolutionMediaMessage | undefined;
+      if (media) {
+        return {
+          content: placeholder(mediaType, media.caption),
+          mediaType,
+          fileName: media.fileName || media.title || null,
+          download: () => downloadMedia(messageData, media.mimetype || 'application/octet-stream'),
+        };
+      }
+    }
+
+    const location = message.locationMessage || message.liveLocationMessage;
+    if (location) {
+      const { degreesLatitude, degreesLongitude, name, address } = location;
+      return {
+        content: describeLocation(degreesLatitude, degreesLongitude, name, address),
+        mediaType: 'location',
+        mediaUrl: locationUrl(degreesLatitude, degreesLongitude),
+      };
+    }
+
+    const contacts = message.contactMessage
+      ? [message.contactMessage]
+      : message.contactsArrayMessage?.contacts;
+    if (contacts) {
+      return {
+        content: describeContacts(contacts.map(contact => {
+          const parsed = parseVcard(contact.vcard || '');
+          return { name: contact.displayName || parsed.name, phones: parsed.phones };
+        })),
+        mediaType: 'contact',
+      };
+    }
+
+    log(`[Evolution Webhook] Tipo de mensagem não suportado: ${messageData.messageType || 'desconhecido'}`, 'warn');
+    return { content: MEDIA_PLACEHOLDERS.text, mediaType: 'text' };
+  }
+
+  async function sendMessage(endpoint: string, payload: object): Promise<WhatsAppResult> {
+    return withMessageId(await request(endpoint, 'POST', payload));
+  }
+
+  return {
+    name: 'evolution',
+    request,
+
+    async sendText(phone, text) {
+      log(`Enviando mensagem Evolution API para ${phone}`, 'info');
+      return sendMessage('/message/text/{instance}', {
+        number: phone,
+        options: {
+          delay: 1200, // Delay em ms (recomendado pela Evolution API)
+          presence: "composing" // Mostra "digitando..." antes de enviar
+        },
+        textMessage: { text }
+      });
+    },
+
+    async sendMedia(phone, media: OutboundMedia) {
+      log(`Enviando ${media.kind} para ${phone} via Evolution API`, 'info');
+      const body: Record<string, unknown> = { url: media.url };
+      if (media.kind !== 'audio') body.caption = media.caption || '';
+      if (media.kind === 'document') body.fileName = media.fileName;
+
+      return sendMessage(`/message/${media.kind}/{instance}`, {
+        number: phone,
+        options: media.kind === 'image'
+          ? { delay: 1200, presence: "composing" }
+          : { delay: 1200 },
+        [media.kind]: body
+      });
+    },
+
+    async sendTemplate(phone, templateName, language) {
+      return sendMessage('/message/template/{instance}', {
+        number: phone,
+        options: {
+          delay: 1200,
+          presence: "composing"
+        },
+        template: {
+          name: templateName,
+          language: { code: language }
+        }
+      });
+    },
+
+    async checkConnection() {
+      if (!config.apiUrl || !config.apiToken) {
+        return { success: false, error: 'Configuração da Evolution API (URL ou Token) não encontrada.' };
+      }
+
+      // Em desenvolvimento sem URL real definida, simulamos uma resposta positiva
+      if (config.apiUrl.includes('example.com') && process.env.NODE_ENV === 'development') {
+        log('Ambiente de desenvolvimento detectado. Simulando resposta da Evolution API.', 'info');
+        return {
+          success: true,
+          details: {
+            name: 'Evolution API (Simulação)',
+            phone: '+5511987654321',
+            instance: config.apiInstance,
+            status: 'CONNECTED',
+            qrcode: null
+          }
+        };
+      }
+
+      return await request('/instances/instance/{instance}', 'GET');
+    },
+
+    async getMessageStatus(messageId) {
+      const result = await request(`/message/statusMessage/{instance}/${messageId}`, 'GET');
+      if (!result.success) {
+        return result;
+      }
+
+      const rawStatus = result.details?.status || '';
+      return {
+        success: true,
+        details: {
+          status: normalizeMessageStatus(rawStatus) || 'sent',
+          originalStatus: rawStatus,
+          timestamp: result.details?.timestamp || new Date().toISOString()
+        }
+      };
+    },
+
+    async getQRCode() {
+      // Primeiro, verificamos se já existe uma instância conectada
+      const statusResult = await request('/instances/instance/{instance}', 'GET');
+
+      if (statusResult.success && statusResult.details?.status === 'open') {
+        return {
+          success: true,
+          details: {
+            connected: true,
+            message: 'WhatsApp já está conectado',
+            instance: statusResult.details
+          }
+        };
+      }
+
+      const qrResult = await request('/instances/qrcode/{instance}', 'GET');
+      if (!qrResult.success) {
+        return qrResult;
+      }
+
+      return {
+        success: true,
+        details: {
+          connected: false,
+          qrcode: qrResult.details?.qrcode,
+          message: 'Escaneie o QR Code para conectar'
+        }
+      };
+    },
+
+    verifyWebhook(request) {
+      if (!config.webhookToken) {
+        log('Webhook da Evolution recusado: token do webhook não configurado', 'whatsapp');
+        return false;
+      }
+      // A Evolution envia a apikey no corpo; cabeçalhos configurados no webhook também são aceitos
+      const token = headerValue(request, 'apikey') ?? (request.payload as EvolutionWebhookPayload)?.apikey;
+      return typeof token === 'string' && safeEqual(token, config.webhookToken);
+    },
+
+    matchesWebhook(payload) {
+      return typeof (payload as EvolutionWebhookPayload)?.event === 'string';
+    },
+
+    parseWebhook(payload) {
+      const { event, data } = payload as EvolutionWebhookPayload;
+      const events: WebhookEvent[] = [];
+
+      switch (normalizeEvent(event)) {
+        case 'messages.upsert':
+          for (const messageData of asArray(data) as EvolutionMessageData[]) {
+            const remoteJid = messageData.key?.remoteJid;
+            // Mensagens enviadas pela própria instância e de grupos não são contatos recebidos
+            if (!remoteJid || !messageData.key?.id || messageData.key.fromMe || remoteJid.endsWith('@g.us')) {
+              continue;
+            }
+
+            const message = parseMessage(messageData);
+            if (message) {
+              events.push({
+                type: 'message',
+                phone: remoteJid.split('@')[0], // remoteJid vem como 5511999999999@s.whatsapp.net
+                contactName: messageData.pushName,
+                messageId: messageData.key.id,
+                message,
+              });
+            }
+          }
+          break;
+
+        case 'messages.update':
+          for (const update of asArray(data) as EvolutionStatusData[]) {
+            const messageId = update.keyId || update.key?.id;
+            const status = normalizeMessageStatus(update.status);
+            if (messageId && status) {
+              events.push({ type: 'status', messageId, status });
+            }
+          }
+          break;
+
+        default:
+          log(`[Evolution Webhook] Evento ignorado: ${event}`, 'info');
+      }
+
+      return events;
+    },
+  };
+}
@@ -0,0 +1,28 @@
+import { createEvolutionProvider, type EvolutionConfig } from './evolution';
+import { createMetaProvider, type MetaConfig } from './meta';
+import { mockProvider } from './mock';
+import type { WhatsappProvider, WhatsappProviderName } from './types';
+
+export * from './types';
+export { getMockOutbox, clearMockOutbox, type MockOutboundMessage, type MockWebhookPayload } from './mock';
+
+export interface ProviderSettings extends EvolutionConfig {
+  provider: WhatsappProviderName;
+  meta: MetaConfig;
+}
+
+/**
+ * Instancia o provedor escolhido na configuração do WhatsApp
+ */
+export function createWhatsappProvider(settings: ProviderSettings): WhatsappProvider {
+  switch (settings.provider) {
+    case 'meta':
+      return createMetaProvider(settings.meta);
+    case 'mock':
+      return mockProvider;
+    default:
+      return createEvolutionProvider(settings);
+  }
+}
+
+export { createEvolutionProvider };
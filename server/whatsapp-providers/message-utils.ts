@@ -0,0 +1,88 @@
+import crypto from 'crypto';
+import type { InboundMediaType, MessageStatus, WebhookRequest } from './types';
+
+// Texto exibido quando a mídia não tem legenda ou não pôde ser baixada
+export const MEDIA_PLACEHOLDERS: Record<InboundMediaType, string> = {
+  text: '[Mensagem sem texto]',
+  image: '[Imagem]',
+  audio: '[Áudio]',
+  video: '[Vídeo]',
+  document: '[Documento]',
+  sticker: '[Figurinha]',
+  location: '[Localização]',
+  contact: '[Contato]',
+};
+
+// Tamanho máximo de uma mídia recebida; arquivos maiores não são baixados
+export const MAX_MEDIA_BYTES = (parseInt(process.env.WHATSAPP_MEDIA_MAX_MB || '', 10) || 16) * 1024 * 1024;
+
+/**
+ * Compara segredos em tempo constante (tokens e assinaturas do webhook)
+ */
+export function safeEqual(received: string, expected: string): boolean {
+  const a = Buffer.from(received);
+  const b = Buffer.from(expected);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+export function headerValue(request: WebhookRequest, name: string): string | undefined {
+  const value = request.headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+export function placeholder(type: InboundMediaType, caption?: string | null): string {
+  return caption?.trim() || MEDIA_PLACEHOLDERS[type];
+}
+
+export function locationUrl(latitude: number, longitude: number): string {
+  return `https://www.google.com/maps?q=${latitude},${longitude}`;
+}
+
+export function describeLocation(latitude: number, longitude: number, name?: string | null, address?: string | null): string {
+  const label = [name, address].filter(Boolean).join(' - ');
+  return label ? `📍 ${label}` : `📍 ${latitude}, ${longitude}`;
+}
+
+/**
+ * Extrai nome e telefones de um vCard (formato usado pela Evolution API)
+ */
+export function parseVcard(vcard: string): { name?: string; phones: string[] } {
+  const name = vcard.match(/^FN[^:]*:(.+)$/m)?.[1]?.trim();
+  const phones = Array.from(vcard.matchAll(/^(?:item\d+\.)?TEL[^:]*:(.+)$/gm)).map(match => match[1].trim());
+  return { name, phones };
+}
+
+export function describeContacts(contacts: { name?: string; phones: string[] }[]): string {
+  if (contacts.length === 0) {
+    return MEDIA_PLACEHOLDERS.contact;
+  }
+  return contacts
+    .map(contact => `👤 ${contact.name || 'Contato'}${contact.phones.length ? `: ${contact.phones.join(', ')}` : ''}`)
+    .join('\n');
+}
+
+/**
+ * Normaliza os status de entrega dos provedores para os usados no CRM
+ */
+export function normalizeMessageStatus(rawStatus: string | null | undefined): MessageStatus | null {
+  switch ((rawStatus || '').toLowerCase()) {
+    case 'pending':
+    case 'sending':
+      return 'pending';
+    case 'sent':
+    case 'server_ack':
+      return 'sent';
+    case 'delivered':
+    case 'received':
+    case 'delivery_ack':
+      return 'delivered';
+    case 'read':
+    case 'played':
+      return 'read';
+    case 'failed':
+    case 'error':
+      return 'failed';
+    default:
+      return null;
+  }
+}
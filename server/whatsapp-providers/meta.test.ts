@@ -0,0 +1,34 @@
+import crypto from "crypto";
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("../vite", () => ({ log: vi.fn() }));
+
+import { createMetaProvider } from "./meta";
+
+const APP_SECRET = "segredo-do-app";
+const body = Buffer.from(JSON.stringify({ object: "whatsapp_business_account", entry: [] }));
+
+function sign(secret: string, payload: Buffer): string {
+  return `sha256=${crypto.createHmac("sha256", secret).update(payload).digest("hex")}`;
+}
+
+describe("createMetaProvider().verifyWebhook", () => {
+  const provider = createMetaProvider({ phoneNumberId: "1", accessToken: "token", appSecret: APP_SECRET });
+
+  it("aceita o corpo assinado com a chave do app", () => {
+    const headers = { "x-hub-signature-256": sign(APP_SECRET, body) };
+    expect(provider.verifyWebhook({ headers, rawBody: body, payload: JSON.parse(body.toString()) })).toBe(true);
+  });
+
+  it("recusa assinatura de outra chave, corpo alterado ou sem assinatura", () => {
+    const tampered = Buffer.from(body.toString().replace("[]", "[{}]"));
+    expect(provider.verifyWebhook({ headers: { "x-hub-signature-256": sign("outra", body) }, rawBody: body, payload: {} })).toBe(false);
+    expect(provider.verifyWebhook({ headers: { "x-hub-signature-256": sign(APP_SECRET, body) }, rawBody: tampered, payload: {} })).toBe(false);
+    expect(provider.verifyWebhook({ headers: {}, rawBody: body, payload: {} })).toBe(false);
+  });
+
+  it("recusa tudo quando a chave do app não está configurada", () => {
+    const unconfigured = createMetaProvider({ phoneNumberId: "1", accessToken: "token", appSecret: "" });
+    expect(unconfigured.verifyWebhook({ headers: { "x-hub-signature-256": sign("", body) }, rawBody: body, payload: {} })).toBe(false);
+  });
+});
@@ -0,0 +1,326 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import { log } from '../vite';
+import type {
+  DownloadedMedia,
+  InboundMediaType,
+  ParsedInboundMessage,
+  WebhookEvent,
+  WhatsAppResult,
+  WhatsappProvider,
+} from './types';
+import {
+  MAX_MEDIA_BYTES,
+  placeholder,
+  locationUrl,
+  describeLocation,
+  describeContacts,
+  normalizeMessageStatus,
+  safeEqual,
+  headerValue,
+} from './message-utils';
+
+const META_GRAPH_URL = 'https://graph.facebook.com/v18.0';
+
+export interface MetaConfig {
+  phoneNumberId: string;
+  accessToken: string;
+  appSecret: string; // Chave secreta do app, usada pela Meta para assinar o webhook (X-Hub-Signature-256)
+}
+
+// Formato do webhook da Cloud API (apenas os campos que lemos)
+interface MetaMedia {
+  id?: string;
+  mime_type?: string;
+  caption?: string;
+  filename?: string;
+}
+
+export interface MetaMessage {
+  id: string;
+  from: string;
+  type: string;
+  text?: { body?: string };
+  button?: { text?: string };
+  interactive?: { button_reply?: { title?: string }; list_reply?: { title?: string } };
+  image?: MetaMedia;
+  audio?: MetaMedia;
+  video?: MetaMedia;
+  document?: MetaMedia;
+  sticker?: MetaMedia;
+  location?: { latitude: number; longitude: number; name?: string; address?: string };
+  contacts?: { name?: { formatted_name?: string }; phones?: { phone?: string; wa_id?: string }[] }[];
+}
+
+interface MetaStatus {
+  id: string;
+  status: string;
+}
+
+export interface MetaWebhookPayload {
+  object: 'whatsapp_business_account';
+  entry: {
+    changes?: {
+      field: string;
+      value?: {
+        contacts?: { wa_id: string; profile?: { name?: string } }[];
+        messages?: MetaMessage[];
+        statuses?: MetaStatus[];
+      };
+    }[];
+  }[];
+}
+
+const MEDIA_TYPES: InboundMediaType[] = ['image', 'audio', 'video', 'document', 'sticker'];
+
+export function createMetaProvider(config: MetaConfig): WhatsappProvider {
+  const authHeaders = () => ({ 'Authorization': `Bearer ${config.accessToken}` });
+
+  function describeError(error: unknown): WhatsAppResult {
+    let errorMessage = 'Erro desconhecido na requisição';
+    let details = null;
+
+    if (axios.isAxiosError(error)) {
+      if (error.response) {
+        errorMessage = error.response.data?.error?.message ||
+                      error.response.data?.message ||
+                      `Erro ${error.response.status}: ${error.message}`;
+        details = error.response.data;
+      } else if (error.request) {
+        errorMessage = 'Não foi possível conectar ao servidor do WhatsApp. Verifique sua conexão.';
+      } else {
+        errorMessage = `Erro na configuração da requisição: ${error.message}`;
+      }
+    }
+
+    log(`Erro na requisição para a API oficial do WhatsApp: ${errorMessage}`, 'error');
+    return { success: false, error: errorMessage, details };
+  }
+
+  async function sendMessage(phone: string, message: Record<string, unknown>): Promise<WhatsAppResult> {
+    if (!config.accessToken || !config.phoneNumberId) {
+      return { success: false, error: 'Configuração da API oficial (ID do número ou token) não encontrada.' };
+    }
+
+    try {
+      const response = await axios.post(
+        `${META_GRAPH_URL}/${config.phoneNumberId}/messages`,
+        {
+          messaging_product: 'whatsapp',
+          recipient_type: 'individual',
+          to: phone,
+          ...message
+        },
+        {
+          headers: { ...authHeaders(), 'Content-Type': 'application/json' },
+          timeout: 10000 // 10 segundos de timeout
+        }
+      );
+
+      return { success: true, messageId: response.data?.messages?.[0]?.id, details: response.data };
+    } catch (error) {
+      return describeError(error);
+    }
+  }
+
+  /**
+   * O webhook traz apenas o ID: primeiro obtemos a URL temporária e depois o arquivo, ambos autenticados
+   */
+  async function downloadMedia(mediaId: string): Promise<DownloadedMedia | null> {
+    if (!config.accessToken) {
+      log('Token da API oficial não configurado; mídia recebida não pode ser baixada', 'warn');
+      return null;
+    }
+
+    try {
+      const { data: info } = await axios.get<{ url: string; mime_type: string }>(
+        `${META_GRAPH_URL}/${mediaId}`,
+        { headers: authHeaders(), timeout: 10000 }
+      );
+
+      const file = await axios.get<ArrayBuffer>(info.url, {
+        headers: authHeaders(),
+        responseType: 'arraybuffer',
+        timeout: 60000,
+        maxContentLength: MAX_MEDIA_BYTES,
+        maxBodyLength: MAX_MEDIA_BYTES
+      });
+
+      return {
+        buffer: Buffer.from(file.data),
+        mimeType: info.mime_type || String(file.headers['content-type'] || 'application/octet-stream')
+      };
+    } catch (error) {
+      log(`Erro ao baixar mídia ${mediaId} da API oficial: ${error}`, 'error');
+      return null;
+    }
+  }
+
+  /**
+   * Interpreta uma mensagem recebida.
+   * Retorna null para tipos que não geram mensagem na conversa (ex.: reações).
+   */
+  function parseMessage(message: MetaMessage): ParsedInboundMessage | null {
+    if (MEDIA_TYPES.includes(message.type as InboundMediaType)) {
+      const mediaType = message.type as InboundMediaType;
+      const media = message[mediaType as keyof MetaMessage] as MetaMedia | undefined;
+      if (!media?.id) {
+        return { content: placeholder(mediaType), mediaType };
+      }
+      const mediaId = media.id;
+      return {
+        content: placeholder(mediaType, media.caption),
+        mediaType,
+        fileName: media.filename || null,
+        download: () => downloadMedia(mediaId),
+      };
+    }
+
+    switch (message.type) {
+      case 'text':
+        return { content: message.text?.body || '', mediaType: 'text' };
+      case 'button':
+        return { content: message.button?.text || '', mediaType: 'text' };
+      case 'interactive':
+        return {
+          content: message.interactive?.button_reply?.title || message.interactive?.list_reply?.title || '',
+          mediaType: 'text',
+        };
+      case 'location': {
+        const { latitude, longitude, name, address } = message.location!;
+        return {
+          content: describeLocation(latitude, longitude, name, address),
+          mediaType: 'location',
+          mediaUrl: locationUrl(latitude, longitude),
+        };
+      }
+      case 'contacts':
+        return {
+          content: describeContacts((message.contacts || []).map(contact => ({
+            name: contact.name?.formatted_name,
+            phones: (contact.phones || []).map(phone => phone.phone || phone.wa_id).filter((phone): phone is string => !!phone),
+          }))),
+          mediaType: 'contact',
+        };
+      case 'reaction':
+        return null;
+      default:
+        log(`[Meta Webhook] Tipo de mensagem não suportado: ${message.type}`, 'warn');
+        return { content: `[Mensagem do tipo "${message.type}" não suportada]`, mediaType: 'text' };
+    }
+  }
+
+  return {
+    name: 'meta',
+
+    async sendText(phone, text) {
+      log(`Enviando mensagem pela API oficial para ${phone}`, 'info');
+      return sendMessage(phone, { type: 'text', text: { body: text } });
+    },
+
+    async sendMedia(phone, media) {
+      log(`Enviando ${media.kind} para ${phone} pela API oficial`, 'info');
+      const body: Record<string, unknown> = { link: media.url };
+      if (media.kind !== 'audio' && media.caption) body.caption = media.caption;
+      if (media.kind === 'document' && media.fileName) body.filename = media.fileName;
+
+      return sendMessage(phone, { type: media.kind, [media.kind]: body });
+    },
+
+    async sendTemplate(phone, templateName, language) {
+      log(`Enviando template WhatsApp "${templateName}" para ${phone}`, 'info');
+      return sendMessage(phone, {
+        type: 'template',
+        template: {
+          name: templateName,
+          language: { code: language }
+        }
+      });
+    },
+
+    async checkConnection() {
+      if (!config.accessToken || !config.phoneNumberId) {
+        return { success: false, error: 'Configuração da API oficial (ID do número ou token) não encontrada.' };
+      }
+
+      try {
+        const { data } = await axios.get(`${META_GRAPH_URL}/${config.phoneNumberId}`, {
+          params: { fields: 'display_phone_number,verified_name,quality_rating' },
+          headers: authHeaders(),
+          timeout: 10000
+        });
+
+        return {
+          success: true,
+          details: {
+            name: data.verified_name,
+            phone: data.display_phone_number,
+            qualityRating: data.quality_rating,
+            status: 'CONNECTED'
+          }
+        };
+      } catch (error) {
+        return describeError(error);
+      }
+    },
+
+    async getMessageStatus() {
+      // A Cloud API não tem consulta de status: ele chega apenas pelo webhook
+      return { success: false, error: 'A API oficial informa o status das mensagens apenas pelo webhook' };
+    },
+
+    verifyWebhook(request) {
+      const signature = headerValue(request, 'x-hub-signature-256');
+      if (!config.appSecret) {
+        log('Webhook da Meta recusado: WHATSAPP_APP_SECRET não configurado', 'whatsapp');
+        return false;
+      }
+      if (!signature || !request.rawBody) {
+        return false;
+      }
+      const expected = `sha256=${crypto.createHmac('sha256', config.appSecret).update(request.rawBody).digest('hex')}`;
+      return safeEqual(signature, expected);
+    },
+
+    matchesWebhook(payload) {
+      const data = payload as MetaWebhookPayload;
+      return data?.object === 'whatsapp_business_account' && Array.isArray(data.entry);
+    },
+
+    parseWebhook(payload) {
+      const events: WebhookEvent[] = [];
+
+      for (const entry of (payload as MetaWebhookPayload).entry) {
+        for (const change of entry.changes || []) {
+          if (change.field !== 'messages' || !change.value) continue;
+          const { contacts = [], messages = [], statuses = [] } = change.value;
+
+          for (const message of messages) {
+            if (!message.from || !message.id) continue;
+
+            const parsed = parseMessage(message);
+            if (parsed) {
+              events.push({
+                type: 'message',
+                phone: message.from,
+                // Nome do perfil do remetente, quando enviado pela Meta
+                contactName: contacts.find(contact => contact.wa_id === message.from)?.profile?.name,
+                messageId: message.id,
+                message: parsed,
+              });
+            }
+          }
+
+          for (const statusUpdate of statuses) {
+            const status = normalizeMessageStatus(statusUpdate.status);
+            if (statusUpdate.id && status) {
+              events.push({ type: 'status', messageId: statusUpdate.id, status });
+            }
+          }
+        }
+      }
+
+      return events;
+    },
+  };
+}
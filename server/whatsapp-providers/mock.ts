@@ -0,0 +1,162 @@
+import { log } from '../vite';
+import type { InboundMediaType, MessageStatus, OutboundMedia, WebhookEvent, WhatsappProvider } from './types';
+import { placeholder, locationUrl, describeLocation, normalizeMessageStatus } from './message-utils';
+
+/**
+ * Provedor simulado, em memória, para testar o fluxo completo de conversas sem um celular.
+ * As mensagens enviadas ficam numa caixa de saída consultável e as recebidas são simuladas
+ * com o payload { provider: 'mock', ... } no webhook (fora de produção) ou pela tela de configuração.
+ */
+
+export interface MockOutboundMessage {
+  id: string;
+  phone: string;
+  kind: 'text' | 'template' | OutboundMedia['kind'];
+  content: string;
+  mediaUrl: string | null;
+  sentAt: Date;
+}
+
+export type MockWebhookPayload =
+  | {
+      provider: 'mock';
+      type?: 'message';
+      from: string;
+      contactName?: string;
+      text?: string;
+      messageId?: string;
+      mediaType?: Exclude<InboundMediaType, 'location' | 'contact'>;
+      mediaUrl?: string;
+      latitude?: number;
+      longitude?: number;
+    }
+  | {
+      provider: 'mock';
+      type: 'status';
+      messageId: string;
+      status: MessageStatus;
+    };
+
+const OUTBOX_LIMIT = 200;
+// Tempo até a mensagem simulada ser considerada entregue e lida
+const DELIVERED_AFTER_MS = 2000;
+const READ_AFTER_MS = 5000;
+
+const outbox: MockOutboundMessage[] = [];
+let sequence = 0;
+
+function nextId(): string {
+  sequence++;
+  return `mock_${Date.now()}_${sequence}`;
+}
+
+function record(phone: string, kind: MockOutboundMessage['kind'], content: string, mediaUrl: string | null = null) {
+  const message: MockOutboundMessage = { id: nextId(), phone, kind, content, mediaUrl, sentAt: new Date() };
+  outbox.unshift(message);
+  outbox.length = Math.min(outbox.length, OUTBOX_LIMIT);
+  log(`[Mock WhatsApp] ${kind} para ${phone}: ${content}`, 'info');
+  return { success: true, messageId: message.id, details: message };
+}
+
+export function getMockOutbox(): MockOutboundMessage[] {
+  return [...outbox];
+}
+
+export function clearMockOutbox(): void {
+  outbox.length = 0;
+}
+
+export const mockProvider: WhatsappProvider = {
+  name: 'mock',
+
+  async sendText(phone, text) {
+    return record(phone, 'text', text);
+  },
+
+  async sendMedia(phone, media) {
+    return record(phone, media.kind, media.caption || media.fileName || placeholder(media.kind), media.url);
+  },
+
+  async sendTemplate(phone, templateName, language) {
+    return record(phone, 'template', `Template: ${templateName} (${language})`);
+  },
+
+  async checkConnection() {
+    return {
+      success: true,
+      details: {
+        name: 'Provedor simulado',
+        phone: '+55 00 00000-0000',
+        status: 'CONNECTED'
+      }
+    };
+  },
+
+  async getMessageStatus(messageId) {
+    const message = outbox.find(item => item.id === messageId);
+    if (!message) {
+      return { success: false, error: 'Mensagem não encontrada no provedor simulado' };
+    }
+
+    const elapsed = Date.now() - message.sentAt.getTime();
+    const status: MessageStatus = elapsed >= READ_AFTER_MS ? 'read' : elapsed >= DELIVERED_AFTER_MS ? 'delivered' : 'sent';
+    return {
+      success: true,
+      details: { status, originalStatus: status, timestamp: new Date().toISOString() }
+    };
+  },
+
+  async getQRCode() {
+    return {
+      success: true,
+      details: { connected: true, message: 'Provedor simulado não precisa de QR Code' }
+    };
+  },
+
+  verifyWebhook() {
+    // Sem credencial para conferir: em produção as mensagens simuladas entram só pela rota autenticada
+    return process.env.NODE_ENV !== 'production';
+  },
+
+  matchesWebhook(payload) {
+    return (payload as MockWebhookPayload)?.provider === 'mock';
+  },
+
+  parseWebhook(payload) {
+    const data = payload as MockWebhookPayload;
+
+    if (data.type === 'status') {
+      const status = normalizeMessageStatus(data.status);
+      return status ? [{ type: 'status', messageId: data.messageId, status }] : [];
+    }
+
+    if (!data.from) {
+      return [];
+    }
+
+    const event: Extract<WebhookEvent, { type: 'message' }> = {
+      type: 'message',
+      phone: data.from,
+      contactName: data.contactName,
+      messageId: data.messageId || nextId(),
+      message: { content: data.text || '', mediaType: 'text' },
+    };
+
+    if (data.latitude !== undefined && data.longitude !== undefined) {
+      event.message = {
+        content: describeLocation(data.latitude, data.longitude, data.text),
+        mediaType: 'location',
+        mediaUrl: locationUrl(data.latitude, data.longitude),
+      };
+    } else if (data.mediaType && data.mediaType !== 'text') {
+      // Mídia simulada aponta direto para a URL informada, sem download
+      event.message = {
+        content: placeholder(data.mediaType, data.text),
+        mediaType: data.mediaType,
+        mediaUrl: data.mediaUrl || null,
+      };
+    }
+
+    return [event];
+  },
+};
@@ -0,0 +1,89 @@
+/**
+ * Contrato comum dos provedores de WhatsApp (Evolution API, API oficial da Meta e simulado).
+ * Cada provedor sabe enviar mensagens e interpretar o próprio formato de webhook;
+ * o restante do CRM trabalha só com os tipos deste arquivo.
+ */
+
+export type WhatsappProviderName = 'evolution' | 'meta' | 'mock';
+
+export const WHATSAPP_PROVIDERS: WhatsappProviderName[] = ['evolution', 'meta', 'mock'];
+
+// Retorno compartilhado pelas operações de envio e consulta
+export interface WhatsAppResult {
+  success: boolean;
+  messageId?: string;
+  error?: string;
+  details?: any;
+}
+
+export type MessageStatus = 'pending' | 'sent' | 'delivered' | 'read' | 'failed';
+
+export type InboundMediaType = 'text' | 'image' | 'audio' | 'video' | 'document' | 'sticker' | 'location' | 'contact';
+
+/**
+ * Conteúdo binário de uma mídia recebida
+ */
+export interface DownloadedMedia {
+  buffer: Buffer;
+  mimeType: string;
+  fileName?: string | null;
+}
+
+/**
+ * Mensagem recebida já interpretada, com a indicação de onde buscar o arquivo (se houver)
+ */
+export interface ParsedInboundMessage {
+  content: string;
+  mediaType: InboundMediaType;
+  mediaUrl?: string | null;
+  download?: () => Promise<DownloadedMedia | null>;
+  fileName?: string | null;
+}
+
+export type WebhookEvent =
+  | {
+      type: 'message';
+      phone: string;
+      contactName?: string | null;
+      messageId: string;
+      message: ParsedInboundMessage;
+    }
+  | {
+      type: 'status';
+      messageId: string;
+      status: MessageStatus;
+    };
+
+/**
+ * Dados da requisição recebida no webhook usados para conferir a origem
+ */
+export interface WebhookRequest {
+  headers: Record<string, string | string[] | undefined>;
+  /** Corpo exatamente como chegou, necessário para conferir assinaturas */
+  rawBody?: Buffer;
+  payload: unknown;
+}
+
+export interface OutboundMedia {
+  kind: 'image' | 'document' | 'audio' | 'video';
+  url: string;
+  caption?: string;
+  fileName?: string;
+}
+
+export interface WhatsappProvider {
+  name: WhatsappProviderName;
+  /** Número já formatado com DDI (ex.: 5511999999999) */
+  sendText(phone: string, text: string): Promise<WhatsAppResult>;
+  sendMedia(phone: string, media: OutboundMedia): Promise<WhatsAppResult>;
+  sendTemplate(phone: string, templateName: string, language: string): Promise<WhatsAppResult>;
+  checkConnection(): Promise<WhatsAppResult>;
+  getMessageStatus(messageId: string): Promise<WhatsAppResult>;
+  /** Provedores pareados pelo celular (QR Code); a API oficial não usa */
+  getQRCode?(): Promise<WhatsAppResult>;
+  /** Confere a assinatura ou o token enviado pelo provedor; requisições que falham não devem ser processadas */
+  verifyWebhook(request: WebhookRequest): boolean;
+  /** Indica se o payload recebido no webhook está no formato deste provedor */
+  matchesWebhook(payload: unknown): boolean;
+  parseWebhook(payload: unknown): WebhookEvent[];
+}
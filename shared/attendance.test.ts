@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_ATTENDANCE_POLICY, isBillableAula, isLateCancellation, summarizeAttendance } from "./attendance";
+
+const start = new Date("2025-03-10T13:00:00.000Z");
+const hoursBefore = (hours: number) => new Date(start.getTime() - hours * 60 * 60 * 1000);
+
+describe("isLateCancellation", () => {
+  it("cobra cancelamentos com menos antecedência que a política, inclusive depois do início", () => {
+    expect(isLateCancellation(start, hoursBefore(13), DEFAULT_ATTENDANCE_POLICY)).toBe(false);
+    expect(isLateCancellation(start, hoursBefore(12), DEFAULT_ATTENDANCE_POLICY)).toBe(false);
+    expect(isLateCancellation(start, hoursBefore(11), DEFAULT_ATTENDANCE_POLICY)).toBe(true);
+    expect(isLateCancellation(start, hoursBefore(-1), DEFAULT_ATTENDANCE_POLICY)).toBe(true);
+  });
+
+  it("não cobra nada quando a regra está desativada", () => {
+    expect(isLateCancellation(start, hoursBefore(-1), { ...DEFAULT_ATTENDANCE_POLICY, lateCancellationHours: 0 })).toBe(false);
+  });
+});
+
+describe("isBillableAula", () => {
+  it("conta aulas concluídas e as cobradas por falta ou cancelamento tardio", () => {
+    expect(isBillableAula({ status: "concluido" })).toBe(true);
+    expect(isBillableAula({ status: "falta", chargeable: true })).toBe(true);
+    expect(isBillableAula({ status: "cancelado", chargeable: true })).toBe(true);
+    expect(isBillableAula({ status: "falta", chargeable: false })).toBe(false);
+    expect(isBillableAula({ status: "agendado", chargeable: null })).toBe(false);
+  });
+});
+
+describe("summarizeAttendance", () => {
+  const now = new Date("2025-03-20T12:00:00.000Z");
+  const past = "2025-03-10T13:00:00.000Z";
+  const future = "2025-03-25T13:00:00.000Z";
+
+  it("calcula as taxas sobre as aulas ocorridas, com cancelamento tardio como ausência", () => {
+    const summary = summarizeAttendance([
+      { status: "concluido", startTime: past },
+      { status: "agendado", startTime: past, checkInAt: past },
+      { status: "falta", startTime: past },
+      { status: "cancelado", startTime: past, lateCancellation: true },
+      { status: "cancelado", startTime: past, lateCancellation: false },
+      { status: "remarcado", startTime: past },
+      { status: "agendado", startTime: past },
+      { status: "agendado", startTime: future },
+    ], now);
+
+    expect(summary).toEqual({
+      total: 4,
+      attended: 2,
+      noShows: 1,
+      lateCancellations: 1,
+      cancelled: 1,
+      upcoming: 1,
+      attendanceRate: 0.5,
+      noShowRate: 0.25,
+    });
+  });
+
+  it("deixa as taxas nulas sem aulas ocorridas", () => {
+    expect(summarizeAttendance([{ status: "agendado", startTime: future }], now)).toMatchObject({
+      total: 0,
+      upcoming: 1,
+      attendanceRate: null,
+      noShowRate: null,
+    });
+  });
+});
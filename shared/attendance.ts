@@ -0,0 +1,90 @@
+/**
+ * Presença nas aulas: check-in/check-out do professor, faltas do aluno e política de cancelamento tardio.
+ * Usado pelo servidor ao registrar presença e cancelamentos e pelo cliente ao exibir a frequência do aluno.
+ */
+
+export interface AttendancePolicy {
+  lateCancellationHours: number; // Cancelamento com menos antecedência que isso é cobrado (0 desativa a regra)
+  chargeNoShow: boolean; // Falta do aluno consome crédito / é cobrada
+  checkInEarlyMinutes: number; // Quanto antes do início o professor pode registrar a chegada
+}
+
+export const DEFAULT_ATTENDANCE_POLICY: AttendancePolicy = {
+  lateCancellationHours: 12,
+  chargeNoShow: true,
+  checkInEarlyMinutes: 60,
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Cancelamento feito com antecedência menor que a da política (inclusive depois do início da aula)
+ */
+export function isLateCancellation(startTime: Date, cancelledAt: Date, policy: AttendancePolicy): boolean {
+  if (policy.lateCancellationHours <= 0) return false;
+  return startTime.getTime() - cancelledAt.getTime() < policy.lateCancellationHours * HOUR_MS;
+}
+
+// Aula que conta como dada: concluída ou cobrada por falta/cancelamento tardio.
+// Regra única para créditos, receita e folha: o professor recebe por toda aula cobrada do aluno
+export function isBillableAula(aula: { status: string; chargeable?: boolean | null }): boolean {
+  return aula.status === 'concluido' || !!aula.chargeable;
+}
+
+export interface AttendanceAula {
+  status: string;
+  startTime: Date | string;
+  checkInAt?: Date | string | null;
+  lateCancellation?: boolean | null;
+}
+
+export interface AttendanceSummary {
+  total: number; // Aulas já ocorridas que contam para a frequência
+  attended: number;
+  noShows: number;
+  lateCancellations: number;
+  cancelled: number; // Cancelamentos feitos dentro do prazo (não entram nas taxas)
+  upcoming: number;
+  attendanceRate: number | null; // Entre 0 e 1; null sem aulas ocorridas
+  noShowRate: number | null;
+}
+
+/**
+ * Frequência do aluno: presença e faltas sobre as aulas já ocorridas, contando cancelamentos tardios como ausência
+ */
+export function summarizeAttendance(aulas: AttendanceAula[], now: Date = new Date()): AttendanceSummary {
+  const summary: AttendanceSummary = {
+    total: 0,
+    attended: 0,
+    noShows: 0,
+    lateCancellations: 0,
+    cancelled: 0,
+    upcoming: 0,
+    attendanceRate: null,
+    noShowRate: null,
+  };
+
+  for (const aula of aulas) {
+    if (aula.status === 'cancelado') {
+      if (aula.lateCancellation) summary.lateCancellations++;
+      else summary.cancelled++;
+      continue;
+    }
+    if (aula.status === 'remarcado') continue;
+    if (aula.status === 'falta') {
+      summary.noShows++;
+    } else if (aula.status === 'concluido' || aula.checkInAt) {
+      summary.attended++;
+    } else if (new Date(aula.startTime) > now) {
+      summary.upcoming++;
+    }
+    // Aulas passadas ainda "agendado" sem check-in ficam fora das taxas até terem presença ou falta registrada
+  }
+
+  summary.total = summary.attended + summary.noShows + summary.lateCancellations;
+  if (summary.total > 0) {
+    summary.attendanceRate = summary.attended / summary.total;
+    summary.noShowRate = summary.noShows / summary.total;
+  }
+  return summary;
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { checkAvailability, toLocalDay, type ProfessorAvailabilityData } from "./availability";
+
+// Horário de parede de São Paulo (UTC-3) para Date
+const at = (local: string) => new Date(`${local}:00.000-03:00`);
+
+// Segunda a sexta, 08:00–18:00 com intervalo 12:00–13:00; sábado só de manhã
+const data: ProfessorAvailabilityData = {
+  workingHours: [
+    ...[1, 2, 3, 4, 5].map(weekDay => ({ weekDay, startTime: "08:00", endTime: "18:00", breakStart: "12:00", breakEnd: "13:00" })),
+    { weekDay: 6, startTime: "08:00", endTime: "12:00" },
+  ],
+  timeOff: [{ startTime: at("2025-03-20T00:00"), endTime: at("2025-03-22T00:00"), kind: "ferias", reason: "Viagem" }],
+  holidays: [{ date: "2025-04-18", name: "Sexta-feira Santa" }],
+};
+
+describe("checkAvailability", () => {
+  it("aceita aulas dentro do expediente, inclusive encostadas no intervalo e no fim do dia", () => {
+    expect(checkAvailability(data, at("2025-03-10T11:00"), at("2025-03-10T12:00"))).toBeNull();
+    expect(checkAvailability(data, at("2025-03-10T13:00"), at("2025-03-10T14:00"))).toBeNull();
+    expect(checkAvailability(data, at("2025-03-10T17:00"), at("2025-03-10T18:00"))).toBeNull();
+  });
+
+  it("recusa aulas fora do expediente ou em dias sem expediente", () => {
+    expect(checkAvailability(data, at("2025-03-10T17:30"), at("2025-03-10T18:30"))).toMatchObject({ reason: "fora_do_expediente" });
+    expect(checkAvailability(data, at("2025-03-15T11:30"), at("2025-03-15T12:30"))).toMatchObject({ reason: "fora_do_expediente" });
+    expect(checkAvailability(data, at("2025-03-16T10:00"), at("2025-03-16T11:00"))).toEqual({
+      reason: "fora_do_expediente",
+      message: "O professor não trabalha neste dia da semana (Domingo)",
+    });
+  });
+
+  it("recusa aulas que invadem o intervalo", () => {
+    expect(checkAvailability(data, at("2025-03-10T11:30"), at("2025-03-10T12:30"))).toEqual({
+      reason: "intervalo",
+      message: "Horário no intervalo do professor (12:00–13:00)",
+    });
+  });
+
+  it("dá prioridade à ausência e ao feriado, mesmo no horário de expediente", () => {
+    expect(checkAvailability(data, at("2025-03-21T09:00"), at("2025-03-21T10:00"))).toEqual({
+      reason: "ausencia",
+      message: "Professor indisponível neste período (Férias: Viagem)",
+    });
+    expect(checkAvailability(data, at("2025-04-18T09:00"), at("2025-04-18T10:00"))).toEqual({
+      reason: "feriado",
+      message: "Feriado: Sexta-feira Santa",
+    });
+  });
+
+  it("não restringe o horário de quem não tem expediente cadastrado", () => {
+    const withoutHours = { ...data, workingHours: [] };
+
+    expect(checkAvailability(withoutHours, at("2025-03-16T22:00"), at("2025-03-16T23:00"))).toBeNull();
+    expect(checkAvailability(withoutHours, at("2025-04-18T22:00"), at("2025-04-18T23:00"))).toMatchObject({ reason: "feriado" });
+  });
+});
+
+describe("toLocalDay", () => {
+  it("usa o dia no fuso da academia", () => {
+    expect(toLocalDay(new Date("2025-03-11T02:00:00.000Z"))).toBe("2025-03-10");
+  });
+});
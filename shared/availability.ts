@@ -0,0 +1,148 @@
+import { formatInTimeZone } from "date-fns-tz";
+import { RECURRENCE_TIMEZONE } from "./recurrence";
+
+/**
+ * Regras de disponibilidade dos professores: expediente semanal com intervalo,
+ * feriados e ausências (férias, folgas). Usado pelo servidor ao validar agendamentos
+ * e pelos formulários para avisar antes de enviar.
+ * Professor sem expediente cadastrado não tem restrição de horário, só de feriados e ausências.
+ */
+
+export const AVAILABILITY_TIMEZONE = RECURRENCE_TIMEZONE;
+
+export const WEEK_DAY_LABELS = ["Domingo", "Segunda-feira", "Terça-feira", "Quarta-feira", "Quinta-feira", "Sexta-feira", "Sábado"];
+
+export const TIME_OFF_KINDS = ["ferias", "folga", "licenca", "outro"] as const;
+export type TimeOffKind = typeof TIME_OFF_KINDS[number];
+
+export const TIME_OFF_KIND_LABELS: Record<TimeOffKind, string> = {
+  ferias: "Férias",
+  folga: "Folga",
+  licenca: "Licença",
+  outro: "Ausência",
+};
+
+// Expediente de um dia da semana (0 = domingo), com intervalo opcional
+export interface WorkingHoursRule {
+  weekDay: number;
+  startTime: string; // HH:mm
+  endTime: string; // HH:mm
+  breakStart?: string | null;
+  breakEnd?: string | null;
+}
+
+export interface TimeOffBlock {
+  startTime: Date | string;
+  endTime: Date | string;
+  kind: string;
+  reason?: string | null;
+}
+
+export interface HolidayEntry {
+  date: string; // yyyy-MM-dd
+  name: string;
+}
+
+export interface ProfessorAvailabilityData {
+  workingHours: WorkingHoursRule[];
+  timeOff: TimeOffBlock[];
+  holidays: HolidayEntry[];
+}
+
+export type AvailabilityIssueReason = "fora_do_expediente" | "intervalo" | "feriado" | "ausencia";
+
+export interface AvailabilityIssue {
+  reason: AvailabilityIssueReason;
+  message: string;
+}
+
+/**
+ * Dia (yyyy-MM-dd) da data no fuso da academia
+ */
+export function toLocalDay(date: Date): string {
+  return formatInTimeZone(date, AVAILABILITY_TIMEZONE, "yyyy-MM-dd");
+}
+
+function describeDay(rules: WorkingHoursRule[]): string {
+  return rules
+    .map(rule => rule.breakStart && rule.breakEnd
+      ? `${rule.startTime}–${rule.breakStart}, ${rule.breakEnd}–${rule.endTime}`
+      : `${rule.startTime}–${rule.endTime}`)
+    .join(", ");
+}
+
+/**
+ * Verifica se o professor pode dar aula no intervalo. Retorna o primeiro impedimento encontrado,
+ * na ordem: ausência, feriado, fora do expediente e intervalo.
+ */
+export function checkAvailability(data: ProfessorAvailabilityData, start: Date, end: Date): AvailabilityIssue | null {
+  const timeOff = data.timeOff.find(block =>
+    new Date(block.startTime) < end && new Date(block.endTime) > start
+  );
+  if (timeOff) {
+    const label = TIME_OFF_KIND_LABELS[timeOff.kind as TimeOffKind] || TIME_OFF_KIND_LABELS.outro;
+    return {
+      reason: "ausencia",
+      message: `Professor indisponível neste período (${label}${timeOff.reason ? `: ${timeOff.reason}` : ""})`,
+    };
+  }
+
+  const startDay = toLocalDay(start);
+  // Aula que termina exatamente à meia-noite ainda pertence ao dia do início
+  const endDay = toLocalDay(new Date(end.getTime() - 1));
+  const holiday = data.holidays.find(item => item.date >= startDay && item.date <= endDay);
+  if (holiday) {
+    return { reason: "feriado", message: `Feriado: ${holiday.name}` };
+  }
+
+  if (data.workingHours.length === 0) {
+    return null;
+  }
+
+  const weekDay = Number(formatInTimeZone(start, AVAILABILITY_TIMEZONE, "i")) % 7;
+  const dayRules = data.workingHours
+    .filter(rule => rule.weekDay === weekDay)
+    .sort((a, b) => a.startTime.localeCompare(b.startTime));
+  if (dayRules.length === 0) {
+    return { reason: "fora_do_expediente", message: `O professor não trabalha neste dia da semana (${WEEK_DAY_LABELS[weekDay]})` };
+  }
+
+  const startTime = formatInTimeZone(start, AVAILABILITY_TIMEZONE, "HH:mm");
+  const endTime = toLocalDay(end) === startDay ? formatInTimeZone(end, AVAILABILITY_TIMEZONE, "HH:mm") : "24:00";
+  const rule = endDay === startDay
+    ? dayRules.find(item => item.startTime <= startTime && endTime <= item.endTime)
+    : undefined;
+  if (!rule) {
+    return {
+      reason: "fora_do_expediente",
+      message: `Fora do expediente do professor (${WEEK_DAY_LABELS[weekDay]}: ${describeDay(dayRules)})`,
+    };
+  }
+
+  if (rule.breakStart && rule.breakEnd && startTime < rule.breakEnd && endTime > rule.breakStart) {
+    return { reason: "intervalo", message: `Horário no intervalo do professor (${rule.breakStart}–${rule.breakEnd})` };
+  }
+
+  return null;
+}
+
+// Horário livre sugerido pela busca de horários, já com a pontuação usada na ordenação
+export interface SlotSuggestion {
+  professorId: number;
+  professorName: string;
+  startTime: string; // ISO
+  endTime: string; // ISO
+  location: string | null;
+  locationId: number | null;
+  score: number;
+  reasons: string[];
+}
+
+export interface SlotSearchResult {
+  durationMinutes: number;
+  serviceName: string | null;
+  location: string | null;
+  locationId: number | null;
+  professorsSearched: number;
+  slots: SlotSuggestion[];
+}
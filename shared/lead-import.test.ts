@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_IMPORT_CAMPAIGN, mapLeadImportRow, parseImportDate, suggestLeadImportMapping } from "./lead-import";
+
+describe("suggestLeadImportMapping", () => {
+  it("reconhece cabeçalhos sem depender de acento, caixa, espaços ou sublinhado", () => {
+    expect(suggestLeadImportMapping(["Nome Completo", "E-mail", "WhatsApp", "UF", "Data_Entrada", "Observações", "Outra"])).toEqual({
+      name: "Nome Completo",
+      email: "E-mail",
+      phone: "WhatsApp",
+      state: "UF",
+      entryDate: "Data_Entrada",
+      notes: "Observações",
+    });
+  });
+
+  it("usa cada coluna para um único campo", () => {
+    expect(suggestLeadImportMapping(["nome", "cliente"])).toEqual({ name: "nome" });
+  });
+});
+
+describe("parseImportDate", () => {
+  it("converte datas brasileiras, ISO e o número serial das planilhas", () => {
+    expect(parseImportDate("5/3/2025")).toBe("2025-03-05");
+    expect(parseImportDate("05.03.2025 14:30")).toBe("2025-03-05");
+    expect(parseImportDate("2025-03-05T10:00:00")).toBe("2025-03-05");
+    expect(parseImportDate("45000")).toBe("2023-03-15");
+    expect(parseImportDate("45000.75")).toBe("2023-03-15");
+  });
+
+  it("devolve o valor original quando não reconhece a data", () => {
+    expect(parseImportDate(" ontem ")).toBe("ontem");
+  });
+});
+
+describe("mapLeadImportRow", () => {
+  const mapping = { name: "Nome", email: "Email", state: "UF", tags: "Tags", entryDate: "Entrada", status: "Status" };
+
+  it("normaliza os valores e registra só os campos preenchidos", () => {
+    const result = mapLeadImportRow(
+      { Nome: " Ana Souza ", Email: "Ana@Example.com", UF: "sp", Tags: "vip; indicação |  ,", Entrada: "10/02/2025", Status: "" },
+      mapping,
+      { source: "Favale", status: "Aluno" },
+      "2025-03-01"
+    );
+
+    expect(result.data).toEqual({
+      name: "Ana Souza",
+      email: "ana@example.com",
+      phone: "",
+      state: "SP",
+      campaign: DEFAULT_IMPORT_CAMPAIGN,
+      source: "Favale",
+      status: "Aluno",
+      tags: ["vip", "indicação"],
+      entryDate: "2025-02-10",
+      notes: null,
+    });
+    expect([...result.provided].sort()).toEqual(["email", "entryDate", "name", "state", "tags"]);
+  });
+
+  it("usa a data de hoje e os padrões quando as colunas não existem na linha", () => {
+    const result = mapLeadImportRow({ Nome: "Bruno" }, mapping, {}, "2025-03-01");
+
+    expect(result.data).toMatchObject({ status: "Lead", source: "", entryDate: "2025-03-01", tags: [] });
+    expect(result.provided).toEqual(["name"]);
+  });
+});
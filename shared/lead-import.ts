@@ -0,0 +1,162 @@
+/**
+ * Importação de leads por planilha: campos que podem receber colunas, sugestão de mapeamento
+ * pelo cabeçalho e conversão de uma linha da planilha nos dados do lead.
+ */
+
+export const LEAD_IMPORT_FIELD_NAMES = [
+  'name',
+  'email',
+  'phone',
+  'state',
+  'campaign',
+  'source',
+  'status',
+  'tags',
+  'entryDate',
+  'notes',
+] as const;
+
+export type LeadImportField = typeof LEAD_IMPORT_FIELD_NAMES[number];
+
+export const LEAD_IMPORT_FIELDS: { field: LeadImportField; label: string; aliases: string[] }[] = [
+  { field: 'name', label: 'Nome', aliases: ['nome', 'name', 'nome completo', 'cliente', 'aluno'] },
+  { field: 'email', label: 'E-mail', aliases: ['email', 'e-mail', 'e mail', 'correio eletronico'] },
+  { field: 'phone', label: 'Telefone', aliases: ['telefone', 'phone', 'celular', 'whatsapp', 'fone', 'tel'] },
+  { field: 'state', label: 'Estado', aliases: ['estado', 'state', 'uf'] },
+  { field: 'campaign', label: 'Campanha', aliases: ['campanha', 'campaign', 'canal'] },
+  { field: 'source', label: 'Origem', aliases: ['origem', 'fonte', 'source', 'marca'] },
+  { field: 'status', label: 'Status', aliases: ['status', 'situacao'] },
+  { field: 'tags', label: 'Etiquetas', aliases: ['tags', 'etiquetas', 'tag'] },
+  { field: 'entryDate', label: 'Data de entrada', aliases: ['data_entrada', 'data de entrada', 'data', 'entrada', 'cadastro', 'data de cadastro'] },
+  { field: 'notes', label: 'Observações', aliases: ['observacoes', 'observacao', 'obs', 'notas', 'notes'] },
+];
+
+// Campo do lead -> cabeçalho da coluna na planilha
+export type LeadImportMapping = Partial<Record<LeadImportField, string>>;
+
+// Valores usados quando a coluna não foi mapeada ou a célula está vazia
+export interface LeadImportDefaults {
+  source?: string;
+  status?: string;
+  campaign?: string;
+}
+
+export const DEFAULT_IMPORT_CAMPAIGN = 'Importação em Lote';
+
+const normalizeHeader = (header: string) =>
+  header
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[_\s]+/g, ' ')
+    .trim();
+
+/**
+ * Sugere o mapeamento comparando os cabeçalhos (sem acento e caixa) com os nomes conhecidos de cada campo
+ */
+export function suggestLeadImportMapping(headers: string[]): LeadImportMapping {
+  const mapping: LeadImportMapping = {};
+  const used = new Set<string>();
+
+  for (const { field, aliases } of LEAD_IMPORT_FIELDS) {
+    const normalizedAliases = aliases.map(normalizeHeader);
+    const header = headers.find(item => !used.has(item) && normalizedAliases.includes(normalizeHeader(item)));
+    if (header) {
+      mapping[field] = header;
+      used.add(header);
+    }
+  }
+
+  return mapping;
+}
+
+// Dias entre 30/12/1899 (dia zero das planilhas) e 01/01/1970
+const SPREADSHEET_EPOCH_OFFSET_DAYS = 25569;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Converte a data de entrada da planilha para AAAA-MM-DD.
+ * Aceita DD/MM/AAAA (também com - ou .), AAAA-MM-DD com ou sem hora e o número serial das planilhas
+ * (células de data no XLSX). Retorna o valor original quando não reconhece, para a validação apontar o erro.
+ */
+export function parseImportDate(value: string): string {
+  const trimmed = value.trim();
+
+  const brazilian = trimmed.match(/^(\d{1,2})[\/.-](\d{1,2})[\/.-](\d{4})/);
+  if (brazilian) {
+    const [, day, month, year] = brazilian;
+    return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  }
+
+  const iso = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) {
+    return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  }
+
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    const serial = parseFloat(trimmed);
+    if (serial > 0 && serial < 100000) {
+      return new Date(Math.round((serial - SPREADSHEET_EPOCH_OFFSET_DAYS) * DAY_MS)).toISOString().slice(0, 10);
+    }
+  }
+
+  return trimmed;
+}
+
+export interface LeadImportRowError {
+  row: number; // Linha na planilha (o cabeçalho é a linha 1)
+  message: string;
+}
+
+// Resultado da simulação: o que a importação faria sem gravar nada
+export interface LeadImportDryRun {
+  totalRows: number;
+  creates: number;
+  updates: number;
+  invalid: number;
+  errors: LeadImportRowError[]; // Primeiros erros encontrados
+  finishedAt: string;
+}
+
+export interface MappedLeadRow {
+  data: Record<string, unknown>; // Dados do lead (com valores padrão) para validar e criar
+  provided: LeadImportField[]; // Campos preenchidos na planilha: só eles atualizam um lead existente
+}
+
+/**
+ * Monta os dados do lead a partir de uma linha da planilha (cabeçalho -> valor)
+ */
+export function mapLeadImportRow(
+  row: Record<string, string>,
+  mapping: LeadImportMapping,
+  defaults: LeadImportDefaults,
+  today: string
+): MappedLeadRow {
+  const provided: LeadImportField[] = [];
+  const value = (field: LeadImportField) => {
+    const header = mapping[field];
+    const cell = header ? (row[header] ?? '').trim() : '';
+    if (cell) provided.push(field);
+    return cell;
+  };
+
+  const tags = value('tags');
+  const entryDate = value('entryDate');
+  const notes = value('notes');
+
+  return {
+    data: {
+      name: value('name'),
+      email: value('email').toLowerCase(),
+      phone: value('phone'),
+      state: value('state').toUpperCase(),
+      campaign: value('campaign') || defaults.campaign || DEFAULT_IMPORT_CAMPAIGN,
+      source: value('source') || defaults.source || '',
+      status: value('status') || defaults.status || 'Lead',
+      tags: tags ? tags.split(/[,;|]/).map(tag => tag.trim()).filter(Boolean) : [],
+      entryDate: entryDate ? parseImportDate(entryDate) : today,
+      notes: notes || null,
+    },
+    provided,
+  };
+}
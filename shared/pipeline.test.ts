@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { defaultStageForStatus, stageMatchesStatus, statusForStageKind } from "./pipeline";
+
+describe("status e etapas do funil", () => {
+  it("só a etapa de ganho corresponde ao status de aluno", () => {
+    expect(statusForStageKind("ganho")).toBe("Aluno");
+    expect(statusForStageKind("aberta")).toBe("Lead");
+    expect(statusForStageKind("perdido")).toBe("Lead");
+
+    expect(stageMatchesStatus("ganho", "Aluno")).toBe(true);
+    expect(stageMatchesStatus("aberta", "Aluno")).toBe(false);
+    expect(stageMatchesStatus("perdido", "Lead")).toBe(true);
+    expect(stageMatchesStatus("ganho", "Lead")).toBe(false);
+  });
+
+  it("escolhe a primeira etapa ativa do tipo do status, pela posição", () => {
+    const stages = [
+      { id: 1, kind: "aberta" as const, position: 2, active: true },
+      { id: 2, kind: "aberta" as const, position: 1, active: false },
+      { id: 3, kind: "aberta" as const, position: 3, active: true },
+      { id: 4, kind: "ganho" as const, position: 4, active: true },
+      { id: 5, kind: "perdido" as const, position: 5, active: true },
+    ];
+
+    expect(defaultStageForStatus(stages, "Lead")?.id).toBe(1);
+    expect(defaultStageForStatus(stages, "Aluno")?.id).toBe(4);
+    expect(defaultStageForStatus(stages.filter(stage => stage.kind !== "ganho"), "Aluno")).toBeUndefined();
+  });
+});
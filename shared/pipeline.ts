@@ -0,0 +1,56 @@
+/**
+ * Funil de vendas: etapas padrão, motivos de perda e a relação entre etapa e status do lead.
+ * O status ("Lead"/"Aluno") continua existindo porque agendamentos, cobrança e portal filtram por ele.
+ */
+
+export type PipelineStageKind = 'aberta' | 'ganho' | 'perdido';
+
+export const DEFAULT_PIPELINE_STAGES: { name: string; kind: PipelineStageKind }[] = [
+  { name: 'Novo', kind: 'aberta' },
+  { name: 'Contatado', kind: 'aberta' },
+  { name: 'Aula Experimental Agendada', kind: 'aberta' },
+  { name: 'Negociação', kind: 'aberta' },
+  { name: 'Aluno', kind: 'ganho' },
+  { name: 'Perdido', kind: 'perdido' },
+];
+
+export const DEFAULT_LOSS_REASONS = [
+  'Preço',
+  'Sem resposta',
+  'Horário incompatível',
+  'Localização',
+  'Escolheu outra academia',
+  'Desistiu de treinar',
+];
+
+export const STUDENT_STATUS = 'Aluno';
+export const LEAD_STATUS = 'Lead';
+
+export function statusForStageKind(kind: PipelineStageKind): string {
+  return kind === 'ganho' ? STUDENT_STATUS : LEAD_STATUS;
+}
+
+/**
+ * Se a etapa é compatível com o status do lead; quando não é (ex.: status alterado no formulário
+ * para "Aluno" com o lead numa etapa aberta), o lead precisa ser movido para a etapa padrão do status
+ */
+export function stageMatchesStatus(kind: PipelineStageKind, status: string): boolean {
+  return (kind === 'ganho') === (status === STUDENT_STATUS);
+}
+
+interface StageRef {
+  id: number;
+  kind: PipelineStageKind;
+  position: number;
+  active: boolean;
+}
+
+/**
+ * Etapa padrão para o status: a primeira etapa de ganho para alunos e a primeira etapa aberta para os demais
+ */
+export function defaultStageForStatus<T extends StageRef>(stages: T[], status: string): T | undefined {
+  const kind: PipelineStageKind = status === STUDENT_STATUS ? 'ganho' : 'aberta';
+  return stages
+    .filter(stage => stage.active && stage.kind === kind)
+    .sort((a, b) => a.position - b.position)[0];
+}
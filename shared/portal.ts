@@ -0,0 +1,59 @@
+/**
+ * Portal do aluno: regras de remarcação e cancelamento feitos pelo próprio aluno.
+ * Usado pelo servidor ao validar os pedidos e pelo cliente ao decidir quais ações exibir em cada aula.
+ */
+
+export interface PortalPolicy {
+  rescheduleNoticeHours: number; // Antecedência mínima para remarcar, tanto da aula atual quanto do novo horário
+  rescheduleWindowDays: number; // O novo horário deve ficar até esse número de dias depois da aula original
+}
+
+export const DEFAULT_PORTAL_POLICY: PortalPolicy = {
+  rescheduleNoticeHours: 24,
+  rescheduleWindowDays: 30,
+};
+
+// Aulas que o aluno ainda pode remarcar ou cancelar pelo portal
+export const PORTAL_CHANGEABLE_STATUSES = ['agendado', 'remarcado'];
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export interface PortalAula {
+  status: string;
+  startTime: Date | string;
+}
+
+export function canStudentCancel(aula: PortalAula, now: Date): boolean {
+  return PORTAL_CHANGEABLE_STATUSES.includes(aula.status) && new Date(aula.startTime) > now;
+}
+
+export function canStudentReschedule(aula: PortalAula, now: Date, policy: PortalPolicy): boolean {
+  return PORTAL_CHANGEABLE_STATUSES.includes(aula.status)
+    && new Date(aula.startTime).getTime() - now.getTime() >= policy.rescheduleNoticeHours * HOUR_MS;
+}
+
+/**
+ * Motivo pelo qual a remarcação para newStart não é permitida, ou null quando ela está dentro da política
+ */
+export function checkRescheduleRequest(aula: PortalAula, newStart: Date, now: Date, policy: PortalPolicy): string | null {
+  if (!PORTAL_CHANGEABLE_STATUSES.includes(aula.status)) {
+    return "Esta aula não pode mais ser alterada";
+  }
+  if (!canStudentReschedule(aula, now, policy)) {
+    return `Remarcações devem ser feitas com pelo menos ${policy.rescheduleNoticeHours} horas de antecedência`;
+  }
+
+  const currentStart = new Date(aula.startTime);
+  if (newStart.getTime() === currentStart.getTime()) {
+    return "Escolha um horário diferente do atual";
+  }
+  if (newStart.getTime() - now.getTime() < policy.rescheduleNoticeHours * HOUR_MS) {
+    return `O novo horário deve ter pelo menos ${policy.rescheduleNoticeHours} horas de antecedência`;
+  }
+  if (newStart.getTime() > currentStart.getTime() + policy.rescheduleWindowDays * DAY_MS) {
+    return `O novo horário deve ser até ${policy.rescheduleWindowDays} dias depois da aula original`;
+  }
+
+  return null;
+}
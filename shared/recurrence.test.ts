@@ -0,0 +1,359 @@
+import { describe, expect, it } from "vitest";
+import { formatInTimeZone } from "date-fns-tz";
+import {
+  RECURRENCE_TIMEZONE,
+  expandRecurrence,
+  normalizeRecurrenceRules,
+  parseRRule,
+  shiftRecurrenceRules,
+  toRRule,
+  type IRegraRecorrencia,
+  type RecurrenceSeries,
+} from "./recurrence";
+
+// Horário de parede de São Paulo, para comparar sem depender do fuso do processo
+function wallClock(date: Date): string {
+  return formatInTimeZone(date, RECURRENCE_TIMEZONE, "yyyy-MM-dd HH:mm");
+}
+
+function expandDays(series: RecurrenceSeries, until: string): string[] {
+  return expandRecurrence(series, new Date(until)).occurrences.map(({ startTime }) => wallClock(startTime).slice(0, 10));
+}
+
+function rules(partial: Partial<IRegraRecorrencia>): IRegraRecorrencia {
+  return { type: "weekly", interval: 1, endType: "never", ...partial };
+}
+
+describe("expandRecurrence", () => {
+  describe("intervalo", () => {
+    it("repete a cada 2 semanas nos dias escolhidos", () => {
+      const series = {
+        regras: rules({ interval: 2, weekDays: ["monday", "wednesday"] }),
+        startDate: "2025-03-03T13:00:00.000Z", // segunda, 10:00 em São Paulo
+      };
+      expect(expandDays(series, "2025-04-01T03:00:00.000Z")).toEqual([
+        "2025-03-03",
+        "2025-03-05",
+        "2025-03-17",
+        "2025-03-19",
+        "2025-03-31",
+      ]);
+    });
+
+    it("repete a cada 3 dias", () => {
+      const series = { regras: rules({ type: "daily", interval: 3 }), startDate: "2025-03-01T12:00:00.000Z" };
+      expect(expandDays(series, "2025-03-12T00:00:00.000Z")).toEqual([
+        "2025-03-01",
+        "2025-03-04",
+        "2025-03-07",
+        "2025-03-10",
+      ]);
+    });
+
+    it("ignora dias da semana anteriores ao início da série", () => {
+      const series = {
+        regras: rules({ weekDays: ["monday", "friday"] }),
+        startDate: "2025-03-05T12:00:00.000Z", // quarta
+      };
+      expect(expandDays(series, "2025-03-11T00:00:00.000Z")).toEqual(["2025-03-07", "2025-03-10"]);
+    });
+  });
+
+  describe("n-ésimo dia da semana do mês", () => {
+    it("gera a 2ª terça-feira de cada mês", () => {
+      const series = {
+        regras: rules({ type: "monthly", monthWeek: 2, monthWeekDay: "tuesday" }),
+        startDate: "2025-01-01T12:00:00.000Z",
+      };
+      expect(expandDays(series, "2025-04-01T00:00:00.000Z")).toEqual(["2025-01-14", "2025-02-11", "2025-03-11"]);
+    });
+
+    it("gera a última sexta-feira de cada mês", () => {
+      const series = {
+        regras: rules({ type: "monthly", monthWeek: -1, monthWeekDay: "friday" }),
+        startDate: "2025-01-01T12:00:00.000Z",
+      };
+      expect(expandDays(series, "2025-04-01T00:00:00.000Z")).toEqual(["2025-01-31", "2025-02-28", "2025-03-28"]);
+    });
+
+    it("pula os meses sem a 5ª ocorrência do dia da semana", () => {
+      const series = {
+        regras: rules({ type: "monthly", monthWeek: 5, monthWeekDay: "monday" }),
+        startDate: "2025-01-01T12:00:00.000Z",
+      };
+      expect(expandDays(series, "2025-07-01T00:00:00.000Z")).toEqual(["2025-03-31", "2025-06-30"]);
+    });
+  });
+
+  describe("dia do mês", () => {
+    it("pula os meses que não têm o dia, sem ajustar a data", () => {
+      const series = { regras: rules({ type: "monthly", monthDay: 31 }), startDate: "2025-01-31T12:00:00.000Z" };
+      expect(expandDays(series, "2025-06-01T00:00:00.000Z")).toEqual(["2025-01-31", "2025-03-31", "2025-05-31"]);
+    });
+
+    it("conta do fim do mês quando o dia é negativo", () => {
+      const series = { regras: rules({ type: "monthly", monthDay: -1 }), startDate: "2025-01-01T12:00:00.000Z" };
+      expect(expandDays(series, "2025-05-01T00:00:00.000Z")).toEqual([
+        "2025-01-31",
+        "2025-02-28",
+        "2025-03-31",
+        "2025-04-30",
+      ]);
+    });
+
+    it("considera anos bissextos no dia negativo", () => {
+      const series = { regras: rules({ type: "yearly", monthDay: -3 }), startDate: "2024-02-01T12:00:00.000Z" };
+      expect(expandDays(series, "2026-03-01T00:00:00.000Z")).toEqual(["2024-02-27", "2025-02-26", "2026-02-26"]);
+    });
+
+    it("rejeita dia do mês zero ou fora do intervalo", () => {
+      expect(() => normalizeRecurrenceRules(rules({ type: "monthly", monthDay: 0 }))).toThrow();
+      expect(() => normalizeRecurrenceRules(rules({ type: "monthly", monthDay: -32 }))).toThrow();
+    });
+  });
+
+  describe("datas de exceção", () => {
+    it("não gera aula nas datas de exceção, mas elas contam para o COUNT", () => {
+      const series = {
+        regras: rules({ weekDays: ["monday"], exDates: ["2025-03-10"], endType: "count", endCount: 4 }),
+        startDate: "2025-03-03T13:00:00.000Z",
+      };
+      const expansion = expandRecurrence(series, new Date("2025-12-31T00:00:00.000Z"));
+      expect(expansion.occurrences.map(({ startTime }) => wallClock(startTime))).toEqual([
+        "2025-03-03 10:00",
+        "2025-03-17 10:00",
+        "2025-03-24 10:00",
+      ]);
+      expect(expansion.exhausted).toBe(true);
+    });
+  });
+
+  describe("fim da série", () => {
+    const weekly = rules({ weekDays: ["tuesday"] });
+
+    it("para no COUNT", () => {
+      const series = { regras: weekly, startDate: "2025-03-04T12:00:00.000Z", maxOccurrences: 3 };
+      const expansion = expandRecurrence(series, new Date("2025-12-31T00:00:00.000Z"));
+      expect(expansion.occurrences).toHaveLength(3);
+      expect(expansion.exhausted).toBe(true);
+    });
+
+    it("inclui a ocorrência no próprio UNTIL e para depois dele", () => {
+      const series = { regras: weekly, startDate: "2025-03-04T12:00:00.000Z", endDate: "2025-03-18T12:00:00.000Z" };
+      const expansion = expandRecurrence(series, new Date("2025-12-31T00:00:00.000Z"));
+      expect(expansion.occurrences.map(({ startTime }) => wallClock(startTime).slice(0, 10))).toEqual([
+        "2025-03-04",
+        "2025-03-11",
+        "2025-03-18",
+      ]);
+      expect(expansion.exhausted).toBe(true);
+    });
+
+    it("não marca como encerrada quando o limite pedido vem antes do fim", () => {
+      const series = { regras: weekly, startDate: "2025-03-04T12:00:00.000Z", maxOccurrences: 10 };
+      const expansion = expandRecurrence(series, new Date("2025-03-12T00:00:00.000Z"));
+      expect(expansion.occurrences).toHaveLength(2);
+      expect(expansion.exhausted).toBe(false);
+    });
+
+    it("dá o mesmo resultado ao expandir de novo com um limite maior", () => {
+      const series = { regras: weekly, startDate: "2025-03-04T12:00:00.000Z", maxOccurrences: 5 };
+      const first = expandRecurrence(series, new Date("2025-03-20T00:00:00.000Z")).occurrences;
+      const all = expandRecurrence(series, new Date("2025-12-31T00:00:00.000Z")).occurrences;
+      expect(all.slice(0, first.length)).toEqual(first);
+      expect(all).toHaveLength(5);
+    });
+  });
+
+  describe("horário por dia da semana", () => {
+    it("usa o horário e a duração próprios de cada dia", () => {
+      const series = {
+        regras: rules({
+          weekDays: ["monday", "thursday"],
+          durationMinutes: 60,
+          weekDayTimes: {
+            monday: { startTime: "07:00", durationMinutes: 45 },
+            thursday: { startTime: "18:30" },
+          },
+        }),
+        startDate: "2025-03-03T10:00:00.000Z",
+      };
+      const occurrences = expandRecurrence(series, new Date("2025-03-08T00:00:00.000Z")).occurrences;
+      expect(occurrences.map(({ startTime, endTime }) => [wallClock(startTime), wallClock(endTime)])).toEqual([
+        ["2025-03-03 07:00", "2025-03-03 07:45"],
+        ["2025-03-06 18:30", "2025-03-06 19:30"],
+      ]);
+    });
+  });
+
+  describe("horário de verão em America/Sao_Paulo", () => {
+    it("mantém o horário de parede quando o horário de verão começa", () => {
+      // Em 04/11/2018 os relógios adiantaram de 00:00 para 01:00 (UTC-3 para UTC-2)
+      const series = { regras: rules({ weekDays: ["sunday"] }), startDate: "2018-10-21T22:00:00.000Z" };
+      const occurrences = expandRecurrence(series, new Date("2018-11-12T00:00:00.000Z")).occurrences;
+      expect(occurrences.map(({ startTime }) => startTime.toISOString())).toEqual([
+        "2018-10-21T22:00:00.000Z",
+        "2018-10-28T22:00:00.000Z",
+        "2018-11-04T21:00:00.000Z",
+        "2018-11-11T21:00:00.000Z",
+      ]);
+      expect(occurrences.every(({ startTime }) => wallClock(startTime).endsWith("19:00"))).toBe(true);
+    });
+
+    it("mantém o horário de parede quando o horário de verão termina", () => {
+      // Em 17/02/2019 os relógios voltaram de 00:00 para 23:00 do dia anterior (UTC-2 para UTC-3)
+      const series = { regras: rules({ type: "daily" }), startDate: "2019-02-15T21:00:00.000Z" };
+      const occurrences = expandRecurrence(series, new Date("2019-02-19T00:00:00.000Z")).occurrences;
+      expect(occurrences.map(({ startTime }) => startTime.toISOString())).toEqual([
+        "2019-02-15T21:00:00.000Z",
+        "2019-02-16T21:00:00.000Z",
+        "2019-02-17T22:00:00.000Z",
+        "2019-02-18T22:00:00.000Z",
+      ]);
+    });
+  });
+});
+
+describe("parseRRule", () => {
+  it("lê DTSTART, RRULE e EXDATE", () => {
+    const parsed = parseRRule([
+      "DTSTART;TZID=America/Sao_Paulo:20250303T100000",
+      "RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=6",
+      "EXDATE;TZID=America/Sao_Paulo:20250317T100000",
+    ].join("\n"));
+
+    expect(parsed.startDate?.toISOString()).toBe("2025-03-03T13:00:00.000Z");
+    expect(parsed.maxOccurrences).toBe(6);
+    expect(parsed.regras).toMatchObject({
+      type: "weekly",
+      interval: 2,
+      weekDays: ["monday", "wednesday"],
+      exDates: ["2025-03-17"],
+      endType: "count",
+      endCount: 6,
+    });
+  });
+
+  it("lê o n-ésimo dia da semana e o BYMONTHDAY negativo", () => {
+    expect(parseRRule("FREQ=MONTHLY;BYDAY=-1FR").regras).toMatchObject({ monthWeek: -1, monthWeekDay: "friday" });
+    expect(parseRRule("FREQ=MONTHLY;BYMONTHDAY=-1").regras.monthDay).toBe(-1);
+    expect(parseRRule("FREQ=MONTHLY;BYMONTHDAY=+15").regras.monthDay).toBe(15);
+  });
+
+  it("rejeita o que o agendamento não suporta, em vez de ignorar", () => {
+    expect(() => parseRRule("FREQ=MONTHLY;BYMONTHDAY=1,15")).toThrow(/BYMONTHDAY/);
+    expect(() => parseRRule("FREQ=MONTHLY;BYMONTHDAY=0")).toThrow(/BYMONTHDAY/);
+    expect(() => parseRRule("FREQ=HOURLY")).toThrow(/Frequência/);
+    expect(() => parseRRule("FREQ=WEEKLY;BYSETPOS=1")).toThrow(/BYSETPOS/);
+    expect(() => parseRRule("DTSTART:20250303T100000")).toThrow(/RRULE/);
+  });
+
+  it("rejeita BYDAY que a expansão ignoraria", () => {
+    expect(() => parseRRule("FREQ=MONTHLY;BYDAY=MO")).toThrow(/não é suportado/);
+    expect(() => parseRRule("BYDAY=TU,TH;FREQ=YEARLY")).toThrow(/não é suportado/);
+    expect(() => parseRRule("FREQ=MONTHLY;BYDAY=1MO,3MO")).toThrow(/não é suportado/);
+    expect(() => parseRRule("FREQ=MONTHLY;BYDAY=2TU,FR")).toThrow(/não é suportado/);
+    expect(() => parseRRule("FREQ=WEEKLY;BYDAY=2TU")).toThrow(/não é suportado/);
+  });
+});
+
+describe("toRRule e parseRRule", () => {
+  const until = new Date("2026-01-01T00:00:00.000Z");
+
+  const cases: Array<[string, RecurrenceSeries]> = [
+    [
+      "semanal com intervalo, COUNT e exceções",
+      {
+        regras: rules({ interval: 2, weekDays: ["monday", "wednesday"], exDates: ["2025-03-17"] }),
+        startDate: "2025-03-03T13:00:00.000Z",
+        maxOccurrences: 8,
+      },
+    ],
+    [
+      "última sexta-feira do mês com UNTIL",
+      {
+        regras: rules({ type: "monthly", monthWeek: -1, monthWeekDay: "friday" }),
+        startDate: "2025-01-31T21:30:00.000Z",
+        endDate: "2025-08-30T00:00:00.000Z",
+      },
+    ],
+    [
+      "último dia do mês",
+      { regras: rules({ type: "monthly", monthDay: -1 }), startDate: "2025-01-31T12:00:00.000Z", maxOccurrences: 6 },
+    ],
+    [
+      "diária a cada 3 dias",
+      { regras: rules({ type: "daily", interval: 3 }), startDate: "2025-05-02T11:00:00.000Z", maxOccurrences: 10 },
+    ],
+  ];
+
+  it.each(cases)("preserva as ocorrências: %s", (_name, series) => {
+    const parsed = parseRRule(toRRule(series));
+    const imported: RecurrenceSeries = {
+      regras: parsed.regras,
+      startDate: parsed.startDate!,
+      endDate: parsed.endDate,
+      maxOccurrences: parsed.maxOccurrences,
+    };
+    expect(expandRecurrence(imported, until)).toEqual(expandRecurrence(series, until));
+  });
+
+  it("exporta as linhas no formato do RFC 5545", () => {
+    const [, series] = cases[0];
+    expect(toRRule(series)).toBe([
+      "DTSTART;TZID=America/Sao_Paulo:20250303T100000",
+      "RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=8",
+      "EXDATE;TZID=America/Sao_Paulo:20250317T100000",
+    ].join("\n"));
+  });
+});
+
+describe("shiftRecurrenceRules", () => {
+  // 10:00 em São Paulo (UTC-3)
+  const at = (day: string) => new Date(`${day}T13:00:00.000Z`);
+
+  it("usa o dia do mês da aula remarcada, sem limitar em 31", () => {
+    const shifted = shiftRecurrenceRules(rules({ type: "monthly", monthDay: 30 }), at("2025-01-30"), at("2025-02-02"));
+    expect(shifted.monthDay).toBe(2);
+  });
+
+  it("mantém a contagem do fim do mês quando o dia é negativo", () => {
+    const shifted = shiftRecurrenceRules(rules({ type: "monthly", monthDay: -1 }), at("2025-03-31"), at("2025-03-28"));
+    expect(shifted.monthDay).toBe(-4);
+  });
+
+  it("recalcula a semana do mês a partir da aula remarcada", () => {
+    // 2ª terça de abril/2025 é dia 8; na quarta 16 a aula passa a ser a 3ª quarta-feira
+    const shifted = shiftRecurrenceRules(
+      rules({ type: "monthly", monthWeek: 2, monthWeekDay: "tuesday" }),
+      at("2025-04-08"),
+      at("2025-04-16")
+    );
+    expect(shifted).toMatchObject({ monthWeek: 3, monthWeekDay: "wednesday" });
+  });
+
+  it("mantém a última semana quando a aula continua nos últimos 7 dias", () => {
+    const shifted = shiftRecurrenceRules(
+      rules({ type: "monthly", monthWeek: -1, monthWeekDay: "friday" }),
+      at("2025-05-30"),
+      at("2025-05-29")
+    );
+    expect(shifted).toMatchObject({ monthWeek: -1, monthWeekDay: "thursday" });
+  });
+
+  it("desloca os dias da semana, as exceções e o horário próprio do dia", () => {
+    const shifted = shiftRecurrenceRules(
+      rules({
+        weekDays: ["monday", "wednesday"],
+        exDates: ["2025-03-17"],
+        weekDayTimes: { monday: { startTime: "10:00" } },
+      }),
+      at("2025-03-03"),
+      new Date("2025-03-04T14:30:00.000Z"),
+      45
+    );
+    expect(shifted.weekDays).toEqual(["tuesday", "thursday"]);
+    expect(shifted.exDates).toEqual(["2025-03-18"]);
+    expect(shifted.weekDayTimes).toEqual({ tuesday: { startTime: "11:30", durationMinutes: 45 } });
+  });
+});
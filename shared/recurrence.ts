@@ -0,0 +1,537 @@
+import {
+  addDays,
+  addMonths,
+  addYears,
+  differenceInCalendarDays,
+  format,
+  getDaysInMonth,
+  lastDayOfMonth,
+  startOfDay,
+  startOfMonth,
+} from "date-fns";
+import { formatInTimeZone, fromZonedTime, toZonedTime } from "date-fns-tz";
+
+/**
+ * Motor de recorrência compartilhado entre servidor e cliente.
+ * Segue o modelo do RFC 5545 (RRULE): frequência, intervalo, dias da semana, dia do mês,
+ * "n-ésimo dia da semana do mês", datas de exceção (EXDATE), COUNT e UNTIL.
+ * As datas são calculadas no horário de parede de São Paulo, independente do fuso do processo.
+ */
+
+export const RECURRENCE_TIMEZONE = "America/Sao_Paulo";
+export const DEFAULT_DURATION_MINUTES = 60;
+
+export const WEEK_DAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"] as const;
+export type WeekDay = typeof WEEK_DAYS[number];
+
+// Códigos BYDAY do RFC 5545, na mesma ordem de WEEK_DAYS
+const RRULE_DAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+export type RecurrenceType = "none" | "daily" | "weekly" | "monthly" | "yearly" | "custom";
+
+// Horário próprio de um dia da semana (ex.: segunda às 07:00, quinta às 18:30)
+export interface IHorarioDiaSemana {
+  startTime: string; // HH:mm
+  durationMinutes?: number;
+}
+
+// Interface para as regras de recorrência (JSON salvo em agendamentos_recorrentes.regras)
+export interface IRegraRecorrencia {
+  type: RecurrenceType;
+  interval: number; // A cada X dias/semanas/meses/anos
+  weekDays?: string[]; // ['monday', 'wednesday', 'friday'] para recorrência semanal
+  monthDay?: number; // Dia do mês (1 a 31, ou -1 a -31 contando do fim) para recorrência mensal/anual
+  monthWeek?: number; // 1 a 5 ou -1 (última): "2ª terça-feira do mês", junto com monthWeekDay
+  monthWeekDay?: string;
+  exDates?: string[]; // Dias sem aula (EXDATE), no formato yyyy-MM-dd
+  weekDayTimes?: Record<string, IHorarioDiaSemana>;
+  durationMinutes?: number; // Duração padrão de cada aula
+  rrule?: string; // Regra RRULE original, quando importada (type 'custom')
+  endType: "never" | "date" | "count";
+  endDate?: Date | string;
+  endCount?: number;
+}
+
+// Campos da série usados na expansão (também aceita os dados ainda não salvos)
+export interface RecurrenceSeries {
+  regras: unknown;
+  startDate: Date | string;
+  endDate?: Date | string | null;
+  maxOccurrences?: number | null;
+}
+
+export interface RecurrenceOccurrence {
+  startTime: Date;
+  endTime: Date;
+}
+
+export interface RecurrenceExpansion {
+  occurrences: RecurrenceOccurrence[];
+  // true quando a série terminou (endDate/maxOccurrences) antes do limite pedido
+  exhausted: boolean;
+}
+
+export interface ParsedRRule {
+  regras: IRegraRecorrencia;
+  startDate?: Date;
+  endDate?: Date;
+  maxOccurrences?: number;
+}
+
+// Limite de períodos percorridos numa expansão, contra regras que nunca geram datas
+const MAX_PERIODS = 20000;
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+function isWeekDay(value: unknown): value is WeekDay {
+  return typeof value === "string" && (WEEK_DAYS as readonly string[]).includes(value);
+}
+
+function positiveInt(value: unknown): number | undefined {
+  const parsed = Math.floor(Number(value));
+  return parsed > 0 ? parsed : undefined;
+}
+
+/**
+ * Normaliza as regras salvas (inclusive formatos antigos) e valida os campos.
+ * Uma regra do tipo 'custom' com rrule é convertida para os campos equivalentes.
+ * Lança um erro com mensagem em português quando a regra é inválida.
+ */
+export function normalizeRecurrenceRules(raw: unknown): IRegraRecorrencia {
+  const input = (raw && typeof raw === "object" ? raw : {}) as Partial<IRegraRecorrencia>;
+
+  if (input.type === "custom" && input.rrule) {
+    const parsed = parseRRule(input.rrule);
+    return {
+      ...normalizeRecurrenceRules({
+        ...parsed.regras,
+        // Campos que o RRULE não representa continuam valendo
+        exDates: Array.from(new Set([...(parsed.regras.exDates || []), ...(input.exDates || [])])),
+        weekDayTimes: input.weekDayTimes,
+        durationMinutes: input.durationMinutes,
+      }),
+      rrule: input.rrule,
+    };
+  }
+
+  const type = input.type && ["none", "daily", "weekly", "monthly", "yearly"].includes(input.type)
+    ? input.type
+    : "weekly";
+
+  const weekDays = (input.weekDays || []).filter(isWeekDay);
+  if (input.weekDays && weekDays.length !== input.weekDays.length) {
+    throw new Error("Dia da semana inválido na regra de recorrência");
+  }
+
+  if (input.monthDay !== undefined && (!Number.isInteger(input.monthDay) || input.monthDay === 0 || Math.abs(input.monthDay) > 31)) {
+    throw new Error("O dia do mês deve ser entre 1 e 31 (ou -1 a -31, contando do fim do mês)");
+  }
+
+  if (input.monthWeek !== undefined) {
+    if (![1, 2, 3, 4, 5, -1].includes(input.monthWeek)) {
+      throw new Error("A semana do mês deve ser de 1 a 5 ou -1 (última)");
+    }
+    if (!isWeekDay(input.monthWeekDay)) {
+      throw new Error("Informe o dia da semana para a recorrência por semana do mês");
+    }
+  }
+
+  const exDates = (input.exDates || []).filter(date => /^\d{4}-\d{2}-\d{2}$/.test(date));
+  if (input.exDates && exDates.length !== input.exDates.length) {
+    throw new Error("Datas de exceção devem estar no formato AAAA-MM-DD");
+  }
+
+  let weekDayTimes: Record<string, IHorarioDiaSemana> | undefined;
+  if (input.weekDayTimes) {
+    weekDayTimes = {};
+    for (const [day, time] of Object.entries(input.weekDayTimes)) {
+      if (!isWeekDay(day) || !time || !TIME_PATTERN.test(time.startTime)) {
+        throw new Error("Horário por dia da semana inválido (use HH:mm)");
+      }
+      weekDayTimes[day] = { startTime: time.startTime, durationMinutes: positiveInt(time.durationMinutes) };
+    }
+  }
+
+  return {
+    type,
+    interval: positiveInt(input.interval) ?? 1,
+    weekDays: weekDays.length > 0 ? weekDays : undefined,
+    monthDay: input.monthDay,
+    monthWeek: input.monthWeek,
+    monthWeekDay: input.monthWeek !== undefined ? input.monthWeekDay : undefined,
+    exDates: exDates.length > 0 ? exDates : undefined,
+    weekDayTimes,
+    durationMinutes: positiveInt(input.durationMinutes),
+    endType: input.endType || "never",
+    endDate: input.endDate,
+    endCount: positiveInt(input.endCount),
+  };
+}
+
+/**
+ * Dias do mês que atendem à regra mensal/anual (dia fixo ou n-ésimo dia da semana).
+ * Dia negativo conta do fim do mês (-1 = último dia).
+ * Como no RFC 5545, datas inexistentes (ex.: 31 de abril) são ignoradas, não ajustadas.
+ */
+function daysInMonthForRule(monthStart: Date, rules: IRegraRecorrencia, defaultDay: number): Date[] {
+  if (rules.monthWeek !== undefined && isWeekDay(rules.monthWeekDay)) {
+    const weekDay = WEEK_DAYS.indexOf(rules.monthWeekDay);
+    let day: Date;
+    if (rules.monthWeek > 0) {
+      const first = addDays(monthStart, (weekDay - monthStart.getDay() + 7) % 7);
+      day = addDays(first, (rules.monthWeek - 1) * 7);
+    } else {
+      const last = lastDayOfMonth(monthStart);
+      day = addDays(last, -((last.getDay() - weekDay + 7) % 7));
+    }
+    return day.getMonth() === monthStart.getMonth() ? [day] : [];
+  }
+
+  const daysInMonth = getDaysInMonth(monthStart);
+  const ruleDay = rules.monthDay ?? defaultDay;
+  const monthDay = ruleDay < 0 ? daysInMonth + ruleDay + 1 : ruleDay;
+  return monthDay >= 1 && monthDay <= daysInMonth ? [addDays(monthStart, monthDay - 1)] : [];
+}
+
+/**
+ * Dias candidatos do k-ésimo período da regra (dia, semana, mês ou ano), em horário de parede
+ */
+function periodDays(rules: IRegraRecorrencia, startDay: Date, k: number): { periodStart: Date; days: Date[] } {
+  const weekDays = (rules.weekDays || []).filter(isWeekDay).map(day => WEEK_DAYS.indexOf(day)).sort();
+
+  switch (rules.type) {
+    case "daily": {
+      const day = addDays(startDay, k * rules.interval);
+      const matches = weekDays.length === 0 || weekDays.includes(day.getDay());
+      return { periodStart: day, days: matches ? [day] : [] };
+    }
+    case "monthly": {
+      const monthStart = addMonths(startOfMonth(startDay), k * rules.interval);
+      return { periodStart: monthStart, days: daysInMonthForRule(monthStart, rules, startDay.getDate()) };
+    }
+    case "yearly": {
+      const monthStart = addYears(startOfMonth(startDay), k * rules.interval);
+      return { periodStart: monthStart, days: daysInMonthForRule(monthStart, rules, startDay.getDate()) };
+    }
+    default: {
+      const weekStart = addDays(startDay, -startDay.getDay() + k * rules.interval * 7);
+      const days = (weekDays.length > 0 ? weekDays : [startDay.getDay()]).map(day => addDays(weekStart, day));
+      return { periodStart: weekStart, days };
+    }
+  }
+}
+
+/**
+ * Horário de início e duração de uma ocorrência, considerando o horário próprio do dia da semana
+ */
+function occurrenceFor(day: Date, zonedStart: Date, rules: IRegraRecorrencia): RecurrenceOccurrence {
+  const dayTime = rules.weekDayTimes?.[WEEK_DAYS[day.getDay()]];
+  const wallClock = new Date(day);
+
+  if (dayTime) {
+    const [hours, minutes] = dayTime.startTime.split(":").map(Number);
+    wallClock.setHours(hours, minutes, 0, 0);
+  } else {
+    wallClock.setHours(zonedStart.getHours(), zonedStart.getMinutes(), 0, 0);
+  }
+
+  const durationMinutes = dayTime?.durationMinutes ?? rules.durationMinutes ?? DEFAULT_DURATION_MINUTES;
+  const startTime = fromZonedTime(wallClock, RECURRENCE_TIMEZONE);
+  return { startTime, endTime: new Date(startTime.getTime() + durationMinutes * 60 * 1000) };
+}
+
+/**
+ * Expande as ocorrências da série até a data informada.
+ * A contagem de maxOccurrences (COUNT) sempre parte do início da série, então o resultado é o mesmo a
+ * cada execução; datas de exceção contam para o COUNT, como no RFC 5545, mas não geram aula.
+ */
+export function expandRecurrence(series: RecurrenceSeries, until: Date): RecurrenceExpansion {
+  const rules = normalizeRecurrenceRules(series.regras);
+  const seriesStart = new Date(series.startDate);
+  const zonedStart = toZonedTime(seriesStart, RECURRENCE_TIMEZONE);
+  const startDay = startOfDay(zonedStart);
+
+  const maxOccurrences = series.maxOccurrences ?? (rules.endType === "count" ? rules.endCount : undefined);
+  const endDateValue = series.endDate ?? (rules.endType === "date" ? rules.endDate : undefined);
+  const endDate = endDateValue ? new Date(endDateValue) : null;
+  const exDates = new Set(rules.exDates || []);
+  const occurrences: RecurrenceOccurrence[] = [];
+
+  if (rules.type === "none") {
+    const occurrence = occurrenceFor(startDay, zonedStart, rules);
+    const skipped = exDates.has(format(startDay, "yyyy-MM-dd")) || occurrence.startTime > until;
+    return { occurrences: skipped ? [] : [occurrence], exhausted: occurrence.startTime <= until };
+  }
+
+  let count = 0;
+  for (let k = 0; k < MAX_PERIODS; k++) {
+    const { periodStart, days } = periodDays(rules, startDay, k);
+    const periodStartTime = fromZonedTime(periodStart, RECURRENCE_TIMEZONE);
+    if (endDate && periodStartTime > endDate) {
+      return { occurrences, exhausted: true };
+    }
+    if (periodStartTime > until) {
+      return { occurrences, exhausted: false };
+    }
+
+    for (const day of days) {
+      if (day < startDay) continue;
+
+      const occurrence = occurrenceFor(day, zonedStart, rules);
+      if (maxOccurrences && count >= maxOccurrences) {
+        return { occurrences, exhausted: true };
+      }
+      if (endDate && occurrence.startTime > endDate) {
+        return { occurrences, exhausted: true };
+      }
+      if (occurrence.startTime > until) {
+        return { occurrences, exhausted: false };
+      }
+
+      count++;
+      if (!exDates.has(format(day, "yyyy-MM-dd"))) {
+        occurrences.push(occurrence);
+      }
+    }
+  }
+
+  return { occurrences, exhausted: false };
+}
+
+/**
+ * Ajusta as regras quando a aula muda de dia ou horário: os dias da semana andam junto com a aula
+ * e o horário próprio do dia (se houver) passa a ser o novo horário.
+ * Na regra mensal/anual, o dia do mês e a semana do mês passam a ser os da aula remarcada
+ * (mantendo a contagem do fim do mês quando a regra a usava), sem limitar o deslocamento.
+ */
+export function shiftRecurrenceRules(rules: IRegraRecorrencia, pivot: Date, newStart: Date, durationMinutes?: number): IRegraRecorrencia {
+  const zonedNewStart = toZonedTime(newStart, RECURRENCE_TIMEZONE);
+  const dayShift = differenceInCalendarDays(zonedNewStart, toZonedTime(pivot, RECURRENCE_TIMEZONE));
+  const shiftWeekDay = (day: string) => WEEK_DAYS[(WEEK_DAYS.indexOf(day as WeekDay) + (dayShift % 7) + 7) % 7];
+  const shifted: IRegraRecorrencia = { ...rules, rrule: undefined };
+
+  if (dayShift !== 0) {
+    const newMonthDay = zonedNewStart.getDate();
+    const daysInNewMonth = getDaysInMonth(zonedNewStart);
+
+    shifted.weekDays = rules.weekDays?.map(shiftWeekDay);
+    shifted.monthWeekDay = rules.monthWeekDay ? shiftWeekDay(rules.monthWeekDay) : undefined;
+    if (rules.monthWeek !== undefined) {
+      // Última semana continua "última" se a aula remarcada ainda cai nos últimos 7 dias do mês
+      shifted.monthWeek = rules.monthWeek < 0 && newMonthDay > daysInNewMonth - 7
+        ? -1
+        : Math.ceil(newMonthDay / 7);
+    }
+    if (rules.monthDay !== undefined) {
+      shifted.monthDay = rules.monthDay < 0 ? newMonthDay - daysInNewMonth - 1 : newMonthDay;
+    }
+    shifted.exDates = rules.exDates?.map(date => format(addDays(new Date(`${date}T00:00:00`), dayShift), "yyyy-MM-dd"));
+    shifted.weekDayTimes = rules.weekDayTimes && Object.fromEntries(
+      Object.entries(rules.weekDayTimes).map(([day, time]) => [shiftWeekDay(day), time])
+    );
+  }
+
+  const newDay = WEEK_DAYS[zonedNewStart.getDay()];
+  if (shifted.weekDayTimes?.[newDay]) {
+    shifted.weekDayTimes = {
+      ...shifted.weekDayTimes,
+      [newDay]: {
+        startTime: formatInTimeZone(newStart, RECURRENCE_TIMEZONE, "HH:mm"),
+        durationMinutes: durationMinutes ?? shifted.weekDayTimes[newDay].durationMinutes,
+      },
+    };
+  } else if (durationMinutes) {
+    shifted.durationMinutes = durationMinutes;
+  }
+
+  return shifted;
+}
+
+function formatRRuleDateTime(date: Date): string {
+  return format(toZonedTime(date, RECURRENCE_TIMEZONE), "yyyyMMdd'T'HHmmss");
+}
+
+function parseRRuleDate(value: string, tzid?: string): Date {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) {
+    throw new Error(`Data inválida na regra RRULE: ${value}`);
+  }
+  const [, year, month, day, hours = "00", minutes = "00", seconds = "00", utc] = match;
+  const iso = `${year}-${month}-${day}T${hours}:${minutes}:${seconds}`;
+  return utc ? new Date(`${iso}Z`) : fromZonedTime(iso, tzid || RECURRENCE_TIMEZONE);
+}
+
+/**
+ * Converte a série para as linhas DTSTART/RRULE/EXDATE do RFC 5545.
+ * Horários diferentes por dia da semana não cabem numa única RRULE: a exportação usa o horário de início da série.
+ */
+export function toRRuleLines(series: RecurrenceSeries): string[] {
+  const rules = normalizeRecurrenceRules(series.regras);
+  const startDate = new Date(series.startDate);
+  const lines = [`DTSTART;TZID=${RECURRENCE_TIMEZONE}:${formatRRuleDateTime(startDate)}`];
+
+  if (rules.type === "none") {
+    return lines;
+  }
+
+  const parts = [`FREQ=${rules.type.toUpperCase()}`, `INTERVAL=${rules.interval}`];
+  const byDay = (rules.weekDays || []).filter(isWeekDay).map(day => RRULE_DAYS[WEEK_DAYS.indexOf(day)]);
+
+  // Só exporta o BYDAY que a expansão usa, para que a regra volte a ser lida por parseRRule
+  const monthly = rules.type === "monthly" || rules.type === "yearly";
+  if (monthly && rules.monthWeek !== undefined && isWeekDay(rules.monthWeekDay)) {
+    parts.push(`BYDAY=${rules.monthWeek}${RRULE_DAYS[WEEK_DAYS.indexOf(rules.monthWeekDay)]}`);
+  } else if (!monthly && byDay.length > 0) {
+    parts.push(`BYDAY=${byDay.join(",")}`);
+  }
+  if (rules.monthDay !== undefined && rules.monthWeek === undefined) {
+    parts.push(`BYMONTHDAY=${rules.monthDay}`);
+  }
+
+  const maxOccurrences = series.maxOccurrences ?? (rules.endType === "count" ? rules.endCount : undefined);
+  const endDateValue = series.endDate ?? (rules.endType === "date" ? rules.endDate : undefined);
+  if (maxOccurrences) {
+    parts.push(`COUNT=${maxOccurrences}`);
+  } else if (endDateValue) {
+    parts.push(`UNTIL=${format(toZonedTime(new Date(endDateValue), "UTC"), "yyyyMMdd'T'HHmmss'Z'")}`);
+  }
+  lines.push(`RRULE:${parts.join(";")}`);
+
+  if (rules.exDates && rules.exDates.length > 0) {
+    const zonedStart = toZonedTime(startDate, RECURRENCE_TIMEZONE);
+    const exDates = rules.exDates.map(date => {
+      const { startTime } = occurrenceFor(new Date(`${date}T00:00:00`), zonedStart, rules);
+      return formatRRuleDateTime(startTime);
+    });
+    lines.push(`EXDATE;TZID=${RECURRENCE_TIMEZONE}:${exDates.join(",")}`);
+  }
+
+  return lines;
+}
+
+export function toRRule(series: RecurrenceSeries): string {
+  return toRRuleLines(series).join("\n");
+}
+
+/**
+ * Lê uma regra no formato do RFC 5545 (com ou sem DTSTART/EXDATE).
+ * Aceita FREQ, INTERVAL, COUNT, UNTIL, BYDAY e BYMONTHDAY (um único dia, inclusive -1).
+ * BYDAY simples (MO,WE) vale para FREQ=DAILY/WEEKLY; com posição (2MO, -1FR), apenas uma e só para FREQ=MONTHLY/YEARLY.
+ * Outras partes e combinações não são suportadas pelo agendamento e geram erro.
+ */
+export function parseRRule(text: string): ParsedRRule {
+  const result: ParsedRRule = { regras: { type: "weekly", interval: 1, endType: "never" } };
+  const exDates: string[] = [];
+  let hasRule = false;
+
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  for (const line of lines) {
+    const separator = line.indexOf(":");
+    const [name, ...params] = (separator >= 0 ? line.slice(0, separator) : "RRULE").split(";");
+    const value = separator >= 0 ? line.slice(separator + 1) : line;
+    const tzid = params.find(param => param.startsWith("TZID="))?.slice(5);
+
+    switch (name.toUpperCase()) {
+      case "DTSTART":
+        result.startDate = parseRRuleDate(value, tzid);
+        break;
+      case "EXDATE":
+        for (const date of value.split(",")) {
+          exDates.push(format(toZonedTime(parseRRuleDate(date.trim(), tzid), RECURRENCE_TIMEZONE), "yyyy-MM-dd"));
+        }
+        break;
+      case "RRULE":
+        hasRule = true;
+        parseRRuleParts(value, result);
+        break;
+      default:
+        throw new Error(`Propriedade não suportada na regra de recorrência: ${name}`);
+    }
+  }
+
+  if (!hasRule) {
+    throw new Error("A regra de recorrência precisa de uma linha RRULE");
+  }
+  if (exDates.length > 0) {
+    result.regras.exDates = exDates;
+  }
+  return result;
+}
+
+function parseRRuleParts(value: string, result: ParsedRRule) {
+  const regras = result.regras;
+
+  for (const part of value.split(";").filter(Boolean)) {
+    const [key, rawValue = ""] = part.split("=");
+    switch (key.toUpperCase()) {
+      case "FREQ": {
+        const type = rawValue.toLowerCase();
+        if (!["daily", "weekly", "monthly", "yearly"].includes(type)) {
+          throw new Error(`Frequência não suportada: ${rawValue}`);
+        }
+        regras.type = type as RecurrenceType;
+        break;
+      }
+      case "INTERVAL":
+        regras.interval = positiveInt(rawValue) ?? 1;
+        break;
+      case "COUNT":
+        result.maxOccurrences = positiveInt(rawValue);
+        regras.endType = "count";
+        regras.endCount = result.maxOccurrences;
+        break;
+      case "UNTIL":
+        result.endDate = parseRRuleDate(rawValue);
+        regras.endType = "date";
+        regras.endDate = result.endDate;
+        break;
+      case "BYMONTHDAY": {
+        if (!/^[+-]?\d{1,2}$/.test(rawValue)) {
+          throw new Error(`Apenas um dia do mês é suportado em BYMONTHDAY: ${rawValue}`);
+        }
+        const monthDay = parseInt(rawValue, 10);
+        if (monthDay === 0 || Math.abs(monthDay) > 31) {
+          throw new Error(`Dia do mês inválido em BYMONTHDAY: ${rawValue}`);
+        }
+        regras.monthDay = monthDay;
+        break;
+      }
+      case "BYDAY": {
+        const weekDays: string[] = [];
+        const codes = rawValue.split(",");
+        for (const code of codes) {
+          const match = code.trim().toUpperCase().match(/^([+-]?\d)?(SU|MO|TU|WE|TH|FR|SA)$/);
+          if (!match) {
+            throw new Error(`Dia inválido em BYDAY: ${code}`);
+          }
+          const weekDay = WEEK_DAYS[RRULE_DAYS.indexOf(match[2])];
+          if (match[1]) {
+            if (codes.length > 1) {
+              throw new Error(`BYDAY com mais de um dia quando há posição no mês não é suportado: ${rawValue}`);
+            }
+            regras.monthWeek = parseInt(match[1], 10);
+            regras.monthWeekDay = weekDay;
+          } else {
+            weekDays.push(weekDay);
+          }
+        }
+        if (weekDays.length > 0) {
+          regras.weekDays = weekDays;
+        }
+        break;
+      }
+      case "WKST":
+        break;
+      default:
+        throw new Error(`Parte não suportada na regra de recorrência: ${key}`);
+    }
+  }
+
+  // A ordem das partes é livre, então a combinação com FREQ só pode ser conferida no fim
+  const monthly = regras.type === "monthly" || regras.type === "yearly";
+  if (monthly && regras.weekDays) {
+    throw new Error("BYDAY sem posição no mês (ex.: 2MO) não é suportado com FREQ=MONTHLY/YEARLY");
+  }
+  if (!monthly && regras.monthWeek !== undefined) {
+    throw new Error("BYDAY com posição no mês (ex.: 2MO) não é suportado fora de FREQ=MONTHLY/YEARLY");
+  }
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { leadSearchValidationSchema } from "./schema";
+
+describe("leadSearchValidationSchema", () => {
+  it("aplica os padrões de ordenação e paginação", () => {
+    expect(leadSearchValidationSchema.parse({})).toEqual({
+      sortBy: "entryDate",
+      sortDir: "desc",
+      page: 1,
+      pageSize: 10,
+    });
+  });
+
+  it("converte a paginação vinda da query string e apara o texto", () => {
+    const parsed = leadSearchValidationSchema.parse({ q: "  ana  ", page: "3", pageSize: "50", sortBy: "name", sortDir: "asc" });
+
+    expect(parsed).toMatchObject({ q: "ana", page: 3, pageSize: 50, sortBy: "name", sortDir: "asc" });
+  });
+
+  it("recusa páginas grandes demais, ordenações desconhecidas e datas inválidas", () => {
+    expect(leadSearchValidationSchema.safeParse({ pageSize: "500" }).success).toBe(false);
+    expect(leadSearchValidationSchema.safeParse({ sortBy: "phone" }).success).toBe(false);
+    expect(leadSearchValidationSchema.safeParse({ startDate: "10/03/2025" }).success).toBe(false);
+  });
+
+  it("exige a data final igual ou posterior à inicial", () => {
+    const result = leadSearchValidationSchema.safeParse({ startDate: "2025-03-10", endDate: "2025-03-01" });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0]).toMatchObject({ path: ["endDate"] });
+    expect(leadSearchValidationSchema.safeParse({ startDate: "2025-03-10", endDate: "2025-03-10" }).success).toBe(true);
+  });
+});
@@ -1,6 +1,10 @@
-import { pgTable, text, serial, integer, timestamp, boolean, jsonb, pgEnum } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, timestamp, boolean, jsonb, pgEnum, uniqueIndex, index, doublePrecision, type AnyPgColumn } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { normalizeRecurrenceRules } from "./recurrence";
+import { TIME_OFF_KINDS } from "./availability";
+import { LEAD_IMPORT_FIELD_NAMES, type LeadImportDefaults, type LeadImportDryRun, type LeadImportMapping } from "./lead-import";
 
 // Definindo o enum para roles de usuários
 export const userRoleEnum = pgEnum('user_role', ['admin', 'professor']);
@@ -119,15 +123,40 @@ export const leads = pgTable("leads", {
   source: text("source").notNull(), // "Favale" or "Pink"
   status: text("status").notNull(), // "Lead" or "Aluno"
   notes: text("notes"),
+  stageId: integer("stage_id").references(() => pipelineStages.id), // Etapa atual do funil de vendas
+  stageEnteredAt: timestamp("stage_entered_at"), // Quando o lead entrou na etapa atual
+  lossReason: text("loss_reason"), // Motivo da perda, quando a etapa atual é de perda
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+}, (table) => [
+  index("leads_search_idx").using("gin", leadSearchDocument(table)),
+  index("leads_tags_idx").using("gin", table.tags),
+  index("leads_entry_date_idx").on(table.entryDate),
+  index("leads_status_idx").on(table.status),
+  index("leads_source_idx").on(table.source),
+  index("leads_campaign_idx").on(table.campaign),
+  index("leads_state_idx").on(table.state),
+  index("leads_stage_idx").on(table.stageId, table.stageEnteredAt),
+]);
+
+/**
+ * Documento da busca textual de leads (nome, e-mail, telefone e observações).
+ * Usado pelo índice GIN e pela consulta: as duas expressões precisam ser idênticas para o índice ser usado.
+ * O e-mail é quebrado em palavras e o telefone entra só com os dígitos.
+ */
+export function leadSearchDocument(columns: { name: AnyPgColumn; email: AnyPgColumn; phone: AnyPgColumn; notes: AnyPgColumn }) {
+  return sql`to_tsvector('simple', ${columns.name} || ' ' || translate(${columns.email}, '@._-', '    ') || ' ' || regexp_replace(${columns.phone}, '[^0-9]', '', 'g') || ' ' || coalesce(${columns.notes}, ''))`;
+}
 
 // Criar um schema base para inserção de leads, omitindo campos autoincrementais/autogenerated
 export const baseInsertLeadSchema = createInsertSchema(leads).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+  // A etapa do funil só muda pelas rotas do pipeline, que registram a transição
+  stageId: true,
+  stageEnteredAt: true,
+  lossReason: true,
 });
 
 // Schema usado para inserção no banco de dados, aceita Date ou string ISO
@@ -169,6 +198,184 @@ export const leadValidationSchema = insertLeadSchema.extend({
 export type InsertLead = z.infer<typeof insertLeadSchema>;
 export type Lead = typeof leads.$inferSelect;
 
+const diaSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Data deve estar no formato AAAA-MM-DD");
+
+// Busca de leads no servidor (parâmetros da query string de GET /api/leads/search)
+export const leadSearchValidationSchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  source: z.string().trim().min(1).optional(),
+  status: z.string().trim().min(1).optional(),
+  campaign: z.string().trim().min(1).optional(),
+  state: z.string().trim().min(1).optional(),
+  tag: z.string().trim().min(1).optional(),
+  startDate: diaSchema.optional(), // Data de entrada, inclusive
+  endDate: diaSchema.optional(),
+  sortBy: z.enum(["entryDate", "name", "createdAt", "updatedAt"]).default("entryDate"),
+  sortDir: z.enum(["asc", "desc"]).default("desc"),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(10),
+}).refine(data => !data.startDate || !data.endDate || data.startDate <= data.endDate, {
+  message: "A data final deve ser igual ou posterior à inicial",
+  path: ["endDate"],
+});
+
+export type LeadSearchInput = z.infer<typeof leadSearchValidationSchema>;
+
+// Busca de possíveis duplicados (GET /api/leads/duplicates)
+export const leadDuplicatesQuerySchema = z.object({
+  minScore: z.coerce.number().int().min(1).max(100).default(50),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+// Mesclagem de leads duplicados (POST /api/leads/merge)
+export const mergeLeadsSchema = z.object({
+  survivorId: z.number().int().positive("Lead mantido inválido"),
+  duplicateIds: z.array(z.number().int().positive()).min(1, "Informe os leads duplicados").max(20, "Mescle no máximo 20 leads por vez"),
+}).refine(data => !data.duplicateIds.includes(data.survivorId), {
+  message: "O lead mantido não pode estar entre os duplicados",
+  path: ["duplicateIds"],
+});
+
+export type MergeLeadsInput = z.infer<typeof mergeLeadsSchema>;
+
+// Enum para o tipo de etapa do funil: o status do lead é "Aluno" somente nas etapas de ganho
+export const pipelineStageKindEnum = pgEnum('pipeline_stage_kind', ['aberta', 'ganho', 'perdido']);
+
+// Etapas configuráveis do funil de vendas (Novo, Contatado, ..., Aluno, Perdido)
+export const pipelineStages = pgTable("pipeline_stages", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  position: integer("position").notNull(), // Ordem da coluna no quadro
+  kind: pipelineStageKindEnum("kind").default("aberta").notNull(),
+  active: boolean("active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertPipelineStageSchema = createInsertSchema(pipelineStages).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const pipelineStageValidationSchema = insertPipelineStageSchema.extend({
+  name: z.string().trim().min(1, "O nome é obrigatório"),
+  position: z.number().int().min(0, "Posição inválida"),
+});
+
+export type InsertPipelineStage = z.infer<typeof insertPipelineStageSchema>;
+export type PipelineStage = typeof pipelineStages.$inferSelect;
+
+// Motivos de perda oferecidos ao mover um lead para uma etapa de perda
+export const lossReasons = pgTable("loss_reasons", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  active: boolean("active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertLossReasonSchema = createInsertSchema(lossReasons).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const lossReasonValidationSchema = insertLossReasonSchema.extend({
+  name: z.string().trim().min(1, "O nome é obrigatório"),
+});
+
+export type InsertLossReason = z.infer<typeof insertLossReasonSchema>;
+export type LossReason = typeof lossReasons.$inferSelect;
+
+// Histórico de mudanças de etapa: base do tempo em cada etapa e das métricas de conversão
+export const leadStageTransitions = pgTable("lead_stage_transitions", {
+  id: serial("id").primaryKey(),
+  leadId: integer("lead_id").references(() => leads.id, { onDelete: 'cascade' }).notNull(),
+  fromStageId: integer("from_stage_id").references(() => pipelineStages.id), // Nulo na entrada do lead no funil
+  toStageId: integer("to_stage_id").references(() => pipelineStages.id).notNull(),
+  fromStageEnteredAt: timestamp("from_stage_entered_at"), // Com o createdAt, dá o tempo que o lead passou na etapa anterior
+  lossReason: text("loss_reason"),
+  changedBy: integer("changed_by").references(() => users.id), // Nulo em mudanças automáticas
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("lead_stage_transitions_lead_idx").on(table.leadId, table.createdAt),
+  index("lead_stage_transitions_to_stage_idx").on(table.toStageId, table.createdAt),
+]);
+
+export type LeadStageTransition = typeof leadStageTransitions.$inferSelect;
+export type InsertLeadStageTransition = typeof leadStageTransitions.$inferInsert;
+
+// Mudança de etapa pelo quadro do pipeline
+export const moveLeadStageSchema = z.object({
+  stageId: z.number().int().positive("Etapa inválida"),
+  lossReason: z.string().trim().max(200).optional(),
+});
+
+// Importação de leads por planilha, processada em segundo plano e retomada de onde parou
+export const leadImportStatusEnum = pgEnum('lead_import_status', ['rascunho', 'na_fila', 'processando', 'concluido', 'falhou', 'cancelado']);
+
+export const leadImportJobs = pgTable("lead_import_jobs", {
+  id: serial("id").primaryKey(),
+  fileName: text("file_name").notNull(),
+  format: text("format").notNull(), // "csv" ou "xlsx"
+  filePath: text("file_path"), // Relativo ao diretório de importações; removido ao concluir ou cancelar
+  fileSize: integer("file_size").notNull(),
+  headers: text("headers").array().notNull(),
+  mapping: jsonb("mapping").default({}).notNull(), // Campo do lead -> coluna da planilha
+  defaults: jsonb("defaults").default({}).notNull(), // Origem, status e campanha quando a célula está vazia
+  status: leadImportStatusEnum("status").default("rascunho").notNull(),
+  totalRows: integer("total_rows"), // Conhecido após a simulação ou a primeira leitura completa
+  processedRows: integer("processed_rows").default(0).notNull(), // Ponto de retomada
+  createdCount: integer("created_count").default(0).notNull(),
+  updatedCount: integer("updated_count").default(0).notNull(),
+  errorCount: integer("error_count").default(0).notNull(),
+  dryRun: jsonb("dry_run"), // Resultado da última simulação
+  lastError: text("last_error"),
+  createdBy: integer("created_by").references(() => users.id),
+  startedAt: timestamp("started_at"),
+  finishedAt: timestamp("finished_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(), // Também serve de sinal de vida do processamento
+}, (table) => [
+  index("lead_import_jobs_status_idx").on(table.status, table.updatedAt),
+]);
+
+export type LeadImportJob = Omit<typeof leadImportJobs.$inferSelect, 'mapping' | 'defaults' | 'dryRun'> & {
+  mapping: LeadImportMapping;
+  defaults: LeadImportDefaults;
+  dryRun: LeadImportDryRun | null;
+};
+export type InsertLeadImportJob = typeof leadImportJobs.$inferInsert;
+
+// Linhas rejeitadas na importação, com os dados originais para o relatório de erros
+export const leadImportErrors = pgTable("lead_import_errors", {
+  id: serial("id").primaryKey(),
+  jobId: integer("job_id").references(() => leadImportJobs.id).notNull(),
+  rowNumber: integer("row_number").notNull(),
+  message: text("message").notNull(),
+  data: jsonb("data").notNull(), // Cabeçalho -> valor da linha
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("lead_import_errors_job_idx").on(table.jobId, table.rowNumber),
+]);
+
+export type LeadImportError = Omit<typeof leadImportErrors.$inferSelect, 'data'> & { data: Record<string, string> };
+export type InsertLeadImportError = typeof leadImportErrors.$inferInsert;
+
+export const leadImportMappingSchema = z.object({
+  mapping: z.record(z.enum(LEAD_IMPORT_FIELD_NAMES), z.string().min(1)),
+  defaults: z.object({
+    source: z.string().trim().max(100).optional(),
+    status: z.string().trim().max(100).optional(),
+    campaign: z.string().trim().max(200).optional(),
+  }).default({}),
+}).refine(data => !!data.mapping.name && !!data.mapping.email && !!data.mapping.phone, {
+  message: "Escolha as colunas de nome, e-mail e telefone",
+  path: ["mapping"],
+}).refine(data => !!data.mapping.source || !!data.defaults.source, {
+  message: "Escolha a coluna de origem ou informe a origem padrão",
+  path: ["defaults", "source"],
+});
+
 // Tabela de sessões de treinamento
 export const sessions = pgTable("sessions", {
   id: serial("id").primaryKey(),
@@ -290,6 +497,30 @@ export const insertSessionHistorySchema = createInsertSchema(sessionHistory).omi
 export type InsertSessionHistory = z.infer<typeof insertSessionHistorySchema>;
 export type SessionHistory = typeof sessionHistory.$inferSelect;
 
+// Correspondência entre registros do agendamento legado (sessions/trainers) e do modelo de aulas,
+// gravada pela migração (npm run db:migrate-legacy) para não migrar duas vezes e traduzir IDs antigos
+export const LEGACY_ENTITY_TYPES = ["trainer", "session", "recurrence_group"] as const;
+export type LegacyEntityType = typeof LEGACY_ENTITY_TYPES[number];
+
+export const legacyIdMappings = pgTable("legacy_id_mappings", {
+  id: serial("id").primaryKey(),
+  entityType: text("entity_type").notNull(), // trainer → users, session → aulas, recurrence_group → agendamentos_recorrentes
+  legacyId: text("legacy_id").notNull(), // ID no modelo antigo (recurrence_group_id é um UUID)
+  newId: integer("new_id").notNull(),
+  migratedAt: timestamp("migrated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("legacy_id_mappings_entity_legacy_idx").on(table.entityType, table.legacyId),
+  index("legacy_id_mappings_entity_new_idx").on(table.entityType, table.newId),
+]);
+
+export const insertLegacyIdMappingSchema = createInsertSchema(legacyIdMappings).omit({
+  id: true,
+  migratedAt: true,
+});
+
+export type InsertLegacyIdMapping = z.infer<typeof insertLegacyIdMappingSchema>;
+export type LegacyIdMapping = typeof legacyIdMappings.$inferSelect;
+
 // WhatsApp mensagens
 export const whatsappMessages = pgTable("whatsapp_messages", {
   id: serial("id").primaryKey(),
@@ -404,11 +635,22 @@ export type InsertTaskComment = z.infer<typeof insertTaskCommentSchema>;
 export type TaskComment = typeof taskComments.$inferSelect;
 
 // Tabela de configurações do WhatsApp/Evolution API
+export const whatsappProviderEnum = pgEnum('whatsapp_provider', ['evolution', 'meta', 'mock']);
+
 export const whatsappSettings = pgTable("whatsapp_settings", {
   id: serial("id").primaryKey(),
+  provider: whatsappProviderEnum("provider").default("evolution").notNull(), // Provedor usado para enviar e receber mensagens
+  // Evolution API
   apiUrl: text("api_url").notNull(),
   apiToken: text("api_token").notNull(),
   apiInstance: text("api_instance").notNull(),
+  // API oficial (Meta Cloud API)
+  metaPhoneNumberId: text("meta_phone_number_id"),
+  metaAccessToken: text("meta_access_token"),
+  // Tratamento de mensagens recebidas de números sem lead cadastrado
+  inboundMode: text("inbound_mode").default("inbox").notNull(), // "inbox" (fila para vincular) ou "create_lead"
+  inboundLeadSource: text("inbound_lead_source").default("Favale").notNull(), // Origem dos leads criados automaticamente
+  inboundLeadTag: text("inbound_lead_tag").default("whatsapp").notNull(), // Tag aplicada aos leads criados automaticamente
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
@@ -420,8 +662,132 @@ export const insertWhatsappSettingsSchema = createInsertSchema(whatsappSettings)
 export type InsertWhatsappSettings = z.infer<typeof insertWhatsappSettingsSchema>;
 export type WhatsappSettings = typeof whatsappSettings.$inferSelect;
 
+// Enum para o status das conversas recebidas de números sem lead
+export const whatsappInboxStatusEnum = pgEnum('whatsapp_inbox_status', ['pendente', 'vinculado', 'descartado']);
+
+// Fila de mensagens recebidas de números não cadastrados, aguardando vínculo com um lead
+export const whatsappInbox = pgTable("whatsapp_inbox", {
+  id: serial("id").primaryKey(),
+  phone: text("phone").notNull(), // Número normalizado do remetente
+  contactName: text("contact_name"), // Nome do perfil no WhatsApp, quando informado
+  content: text("content").notNull(),
+  mediaUrl: text("media_url"),
+  mediaType: text("media_type"),
+  messageId: text("message_id"), // ID da mensagem na API do WhatsApp
+  receivedAt: timestamp("received_at").defaultNow().notNull(),
+  status: whatsappInboxStatusEnum("status").default("pendente").notNull(),
+  leadId: integer("lead_id").references(() => leads.id, { onDelete: 'set null' }), // Lead vinculado após a triagem
+  resolvedById: integer("resolved_by_id").references(() => users.id),
+  resolvedAt: timestamp("resolved_at"),
+}, (table) => [
+  index("whatsapp_inbox_phone_idx").on(table.phone),
+  index("whatsapp_inbox_status_idx").on(table.status),
+]);
+
+export type WhatsappInboxEntry = typeof whatsappInbox.$inferSelect;
+export type InsertWhatsappInboxEntry = typeof whatsappInbox.$inferInsert;
+
+// Arquivos de mídia recebidos pelo WhatsApp, armazenados localmente e deduplicados pelo checksum
+export const whatsappMedia = pgTable("whatsapp_media", {
+  id: serial("id").primaryKey(),
+  sha256: text("sha256").notNull(), // Checksum do conteúdo, usado também como nome do arquivo
+  mimeType: text("mime_type").notNull(),
+  size: integer("size").notNull(), // Tamanho em bytes
+  fileName: text("file_name"), // Nome original, quando enviado (documentos)
+  storagePath: text("storage_path").notNull(), // Caminho relativo ao diretório de mídia
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("whatsapp_media_sha256_idx").on(table.sha256),
+]);
+
+export type WhatsappMedia = typeof whatsappMedia.$inferSelect;
+export type InsertWhatsappMedia = typeof whatsappMedia.$inferInsert;
+
+// Conexões OAuth2 com o Google Calendar (uma por usuário/professor)
+export const googleTokens = pgTable("google_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  accessToken: text("access_token").notNull(),
+  refreshToken: text("refresh_token"),
+  expiryDate: timestamp("expiry_date").notNull(),
+  calendarId: text("calendar_id").default("primary").notNull(),
+  // Sincronização incremental: token devolvido pelo Google na última leitura de alterações
+  syncToken: text("sync_token"),
+  lastSyncedAt: timestamp("last_synced_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("google_tokens_user_id_idx").on(table.userId),
+]);
+
+export type GoogleToken = typeof googleTokens.$inferSelect;
+export type InsertGoogleToken = typeof googleTokens.$inferInsert;
+
+// Locais de aula (casa do aluno, estúdio, condomínio), usados para estimar o deslocamento entre aulas (shared/travel.ts)
+export const locations = pgTable("locations", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(), // Como aparece na agenda (copiado para aulas.location)
+  address: text("address"),
+  neighborhood: text("neighborhood"),
+  city: text("city"),
+  zone: text("zone"), // Região usada nas regras de deslocamento (ex.: "Zona Sul")
+  latitude: doublePrecision("latitude"),
+  longitude: doublePrecision("longitude"),
+  studentId: integer("student_id").references(() => leads.id, { onDelete: 'set null' }), // Preenchido quando é a casa do aluno
+  active: boolean("active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("locations_student_id_idx").on(table.studentId),
+]);
+
+export const insertLocationSchema = createInsertSchema(locations).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const locationValidationSchema = z.object({
+  name: z.string().trim().min(1, "O nome do local é obrigatório"),
+  address: z.string().trim().nullish(),
+  neighborhood: z.string().trim().nullish(),
+  city: z.string().trim().nullish(),
+  zone: z.string().trim().nullish(),
+  latitude: z.number().min(-90, "Latitude inválida").max(90, "Latitude inválida").nullish(),
+  longitude: z.number().min(-180, "Longitude inválida").max(180, "Longitude inválida").nullish(),
+  studentId: z.number().int().positive("ID do aluno inválido").nullish(),
+  active: z.boolean().optional(),
+}).refine(data => (data.latitude == null) === (data.longitude == null), {
+  message: "Informe latitude e longitude juntas",
+  path: ["longitude"],
+});
+
+export type InsertLocation = z.infer<typeof insertLocationSchema>;
+export type Location = typeof locations.$inferSelect;
+
+// Tempo de deslocamento entre duas regiões (vale nos dois sentidos)
+export const travelTimeRules = pgTable("travel_time_rules", {
+  id: serial("id").primaryKey(),
+  fromZone: text("from_zone").notNull(),
+  toZone: text("to_zone").notNull(),
+  minutes: integer("minutes").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("travel_time_rules_zones_idx").on(table.fromZone, table.toZone),
+]);
+
+export const travelTimeRuleValidationSchema = z.object({
+  fromZone: z.string().trim().min(1, "Informe a região de origem"),
+  toZone: z.string().trim().min(1, "Informe a região de destino"),
+  minutes: z.number().int().min(0, "O tempo não pode ser negativo").max(240, "Tempo máximo de 4 horas"),
+});
+
+export type TravelTimeRule = typeof travelTimeRules.$inferSelect;
+export type InsertTravelTimeRule = typeof travelTimeRules.$inferInsert;
+
 // Enums para o novo sistema de agendamento
-export const clasStatusEnum = pgEnum('class_status', ['agendado', 'em_andamento', 'concluido', 'cancelado', 'remarcado']);
+export const clasStatusEnum = pgEnum('class_status', ['agendado', 'em_andamento', 'concluido', 'cancelado', 'remarcado', 'falta']); // falta = aluno não compareceu
 export const recurrenceTypeEnum = pgEnum('recurrence_type', ['none', 'daily', 'weekly', 'monthly', 'yearly', 'custom']);
 export const recurrenceEndTypeEnum = pgEnum('recurrence_end_type', ['never', 'date', 'count']);
 
@@ -431,6 +797,7 @@ export const agendamentosRecorrentes = pgTable("agendamentos_recorrentes", {
   professorId: integer("professor_id").references(() => users.id).notNull(),
   studentId: integer("student_id").references(() => leads.id).notNull(), // Referência ao lead/aluno
   location: text("location").notNull(),
+  locationId: integer("location_id").references(() => locations.id), // Local cadastrado, quando escolhido
   value: integer("value").notNull(), // Valor em centavos
   service: text("service").notNull(),
   notes: text("notes"),
@@ -440,6 +807,9 @@ export const agendamentosRecorrentes = pgTable("agendamentos_recorrentes", {
   endDate: timestamp("end_date"), // Data limite opcional
   maxOccurrences: integer("max_occurrences"), // Número máximo de ocorrências
   active: boolean("active").default(true).notNull(),
+  // Controle da geração contínua das aulas (job de horizonte)
+  generatedUntil: timestamp("generated_until"), // Aulas já geradas até esta data
+  exhaustedAt: timestamp("exhausted_at"), // Série encerrada (endDate ou maxOccurrences atingidos)
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -450,14 +820,27 @@ export const insertAgendamentoRecorrenteSchema = createInsertSchema(agendamentos
   updatedAt: true,
 });
 
-export const agendamentoRecorrenteValidationSchema = insertAgendamentoRecorrenteSchema.extend({
+// generatedUntil/exhaustedAt são controlados pelo servidor
+export const agendamentoRecorrenteValidationSchema = insertAgendamentoRecorrenteSchema.omit({
+  generatedUntil: true,
+  exhaustedAt: true,
+}).extend({
   professorId: z.number().int().positive("ID do professor inválido"),
   studentId: z.number().int().positive("ID do aluno inválido"),
   location: z.string().min(1, "O local é obrigatório"),
+  locationId: z.number().int().positive("ID do local inválido").nullish(),
   value: z.number().int().positive("O valor deve ser maior que zero"),
   service: z.string().min(1, "O serviço é obrigatório"),
   notes: z.string().optional(),
-  regras: z.record(z.any()), // JSON com regras de recorrência
+  // JSON com regras de recorrência, normalizado e validado pelo motor compartilhado
+  regras: z.record(z.any()).transform((regras, ctx) => {
+    try {
+      return normalizeRecurrenceRules(regras) as unknown as Record<string, any>;
+    } catch (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: error instanceof Error ? error.message : "Regra de recorrência inválida" });
+      return z.NEVER;
+    }
+  }),
   startDate: z.preprocess((arg) => {
     if (typeof arg === "string" || arg instanceof Date) return arg;
     return undefined;
@@ -490,6 +873,7 @@ export const aulas = pgTable("aulas", {
   startTime: timestamp("start_time").notNull(),
   endTime: timestamp("end_time").notNull(),
   location: text("location").notNull(),
+  locationId: integer("location_id").references(() => locations.id), // Local cadastrado, quando escolhido
   value: integer("value").notNull(),
   service: text("service").notNull(),
   notes: text("notes"),
@@ -498,6 +882,18 @@ export const aulas = pgTable("aulas", {
   isModified: boolean("is_modified").default(false), // Se foi modificada em relação ao agendamento original
   originalStartTime: timestamp("original_start_time"), // Horário original antes de modificações
   originalEndTime: timestamp("original_end_time"),
+  // Evento espelhado no Google Calendar do professor (quando conectado)
+  googleEventId: text("google_event_id"),
+  googleCalendarUserId: integer("google_calendar_user_id").references(() => users.id), // Dono do calendário onde o evento está
+  // Presença registrada pelo professor
+  checkInAt: timestamp("check_in_at"),
+  checkOutAt: timestamp("check_out_at"),
+  // Cancelamento: quando, por quem e por quê
+  cancelledAt: timestamp("cancelled_at"),
+  cancelledBy: integer("cancelled_by").references(() => users.id),
+  cancellationReason: text("cancellation_reason"),
+  lateCancellation: boolean("late_cancellation").default(false).notNull(), // Cancelada dentro do prazo da política
+  chargeable: boolean("chargeable").default(false).notNull(), // Falta ou cancelamento tardio cobrado do aluno
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -508,7 +904,17 @@ export const insertAulaSchema = createInsertSchema(aulas).omit({
   updatedAt: true,
 });
 
-export const aulaValidationSchema = insertAulaSchema.extend({
+export const aulaValidationSchema = insertAulaSchema.omit({
+  googleEventId: true,
+  googleCalendarUserId: true,
+  // Presença e cancelamento são registrados pelos endpoints próprios
+  checkInAt: true,
+  checkOutAt: true,
+  cancelledAt: true,
+  cancelledBy: true,
+  lateCancellation: true,
+  chargeable: true,
+}).extend({
   professorId: z.number().int().positive("ID do professor inválido"),
   studentId: z.number().int().positive("ID do aluno inválido"),
   startTime: z.preprocess((arg) => {
@@ -530,10 +936,11 @@ export const aulaValidationSchema = insertAulaSchema.extend({
     message: "Horário de término precisa ser uma data válida"
   }),
   location: z.string().min(1, "O local é obrigatório"),
+  locationId: z.number().int().positive("ID do local inválido").nullish(),
   value: z.number().int().positive("O valor deve ser maior que zero"),
   service: z.string().min(1, "O serviço é obrigatório"),
   notes: z.string().optional(),
-  status: z.enum(["agendado", "em_andamento", "concluido", "cancelado", "remarcado"]).default("agendado"),
+  status: z.enum(["agendado", "em_andamento", "concluido", "cancelado", "remarcado", "falta"]).default("agendado"),
   agendamentoRecorrenteId: z.number().int().positive("ID do agendamento recorrente inválido").optional(),
   isModified: z.boolean().default(false),
   originalStartTime: z.preprocess((arg) => {
@@ -562,6 +969,34 @@ export const aulaValidationSchema = insertAulaSchema.extend({
   }
 );
 
+const optionalAulaDate = (message: string) =>
+  z.union([z.string(), z.date()])
+    .transform(val => new Date(val))
+    .refine(date => !isNaN(date.getTime()), { message })
+    .optional();
+
+// Edição pela agenda: só esta aula ou também a série ("esta e as seguintes" / "todas").
+// Campos fora desta lista (presença, cancelamento, Google Calendar) não são alterados por aqui.
+export const aulaUpdateSchema = z.object({
+  scope: z.enum(["this", "following", "all"]).default("this"),
+  professorId: z.number().int().positive("ID do professor inválido").optional(),
+  studentId: z.number().int().positive("ID do aluno inválido").optional(),
+  startTime: optionalAulaDate("Horário de início precisa ser uma data válida"),
+  endTime: optionalAulaDate("Horário de término precisa ser uma data válida"),
+  location: z.string().min(1, "O local é obrigatório").optional(),
+  locationId: z.number().int().positive("ID do local inválido").nullish(),
+  value: z.number().int().positive("O valor deve ser maior que zero").optional(),
+  service: z.string().min(1, "O serviço é obrigatório").optional(),
+  notes: z.string().nullish(),
+  status: z.enum(["agendado", "em_andamento", "concluido", "cancelado", "remarcado", "falta"]).optional(),
+}).refine(
+  data => !data.startTime || !data.endTime || data.endTime > data.startTime,
+  {
+    message: "O horário de término deve ser posterior ao horário de início",
+    path: ["endTime"],
+  }
+);
+
 export type InsertAula = z.infer<typeof insertAulaSchema>;
 export type Aula = typeof aulas.$inferSelect;
 
@@ -586,17 +1021,494 @@ export const insertServiceSchema = createInsertSchema(services).omit({
 export type InsertService = z.infer<typeof insertServiceSchema>;
 export type Service = typeof services.$inferSelect;
 
-// Interface para as regras de recorrência (JSON)
-export interface IRegraRecorrencia {
-  type: 'daily' | 'weekly' | 'monthly' | 'yearly' | 'custom';
-  interval: number; // A cada X dias/semanas/meses
-  weekDays?: string[]; // ['monday', 'wednesday', 'friday'] para recorrência semanal
-  monthDay?: number; // Dia do mês (1-31) para recorrência mensal
-  endType: 'never' | 'date' | 'count';
-  endDate?: Date;
-  endCount?: number;
+// Regras de recorrência (JSON) e motor de expansão ficam em shared/recurrence.ts
+export type { IRegraRecorrencia } from "./recurrence";
+
+// Disponibilidade dos professores: expediente semanal, ausências e feriados (regras em shared/availability.ts)
+const horaMinutoSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$|^24:00$/, "Horário deve estar no formato HH:mm");
+
+export const professorWorkingHours = pgTable("professor_working_hours", {
+  id: serial("id").primaryKey(),
+  professorId: integer("professor_id").references(() => users.id).notNull(),
+  weekDay: integer("week_day").notNull(), // 0 = domingo ... 6 = sábado
+  startTime: text("start_time").notNull(), // HH:mm no fuso da academia
+  endTime: text("end_time").notNull(),
+  breakStart: text("break_start"), // Intervalo opcional dentro do expediente
+  breakEnd: text("break_end"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("professor_working_hours_professor_idx").on(table.professorId),
+]);
+
+export const workingHoursValidationSchema = z.object({
+  weekDay: z.number().int().min(0, "Dia da semana inválido").max(6, "Dia da semana inválido"),
+  startTime: horaMinutoSchema,
+  endTime: horaMinutoSchema,
+  breakStart: horaMinutoSchema.nullish(),
+  breakEnd: horaMinutoSchema.nullish(),
+}).refine(data => data.startTime < data.endTime, {
+  message: "O fim do expediente deve ser depois do início",
+  path: ["endTime"],
+}).refine(data => !data.breakStart === !data.breakEnd, {
+  message: "Informe o início e o fim do intervalo",
+  path: ["breakEnd"],
+}).refine(data => !data.breakStart || !data.breakEnd
+  || (data.startTime < data.breakStart && data.breakStart < data.breakEnd && data.breakEnd < data.endTime), {
+  message: "O intervalo deve estar dentro do expediente",
+  path: ["breakStart"],
+});
+
+export type ProfessorWorkingHours = typeof professorWorkingHours.$inferSelect;
+export type InsertProfessorWorkingHours = typeof professorWorkingHours.$inferInsert;
+
+export const timeOffKindEnum = pgEnum('time_off_kind', TIME_OFF_KINDS);
+
+export const professorTimeOff = pgTable("professor_time_off", {
+  id: serial("id").primaryKey(),
+  professorId: integer("professor_id").references(() => users.id).notNull(),
+  kind: timeOffKindEnum("kind").default("folga").notNull(),
+  startTime: timestamp("start_time").notNull(),
+  endTime: timestamp("end_time").notNull(),
+  reason: text("reason"),
+  createdById: integer("created_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("professor_time_off_professor_idx").on(table.professorId, table.startTime),
+]);
+
+export const timeOffValidationSchema = z.object({
+  kind: z.enum(TIME_OFF_KINDS, { errorMap: () => ({ message: "Tipo de ausência inválido" }) }).default("folga"),
+  startTime: z.coerce.date({ errorMap: () => ({ message: "Início precisa ser uma data válida" }) }),
+  endTime: z.coerce.date({ errorMap: () => ({ message: "Fim precisa ser uma data válida" }) }),
+  reason: z.string().max(200, "Motivo muito longo").nullish(),
+}).refine(data => data.endTime > data.startTime, {
+  message: "O fim da ausência deve ser depois do início",
+  path: ["endTime"],
+});
+
+export type ProfessorTimeOff = typeof professorTimeOff.$inferSelect;
+export type InsertProfessorTimeOff = typeof professorTimeOff.$inferInsert;
+
+// Feriados valem para todos os professores
+export const holidays = pgTable("holidays", {
+  id: serial("id").primaryKey(),
+  date: text("date").notNull(), // yyyy-MM-dd
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("holidays_date_idx").on(table.date),
+]);
+
+export const holidayValidationSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Data deve estar no formato AAAA-MM-DD"),
+  name: z.string().trim().min(1, "O nome do feriado é obrigatório"),
+});
+
+export type Holiday = typeof holidays.$inferSelect;
+export type InsertHoliday = typeof holidays.$inferInsert;
+
+// Busca de horários livres para agendar um aluno (ranking em server/slot-finder.ts)
+export const slotSearchValidationSchema = z.object({
+  studentId: z.number().int().positive("Aluno é obrigatório"),
+  serviceId: z.number().int().positive().optional(),
+  service: z.string().trim().min(1).optional(),
+  durationMinutes: z.number().int().min(15, "Duração mínima de 15 minutos").max(480, "Duração máxima de 8 horas").optional(),
+  fromDate: diaSchema,
+  toDate: diaSchema,
+  weekDays: z.array(z.number().int().min(0).max(6)).optional(),
+  timeWindows: z.array(z.object({
+    start: horaMinutoSchema,
+    end: horaMinutoSchema,
+  }).refine(window => window.start < window.end, {
+    message: "O fim da faixa de horário deve ser depois do início",
+    path: ["end"],
+  })).optional(),
+  location: z.string().trim().optional(),
+  locationId: z.number().int().positive().optional(),
+  professorIds: z.array(z.number().int().positive()).optional(),
+  excludeAulaId: z.number().int().positive().optional(), // Aula sendo remarcada, que não deve bloquear o horário
+  limit: z.number().int().min(1).max(100).default(20),
+}).refine(data => data.fromDate <= data.toDate, {
+  message: "A data final deve ser igual ou posterior à inicial",
+  path: ["toDate"],
+}).refine(data => data.serviceId || data.service || data.durationMinutes, {
+  message: "Informe o serviço ou a duração da aula",
+  path: ["serviceId"],
+});
+
+export type SlotSearchInput = z.infer<typeof slotSearchValidationSchema>;
+
+// Lista de espera: alunos interessados em horários com um professor, dia da semana ou faixa de horário.
+// Quando uma aula compatível é cancelada, o horário é oferecido por WhatsApp (server/waitlist-service.ts)
+export const waitlistStatusEnum = pgEnum('waitlist_status', ['aguardando', 'atendido', 'cancelado']);
+export const waitlistOfferStatusEnum = pgEnum('waitlist_offer_status', ['pendente', 'aceita', 'recusada', 'expirada', 'preenchida']);
+
+export const waitlistEntries = pgTable("waitlist_entries", {
+  id: serial("id").primaryKey(),
+  leadId: integer("lead_id").references(() => leads.id, { onDelete: 'cascade' }).notNull(),
+  professorId: integer("professor_id").references(() => users.id), // Nulo: qualquer professor
+  weekDays: integer("week_days").array(), // 0 = domingo ... 6 = sábado; vazio/nulo: qualquer dia
+  windowStart: text("window_start"), // HH:mm no fuso da academia; nulo: qualquer horário
+  windowEnd: text("window_end"),
+  service: text("service"), // Nulo: qualquer serviço
+  fromDate: text("from_date"), // yyyy-MM-dd; período em que o aluno aceita o horário
+  untilDate: text("until_date"),
+  notes: text("notes"),
+  status: waitlistStatusEnum("status").default("aguardando").notNull(),
+  createdById: integer("created_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(), // Ordem de prioridade na fila
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("waitlist_entries_status_idx").on(table.status, table.createdAt),
+  index("waitlist_entries_lead_idx").on(table.leadId),
+]);
+
+export const waitlistEntryValidationSchema = z.object({
+  leadId: z.number().int().positive("Aluno é obrigatório"),
+  professorId: z.number().int().positive("ID do professor inválido").nullish(),
+  weekDays: z.array(z.number().int().min(0, "Dia da semana inválido").max(6, "Dia da semana inválido")).nullish(),
+  windowStart: horaMinutoSchema.nullish(),
+  windowEnd: horaMinutoSchema.nullish(),
+  service: z.string().trim().min(1).nullish(),
+  fromDate: diaSchema.nullish(),
+  untilDate: diaSchema.nullish(),
+  notes: z.string().nullish(),
+}).refine(data => !data.windowStart === !data.windowEnd, {
+  message: "Informe o início e o fim da faixa de horário",
+  path: ["windowEnd"],
+}).refine(data => !data.windowStart || !data.windowEnd || data.windowStart < data.windowEnd, {
+  message: "O fim da faixa de horário deve ser depois do início",
+  path: ["windowEnd"],
+}).refine(data => !data.fromDate || !data.untilDate || data.fromDate <= data.untilDate, {
+  message: "A data final deve ser igual ou posterior à inicial",
+  path: ["untilDate"],
+});
+
+export type WaitlistEntry = typeof waitlistEntries.$inferSelect;
+export type InsertWaitlistEntry = typeof waitlistEntries.$inferInsert;
+
+// Oferta de um horário liberado a um aluno da lista de espera; a primeira aceita agenda a aula
+export const waitlistOffers = pgTable("waitlist_offers", {
+  id: serial("id").primaryKey(),
+  entryId: integer("entry_id").references(() => waitlistEntries.id).notNull(),
+  leadId: integer("lead_id").references(() => leads.id, { onDelete: 'cascade' }).notNull(),
+  cancelledAulaId: integer("cancelled_aula_id").references(() => aulas.id).notNull(), // Aula cancelada que liberou o horário
+  status: waitlistOfferStatusEnum("status").default("pendente").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  respondedAt: timestamp("responded_at"),
+  bookedAulaId: integer("booked_aula_id").references(() => aulas.id),
+  confirmedById: integer("confirmed_by_id").references(() => users.id), // Administrador, quando confirmada manualmente
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("waitlist_offers_lead_status_idx").on(table.leadId, table.status),
+  index("waitlist_offers_cancelled_aula_idx").on(table.cancelledAulaId),
+]);
+
+export type WaitlistOffer = typeof waitlistOffers.$inferSelect;
+export type InsertWaitlistOffer = typeof waitlistOffers.$inferInsert;
+
+// Acessos ao portal do aluno: cada pedido gera um link mágico e um código numérico (guardados apenas como hash)
+export const portalAccessTokens = pgTable("portal_access_tokens", {
+  id: serial("id").primaryKey(),
+  leadId: integer("lead_id").references(() => leads.id, { onDelete: 'cascade' }).notNull(),
+  channel: text("channel").notNull(), // "email" ou "whatsapp"
+  tokenHash: text("token_hash").notNull().unique(), // Link mágico
+  codeHash: text("code_hash").notNull(), // Código digitado no portal
+  attempts: integer("attempts").default(0).notNull(), // Tentativas erradas de código
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("portal_access_tokens_lead_idx").on(table.leadId, table.createdAt),
+]);
+
+export type PortalAccessToken = typeof portalAccessTokens.$inferSelect;
+export type InsertPortalAccessToken = typeof portalAccessTokens.$inferInsert;
+
+// Comissão por serviço de cada professor (substitui o valor hora quando definida)
+export const professorCommissions = pgTable("professor_commissions", {
+  id: serial("id").primaryKey(),
+  professorId: integer("professor_id").references(() => users.id).notNull(),
+  service: text("service").notNull(), // Mesmo texto gravado em aulas.service
+  commissionPercent: integer("commission_percent").notNull(), // Percentual sobre o valor da aula (0-100)
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("professor_commissions_unique_idx").on(table.professorId, table.service),
+]);
+
+export const insertProfessorCommissionSchema = createInsertSchema(professorCommissions).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const professorCommissionValidationSchema = insertProfessorCommissionSchema.extend({
+  professorId: z.number().int().positive("ID do professor inválido"),
+  service: z.string().min(1, "Serviço é obrigatório"),
+  commissionPercent: z.number().int().min(0, "Comissão deve ser entre 0 e 100").max(100, "Comissão deve ser entre 0 e 100"),
+});
+
+export type InsertProfessorCommission = z.infer<typeof insertProfessorCommissionSchema>;
+export type ProfessorCommission = typeof professorCommissions.$inferSelect;
+
+// Fechamento mensal: um período fechado não aceita mais alterações nas aulas
+export const financialClosings = pgTable("financial_closings", {
+  id: serial("id").primaryKey(),
+  period: text("period").notNull().unique(), // Formato YYYY-MM
+  closedAt: timestamp("closed_at").defaultNow().notNull(),
+  closedById: integer("closed_by_id").references(() => users.id).notNull(),
+  revenueTotal: integer("revenue_total").notNull(), // Em centavos
+  payrollTotal: integer("payroll_total").notNull(), // Em centavos
+  summary: jsonb("summary").notNull(), // Resumo do período no momento do fechamento
+  notes: text("notes"),
+});
+
+export type FinancialClosing = typeof financialClosings.$inferSelect;
+export type InsertFinancialClosing = typeof financialClosings.$inferInsert;
+
+// Enum para o status de pagamento dos professores
+export const payoutStatusEnum = pgEnum('payout_status', ['pendente', 'pago']);
+
+// Valores devidos a cada professor por período fechado
+export const professorPayouts = pgTable("professor_payouts", {
+  id: serial("id").primaryKey(),
+  closingId: integer("closing_id").references(() => financialClosings.id).notNull(),
+  professorId: integer("professor_id").references(() => users.id).notNull(),
+  period: text("period").notNull(), // Formato YYYY-MM
+  lessonsCount: integer("lessons_count").notNull(),
+  minutesTotal: integer("minutes_total").notNull(),
+  amount: integer("amount").notNull(), // Em centavos
+  status: payoutStatusEnum("status").default("pendente").notNull(),
+  paidAt: timestamp("paid_at"),
+  paidById: integer("paid_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("professor_payouts_unique_idx").on(table.professorId, table.period),
+]);
+
+export type ProfessorPayout = typeof professorPayouts.$inferSelect;
+export type InsertProfessorPayout = typeof professorPayouts.$inferInsert;
+
+// Pacotes de aulas vendidos aos alunos (ex.: 8 ou 12 aulas por mês)
+export const packages = pgTable("packages", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  description: text("description"),
+  service: text("service"), // Serviço coberto pelo pacote (nulo = qualquer serviço)
+  credits: integer("credits").notNull(), // Quantidade de aulas incluídas
+  price: integer("price").notNull(), // Preço em centavos
+  validityDays: integer("validity_days").default(30).notNull(), // Validade dos créditos após a compra
+  active: boolean("active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertPackageSchema = createInsertSchema(packages).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const packageValidationSchema = insertPackageSchema.extend({
+  name: z.string().min(1, "O nome é obrigatório"),
+  credits: z.number().int().positive("A quantidade de aulas deve ser maior que zero"),
+  price: z.number().int().min(0, "O preço não pode ser negativo"),
+  validityDays: z.number().int().positive("A validade deve ser maior que zero").default(30),
+});
+
+export type InsertPackage = z.infer<typeof insertPackageSchema>;
+export type Package = typeof packages.$inferSelect;
+
+// Enum para o status das compras de pacotes
+export const purchaseStatusEnum = pgEnum('purchase_status', ['ativo', 'cancelado']);
+
+// Compras de pacotes: cada compra gera um saldo de créditos com validade
+export const packagePurchases = pgTable("package_purchases", {
+  id: serial("id").primaryKey(),
+  leadId: integer("lead_id").references(() => leads.id).notNull(), // Sem cascata: compras impedem excluir o lead
+  packageId: integer("package_id").references(() => packages.id).notNull(),
+  credits: integer("credits").notNull(), // Copiado do pacote no momento da compra
+  creditsUsed: integer("credits_used").default(0).notNull(),
+  price: integer("price").notNull(), // Em centavos, copiado do pacote (pode ter desconto)
+  status: purchaseStatusEnum("status").default("ativo").notNull(),
+  purchasedAt: timestamp("purchased_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  notes: text("notes"),
+  createdById: integer("created_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("package_purchases_lead_idx").on(table.leadId),
+]);
+
+export type PackagePurchase = typeof packagePurchases.$inferSelect;
+export type InsertPackagePurchase = typeof packagePurchases.$inferInsert;
+
+// Enums para os pagamentos dos alunos
+export const paymentMethodEnum = pgEnum('payment_method', ['pix', 'cartao', 'dinheiro']);
+export const paymentStatusEnum = pgEnum('payment_status', ['pendente', 'pago', 'cancelado']);
+
+// Pagamentos dos alunos; um pagamento pendente com vencimento passado está em atraso
+export const payments = pgTable("payments", {
+  id: serial("id").primaryKey(),
+  leadId: integer("lead_id").references(() => leads.id).notNull(), // Sem cascata: pagamentos impedem excluir o lead
+  purchaseId: integer("purchase_id").references(() => packagePurchases.id),
+  amount: integer("amount").notNull(), // Em centavos
+  method: paymentMethodEnum("method").notNull(),
+  status: paymentStatusEnum("status").default("pendente").notNull(),
+  dueDate: timestamp("due_date").notNull(),
+  paidAt: timestamp("paid_at"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("payments_lead_idx").on(table.leadId),
+  index("payments_status_due_idx").on(table.status, table.dueDate),
+]);
+
+export const insertPaymentSchema = createInsertSchema(payments).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const paymentValidationSchema = insertPaymentSchema.extend({
+  amount: z.number().int().positive("O valor deve ser maior que zero"),
+  method: z.enum(["pix", "cartao", "dinheiro"], {
+    errorMap: () => ({ message: "Forma de pagamento deve ser 'pix', 'cartao' ou 'dinheiro'" })
+  }),
+  status: z.enum(["pendente", "pago", "cancelado"], {
+    errorMap: () => ({ message: "Status deve ser 'pendente', 'pago' ou 'cancelado'" })
+  }).default("pendente"),
+  dueDate: z.union([z.string().transform(val => new Date(val)), z.date()]),
+  paidAt: z.union([z.string().transform(val => new Date(val)), z.date()]).nullable().optional(),
+});
+
+export type InsertPayment = z.infer<typeof insertPaymentSchema>;
+export type Payment = typeof payments.$inferSelect;
+
+// Consumo de créditos: cada aula concluída consome um crédito de uma compra do aluno.
+// purchaseId nulo indica aula concluída sem crédito disponível (saldo devedor).
+export const aulaCreditUsages = pgTable("aula_credit_usages", {
+  id: serial("id").primaryKey(),
+  aulaId: integer("aula_id").references(() => aulas.id).notNull().unique(),
+  leadId: integer("lead_id").references(() => leads.id).notNull(),
+  purchaseId: integer("purchase_id").references(() => packagePurchases.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("aula_credit_usages_lead_idx").on(table.leadId),
+]);
+
+export type AulaCreditUsage = typeof aulaCreditUsages.$inferSelect;
+
+// Enum para o status de envio de e-mails da fila (outbox)
+export const emailStatusEnum = pgEnum('email_status', ['pending', 'sending', 'sent', 'failed']);
+
+// Tabela de fila de e-mails (outbox) - cada envio fica registrado com seu status
+export const emailOutbox = pgTable("email_outbox", {
+  id: serial("id").primaryKey(),
+  toAddress: text("to_address").notNull(),
+  subject: text("subject").notNull(),
+  html: text("html").notNull(),
+  category: text("category").notNull(), // session_confirmation, session_cancellation, session_reminder, session_rescheduled
+  status: emailStatusEnum("status").default("pending").notNull(),
+  attempts: integer("attempts").default(0).notNull(),
+  maxAttempts: integer("max_attempts").default(5).notNull(),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow().notNull(),
+  lastError: text("last_error"),
+  transport: text("transport"), // Transporte usado no último envio (smtp, file, console)
+  providerMessageId: text("provider_message_id"), // ID retornado pelo servidor SMTP
+  leadId: integer("lead_id").references(() => leads.id, { onDelete: 'set null' }), // Aluno destinatário, quando aplicável
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertEmailOutboxSchema = createInsertSchema(emailOutbox).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertEmailOutbox = z.infer<typeof insertEmailOutboxSchema>;
+export type EmailOutbox = typeof emailOutbox.$inferSelect;
+
+// Registro dos lembretes de aula já enviados (evita reenvio após reinicialização do servidor)
+export const sessionReminders = pgTable("session_reminders", {
+  id: serial("id").primaryKey(),
+  targetType: text("target_type").notNull(), // "aula" ou "session" (sistema legado)
+  targetId: integer("target_id").notNull(),
+  startTime: timestamp("start_time"), // Horário lembrado: uma aula remarcada gera novos lembretes (nulo nos registros antigos)
+  offsetMinutes: integer("offset_minutes").notNull(), // Antecedência do lembrete (ex.: 1440 = 24h)
+  channel: text("channel").notNull(), // "email" ou "whatsapp"
+  status: text("status").default("pending").notNull(), // pending, sent, failed, skipped
+  error: text("error"),
+  attempts: integer("attempts").default(1).notNull(),
+  nextAttemptAt: timestamp("next_attempt_at"), // Próxima tentativa de um envio com falha (backoff como na fila de e-mails)
+  leadId: integer("lead_id").references(() => leads.id, { onDelete: 'cascade' }),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("session_reminders_unique_idx").on(table.targetType, table.targetId, table.startTime, table.offsetMinutes, table.channel),
+]);
+
+export const insertSessionReminderSchema = createInsertSchema(sessionReminders).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertSessionReminder = z.infer<typeof insertSessionReminderSchema>;
+export type SessionReminder = typeof sessionReminders.$inferSelect;
+
+// Histórico de alterações por campo (antes/depois) de leads, tarefas, aulas e sessões
+export const entityHistory = pgTable("entity_history", {
+  id: serial("id").primaryKey(),
+  entityType: text("entity_type").notNull(), // lead, task, aula, session
+  entityId: integer("entity_id").notNull(),
+  changedAt: timestamp("changed_at").defaultNow().notNull(),
+  userId: integer("user_id").references(() => users.id), // Quem fez a alteração (nulo para processos automáticos)
+  changes: jsonb("changes").notNull(), // [{ field, oldValue, newValue }]
+}, (table) => [
+  index("entity_history_entity_idx").on(table.entityType, table.entityId),
+]);
+
+export const insertEntityHistorySchema = createInsertSchema(entityHistory).omit({
+  id: true,
+});
+
+export interface FieldChange {
+  field: string;
+  oldValue: unknown;
+  newValue: unknown;
 }
 
+export type InsertEntityHistory = z.infer<typeof insertEntityHistorySchema>;
+export type EntityHistory = Omit<typeof entityHistory.$inferSelect, 'changes'> & { changes: FieldChange[] };
+
+// Tabela de logs de auditoria (antes gravados em logs/audit.log)
+export const auditLogs = pgTable("audit_logs", {
+  id: serial("id").primaryKey(),
+  timestamp: timestamp("timestamp").defaultNow().notNull(),
+  type: text("type").notNull(), // Valor de AuditEventType (ex.: login_success)
+  userId: integer("user_id"), // Nulo para ações anônimas (ex.: falha de login)
+  username: text("username").notNull(),
+  ip: text("ip").notNull(),
+  details: jsonb("details").default({}).notNull(),
+}, (table) => [
+  index("audit_logs_type_idx").on(table.type),
+  index("audit_logs_user_id_idx").on(table.userId),
+  index("audit_logs_timestamp_idx").on(table.timestamp),
+]);
+
+export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({
+  id: true,
+});
+
+export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
+export type AuditLog = typeof auditLogs.$inferSelect;
+
 // Tabela para armazenar sessões HTTP do express-session
 export const httpSessions = pgTable("http_sessions", {
   sid: text("sid").primaryKey(),
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_TRAVEL_SETTINGS,
+  buildTravelContext,
+  estimateTravel,
+  findTravelRule,
+  resolveTravelPoint,
+  type TravelRule,
+} from "./travel";
+
+const rules: TravelRule[] = [{ fromZone: "Zona Sul", toZone: "Centro", minutes: 40 }];
+
+describe("estimateTravel", () => {
+  it("não conta deslocamento no mesmo local, pelo cadastro ou pelo endereço", () => {
+    expect(estimateTravel({ id: 1 }, { id: 1 }, rules)).toEqual({ minutes: 0, source: "mesmo_local" });
+    expect(estimateTravel({ address: "Rua Augusta, 100" }, { address: "rua augusta,  100" }, rules).source).toBe("mesmo_local");
+  });
+
+  it("usa a regra cadastrada para o par de regiões, nos dois sentidos", () => {
+    const estimate = estimateTravel(
+      { id: 1, zone: "centro", latitude: -23.5, longitude: -46.6 },
+      { id: 2, zone: "Zona Sul", latitude: -23.6, longitude: -46.6 },
+      rules
+    );
+
+    expect(estimate).toEqual({ minutes: 40, source: "regra" });
+  });
+
+  it("estima pela distância das coordenadas, arredondando para 5 minutos", () => {
+    // 0,1° de latitude ≈ 11,1 km: 5 min fixos + 11,1 km × 1,4 a 20 km/h ≈ 52 min
+    const estimate = estimateTravel({ id: 1, latitude: -23.5, longitude: -46.6 }, { id: 2, latitude: -23.6, longitude: -46.6 }, []);
+
+    expect(estimate).toEqual({ minutes: 55, source: "distancia", distanceKm: 11.1 });
+  });
+
+  it("usa o tempo da região ou bairro e, sem informação, o tempo padrão", () => {
+    expect(estimateTravel({ id: 1, neighborhood: "Moema" }, { id: 2, neighborhood: "moema" }, rules)).toEqual({
+      minutes: DEFAULT_TRAVEL_SETTINGS.sameZoneMinutes,
+      source: "regiao",
+    });
+    expect(estimateTravel({ name: "Casa do aluno" }, { name: "Academia" }, rules, { ...DEFAULT_TRAVEL_SETTINGS, defaultMinutes: 20 }))
+      .toEqual({ minutes: 20, source: "padrao" });
+  });
+});
+
+describe("findTravelRule", () => {
+  it("ignora acentos e maiúsculas e exige as duas regiões", () => {
+    expect(findTravelRule([{ fromZone: "São Paulo", toZone: "Osasco", minutes: 50 }], "osasco", "SAO PAULO")?.minutes).toBe(50);
+    expect(findTravelRule(rules, "Centro", null)).toBeUndefined();
+  });
+});
+
+describe("resolveTravelPoint", () => {
+  const context = buildTravelContext(
+    [{ id: 1, name: "Academia Central", zone: "Centro" }, { id: 2, name: "Estúdio Sul", zone: "Zona Sul" }],
+    rules,
+    DEFAULT_TRAVEL_SETTINGS
+  );
+
+  it("usa o local cadastrado pelo id ou pelo nome digitado nas aulas antigas", () => {
+    expect(resolveTravelPoint(context, 2, "qualquer").zone).toBe("Zona Sul");
+    expect(resolveTravelPoint(context, null, " academia central ").id).toBe(1);
+    expect(resolveTravelPoint(context, null, "Casa do aluno")).toEqual({ name: "Casa do aluno" });
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Estimativa do tempo de deslocamento do professor entre dois locais de aula, sem depender de API de mapas.
+ * Ordem de decisão: mesmo local (sem deslocamento), regra cadastrada para o par de regiões,
+ * distância pelas coordenadas, mesma região ou bairro e, por fim, o tempo padrão.
+ * Usado pelo servidor na detecção de conflitos e na busca de horários livres.
+ */
+
+// Local de aula já resolvido: cadastrado (com endereço, região e coordenadas) ou apenas o texto digitado
+export interface TravelPoint {
+  id?: number | null;
+  name?: string | null;
+  address?: string | null;
+  neighborhood?: string | null;
+  zone?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+}
+
+// Local como gravado na aula: o cadastro escolhido e/ou o texto exibido na agenda
+export interface AulaLocationRef {
+  locationId?: number | null;
+  location?: string | null;
+}
+
+// Tempo entre duas regiões, válido nos dois sentidos
+export interface TravelRule {
+  fromZone: string;
+  toZone: string;
+  minutes: number;
+}
+
+export interface TravelSettings {
+  defaultMinutes: number; // Locais sem informação suficiente para estimar
+  sameZoneMinutes: number; // Mesma região ou bairro sem regra específica
+  averageSpeedKmh: number; // Velocidade média no trânsito para a estimativa por distância
+}
+
+export const DEFAULT_TRAVEL_SETTINGS: TravelSettings = {
+  defaultMinutes: 30,
+  sameZoneMinutes: 15,
+  averageSpeedKmh: 20,
+};
+
+export type TravelEstimateSource = "mesmo_local" | "regra" | "distancia" | "regiao" | "padrao";
+
+export interface TravelEstimate {
+  minutes: number;
+  source: TravelEstimateSource;
+  distanceKm?: number;
+}
+
+export interface TravelContext {
+  locationsById: Map<number, TravelPoint>;
+  locationsByName: Map<string, TravelPoint>;
+  rules: TravelRule[];
+  settings: TravelSettings;
+}
+
+// Ruas não são linha reta: fator aplicado sobre a distância geodésica
+const ROAD_FACTOR = 1.4;
+// Sair, estacionar e chegar até a porta do aluno
+const FIXED_MINUTES = 5;
+const EARTH_RADIUS_KM = 6371;
+
+export function normalizeTravelText(value?: string | null): string {
+  return (value || "").normalize("NFD").replace(/[\u0300-\u036f]/g, "").replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+function hasCoordinates(point: TravelPoint): point is TravelPoint & { latitude: number; longitude: number } {
+  return typeof point.latitude === "number" && typeof point.longitude === "number";
+}
+
+/**
+ * Distância em linha reta (km) pela fórmula de haversine
+ */
+export function distanceKm(from: { latitude: number; longitude: number }, to: { latitude: number; longitude: number }): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+function roundUpToFive(minutes: number): number {
+  return Math.ceil(minutes / 5) * 5;
+}
+
+function isSamePlace(from: TravelPoint, to: TravelPoint): boolean {
+  if (from.id && to.id) {
+    return from.id === to.id;
+  }
+  const fromKey = normalizeTravelText(from.address) || normalizeTravelText(from.name);
+  const toKey = normalizeTravelText(to.address) || normalizeTravelText(to.name);
+  return !!fromKey && fromKey === toKey;
+}
+
+export function findTravelRule(rules: TravelRule[], zoneA?: string | null, zoneB?: string | null): TravelRule | undefined {
+  const a = normalizeTravelText(zoneA);
+  const b = normalizeTravelText(zoneB);
+  if (!a || !b) {
+    return undefined;
+  }
+  return rules.find(rule => {
+    const from = normalizeTravelText(rule.fromZone);
+    const to = normalizeTravelText(rule.toZone);
+    return (from === a && to === b) || (from === b && to === a);
+  });
+}
+
+export function estimateTravel(
+  from: TravelPoint,
+  to: TravelPoint,
+  rules: TravelRule[],
+  settings: TravelSettings = DEFAULT_TRAVEL_SETTINGS
+): TravelEstimate {
+  if (isSamePlace(from, to)) {
+    return { minutes: 0, source: "mesmo_local" };
+  }
+
+  const rule = findTravelRule(rules, from.zone, to.zone);
+  if (rule) {
+    return { minutes: rule.minutes, source: "regra" };
+  }
+
+  if (hasCoordinates(from) && hasCoordinates(to)) {
+    const km = distanceKm(from, to);
+    const minutes = roundUpToFive(FIXED_MINUTES + (km * ROAD_FACTOR / settings.averageSpeedKmh) * 60);
+    return { minutes, source: "distancia", distanceKm: Math.round(km * 10) / 10 };
+  }
+
+  const sameZone = !!normalizeTravelText(from.zone) && normalizeTravelText(from.zone) === normalizeTravelText(to.zone);
+  const sameNeighborhood = !!normalizeTravelText(from.neighborhood)
+    && normalizeTravelText(from.neighborhood) === normalizeTravelText(to.neighborhood);
+  if (sameZone || sameNeighborhood) {
+    return { minutes: settings.sameZoneMinutes, source: "regiao" };
+  }
+
+  return { minutes: settings.defaultMinutes, source: "padrao" };
+}
+
+export function buildTravelContext(
+  locationsList: (TravelPoint & { id: number })[],
+  rules: TravelRule[],
+  settings: TravelSettings
+): TravelContext {
+  const locationsById = new Map<number, TravelPoint>();
+  const locationsByName = new Map<string, TravelPoint>();
+  locationsList.forEach(location => {
+    locationsById.set(location.id, location);
+    const key = normalizeTravelText(location.name);
+    if (key && !locationsByName.has(key)) {
+      locationsByName.set(key, location);
+    }
+  });
+  return { locationsById, locationsByName, rules, settings };
+}
+
+/**
+ * Local de uma aula: o cadastrado em locationId ou, para aulas antigas com texto livre,
+ * o local cadastrado com o mesmo nome, quando houver
+ */
+export function resolveTravelPoint(context: TravelContext, locationId?: number | null, location?: string | null): TravelPoint {
+  const registered = (locationId ? context.locationsById.get(locationId) : undefined)
+    || context.locationsByName.get(normalizeTravelText(location));
+  return registered || { name: location || null };
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { matchesWaitlistPreferences, type FreedSlot } from "./waitlist";
+
+// Terça-feira, 11/03/2025, das 10:00 às 11:00 em São Paulo (UTC-3)
+const slot: FreedSlot = {
+  professorId: 3,
+  startTime: new Date("2025-03-11T13:00:00.000Z"),
+  endTime: new Date("2025-03-11T14:00:00.000Z"),
+  service: "Personal",
+};
+
+describe("matchesWaitlistPreferences", () => {
+  it("aceita qualquer horário quando não há preferências", () => {
+    expect(matchesWaitlistPreferences({}, slot)).toBe(true);
+  });
+
+  it("confere professor e serviço, sem diferenciar maiúsculas e espaços", () => {
+    expect(matchesWaitlistPreferences({ professorId: 3, service: " personal " }, slot)).toBe(true);
+    expect(matchesWaitlistPreferences({ professorId: 4 }, slot)).toBe(false);
+    expect(matchesWaitlistPreferences({ service: "Pilates" }, slot)).toBe(false);
+  });
+
+  it("usa o dia da semana e a data no fuso da academia", () => {
+    expect(matchesWaitlistPreferences({ weekDays: [2, 4] }, slot)).toBe(true);
+    expect(matchesWaitlistPreferences({ weekDays: [1] }, slot)).toBe(false);
+    expect(matchesWaitlistPreferences({ weekDays: [] }, slot)).toBe(true);
+    // 23:30 de segunda em São Paulo já é terça em UTC
+    const lateSlot = { ...slot, startTime: new Date("2025-03-11T02:30:00.000Z"), endTime: new Date("2025-03-11T03:00:00.000Z") };
+    expect(matchesWaitlistPreferences({ weekDays: [1], untilDate: "2025-03-10" }, lateSlot)).toBe(true);
+  });
+
+  it("respeita o período de datas, inclusive nos limites", () => {
+    expect(matchesWaitlistPreferences({ fromDate: "2025-03-11", untilDate: "2025-03-11" }, slot)).toBe(true);
+    expect(matchesWaitlistPreferences({ fromDate: "2025-03-12" }, slot)).toBe(false);
+    expect(matchesWaitlistPreferences({ untilDate: "2025-03-10" }, slot)).toBe(false);
+  });
+
+  it("exige que a aula inteira caiba na faixa de horário", () => {
+    expect(matchesWaitlistPreferences({ windowStart: "10:00", windowEnd: "11:00" }, slot)).toBe(true);
+    expect(matchesWaitlistPreferences({ windowStart: "10:30", windowEnd: "12:00" }, slot)).toBe(false);
+    expect(matchesWaitlistPreferences({ windowStart: "08:00", windowEnd: "10:30" }, slot)).toBe(false);
+    // Faixa incompleta é ignorada
+    expect(matchesWaitlistPreferences({ windowStart: "12:00" }, slot)).toBe(true);
+  });
+});
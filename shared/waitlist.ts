@@ -0,0 +1,58 @@
+import { formatInTimeZone } from "date-fns-tz";
+import { AVAILABILITY_TIMEZONE } from "./availability";
+
+/**
+ * Lista de espera: decide se um horário liberado (aula cancelada) atende às preferências de um aluno.
+ * Usado pelo servidor ao escolher a quem oferecer o horário e pelo cliente ao descrever as preferências.
+ */
+
+export interface WaitlistPreferences {
+  professorId?: number | null;
+  weekDays?: number[] | null; // 0 = domingo ... 6 = sábado
+  windowStart?: string | null; // HH:mm no fuso da academia
+  windowEnd?: string | null;
+  service?: string | null;
+  fromDate?: string | null; // yyyy-MM-dd
+  untilDate?: string | null;
+}
+
+export interface FreedSlot {
+  professorId: number;
+  startTime: Date;
+  endTime: Date;
+  service: string;
+}
+
+/**
+ * O horário serve ao aluno quando professor, serviço, dia da semana, faixa de horário e período são compatíveis
+ * (preferência não informada aceita qualquer valor)
+ */
+export function matchesWaitlistPreferences(preferences: WaitlistPreferences, slot: FreedSlot): boolean {
+  if (preferences.professorId && preferences.professorId !== slot.professorId) {
+    return false;
+  }
+  if (preferences.service && preferences.service.trim().toLowerCase() !== slot.service.trim().toLowerCase()) {
+    return false;
+  }
+
+  const day = formatInTimeZone(slot.startTime, AVAILABILITY_TIMEZONE, "yyyy-MM-dd");
+  if ((preferences.fromDate && day < preferences.fromDate) || (preferences.untilDate && day > preferences.untilDate)) {
+    return false;
+  }
+
+  const weekDay = Number(formatInTimeZone(slot.startTime, AVAILABILITY_TIMEZONE, "i")) % 7;
+  if (preferences.weekDays && preferences.weekDays.length > 0 && !preferences.weekDays.includes(weekDay)) {
+    return false;
+  }
+
+  if (preferences.windowStart && preferences.windowEnd) {
+    const start = formatInTimeZone(slot.startTime, AVAILABILITY_TIMEZONE, "HH:mm");
+    const endDay = formatInTimeZone(slot.endTime, AVAILABILITY_TIMEZONE, "yyyy-MM-dd");
+    const end = endDay === day ? formatInTimeZone(slot.endTime, AVAILABILITY_TIMEZONE, "HH:mm") : "24:00";
+    if (start < preferences.windowStart || end > preferences.windowEnd) {
+      return false;
+    }
+  }
+
+  return true;
+}